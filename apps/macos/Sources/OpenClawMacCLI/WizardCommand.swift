@@ -204,7 +204,8 @@ actor GatewayWizardClient {
             type: "req",
             id: id,
             method: method,
-            params: params.map { ProtoAnyCodable($0) })
+            params: params.map { ProtoAnyCodable($0) },
+            traceparent: nil)
         let data = try self.encoder.encode(frame)
         try await task.send(.data(data))
 
@@ -315,7 +316,8 @@ actor GatewayWizardClient {
             type: "req",
             id: reqId,
             method: "connect",
-            params: ProtoAnyCodable(params))
+            params: ProtoAnyCodable(params),
+            traceparent: nil)
         let data = try self.encoder.encode(frame)
         try await task.send(.data(data))
 
@@ -119,23 +119,27 @@ public struct RequestFrame: Codable, Sendable {
     public let id: String
     public let method: String
     public let params: AnyCodable?
+    public let traceparent: String?
 
     public init(
         type: String,
         id: String,
         method: String,
-        params: AnyCodable?
+        params: AnyCodable?,
+        traceparent: String?
     ) {
         self.type = type
         self.id = id
         self.method = method
         self.params = params
+        self.traceparent = traceparent
     }
     private enum CodingKeys: String, CodingKey {
         case type
         case id
         case method
         case params
+        case traceparent
     }
 }
 
@@ -895,6 +899,7 @@ public struct NodeInvokeRequestEvent: Codable, Sendable {
     public let paramsjson: String?
     public let timeoutms: Int?
     public let idempotencykey: String?
+    public let traceparent: String?
 
     public init(
         id: String,
@@ -902,7 +907,8 @@ public struct NodeInvokeRequestEvent: Codable, Sendable {
         command: String,
         paramsjson: String?,
         timeoutms: Int?,
-        idempotencykey: String?
+        idempotencykey: String?,
+        traceparent: String?
     ) {
         self.id = id
         self.nodeid = nodeid
@@ -910,6 +916,7 @@ public struct NodeInvokeRequestEvent: Codable, Sendable {
         self.paramsjson = paramsjson
         self.timeoutms = timeoutms
         self.idempotencykey = idempotencykey
+        self.traceparent = traceparent
     }
     private enum CodingKeys: String, CodingKey {
         case id
@@ -918,6 +925,7 @@ public struct NodeInvokeRequestEvent: Codable, Sendable {
         case paramsjson = "paramsJSON"
         case timeoutms = "timeoutMs"
         case idempotencykey = "idempotencyKey"
+        case traceparent
     }
 }
 
@@ -1043,6 +1051,7 @@ public struct SessionsPatchParams: Codable, Sendable {
     public let model: AnyCodable?
     public let spawnedby: AnyCodable?
     public let spawndepth: AnyCodable?
+    public let template: AnyCodable?
     public let sendpolicy: AnyCodable?
     public let groupactivation: AnyCodable?
 
@@ -1061,6 +1070,7 @@ public struct SessionsPatchParams: Codable, Sendable {
         model: AnyCodable?,
         spawnedby: AnyCodable?,
         spawndepth: AnyCodable?,
+        template: AnyCodable?,
         sendpolicy: AnyCodable?,
         groupactivation: AnyCodable?
     ) {
@@ -1078,6 +1088,7 @@ public struct SessionsPatchParams: Codable, Sendable {
         self.model = model
         self.spawnedby = spawnedby
         self.spawndepth = spawndepth
+        self.template = template
         self.sendpolicy = sendpolicy
         self.groupactivation = groupactivation
     }
@@ -1096,6 +1107,7 @@ public struct SessionsPatchParams: Codable, Sendable {
         case model
         case spawnedby = "spawnedBy"
         case spawndepth = "spawnDepth"
+        case template
         case sendpolicy = "sendPolicy"
         case groupactivation = "groupActivation"
     }
@@ -2039,20 +2051,24 @@ public struct SkillsInstallParams: Codable, Sendable {
     public let name: String
     public let installid: String
     public let timeoutms: Int?
+    public let allowdangerouscode: Bool?
 
     public init(
         name: String,
         installid: String,
-        timeoutms: Int?
+        timeoutms: Int?,
+        allowdangerouscode: Bool?
     ) {
         self.name = name
         self.installid = installid
         self.timeoutms = timeoutms
+        self.allowdangerouscode = allowdangerouscode
     }
     private enum CodingKeys: String, CodingKey {
         case name
         case installid = "installId"
         case timeoutms = "timeoutMs"
+        case allowdangerouscode = "allowDangerousCode"
     }
 }
 
@@ -2096,6 +2112,7 @@ public struct CronJob: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: [String: AnyCodable]?
+    public let triggers: [String: AnyCodable]?
     public let state: [String: AnyCodable]
 
     public init(
@@ -2113,6 +2130,7 @@ public struct CronJob: Codable, Sendable {
         wakemode: AnyCodable,
         payload: AnyCodable,
         delivery: [String: AnyCodable]?,
+        triggers: [String: AnyCodable]?,
         state: [String: AnyCodable]
     ) {
         self.id = id
@@ -2129,6 +2147,7 @@ public struct CronJob: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.triggers = triggers
         self.state = state
     }
     private enum CodingKeys: String, CodingKey {
@@ -2146,6 +2165,7 @@ public struct CronJob: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case triggers
         case state
     }
 }
@@ -2178,6 +2198,7 @@ public struct CronAddParams: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: [String: AnyCodable]?
+    public let triggers: [String: AnyCodable]?
 
     public init(
         name: String,
@@ -2190,7 +2211,8 @@ public struct CronAddParams: Codable, Sendable {
         sessiontarget: AnyCodable,
         wakemode: AnyCodable,
         payload: AnyCodable,
-        delivery: [String: AnyCodable]?
+        delivery: [String: AnyCodable]?,
+        triggers: [String: AnyCodable]?
     ) {
         self.name = name
         self.agentid = agentid
@@ -2203,6 +2225,7 @@ public struct CronAddParams: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.triggers = triggers
     }
     private enum CodingKeys: String, CodingKey {
         case name
@@ -2216,6 +2239,7 @@ public struct CronAddParams: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case triggers
     }
 }
 
@@ -2223,6 +2247,8 @@ public struct CronRunLogEntry: Codable, Sendable {
     public let ts: Int
     public let jobid: String
     public let action: String
+    public let runid: String?
+    public let replayof: String?
     public let status: AnyCodable?
     public let error: String?
     public let summary: String?
@@ -2231,11 +2257,17 @@ public struct CronRunLogEntry: Codable, Sendable {
     public let runatms: Int?
     public let durationms: Int?
     public let nextrunatms: Int?
+    public let outputtext: String?
+    public let usage: [String: AnyCodable]?
+    public let delivery: [String: AnyCodable]?
+    public let input: [String: AnyCodable]?
 
     public init(
         ts: Int,
         jobid: String,
         action: String,
+        runid: String?,
+        replayof: String?,
         status: AnyCodable?,
         error: String?,
         summary: String?,
@@ -2243,11 +2275,17 @@ public struct CronRunLogEntry: Codable, Sendable {
         sessionkey: String?,
         runatms: Int?,
         durationms: Int?,
-        nextrunatms: Int?
+        nextrunatms: Int?,
+        outputtext: String?,
+        usage: [String: AnyCodable]?,
+        delivery: [String: AnyCodable]?,
+        input: [String: AnyCodable]?
     ) {
         self.ts = ts
         self.jobid = jobid
         self.action = action
+        self.runid = runid
+        self.replayof = replayof
         self.status = status
         self.error = error
         self.summary = summary
@@ -2256,11 +2294,17 @@ public struct CronRunLogEntry: Codable, Sendable {
         self.runatms = runatms
         self.durationms = durationms
         self.nextrunatms = nextrunatms
+        self.outputtext = outputtext
+        self.usage = usage
+        self.delivery = delivery
+        self.input = input
     }
     private enum CodingKeys: String, CodingKey {
         case ts
         case jobid = "jobId"
         case action
+        case runid = "runId"
+        case replayof = "replayOf"
         case status
         case error
         case summary
@@ -2269,6 +2313,10 @@ public struct CronRunLogEntry: Codable, Sendable {
         case runatms = "runAtMs"
         case durationms = "durationMs"
         case nextrunatms = "nextRunAtMs"
+        case outputtext = "outputText"
+        case usage
+        case delivery
+        case input
     }
 }
 
@@ -2820,6 +2868,323 @@ public struct ShutdownEvent: Codable, Sendable {
     }
 }
 
+public struct WorkflowListParams: Codable, Sendable {
+    public let limit: Int?
+    public let status: AnyCodable?
+    public let agentid: String?
+    public let workflow: String?
+
+    public init(
+        limit: Int?,
+        status: AnyCodable?,
+        agentid: String?,
+        workflow: String?
+    ) {
+        self.limit = limit
+        self.status = status
+        self.agentid = agentid
+        self.workflow = workflow
+    }
+    private enum CodingKeys: String, CodingKey {
+        case limit
+        case status
+        case agentid = "agentId"
+        case workflow
+    }
+}
+
+public struct WorkflowRunParams: Codable, Sendable {
+    public let name: String
+    public let params: [String: AnyCodable]?
+    public let agentid: String?
+    public let sessionkey: String?
+
+    public init(
+        name: String,
+        params: [String: AnyCodable]?,
+        agentid: String?,
+        sessionkey: String?
+    ) {
+        self.name = name
+        self.params = params
+        self.agentid = agentid
+        self.sessionkey = sessionkey
+    }
+    private enum CodingKeys: String, CodingKey {
+        case name
+        case params
+        case agentid = "agentId"
+        case sessionkey = "sessionKey"
+    }
+}
+
+public struct WorkflowStatusParams: Codable, Sendable {
+    public let runid: String
+
+    public init(
+        runid: String
+    ) {
+        self.runid = runid
+    }
+    private enum CodingKeys: String, CodingKey {
+        case runid = "runId"
+    }
+}
+
+public struct WorkflowCancelParams: Codable, Sendable {
+    public let runid: String
+
+    public init(
+        runid: String
+    ) {
+        self.runid = runid
+    }
+    private enum CodingKeys: String, CodingKey {
+        case runid = "runId"
+    }
+}
+
+public struct WorkflowResumeParams: Codable, Sendable {
+    public let runid: String
+
+    public init(
+        runid: String
+    ) {
+        self.runid = runid
+    }
+    private enum CodingKeys: String, CodingKey {
+        case runid = "runId"
+    }
+}
+
+public struct WorkflowRunSummary: Codable, Sendable {
+    public let runid: String
+    public let label: String
+    public let workflowname: String?
+    public let pattern: String
+    public let status: AnyCodable
+    public let active: Bool
+    public let waitingapproval: [String: AnyCodable]?
+    public let requestersessionkey: String
+    public let agentid: String
+    public let totalsteps: Int
+    public let counts: [String: AnyCodable]
+    public let createdatms: Int
+    public let updatedatms: Int
+    public let endedatms: Int?
+    public let error: String?
+
+    public init(
+        runid: String,
+        label: String,
+        workflowname: String?,
+        pattern: String,
+        status: AnyCodable,
+        active: Bool,
+        waitingapproval: [String: AnyCodable]?,
+        requestersessionkey: String,
+        agentid: String,
+        totalsteps: Int,
+        counts: [String: AnyCodable],
+        createdatms: Int,
+        updatedatms: Int,
+        endedatms: Int?,
+        error: String?
+    ) {
+        self.runid = runid
+        self.label = label
+        self.workflowname = workflowname
+        self.pattern = pattern
+        self.status = status
+        self.active = active
+        self.waitingapproval = waitingapproval
+        self.requestersessionkey = requestersessionkey
+        self.agentid = agentid
+        self.totalsteps = totalsteps
+        self.counts = counts
+        self.createdatms = createdatms
+        self.updatedatms = updatedatms
+        self.endedatms = endedatms
+        self.error = error
+    }
+    private enum CodingKeys: String, CodingKey {
+        case runid = "runId"
+        case label
+        case workflowname = "workflowName"
+        case pattern
+        case status
+        case active
+        case waitingapproval = "waitingApproval"
+        case requestersessionkey = "requesterSessionKey"
+        case agentid = "agentId"
+        case totalsteps = "totalSteps"
+        case counts
+        case createdatms = "createdAtMs"
+        case updatedatms = "updatedAtMs"
+        case endedatms = "endedAtMs"
+        case error
+    }
+}
+
+public struct BoardsListParams: Codable, Sendable {
+    public let agentid: String?
+
+    public init(
+        agentid: String?
+    ) {
+        self.agentid = agentid
+    }
+    private enum CodingKeys: String, CodingKey {
+        case agentid = "agentId"
+    }
+}
+
+public struct BoardsReadParams: Codable, Sendable {
+    public let board: String
+    public let agentid: String?
+    public let sincems: Int?
+    public let thread: String?
+    public let limit: Int?
+
+    public init(
+        board: String,
+        agentid: String?,
+        sincems: Int?,
+        thread: String?,
+        limit: Int?
+    ) {
+        self.board = board
+        self.agentid = agentid
+        self.sincems = sincems
+        self.thread = thread
+        self.limit = limit
+    }
+    private enum CodingKeys: String, CodingKey {
+        case board
+        case agentid = "agentId"
+        case sincems = "sinceMs"
+        case thread
+        case limit
+    }
+}
+
+public struct BoardsPostParams: Codable, Sendable {
+    public let board: String
+    public let message: String
+    public let agentid: String?
+    public let from: String?
+    public let tags: [String]?
+    public let replyto: String?
+
+    public init(
+        board: String,
+        message: String,
+        agentid: String?,
+        from: String?,
+        tags: [String]?,
+        replyto: String?
+    ) {
+        self.board = board
+        self.message = message
+        self.agentid = agentid
+        self.from = from
+        self.tags = tags
+        self.replyto = replyto
+    }
+    private enum CodingKeys: String, CodingKey {
+        case board
+        case message
+        case agentid = "agentId"
+        case from
+        case tags
+        case replyto = "replyTo"
+    }
+}
+
+public struct BoardsClearParams: Codable, Sendable {
+    public let board: String
+    public let agentid: String?
+
+    public init(
+        board: String,
+        agentid: String?
+    ) {
+        self.board = board
+        self.agentid = agentid
+    }
+    private enum CodingKeys: String, CodingKey {
+        case board
+        case agentid = "agentId"
+    }
+}
+
+public struct SecurityQuarantineListParams: Codable, Sendable {
+    public let status: AnyCodable?
+    public let limit: Int?
+
+    public init(
+        status: AnyCodable?,
+        limit: Int?
+    ) {
+        self.status = status
+        self.limit = limit
+    }
+    private enum CodingKeys: String, CodingKey {
+        case status
+        case limit
+    }
+}
+
+public struct SecurityQuarantineGetParams: Codable, Sendable {
+    public let id: String
+
+    public init(
+        id: String
+    ) {
+        self.id = id
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+    }
+}
+
+public struct SecurityQuarantineResolveParams: Codable, Sendable {
+    public let id: String
+    public let decision: AnyCodable
+
+    public init(
+        id: String,
+        decision: AnyCodable
+    ) {
+        self.id = id
+        self.decision = decision
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case decision
+    }
+}
+
+public struct SecurityAuditLatestParams: Codable, Sendable {
+}
+
+public struct SecurityAuditHistoryParams: Codable, Sendable {
+    public let limit: Int?
+    public let includefindings: Bool?
+
+    public init(
+        limit: Int?,
+        includefindings: Bool?
+    ) {
+        self.limit = limit
+        self.includefindings = includefindings
+    }
+    private enum CodingKeys: String, CodingKey {
+        case limit
+        case includefindings = "includeFindings"
+    }
+}
+
 public enum GatewayFrame: Codable, Sendable {
     case req(RequestFrame)
     case res(ResponseFrame)
@@ -377,7 +377,8 @@ public actor GatewayChannelActor {
             type: "req",
             id: reqId,
             method: "connect",
-            params: ProtoAnyCodable(params))
+            params: ProtoAnyCodable(params),
+            traceparent: nil)
         let data = try self.encoder.encode(frame)
         try await self.task?.send(.data(data))
         do {
@@ -704,7 +705,8 @@ public actor GatewayChannelActor {
             type: "req",
             id: id,
             method: method,
-            params: paramsObject)
+            params: paramsObject,
+            traceparent: nil)
         do {
             let data = try self.encoder.encode(frame)
             return (id: id, data: data)
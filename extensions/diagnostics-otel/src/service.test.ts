@@ -5,11 +5,18 @@ const registerLogTransportMock = vi.hoisted(() => vi.fn());
 const telemetryState = vi.hoisted(() => {
   const counters = new Map<string, { add: ReturnType<typeof vi.fn> }>();
   const histograms = new Map<string, { record: ReturnType<typeof vi.fn> }>();
+  let spanSeq = 0;
   const tracer = {
-    startSpan: vi.fn((_name: string, _opts?: unknown) => ({
-      end: vi.fn(),
-      setStatus: vi.fn(),
-    })),
+    startSpan: vi.fn((_name: string, _opts?: unknown, _ctx?: unknown) => {
+      const spanId = (spanSeq += 1).toString(16).padStart(16, "0");
+      return {
+        end: vi.fn(),
+        setStatus: vi.fn(),
+        setAttributes: vi.fn(),
+        recordException: vi.fn(),
+        spanContext: () => ({ traceId: "a".repeat(32), spanId, traceFlags: 1 }),
+      };
+    }),
   };
   const meter = {
     createCounter: vi.fn((name: string) => {
@@ -32,11 +39,23 @@ const logEmit = vi.hoisted(() => vi.fn());
 const logShutdown = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
 
 vi.mock("@opentelemetry/api", () => ({
+  context: {
+    active: () => ({ active: true }),
+  },
   metrics: {
     getMeter: () => telemetryState.meter,
   },
+  ROOT_CONTEXT: { root: true },
   trace: {
     getTracer: () => telemetryState.tracer,
+    setSpanContext: (_ctx: unknown, spanContext: unknown) => ({ parent: spanContext }),
+  },
+  SpanKind: {
+    INTERNAL: 0,
+    SERVER: 1,
+    CLIENT: 2,
+    PRODUCER: 3,
+    CONSUMER: 4,
   },
   SpanStatusCode: {
     ERROR: 2,
@@ -104,7 +123,7 @@ vi.mock("openclaw/plugin-sdk", async () => {
   };
 });
 
-import { emitDiagnosticEvent } from "openclaw/plugin-sdk";
+import { emitDiagnosticEvent, withDiagnosticSpan } from "openclaw/plugin-sdk";
 import { createDiagnosticsOtelService } from "./service.js";
 
 describe("diagnostics-otel service", () => {
@@ -224,4 +243,54 @@ describe("diagnostics-otel service", () => {
 
     await service.stop?.();
   });
+
+  test("exports core spans as a parent/child tree and stops on shutdown", async () => {
+    const service = createDiagnosticsOtelService();
+    await service.start({
+      config: {
+        diagnostics: {
+          enabled: true,
+          otel: { enabled: true, protocol: "http/protobuf", traces: true, metrics: false },
+        },
+      },
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    });
+
+    await withDiagnosticSpan("openclaw.message.inbound", { kind: "server" }, async () => {
+      await withDiagnosticSpan("openclaw.tool.call", {}, async () => {
+        emitDiagnosticEvent({
+          type: "message.processed",
+          channel: "telegram",
+          outcome: "error",
+          error: "boom",
+        });
+      });
+    });
+
+    const calls = telemetryState.tracer.startSpan.mock.calls;
+    expect(calls.map((call) => call[0])).toEqual([
+      "openclaw.message.inbound",
+      "openclaw.tool.call",
+      "openclaw.message.processed",
+    ]);
+    const rootSpan = telemetryState.tracer.startSpan.mock.results[0]?.value as {
+      spanContext: () => { spanId: string };
+    };
+    const toolSpan = telemetryState.tracer.startSpan.mock.results[1]?.value as {
+      spanContext: () => { spanId: string };
+    };
+    expect(calls[0]?.[1]).toMatchObject({ kind: 1 });
+    expect(calls[0]?.[2]).toEqual({ root: true });
+    expect(calls[1]?.[2]).toEqual({
+      parent: expect.objectContaining({ spanId: rootSpan.spanContext().spanId, isRemote: true }),
+    });
+    expect(calls[2]?.[2]).toEqual({
+      parent: expect.objectContaining({ spanId: toolSpan.spanContext().spanId }),
+    });
+
+    await service.stop?.();
+    telemetryState.tracer.startSpan.mockClear();
+    await withDiagnosticSpan("openclaw.after.stop", {}, async () => {});
+    expect(telemetryState.tracer.startSpan).not.toHaveBeenCalled();
+  });
 });
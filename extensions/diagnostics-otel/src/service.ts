@@ -1,6 +1,20 @@
+import type { Context, Span } from "@opentelemetry/api";
 import type { SeverityNumber } from "@opentelemetry/api-logs";
-import type { DiagnosticEventPayload, OpenClawPluginService } from "openclaw/plugin-sdk";
-import { metrics, trace, SpanStatusCode } from "@opentelemetry/api";
+import type {
+  DiagnosticEventPayload,
+  DiagnosticSpanAttributes,
+  DiagnosticSpanKind,
+  DiagnosticTraceContext,
+  OpenClawPluginService,
+} from "openclaw/plugin-sdk";
+import {
+  context,
+  metrics,
+  ROOT_CONTEXT,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+} from "@opentelemetry/api";
 import { OTLPLogExporter } from "@opentelemetry/exporter-logs-otlp-http";
 import { OTLPMetricExporter } from "@opentelemetry/exporter-metrics-otlp-http";
 import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
@@ -10,7 +24,12 @@ import { PeriodicExportingMetricReader } from "@opentelemetry/sdk-metrics";
 import { NodeSDK } from "@opentelemetry/sdk-node";
 import { ParentBasedSampler, TraceIdRatioBasedSampler } from "@opentelemetry/sdk-trace-base";
 import { SemanticResourceAttributes } from "@opentelemetry/semantic-conventions";
-import { onDiagnosticEvent, registerLogTransport } from "openclaw/plugin-sdk";
+import {
+  getActiveTraceContext,
+  onDiagnosticEvent,
+  registerDiagnosticTracer,
+  registerLogTransport,
+} from "openclaw/plugin-sdk";
 
 const DEFAULT_SERVICE_NAME = "openclaw";
 
@@ -29,6 +48,40 @@ function resolveOtelUrl(endpoint: string | undefined, path: string): string | un
   return `${endpoint}/${path}`;
 }
 
+const SPAN_KINDS: Record<DiagnosticSpanKind, SpanKind> = {
+  internal: SpanKind.INTERNAL,
+  server: SpanKind.SERVER,
+  client: SpanKind.CLIENT,
+  producer: SpanKind.PRODUCER,
+  consumer: SpanKind.CONSUMER,
+};
+
+function toOtelAttributes(
+  attributes: DiagnosticSpanAttributes,
+): Record<string, string | number | boolean> {
+  const out: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+function toOtelContext(parent: DiagnosticTraceContext | undefined): Context {
+  return parent
+    ? trace.setSpanContext(context.active(), { ...parent, isRemote: true })
+    : ROOT_CONTEXT;
+}
+
+function recordSpanError(span: Span, err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  if (err instanceof Error) {
+    span.recordException(err);
+  }
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
 function resolveSampleRate(value: number | undefined): number | undefined {
   if (typeof value !== "number" || !Number.isFinite(value)) {
     return undefined;
@@ -44,6 +97,7 @@ export function createDiagnosticsOtelService(): OpenClawPluginService {
   let logProvider: LoggerProvider | null = null;
   let stopLogTransport: (() => void) | null = null;
   let unsubscribe: (() => void) | null = null;
+  let stopTracer: (() => void) | null = null;
 
   return {
     id: "diagnostics-otel",
@@ -329,13 +383,47 @@ export function createDiagnosticsOtelService(): OpenClawPluginService {
       ) => {
         const startTime =
           typeof durationMs === "number" ? Date.now() - Math.max(0, durationMs) : undefined;
-        const span = tracer.startSpan(name, {
-          attributes,
-          ...(startTime ? { startTime } : {}),
-        });
+        // Events emitted inside a traced turn land in that turn's span tree.
+        const span = tracer.startSpan(
+          name,
+          {
+            attributes,
+            ...(startTime ? { startTime } : {}),
+          },
+          toOtelContext(getActiveTraceContext()),
+        );
         return span;
       };
 
+      if (tracesEnabled) {
+        stopTracer = registerDiagnosticTracer({
+          startSpan: (name, params) => {
+            const span = tracer.startSpan(
+              name,
+              {
+                kind: SPAN_KINDS[params.kind],
+                attributes: toOtelAttributes(params.attributes),
+                links: params.links.map((link) => ({ context: { ...link, isRemote: true } })),
+              },
+              toOtelContext(params.parent),
+            );
+            const spanContext = span.spanContext();
+            return {
+              context: {
+                traceId: spanContext.traceId,
+                spanId: spanContext.spanId,
+                traceFlags: spanContext.traceFlags,
+              },
+              setAttributes: (attributes) => {
+                span.setAttributes(toOtelAttributes(attributes));
+              },
+              recordError: (err) => recordSpanError(span, err),
+              end: () => span.end(),
+            };
+          },
+        });
+      }
+
       const recordModelUsage = (evt: Extract<DiagnosticEventPayload, { type: "model.usage" }>) => {
         const attrs = {
           "openclaw.channel": evt.channel ?? "unknown",
@@ -449,9 +537,11 @@ export function createDiagnosticsOtelService(): OpenClawPluginService {
         if (evt.chatId !== undefined) {
           spanAttrs["openclaw.chatId"] = String(evt.chatId);
         }
-        const span = tracer.startSpan("openclaw.webhook.error", {
-          attributes: spanAttrs,
-        });
+        const span = tracer.startSpan(
+          "openclaw.webhook.error",
+          { attributes: spanAttrs },
+          toOtelContext(getActiveTraceContext()),
+        );
         span.setStatus({ code: SpanStatusCode.ERROR, message: evt.error });
         span.end();
       };
@@ -618,6 +708,8 @@ export function createDiagnosticsOtelService(): OpenClawPluginService {
     async stop() {
       unsubscribe?.();
       unsubscribe = null;
+      stopTracer?.();
+      stopTracer = null;
       stopLogTransport?.();
       stopLogTransport = null;
       if (logProvider) {
@@ -0,0 +1,25 @@
+import path from "node:path";
+import type { BoardMessage } from "./types.js";
+
+type BoardPostEvent = {
+  workspaceDir: string;
+  message: BoardMessage;
+};
+
+type BoardPostListener = (event: BoardPostEvent) => void;
+
+const BOARD_POST_LISTENERS = new Set<BoardPostListener>();
+
+export function onBoardPost(listener: BoardPostListener): () => void {
+  BOARD_POST_LISTENERS.add(listener);
+  return () => {
+    BOARD_POST_LISTENERS.delete(listener);
+  };
+}
+
+export function emitBoardPost(event: BoardPostEvent): void {
+  const resolved = { ...event, workspaceDir: path.resolve(event.workspaceDir) };
+  for (const listener of BOARD_POST_LISTENERS) {
+    listener(resolved);
+  }
+}
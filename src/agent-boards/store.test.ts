@@ -0,0 +1,109 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { peekSystemEvents, resetSystemEventsForTest } from "../infra/system-events.js";
+import { onBoardPost } from "./events.js";
+import {
+  compactBoard,
+  listBoardSubscriptions,
+  listBoards,
+  postBoardMessage,
+  readBoardMessages,
+  selectBoardThread,
+  subscribeBoard,
+  unsubscribeBoard,
+} from "./store.js";
+
+describe("agent board store", () => {
+  let workspaceDir = "";
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-boards-"));
+    resetSystemEventsForTest();
+  });
+
+  afterEach(async () => {
+    resetSystemEventsForTest();
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("wakes matching subscribers but not the posting session", async () => {
+    await subscribeBoard(workspaceDir, { board: "research", sessionKey: "agent:main:a" });
+    await subscribeBoard(workspaceDir, {
+      board: "*",
+      sessionKey: "agent:main:b",
+      tags: ["urgent"],
+    });
+    const posts: string[] = [];
+    const unsubscribe = onBoardPost((evt) => posts.push(evt.message.id));
+
+    const first = await postBoardMessage(workspaceDir, {
+      board: "research",
+      from: "a",
+      message: "own post",
+      sessionKey: "agent:main:a",
+    });
+    expect(first.notified).toEqual([]);
+
+    const second = await postBoardMessage(workspaceDir, {
+      board: "research",
+      from: "c",
+      message: "found it",
+      tags: ["urgent"],
+      sessionKey: "agent:main:c",
+    });
+    unsubscribe();
+
+    expect(second.notified.toSorted()).toEqual(["agent:main:a", "agent:main:b"]);
+    expect(peekSystemEvents("agent:main:a")[0]).toContain('Board "research"');
+    expect(peekSystemEvents("agent:main:a")[0]).toContain("found it");
+    expect(posts).toEqual([first.message.id, second.message.id]);
+
+    expect(
+      await unsubscribeBoard(workspaceDir, { sessionKey: "agent:main:a", board: "research" }),
+    ).toBe(1);
+    expect(await listBoardSubscriptions(workspaceDir)).toHaveLength(1);
+  });
+
+  it("threads replies under the root message", async () => {
+    const root = await postBoardMessage(workspaceDir, { board: "b", from: "a", message: "q" });
+    const reply = await postBoardMessage(workspaceDir, {
+      board: "b",
+      from: "b",
+      message: "a1",
+      replyTo: root.message.id,
+    });
+    await postBoardMessage(workspaceDir, {
+      board: "b",
+      from: "c",
+      message: "a2",
+      replyTo: reply.message.id,
+    });
+    await postBoardMessage(workspaceDir, { board: "b", from: "d", message: "other" });
+
+    const messages = await readBoardMessages(workspaceDir, "b");
+    const thread = selectBoardThread(messages, reply.message.id);
+    expect(thread.map((m) => m.message)).toEqual(["q", "a1", "a2"]);
+    expect(thread.every((m) => m === thread[0] || m.threadId === root.message.id)).toBe(true);
+
+    await expect(
+      postBoardMessage(workspaceDir, { board: "b", from: "x", message: "?", replyTo: "missing" }),
+    ).rejects.toThrow("replyTo message not found");
+  });
+
+  it("applies per-board retention on post and compact", async () => {
+    for (const n of [1, 2, 3, 4]) {
+      await postBoardMessage(workspaceDir, { board: "log", from: "a", message: `m${n}` });
+    }
+    const compacted = await compactBoard(workspaceDir, "log", { maxMessages: 2 });
+    expect(compacted).toMatchObject({ removed: 2, remaining: 2 });
+
+    await postBoardMessage(workspaceDir, { board: "log", from: "a", message: "m5" });
+    const messages = await readBoardMessages(workspaceDir, "log");
+    expect(messages.map((m) => m.message)).toEqual(["m4", "m5"]);
+
+    const [summary] = await listBoards(workspaceDir);
+    expect(summary).toMatchObject({ name: "log", count: 2, retention: { maxMessages: 2 } });
+  });
+});
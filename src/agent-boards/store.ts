@@ -0,0 +1,363 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  BoardIndexFile,
+  BoardMessage,
+  BoardRetention,
+  BoardSubscription,
+  BoardSummary,
+} from "./types.js";
+import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import { enqueueSystemEvent } from "../infra/system-events.js";
+import { emitBoardPost } from "./events.js";
+
+export const AGENT_BOARDS_DIRNAME = ".agent-boards";
+/** Retention applied to boards without their own settings. */
+export const DEFAULT_BOARD_RETENTION: Required<BoardRetention> = {
+  maxMessages: 1000,
+  maxAgeHours: 0,
+};
+/** Matches every board in a subscription. */
+export const ALL_BOARDS = "*";
+
+const INDEX_FILENAME = "index.json";
+const WAKE_PREVIEW_CHARS = 400;
+
+// Posts, compaction and index updates read-modify-write the same files.
+const withLock = createAsyncLock();
+
+export function resolveBoardsDir(workspaceDir: string): string {
+  return path.join(workspaceDir, AGENT_BOARDS_DIRNAME);
+}
+
+/** File-safe board key; boards are listed and matched by this name. */
+export function normalizeBoardName(board: string): string {
+  return board.trim().replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+function boardPath(workspaceDir: string, board: string): string {
+  return path.join(resolveBoardsDir(workspaceDir), `${normalizeBoardName(board)}.jsonl`);
+}
+
+function indexPath(workspaceDir: string): string {
+  return path.join(resolveBoardsDir(workspaceDir), INDEX_FILENAME);
+}
+
+function normalizeTags(tags: unknown): string[] | undefined {
+  if (!Array.isArray(tags)) {
+    return undefined;
+  }
+  const out = [
+    ...new Set(
+      tags
+        .filter((tag): tag is string => typeof tag === "string")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    ),
+  ];
+  return out.length > 0 ? out : undefined;
+}
+
+async function loadIndex(workspaceDir: string): Promise<BoardIndexFile> {
+  const raw = await readJsonFile<Partial<BoardIndexFile>>(indexPath(workspaceDir));
+  return {
+    version: 1,
+    boards: raw?.boards && typeof raw.boards === "object" ? raw.boards : {},
+    subscriptions: Array.isArray(raw?.subscriptions) ? raw.subscriptions : [],
+  };
+}
+
+async function saveIndex(workspaceDir: string, index: BoardIndexFile): Promise<void> {
+  await writeJsonAtomic(indexPath(workspaceDir), index, { mode: 0o644 });
+}
+
+export async function readBoardMessages(
+  workspaceDir: string,
+  board: string,
+): Promise<BoardMessage[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(boardPath(workspaceDir, board), "utf-8");
+  } catch {
+    return [];
+  }
+  return raw
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      try {
+        return JSON.parse(line) as BoardMessage;
+      } catch {
+        return null;
+      }
+    })
+    .filter((m): m is BoardMessage => m !== null);
+}
+
+async function writeBoardMessages(workspaceDir: string, board: string, messages: BoardMessage[]) {
+  const filePath = boardPath(workspaceDir, board);
+  const tmp = `${filePath}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tmp, messages.map((m) => `${JSON.stringify(m)}\n`).join(""), "utf-8");
+  await fs.rename(tmp, filePath);
+}
+
+function resolveRetention(index: BoardIndexFile, board: string): Required<BoardRetention> {
+  const retention = index.boards[normalizeBoardName(board)]?.retention;
+  return {
+    maxMessages: retention?.maxMessages ?? DEFAULT_BOARD_RETENTION.maxMessages,
+    maxAgeHours: retention?.maxAgeHours ?? DEFAULT_BOARD_RETENTION.maxAgeHours,
+  };
+}
+
+function applyRetention(
+  messages: BoardMessage[],
+  retention: Required<BoardRetention>,
+  now: number,
+): BoardMessage[] {
+  let kept = messages;
+  if (retention.maxAgeHours > 0) {
+    const cutoff = now - retention.maxAgeHours * 60 * 60 * 1000;
+    kept = kept.filter((m) => m.timestamp >= cutoff);
+  }
+  if (retention.maxMessages > 0 && kept.length > retention.maxMessages) {
+    kept = kept.slice(-retention.maxMessages);
+  }
+  return kept;
+}
+
+async function compactUnlocked(workspaceDir: string, board: string, index: BoardIndexFile) {
+  const messages = await readBoardMessages(workspaceDir, board);
+  const kept = applyRetention(messages, resolveRetention(index, board), Date.now());
+  if (kept.length !== messages.length) {
+    await writeBoardMessages(workspaceDir, board, kept);
+  }
+  return { removed: messages.length - kept.length, remaining: kept.length };
+}
+
+export function matchesBoardSubscription(sub: BoardSubscription, message: BoardMessage): boolean {
+  if (sub.board !== ALL_BOARDS && sub.board !== normalizeBoardName(message.board)) {
+    return false;
+  }
+  if (message.sessionKey && message.sessionKey === sub.sessionKey) {
+    return false;
+  }
+  if (sub.tags?.length) {
+    return Boolean(message.tags?.some((tag) => sub.tags?.includes(tag)));
+  }
+  return true;
+}
+
+export function formatBoardWakeText(message: BoardMessage): string {
+  const preview =
+    message.message.length > WAKE_PREVIEW_CHARS
+      ? `${message.message.slice(0, WAKE_PREVIEW_CHARS)}…`
+      : message.message;
+  const tags = message.tags?.length ? ` [${message.tags.join(", ")}]` : "";
+  const reply = message.replyTo ? ` (reply to ${message.replyTo})` : "";
+  return `Board "${message.board}" post ${message.id} from ${message.from}${tags}${reply}: ${preview}`;
+}
+
+/**
+ * Append a message, apply the board's retention and wake subscribed sessions
+ * through the system-event queue. Returns the stored message and how many
+ * sessions were notified.
+ */
+export async function postBoardMessage(
+  workspaceDir: string,
+  params: {
+    board: string;
+    message: string;
+    from: string;
+    tags?: string[];
+    replyTo?: string;
+    sessionKey?: string;
+  },
+): Promise<{ message: BoardMessage; notified: string[] }> {
+  const { message, subscriptions } = await withLock(async () => {
+    const index = await loadIndex(workspaceDir);
+    let threadId: string | undefined;
+    if (params.replyTo) {
+      const parent = (await readBoardMessages(workspaceDir, params.board)).find(
+        (m) => m.id === params.replyTo,
+      );
+      if (!parent) {
+        throw new Error(`replyTo message not found on board ${params.board}: ${params.replyTo}`);
+      }
+      threadId = parent.threadId ?? parent.id;
+    }
+    const tags = normalizeTags(params.tags);
+    const msg: BoardMessage = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      board: params.board,
+      from: params.from,
+      message: params.message,
+      timestamp: Date.now(),
+      ...(tags ? { tags } : {}),
+      ...(params.replyTo ? { replyTo: params.replyTo, threadId } : {}),
+      ...(params.sessionKey ? { sessionKey: params.sessionKey } : {}),
+    };
+    await fs.mkdir(resolveBoardsDir(workspaceDir), { recursive: true });
+    await fs.appendFile(boardPath(workspaceDir, params.board), `${JSON.stringify(msg)}\n`);
+    await compactUnlocked(workspaceDir, params.board, index);
+    return {
+      message: msg,
+      subscriptions: index.subscriptions.filter((sub) => matchesBoardSubscription(sub, msg)),
+    };
+  });
+
+  const notified = [...new Set(subscriptions.map((sub) => sub.sessionKey))];
+  if (notified.length > 0) {
+    const text = formatBoardWakeText(message);
+    for (const sessionKey of notified) {
+      enqueueSystemEvent(text, { sessionKey, contextKey: `board:${message.board}` });
+    }
+    requestHeartbeatNow({ reason: `board:${normalizeBoardName(message.board)}` });
+  }
+  emitBoardPost({ workspaceDir, message });
+  return { message, notified };
+}
+
+/** Messages in the thread rooted at (or containing) `messageId`, oldest first. */
+export function selectBoardThread(messages: BoardMessage[], messageId: string): BoardMessage[] {
+  const target = messages.find((m) => m.id === messageId);
+  if (!target) {
+    return [];
+  }
+  const rootId = target.threadId ?? target.id;
+  return messages.filter((m) => m.id === rootId || m.threadId === rootId);
+}
+
+export async function listBoards(workspaceDir: string): Promise<BoardSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(resolveBoardsDir(workspaceDir));
+  } catch {
+    return [];
+  }
+  const index = await loadIndex(workspaceDir);
+  const names = files
+    .filter((f) => f.endsWith(".jsonl"))
+    .map((f) => f.slice(0, -".jsonl".length))
+    .toSorted();
+  const out: BoardSummary[] = [];
+  for (const name of names) {
+    const messages = await readBoardMessages(workspaceDir, name);
+    const last = messages.at(-1);
+    out.push({
+      name,
+      count: messages.length,
+      ...(last ? { lastPostAt: last.timestamp } : {}),
+      retention: resolveRetention(index, name),
+      subscribers: index.subscriptions.filter(
+        (sub) => sub.board === name || sub.board === ALL_BOARDS,
+      ).length,
+    });
+  }
+  return out;
+}
+
+export async function clearBoard(workspaceDir: string, board: string): Promise<boolean> {
+  return await withLock(async () => {
+    try {
+      await fs.unlink(boardPath(workspaceDir, board));
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/** Apply retention now; also persists new retention settings when given. */
+export async function compactBoard(
+  workspaceDir: string,
+  board: string,
+  retention?: BoardRetention,
+): Promise<{ removed: number; remaining: number; retention: Required<BoardRetention> }> {
+  return await withLock(async () => {
+    const index = await loadIndex(workspaceDir);
+    if (retention) {
+      const key = normalizeBoardName(board);
+      index.boards[key] = {
+        ...index.boards[key],
+        retention: { ...index.boards[key]?.retention, ...retention },
+      };
+      await saveIndex(workspaceDir, index);
+    }
+    const result = await compactUnlocked(workspaceDir, board, index);
+    return { ...result, retention: resolveRetention(index, board) };
+  });
+}
+
+/** Subscribe a session to a board (or "*"); re-subscribing replaces the tag filter. */
+export async function subscribeBoard(
+  workspaceDir: string,
+  params: { board: string; sessionKey: string; tags?: string[] },
+): Promise<BoardSubscription> {
+  const board = params.board.trim() === ALL_BOARDS ? ALL_BOARDS : normalizeBoardName(params.board);
+  const tags = normalizeTags(params.tags);
+  return await withLock(async () => {
+    const index = await loadIndex(workspaceDir);
+    const existing = index.subscriptions.find(
+      (sub) => sub.board === board && sub.sessionKey === params.sessionKey,
+    );
+    const next: BoardSubscription = {
+      id: existing?.id ?? crypto.randomUUID(),
+      board,
+      sessionKey: params.sessionKey,
+      ...(tags ? { tags } : {}),
+      createdAt: existing?.createdAt ?? Date.now(),
+    };
+    index.subscriptions = [...index.subscriptions.filter((sub) => sub.id !== next.id), next];
+    await saveIndex(workspaceDir, index);
+    return next;
+  });
+}
+
+/** Remove subscriptions by id, or every subscription of a session (optionally for one board). */
+export async function unsubscribeBoard(
+  workspaceDir: string,
+  params: { id?: string; sessionKey?: string; board?: string },
+): Promise<number> {
+  const board =
+    params.board === undefined
+      ? undefined
+      : params.board.trim() === ALL_BOARDS
+        ? ALL_BOARDS
+        : normalizeBoardName(params.board);
+  if (!params.id && !params.sessionKey) {
+    return 0;
+  }
+  return await withLock(async () => {
+    const index = await loadIndex(workspaceDir);
+    const before = index.subscriptions.length;
+    index.subscriptions = index.subscriptions.filter((sub) => {
+      if (params.id) {
+        return sub.id !== params.id;
+      }
+      if (params.sessionKey && sub.sessionKey !== params.sessionKey) {
+        return true;
+      }
+      return board !== undefined && sub.board !== board;
+    });
+    const removed = before - index.subscriptions.length;
+    if (removed > 0) {
+      await saveIndex(workspaceDir, index);
+    }
+    return removed;
+  });
+}
+
+export async function listBoardSubscriptions(
+  workspaceDir: string,
+  params: { sessionKey?: string; board?: string } = {},
+): Promise<BoardSubscription[]> {
+  const index = await loadIndex(workspaceDir);
+  const board = params.board ? normalizeBoardName(params.board) : undefined;
+  return index.subscriptions.filter(
+    (sub) =>
+      (!params.sessionKey || sub.sessionKey === params.sessionKey) &&
+      (!board || sub.board === board || sub.board === ALL_BOARDS),
+  );
+}
@@ -0,0 +1,46 @@
+export type BoardMessage = {
+  id: string;
+  board: string;
+  from: string;
+  message: string;
+  timestamp: number;
+  tags?: string[];
+  /** Message this post answers. */
+  replyTo?: string;
+  /** Root message of the thread (set on replies). */
+  threadId?: string;
+  /** Posting session; subscriptions never wake the session that posted. */
+  sessionKey?: string;
+};
+
+export type BoardRetention = {
+  /** Keep at most this many messages (0 = unlimited). */
+  maxMessages?: number;
+  /** Drop messages older than this many hours (0 = unlimited). */
+  maxAgeHours?: number;
+};
+
+export type BoardSubscription = {
+  id: string;
+  /** Board name, or "*" for every board. */
+  board: string;
+  /** Session woken on matching posts. */
+  sessionKey: string;
+  /** Only posts carrying at least one of these tags match. */
+  tags?: string[];
+  createdAt: number;
+};
+
+export type BoardIndexFile = {
+  version: 1;
+  boards: Record<string, { retention?: BoardRetention }>;
+  subscriptions: BoardSubscription[];
+};
+
+export type BoardSummary = {
+  name: string;
+  count: number;
+  lastPostAt?: number;
+  retention: BoardRetention;
+  subscribers: number;
+};
@@ -1,5 +1,6 @@
 import type { OpenClawConfig } from "../config/config.js";
 import type { EmbeddedContextFile } from "./pi-embedded-helpers.js";
+import { resolveSessionTemplateForSession } from "../sessions/templates.js";
 import { applyBootstrapHookOverrides } from "./bootstrap-hooks.js";
 import {
   buildBootstrapContextFiles,
@@ -8,6 +9,7 @@ import {
 } from "./pi-embedded-helpers.js";
 import {
   filterBootstrapFilesForSession,
+  loadExtraBootstrapFiles,
   loadWorkspaceBootstrapFiles,
   type WorkspaceBootstrapFile,
 } from "./workspace.js";
@@ -34,6 +36,19 @@ export async function resolveBootstrapFilesForRun(params: {
     await loadWorkspaceBootstrapFiles(params.workspaceDir),
     sessionKey,
   );
+  // Template files are opted into explicitly, so they bypass the subagent/cron allowlist.
+  const templateFiles = resolveSessionTemplateForSession({
+    cfg: params.config,
+    sessionKey: params.sessionKey,
+  })?.bootstrapFiles;
+  if (templateFiles?.length) {
+    const loaded = new Set(bootstrapFiles.map((file) => file.path));
+    for (const file of await loadExtraBootstrapFiles(params.workspaceDir, templateFiles)) {
+      if (!loaded.has(file.path)) {
+        bootstrapFiles.push(file);
+      }
+    }
+  }
 
   return applyBootstrapHookOverrides({
     files: bootstrapFiles,
@@ -3,13 +3,17 @@ import path from "node:path";
 import type { OpenClawConfig, MemorySearchConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { clampInt, clampNumber, resolveUserPath } from "../utils.js";
-import { resolveAgentConfig } from "./agent-scope.js";
+import { resolveAgentConfig, resolveDefaultAgentId } from "./agent-scope.js";
 
 export type ResolvedMemorySearchConfig = {
   enabled: boolean;
-  sources: Array<"memory" | "sessions">;
+  sources: Array<"memory" | "sessions" | "knowledge">;
   extraPaths: string[];
-  provider: "openai" | "local" | "gemini" | "voyage" | "auto";
+  knowledge: {
+    /** Categories to index; undefined means every category. */
+    categories?: string[];
+  };
+  provider: "openai" | "local" | "onnx" | "gemini" | "voyage" | "auto";
   remote?: {
     baseUrl?: string;
     apiKey?: string;
@@ -25,12 +29,19 @@ export type ResolvedMemorySearchConfig = {
   experimental: {
     sessionMemory: boolean;
   };
-  fallback: "openai" | "gemini" | "local" | "voyage" | "none";
+  fallback: "openai" | "gemini" | "local" | "onnx" | "voyage" | "none";
   model: string;
   local: {
     modelPath?: string;
     modelCacheDir?: string;
   };
+  onnx: {
+    modelPath?: string;
+    pooling?: "mean" | "cls";
+    maxSequenceLength?: number;
+    batchSize?: number;
+    threads?: number;
+  };
   store: {
     driver: "sqlite";
     path: string;
@@ -63,6 +74,25 @@ export type ResolvedMemorySearchConfig = {
       textWeight: number;
       candidateMultiplier: number;
     };
+    rerank: {
+      enabled: boolean;
+      mode: "cross-encoder" | "llm";
+      model?: string;
+      candidates: number;
+      weight: number;
+      timeoutMs: number;
+    };
+    mmr: {
+      enabled: boolean;
+      lambda: number;
+    };
+    recency: {
+      enabled: boolean;
+      halfLifeDays: number;
+      sources: Array<"memory" | "sessions" | "knowledge">;
+      minWeight: number;
+    };
+    sourceBoosts: Record<"memory" | "sessions" | "knowledge", number>;
   };
   cache: {
     enabled: boolean;
@@ -84,14 +114,20 @@ const DEFAULT_HYBRID_ENABLED = true;
 const DEFAULT_HYBRID_VECTOR_WEIGHT = 0.7;
 const DEFAULT_HYBRID_TEXT_WEIGHT = 0.3;
 const DEFAULT_HYBRID_CANDIDATE_MULTIPLIER = 4;
+const DEFAULT_RERANK_CANDIDATES = 20;
+const DEFAULT_RERANK_WEIGHT = 0.7;
+const DEFAULT_RERANK_TIMEOUT_MS = 10_000;
+const DEFAULT_MMR_LAMBDA = 0.7;
+const DEFAULT_RECENCY_HALF_LIFE_DAYS = 14;
+const DEFAULT_RECENCY_MIN_WEIGHT = 0.2;
 const DEFAULT_CACHE_ENABLED = true;
-const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
+const DEFAULT_SOURCES: Array<"memory" | "sessions" | "knowledge"> = ["memory"];
 
 function normalizeSources(
-  sources: Array<"memory" | "sessions"> | undefined,
+  sources: Array<"memory" | "sessions" | "knowledge"> | undefined,
   sessionMemoryEnabled: boolean,
-): Array<"memory" | "sessions"> {
-  const normalized = new Set<"memory" | "sessions">();
+): Array<"memory" | "sessions" | "knowledge"> {
+  const normalized = new Set<"memory" | "sessions" | "knowledge">();
   const input = sources?.length ? sources : DEFAULT_SOURCES;
   for (const source of input) {
     if (source === "memory") {
@@ -100,6 +136,9 @@ function normalizeSources(
     if (source === "sessions" && sessionMemoryEnabled) {
       normalized.add("sessions");
     }
+    if (source === "knowledge") {
+      normalized.add("knowledge");
+    }
   }
   if (normalized.size === 0) {
     normalized.add("memory");
@@ -176,11 +215,22 @@ function mergeConfig(
     modelPath: overrides?.local?.modelPath ?? defaults?.local?.modelPath,
     modelCacheDir: overrides?.local?.modelCacheDir ?? defaults?.local?.modelCacheDir,
   };
+  const onnx = {
+    modelPath: overrides?.onnx?.modelPath ?? defaults?.onnx?.modelPath,
+    pooling: overrides?.onnx?.pooling ?? defaults?.onnx?.pooling,
+    maxSequenceLength: overrides?.onnx?.maxSequenceLength ?? defaults?.onnx?.maxSequenceLength,
+    batchSize: overrides?.onnx?.batchSize ?? defaults?.onnx?.batchSize,
+    threads: overrides?.onnx?.threads ?? defaults?.onnx?.threads,
+  };
   const sources = normalizeSources(overrides?.sources ?? defaults?.sources, sessionMemory);
   const rawPaths = [...(defaults?.extraPaths ?? []), ...(overrides?.extraPaths ?? [])]
     .map((value) => value.trim())
     .filter(Boolean);
   const extraPaths = Array.from(new Set(rawPaths));
+  const rawCategories = overrides?.knowledge?.categories ?? defaults?.knowledge?.categories;
+  const knowledgeCategories = rawCategories
+    ? Array.from(new Set(rawCategories.map((value) => value.trim()).filter(Boolean)))
+    : undefined;
   const vector = {
     enabled: overrides?.store?.vector?.enabled ?? defaults?.store?.vector?.enabled ?? true,
     extensionPath:
@@ -237,6 +287,10 @@ function mergeConfig(
       defaults?.query?.hybrid?.candidateMultiplier ??
       DEFAULT_HYBRID_CANDIDATE_MULTIPLIER,
   };
+  const rerank = { ...defaults?.query?.rerank, ...overrides?.query?.rerank };
+  const mmr = { ...defaults?.query?.mmr, ...overrides?.query?.mmr };
+  const recency = { ...defaults?.query?.recency, ...overrides?.query?.recency };
+  const sourceBoosts = { ...defaults?.query?.sourceBoosts, ...overrides?.query?.sourceBoosts };
   const cache = {
     enabled: overrides?.cache?.enabled ?? defaults?.cache?.enabled ?? DEFAULT_CACHE_ENABLED,
     maxEntries: overrides?.cache?.maxEntries ?? defaults?.cache?.maxEntries,
@@ -256,6 +310,7 @@ function mergeConfig(
     enabled,
     sources,
     extraPaths,
+    knowledge: { categories: knowledgeCategories },
     provider,
     remote,
     experimental: {
@@ -264,6 +319,7 @@ function mergeConfig(
     fallback,
     model,
     local,
+    onnx,
     store,
     chunking: { tokens: Math.max(1, chunking.tokens), overlap },
     sync: {
@@ -282,6 +338,29 @@ function mergeConfig(
         textWeight: normalizedTextWeight,
         candidateMultiplier,
       },
+      rerank: {
+        enabled: Boolean(rerank.enabled),
+        mode: rerank.mode ?? "cross-encoder",
+        model: rerank.model?.trim() || undefined,
+        candidates: clampInt(rerank.candidates ?? DEFAULT_RERANK_CANDIDATES, 1, 200),
+        weight: clampNumber(rerank.weight ?? DEFAULT_RERANK_WEIGHT, 0, 1),
+        timeoutMs: clampInt(rerank.timeoutMs ?? DEFAULT_RERANK_TIMEOUT_MS, 1, 120_000),
+      },
+      mmr: {
+        enabled: Boolean(mmr.enabled),
+        lambda: clampNumber(mmr.lambda ?? DEFAULT_MMR_LAMBDA, 0, 1),
+      },
+      recency: {
+        enabled: Boolean(recency.enabled),
+        halfLifeDays: Math.max(0.01, recency.halfLifeDays ?? DEFAULT_RECENCY_HALF_LIFE_DAYS),
+        sources: recency.sources?.length ? recency.sources : ["sessions"],
+        minWeight: clampNumber(recency.minWeight ?? DEFAULT_RECENCY_MIN_WEIGHT, 0, 1),
+      },
+      sourceBoosts: {
+        memory: Math.max(0, sourceBoosts.memory ?? 1),
+        sessions: Math.max(0, sourceBoosts.sessions ?? 1),
+        knowledge: Math.max(0, sourceBoosts.knowledge ?? 1),
+      },
     },
     cache: {
       enabled: Boolean(cache.enabled),
@@ -305,3 +384,14 @@ export function resolveMemorySearchConfig(
   }
   return resolved;
 }
+
+/** Indexed memory sources for an agent, or undefined when memory search is off. */
+export function resolveMemorySearchSources(
+  cfg: OpenClawConfig | undefined,
+  agentId?: string,
+): ResolvedMemorySearchConfig["sources"] | undefined {
+  if (!cfg) {
+    return undefined;
+  }
+  return resolveMemorySearchConfig(cfg, agentId ?? resolveDefaultAgentId(cfg))?.sources;
+}
@@ -4,28 +4,28 @@ import type { SandboxFsBridge } from "./sandbox/fs-bridge.js";
 import type { AnyAgentTool } from "./tools/common.js";
 import { resolvePluginTools } from "../plugins/tools.js";
 import { resolveSessionAgentId } from "./agent-scope.js";
+import { createAgentBoardTool } from "./tools/agent-board-tool.js";
 import { createAgentsListTool } from "./tools/agents-list-tool.js";
 import { createBrowserTool } from "./tools/browser-tool.js";
 import { createCanvasTool } from "./tools/canvas-tool.js";
 import { createCronTool } from "./tools/cron-tool.js";
+import { createCustomTools } from "./tools/custom-tools.js";
 import { createGatewayTool } from "./tools/gateway-tool.js";
 import { createImageTool } from "./tools/image-tool.js";
+import { createKnowledgeStoreTool } from "./tools/knowledge-store-tool.js";
 import { createMessageTool } from "./tools/message-tool.js";
 import { createNodesTool } from "./tools/nodes-tool.js";
 import { createSessionStatusTool } from "./tools/session-status-tool.js";
+import { createSessionTemplateTool } from "./tools/session-template-tool.js";
 import { createSessionsHistoryTool } from "./tools/sessions-history-tool.js";
 import { createSessionsListTool } from "./tools/sessions-list-tool.js";
 import { createSessionsSendTool } from "./tools/sessions-send-tool.js";
 import { createSessionsSpawnTool } from "./tools/sessions-spawn-tool.js";
 import { createSubagentsTool } from "./tools/subagents-tool.js";
-import { createAgentBoardTool } from "./tools/agent-board-tool.js";
-import { createCustomTools } from "./tools/custom-tools.js";
-import { createKnowledgeStoreTool } from "./tools/knowledge-store-tool.js";
-import { createSessionTemplateTool } from "./tools/session-template-tool.js";
 import { createTaskQueueTool } from "./tools/task-queue-tool.js";
-import { createWorkflowTool } from "./tools/workflow-tool.js";
 import { createTtsTool } from "./tools/tts-tool.js";
 import { createWebFetchTool, createWebSearchTool } from "./tools/web-tools.js";
+import { createWorkflowTool } from "./tools/workflow-tool.js";
 import { resolveWorkspaceRoot } from "./workspace-dir.js";
 
 export function createOpenClawTools(options?: {
@@ -88,6 +88,7 @@ export function createOpenClawTools(options?: {
   const webFetchTool = createWebFetchTool({
     config: options?.config,
     sandboxed: options?.sandboxed,
+    agentSessionKey: options?.agentSessionKey,
   });
   const messageTool = options?.disableMessageTool
     ? null
@@ -157,11 +158,15 @@ export function createOpenClawTools(options?: {
     createSubagentsTool({
       agentSessionKey: options?.agentSessionKey,
     }),
-    createAgentBoardTool(),
-    createKnowledgeStoreTool(),
-    createTaskQueueTool(),
+    createAgentBoardTool({
+      agentSessionKey: options?.agentSessionKey,
+      workspaceDir,
+    }),
+    createKnowledgeStoreTool({ workspaceDir }),
+    createTaskQueueTool({ workspaceDir }),
     createSessionTemplateTool({
       agentSessionKey: options?.agentSessionKey,
+      sandboxed: options?.sandboxed,
     }),
     createWorkflowTool({
       agentSessionKey: options?.agentSessionKey,
@@ -199,10 +204,7 @@ export function createOpenClawTools(options?: {
     toolAllowlist: options?.pluginToolAllowlist,
   });
 
-  const allToolNames = new Set([
-    ...tools.map((t) => t.name),
-    ...pluginTools.map((t) => t.name),
-  ]);
+  const allToolNames = new Set([...tools.map((t) => t.name), ...pluginTools.map((t) => t.name)]);
 
   const customToolConfigs = options?.config?.tools?.custom;
   const customTools = createCustomTools({
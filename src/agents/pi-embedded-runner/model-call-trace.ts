@@ -0,0 +1,60 @@
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { formatTraceparent, startDiagnosticSpan } from "../../infra/diagnostic-trace.js";
+
+function recordModelResult(
+  span: NonNullable<ReturnType<typeof startDiagnosticSpan>>,
+  message: AssistantMessage,
+) {
+  span.setAttributes({
+    "openclaw.stopReason": message.stopReason,
+    "openclaw.tokens.input": message.usage?.input,
+    "openclaw.tokens.output": message.usage?.output,
+    "openclaw.tokens.cache_read": message.usage?.cacheRead,
+    "openclaw.tokens.cache_write": message.usage?.cacheWrite,
+    "openclaw.tokens.total": message.usage?.totalTokens,
+  });
+  if (message.stopReason === "error") {
+    span.recordError(new Error(message.errorMessage ?? "model call failed"));
+  }
+}
+
+/**
+ * One client span per model request. The span's `traceparent` is sent with the
+ * request so OpenAI-compatible backends (vLLM, LiteLLM, proxies) can join the trace.
+ */
+export function wrapStreamFnWithModelCallSpan(
+  streamFn: StreamFn,
+  params: { provider: string; modelId: string },
+): StreamFn {
+  const wrapped: StreamFn = async (model, context, options) => {
+    const span = startDiagnosticSpan("openclaw.model.call", {
+      kind: "client",
+      attributes: {
+        "openclaw.provider": params.provider,
+        "openclaw.model": params.modelId,
+        "openclaw.modelApi": model.api,
+      },
+    });
+    if (!span) {
+      return await streamFn(model, context, options);
+    }
+    try {
+      const stream = await streamFn(model, context, {
+        ...options,
+        headers: { ...options?.headers, traceparent: formatTraceparent(span.context) },
+      });
+      void stream
+        .result()
+        .then((message) => recordModelResult(span, message))
+        .catch((err: unknown) => span.recordError(err))
+        .finally(() => span.end());
+      return stream;
+    } catch (err) {
+      span.recordError(err);
+      span.end();
+      throw err;
+    }
+  };
+  return wrapped;
+}
@@ -1,7 +1,10 @@
 import fs from "node:fs/promises";
 import type { ThinkLevel } from "../../auto-reply/thinking.js";
+import type { SpendBudgetBreach } from "../../infra/spend-budgets.js";
+import type { enqueueCommand } from "../../process/command-queue.js";
 import type { RunEmbeddedPiAgentParams } from "./run/params.js";
 import type { EmbeddedPiAgentMeta, EmbeddedPiRunResult } from "./types.js";
+import { withDiagnosticSpan } from "../../infra/diagnostic-trace.js";
 import { enqueueCommandInLane } from "../../process/command-queue.js";
 import { isMarkdownCapableMessageChannel } from "../../utils/message-channel.js";
 import { resolveOpenClawAgentDir } from "../agent-paths.js";
@@ -52,6 +55,7 @@ import { log } from "./logger.js";
 import { resolveModel } from "./model.js";
 import { runEmbeddedAttempt } from "./run/attempt.js";
 import { buildEmbeddedRunPayloads } from "./run/payloads.js";
+import { createSpendBudgetGuard } from "./spend-budget.js";
 import {
   truncateOversizedToolResultsInSession,
   sessionLikelyHasOversizedToolResults,
@@ -166,8 +170,24 @@ export async function runEmbeddedPiAgent(
   const globalLane = resolveGlobalLane(params.lane);
   const enqueueGlobal =
     params.enqueue ?? ((task, opts) => enqueueCommandInLane(globalLane, task, opts));
-  const enqueueSession =
+  const enqueueSessionLane =
     params.enqueue ?? ((task, opts) => enqueueCommandInLane(sessionLane, task, opts));
+  // The run span covers lane waits and every attempt (model + tool calls nest under it).
+  const enqueueSession: typeof enqueueCommand = (task, opts) =>
+    withDiagnosticSpan(
+      "openclaw.agent.run",
+      {
+        attributes: {
+          "openclaw.runId": params.runId,
+          "openclaw.agentId": params.agentId,
+          "openclaw.sessionKey": params.sessionKey,
+          "openclaw.provider": params.provider,
+          "openclaw.model": params.model,
+          "openclaw.lane": globalLane,
+        },
+      },
+      () => enqueueSessionLane(task, opts),
+    );
   const channelHint = params.messageChannel ?? params.messageProvider;
   const resolvedToolResultFormat =
     params.toolResultFormat ??
@@ -414,9 +434,34 @@ export async function runEmbeddedPiAgent(
       const usageAccumulator = createUsageAccumulator();
       let lastRunPromptUsage: ReturnType<typeof normalizeUsage> | undefined;
       let autoCompactionCount = 0;
+      const spendBudget = createSpendBudgetGuard({
+        cfg: params.config,
+        ctx: {
+          agentId: workspaceResolution.agentId,
+          senderId: params.senderId ?? undefined,
+          channel: params.messageChannel ?? params.messageProvider,
+          accountId: params.agentAccountId,
+          cronJobId: params.cronJobId,
+        },
+      });
+      const budgetStopResult = (breach: SpendBudgetBreach, sessionId: string) => ({
+        payloads: [{ text: spendBudget?.stopText(breach) ?? "", isError: true }],
+        meta: {
+          durationMs: Date.now() - started,
+          agentMeta: { sessionId, provider, model: model.id },
+          error: {
+            kind: "budget_exceeded" as const,
+            message: `spend budget exceeded: ${breach.scope} ${breach.period} ${breach.metric}`,
+          },
+        },
+      });
       try {
         while (true) {
           attemptedThinking.add(thinkLevel);
+          const blocked = await spendBudget?.check();
+          if (blocked) {
+            return budgetStopResult(blocked, params.sessionId);
+          }
           await fs.mkdir(resolvedWorkspace, { recursive: true });
 
           const prompt =
@@ -478,6 +523,7 @@ export async function runEmbeddedPiAgent(
             streamParams: params.streamParams,
             ownerNumbers: params.ownerNumbers,
             enforceFinalTag: params.enforceFinalTag,
+            spendBudget,
           });
 
           const {
@@ -494,6 +540,9 @@ export async function runEmbeddedPiAgent(
           // Keep prompt size from the latest model call so session totalTokens
           // reflects current context usage, not accumulated tool-loop usage.
           lastRunPromptUsage = lastAssistantUsage ?? attemptUsage;
+          if (spendBudget?.breach) {
+            return budgetStopResult(spendBudget.breach, sessionIdUsed);
+          }
           const attemptCompactionCount = Math.max(0, attempt.compactionCount ?? 0);
           autoCompactionCount += attemptCompactionCount;
           const formattedAssistantErrorText = lastAssistant
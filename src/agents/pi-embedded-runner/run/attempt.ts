@@ -15,6 +15,7 @@ import {
   isSubagentSessionKey,
   normalizeAgentId,
 } from "../../../routing/session-key.js";
+import { resolveSessionTemplateForSession } from "../../../sessions/templates.js";
 import { resolveSignalReactionLevel } from "../../../signal/reaction-level.js";
 import { resolveTelegramInlineButtonsScope } from "../../../telegram/inline-buttons.js";
 import { resolveTelegramReactionLevel } from "../../../telegram/reaction-level.js";
@@ -33,6 +34,7 @@ import {
 } from "../../channel-tools.js";
 import { resolveOpenClawDocsPath } from "../../docs-path.js";
 import { isTimeoutError } from "../../failover-error.js";
+import { resolveMemorySearchSources } from "../../memory-search.js";
 import { resolveModelAuthMode } from "../../model-auth.js";
 import { resolveDefaultModelForAgent } from "../../model-selection.js";
 import { createOllamaStreamFn, OLLAMA_NATIVE_BASE_URL } from "../../ollama-stream.js";
@@ -78,6 +80,7 @@ import {
 } from "../google.js";
 import { getDmHistoryLimitFromSessionKey, limitHistoryTurns } from "../history.js";
 import { log } from "../logger.js";
+import { wrapStreamFnWithModelCallSpan } from "../model-call-trace.js";
 import { buildModelAliasLines } from "../model.js";
 import {
   clearActiveEmbeddedRun,
@@ -425,12 +428,18 @@ export async function runEmbeddedAttempt(
       moduleUrl: import.meta.url,
     });
     const ttsHint = params.config ? buildTtsSystemPromptHint(params.config) : undefined;
+    const templatePrompt = resolveSessionTemplateForSession({
+      cfg: params.config,
+      sessionKey: params.sessionKey,
+    })?.systemPrompt;
 
     const appendPrompt = buildEmbeddedSystemPrompt({
       workspaceDir: effectiveWorkspace,
       defaultThinkLevel: params.thinkLevel,
       reasoningLevel: params.reasoningLevel ?? "off",
-      extraSystemPrompt: params.extraSystemPrompt,
+      extraSystemPrompt: templatePrompt
+        ? [params.extraSystemPrompt, templatePrompt].filter(Boolean).join("\n\n")
+        : params.extraSystemPrompt,
       ownerNumbers: params.ownerNumbers,
       reasoningTagHint,
       heartbeatPrompt: isDefaultAgent
@@ -452,6 +461,7 @@ export async function runEmbeddedAttempt(
       userTimeFormat,
       contextFiles,
       memoryCitationsMode: params.config?.memory?.citations,
+      memorySources: resolveMemorySearchSources(params.config, sessionAgentId),
     });
     const systemPromptReport = buildSystemPromptReport({
       source: "run",
@@ -633,6 +643,15 @@ export async function runEmbeddedAttempt(
           activeSession.agent.streamFn,
         );
       }
+      if (params.spendBudget) {
+        activeSession.agent.streamFn = params.spendBudget.wrapStreamFn(
+          activeSession.agent.streamFn,
+        );
+      }
+      activeSession.agent.streamFn = wrapStreamFnWithModelCallSpan(activeSession.agent.streamFn, {
+        provider: params.provider,
+        modelId: params.modelId,
+      });
 
       try {
         const prior = await sanitizeSessionHistory({
@@ -5,6 +5,7 @@ import type { SessionSystemPromptReport } from "../../../config/sessions/types.j
 import type { MessagingToolSend } from "../../pi-embedded-messaging.js";
 import type { AuthStorage, ModelRegistry } from "../../pi-model-discovery.js";
 import type { NormalizedUsage } from "../../usage.js";
+import type { SpendBudgetGuard } from "../spend-budget.js";
 import type { RunEmbeddedPiAgentParams } from "./params.js";
 
 type EmbeddedRunAttemptBase = Omit<
@@ -19,6 +20,7 @@ export type EmbeddedRunAttemptParams = EmbeddedRunAttemptBase & {
   authStorage: AuthStorage;
   modelRegistry: ModelRegistry;
   thinkLevel: ThinkLevel;
+  spendBudget?: SpendBudgetGuard | null;
 };
 
 export type EmbeddedRunAttemptResult = {
@@ -0,0 +1,164 @@
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import type { OpenClawConfig } from "../../config/config.js";
+import { formatErrorMessage } from "../../infra/errors.js";
+import { deliverOutboundPayloads } from "../../infra/outbound/deliver.js";
+import {
+  checkSpendBudgets,
+  formatSpendBudgetNotice,
+  formatSpendBudgetStopMessage,
+  isSpendBudgetsEnabled,
+  recordSpendBudgetUsage,
+  type SpendBudgetBreach,
+  type SpendBudgetContext,
+  type SpendBudgetNotice,
+} from "../../infra/spend-budgets.js";
+import {
+  isDeliverableMessageChannel,
+  normalizeMessageChannel,
+} from "../../utils/message-channel.js";
+import { estimateUsageCost, resolveModelCostConfig } from "../../utils/usage-format.js";
+import { normalizeUsage, type UsageLike } from "../usage.js";
+import { log } from "./logger.js";
+
+export class SpendBudgetExceededError extends Error {
+  readonly breach: SpendBudgetBreach;
+
+  constructor(breach: SpendBudgetBreach) {
+    super(`Spend budget exceeded for ${breach.scope} (${breach.period} ${breach.metric})`);
+    this.name = "SpendBudgetExceededError";
+    this.breach = breach;
+  }
+}
+
+export type SpendBudgetGuard = {
+  /** Resolves to the breach that blocks the next model call, if any. */
+  check: () => Promise<SpendBudgetBreach | null>;
+  /** Checks before and records usage after every model call. */
+  wrapStreamFn: (streamFn: StreamFn) => StreamFn;
+  /** Set once a model call was blocked mid-run. */
+  readonly breach: SpendBudgetBreach | null;
+  stopText: (breach: SpendBudgetBreach) => string;
+};
+
+/** Tokens and estimated USD for one assistant message. */
+export function resolveSpendFromMessage(
+  message: Pick<AssistantMessage, "usage" | "provider" | "model">,
+  cfg?: OpenClawConfig,
+): { tokens: number; usd: number } {
+  const usage = normalizeUsage(message.usage as UsageLike);
+  if (!usage) {
+    return { tokens: 0, usd: 0 };
+  }
+  const tokens =
+    usage.total ??
+    (usage.input ?? 0) + (usage.output ?? 0) + (usage.cacheRead ?? 0) + (usage.cacheWrite ?? 0);
+  const reported = message.usage?.cost?.total;
+  const usd =
+    typeof reported === "number" && Number.isFinite(reported) && reported > 0
+      ? reported
+      : (estimateUsageCost({
+          usage,
+          cost: resolveModelCostConfig({
+            provider: message.provider,
+            model: message.model,
+            config: cfg,
+          }),
+        }) ?? 0);
+  return { tokens, usd };
+}
+
+async function announce(params: {
+  cfg: OpenClawConfig;
+  notices: SpendBudgetNotice[];
+  deliver: typeof deliverOutboundPayloads;
+}) {
+  for (const notice of params.notices) {
+    log.warn(formatSpendBudgetNotice(notice));
+  }
+  const target = params.cfg.budgets?.notify;
+  if (!target || params.notices.length === 0) {
+    return;
+  }
+  const channel = normalizeMessageChannel(target.channel) ?? target.channel;
+  if (!isDeliverableMessageChannel(channel)) {
+    log.warn(`budget notice skipped: channel "${target.channel}" cannot deliver`);
+    return;
+  }
+  await params.deliver({
+    cfg: params.cfg,
+    channel,
+    to: target.to,
+    accountId: target.accountId,
+    payloads: params.notices.map((notice) => ({ text: formatSpendBudgetNotice(notice) })),
+    bestEffort: true,
+  });
+}
+
+/** Null when no budget applies to this run. */
+export function createSpendBudgetGuard(params: {
+  cfg?: OpenClawConfig;
+  ctx: SpendBudgetContext;
+  deliver?: typeof deliverOutboundPayloads;
+}): SpendBudgetGuard | null {
+  const cfg = params.cfg;
+  if (!cfg || !isSpendBudgetsEnabled(cfg)) {
+    return null;
+  }
+  const deliver = params.deliver ?? deliverOutboundPayloads;
+  let breach: SpendBudgetBreach | null = null;
+  let stopAnnounced = false;
+  // Usage of the previous call must land before the next check.
+  let pending: Promise<void> = Promise.resolve();
+
+  const notify = (notices: SpendBudgetNotice[]) =>
+    announce({ cfg, notices, deliver }).catch((err) => {
+      log.warn(`budget notice failed: ${formatErrorMessage(err)}`);
+    });
+
+  const check = async () => {
+    await pending;
+    const blocked = await checkSpendBudgets({ cfg, ctx: params.ctx });
+    if (blocked && !stopAnnounced) {
+      stopAnnounced = true;
+      log.warn(
+        `budget hard stop: ${blocked.scope} ${blocked.period} ${blocked.metric} ${blocked.used}/${blocked.limit}`,
+      );
+    }
+    return blocked;
+  };
+
+  const record = async (message: AssistantMessage) => {
+    const spend = resolveSpendFromMessage(message, cfg);
+    const notices = await recordSpendBudgetUsage({ cfg, ctx: params.ctx, ...spend });
+    if (notices.length > 0) {
+      await notify(notices);
+    }
+  };
+
+  return {
+    check,
+    get breach() {
+      return breach;
+    },
+    stopText: (value) => formatSpendBudgetStopMessage(cfg, value),
+    wrapStreamFn: (streamFn) => {
+      const wrapped: StreamFn = async (model, context, options) => {
+        const blocked = await check();
+        if (blocked) {
+          breach = blocked;
+          throw new SpendBudgetExceededError(blocked);
+        }
+        const stream = await streamFn(model, context, options);
+        pending = stream
+          .result()
+          .then(record)
+          .catch((err) => {
+            log.warn(`budget usage not recorded: ${formatErrorMessage(err)}`);
+          });
+        return stream;
+      };
+      return wrapped;
+    },
+  };
+}
@@ -54,6 +54,25 @@ describe("before_tool_call hook integration", () => {
     );
   });
 
+  it("evaluates tool rules on the params returned by the hook", async () => {
+    hookRunner.hasHooks.mockReturnValue(true);
+    hookRunner.runBeforeToolCall.mockResolvedValue({ params: { command: "sudo reboot" } });
+    const execute = vi.fn().mockResolvedValue({ content: [], details: { ok: true } });
+    // oxlint-disable-next-line typescript/no-explicit-any
+    const tool = wrapToolWithBeforeToolCallHook({ name: "exec", execute } as any, {
+      config: {
+        tools: {
+          rules: [{ id: "no-sudo", match: { commands: ["/\\bsudo\\b/"] }, action: "deny" }],
+        },
+      },
+    });
+
+    await expect(
+      tool.execute("call-rules", { command: "ls" }, undefined, undefined),
+    ).rejects.toThrow('Tool call denied by policy rule "no-sudo"');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
   it("blocks tool execution when hook returns block=true", async () => {
     hookRunner.hasHooks.mockReturnValue(true);
     hookRunner.runBeforeToolCall.mockResolvedValue({
@@ -1,15 +1,38 @@
+import type { OpenClawConfig } from "../config/config.js";
 import type { AnyAgentTool } from "./tools/common.js";
+import { withDiagnosticSpan } from "../infra/diagnostic-trace.js";
+import { formatErrorMessage } from "../infra/errors.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { isPlainObject } from "../utils.js";
+import {
+  DEFAULT_APPROVAL_REQUEST_TIMEOUT_MS,
+  DEFAULT_APPROVAL_TIMEOUT_MS,
+} from "./bash-tools.exec-runtime.js";
 import { normalizeToolName } from "./tool-policy.js";
+import {
+  evaluateToolRules,
+  redactToolResult,
+  summarizeToolCall,
+  type ToolRuleDecision,
+} from "./tool-rules.js";
+import { callGatewayTool } from "./tools/gateway.js";
 
 type HookContext = {
   agentId?: string;
   sessionKey?: string;
+  /** Config whose `tools.rules` are evaluated before each call. */
+  config?: OpenClawConfig;
+  channel?: string;
+  senderId?: string;
+  sandboxed?: boolean;
+  /** Directory relative tool paths resolve against when matching `tools.rules`. */
+  workspaceDir?: string;
 };
 
-type HookOutcome = { blocked: true; reason: string } | { blocked: false; params: unknown };
+type HookOutcome =
+  | { blocked: true; reason: string }
+  | { blocked: false; params: unknown; redact?: { patterns?: string[] } };
 
 const log = createSubsystemLogger("agents/tools");
 const BEFORE_TOOL_CALL_WRAPPED = Symbol("beforeToolCallWrapped");
@@ -23,11 +46,25 @@ export async function runBeforeToolCallHook(args: {
   ctx?: HookContext;
 }): Promise<HookOutcome> {
   const toolName = normalizeToolName(args.toolName || "tool");
-  const params = args.params;
+  const hookOutcome = await runPluginBeforeToolCallHook({ ...args, toolName });
+  if (hookOutcome.blocked) {
+    return hookOutcome;
+  }
+  // Rules see the params the tool will actually run with, after plugin rewrites,
+  // so an approved call cannot be swapped for a different one.
+  return await applyToolRules({ toolName, params: hookOutcome.params, ctx: args.ctx });
+}
 
+async function runPluginBeforeToolCallHook(args: {
+  toolName: string;
+  params: unknown;
+  toolCallId?: string;
+  ctx?: HookContext;
+}): Promise<HookOutcome> {
+  const { toolName, params } = args;
   const hookRunner = getGlobalHookRunner();
   if (!hookRunner?.hasHooks("before_tool_call")) {
-    return { blocked: false, params: args.params };
+    return { blocked: false, params };
   }
 
   try {
@@ -65,6 +102,73 @@ export async function runBeforeToolCallHook(args: {
   return { blocked: false, params };
 }
 
+async function applyToolRules(args: {
+  toolName: string;
+  params: unknown;
+  ctx?: HookContext;
+}): Promise<HookOutcome> {
+  const { toolName, params } = args;
+  const rules = args.ctx?.config?.tools?.rules;
+  if (!rules?.length) {
+    return { blocked: false, params };
+  }
+  const decision = evaluateToolRules(rules, {
+    toolName,
+    params,
+    agentId: args.ctx?.agentId,
+    channel: args.ctx?.channel,
+    senderId: args.ctx?.senderId,
+    sandboxed: args.ctx?.sandboxed,
+    workspaceDir: args.ctx?.workspaceDir,
+  });
+  if (decision.action === "deny") {
+    log.info(`tool call denied by policy: tool=${toolName} rule=${decision.ruleId}`);
+    return { blocked: true, reason: decision.reason };
+  }
+  if (decision.action === "require-approval") {
+    const approved = await requestToolRuleApproval({ toolName, params, decision, ctx: args.ctx });
+    if (!approved) {
+      return {
+        blocked: true,
+        reason: `Tool call not approved (policy rule "${decision.ruleId}")`,
+      };
+    }
+  }
+  if (decision.action === "redact") {
+    return { blocked: false, params, redact: { patterns: decision.rule?.redactPatterns } };
+  }
+  return { blocked: false, params };
+}
+
+/** Ask operators (exec approval clients/forwarding) to allow a rule-gated call. */
+async function requestToolRuleApproval(args: {
+  toolName: string;
+  params: unknown;
+  decision: ToolRuleDecision;
+  ctx?: HookContext;
+}): Promise<boolean> {
+  try {
+    const result = await callGatewayTool<{ decision?: string | null }>(
+      "exec.approval.request",
+      { timeoutMs: DEFAULT_APPROVAL_REQUEST_TIMEOUT_MS },
+      {
+        command: `${summarizeToolCall(args.toolName, args.params)} (policy rule "${args.decision.ruleId}")`,
+        host: "policy",
+        agentId: args.ctx?.agentId,
+        sessionKey: args.ctx?.sessionKey,
+        timeoutMs: DEFAULT_APPROVAL_TIMEOUT_MS,
+      },
+    );
+    const decision = result?.decision;
+    return decision === "allow-once" || decision === "allow-always";
+  } catch (err) {
+    log.warn(
+      `policy approval request failed: tool=${args.toolName} rule=${args.decision.ruleId} error=${formatErrorMessage(err)}`,
+    );
+    return false;
+  }
+}
+
 export function wrapToolWithBeforeToolCallHook(
   tool: AnyAgentTool,
   ctx?: HookContext,
@@ -76,27 +180,40 @@ export function wrapToolWithBeforeToolCallHook(
   const toolName = tool.name || "tool";
   const wrappedTool: AnyAgentTool = {
     ...tool,
-    execute: async (toolCallId, params, signal, onUpdate) => {
-      const outcome = await runBeforeToolCallHook({
-        toolName,
-        params,
-        toolCallId,
-        ctx,
-      });
-      if (outcome.blocked) {
-        throw new Error(outcome.reason);
-      }
-      if (toolCallId) {
-        adjustedParamsByToolCallId.set(toolCallId, outcome.params);
-        if (adjustedParamsByToolCallId.size > MAX_TRACKED_ADJUSTED_PARAMS) {
-          const oldest = adjustedParamsByToolCallId.keys().next().value;
-          if (oldest) {
-            adjustedParamsByToolCallId.delete(oldest);
+    execute: (toolCallId, params, signal, onUpdate) =>
+      withDiagnosticSpan(
+        "openclaw.tool.call",
+        {
+          attributes: {
+            "openclaw.tool": toolName,
+            "openclaw.toolCallId": toolCallId,
+            "openclaw.agentId": ctx?.agentId,
+            "openclaw.sessionKey": ctx?.sessionKey,
+          },
+        },
+        async () => {
+          const outcome = await runBeforeToolCallHook({
+            toolName,
+            params,
+            toolCallId,
+            ctx,
+          });
+          if (outcome.blocked) {
+            throw new Error(outcome.reason);
           }
-        }
-      }
-      return await execute(toolCallId, outcome.params, signal, onUpdate);
-    },
+          if (toolCallId) {
+            adjustedParamsByToolCallId.set(toolCallId, outcome.params);
+            if (adjustedParamsByToolCallId.size > MAX_TRACKED_ADJUSTED_PARAMS) {
+              const oldest = adjustedParamsByToolCallId.keys().next().value;
+              if (oldest) {
+                adjustedParamsByToolCallId.delete(oldest);
+              }
+            }
+          }
+          const result = await execute(toolCallId, outcome.params, signal, onUpdate);
+          return outcome.redact ? redactToolResult(result, outcome.redact.patterns) : result;
+        },
+      ),
   };
   Object.defineProperty(wrappedTool, BEFORE_TOOL_CALL_WRAPPED, {
     value: true,
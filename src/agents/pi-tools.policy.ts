@@ -4,6 +4,7 @@ import type { SandboxToolPolicy } from "./sandbox.js";
 import { getChannelDock } from "../channels/dock.js";
 import { resolveChannelGroupToolsPolicy } from "../config/group-policy.js";
 import { resolveThreadParentSessionKey } from "../sessions/session-key-utils.js";
+import { resolveSessionTemplateForSession } from "../sessions/templates.js";
 import { normalizeMessageChannel } from "../utils/message-channel.js";
 import { resolveAgentConfig, resolveAgentIdFromSessionKey } from "./agent-scope.js";
 import { compileGlobPatterns, matchesAnyGlobPattern } from "./glob-pattern.js";
@@ -316,6 +317,17 @@ export function resolveGroupToolPolicy(params: {
   return pickToolPolicy(toolsConfig);
 }
 
+export function resolveSessionTemplateToolPolicy(params: {
+  config?: OpenClawConfig;
+  sessionKey?: string;
+}): SandboxToolPolicy | undefined {
+  const template = resolveSessionTemplateForSession({
+    cfg: params.config,
+    sessionKey: params.sessionKey,
+  });
+  return pickToolPolicy(template?.tools);
+}
+
 export function isToolAllowedByPolicies(
   name: string,
   policies: Array<SandboxToolPolicy | undefined>,
@@ -29,6 +29,7 @@ import {
   isToolAllowedByPolicies,
   resolveEffectiveToolPolicy,
   resolveGroupToolPolicy,
+  resolveSessionTemplateToolPolicy,
   resolveSubagentToolPolicy,
 } from "./pi-tools.policy.js";
 import {
@@ -217,6 +218,10 @@ export function createOpenClawCodingTools(options?: {
     senderUsername: options?.senderUsername,
     senderE164: options?.senderE164,
   });
+  const templatePolicy = resolveSessionTemplateToolPolicy({
+    config: options?.config,
+    sessionKey: options?.sessionKey,
+  });
   const profilePolicy = resolveToolProfilePolicy(profile);
   const providerProfilePolicy = resolveToolProfilePolicy(providerProfile);
 
@@ -244,6 +249,7 @@ export function createOpenClawCodingTools(options?: {
     agentPolicy,
     agentProviderPolicy,
     groupPolicy,
+    templatePolicy,
     sandbox?.tools,
     subagentPolicy,
   ]);
@@ -407,6 +413,7 @@ export function createOpenClawCodingTools(options?: {
         agentPolicy,
         agentProviderPolicy,
         groupPolicy,
+        templatePolicy,
         sandbox?.tools,
         subagentPolicy,
       ]),
@@ -440,6 +447,7 @@ export function createOpenClawCodingTools(options?: {
         groupPolicy,
         agentId,
       }),
+      { policy: templatePolicy, label: "session template tools.allow" },
       { policy: sandbox?.tools, label: "sandbox tools.allow" },
       { policy: subagentPolicy, label: "subagent tools.allow" },
     ],
@@ -451,6 +459,11 @@ export function createOpenClawCodingTools(options?: {
     wrapToolWithBeforeToolCallHook(tool, {
       agentId,
       sessionKey: options?.sessionKey,
+      config: options?.config,
+      channel: options?.messageProvider,
+      senderId: options?.senderId ?? undefined,
+      sandboxed: Boolean(sandbox),
+      workspaceDir: sandboxRoot ?? workspaceRoot,
     }),
   );
   const withAbort = options?.abortSignal
@@ -2,6 +2,7 @@ import type { OpenClawConfig } from "../../config/config.js";
 import type { SandboxConfig, SandboxToolPolicyResolved } from "./types.js";
 import { formatCliCommand } from "../../cli/command-format.js";
 import { canonicalizeMainSessionAlias, resolveAgentMainSessionKey } from "../../config/sessions.js";
+import { isSandboxModeLooser, resolveSessionTemplateForSession } from "../../sessions/templates.js";
 import { resolveSessionAgentId } from "../agent-scope.js";
 import { expandToolGroups } from "../tool-policy.js";
 import { resolveSandboxConfigForAgent } from "./config.js";
@@ -59,7 +60,15 @@ export function resolveSandboxRuntimeStatus(params: {
     config: params.cfg,
   });
   const cfg = params.cfg;
-  const sandboxCfg = resolveSandboxConfigForAgent(cfg, agentId);
+  const agentSandboxCfg = resolveSandboxConfigForAgent(cfg, agentId);
+  const templateMode = sessionKey
+    ? resolveSessionTemplateForSession({ cfg, sessionKey })?.sandbox?.mode
+    : undefined;
+  // Templates may tighten the agent's sandbox, never loosen it.
+  const sandboxCfg =
+    templateMode && !isSandboxModeLooser(templateMode, agentSandboxCfg.mode)
+      ? { ...agentSandboxCfg, mode: templateMode }
+      : agentSandboxCfg;
   const mainSessionKey = resolveMainSessionKeyForSandbox({ cfg, agentId });
   const sandboxed = sessionKey
     ? shouldSandboxSession(
@@ -51,7 +51,7 @@ describe("installSkill code safety scanning", () => {
     });
   });
 
-  it("adds detailed warnings for critical findings and continues install", async () => {
+  it("blocks critical findings unless dangerous code is explicitly allowed", async () => {
     const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-skills-install-"));
     try {
       const skillDir = await writeInstallableSkill(workspaceDir, "danger-skill");
@@ -72,10 +72,21 @@ describe("installSkill code safety scanning", () => {
         ],
       });
 
+      const blocked = await installSkill({
+        workspaceDir,
+        skillName: "danger-skill",
+        installId: "deps",
+      });
+      expect(blocked.ok).toBe(false);
+      expect(blocked.message).toContain('Skill "danger-skill" blocked');
+      expect(blocked.message).toContain("runner.js:1");
+      expect(runCommandWithTimeoutMock).not.toHaveBeenCalled();
+
       const result = await installSkill({
         workspaceDir,
         skillName: "danger-skill",
         installId: "deps",
+        allowDangerousCode: true,
       });
 
       expect(result.ok).toBe(true);
@@ -88,6 +99,30 @@ describe("installSkill code safety scanning", () => {
     }
   });
 
+  it("blocks the install when a configured rule pack cannot be loaded", async () => {
+    const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-skills-install-"));
+    try {
+      await writeInstallableSkill(workspaceDir, "pack-skill");
+      const packPath = path.join(workspaceDir, "broken-pack.json");
+      await fs.writeFile(packPath, "{ not json", "utf-8");
+
+      const result = await installSkill({
+        workspaceDir,
+        skillName: "pack-skill",
+        installId: "deps",
+        config: { security: { skillScan: { rulePacks: [packPath] } } },
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.message).toContain('Skill "pack-skill" blocked');
+      expect(result.message).toContain("could not be loaded");
+      expect(scanDirectoryWithSummaryMock).not.toHaveBeenCalled();
+      expect(runCommandWithTimeoutMock).not.toHaveBeenCalled();
+    } finally {
+      await fs.rm(workspaceDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  });
+
   it("warns and continues when skill scan fails", async () => {
     const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-skills-install-"));
     try {
@@ -3,6 +3,13 @@ import path from "node:path";
 import type { OpenClawConfig } from "../config/config.js";
 import { resolveBrewExecutable } from "../infra/brew.js";
 import { runCommandWithTimeout, type CommandOptions } from "../process/exec.js";
+import {
+  formatInstallScanPolicyError,
+  formatSkillScanFindingDetail,
+  resolveInstallScanBlock,
+  resolveSkillScanPolicy,
+  type SkillScanPolicy,
+} from "../security/skill-scan-policy.js";
 import { scanDirectoryWithSummary } from "../security/skill-scanner.js";
 import { resolveUserPath } from "../utils.js";
 import { installDownloadSpec } from "./skills-install-download.js";
@@ -21,6 +28,8 @@ export type SkillInstallRequest = {
   installId: string;
   timeoutMs?: number;
   config?: OpenClawConfig;
+  /** Install even when the code scan reports critical findings. */
+  allowDangerousCode?: boolean;
 };
 
 export type SkillInstallResult = {
@@ -81,29 +90,43 @@ function withWarnings(result: SkillInstallResult, warnings: string[]): SkillInst
   };
 }
 
-function formatScanFindingDetail(
-  rootDir: string,
-  finding: { message: string; file: string; line: number },
-): string {
-  const relativePath = path.relative(rootDir, finding.file);
-  const filePath =
-    relativePath && relativePath !== "." && !relativePath.startsWith("..")
-      ? relativePath
-      : path.basename(finding.file);
-  return `${finding.message} (${filePath}:${finding.line})`;
-}
-
-async function collectSkillInstallScanWarnings(entry: SkillEntry): Promise<string[]> {
+async function scanSkillBeforeInstall(
+  entry: SkillEntry,
+  params: Pick<SkillInstallRequest, "config" | "allowDangerousCode">,
+): Promise<{ warnings: string[]; blocked?: string }> {
   const warnings: string[] = [];
   const skillName = entry.skill.name;
   const skillDir = path.resolve(entry.skill.baseDir);
 
+  let policy: SkillScanPolicy;
   try {
-    const summary = await scanDirectoryWithSummary(skillDir);
+    policy = await resolveSkillScanPolicy(params.config);
+  } catch (err) {
+    return {
+      warnings,
+      blocked: formatInstallScanPolicyError({ kind: "Skill", name: skillName, error: err }),
+    };
+  }
+  try {
+    const summary = await scanDirectoryWithSummary(skillDir, {
+      rules: policy.rules,
+      baseline: policy.baseline ?? undefined,
+    });
+    const blocked = resolveInstallScanBlock({
+      kind: "Skill",
+      name: skillName,
+      rootDir: skillDir,
+      summary,
+      policy,
+      allowDangerousCode: params.allowDangerousCode,
+    });
+    if (blocked) {
+      return { warnings, blocked };
+    }
     if (summary.critical > 0) {
       const criticalDetails = summary.findings
         .filter((finding) => finding.severity === "critical")
-        .map((finding) => formatScanFindingDetail(skillDir, finding))
+        .map((finding) => formatSkillScanFindingDetail(skillDir, finding))
         .join("; ");
       warnings.push(
         `WARNING: Skill "${skillName}" contains dangerous code patterns: ${criticalDetails}`,
@@ -119,7 +142,7 @@ async function collectSkillInstallScanWarnings(entry: SkillEntry): Promise<strin
     );
   }
 
-  return warnings;
+  return { warnings };
 }
 
 function resolveInstallId(spec: SkillInstallSpec, index: number): string {
@@ -443,7 +466,10 @@ export async function installSkill(params: SkillInstallRequest): Promise<SkillIn
   }
 
   const spec = findInstallSpec(entry, params.installId);
-  const warnings = await collectSkillInstallScanWarnings(entry);
+  const { warnings, blocked } = await scanSkillBeforeInstall(entry, params);
+  if (blocked) {
+    return { ok: false, message: blocked, stdout: "", stderr: "", code: null };
+  }
   if (!spec) {
     return withWarnings(
       {
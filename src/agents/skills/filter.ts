@@ -29,3 +29,32 @@ export function matchesSkillFilter(
   }
   return cachedNormalized.every((entry, index) => entry === nextNormalized[index]);
 }
+
+/**
+ * Combine two skill allowlists: an undefined filter is unrestricted, otherwise
+ * only skills present in both survive.
+ */
+export function mergeSkillFilters(first?: string[], second?: string[]): string[] | undefined {
+  const normalize = (list?: string[]) => {
+    if (!Array.isArray(list)) {
+      return undefined;
+    }
+    return list.map((entry) => String(entry).trim()).filter(Boolean);
+  };
+  const left = normalize(first);
+  const right = normalize(second);
+  if (!left && !right) {
+    return undefined;
+  }
+  if (!left) {
+    return right;
+  }
+  if (!right) {
+    return left;
+  }
+  if (left.length === 0 || right.length === 0) {
+    return [];
+  }
+  const rightSet = new Set(right);
+  return left.filter((name) => rightSet.has(name));
+}
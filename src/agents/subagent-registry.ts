@@ -1,6 +1,8 @@
 import { loadConfig } from "../config/config.js";
 import { callGateway } from "../gateway/call.js";
 import { onAgentEvent } from "../infra/agent-events.js";
+import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
 import { type DeliveryContext, normalizeDeliveryContext } from "../utils/delivery-context.js";
 import { resetAnnounceQueuesForTests } from "./subagent-announce-queue.js";
 import { runSubagentAnnounceFlow, type SubagentRunOutcome } from "./subagent-announce.js";
@@ -53,10 +55,40 @@ function suppressAnnounceForSteerRestart(entry?: SubagentRunRecord) {
   return entry?.suppressAnnounceReason === "steer-restart";
 }
 
+function subagentHookContext(entry: SubagentRunRecord) {
+  return {
+    agentId: resolveAgentIdFromSessionKey(entry.childSessionKey),
+    requesterSessionKey: entry.requesterSessionKey,
+  };
+}
+
+function emitSubagentEnded(entry: SubagentRunRecord) {
+  const hookRunner = getGlobalHookRunner();
+  if (!hookRunner?.hasHooks("subagent_ended")) {
+    return;
+  }
+  void hookRunner
+    .runSubagentEnded(
+      {
+        runId: entry.runId,
+        childSessionKey: entry.childSessionKey,
+        status:
+          entry.suppressAnnounceReason === "killed"
+            ? "killed"
+            : (entry.outcome?.status ?? "unknown"),
+        error: entry.outcome?.error,
+        durationMs: entry.endedAt && entry.startedAt ? entry.endedAt - entry.startedAt : undefined,
+      },
+      subagentHookContext(entry),
+    )
+    .catch(() => {});
+}
+
 function startSubagentAnnounceCleanupFlow(runId: string, entry: SubagentRunRecord): boolean {
   if (!beginSubagentCleanup(runId)) {
     return false;
   }
+  emitSubagentEnded(entry);
   const requesterOrigin = normalizeDeliveryContext(entry.requesterOrigin);
   void runSubagentAnnounceFlow({
     childSessionKey: entry.childSessionKey,
@@ -438,6 +470,23 @@ export function registerSubagentRun(params: {
   });
   ensureListener();
   persistSubagentRuns();
+  const hookRunner = getGlobalHookRunner();
+  const registered = subagentRuns.get(params.runId);
+  if (registered && hookRunner?.hasHooks("subagent_spawned")) {
+    void hookRunner
+      .runSubagentSpawned(
+        {
+          runId: registered.runId,
+          childSessionKey: registered.childSessionKey,
+          task: registered.task,
+          label: registered.label,
+          model: registered.model,
+          cleanup: registered.cleanup,
+        },
+        subagentHookContext(registered),
+      )
+      .catch(() => {});
+  }
   if (archiveAfterMs) {
     startSweeper();
   }
@@ -642,6 +691,7 @@ export function markSubagentRunTerminated(params: {
     entry.cleanupHandled = true;
     entry.cleanupCompletedAt = now;
     entry.suppressAnnounceReason = "killed";
+    emitSubagentEnded(entry);
     updated += 1;
   }
   if (updated > 0) {
@@ -42,6 +42,7 @@ function buildMemorySection(params: {
   isMinimal: boolean;
   availableTools: Set<string>;
   citationsMode?: MemoryCitationsMode;
+  sources?: string[];
 }) {
   if (params.isMinimal) {
     return [];
@@ -53,6 +54,11 @@ function buildMemorySection(params: {
     "## Memory Recall",
     "Before answering anything about prior work, decisions, dates, people, preferences, or todos: run memory_search on MEMORY.md + memory/*.md; then use memory_get to pull only the needed lines. If low confidence after search, say you checked.",
   ];
+  if (params.sources?.includes("knowledge")) {
+    lines.push(
+      "memory_search also covers knowledge_store entries (paths like knowledge/<category>/<key>); use knowledge_store get/query for exact structured lookups.",
+    );
+  }
   if (params.citationsMode === "off") {
     lines.push(
       "Citations are disabled: do not mention file paths or line numbers in replies unless the user explicitly asks.",
@@ -220,6 +226,8 @@ export function buildAgentSystemPrompt(params: {
     channel: string;
   };
   memoryCitationsMode?: MemoryCitationsMode;
+  /** Indexed memory_search sources (e.g. "knowledge" for knowledge_store entries). */
+  memorySources?: string[];
 }) {
   const coreToolSummaries: Record<string, string> = {
     read: "Read file contents",
@@ -384,6 +392,7 @@ export function buildAgentSystemPrompt(params: {
     isMinimal,
     availableTools,
     citationsMode: params.memoryCitationsMode,
+    sources: params.memorySources,
   });
   const docsSection = buildDocsSection({
     docsPath: params.docsPath,
@@ -0,0 +1,330 @@
+import os from "node:os";
+import path from "node:path";
+import type { ToolRuleAction, ToolRuleConfig, ToolRuleMatch } from "../config/types.tools.js";
+import { redactSensitiveText } from "../logging/redact.js";
+import { isPlainObject } from "../utils.js";
+import { compileGlobPatterns, matchesAnyGlobPattern } from "./glob-pattern.js";
+import { expandToolGroups, normalizeToolName } from "./tool-policy.js";
+
+/** A tool call plus the run context rules can match on. */
+export type ToolRuleCall = {
+  toolName: string;
+  params: unknown;
+  agentId?: string;
+  channel?: string;
+  senderId?: string;
+  sandboxed?: boolean;
+  /** Directory relative tool paths resolve against. */
+  workspaceDir?: string;
+};
+
+export type ToolRuleTraceEntry = {
+  index: number;
+  id: string;
+  action: ToolRuleAction;
+  matched: boolean;
+  /** Why the rule did (or did not) match. */
+  detail: string;
+};
+
+export type ToolRuleDecision = {
+  action: ToolRuleAction;
+  /** Matching rule; undefined when no rule matched (default allow). */
+  rule?: ToolRuleConfig;
+  ruleId?: string;
+  reason: string;
+  trace: ToolRuleTraceEntry[];
+};
+
+const PATH_PARAM_KEYS = ["path", "file_path", "filePath", "file", "paths", "workdir", "cwd"];
+const URL_PARAM_KEYS = ["url", "targetUrl", "uri", "urls"];
+const PATCH_FILE_RE = /^\*\*\* (?:Add File|Update File|Delete File|Move to): (.+)$/gm;
+const URL_IN_TEXT_RE = /\bhttps?:\/\/[^\s"'<>`]+/gi;
+
+function expandHome(value: string): string {
+  if (value === "~") {
+    return os.homedir();
+  }
+  if (value.startsWith("~/")) {
+    return `${os.homedir()}${value.slice(1)}`;
+  }
+  return value;
+}
+
+/**
+ * Absolute, normalized form of a tool path so `..` segments and workspace-relative
+ * paths cannot slip past path rules. Without a workspace, relative paths stay
+ * relative (but normalized).
+ */
+function normalizeToolPath(value: string, workspaceDir?: string): string {
+  const expanded = expandHome(value.trim());
+  if (workspaceDir) {
+    return path.resolve(workspaceDir, expanded);
+  }
+  return path.isAbsolute(expanded) ? path.resolve(expanded) : path.normalize(expanded);
+}
+
+/** Path rule globs resolve like tool paths unless they are regexes or start with `*`. */
+function normalizePathPattern(raw: string, workspaceDir?: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed || trimmed.startsWith("*") || /^\/.+\/[gimsuy]*$/.test(trimmed)) {
+    return trimmed;
+  }
+  return normalizeToolPath(trimmed, workspaceDir);
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** `/regex/flags` or a case-insensitive glob where `*` matches anything. */
+function compileRulePattern(raw: string): RegExp | null {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const regex = trimmed.match(/^\/(.+)\/([gimsuy]*)$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2].replace("g", ""));
+    } catch {
+      return null;
+    }
+  }
+  return new RegExp(`^${escapeRegex(trimmed).replaceAll("\\*", "[\\s\\S]*")}$`, "i");
+}
+
+function compileRulePatterns(raw: string[], map?: (value: string) => string): RegExp[] {
+  return raw
+    .map((value) => compileRulePattern(map ? map(value) : value))
+    .filter((re): re is RegExp => Boolean(re));
+}
+
+function matchesAny(values: string[], patterns: RegExp[]): boolean {
+  return values.some((value) => patterns.some((pattern) => pattern.test(value)));
+}
+
+function toStrings(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return [String(value)];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(toStrings);
+  }
+  return [];
+}
+
+function readParam(params: Record<string, unknown>, dottedPath: string): unknown {
+  let current: unknown = params;
+  for (const segment of dottedPath.split(".")) {
+    if (!isPlainObject(current)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+export function extractToolCallCommand(params: Record<string, unknown>): string | undefined {
+  const command = params.command;
+  return typeof command === "string" && command.trim() ? command : undefined;
+}
+
+export function extractToolCallPaths(
+  params: Record<string, unknown>,
+  workspaceDir?: string,
+): string[] {
+  const paths = PATH_PARAM_KEYS.flatMap((key) => toStrings(params[key]));
+  if (typeof params.input === "string") {
+    for (const match of params.input.matchAll(PATCH_FILE_RE)) {
+      paths.push(match[1].trim());
+    }
+  }
+  return paths
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => normalizeToolPath(entry, workspaceDir));
+}
+
+export function extractToolCallHosts(params: Record<string, unknown>): string[] {
+  const urls = URL_PARAM_KEYS.flatMap((key) => toStrings(params[key]));
+  const command = extractToolCallCommand(params);
+  if (command) {
+    urls.push(...(command.match(URL_IN_TEXT_RE) ?? []));
+  }
+  const hosts = new Set<string>();
+  for (const raw of urls) {
+    try {
+      hosts.add(new URL(raw).hostname.toLowerCase());
+    } catch {
+      // Not a URL; ignore.
+    }
+  }
+  return [...hosts];
+}
+
+function matchesHost(host: string, patterns: string[]): boolean {
+  return patterns.some((raw) => {
+    const pattern = raw.trim().toLowerCase();
+    if (pattern.startsWith("*.") && host === pattern.slice(2)) {
+      return true;
+    }
+    return compileRulePattern(pattern)?.test(host) ?? false;
+  });
+}
+
+function describeList(values: string[]) {
+  return `[${values.join(", ")}]`;
+}
+
+/** Returns null when the rule matches, otherwise the first failing condition. */
+function explainMismatch(
+  match: ToolRuleMatch,
+  call: ToolRuleCall,
+  params: Record<string, unknown>,
+): string | null {
+  const toolName = normalizeToolName(call.toolName);
+  if (match.tools?.length) {
+    const patterns = compileGlobPatterns({
+      raw: expandToolGroups(match.tools),
+      normalize: normalizeToolName,
+    });
+    if (!matchesAnyGlobPattern(toolName, patterns)) {
+      return `tool "${toolName}" not in ${describeList(match.tools)}`;
+    }
+  }
+  const scalarConditions: Array<[string, string[] | undefined, string | undefined]> = [
+    ["agent", match.agents, call.agentId],
+    ["channel", match.channels, call.channel],
+    ["sender", match.senders, call.senderId],
+  ];
+  for (const [label, patterns, value] of scalarConditions) {
+    if (!patterns?.length) {
+      continue;
+    }
+    if (!value || !matchesAny([value], compileRulePatterns(patterns))) {
+      return `${label} ${value ? `"${value}"` : "(none)"} not in ${describeList(patterns)}`;
+    }
+  }
+  if (typeof match.sandboxed === "boolean" && Boolean(call.sandboxed) !== match.sandboxed) {
+    return match.sandboxed ? "run is not sandboxed" : "run is sandboxed";
+  }
+  if (match.commands?.length) {
+    const command = extractToolCallCommand(params);
+    if (!command || !matchesAny([command.trim()], compileRulePatterns(match.commands))) {
+      return command
+        ? `command "${command.trim()}" not in ${describeList(match.commands)}`
+        : "call has no command";
+    }
+  }
+  if (match.paths?.length) {
+    const paths = extractToolCallPaths(params, call.workspaceDir);
+    const patterns = compileRulePatterns(match.paths, (raw) =>
+      normalizePathPattern(raw, call.workspaceDir),
+    );
+    if (!matchesAny(paths, patterns)) {
+      return paths.length
+        ? `paths ${describeList(paths)} not in ${describeList(match.paths)}`
+        : "call has no file paths";
+    }
+  }
+  if (match.hosts?.length) {
+    const hosts = extractToolCallHosts(params);
+    if (!hosts.some((host) => matchesHost(host, match.hosts ?? []))) {
+      return hosts.length
+        ? `hosts ${describeList(hosts)} not in ${describeList(match.hosts)}`
+        : "call has no URL hosts";
+    }
+  }
+  for (const [key, raw] of Object.entries(match.args ?? {})) {
+    const patterns = Array.isArray(raw) ? raw : [raw];
+    const values = toStrings(readParam(params, key));
+    if (!matchesAny(values, compileRulePatterns(patterns))) {
+      return values.length
+        ? `args.${key} ${describeList(values)} not in ${describeList(patterns)}`
+        : `args.${key} is not set`;
+    }
+  }
+  return null;
+}
+
+export function resolveToolRuleId(rule: ToolRuleConfig, index: number): string {
+  return rule.id?.trim() || `rule#${index + 1}`;
+}
+
+/** Evaluate rules in order; the first matching rule decides, no match allows. */
+export function evaluateToolRules(
+  rules: ToolRuleConfig[] | undefined,
+  call: ToolRuleCall,
+): ToolRuleDecision {
+  const params = isPlainObject(call.params) ? call.params : {};
+  const trace: ToolRuleTraceEntry[] = [];
+  for (const [index, rule] of (rules ?? []).entries()) {
+    const id = resolveToolRuleId(rule, index);
+    const mismatch = explainMismatch(rule.match ?? {}, call, params);
+    trace.push({
+      index,
+      id,
+      action: rule.action,
+      matched: mismatch === null,
+      detail: mismatch ?? "matched",
+    });
+    if (mismatch !== null) {
+      continue;
+    }
+    const reason =
+      rule.reason?.trim() ||
+      (rule.action === "deny"
+        ? `Tool call denied by policy rule "${id}"`
+        : `Policy rule "${id}" (${rule.action})`);
+    return { action: rule.action, rule, ruleId: id, reason, trace };
+  }
+  return { action: "allow", reason: "no rule matched (default allow)", trace };
+}
+
+function redactValue(value: unknown, patterns: string[] | undefined): unknown {
+  if (typeof value === "string") {
+    return redactSensitiveText(value, { mode: "tools", patterns });
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => redactValue(entry, patterns));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, redactValue(entry, patterns)]),
+    );
+  }
+  return value;
+}
+
+/** Mask secrets in a tool result's text content and details (action=redact). */
+export function redactToolResult<T>(result: T, patterns?: string[]): T {
+  if (!isPlainObject(result)) {
+    return result;
+  }
+  const content = Array.isArray(result.content)
+    ? result.content.map((block: unknown) =>
+        isPlainObject(block) && block.type === "text" && typeof block.text === "string"
+          ? { ...block, text: redactSensitiveText(block.text, { mode: "tools", patterns }) }
+          : block,
+      )
+    : result.content;
+  return {
+    ...result,
+    content,
+    ...("details" in result ? { details: redactValue(result.details, patterns) } : {}),
+  } as T;
+}
+
+export function summarizeToolCall(toolName: string, params: unknown): string {
+  const record = isPlainObject(params) ? params : {};
+  const command = extractToolCallCommand(record);
+  if (command) {
+    return `${toolName}: ${command}`;
+  }
+  const subject = [...extractToolCallPaths(record), ...toStrings(record.url)].slice(0, 3);
+  return subject.length ? `${toolName}: ${subject.join(" ")}` : toolName;
+}
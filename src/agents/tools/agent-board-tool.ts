@@ -6,28 +6,27 @@
  * needing direct inter-session messaging.
  *
  * Boards are stored as JSONL files in `<workspace>/.agent-boards/`.
- * Each line is a message with timestamp, sender, and content.
+ * Each line is a message with timestamp, sender, and content. Sessions can
+ * subscribe to a board (optionally filtered by tag) and are woken with a
+ * system event when a matching message is posted, instead of polling.
  */
 
 import { Type } from "@sinclair/typebox";
-import fs from "node:fs/promises";
-import path from "node:path";
+import type { BoardMessage } from "../../agent-boards/types.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readStringParam, readNumberParam } from "./common.js";
+import {
+  clearBoard,
+  compactBoard,
+  listBoardSubscriptions,
+  listBoards,
+  postBoardMessage,
+  readBoardMessages,
+  selectBoardThread,
+  subscribeBoard,
+  unsubscribeBoard,
+} from "../../agent-boards/store.js";
 import { resolveWorkspaceRoot } from "../workspace-dir.js";
-
-/* ------------------------------------------------------------------ */
-/*  Types                                                             */
-/* ------------------------------------------------------------------ */
-
-interface BoardMessage {
-  id: string;
-  board: string;
-  from: string;
-  message: string;
-  timestamp: number;
-  tags?: string[];
-}
+import { jsonResult, readStringParam, readNumberParam } from "./common.js";
 
 /* ------------------------------------------------------------------ */
 /*  Schema                                                            */
@@ -39,11 +38,26 @@ const AgentBoardToolSchema = Type.Object({
     Type.Literal("read"),
     Type.Literal("list"),
     Type.Literal("clear"),
+    Type.Literal("subscribe"),
+    Type.Literal("unsubscribe"),
+    Type.Literal("subscriptions"),
+    Type.Literal("compact"),
   ]),
   board: Type.Optional(Type.String()),
   message: Type.Optional(Type.String()),
   from: Type.Optional(Type.String()),
+  /** For post: message tags. For read/subscribe: match messages with any of these tags. */
   tags: Type.Optional(Type.Array(Type.String())),
+  /** For post: id of the message this one replies to (starts or extends a thread). */
+  replyTo: Type.Optional(Type.String()),
+  /** For read: only return the thread containing this message id. */
+  thread: Type.Optional(Type.String()),
+  /** For unsubscribe: subscription id (default: all of this session's subscriptions to board). */
+  subscriptionId: Type.Optional(Type.String()),
+  /** For compact: keep at most this many messages (0 = unlimited, default 1000). */
+  maxMessages: Type.Optional(Type.Number({ minimum: 0 })),
+  /** For compact: drop messages older than this many hours (0 = unlimited). */
+  maxAgeHours: Type.Optional(Type.Number({ minimum: 0 })),
   /** For read: only messages after this ISO timestamp */
   since: Type.Optional(Type.String()),
   /** For read: max messages to return (default 50) */
@@ -51,100 +65,97 @@ const AgentBoardToolSchema = Type.Object({
 });
 
 /* ------------------------------------------------------------------ */
-/*  Helpers                                                           */
+/*  Tool factory                                                      */
 /* ------------------------------------------------------------------ */
 
-function boardDir(): string {
-  return path.join(resolveWorkspaceRoot(), ".agent-boards");
-}
-
-function boardPath(board: string): string {
-  const safe = board.replace(/[^a-zA-Z0-9_-]/g, "_");
-  return path.join(boardDir(), `${safe}.jsonl`);
-}
-
-async function ensureBoardDir(): Promise<void> {
-  await fs.mkdir(boardDir(), { recursive: true });
-}
-
-async function readBoard(board: string): Promise<BoardMessage[]> {
-  try {
-    const raw = await fs.readFile(boardPath(board), "utf-8");
-    return raw
-      .split("\n")
-      .filter(Boolean)
-      .map((line) => {
-        try {
-          return JSON.parse(line) as BoardMessage;
-        } catch {
-          return null;
-        }
-      })
-      .filter((m): m is BoardMessage => m !== null);
-  } catch {
-    return [];
-  }
+function readTags(params: Record<string, unknown>): string[] | undefined {
+  return Array.isArray(params.tags)
+    ? params.tags.filter((t): t is string => typeof t === "string")
+    : undefined;
 }
 
-async function appendToBoard(
-  board: string,
-  msg: BoardMessage,
-): Promise<void> {
-  await ensureBoardDir();
-  await fs.appendFile(boardPath(board), JSON.stringify(msg) + "\n");
+function formatMessage(m: BoardMessage) {
+  return {
+    id: m.id,
+    from: m.from,
+    message: m.message,
+    timestamp: new Date(m.timestamp).toISOString(),
+    ...(m.tags?.length ? { tags: m.tags } : {}),
+    ...(m.replyTo ? { replyTo: m.replyTo, threadId: m.threadId } : {}),
+  };
 }
 
-/* ------------------------------------------------------------------ */
-/*  Tool factory                                                      */
-/* ------------------------------------------------------------------ */
-
-export function createAgentBoardTool(): AnyAgentTool {
+export function createAgentBoardTool(options?: {
+  agentSessionKey?: string;
+  workspaceDir?: string;
+}): AnyAgentTool {
   return {
     label: "Agent Board",
     name: "agent_board",
     description: `Inter-agent message board for coordination between sub-agents.
 
 Actions:
-- **post**: Post a message to a named board.
-- **read**: Read messages from a board (optionally filtered by 'since' timestamp).
+- **post**: Post a message to a named board (optional tags, replyTo=<message id> to reply in a thread).
+- **read**: Read messages from a board (optionally filtered by 'since' timestamp, tags, or thread=<message id>).
 - **list**: List all active boards.
 - **clear**: Delete a board.
+- **subscribe**: Get woken with a system event when a message is posted to a board (board="*" for all; optional tags filter). Replaces polling with read.
+- **unsubscribe**: Stop a subscription (subscriptionId, or board for this session's subscriptions).
+- **subscriptions**: List this session's subscriptions.
+- **compact**: Apply retention now; pass maxMessages/maxAgeHours to change the board's retention (default: keep the last 1000 messages).
 
 Boards persist across sessions. Use for multi-agent coordination within workflows.`,
     parameters: AgentBoardToolSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
       const action = readStringParam(params, "action", { required: true });
+      const workspaceDir = resolveWorkspaceRoot(options?.workspaceDir);
+      const sessionKey = options?.agentSessionKey?.trim() || undefined;
 
       switch (action) {
         case "post": {
           const board = readStringParam(params, "board", { required: true });
           const message = readStringParam(params, "message", { required: true });
-          const from = readStringParam(params, "from") ?? "anonymous";
-          const tags = Array.isArray(params.tags)
-            ? (params.tags as string[]).filter((t) => typeof t === "string")
-            : undefined;
-
-          const msg: BoardMessage = {
-            id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-            board,
-            from,
-            message,
-            timestamp: Date.now(),
-            ...(tags?.length ? { tags } : {}),
-          };
-
-          await appendToBoard(board, msg);
-          return jsonResult({ status: "posted", id: msg.id, board });
+          const from = readStringParam(params, "from") ?? sessionKey ?? "anonymous";
+          try {
+            const result = await postBoardMessage(workspaceDir, {
+              board,
+              message,
+              from,
+              tags: readTags(params),
+              replyTo: readStringParam(params, "replyTo"),
+              sessionKey,
+            });
+            return jsonResult({
+              status: "posted",
+              id: result.message.id,
+              board,
+              ...(result.message.threadId ? { threadId: result.message.threadId } : {}),
+              notified: result.notified.length,
+            });
+          } catch (err) {
+            return jsonResult({
+              status: "error",
+              error: err instanceof Error ? err.message : String(err),
+            });
+          }
         }
 
         case "read": {
           const board = readStringParam(params, "board", { required: true });
           const sinceStr = readStringParam(params, "since");
+          const thread = readStringParam(params, "thread");
+          const tags = readTags(params);
           const limit = readNumberParam(params, "limit", { integer: true }) ?? 50;
 
-          let messages = await readBoard(board);
+          let messages = await readBoardMessages(workspaceDir, board);
 
+          if (thread) {
+            messages = selectBoardThread(messages, thread);
+          }
+          if (tags?.length) {
+            messages = messages.filter((m) => m.tags?.some((tag) => tags.includes(tag)));
+          }
           if (sinceStr) {
             if (sinceStr === "last_read") {
               // Return all messages — caller manages their own cursor
@@ -163,37 +174,96 @@ Boards persist across sessions. Use for multi-agent coordination within workflow
             status: "ok",
             board,
             count: messages.length,
-            messages: messages.map((m) => ({
-              id: m.id,
-              from: m.from,
-              message: m.message,
-              timestamp: new Date(m.timestamp).toISOString(),
-              ...(m.tags?.length ? { tags: m.tags } : {}),
-            })),
+            messages: messages.map(formatMessage),
           });
         }
 
         case "list": {
-          try {
-            const dir = boardDir();
-            const files = await fs.readdir(dir);
-            const boards = files
-              .filter((f) => f.endsWith(".jsonl"))
-              .map((f) => f.replace(".jsonl", ""));
-            return jsonResult({ status: "ok", boards });
-          } catch {
-            return jsonResult({ status: "ok", boards: [] });
-          }
+          const boards = await listBoards(workspaceDir);
+          return jsonResult({
+            status: "ok",
+            boards: boards.map((b) => b.name),
+            details: boards.map((b) => ({
+              name: b.name,
+              count: b.count,
+              ...(b.lastPostAt ? { lastPostAt: new Date(b.lastPostAt).toISOString() } : {}),
+              subscribers: b.subscribers,
+            })),
+          });
         }
 
         case "clear": {
           const board = readStringParam(params, "board", { required: true });
-          try {
-            await fs.unlink(boardPath(board));
+          if (await clearBoard(workspaceDir, board)) {
             return jsonResult({ status: "cleared", board });
-          } catch {
-            return jsonResult({ status: "ok", board, note: "Board did not exist" });
           }
+          return jsonResult({ status: "ok", board, note: "Board did not exist" });
+        }
+
+        case "subscribe": {
+          const board = readStringParam(params, "board", { required: true });
+          if (!sessionKey) {
+            return jsonResult({
+              status: "error",
+              error: "subscribe needs a session (no session key for this run)",
+            });
+          }
+          const sub = await subscribeBoard(workspaceDir, {
+            board,
+            sessionKey,
+            tags: readTags(params),
+          });
+          return jsonResult({
+            status: "subscribed",
+            subscriptionId: sub.id,
+            board: sub.board,
+            ...(sub.tags ? { tags: sub.tags } : {}),
+          });
+        }
+
+        case "unsubscribe": {
+          const subscriptionId = readStringParam(params, "subscriptionId");
+          const board = readStringParam(params, "board");
+          if (!subscriptionId && !board) {
+            return jsonResult({ status: "error", error: "subscriptionId or board is required" });
+          }
+          const removed = await unsubscribeBoard(workspaceDir, {
+            id: subscriptionId,
+            sessionKey,
+            board,
+          });
+          return jsonResult({ status: "ok", removed });
+        }
+
+        case "subscriptions": {
+          const subscriptions = await listBoardSubscriptions(workspaceDir, {
+            sessionKey,
+            board: readStringParam(params, "board"),
+          });
+          return jsonResult({
+            status: "ok",
+            subscriptions: subscriptions.map((sub) => ({
+              id: sub.id,
+              board: sub.board,
+              ...(sub.tags ? { tags: sub.tags } : {}),
+              createdAt: new Date(sub.createdAt).toISOString(),
+            })),
+          });
+        }
+
+        case "compact": {
+          const board = readStringParam(params, "board", { required: true });
+          const maxMessages = readNumberParam(params, "maxMessages", { integer: true });
+          const maxAgeHours = readNumberParam(params, "maxAgeHours");
+          const retention =
+            maxMessages !== undefined || maxAgeHours !== undefined
+              ? {
+                  ...(maxMessages !== undefined ? { maxMessages } : {}),
+                  ...(maxAgeHours !== undefined ? { maxAgeHours } : {}),
+                }
+              : undefined;
+          const result = await compactBoard(workspaceDir, board, retention);
+          return jsonResult({ status: "compacted", board, ...result });
         }
 
         default:
@@ -16,7 +16,18 @@ import { resolveInternalSessionKey, resolveMainSessionAlias } from "./sessions-h
 // contain nested unions. Tool schemas need to stay provider-friendly, so we
 // accept "any object" here and validate at runtime.
 
-const CRON_ACTIONS = ["status", "list", "add", "update", "remove", "run", "runs", "wake"] as const;
+const CRON_ACTIONS = [
+  "status",
+  "list",
+  "add",
+  "update",
+  "remove",
+  "run",
+  "runs",
+  "replay",
+  "preview",
+  "wake",
+] as const;
 
 const CRON_WAKE_MODES = ["now", "next-heartbeat"] as const;
 const CRON_RUN_MODES = ["due", "force"] as const;
@@ -36,6 +47,7 @@ const CronToolSchema = Type.Object({
   job: Type.Optional(Type.Object({}, { additionalProperties: true })),
   jobId: Type.Optional(Type.String()),
   id: Type.Optional(Type.String()),
+  runId: Type.Optional(Type.String()),
   patch: Type.Optional(Type.Object({}, { additionalProperties: true })),
   text: Type.Optional(Type.String()),
   mode: optionalStringEnum(CRON_WAKE_MODES),
@@ -200,7 +212,7 @@ export function createCronTool(opts?: CronToolOptions): AnyAgentTool {
   return {
     label: "Cron",
     name: "cron",
-    description: `Manage Gateway cron jobs (status/list/add/update/remove/run/runs) and send wake events.
+    description: `Manage Gateway cron jobs (status/list/add/update/remove/run/runs/replay) and send wake events.
 
 ACTIONS:
 - status: Check cron scheduler status
@@ -209,7 +221,9 @@ ACTIONS:
 - update: Modify job (requires jobId + patch object)
 - remove: Delete job (requires jobId)
 - run: Trigger job immediately (requires jobId)
-- runs: Get job run history (requires jobId)
+- runs: Get job run history with output, token usage/cost and delivery outcome (requires jobId; optional runId)
+- replay: Re-run a past run with the same inputs (requires jobId + runId from runs)
+- preview: Next run times (requires jobId, or job.schedule to try a schedule before adding it)
 - wake: Send wake event (requires text, optional mode)
 
 JOB SCHEMA (for add action):
@@ -218,6 +232,7 @@ JOB SCHEMA (for add action):
   "schedule": { ... },      // Required: when to run
   "payload": { ... },       // Required: what to execute
   "delivery": { ... },      // Optional: announce summary (isolated only)
+  "triggers": { ... },      // Optional: run after other jobs finish
   "sessionTarget": "main" | "isolated",  // Required
   "enabled": true | false,  // Optional, default true
   "notify": true | false    // Optional webhook opt-in; set true for user-facing reminders
@@ -230,15 +245,29 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "trigger": No clock schedule; runs only when a trigger fires (requires triggers)
+  { "kind": "trigger" }
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
+SCHEDULE LIMITS ("every" and "cron" only, optional fields on schedule):
+- "jitterMs": random delay added to each run (spreads load)
+- "activeHours": { "start": "HH:MM", "end": "HH:MM", "timezone": "<optional>" } — only run inside the window
+- "excludeCalendar": "<path to .ics>" — skip runs during calendar events (e.g. holidays)
+- "until": "<ISO-8601>" / "maxRuns": <n> — stop after a time / number of runs (the job is then disabled)
+
 PAYLOAD TYPES (payload.kind):
 - "systemEvent": Injects text as system event into session
   { "kind": "systemEvent", "text": "<message>" }
 - "agentTurn": Runs agent with message (isolated sessions only)
   { "kind": "agentTurn", "message": "<prompt>", "model": "<optional>", "thinking": "<optional>", "timeoutSeconds": <optional> }
 
+TRIGGERS (top-level, job ids of upstream jobs):
+  { "onSuccess": ["<jobId>"], "onFailure": ["<jobId>"], "after": ["<jobId>"], "passOutput": <optional-bool> }
+  - onSuccess/onFailure fire on that upstream status; after fires on any finished run
+  - The upstream output is appended to the agentTurn message unless passOutput=false
+  - Trigger cycles and unknown job ids are rejected
+
 DELIVERY (isolated-only, top-level):
   { "mode": "none|announce", "channel": "<optional>", "to": "<optional>", "bestEffort": <optional-bool> }
   - Default for isolated agentTurn jobs (when delivery omitted): "announce"
@@ -293,6 +322,7 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
               "wakeMode",
               "payload",
               "delivery",
+              "triggers",
               "enabled",
               "notify",
               "description",
@@ -430,7 +460,28 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
           if (!id) {
             throw new Error("jobId required (id accepted for backward compatibility)");
           }
-          return jsonResult(await callGatewayTool("cron.runs", gatewayOpts, { id }));
+          const runId = readStringParam(params, "runId");
+          return jsonResult(
+            await callGatewayTool("cron.runs", gatewayOpts, runId ? { id, runId } : { id }),
+          );
+        }
+        case "replay": {
+          const id = readStringParam(params, "jobId") ?? readStringParam(params, "id");
+          if (!id) {
+            throw new Error("jobId required (id accepted for backward compatibility)");
+          }
+          const runId = readStringParam(params, "runId", { required: true });
+          return jsonResult(await callGatewayTool("cron.replay", gatewayOpts, { id, runId }));
+        }
+        case "preview": {
+          const id = readStringParam(params, "jobId") ?? readStringParam(params, "id");
+          const schedule = isRecord(params.job) ? params.job.schedule : undefined;
+          if (!id && !isRecord(schedule)) {
+            throw new Error("jobId or job.schedule required");
+          }
+          return jsonResult(
+            await callGatewayTool("cron.preview", gatewayOpts, id ? { id } : { schedule }),
+          );
         }
         case "wake": {
           const text = readStringParam(params, "text", { required: true });
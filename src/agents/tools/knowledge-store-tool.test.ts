@@ -1,5 +1,5 @@
-import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import fs from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 const MOCK_WORKSPACE = "/tmp/test-workspace-knowledge";
 
@@ -128,15 +128,21 @@ describe("knowledge_store tool", () => {
 
   it("queries by filter", async () => {
     await tool.execute("c1", {
-      action: "set", category: "contacts", key: "sean",
+      action: "set",
+      category: "contacts",
+      key: "sean",
       data: { name: "Sean", company: "Swinkels" },
     });
     await tool.execute("c2", {
-      action: "set", category: "contacts", key: "marcus",
+      action: "set",
+      category: "contacts",
+      key: "marcus",
       data: { name: "Marcus", company: "AITappers" },
     });
     await tool.execute("c3", {
-      action: "set", category: "contacts", key: "dawson",
+      action: "set",
+      category: "contacts",
+      key: "dawson",
       data: { name: "Dawson", company: "AIA" },
     });
 
@@ -152,7 +158,9 @@ describe("knowledge_store tool", () => {
 
   it("query does partial string matching", async () => {
     await tool.execute("c1", {
-      action: "set", category: "contacts", key: "sean",
+      action: "set",
+      category: "contacts",
+      key: "sean",
       data: { name: "Sean Durkan", role: "Client" },
     });
 
@@ -179,4 +187,45 @@ describe("knowledge_store tool", () => {
       ]),
     );
   });
+
+  it("queries with operators, sort and pagination", async () => {
+    for (const [key, age] of [
+      ["a", 20],
+      ["b", 40],
+      ["c", 60],
+    ] as const) {
+      await tool.execute("c1", { action: "set", category: "people", key, data: { age } });
+    }
+
+    const result = await tool.execute("c2", {
+      action: "query",
+      category: "people",
+      filter: { age: { gte: 30 } },
+      sort: "-age",
+      limit: 1,
+    });
+    const parsed = JSON.parse(result.content[0].text);
+    expect(parsed.total).toBe(2);
+    expect(parsed.results.map((r: { key: string }) => r.key)).toEqual(["c"]);
+    expect(parsed.nextOffset).toBe(1);
+  });
+
+  it("rejects data that does not match the category schema", async () => {
+    const schemaResult = await tool.execute("c1", {
+      action: "set_schema",
+      category: "contacts",
+      schema: { type: "object", required: ["name"] },
+    });
+    expect(JSON.parse(schemaResult.content[0].text).status).toBe("ok");
+
+    const result = await tool.execute("c2", {
+      action: "set",
+      category: "contacts",
+      key: "nameless",
+      data: { company: "Acme" },
+    });
+    const parsed = JSON.parse(result.content[0].text);
+    expect(parsed.status).toBe("error");
+    expect(parsed.error).toMatch(/schema/);
+  });
 });
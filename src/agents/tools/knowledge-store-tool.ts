@@ -7,50 +7,24 @@
  * Usage:
  *   knowledge_store({ action: "set", category: "contacts", key: "sean", data: {...} })
  *   knowledge_store({ action: "get", category: "contacts", key: "sean" })
- *   knowledge_store({ action: "query", category: "contacts", filter: { company: "Swinkels" } })
+ *   knowledge_store({ action: "query", category: "contacts", filter: { age: { gte: 30 } }, sort: "-updatedAt" })
  *   knowledge_store({ action: "delete", category: "contacts", key: "sean" })
  *   knowledge_store({ action: "list", category: "contacts" })
  *   knowledge_store({ action: "categories" })
+ *   knowledge_store({ action: "set_schema", category: "contacts", schema: {...}, indexes: ["company"] })
  */
 
 import { Type } from "@sinclair/typebox";
-import fs from "node:fs/promises";
-import path from "node:path";
+import type { KnowledgeEntry } from "../../knowledge/types.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readStringParam, readNumberParam } from "./common.js";
+import { parseKnowledgeSort } from "../../knowledge/query.js";
+import {
+  normalizeKnowledgeTags,
+  resolveKnowledgeStorePath,
+  withKnowledgeStore,
+} from "../../knowledge/store.js";
 import { resolveWorkspaceRoot } from "../workspace-dir.js";
-
-/* ------------------------------------------------------------------ */
-/*  Simple JSON file store (no SQLite dependency needed)              */
-/* ------------------------------------------------------------------ */
-
-interface StoreData {
-  [category: string]: {
-    [key: string]: {
-      data: unknown;
-      createdAt: number;
-      updatedAt: number;
-      tags?: string[];
-    };
-  };
-}
-
-function storePath(): string {
-  return path.join(resolveWorkspaceRoot(), ".knowledge-store.json");
-}
-
-async function loadStore(): Promise<StoreData> {
-  try {
-    const raw = await fs.readFile(storePath(), "utf-8");
-    return JSON.parse(raw) as StoreData;
-  } catch {
-    return {};
-  }
-}
-
-async function saveStore(store: StoreData): Promise<void> {
-  await fs.writeFile(storePath(), JSON.stringify(store, null, 2));
-}
+import { ToolInputError, jsonResult, readStringParam, readNumberParam } from "./common.js";
 
 /* ------------------------------------------------------------------ */
 /*  Schema                                                            */
@@ -64,184 +38,249 @@ const KnowledgeStoreSchema = Type.Object({
     Type.Literal("list"),
     Type.Literal("query"),
     Type.Literal("categories"),
+    Type.Literal("set_schema"),
+    Type.Literal("get_schema"),
   ]),
   category: Type.Optional(Type.String()),
   key: Type.Optional(Type.String()),
   data: Type.Optional(Type.Unknown()),
+  /** For set: replaces the entry tags. For list/query: entries must have all of them. */
   tags: Type.Optional(Type.Array(Type.String())),
-  /** For query: simple key-value filter on the data object */
+  /** For list/query: entries must have at least one of these tags. */
+  anyTags: Type.Optional(Type.Array(Type.String())),
+  /** For set: shallow-merge object data into the stored entry. */
+  merge: Type.Optional(Type.Boolean()),
+  /**
+   * For query: field filters on the data object (dotted paths allowed). A plain
+   * string matches as a case-insensitive substring, other values by equality;
+   * an operator object supports eq, ne, gt, gte, lt, lte, contains, prefix, in, exists.
+   */
   filter: Type.Optional(Type.Record(Type.String(), Type.Unknown())),
-  /** Max results for list/query (default: 50) */
+  /** For list/query: comma-separated fields, `-` prefix for descending (e.g. "-updatedAt,name"). */
+  sort: Type.Optional(Type.String()),
+  /** Max results for list/query (default: 50, max: 500) */
   limit: Type.Optional(Type.Number({ minimum: 1 })),
+  /** Skip this many results (pagination) */
+  offset: Type.Optional(Type.Number({ minimum: 0 })),
+  /** For set_schema: JSON schema for the category's data (null removes it) */
+  schema: Type.Optional(Type.Unknown()),
+  /** For set_schema: data fields to index for faster filters and sorts */
+  indexes: Type.Optional(Type.Array(Type.String())),
 });
 
 /* ------------------------------------------------------------------ */
 /*  Tool factory                                                      */
 /* ------------------------------------------------------------------ */
 
-export function createKnowledgeStoreTool(): AnyAgentTool {
+function readTags(params: Record<string, unknown>, key: string): string[] | undefined {
+  return Array.isArray(params[key]) ? normalizeKnowledgeTags(params[key]) : undefined;
+}
+
+function formatEntrySummary(entry: KnowledgeEntry, includeCategory: boolean) {
+  return {
+    ...(includeCategory ? { category: entry.category } : {}),
+    key: entry.key,
+    updatedAt: new Date(entry.updatedAt).toISOString(),
+    ...(entry.tags.length ? { tags: entry.tags } : {}),
+  };
+}
+
+export function createKnowledgeStoreTool(options?: { workspaceDir?: string }): AnyAgentTool {
   return {
     label: "Knowledge Store",
     name: "knowledge_store",
     description: `Structured key-value knowledge base for reliable storage of contacts, projects, facts, and other structured data.
 
 Actions:
-- **set**: Store/update a value (requires category, key, data).
+- **set**: Store/update a value (requires category, key, data; optional tags, merge=true to update only the given fields).
 - **get**: Retrieve a value (requires category, key).
 - **delete**: Remove a value (requires category, key).
-- **list**: List all keys in a category (optional limit).
-- **query**: Search within a category by matching data fields (requires category, filter).
-- **categories**: List all categories.
+- **list**: List keys in a category (optional tags/anyTags, sort, limit, offset).
+- **query**: Search by data fields and/or tags (filter, tags, anyTags; category optional). Filters: plain string = substring match, or operators like { "age": { "gte": 30 } }, { "name": { "prefix": "se" } }, { "skills": { "contains": "go" } }.
+- **categories**: List all categories with counts.
+- **set_schema**: Attach a JSON schema (and optional indexed fields) to a category; later sets must match it. schema=null removes it.
+- **get_schema**: Show a category's schema and indexes.
 
-More reliable than memory search for structured/factual data.`,
+Results are paginated: pass offset=nextOffset to continue. More reliable than memory search for structured/factual data.`,
     parameters: KnowledgeStoreSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
       const action = readStringParam(params, "action", { required: true });
+      const dbPath = resolveKnowledgeStorePath(resolveWorkspaceRoot(options?.workspaceDir));
 
-      switch (action) {
-        case "set": {
-          const category = readStringParam(params, "category", { required: true });
-          const key = readStringParam(params, "key", { required: true });
-          const data = params.data;
-          const tags = Array.isArray(params.tags)
-            ? (params.tags as string[]).filter((t) => typeof t === "string")
-            : undefined;
-
-          if (data === undefined) {
-            return jsonResult({ status: "error", error: "data is required for set" });
-          }
+      try {
+        switch (action) {
+          case "set": {
+            const category = readStringParam(params, "category", { required: true });
+            const key = readStringParam(params, "key", { required: true });
+            const data = params.data;
 
-          const store = await loadStore();
-          if (!store[category]) store[category] = {};
-
-          const existing = store[category][key];
-          store[category][key] = {
-            data,
-            createdAt: existing?.createdAt ?? Date.now(),
-            updatedAt: Date.now(),
-            ...(tags?.length ? { tags } : {}),
-          };
-
-          await saveStore(store);
-          return jsonResult({
-            status: existing ? "updated" : "created",
-            category,
-            key,
-          });
-        }
-
-        case "get": {
-          const category = readStringParam(params, "category", { required: true });
-          const key = readStringParam(params, "key", { required: true });
-
-          const store = await loadStore();
-          const entry = store[category]?.[key];
+            if (data === undefined) {
+              return jsonResult({ status: "error", error: "data is required for set" });
+            }
 
-          if (!entry) {
-            return jsonResult({ status: "not_found", category, key });
+            const result = await withKnowledgeStore(dbPath, (store) =>
+              store.set({
+                category,
+                key,
+                data,
+                tags: readTags(params, "tags"),
+                merge: params.merge === true,
+              }),
+            );
+            return jsonResult({ status: result.status, category, key });
           }
 
-          return jsonResult({
-            status: "ok",
-            category,
-            key,
-            data: entry.data,
-            createdAt: new Date(entry.createdAt).toISOString(),
-            updatedAt: new Date(entry.updatedAt).toISOString(),
-            ...(entry.tags?.length ? { tags: entry.tags } : {}),
-          });
-        }
+          case "get": {
+            const category = readStringParam(params, "category", { required: true });
+            const key = readStringParam(params, "key", { required: true });
 
-        case "delete": {
-          const category = readStringParam(params, "category", { required: true });
-          const key = readStringParam(params, "key", { required: true });
+            const entry = await withKnowledgeStore(dbPath, (store) => store.get(category, key));
+            if (!entry) {
+              return jsonResult({ status: "not_found", category, key });
+            }
 
-          const store = await loadStore();
-          if (!store[category]?.[key]) {
-            return jsonResult({ status: "not_found", category, key });
+            return jsonResult({
+              status: "ok",
+              category,
+              key,
+              data: entry.data,
+              createdAt: new Date(entry.createdAt).toISOString(),
+              updatedAt: new Date(entry.updatedAt).toISOString(),
+              ...(entry.tags.length ? { tags: entry.tags } : {}),
+            });
           }
 
-          delete store[category][key];
-          if (Object.keys(store[category]).length === 0) {
-            delete store[category];
+          case "delete": {
+            const category = readStringParam(params, "category", { required: true });
+            const key = readStringParam(params, "key", { required: true });
+
+            const deleted = await withKnowledgeStore(dbPath, (store) =>
+              store.delete(category, key),
+            );
+            return jsonResult({ status: deleted ? "deleted" : "not_found", category, key });
           }
-          await saveStore(store);
-          return jsonResult({ status: "deleted", category, key });
-        }
 
-        case "list": {
-          const category = readStringParam(params, "category", { required: true });
-          const limit = readNumberParam(params, "limit", { integer: true }) ?? 50;
-
-          const store = await loadStore();
-          const entries = store[category] ?? {};
-          const keys = Object.keys(entries).slice(0, limit);
-
-          return jsonResult({
-            status: "ok",
-            category,
-            count: Object.keys(entries).length,
-            keys: keys.map((k) => ({
-              key: k,
-              updatedAt: new Date(entries[k].updatedAt).toISOString(),
-              ...(entries[k].tags?.length ? { tags: entries[k].tags } : {}),
-            })),
-          });
-        }
+          case "list": {
+            const category = readStringParam(params, "category", { required: true });
+            const result = await withKnowledgeStore(dbPath, (store) =>
+              store.query({
+                category,
+                tags: readTags(params, "tags"),
+                anyTags: readTags(params, "anyTags"),
+                sort: parseKnowledgeSort(readStringParam(params, "sort")),
+                limit: readNumberParam(params, "limit", { integer: true }),
+                offset: readNumberParam(params, "offset", { integer: true }),
+              }),
+            );
+
+            return jsonResult({
+              status: "ok",
+              category,
+              count: result.total,
+              keys: result.entries.map((entry) => formatEntrySummary(entry, false)),
+              ...(result.nextOffset !== undefined ? { nextOffset: result.nextOffset } : {}),
+            });
+          }
 
-        case "query": {
-          const category = readStringParam(params, "category", { required: true });
-          const filter = params.filter as Record<string, unknown> | undefined;
-          const limit = readNumberParam(params, "limit", { integer: true }) ?? 50;
+          case "query": {
+            const category = readStringParam(params, "category");
+            const filter = params.filter as Record<string, unknown> | undefined;
+            const tags = readTags(params, "tags");
+            const anyTags = readTags(params, "anyTags");
+
+            if (
+              (!filter || Object.keys(filter).length === 0) &&
+              !tags?.length &&
+              !anyTags?.length
+            ) {
+              return jsonResult({
+                status: "error",
+                error: "filter or tags is required for query",
+              });
+            }
 
-          if (!filter || Object.keys(filter).length === 0) {
-            return jsonResult({ status: "error", error: "filter is required for query" });
+            const result = await withKnowledgeStore(dbPath, (store) =>
+              store.query({
+                category,
+                filter,
+                tags,
+                anyTags,
+                sort: parseKnowledgeSort(readStringParam(params, "sort")),
+                limit: readNumberParam(params, "limit", { integer: true }),
+                offset: readNumberParam(params, "offset", { integer: true }),
+              }),
+            );
+
+            return jsonResult({
+              status: "ok",
+              ...(category ? { category } : {}),
+              count: result.entries.length,
+              total: result.total,
+              results: result.entries.map((entry) => ({
+                ...formatEntrySummary(entry, !category),
+                data: entry.data,
+              })),
+              ...(result.nextOffset !== undefined ? { nextOffset: result.nextOffset } : {}),
+            });
           }
 
-          const store = await loadStore();
-          const entries = store[category] ?? {};
-          const results: Array<{ key: string; data: unknown }> = [];
-
-          for (const [key, entry] of Object.entries(entries)) {
-            const data = entry.data as Record<string, unknown> | undefined;
-            if (!data || typeof data !== "object") continue;
-
-            const matches = Object.entries(filter).every(([fk, fv]) => {
-              const val = data[fk];
-              if (typeof fv === "string") {
-                return (
-                  String(val).toLowerCase().includes(fv.toLowerCase())
-                );
-              }
-              return val === fv;
+          case "categories": {
+            const categories = await withKnowledgeStore(dbPath, (store) => store.listCategories());
+            return jsonResult({
+              status: "ok",
+              categories: categories.map((category) => ({
+                name: category.name,
+                count: category.count,
+                ...(category.schema ? { hasSchema: true } : {}),
+              })),
             });
+          }
 
-            if (matches) {
-              results.push({ key, data: entry.data });
-              if (results.length >= limit) break;
+          case "set_schema": {
+            const category = readStringParam(params, "category", { required: true });
+            const schema = params.schema;
+            if (schema !== null && (typeof schema !== "object" || Array.isArray(schema))) {
+              return jsonResult({
+                status: "error",
+                error: "schema must be a JSON schema object (or null to remove it)",
+              });
             }
+            const indexes = Array.isArray(params.indexes)
+              ? params.indexes.filter((field): field is string => typeof field === "string")
+              : undefined;
+            const result = await withKnowledgeStore(dbPath, (store) =>
+              store.setSchema({
+                category,
+                schema: schema as Record<string, unknown> | null,
+                indexes,
+              }),
+            );
+            return jsonResult({
+              status: "ok",
+              category,
+              schema: schema ? "set" : "removed",
+              indexes: result.indexes,
+            });
           }
 
-          return jsonResult({
-            status: "ok",
-            category,
-            count: results.length,
-            results,
-          });
-        }
+          case "get_schema": {
+            const category = readStringParam(params, "category", { required: true });
+            const result = await withKnowledgeStore(dbPath, (store) => store.getSchema(category));
+            return jsonResult({ status: "ok", category, ...result });
+          }
 
-        case "categories": {
-          const store = await loadStore();
-          const categories = Object.entries(store).map(([name, entries]) => ({
-            name,
-            count: Object.keys(entries).length,
-          }));
-          return jsonResult({ status: "ok", categories });
+          default:
+            return jsonResult({ status: "error", error: `Unknown action: ${action}` });
         }
-
-        default:
-          return jsonResult({ status: "error", error: `Unknown action: ${action}` });
+      } catch (err) {
+        if (err instanceof ToolInputError) {
+          throw err;
+        }
+        return jsonResult({
+          status: "error",
+          error: err instanceof Error ? err.message : String(err),
+        });
       }
     },
   };
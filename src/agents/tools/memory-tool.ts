@@ -1,19 +1,47 @@
 import { Type } from "@sinclair/typebox";
 import type { OpenClawConfig } from "../../config/config.js";
 import type { MemoryCitationsMode } from "../../config/types.memory.js";
-import type { MemorySearchResult } from "../../memory/types.js";
+import type { MemorySearchFilter, MemorySearchResult, MemorySource } from "../../memory/types.js";
 import type { AnyAgentTool } from "./common.js";
 import { resolveMemoryBackendConfig } from "../../memory/backend-config.js";
 import { getMemorySearchManager } from "../../memory/index.js";
+import { parseMemoryDateBound } from "../../memory/search-filter.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
 import { resolveSessionAgentId } from "../agent-scope.js";
 import { resolveMemorySearchConfig } from "../memory-search.js";
-import { jsonResult, readNumberParam, readStringParam } from "./common.js";
+import { stringEnum } from "../schema/typebox.js";
+import { jsonResult, readNumberParam, readStringArrayParam, readStringParam } from "./common.js";
+
+const MEMORY_SOURCES = ["memory", "sessions", "knowledge"] as const;
 
 const MemorySearchSchema = Type.Object({
   query: Type.String(),
   maxResults: Type.Optional(Type.Number()),
   minScore: Type.Optional(Type.Number()),
+  paths: Type.Optional(
+    Type.Array(Type.String(), {
+      description:
+        "Only results whose path matches one of these globs (e.g. memory/projects/acme/**).",
+    }),
+  ),
+  excludePaths: Type.Optional(Type.Array(Type.String())),
+  since: Type.Optional(
+    Type.String({ description: "Only files modified since: ISO date or age like 30d, 12h, 2w." }),
+  ),
+  until: Type.Optional(Type.String({ description: "Only files modified until: ISO date or age." })),
+  sources: Type.Optional(Type.Array(stringEnum(MEMORY_SOURCES))),
+  agent: Type.Optional(
+    Type.String({ description: "Session transcripts only: sessions owned by this agent id." }),
+  ),
+  channel: Type.Optional(
+    Type.String({ description: "Session transcripts only: sessions on this channel." }),
+  ),
+  peer: Type.Optional(
+    Type.String({ description: "Session transcripts only: sessions with this peer id." }),
+  ),
+  sessionKey: Type.Optional(
+    Type.String({ description: "Session transcripts only: this session key." }),
+  ),
 });
 
 const MemoryGetSchema = Type.Object({
@@ -50,12 +78,19 @@ export function createMemorySearchTool(options: {
     label: "Memory Search",
     name: "memory_search",
     description:
-      "Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines.",
+      "Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts or knowledge_store entries) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines.",
     parameters: MemorySearchSchema,
     execute: async (_toolCallId, params) => {
       const query = readStringParam(params, "query", { required: true });
       const maxResults = readNumberParam(params, "maxResults");
       const minScore = readNumberParam(params, "minScore");
+      let filter: MemorySearchFilter;
+      try {
+        filter = readMemorySearchFilter(params);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return jsonResult({ results: [], error: message });
+      }
       const { manager, error } = await getMemorySearchManager({
         cfg,
         agentId,
@@ -73,6 +108,7 @@ export function createMemorySearchTool(options: {
           maxResults,
           minScore,
           sessionKey: options.agentSessionKey,
+          filter,
         });
         const status = manager.status();
         const decorated = decorateCitations(rawResults, includeCitations);
@@ -96,6 +132,23 @@ export function createMemorySearchTool(options: {
   };
 }
 
+function readMemorySearchFilter(params: Record<string, unknown>): MemorySearchFilter {
+  const sources = readStringArrayParam(params, "sources")?.filter(
+    (source): source is MemorySource => (MEMORY_SOURCES as readonly string[]).includes(source),
+  );
+  return {
+    pathInclude: readStringArrayParam(params, "paths"),
+    pathExclude: readStringArrayParam(params, "excludePaths"),
+    modifiedAfter: parseMemoryDateBound(readStringParam(params, "since")),
+    modifiedBefore: parseMemoryDateBound(readStringParam(params, "until")),
+    sources,
+    agentId: readStringParam(params, "agent"),
+    channel: readStringParam(params, "channel"),
+    peer: readStringParam(params, "peer"),
+    sessionKey: readStringParam(params, "sessionKey"),
+  };
+}
+
 export function createMemoryGetTool(options: {
   config?: OpenClawConfig;
   agentSessionKey?: string;
@@ -109,7 +162,7 @@ export function createMemoryGetTool(options: {
     label: "Memory Get",
     name: "memory_get",
     description:
-      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines; use after memory_search to pull only the needed lines and keep context small.",
+      "Safe snippet read from MEMORY.md, memory/*.md or an indexed knowledge/<category>/<key> entry with optional from/lines; use after memory_search to pull only the needed lines and keep context small.",
     parameters: MemoryGetSchema,
     execute: async (_toolCallId, params) => {
       const relPath = readStringParam(params, "path", { required: true });
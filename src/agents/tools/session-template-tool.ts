@@ -3,58 +3,115 @@
  *
  * Templates are defined in config:
  *
- *   sessions:
+ *   session:
  *     templates:
+ *       base:
+ *         tools: { deny: ["gateway"] }
  *       coding:
+ *         extends: base
  *         model: opus
  *         thinking: high
  *         systemPrompt: "You are a senior engineer..."
- *       research:
- *         model: sonnet
- *         systemPrompt: "You are a research analyst..."
+ *         skills: ["github"]
+ *         sandbox: { mode: all }
+ *         elevated: "off"
+ *         bootstrapFiles: ["templates/coding/AGENTS.md"]
  *
- * When spawning a sub-agent or configuring a session, the agent can
- * reference a template by name to apply its settings.
+ * Applying a template records it on the session (sessions.patch template) so
+ * the tool policy, skills filter, sandbox mode, bootstrap files and system
+ * prompt follow it on every run; model, thinking and elevated level are
+ * patched once. sessions_spawn and workflow steps accept the same names.
  */
 
 import { Type } from "@sinclair/typebox";
+import type { OpenClawConfig } from "../../config/config.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readStringParam } from "./common.js";
 import { loadConfig } from "../../config/config.js";
 import { callGateway } from "../../gateway/call.js";
-
-/* ------------------------------------------------------------------ */
-/*  Config types                                                      */
-/* ------------------------------------------------------------------ */
-
-export type SessionTemplateConfig = {
-  model?: string;
-  thinking?: string;
-  systemPrompt?: string;
-  description?: string;
-};
+import { formatErrorMessage } from "../../infra/errors.js";
+import {
+  buildSessionTemplatePatch,
+  findSessionTemplateEscalation,
+  listSessionTemplateNames,
+  resolveSessionTemplate,
+  type ResolvedSessionTemplate,
+} from "../../sessions/templates.js";
+import { resolveSandboxRuntimeStatus } from "../sandbox/runtime-status.js";
+import { jsonResult, readStringParam } from "./common.js";
+import {
+  isRequesterSpawnedSessionVisible,
+  resolveInternalSessionKey,
+  resolveMainSessionAlias,
+} from "./sessions-helpers.js";
 
 /* ------------------------------------------------------------------ */
 /*  Schema                                                            */
 /* ------------------------------------------------------------------ */
 
 const SessionTemplateToolSchema = Type.Object({
-  action: Type.Union([
-    Type.Literal("list"),
-    Type.Literal("apply"),
-  ]),
+  action: Type.Union([Type.Literal("list"), Type.Literal("apply"), Type.Literal("clear")]),
   /** Template name (for apply action) */
   template: Type.Optional(Type.String()),
   /** Session key to apply template to (default: current session) */
   sessionKey: Type.Optional(Type.String()),
 });
 
+function describeTemplate(template: ResolvedSessionTemplate) {
+  return {
+    name: template.name,
+    description: template.description,
+    extends: template.chain.length > 1 ? template.chain.slice(0, -1) : undefined,
+    model: template.model,
+    thinking: template.thinking,
+    tools: template.tools,
+    skills: template.skills,
+    sandboxMode: template.sandbox?.mode,
+    elevated: template.elevated,
+    bootstrapFiles: template.bootstrapFiles,
+    hasSystemPrompt: !!template.systemPrompt,
+  };
+}
+
+/**
+ * Templates may only be applied to the caller's own session or sessions it
+ * spawned. Returns the internal target key, or an error message.
+ */
+async function resolveTemplateTargetSession(params: {
+  cfg: OpenClawConfig;
+  sessionKey?: string;
+  requesterSessionKey?: string;
+}): Promise<{ key: string } | { error: string }> {
+  const { mainKey, alias } = resolveMainSessionAlias(params.cfg);
+  const requester = params.requesterSessionKey
+    ? resolveInternalSessionKey({ key: params.requesterSessionKey, alias, mainKey })
+    : undefined;
+  const target = params.sessionKey
+    ? resolveInternalSessionKey({ key: params.sessionKey, alias, mainKey })
+    : requester;
+  if (!target) {
+    return { error: "sessionKey required" };
+  }
+  if (
+    !requester ||
+    !(await isRequesterSpawnedSessionVisible({
+      requesterSessionKey: requester,
+      targetSessionKey: target,
+    }))
+  ) {
+    return {
+      error: `Session templates can only be applied to the current session or sessions it spawned (got "${target}").`,
+    };
+  }
+  return { key: target };
+}
+
 /* ------------------------------------------------------------------ */
 /*  Tool factory                                                      */
 /* ------------------------------------------------------------------ */
 
 export function createSessionTemplateTool(opts?: {
   agentSessionKey?: string;
+  sandboxed?: boolean;
 }): AnyAgentTool {
   return {
     label: "Session Templates",
@@ -62,25 +119,21 @@ export function createSessionTemplateTool(opts?: {
     description: `Manage and apply pre-configured session templates.
 
 Actions:
-- **list**: Show all available templates with their settings.
-- **apply**: Apply a template's model/thinking/prompt settings to a session.
+- **list**: Show all available templates with their resolved settings (after extends).
+- **apply**: Apply a template to a session: model, thinking and elevated level are patched; tool allow/deny, skills, sandbox mode, bootstrap files and system prompt apply from the next run.
+- **clear**: Remove the template from a session.
 
-Templates are defined in config under sessions.templates.`,
+Templates are defined in config under session.templates. sessions_spawn and workflow steps accept a template name too.`,
     parameters: SessionTemplateToolSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
       const action = readStringParam(params, "action", { required: true });
       const cfg = loadConfig();
-
-      // Templates live at session.templates in config
-      const templates =
-        (cfg.session as Record<string, unknown> | undefined)?.templates as
-          | Record<string, SessionTemplateConfig>
-          | undefined;
+      const names = listSessionTemplateNames(cfg);
 
       switch (action) {
         case "list": {
-          if (!templates || Object.keys(templates).length === 0) {
+          if (names.length === 0) {
             return jsonResult({
               status: "ok",
               templates: [],
@@ -88,34 +141,73 @@ Templates are defined in config under sessions.templates.`,
             });
           }
 
-          const list = Object.entries(templates).map(([name, tmpl]) => ({
-            name,
-            model: tmpl.model,
-            thinking: tmpl.thinking,
-            description: tmpl.description,
-            hasSystemPrompt: !!tmpl.systemPrompt,
-          }));
+          const list = names.map((name) => {
+            try {
+              return describeTemplate(resolveSessionTemplate(cfg, name));
+            } catch (err) {
+              return { name, error: formatErrorMessage(err) };
+            }
+          });
 
           return jsonResult({ status: "ok", templates: list });
         }
 
         case "apply": {
           const templateName = readStringParam(params, "template", { required: true });
-          const sessionKey =
-            readStringParam(params, "sessionKey") ?? opts?.agentSessionKey;
+          const target = await resolveTemplateTargetSession({
+            cfg,
+            sessionKey: readStringParam(params, "sessionKey"),
+            requesterSessionKey: opts?.agentSessionKey,
+          });
+          if ("error" in target) {
+            return jsonResult({ status: "forbidden", error: target.error });
+          }
+          const sessionKey = target.key;
 
-          if (!templates || !templates[templateName]) {
+          let tmpl: ResolvedSessionTemplate;
+          try {
+            tmpl = resolveSessionTemplate(cfg, templateName);
+          } catch (err) {
             return jsonResult({
               status: "error",
-              error: `Template "${templateName}" not found`,
-              available: templates ? Object.keys(templates) : [],
+              error: formatErrorMessage(err),
+              available: names,
             });
           }
 
-          const tmpl = templates[templateName];
+          const escalation = findSessionTemplateEscalation({
+            cfg,
+            template: tmpl,
+            requesterSessionKey: opts?.agentSessionKey,
+            requesterSandboxMode: opts?.sandboxed
+              ? resolveSandboxRuntimeStatus({ cfg, sessionKey: opts.agentSessionKey }).mode
+              : undefined,
+          });
+          if (escalation) {
+            return jsonResult({ status: "forbidden", error: escalation });
+          }
+
           const applied: string[] = [];
+          const warnings: string[] = [];
+
+          try {
+            await callGateway({
+              method: "sessions.patch",
+              params: { key: sessionKey, ...buildSessionTemplatePatch(tmpl) },
+              timeoutMs: 10_000,
+            });
+            applied.push(`template: ${tmpl.name}`);
+            if (tmpl.elevated) {
+              applied.push(`elevated: ${tmpl.elevated}`);
+            }
+          } catch (err) {
+            return jsonResult({
+              status: "error",
+              error: `Failed to apply template: ${formatErrorMessage(err)}`,
+            });
+          }
 
-          if (sessionKey && tmpl.model) {
+          if (tmpl.model) {
             try {
               await callGateway({
                 method: "sessions.patch",
@@ -124,14 +216,11 @@ Templates are defined in config under sessions.templates.`,
               });
               applied.push(`model: ${tmpl.model}`);
             } catch (err) {
-              return jsonResult({
-                status: "error",
-                error: `Failed to apply model: ${err instanceof Error ? err.message : String(err)}`,
-              });
+              warnings.push(`model not applied: ${formatErrorMessage(err)}`);
             }
           }
 
-          if (sessionKey && tmpl.thinking) {
+          if (tmpl.thinking) {
             try {
               await callGateway({
                 method: "sessions.patch",
@@ -142,20 +231,41 @@ Templates are defined in config under sessions.templates.`,
                 timeoutMs: 10_000,
               });
               applied.push(`thinking: ${tmpl.thinking}`);
-            } catch {
-              // Non-fatal
+            } catch (err) {
+              warnings.push(`thinking not applied: ${formatErrorMessage(err)}`);
             }
           }
 
           return jsonResult({
             status: "applied",
-            template: templateName,
+            template: tmpl.name,
             sessionKey,
             applied,
-            systemPrompt: tmpl.systemPrompt
-              ? "(system prompt available — inject via extraSystemPrompt when spawning)"
-              : undefined,
+            warnings: warnings.length > 0 ? warnings : undefined,
+            note: "Tool policy, skills, sandbox mode, bootstrap files and system prompt take effect on the next run.",
+          });
+        }
+
+        case "clear": {
+          const target = await resolveTemplateTargetSession({
+            cfg,
+            sessionKey: readStringParam(params, "sessionKey"),
+            requesterSessionKey: opts?.agentSessionKey,
           });
+          if ("error" in target) {
+            return jsonResult({ status: "forbidden", error: target.error });
+          }
+          const sessionKey = target.key;
+          try {
+            await callGateway({
+              method: "sessions.patch",
+              params: { key: sessionKey, template: null },
+              timeoutMs: 10_000,
+            });
+          } catch (err) {
+            return jsonResult({ status: "error", error: formatErrorMessage(err) });
+          }
+          return jsonResult({ status: "cleared", sessionKey });
         }
 
         default:
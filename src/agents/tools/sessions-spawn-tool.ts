@@ -5,11 +5,20 @@ import type { AnyAgentTool } from "./common.js";
 import { formatThinkingLevels, normalizeThinkLevel } from "../../auto-reply/thinking.js";
 import { loadConfig } from "../../config/config.js";
 import { callGateway } from "../../gateway/call.js";
+import { formatErrorMessage } from "../../infra/errors.js";
 import { normalizeAgentId, parseAgentSessionKey } from "../../routing/session-key.js";
+import {
+  buildSessionTemplatePatch,
+  findSessionTemplateEscalation,
+  listSessionTemplateNames,
+  resolveSessionTemplate,
+  type ResolvedSessionTemplate,
+} from "../../sessions/templates.js";
 import { normalizeDeliveryContext } from "../../utils/delivery-context.js";
 import { resolveAgentConfig } from "../agent-scope.js";
 import { AGENT_LANE_SUBAGENT } from "../lanes.js";
 import { resolveDefaultModelForAgent } from "../model-selection.js";
+import { resolveSandboxRuntimeStatus } from "../sandbox/runtime-status.js";
 import { optionalStringEnum } from "../schema/typebox.js";
 import { buildSubagentSystemPrompt } from "../subagent-announce.js";
 import { getSubagentDepthFromSessionStore } from "../subagent-depth.js";
@@ -27,6 +36,8 @@ const SessionsSpawnToolSchema = Type.Object({
   agentId: Type.Optional(Type.String()),
   model: Type.Optional(Type.String()),
   thinking: Type.Optional(Type.String()),
+  /** Session template (session.templates) applied to the child session. */
+  template: Type.Optional(Type.String()),
   runTimeoutSeconds: Type.Optional(Type.Number({ minimum: 0 })),
   // Back-compat: older callers used timeoutSeconds for this tool.
   timeoutSeconds: Type.Optional(Type.Number({ minimum: 0 })),
@@ -89,6 +100,7 @@ export function createSessionsSpawnTool(opts?: {
       const requestedAgentId = readStringParam(params, "agentId");
       const modelOverride = readStringParam(params, "model");
       const thinkingOverrideRaw = readStringParam(params, "thinking");
+      const templateName = readStringParam(params, "template");
       const cleanup =
         params.cleanup === "keep" || params.cleanup === "delete" ? params.cleanup : "keep";
       const requesterOrigin = normalizeDeliveryContext({
@@ -113,6 +125,18 @@ export function createSessionsSpawnTool(opts?: {
       let modelApplied = false;
 
       const cfg = loadConfig();
+      let template: ResolvedSessionTemplate | undefined;
+      if (templateName) {
+        try {
+          template = resolveSessionTemplate(cfg, templateName);
+        } catch (err) {
+          return jsonResult({
+            status: "error",
+            error: formatErrorMessage(err),
+            available: listSessionTemplateNames(cfg),
+          });
+        }
+      }
       const { mainKey, alias } = resolveMainSessionAlias(cfg);
       const requesterSessionKey = opts?.agentSessionKey;
       const requesterInternalKey = requesterSessionKey
@@ -122,6 +146,19 @@ export function createSessionsSpawnTool(opts?: {
             mainKey,
           })
         : alias;
+      if (template) {
+        const escalation = findSessionTemplateEscalation({
+          cfg,
+          template,
+          requesterSessionKey: requesterInternalKey,
+          requesterSandboxMode: opts?.sandboxed
+            ? resolveSandboxRuntimeStatus({ cfg, sessionKey: requesterInternalKey }).mode
+            : undefined,
+        });
+        if (escalation) {
+          return jsonResult({ status: "forbidden", error: escalation });
+        }
+      }
       const requesterDisplayKey = resolveDisplaySessionKey({
         key: requesterInternalKey,
         alias,
@@ -183,6 +220,7 @@ export function createSessionsSpawnTool(opts?: {
       });
       const resolvedModel =
         normalizeModelSelection(modelOverride) ??
+        normalizeModelSelection(template?.model) ??
         normalizeModelSelection(targetAgentConfig?.subagents?.model) ??
         normalizeModelSelection(cfg.agents?.defaults?.subagents?.model) ??
         normalizeModelSelection(cfg.agents?.defaults?.model?.primary) ??
@@ -193,7 +231,8 @@ export function createSessionsSpawnTool(opts?: {
         readStringParam(cfg.agents?.defaults?.subagents ?? {}, "thinking");
 
       let thinkingOverride: string | undefined;
-      const thinkingCandidateRaw = thinkingOverrideRaw || resolvedThinkingDefaultRaw;
+      const thinkingCandidateRaw =
+        thinkingOverrideRaw || template?.thinking || resolvedThinkingDefaultRaw;
       if (thinkingCandidateRaw) {
         const normalized = normalizeThinkLevel(thinkingCandidateRaw);
         if (!normalized) {
@@ -209,7 +248,11 @@ export function createSessionsSpawnTool(opts?: {
       try {
         await callGateway({
           method: "sessions.patch",
-          params: { key: childSessionKey, spawnDepth: childDepth },
+          params: {
+            key: childSessionKey,
+            spawnDepth: childDepth,
+            ...(template ? buildSessionTemplatePatch(template) : {}),
+          },
           timeoutMs: 10_000,
         });
       } catch (err) {
@@ -333,6 +376,7 @@ export function createSessionsSpawnTool(opts?: {
         status: "accepted",
         childSessionKey,
         runId: childRunId,
+        template: template?.name,
         modelApplied: resolvedModel ? modelApplied : undefined,
         warning: modelWarning,
       });
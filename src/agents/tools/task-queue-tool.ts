@@ -1,68 +1,27 @@
 /**
  * task_queue — Persistent task queue for batch operations.
  *
- * JSON file-backed queue that survives restarts. Tasks can be added,
- * claimed, completed, failed, and retried. Integrates with cron or
- * heartbeat for processing.
+ * SQLite-backed queue that survives restarts. Tasks live in named queues,
+ * can be delayed, are claimed under a lease (visibility timeout) and move to
+ * the dead-letter queue (status "failed") once their retries run out.
+ * Gateway workers (`taskQueue.workers`) can drain queues automatically.
  *
- * Storage: <workspace>/.task-queue.json
+ * Storage: <workspace>/.task-queue.sqlite (legacy .task-queue.json imported once)
  */
 
 import { Type } from "@sinclair/typebox";
-import crypto from "node:crypto";
-import fs from "node:fs/promises";
-import path from "node:path";
+import type { TaskRecord, TaskStatus } from "../../task-queue/types.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readStringParam, readNumberParam } from "./common.js";
+import {
+  DEFAULT_TASK_LEASE_MS,
+  normalizeTaskQueueName,
+  resolveTaskQueueStorePath,
+  withTaskQueueStore,
+} from "../../task-queue/store.js";
 import { resolveWorkspaceRoot } from "../workspace-dir.js";
+import { jsonResult, readStringParam, readNumberParam } from "./common.js";
 
-/* ------------------------------------------------------------------ */
-/*  Types                                                             */
-/* ------------------------------------------------------------------ */
-
-type TaskStatus = "pending" | "claimed" | "done" | "failed";
-
-interface TaskRecord {
-  id: string;
-  task: string;
-  data?: unknown;
-  priority: "low" | "normal" | "high";
-  status: TaskStatus;
-  retries: number;
-  maxRetries: number;
-  createdAt: number;
-  updatedAt: number;
-  claimedAt?: number;
-  completedAt?: number;
-  result?: unknown;
-  error?: string;
-  tags?: string[];
-}
-
-interface QueueData {
-  tasks: TaskRecord[];
-}
-
-/* ------------------------------------------------------------------ */
-/*  Storage                                                           */
-/* ------------------------------------------------------------------ */
-
-function queuePath(): string {
-  return path.join(resolveWorkspaceRoot(), ".task-queue.json");
-}
-
-async function loadQueue(): Promise<QueueData> {
-  try {
-    const raw = await fs.readFile(queuePath(), "utf-8");
-    return JSON.parse(raw) as QueueData;
-  } catch {
-    return { tasks: [] };
-  }
-}
-
-async function saveQueue(queue: QueueData): Promise<void> {
-  await fs.writeFile(queuePath(), JSON.stringify(queue, null, 2));
-}
+const TASK_STATUSES = new Set<TaskStatus>(["pending", "claimed", "done", "failed"]);
 
 /* ------------------------------------------------------------------ */
 /*  Schema                                                            */
@@ -72,19 +31,31 @@ const TaskQueueSchema = Type.Object({
   action: Type.Union([
     Type.Literal("add"),
     Type.Literal("claim"),
+    Type.Literal("extend"),
     Type.Literal("complete"),
     Type.Literal("fail"),
     Type.Literal("list"),
     Type.Literal("retry"),
     Type.Literal("clear"),
     Type.Literal("stats"),
+    Type.Literal("queues"),
   ]),
+  /** Queue name (default: "default") */
+  queue: Type.Optional(Type.String()),
   /** Task description (for add) */
   task: Type.Optional(Type.String()),
   /** Arbitrary task data (for add) */
   data: Type.Optional(Type.Unknown()),
-  /** Task ID (for complete/fail/retry) */
+  /** Task ID (for extend/complete/fail/retry) */
   id: Type.Optional(Type.String()),
+  /** Lease token returned by claim (for extend/complete/fail; rejects stale claims) */
+  token: Type.Optional(Type.String()),
+  /** For add: delay before the task becomes claimable */
+  delaySeconds: Type.Optional(Type.Number({ minimum: 0 })),
+  /** For add: earliest claim time (ISO timestamp) */
+  runAt: Type.Optional(Type.String()),
+  /** For claim/extend: lease length before the task is released again (default: 600) */
+  leaseSeconds: Type.Optional(Type.Number({ minimum: 1 })),
   /** Priority (for add, default: normal) */
   priority: Type.Optional(
     Type.Union([Type.Literal("low"), Type.Literal("normal"), Type.Literal("high")]),
@@ -109,223 +80,238 @@ const TaskQueueSchema = Type.Object({
 /*  Tool factory                                                      */
 /* ------------------------------------------------------------------ */
 
-export function createTaskQueueTool(): AnyAgentTool {
+function formatTaskSummary(task: TaskRecord) {
+  return {
+    id: task.id,
+    queue: task.queue,
+    task: task.task,
+    status: task.status,
+    priority: task.priority,
+    retries: task.retries,
+    createdAt: new Date(task.createdAt).toISOString(),
+    ...(task.availableAt > Date.now()
+      ? { availableAt: new Date(task.availableAt).toISOString() }
+      : {}),
+    ...(task.deadLetteredAt ? { deadLetteredAt: new Date(task.deadLetteredAt).toISOString() } : {}),
+    ...(task.error ? { error: task.error } : {}),
+    ...(task.tags?.length ? { tags: task.tags } : {}),
+  };
+}
+
+function readLeaseMs(params: Record<string, unknown>): number {
+  const seconds = readNumberParam(params, "leaseSeconds");
+  return seconds !== undefined ? seconds * 1000 : DEFAULT_TASK_LEASE_MS;
+}
+
+function readAvailableAt(params: Record<string, unknown>): number | undefined {
+  const runAt = readStringParam(params, "runAt");
+  if (runAt) {
+    const parsed = Date.parse(runAt);
+    if (!Number.isFinite(parsed)) {
+      throw new Error(`invalid runAt: ${runAt}`);
+    }
+    return parsed;
+  }
+  const delaySeconds = readNumberParam(params, "delaySeconds");
+  return delaySeconds !== undefined ? Date.now() + delaySeconds * 1000 : undefined;
+}
+
+export function createTaskQueueTool(options?: { workspaceDir?: string }): AnyAgentTool {
   return {
     label: "Task Queue",
     name: "task_queue",
     description: `Persistent task queue for batch processing that survives restarts.
 
 Actions:
-- **add**: Add a task (requires task description, optional data/priority/tags/maxRetries).
-- **claim**: Claim the next pending task (highest priority first). Returns the task to work on.
-- **complete**: Mark a claimed task as done (requires id, optional result).
-- **fail**: Mark a claimed task as failed (requires id, optional error). Auto-retries if under maxRetries.
+- **add**: Add a task (requires task description, optional queue/data/priority/tags/maxRetries, delaySeconds or runAt to schedule it).
+- **claim**: Claim the next claimable task in a queue (highest priority first) under a lease (leaseSeconds, default 600). Returns the task and a lease token.
+- **extend**: Extend the lease on a claimed task (requires id; pass token and leaseSeconds).
+- **complete**: Mark a claimed task as done (requires id, optional token/result).
+- **fail**: Mark a claimed task as failed (requires id, optional token/error). Auto-retries if under maxRetries, otherwise it moves to the dead-letter queue (status "failed").
 - **retry**: Reset a failed task back to pending (requires id).
-- **list**: List tasks (optional status filter and limit).
-- **clear**: Remove completed/failed tasks (optional olderThanHours).
-- **stats**: Get queue statistics.`,
+- **list**: List tasks (optional queue, status filter and limit).
+- **clear**: Remove completed/failed tasks (optional queue, olderThanHours).
+- **stats**: Get queue statistics (optional queue).
+- **queues**: List named queues with counts.
+
+Tasks whose lease expires are released for another attempt. Gateway workers may process queues automatically.`,
     parameters: TaskQueueSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
       const action = readStringParam(params, "action", { required: true });
-
-      switch (action) {
-        case "add": {
-          const task = readStringParam(params, "task", { required: true });
-          const priority = (readStringParam(params, "priority") ?? "normal") as
-            | "low"
-            | "normal"
-            | "high";
-          const maxRetries =
-            readNumberParam(params, "maxRetries", { integer: true }) ?? 3;
-          const tags = Array.isArray(params.tags)
-            ? (params.tags as string[]).filter((t) => typeof t === "string")
-            : undefined;
-
-          const record: TaskRecord = {
-            id: crypto.randomUUID().slice(0, 8),
-            task,
-            data: params.data,
-            priority,
-            status: "pending",
-            retries: 0,
-            maxRetries,
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-            ...(tags?.length ? { tags } : {}),
-          };
-
-          const queue = await loadQueue();
-          queue.tasks.push(record);
-          await saveQueue(queue);
-
-          return jsonResult({ status: "added", id: record.id, task: record.task });
-        }
-
-        case "claim": {
-          const queue = await loadQueue();
-          const priorityOrder = { high: 0, normal: 1, low: 2 };
-
-          const pending = queue.tasks
-            .filter((t) => t.status === "pending")
-            .sort(
-              (a, b) =>
-                priorityOrder[a.priority] - priorityOrder[b.priority] ||
-                a.createdAt - b.createdAt,
+      const dbPath = resolveTaskQueueStorePath(resolveWorkspaceRoot(options?.workspaceDir));
+      const queueParam = readStringParam(params, "queue");
+
+      try {
+        switch (action) {
+          case "add": {
+            const task = readStringParam(params, "task", { required: true });
+            const priority = readStringParam(params, "priority");
+            const tags = Array.isArray(params.tags)
+              ? params.tags.filter((t): t is string => typeof t === "string")
+              : undefined;
+            const record = await withTaskQueueStore(dbPath, (store) =>
+              store.add({
+                task,
+                queue: queueParam,
+                data: params.data,
+                priority: priority === "high" || priority === "low" ? priority : "normal",
+                maxRetries: readNumberParam(params, "maxRetries", { integer: true }),
+                tags,
+                availableAt: readAvailableAt(params),
+              }),
             );
-
-          if (pending.length === 0) {
-            return jsonResult({ status: "empty", message: "No pending tasks" });
+            return jsonResult({
+              status: "added",
+              id: record.id,
+              queue: record.queue,
+              task: record.task,
+              ...(record.availableAt > record.createdAt
+                ? { availableAt: new Date(record.availableAt).toISOString() }
+                : {}),
+            });
           }
 
-          const task = pending[0];
-          task.status = "claimed";
-          task.claimedAt = Date.now();
-          task.updatedAt = Date.now();
-          await saveQueue(queue);
-
-          return jsonResult({
-            status: "claimed",
-            id: task.id,
-            task: task.task,
-            data: task.data,
-            priority: task.priority,
-            retries: task.retries,
-            ...(task.tags?.length ? { tags: task.tags } : {}),
-          });
-        }
-
-        case "complete": {
-          const id = readStringParam(params, "id", { required: true });
-          const queue = await loadQueue();
-          const task = queue.tasks.find((t) => t.id === id);
-
-          if (!task) return jsonResult({ status: "not_found", id });
-
-          task.status = "done";
-          task.completedAt = Date.now();
-          task.updatedAt = Date.now();
-          task.result = params.result;
-          await saveQueue(queue);
-
-          return jsonResult({ status: "completed", id });
-        }
-
-        case "fail": {
-          const id = readStringParam(params, "id", { required: true });
-          const error = readStringParam(params, "error") ?? "Unknown error";
-          const queue = await loadQueue();
-          const task = queue.tasks.find((t) => t.id === id);
-
-          if (!task) return jsonResult({ status: "not_found", id });
-
-          task.retries += 1;
-          task.error = error;
-          task.updatedAt = Date.now();
-
-          if (task.retries < task.maxRetries) {
-            // Auto-retry: set back to pending
-            task.status = "pending";
-            task.claimedAt = undefined;
-            await saveQueue(queue);
+          case "claim": {
+            const claim = await withTaskQueueStore(dbPath, (store) =>
+              store.claim({ queue: queueParam, owner: "tool", leaseMs: readLeaseMs(params) }),
+            );
+            if (!claim) {
+              return jsonResult({ status: "empty", message: "No pending tasks" });
+            }
+            const { task, token } = claim;
             return jsonResult({
-              status: "retrying",
-              id,
+              status: "claimed",
+              id: task.id,
+              queue: task.queue,
+              task: task.task,
+              data: task.data,
+              priority: task.priority,
               retries: task.retries,
-              maxRetries: task.maxRetries,
+              token,
+              leaseExpiresAt: new Date(task.leaseExpiresAt ?? Date.now()).toISOString(),
+              ...(task.tags?.length ? { tags: task.tags } : {}),
             });
           }
 
-          task.status = "failed";
-          await saveQueue(queue);
-          return jsonResult({
-            status: "failed",
-            id,
-            retries: task.retries,
-            error,
-          });
-        }
-
-        case "retry": {
-          const id = readStringParam(params, "id", { required: true });
-          const queue = await loadQueue();
-          const task = queue.tasks.find((t) => t.id === id);
-
-          if (!task) return jsonResult({ status: "not_found", id });
-
-          task.status = "pending";
-          task.claimedAt = undefined;
-          task.error = undefined;
-          task.updatedAt = Date.now();
-          await saveQueue(queue);
-
-          return jsonResult({ status: "reset_to_pending", id });
-        }
-
-        case "list": {
-          const statusFilter = readStringParam(params, "status");
-          const limit = readNumberParam(params, "limit", { integer: true }) ?? 50;
-
-          const queue = await loadQueue();
-          let tasks = queue.tasks;
+          case "extend": {
+            const id = readStringParam(params, "id", { required: true });
+            const result = await withTaskQueueStore(dbPath, (store) =>
+              store.extendLease({
+                id,
+                token: readStringParam(params, "token"),
+                leaseMs: readLeaseMs(params),
+              }),
+            );
+            if (result.status !== "ok") {
+              return jsonResult({ status: result.status, id });
+            }
+            return jsonResult({
+              status: "extended",
+              id,
+              leaseExpiresAt: new Date(result.task.leaseExpiresAt ?? Date.now()).toISOString(),
+            });
+          }
 
-          if (statusFilter) {
-            tasks = tasks.filter((t) => t.status === statusFilter);
+          case "complete": {
+            const id = readStringParam(params, "id", { required: true });
+            const result = await withTaskQueueStore(dbPath, (store) =>
+              store.complete({
+                id,
+                token: readStringParam(params, "token"),
+                result: params.result,
+              }),
+            );
+            return jsonResult({ status: result.status === "ok" ? "completed" : result.status, id });
           }
 
-          tasks = tasks.slice(-limit);
+          case "fail": {
+            const id = readStringParam(params, "id", { required: true });
+            const error = readStringParam(params, "error") ?? "Unknown error";
+            const result = await withTaskQueueStore(dbPath, (store) =>
+              store.fail({ id, token: readStringParam(params, "token"), error }),
+            );
+            if (result.status !== "ok") {
+              return jsonResult({ status: result.status, id });
+            }
+            const task = result.task;
+            if (task.status === "pending") {
+              return jsonResult({
+                status: "retrying",
+                id,
+                retries: task.retries,
+                maxRetries: task.maxRetries,
+              });
+            }
+            return jsonResult({ status: "failed", id, retries: task.retries, error });
+          }
 
-          return jsonResult({
-            status: "ok",
-            count: tasks.length,
-            tasks: tasks.map((t) => ({
-              id: t.id,
-              task: t.task,
-              status: t.status,
-              priority: t.priority,
-              retries: t.retries,
-              createdAt: new Date(t.createdAt).toISOString(),
-              ...(t.error ? { error: t.error } : {}),
-              ...(t.tags?.length ? { tags: t.tags } : {}),
-            })),
-          });
-        }
+          case "retry": {
+            const id = readStringParam(params, "id", { required: true });
+            const task = await withTaskQueueStore(dbPath, (store) => store.retry(id));
+            return jsonResult({ status: task ? "reset_to_pending" : "not_found", id });
+          }
 
-        case "clear": {
-          const olderThanHours =
-            readNumberParam(params, "olderThanHours") ?? 24;
-          const cutoff = Date.now() - olderThanHours * 60 * 60 * 1000;
+          case "list": {
+            const statusFilter = readStringParam(params, "status");
+            if (statusFilter && !TASK_STATUSES.has(statusFilter as TaskStatus)) {
+              return jsonResult({
+                status: "error",
+                error: `status must be one of: ${[...TASK_STATUSES].join(", ")}`,
+              });
+            }
+            const tasks = await withTaskQueueStore(dbPath, (store) =>
+              store.list({
+                queue: queueParam ? normalizeTaskQueueName(queueParam) : undefined,
+                status: statusFilter as TaskStatus | undefined,
+                limit: readNumberParam(params, "limit", { integer: true }),
+              }),
+            );
+            return jsonResult({
+              status: "ok",
+              count: tasks.length,
+              tasks: tasks.map(formatTaskSummary),
+            });
+          }
 
-          const queue = await loadQueue();
-          const before = queue.tasks.length;
-          queue.tasks = queue.tasks.filter(
-            (t) =>
-              t.status === "pending" ||
-              t.status === "claimed" ||
-              t.updatedAt > cutoff,
-          );
-          const removed = before - queue.tasks.length;
-          await saveQueue(queue);
+          case "clear": {
+            const olderThanHours = readNumberParam(params, "olderThanHours") ?? 24;
+            const { removed, remaining } = await withTaskQueueStore(dbPath, (store) => {
+              const removedCount = store.clear({
+                olderThanMs: olderThanHours * 60 * 60 * 1000,
+                queue: queueParam ? normalizeTaskQueueName(queueParam) : undefined,
+              });
+              return { removed: removedCount, remaining: store.stats().total };
+            });
+            return jsonResult({ status: "cleared", removed, remaining });
+          }
 
-          return jsonResult({ status: "cleared", removed, remaining: queue.tasks.length });
-        }
+          case "stats": {
+            const stats = await withTaskQueueStore(dbPath, (store) =>
+              store.stats({
+                queue: queueParam ? normalizeTaskQueueName(queueParam) : undefined,
+              }),
+            );
+            return jsonResult({
+              status: "ok",
+              ...(queueParam ? { queue: queueParam } : {}),
+              ...stats,
+            });
+          }
 
-        case "stats": {
-          const queue = await loadQueue();
-          const counts = { pending: 0, claimed: 0, done: 0, failed: 0 };
-          for (const t of queue.tasks) {
-            counts[t.status] = (counts[t.status] ?? 0) + 1;
+          case "queues": {
+            const queues = await withTaskQueueStore(dbPath, (store) => store.listQueues());
+            return jsonResult({ status: "ok", queues });
           }
 
-          return jsonResult({
-            status: "ok",
-            total: queue.tasks.length,
-            ...counts,
-          });
+          default:
+            return jsonResult({ status: "error", error: `Unknown action: ${action}` });
         }
-
-        default:
-          return jsonResult({ status: "error", error: `Unknown action: ${action}` });
+      } catch (err) {
+        return jsonResult({
+          status: "error",
+          error: err instanceof Error ? err.message : String(err),
+        });
       }
     },
   };
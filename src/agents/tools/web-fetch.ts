@@ -4,7 +4,9 @@ import type { AnyAgentTool } from "./common.js";
 import { fetchWithSsrFGuard } from "../../infra/net/fetch-guard.js";
 import { SsrFBlockedError } from "../../infra/net/ssrf.js";
 import { logDebug } from "../../logger.js";
+import { resolveAgentIdFromSessionKey } from "../../routing/session-key.js";
 import { wrapExternalContent, wrapWebContent } from "../../security/external-content.js";
+import { screenExternalContent } from "../../security/injection-scan.js";
 import { normalizeSecretInput } from "../../utils/normalize-secret-input.js";
 import { stringEnum } from "../schema/typebox.js";
 import { jsonResult, readNumberParam, readStringParam } from "./common.js";
@@ -446,6 +448,8 @@ type WebFetchRuntimeParams = FirecrawlRuntimeParams & {
   cacheTtlMs: number;
   userAgent: string;
   readabilityEnabled: boolean;
+  /** Prompt-injection screening (security.injection) applied before wrapping. */
+  screenText?: (text: string, url: string) => Promise<string>;
 };
 
 function toFirecrawlContentParams(
@@ -485,7 +489,10 @@ async function maybeFetchFirecrawlWebFetchPayload(
     return null;
   }
 
-  const firecrawl = await fetchFirecrawlContent(firecrawlParams);
+  const fetched = await fetchFirecrawlContent(firecrawlParams);
+  const firecrawl = params.screenText
+    ? { ...fetched, text: await params.screenText(fetched.text, fetched.finalUrl || params.url) }
+    : fetched;
   const payload = buildFirecrawlWebFetchPayload({
     firecrawl,
     rawUrl: params.url,
@@ -643,6 +650,9 @@ async function runWebFetch(params: WebFetchRuntimeParams): Promise<Record<string
       }
     }
 
+    if (params.screenText) {
+      text = await params.screenText(text, finalUrl);
+    }
     const wrapped = wrapWebFetchContent(text, params.maxChars);
     const wrappedTitle = title ? wrapWebFetchField(title) : undefined;
     const wrappedWarning = wrapWebFetchField(responseTruncatedWarning);
@@ -712,6 +722,7 @@ function resolveFirecrawlEndpoint(baseUrl: string): string {
 export function createWebFetchTool(options?: {
   config?: OpenClawConfig;
   sandboxed?: boolean;
+  agentSessionKey?: string;
 }): AnyAgentTool | null {
   const fetch = resolveFetchConfig(options?.config);
   if (!resolveFetchEnabled({ fetch, sandboxed: options?.sandboxed })) {
@@ -732,6 +743,22 @@ export function createWebFetchTool(options?: {
     (fetch && "userAgent" in fetch && typeof fetch.userAgent === "string" && fetch.userAgent) ||
     DEFAULT_FETCH_USER_AGENT;
   const maxResponseBytes = resolveFetchMaxResponseBytes(fetch);
+  const config = options?.config;
+  const screenText = config?.security?.injection?.enabled
+    ? async (text: string, url: string) =>
+        (
+          await screenExternalContent({
+            cfg: config,
+            source: "web_fetch",
+            text,
+            url,
+            sessionKey: options?.agentSessionKey,
+            agentId: options?.agentSessionKey
+              ? resolveAgentIdFromSessionKey(options.agentSessionKey)
+              : undefined,
+          })
+        ).text
+    : undefined;
   return {
     label: "Web Fetch",
     name: "web_fetch",
@@ -766,6 +793,7 @@ export function createWebFetchTool(options?: {
         firecrawlProxy: "auto",
         firecrawlStoreInCache: true,
         firecrawlTimeoutSeconds,
+        screenText,
       });
       return jsonResult(result);
     },
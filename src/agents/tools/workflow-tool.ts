@@ -7,415 +7,96 @@
  * the chosen pattern.
  *
  * Design constraints:
- *  - Reuses callGateway("agent") + the subagent registry, exactly like
- *    sessions_spawn.
- *  - Checkpoint file written after each step so workflows survive
- *    crashes / compaction.
+ *  - Execution lives in src/workflows (durable run records under the
+ *    state dir, visible through the workflow.* gateway methods).
+ *  - Steps support `when` guards, `forEach` fan-out, per-step retry
+ *    policies and human approval gates (exec approval plumbing).
  *  - Respects maxSpawnDepth and maxChildrenPerAgent from config.
  */
 
-import { Type, type Static } from "@sinclair/typebox";
-import crypto from "node:crypto";
-import fs from "node:fs/promises";
-import path from "node:path";
 import type { GatewayMessageChannel } from "../../utils/message-channel.js";
+import type {
+  WorkflowDefinition,
+  WorkflowRunRecord,
+  WorkflowStepDefinition,
+} from "../../workflows/types.js";
 import type { AnyAgentTool } from "./common.js";
 import { loadConfig } from "../../config/config.js";
-import { callGateway } from "../../gateway/call.js";
+import { formatErrorMessage } from "../../infra/errors.js";
 import { normalizeAgentId, parseAgentSessionKey } from "../../routing/session-key.js";
+import { findSessionTemplateEscalation, resolveSessionTemplate } from "../../sessions/templates.js";
 import { normalizeDeliveryContext } from "../../utils/delivery-context.js";
-import { AGENT_LANE_SUBAGENT } from "../lanes.js";
-import { resolveDefaultModelForAgent } from "../model-selection.js";
-import { buildSubagentSystemPrompt } from "../subagent-announce.js";
+import { validateWorkflowDefinition } from "../../workflows/definition.js";
+import { applyWorkflowParams, resolveNamedWorkflow } from "../../workflows/library.js";
+import { WORKFLOW_PATTERNS, WorkflowToolSchema } from "../../workflows/schema.js";
+import {
+  findResumableWorkflowRun,
+  resumeWorkflowRun,
+  startWorkflowRun,
+} from "../../workflows/service.js";
+import { resolveSandboxRuntimeStatus } from "../sandbox/runtime-status.js";
 import { getSubagentDepthFromSessionStore } from "../subagent-depth.js";
-import { countActiveRunsForSession, registerSubagentRun } from "../subagent-registry.js";
 import { jsonResult, readStringParam } from "./common.js";
-import {
-  resolveInternalSessionKey,
-  resolveMainSessionAlias,
-} from "./sessions-helpers.js";
-import { resolveWorkspaceRoot } from "../workspace-dir.js";
-
-/* ------------------------------------------------------------------ */
-/*  Schema                                                            */
-/* ------------------------------------------------------------------ */
-
-const WorkflowStepSchema = Type.Object({
-  name: Type.String(),
-  task: Type.String(),
-  model: Type.Optional(Type.String()),
-  thinking: Type.Optional(Type.String()),
-  dependsOn: Type.Optional(Type.Array(Type.String())),
-  timeoutSeconds: Type.Optional(Type.Number({ minimum: 0 })),
-});
-
-const WorkflowToolSchema = Type.Object({
-  pattern: Type.Union([
-    Type.Literal("sequential"),
-    Type.Literal("parallel"),
-    Type.Literal("dag"),
-  ]),
-  steps: Type.Array(WorkflowStepSchema),
-  /** How to combine parallel results: concatenate (default) or merge */
-  merge: Type.Optional(
-    Type.Union([Type.Literal("concatenate"), Type.Literal("merge")]),
-  ),
-  /** Pass accumulated context from prior steps into each task prompt */
-  passContext: Type.Optional(Type.Boolean()),
-  /** Optional label for the whole workflow */
-  label: Type.Optional(Type.String()),
-  /** Resume from checkpoint if it exists */
-  resume: Type.Optional(Type.Boolean()),
-});
-
-type WorkflowStep = Static<typeof WorkflowStepSchema>;
-
-/* ------------------------------------------------------------------ */
-/*  Checkpoint helpers                                                */
-/* ------------------------------------------------------------------ */
-
-interface WorkflowCheckpoint {
-  workflowId: string;
-  pattern: string;
-  steps: string[];
-  completed: Record<string, { result: string; durationMs: number }>;
-  failed: Record<string, { error: string }>;
-  status: "in_progress" | "done" | "failed";
-  startedAt: number;
-  updatedAt: number;
-}
-
-async function loadCheckpoint(
-  checkpointPath: string,
-): Promise<WorkflowCheckpoint | null> {
-  try {
-    const raw = await fs.readFile(checkpointPath, "utf-8");
-    return JSON.parse(raw) as WorkflowCheckpoint;
-  } catch {
-    return null;
-  }
-}
-
-async function saveCheckpoint(
-  checkpointPath: string,
-  checkpoint: WorkflowCheckpoint,
-): Promise<void> {
-  checkpoint.updatedAt = Date.now();
-  await fs.mkdir(path.dirname(checkpointPath), { recursive: true });
-  await fs.writeFile(checkpointPath, JSON.stringify(checkpoint, null, 2));
-}
+import { resolveInternalSessionKey, resolveMainSessionAlias } from "./sessions-helpers.js";
 
 /* ------------------------------------------------------------------ */
-/*  Step execution                                                    */
+/*  Result formatting                                                 */
 /* ------------------------------------------------------------------ */
 
-/**
- * Spawn a single sub-agent step and wait for its result.
- *
- * Unlike sessions_spawn (fire-and-forget), we poll for the assistant
- * reply so we can chain steps.
- */
-async function executeStep(opts: {
-  step: WorkflowStep;
-  contextText: string;
-  requesterSessionKey: string;
-  requesterOrigin?: ReturnType<typeof normalizeDeliveryContext>;
-  callerDepth: number;
-  maxSpawnDepth: number;
-  agentId: string;
-  cfg: ReturnType<typeof loadConfig>;
-}): Promise<{ result: string; durationMs: number }> {
-  const { step, contextText, requesterSessionKey, requesterOrigin, callerDepth, agentId, cfg } =
-    opts;
-
-  const childSessionKey = `agent:${agentId}:workflow:${crypto.randomUUID()}`;
-  const childDepth = callerDepth + 1;
-
-  // Build the task prompt, injecting context from prior steps
-  let fullTask = step.task;
-  if (contextText) {
-    fullTask = `## Context from prior workflow steps\n\n${contextText}\n\n---\n\n## Your task\n\n${step.task}`;
-  }
-
-  // Resolve model
-  const resolvedModel =
-    step.model ??
-    (() => {
-      const dm = resolveDefaultModelForAgent({ cfg, agentId });
-      return `${dm.provider}/${dm.model}`;
-    })();
-
-  // Patch session depth
-  await callGateway({
-    method: "sessions.patch",
-    params: { key: childSessionKey, spawnDepth: childDepth },
-    timeoutMs: 10_000,
-  });
-
-  // Patch model if specified
-  if (resolvedModel) {
-    try {
-      await callGateway({
-        method: "sessions.patch",
-        params: { key: childSessionKey, model: resolvedModel },
-        timeoutMs: 10_000,
-      });
-    } catch {
-      // Non-fatal — proceed with default model
-    }
-  }
-
-  // Build system prompt
-  const childSystemPrompt = buildSubagentSystemPrompt({
-    requesterSessionKey,
-    requesterOrigin,
-    childSessionKey,
-    label: step.name,
-    task: fullTask,
-    childDepth,
-    maxSpawnDepth: opts.maxSpawnDepth,
-  });
-
-  const idem = crypto.randomUUID();
-  const startMs = Date.now();
-
-  // Spawn the agent run (deliver: false — we'll read the reply ourselves)
-  const response = await callGateway<{ runId: string }>({
-    method: "agent",
-    params: {
-      message: fullTask,
-      sessionKey: childSessionKey,
-      channel: requesterOrigin?.channel,
-      to: requesterOrigin?.to ?? undefined,
-      accountId: requesterOrigin?.accountId ?? undefined,
-      idempotencyKey: idem,
-      deliver: false,
-      lane: AGENT_LANE_SUBAGENT,
-      extraSystemPrompt: childSystemPrompt,
-      thinking: step.thinking,
-      timeout: step.timeoutSeconds ?? 600,
-      label: step.name,
-      spawnedBy: requesterSessionKey,
-    },
-    // Long timeout — agent runs can take minutes
-    timeoutMs: (step.timeoutSeconds ?? 600) * 1000 + 30_000,
-  });
-
-  const runId = response?.runId ?? idem;
-
-  // Register in the subagent registry so it shows up in sessions_list etc.
-  registerSubagentRun({
-    runId,
-    childSessionKey,
-    requesterSessionKey,
-    requesterOrigin,
-    requesterDisplayKey: requesterSessionKey,
-    task: fullTask,
-    cleanup: "delete",
-    label: step.name,
-    model: resolvedModel,
-    runTimeoutSeconds: step.timeoutSeconds ?? 600,
-  });
-
-  // Now we need to wait for the run to complete and read its reply.
-  // Poll sessions.history for the assistant reply.
-  const maxPollMs = (step.timeoutSeconds ?? 600) * 1000;
-  const pollIntervalMs = 3_000;
-  const deadline = Date.now() + maxPollMs;
-
-  let result = "";
-  while (Date.now() < deadline) {
-    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
-
-    try {
-      const history = await callGateway<{
-        messages?: Array<{ role: string; content?: string; text?: string }>;
-      }>({
-        method: "sessions.history",
-        params: { key: childSessionKey, limit: 5 },
-        timeoutMs: 10_000,
-      });
-
-      const messages = history?.messages ?? [];
-      // Find the last assistant message
-      for (let i = messages.length - 1; i >= 0; i--) {
-        const msg = messages[i];
-        if (msg.role === "assistant") {
-          result = msg.content ?? msg.text ?? "";
-          break;
-        }
-      }
-
-      if (result) break;
-    } catch {
-      // Transient error — keep polling
-    }
-  }
-
-  if (!result) {
-    throw new Error(`Step "${step.name}" timed out after ${maxPollMs / 1000}s with no result`);
-  }
-
-  const durationMs = Date.now() - startMs;
-  return { result, durationMs };
-}
-
-/* ------------------------------------------------------------------ */
-/*  Pattern executors                                                 */
-/* ------------------------------------------------------------------ */
-
-async function executeSequential(
-  steps: WorkflowStep[],
-  passContext: boolean,
-  checkpoint: WorkflowCheckpoint,
-  checkpointPath: string,
-  execOpts: Omit<Parameters<typeof executeStep>[0], "step" | "contextText">,
-): Promise<WorkflowCheckpoint> {
-  let contextParts: string[] = [];
-
-  // Restore context from already-completed steps
-  for (const step of steps) {
-    if (checkpoint.completed[step.name]) {
-      contextParts.push(
-        `### ${step.name}\n${checkpoint.completed[step.name].result}`,
-      );
-    }
-  }
-
-  for (const step of steps) {
-    if (checkpoint.completed[step.name]) continue;
-
-    const contextText = passContext ? contextParts.join("\n\n") : "";
-    try {
-      const { result, durationMs } = await executeStep({
-        ...execOpts,
-        step,
-        contextText,
-      });
-      checkpoint.completed[step.name] = { result, durationMs };
-      contextParts.push(`### ${step.name}\n${result}`);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      checkpoint.failed[step.name] = { error: msg };
-      checkpoint.status = "failed";
-      await saveCheckpoint(checkpointPath, checkpoint);
-      return checkpoint;
-    }
-    await saveCheckpoint(checkpointPath, checkpoint);
-  }
-
-  checkpoint.status = "done";
-  await saveCheckpoint(checkpointPath, checkpoint);
-  return checkpoint;
-}
-
-async function executeParallel(
-  steps: WorkflowStep[],
-  checkpoint: WorkflowCheckpoint,
-  checkpointPath: string,
-  execOpts: Omit<Parameters<typeof executeStep>[0], "step" | "contextText">,
-): Promise<WorkflowCheckpoint> {
-  const pending = steps.filter((s) => !checkpoint.completed[s.name]);
-
-  const results = await Promise.allSettled(
-    pending.map((step) =>
-      executeStep({ ...execOpts, step, contextText: "" }).then((r) => ({
-        name: step.name,
-        ...r,
-      })),
-    ),
+function formatWorkflowResult(record: WorkflowRunRecord) {
+  const entries = record.definition.steps
+    .map((step) => ({ name: step.name, outcome: record.steps[step.name] }))
+    .filter(({ outcome }) => outcome?.status === "succeeded");
+  const failures = Object.fromEntries(
+    record.definition.steps
+      .map((step) => ({ name: step.name, outcome: record.steps[step.name] }))
+      .filter(
+        ({ outcome }) =>
+          outcome &&
+          (outcome.status === "failed" ||
+            outcome.status === "timed_out" ||
+            outcome.status === "rejected" ||
+            outcome.status === "cancelled"),
+      )
+      .map(({ name, outcome }) => [name, { status: outcome?.status, error: outcome?.error }]),
   );
+  const skipped = record.definition.steps
+    .filter((step) => record.steps[step.name]?.status === "skipped")
+    .map((step) => step.name);
+  const totalDuration = entries.reduce((sum, { outcome }) => sum + (outcome?.durationMs ?? 0), 0);
+  const results =
+    record.definition.merge === "merge"
+      ? Object.fromEntries(entries.map(({ name, outcome }) => [name, outcome?.output ?? ""]))
+      : entries
+          .map(({ name, outcome }) => `## ${name}\n\n${outcome?.output ?? ""}`)
+          .join("\n\n---\n\n");
 
-  for (let i = 0; i < results.length; i++) {
-    const r = results[i];
-    const stepName = pending[i].name;
-    if (r.status === "fulfilled") {
-      checkpoint.completed[stepName] = {
-        result: r.value.result,
-        durationMs: r.value.durationMs,
-      };
-    } else {
-      checkpoint.failed[stepName] = {
-        error: r.reason instanceof Error ? r.reason.message : String(r.reason),
-      };
-    }
-  }
-
-  checkpoint.status = Object.keys(checkpoint.failed).length > 0 ? "failed" : "done";
-  await saveCheckpoint(checkpointPath, checkpoint);
-  return checkpoint;
+  return {
+    status: record.status,
+    runId: record.runId,
+    label: record.label,
+    pattern: record.definition.pattern,
+    stepsCompleted: entries.length,
+    stepsFailed: Object.keys(failures).length,
+    stepsSkipped: skipped.length,
+    totalSteps: record.definition.steps.length,
+    totalDurationMs: totalDuration,
+    results,
+    ...(Object.keys(failures).length > 0 ? { failures } : {}),
+    ...(skipped.length > 0 ? { skipped } : {}),
+    ...(record.error ? { error: record.error } : {}),
+  };
 }
 
-async function executeDag(
-  steps: WorkflowStep[],
-  passContext: boolean,
-  checkpoint: WorkflowCheckpoint,
-  checkpointPath: string,
-  execOpts: Omit<Parameters<typeof executeStep>[0], "step" | "contextText">,
-): Promise<WorkflowCheckpoint> {
-  const stepMap = new Map(steps.map((s) => [s.name, s]));
-
-  // Topological execution — run steps whose deps are all completed
-  const maxIterations = steps.length;
-  for (let iter = 0; iter < maxIterations; iter++) {
-    const ready = steps.filter((s) => {
-      if (checkpoint.completed[s.name] || checkpoint.failed[s.name]) return false;
-      const deps = s.dependsOn ?? [];
-      return deps.every((d) => checkpoint.completed[d]);
-    });
-
-    if (ready.length === 0) {
-      // Either all done, or stuck due to failed/missing deps
-      break;
-    }
-
-    // Run all ready steps in parallel
-    const results = await Promise.allSettled(
-      ready.map((step) => {
-        // Build context from dependencies
-        const deps = step.dependsOn ?? [];
-        const contextText = passContext
-          ? deps
-              .map((d) => `### ${d}\n${checkpoint.completed[d]?.result ?? ""}`)
-              .join("\n\n")
-          : "";
-        return executeStep({ ...execOpts, step, contextText }).then((r) => ({
-          name: step.name,
-          ...r,
-        }));
-      }),
-    );
-
-    for (let i = 0; i < results.length; i++) {
-      const r = results[i];
-      const stepName = ready[i].name;
-      if (r.status === "fulfilled") {
-        checkpoint.completed[stepName] = {
-          result: r.value.result,
-          durationMs: r.value.durationMs,
-        };
-      } else {
-        checkpoint.failed[stepName] = {
-          error:
-            r.reason instanceof Error ? r.reason.message : String(r.reason),
-        };
-      }
-    }
-
-    await saveCheckpoint(checkpointPath, checkpoint);
+function readWorkflowParamValues(raw: unknown): Record<string, string> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return {};
   }
-
-  const allProcessed =
-    Object.keys(checkpoint.completed).length +
-      Object.keys(checkpoint.failed).length ===
-    steps.length;
-  checkpoint.status = allProcessed
-    ? Object.keys(checkpoint.failed).length > 0
-      ? "failed"
-      : "done"
-    : "failed"; // stuck = failed
-  await saveCheckpoint(checkpointPath, checkpoint);
-  return checkpoint;
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, typeof value === "string" ? value : JSON.stringify(value)]),
+  );
 }
 
 /* ------------------------------------------------------------------ */
@@ -441,52 +122,25 @@ Patterns:
 - **parallel**: All steps run concurrently. Results are collected and returned together.
 - **dag**: Steps run based on dependency graph (dependsOn). Steps with met dependencies run in parallel.
 
-Each step spawns a sub-agent session. Results are checkpointed to disk for crash recovery.
-Use resume: true to continue a previously failed workflow.`,
+Step options:
+- **when**: run only if a condition over earlier outcomes holds, e.g. { step: "A", status: ["failed"] } runs a fallback when A fails. Combine with all/any, flip with negate.
+- **forEach**: fan out over items (literal list or fromStep output: JSON array or one per line). Use {{item}} and {{index}} in the task.
+- **retry**: { maxAttempts, backoffMs, backoffFactor } per step.
+- **kind: "approval"**: pause until a human approves; task is the prompt shown to the approver.
+- **template**: run the step's sub-agent with a session template (session.templates).
+- Tasks may reference {{steps.<name>.output}}.
+
+Named workflows: pass workflow: "<name>" (definitions from <workspace>/workflows/*.yaml|json or config workflows.definitions) plus params to fill {{params.<name>}} placeholders, instead of pattern/steps.
+
+Runs are persisted and visible via workflow.list/workflow.status; use resume: true to continue the latest unfinished run with the same label, or background: true to return immediately with a runId.`,
     parameters: WorkflowToolSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
-      const pattern = readStringParam(params, "pattern", { required: true }) as
-        | "sequential"
-        | "parallel"
-        | "dag";
-      const steps = (params.steps ?? []) as WorkflowStep[];
-      const passContext = params.passContext === true;
-      const merge = readStringParam(params, "merge") ?? "concatenate";
-      const label = readStringParam(params, "label") ?? `workflow-${Date.now()}`;
+      const workflowName = readStringParam(params, "workflow");
       const resume = params.resume === true;
+      const background = params.background === true;
 
-      if (!steps.length) {
-        return jsonResult({ status: "error", error: "No steps provided" });
-      }
-
-      // Validate step names are unique
-      const names = new Set<string>();
-      for (const s of steps) {
-        if (names.has(s.name)) {
-          return jsonResult({
-            status: "error",
-            error: `Duplicate step name: "${s.name}"`,
-          });
-        }
-        names.add(s.name);
-      }
-
-      // Validate DAG dependencies
-      if (pattern === "dag") {
-        for (const s of steps) {
-          for (const dep of s.dependsOn ?? []) {
-            if (!names.has(dep)) {
-              return jsonResult({
-                status: "error",
-                error: `Step "${s.name}" depends on unknown step "${dep}"`,
-              });
-            }
-          }
-        }
-      }
-
-      // Depth + children checks
+      // Depth checks
       const cfg = loadConfig();
       const { mainKey, alias } = resolveMainSessionAlias(cfg);
       const requesterSessionKey = opts?.agentSessionKey;
@@ -507,23 +161,87 @@ Use resume: true to continue a previously failed workflow.`,
         });
       }
 
-      const maxChildren = cfg.agents?.defaults?.subagents?.maxChildrenPerAgent ?? 5;
-      const activeChildren = countActiveRunsForSession(requesterInternalKey);
-      if (activeChildren + steps.length > maxChildren + activeChildren) {
-        // Allow it if total won't exceed — steps run and complete, freeing slots.
-        // For parallel, all run at once. Check feasibility.
-        if (pattern === "parallel" && steps.length > maxChildren) {
+      const requesterAgentId = normalizeAgentId(
+        opts?.requesterAgentIdOverride ?? parseAgentSessionKey(requesterInternalKey)?.agentId,
+      );
+
+      let definition: WorkflowDefinition;
+      let runParams: Record<string, string> | undefined;
+      if (workflowName) {
+        const named = await resolveNamedWorkflow({
+          cfg,
+          name: workflowName,
+          agentId: requesterAgentId,
+        });
+        if (!named) {
+          return jsonResult({ status: "error", error: `Unknown workflow: ${workflowName}` });
+        }
+        try {
+          const applied = applyWorkflowParams(named, readWorkflowParamValues(params.params));
+          definition = applied.definition;
+          runParams = applied.params;
+        } catch (err) {
           return jsonResult({
-            status: "forbidden",
-            error: `Parallel workflow has ${steps.length} steps but maxChildrenPerAgent is ${maxChildren}`,
+            status: "error",
+            error: err instanceof Error ? err.message : String(err),
           });
         }
+        const labelOverride = readStringParam(params, "label");
+        if (labelOverride) {
+          definition.label = labelOverride;
+        }
+      } else {
+        const pattern = readStringParam(params, "pattern");
+        if (!pattern) {
+          return jsonResult({ status: "error", error: "pattern or workflow is required" });
+        }
+        if (!(WORKFLOW_PATTERNS as readonly string[]).includes(pattern)) {
+          return jsonResult({ status: "error", error: `Unknown pattern: ${pattern}` });
+        }
+        definition = {
+          pattern: pattern as WorkflowDefinition["pattern"],
+          steps: (Array.isArray(params.steps) ? params.steps : []) as WorkflowStepDefinition[],
+          passContext: params.passContext === true,
+          merge: readStringParam(params, "merge") === "merge" ? "merge" : "concatenate",
+          label: readStringParam(params, "label") ?? `workflow-${Date.now()}`,
+        };
+      }
+      const validation = validateWorkflowDefinition(definition);
+      if (!validation.ok) {
+        return jsonResult({ status: "error", error: validation.error });
+      }
+      const label = definition.label ?? `workflow-${Date.now()}`;
+      const steps = definition.steps;
+
+      const requesterSandboxMode = opts?.sandboxed
+        ? resolveSandboxRuntimeStatus({ cfg, sessionKey: requesterInternalKey }).mode
+        : undefined;
+      const checkStepTemplates = (stepsToRun: WorkflowStepDefinition[]) => {
+        for (const step of stepsToRun) {
+          if (!step.template) {
+            continue;
+          }
+          let escalation: string | undefined;
+          try {
+            escalation = findSessionTemplateEscalation({
+              cfg,
+              template: resolveSessionTemplate(cfg, step.template),
+              requesterSessionKey: requesterInternalKey,
+              requesterSandboxMode,
+            });
+          } catch (err) {
+            return jsonResult({ status: "error", error: formatErrorMessage(err) });
+          }
+          if (escalation) {
+            return jsonResult({ status: "forbidden", error: `step "${step.name}": ${escalation}` });
+          }
+        }
+        return undefined;
+      };
+      const templateRejection = checkStepTemplates(steps);
+      if (templateRejection) {
+        return templateRejection;
       }
-
-      const requesterAgentId = normalizeAgentId(
-        opts?.requesterAgentIdOverride ??
-          parseAgentSessionKey(requesterInternalKey)?.agentId,
-      );
 
       const requesterOrigin = normalizeDeliveryContext({
         channel: opts?.agentChannel,
@@ -532,127 +250,58 @@ Use resume: true to continue a previously failed workflow.`,
         threadId: opts?.agentThreadId,
       });
 
-      // Checkpoint path
-      const workspaceDir = resolveWorkspaceRoot();
-      const workflowId = label.replace(/[^a-zA-Z0-9_-]/g, "_");
-      const checkpointPath = path.join(
-        workspaceDir,
-        "checkpoints",
-        `workflow-${workflowId}.json`,
-      );
-
-      // Load or create checkpoint
-      let checkpoint: WorkflowCheckpoint;
-      const existing = resume ? await loadCheckpoint(checkpointPath) : null;
-      if (existing && existing.steps.join(",") === steps.map((s) => s.name).join(",")) {
-        checkpoint = existing;
-        checkpoint.status = "in_progress";
-      } else {
-        checkpoint = {
-          workflowId,
-          pattern,
-          steps: steps.map((s) => s.name),
-          completed: {},
-          failed: {},
-          status: "in_progress",
-          startedAt: Date.now(),
-          updatedAt: Date.now(),
-        };
-      }
-
-      await saveCheckpoint(checkpointPath, checkpoint);
-
-      const execOpts = {
-        requesterSessionKey: requesterInternalKey,
-        requesterOrigin,
-        callerDepth,
-        maxSpawnDepth,
-        agentId: requesterAgentId,
-        cfg,
-      };
-
+      let active;
       try {
-        switch (pattern) {
-          case "sequential":
-            checkpoint = await executeSequential(
-              steps,
-              passContext,
-              checkpoint,
-              checkpointPath,
-              execOpts,
-            );
-            break;
-          case "parallel":
-            checkpoint = await executeParallel(
-              steps,
-              checkpoint,
-              checkpointPath,
-              execOpts,
-            );
-            break;
-          case "dag":
-            checkpoint = await executeDag(
-              steps,
-              passContext,
-              checkpoint,
-              checkpointPath,
-              execOpts,
-            );
-            break;
+        const resumable = resume
+          ? await findResumableWorkflowRun({
+              label,
+              stepNames: steps.map((s) => s.name),
+              requesterSessionKey: requesterInternalKey,
+              agentId: requesterAgentId,
+            })
+          : null;
+        // A resumed run executes its stored definition, not the one passed in.
+        const resumeRejection = resumable
+          ? checkStepTemplates(resumable.definition.steps)
+          : undefined;
+        if (resumeRejection) {
+          return resumeRejection;
         }
+        active = resumable
+          ? await resumeWorkflowRun(resumable.runId, { cfg })
+          : startWorkflowRun(
+              {
+                definition,
+                workflowName: workflowName ?? undefined,
+                params: runParams,
+                requester: {
+                  sessionKey: requesterInternalKey,
+                  agentId: requesterAgentId,
+                  origin: requesterOrigin,
+                  callerDepth,
+                  maxSpawnDepth,
+                },
+              },
+              { cfg },
+            );
       } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        checkpoint.status = "failed";
-        checkpoint.failed["_workflow"] = { error: msg };
-        await saveCheckpoint(checkpointPath, checkpoint);
         return jsonResult({
           status: "error",
-          error: msg,
-          checkpoint: checkpointPath,
-          completed: Object.keys(checkpoint.completed),
-          failed: checkpoint.failed,
+          error: err instanceof Error ? err.message : String(err),
         });
       }
 
-      // Build result summary
-      const totalDuration = Object.values(checkpoint.completed).reduce(
-        (sum, c) => sum + c.durationMs,
-        0,
-      );
-
-      const stepResults =
-        merge === "merge"
-          ? Object.fromEntries(
-              Object.entries(checkpoint.completed).map(([k, v]) => [k, v.result]),
-            )
-          : Object.entries(checkpoint.completed)
-              .map(([k, v]) => `## ${k}\n\n${v.result}`)
-              .join("\n\n---\n\n");
-
-      // Cleanup checkpoint on success
-      if (checkpoint.status === "done") {
-        try {
-          await fs.unlink(checkpointPath);
-        } catch {
-          // ignore
-        }
+      if (background) {
+        return jsonResult({
+          status: "started",
+          runId: active.record.runId,
+          label: active.record.label,
+          resumed: resume && Object.keys(active.record.steps).length > 0,
+        });
       }
 
-      return jsonResult({
-        status: checkpoint.status,
-        pattern,
-        stepsCompleted: Object.keys(checkpoint.completed).length,
-        stepsFailed: Object.keys(checkpoint.failed).length,
-        totalSteps: steps.length,
-        totalDurationMs: totalDuration,
-        results: stepResults,
-        ...(Object.keys(checkpoint.failed).length > 0
-          ? { failures: checkpoint.failed }
-          : {}),
-        ...(checkpoint.status !== "done"
-          ? { checkpoint: checkpointPath }
-          : {}),
-      });
+      const record = await active.done;
+      return jsonResult(formatWorkflowResult(record));
     },
   };
 }
@@ -6,12 +6,18 @@ import { resolveSessionAgentId } from "../../agents/agent-scope.js";
 import { loadSessionStore, resolveStorePath } from "../../config/sessions.js";
 import { logVerbose } from "../../globals.js";
 import { isDiagnosticsEnabled } from "../../infra/diagnostic-events.js";
+import { withDiagnosticSpan } from "../../infra/diagnostic-trace.js";
 import {
   logMessageProcessed,
   logMessageQueued,
   logSessionStateChange,
 } from "../../logging/diagnostic.js";
 import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
+import {
+  normalizeAgentId,
+  toAgentRequestSessionKey,
+  toAgentStoreSessionKey,
+} from "../../routing/session-key.js";
 import { maybeApplyTtsToPayload, normalizeTtsAutoMode, resolveTtsConfig } from "../../tts/tts.js";
 import { getReplyFromConfig } from "../reply.js";
 import { formatAbortReplyText, tryFastAbortFromMessage } from "./abort.js";
@@ -74,19 +80,115 @@ const resolveSessionTtsAuto = (
   }
 };
 
+const resolveHookContent = (ctx: FinalizedMsgContext): string =>
+  typeof ctx.BodyForCommands === "string"
+    ? ctx.BodyForCommands
+    : typeof ctx.RawBody === "string"
+      ? ctx.RawBody
+      : typeof ctx.Body === "string"
+        ? ctx.Body
+        : "";
+
+/**
+ * Let `before_route` plugin hooks re-target the agent and/or session key.
+ * Native commands keep their explicit target session.
+ */
+async function applyBeforeRouteHook(
+  ctx: FinalizedMsgContext,
+  cfg: OpenClawConfig,
+): Promise<FinalizedMsgContext> {
+  const hookRunner = getGlobalHookRunner();
+  const sessionKey = ctx.SessionKey?.trim();
+  if (!hookRunner?.hasHooks("before_route") || !sessionKey) {
+    return ctx;
+  }
+  const agentId = resolveSessionAgentId({ sessionKey, config: cfg });
+  try {
+    const result = await hookRunner.runBeforeRoute(
+      {
+        agentId,
+        sessionKey,
+        from: ctx.From ?? "",
+        to: ctx.To,
+        content: resolveHookContent(ctx),
+        chatType: ctx.ChatType,
+        senderId: ctx.SenderId,
+        threadId: ctx.MessageThreadId,
+      },
+      {
+        channelId: (ctx.OriginatingChannel ?? ctx.Surface ?? ctx.Provider ?? "").toLowerCase(),
+        accountId: ctx.AccountId,
+        conversationId: ctx.OriginatingTo ?? ctx.To ?? ctx.From ?? undefined,
+      },
+    );
+    const nextKey =
+      result?.sessionKey?.trim() ||
+      (result?.agentId?.trim() && normalizeAgentId(result.agentId) !== agentId
+        ? toAgentStoreSessionKey({
+            agentId: result.agentId,
+            requestKey: toAgentRequestSessionKey(sessionKey),
+          })
+        : undefined);
+    if (!nextKey || nextKey === sessionKey) {
+      return ctx;
+    }
+    logVerbose(`dispatch-from-config: before_route moved ${sessionKey} -> ${nextKey}`);
+    return { ...ctx, SessionKey: nextKey };
+  } catch (err) {
+    logVerbose(`dispatch-from-config: before_route hook failed: ${String(err)}`);
+    return ctx;
+  }
+}
+
 export type DispatchFromConfigResult = {
   queuedFinal: boolean;
   counts: Record<ReplyDispatchKind, number>;
 };
 
-export async function dispatchReplyFromConfig(params: {
+type DispatchFromConfigParams = {
   ctx: FinalizedMsgContext;
   cfg: OpenClawConfig;
   dispatcher: ReplyDispatcher;
   replyOptions?: Omit<GetReplyOptions, "onToolResult" | "onBlockReply">;
   replyResolver?: typeof getReplyFromConfig;
-}): Promise<DispatchFromConfigResult> {
-  const { ctx, cfg, dispatcher } = params;
+};
+
+/** Root span of an inbound message: everything from routing to delivery nests under it. */
+export async function dispatchReplyFromConfig(
+  params: DispatchFromConfigParams,
+): Promise<DispatchFromConfigResult> {
+  const { ctx } = params;
+  return await withDiagnosticSpan(
+    "openclaw.message.inbound",
+    {
+      kind: "server",
+      attributes: {
+        "openclaw.channel": String(ctx.Surface ?? ctx.Provider ?? "unknown").toLowerCase(),
+        "openclaw.accountId": ctx.AccountId,
+        "openclaw.chatType": ctx.ChatType,
+        "openclaw.messageId": ctx.MessageSid ?? ctx.MessageSidFirst ?? ctx.MessageSidLast,
+      },
+    },
+    async (span) => {
+      const result = await dispatchRoutedReply(params);
+      span?.setAttributes({ "openclaw.queuedFinal": result.queuedFinal });
+      return result;
+    },
+  );
+}
+
+async function dispatchRoutedReply(
+  params: DispatchFromConfigParams,
+): Promise<DispatchFromConfigResult> {
+  const { cfg, dispatcher } = params;
+  const ctx = await withDiagnosticSpan("openclaw.message.route", {}, async (span) => {
+    const routed = await applyBeforeRouteHook(params.ctx, cfg);
+    span?.setAttributes({
+      "openclaw.sessionKey": routed.SessionKey,
+      "openclaw.rerouted": routed.SessionKey !== params.ctx.SessionKey,
+    });
+    return routed;
+  });
   const diagnosticsEnabled = isDiagnosticsEnabled(cfg);
   const channel = String(ctx.Surface ?? ctx.Provider ?? "unknown").toLowerCase();
   const chatId = ctx.To ?? ctx.From;
@@ -155,14 +257,7 @@ export async function dispatchReplyFromConfig(params: {
         : undefined;
     const messageIdForHook =
       ctx.MessageSidFull ?? ctx.MessageSid ?? ctx.MessageSidFirst ?? ctx.MessageSidLast;
-    const content =
-      typeof ctx.BodyForCommands === "string"
-        ? ctx.BodyForCommands
-        : typeof ctx.RawBody === "string"
-          ? ctx.RawBody
-          : typeof ctx.Body === "string"
-            ? ctx.Body
-            : "";
+    const content = resolveHookContent(ctx);
     const channelId = (ctx.OriginatingChannel ?? ctx.Surface ?? ctx.Provider ?? "").toLowerCase();
     const conversationId = ctx.OriginatingTo ?? ctx.To ?? ctx.From ?? undefined;
 
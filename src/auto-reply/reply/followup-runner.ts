@@ -12,6 +12,7 @@ import { runEmbeddedPiAgent } from "../../agents/pi-embedded.js";
 import { resolveAgentIdFromSessionKey, type SessionEntry } from "../../config/sessions.js";
 import { logVerbose } from "../../globals.js";
 import { registerAgentRunContext } from "../../infra/agent-events.js";
+import { withDiagnosticSpan } from "../../infra/diagnostic-trace.js";
 import { defaultRuntime } from "../../runtime.js";
 import { stripHeartbeatToken } from "../heartbeat.js";
 import { isSilentReplyText, SILENT_REPLY_TOKEN } from "../tokens.js";
@@ -110,7 +111,7 @@ export function createFollowupRunner(params: {
     }
   };
 
-  return async (queued: FollowupRun) => {
+  const runQueued = async (queued: FollowupRun) => {
     try {
       const runId = crypto.randomUUID();
       if (queued.run.sessionKey) {
@@ -285,4 +286,18 @@ export function createFollowupRunner(params: {
       typing.markRunComplete();
     }
   };
+
+  // Drains run detached from the message that queued the run; re-join its trace.
+  return async (queued: FollowupRun) =>
+    await withDiagnosticSpan(
+      "openclaw.followup.run",
+      {
+        parent: queued.traceContext ?? null,
+        attributes: {
+          "openclaw.sessionKey": queued.run.sessionKey,
+          "openclaw.queue.waitMs": Date.now() - queued.enqueuedAt,
+        },
+      },
+      () => runQueued(queued),
+    );
 }
@@ -7,12 +7,16 @@ import {
   resolveAgentSkillsFilter,
 } from "../../agents/agent-scope.js";
 import { resolveModelRefFromString } from "../../agents/model-selection.js";
+import { mergeSkillFilters } from "../../agents/skills/filter.js";
 import { resolveAgentTimeoutMs } from "../../agents/timeout.js";
 import { DEFAULT_AGENT_WORKSPACE_DIR, ensureAgentWorkspace } from "../../agents/workspace.js";
 import { type OpenClawConfig, loadConfig } from "../../config/config.js";
+import { withDiagnosticSpan } from "../../infra/diagnostic-trace.js";
 import { applyLinkUnderstanding } from "../../link-understanding/apply.js";
 import { applyMediaUnderstanding } from "../../media-understanding/apply.js";
 import { defaultRuntime } from "../../runtime.js";
+import { screenExternalContent } from "../../security/injection-scan.js";
+import { resolveSessionTemplateForSession } from "../../sessions/templates.js";
 import { resolveCommandAuthorization } from "../command-auth.js";
 import { SILENT_REPLY_TOKEN } from "../tokens.js";
 import { resolveDefaultModel } from "./directive-handling.js";
@@ -25,32 +29,24 @@ import { initSessionState } from "./session.js";
 import { stageSandboxMedia } from "./stage-sandbox-media.js";
 import { createTypingController } from "./typing.js";
 
-function mergeSkillFilters(channelFilter?: string[], agentFilter?: string[]): string[] | undefined {
-  const normalize = (list?: string[]) => {
-    if (!Array.isArray(list)) {
-      return undefined;
-    }
-    return list.map((entry) => String(entry).trim()).filter(Boolean);
-  };
-  const channel = normalize(channelFilter);
-  const agent = normalize(agentFilter);
-  if (!channel && !agent) {
-    return undefined;
-  }
-  if (!channel) {
-    return agent;
-  }
-  if (!agent) {
-    return channel;
-  }
-  if (channel.length === 0 || agent.length === 0) {
-    return [];
-  }
-  const agentSet = new Set(agent);
-  return channel.filter((name) => agentSet.has(name));
+export async function getReplyFromConfig(
+  ctx: MsgContext,
+  opts?: GetReplyOptions,
+  configOverride?: OpenClawConfig,
+): Promise<ReplyPayload | ReplyPayload[] | undefined> {
+  return await withDiagnosticSpan(
+    "openclaw.reply",
+    {
+      attributes: {
+        "openclaw.sessionKey": ctx.SessionKey,
+        "openclaw.heartbeat": opts?.isHeartbeat === true,
+      },
+    },
+    () => resolveReplyFromConfig(ctx, opts, configOverride),
+  );
 }
 
-export async function getReplyFromConfig(
+async function resolveReplyFromConfig(
   ctx: MsgContext,
   opts?: GetReplyOptions,
   configOverride?: OpenClawConfig,
@@ -65,8 +61,8 @@ export async function getReplyFromConfig(
     config: cfg,
   });
   const mergedSkillFilter = mergeSkillFilters(
-    opts?.skillFilter,
-    resolveAgentSkillsFilter(cfg, agentId),
+    mergeSkillFilters(opts?.skillFilter, resolveAgentSkillsFilter(cfg, agentId)),
+    resolveSessionTemplateForSession({ cfg, sessionKey: agentSessionKey })?.skills,
   );
   const resolvedOpts =
     mergedSkillFilter !== undefined ? { ...opts, skillFilter: mergedSkillFilter } : opts;
@@ -131,7 +127,28 @@ export async function getReplyFromConfig(
     await applyLinkUnderstanding({
       ctx: finalized,
       cfg,
+      sessionKey: agentSessionKey,
+      agentId,
+    });
+  }
+
+  if (!opts?.isHeartbeat) {
+    const inboundText = finalized.BodyForAgent ?? finalized.Body ?? "";
+    const screening = await screenExternalContent({
+      cfg,
+      source: "channel",
+      text: inboundText,
+      sessionKey: agentSessionKey,
+      agentId,
+      sender: finalized.SenderName ?? finalized.From,
     });
+    if (screening.withheld) {
+      typing.cleanup();
+      return undefined;
+    }
+    if (screening.text !== inboundText) {
+      finalized.BodyForAgent = screening.text;
+    }
   }
 
   const commandAuthorized = finalized.CommandAuthorized;
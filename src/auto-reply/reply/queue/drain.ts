@@ -119,6 +119,7 @@ export function scheduleFollowupDrain(
             originatingTo,
             originatingAccountId,
             originatingThreadId,
+            traceContext: items.at(-1)?.traceContext,
           });
           queue.items.splice(0, items.length);
           if (summary) {
@@ -141,6 +142,7 @@ export function scheduleFollowupDrain(
             prompt: summaryPrompt,
             run,
             enqueuedAt: Date.now(),
+            traceContext: next.traceContext,
           });
           queue.items.shift();
           clearQueueSummaryState(queue);
@@ -1,4 +1,5 @@
 import type { FollowupRun, QueueDedupeMode, QueueSettings } from "./types.js";
+import { getActiveTraceContext } from "../../../infra/diagnostic-trace.js";
 import { applyQueueDropPolicy, shouldSkipQueueItem } from "../../../utils/queue-helpers.js";
 import { FOLLOWUP_QUEUES, getFollowupQueue } from "./state.js";
 
@@ -52,7 +53,7 @@ export function enqueueFollowupRun(
     return false;
   }
 
-  queue.items.push(run);
+  queue.items.push(run.traceContext ? run : { ...run, traceContext: getActiveTraceContext() });
   return true;
 }
 
@@ -2,6 +2,7 @@ import type { HumanDelayConfig } from "../../config/types.js";
 import type { GetReplyOptions, ReplyPayload } from "../types.js";
 import type { ResponsePrefixContext } from "./response-prefix-template.js";
 import type { TypingController } from "./typing.js";
+import { withDiagnosticSpan } from "../../infra/diagnostic-trace.js";
 import { sleep } from "../../utils.js";
 import { registerDispatcher } from "./dispatcher-registry.js";
 import { normalizeReplyPayload, type NormalizeReplySkipReason } from "./normalize-reply.js";
@@ -153,7 +154,11 @@ export function createReplyDispatcher(options: ReplyDispatcherOptions): ReplyDis
         }
         // Safe: deliver is called inside an async .then() callback, so even a synchronous
         // throw becomes a rejection that flows through .catch()/.finally(), ensuring cleanup.
-        await options.deliver(normalized, { kind });
+        await withDiagnosticSpan(
+          "openclaw.reply.deliver",
+          { kind: "producer", attributes: { "openclaw.replyKind": kind } },
+          () => options.deliver(normalized, { kind }),
+        );
       })
       .catch((err) => {
         options.onError?.(err, { kind });
@@ -5,11 +5,17 @@ import { danger } from "../../globals.js";
 import { sanitizeAgentId } from "../../routing/session-key.js";
 import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
-import { parsePositiveIntOrUndefined } from "../program/helpers.js";
+import {
+  collectOption,
+  parseKeyValueOptions,
+  parsePositiveIntOrUndefined,
+} from "../program/helpers.js";
 import {
   getCronChannelOptions,
   parseAt,
+  parseCronTriggerOptions,
   parseDurationMs,
+  parseScheduleConstraintOptions,
   printCronList,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
@@ -76,8 +82,29 @@ export function registerCronAddCommand(cron: Command) {
       .option("--every <duration>", "Run every duration (e.g. 10m, 1h)")
       .option("--cron <expr>", "Cron expression (5-field)")
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
+      .option("--jitter <duration>", "Random delay added to each run (e.g. 5m)")
+      .option("--active-hours <HH:MM-HH:MM>", "Only run inside this daily window")
+      .option("--active-tz <iana>", "Timezone for --active-hours (default: schedule tz)")
+      .option("--exclude-calendar <path>", "ICS file whose events block runs (e.g. holidays)")
+      .option("--until <when>", "Stop scheduling after this time (ISO or duration like 30d)")
+      .option("--max-runs <n>", "Stop after this many runs")
+      .option("--on-success <jobId>", "Run after this job succeeds (repeatable)", collectOption)
+      .option("--on-failure <jobId>", "Run after this job fails (repeatable)", collectOption)
+      .option(
+        "--after <jobId>",
+        "Run after this job finishes, any outcome (repeatable)",
+        collectOption,
+      )
+      .option("--no-pass-output", "Do not append the upstream job output to the message")
       .option("--system-event <text>", "System event payload (main session)")
       .option("--message <text>", "Agent message payload")
+      .option("--workflow <name>", "Run a stored workflow definition (isolated)")
+      .option("--param <key=value>", "Workflow param (repeatable)", collectOption)
+      .option(
+        "--consolidate-memory",
+        "Consolidate recent session transcripts into memory files (isolated)",
+      )
+      .option("--lookback-hours <n>", "Transcript window for --consolidate-memory (default 24)")
       .option("--thinking <level>", "Thinking level for agent jobs (off|minimal|low|medium|high)")
       .option("--model <model>", "Model override for agent jobs (provider/model or alias)")
       .option("--timeout-seconds <n>", "Timeout seconds for agent jobs")
@@ -93,13 +120,25 @@ export function registerCronAddCommand(cron: Command) {
       .option("--json", "Output JSON", false)
       .action(async (opts: GatewayRpcOpts & Record<string, unknown>, cmd?: Command) => {
         try {
+          const triggers = parseCronTriggerOptions(opts);
+          const constraints = parseScheduleConstraintOptions(opts);
           const schedule = (() => {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
             const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            if (chosen === 0 && triggers) {
+              return { kind: "trigger" as const };
+            }
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error(
+                "Choose exactly one schedule: --at, --every, or --cron (or only triggers: --on-success, --on-failure, --after)",
+              );
+            }
+            if (constraints && !every && !cronExpr) {
+              throw new Error(
+                "--jitter/--active-hours/--exclude-calendar/--until/--max-runs require --every or --cron",
+              );
             }
             if (at) {
               const atIso = parseAt(at);
@@ -113,12 +152,13 @@ export function registerCronAddCommand(cron: Command) {
               if (!everyMs) {
                 throw new Error("Invalid --every; use e.g. 10m, 1h, 1d");
               }
-              return { kind: "every" as const, everyMs };
+              return { kind: "every" as const, everyMs, ...constraints };
             }
             return {
               kind: "cron" as const,
               expr: cronExpr,
               tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
+              ...constraints,
             };
           })();
 
@@ -143,14 +183,47 @@ export function registerCronAddCommand(cron: Command) {
           const payload = (() => {
             const systemEvent = typeof opts.systemEvent === "string" ? opts.systemEvent.trim() : "";
             const message = typeof opts.message === "string" ? opts.message.trim() : "";
-            const chosen = [Boolean(systemEvent), Boolean(message)].filter(Boolean).length;
+            const workflow = typeof opts.workflow === "string" ? opts.workflow.trim() : "";
+            const consolidate = Boolean(opts.consolidateMemory);
+            const chosen = [
+              Boolean(systemEvent),
+              Boolean(message),
+              Boolean(workflow),
+              consolidate,
+            ].filter(Boolean).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one payload: --system-event or --message");
+              throw new Error(
+                "Choose exactly one payload: --system-event, --message, --workflow, or --consolidate-memory",
+              );
             }
             if (systemEvent) {
               return { kind: "systemEvent" as const, text: systemEvent };
             }
             const timeoutSeconds = parsePositiveIntOrUndefined(opts.timeoutSeconds);
+            if (workflow) {
+              const params = parseKeyValueOptions(opts.param, "--param");
+              return {
+                kind: "workflowRun" as const,
+                workflow,
+                params: Object.keys(params).length > 0 ? params : undefined,
+                timeoutSeconds:
+                  timeoutSeconds && Number.isFinite(timeoutSeconds) ? timeoutSeconds : undefined,
+              };
+            }
+            if (consolidate) {
+              const lookbackHours = parsePositiveIntOrUndefined(opts.lookbackHours);
+              return {
+                kind: "memoryConsolidate" as const,
+                model:
+                  typeof opts.model === "string" && opts.model.trim()
+                    ? opts.model.trim()
+                    : undefined,
+                lookbackHours:
+                  lookbackHours && Number.isFinite(lookbackHours) ? lookbackHours : undefined,
+                timeoutSeconds:
+                  timeoutSeconds && Number.isFinite(timeoutSeconds) ? timeoutSeconds : undefined,
+              };
+            }
             return {
               kind: "agentTurn" as const,
               message,
@@ -171,7 +244,7 @@ export function registerCronAddCommand(cron: Command) {
               : () => undefined;
           const sessionSource = optionSource("session");
           const sessionTargetRaw = typeof opts.session === "string" ? opts.session.trim() : "";
-          const inferredSessionTarget = payload.kind === "agentTurn" ? "isolated" : "main";
+          const inferredSessionTarget = payload.kind === "systemEvent" ? "main" : "isolated";
           const sessionTarget =
             sessionSource === "cli" ? sessionTargetRaw || "" : inferredSessionTarget;
           if (sessionTarget !== "main" && sessionTarget !== "isolated") {
@@ -185,8 +258,10 @@ export function registerCronAddCommand(cron: Command) {
           if (sessionTarget === "main" && payload.kind !== "systemEvent") {
             throw new Error("Main jobs require --system-event (systemEvent).");
           }
-          if (sessionTarget === "isolated" && payload.kind !== "agentTurn") {
-            throw new Error("Isolated jobs require --message (agentTurn).");
+          if (sessionTarget === "isolated" && payload.kind === "systemEvent") {
+            throw new Error(
+              "Isolated jobs require --message (agentTurn), --workflow, or --consolidate-memory.",
+            );
           }
           if (
             (opts.announce || typeof opts.deliver === "boolean") &&
@@ -236,6 +311,7 @@ export function registerCronAddCommand(cron: Command) {
                   bestEffort: opts.bestEffortDeliver ? true : undefined,
                 }
               : undefined,
+            triggers,
           };
 
           const res = await callGatewayFromCli("cron.add", opts, params);
@@ -3,10 +3,13 @@ import { danger } from "../../globals.js";
 import { sanitizeAgentId } from "../../routing/session-key.js";
 import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
+import { collectOption, parseKeyValueOptions } from "../program/helpers.js";
 import {
   getCronChannelOptions,
   parseAt,
+  parseCronTriggerOptions,
   parseDurationMs,
+  parseScheduleConstraintOptions,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
 
@@ -41,8 +44,39 @@ export function registerCronEditCommand(cron: Command) {
       .option("--every <duration>", "Set interval duration like 10m")
       .option("--cron <expr>", "Set cron expression")
       .option("--tz <iana>", "Timezone for cron expressions (IANA)")
+      .option("--jitter <duration>", "Random delay added to each run (e.g. 5m)")
+      .option("--active-hours <HH:MM-HH:MM>", "Only run inside this daily window")
+      .option("--active-tz <iana>", "Timezone for --active-hours (default: schedule tz)")
+      .option("--exclude-calendar <path>", "ICS file whose events block runs (e.g. holidays)")
+      .option("--until <when>", "Stop scheduling after this time (ISO or duration like 30d)")
+      .option("--max-runs <n>", "Stop after this many runs")
+      .option(
+        "--on-success <jobId>",
+        "Run after this job succeeds (repeatable; replaces triggers)",
+        collectOption,
+      )
+      .option(
+        "--on-failure <jobId>",
+        "Run after this job fails (repeatable; replaces triggers)",
+        collectOption,
+      )
+      .option(
+        "--after <jobId>",
+        "Run after this job finishes (repeatable; replaces triggers)",
+        collectOption,
+      )
+      .option("--no-pass-output", "Do not append the upstream job output to the message")
+      .option("--clear-triggers", "Remove all job triggers", false)
       .option("--system-event <text>", "Set systemEvent payload")
       .option("--message <text>", "Set agentTurn payload message")
+      .option("--workflow <name>", "Set workflowRun payload (stored workflow name)")
+      .option(
+        "--param <key=value>",
+        "Workflow param (repeatable; replaces all params)",
+        collectOption,
+      )
+      .option("--consolidate-memory", "Set memoryConsolidate payload")
+      .option("--lookback-hours <n>", "Transcript window for memory consolidation jobs")
       .option("--thinking <level>", "Thinking level for agent jobs")
       .option("--model <model>", "Model override for agent jobs")
       .option("--timeout-seconds <n>", "Timeout seconds for agent jobs")
@@ -117,6 +151,13 @@ export function registerCronEditCommand(cron: Command) {
           if (scheduleChosen > 1) {
             throw new Error("Choose at most one schedule change");
           }
+          // The schedule is replaced as a whole, so constraints ride along with it.
+          const constraints = parseScheduleConstraintOptions(opts);
+          if (constraints && !opts.every && !opts.cron) {
+            throw new Error(
+              "--jitter/--active-hours/--exclude-calendar/--until/--max-runs require --every or --cron",
+            );
+          }
           if (opts.at) {
             const atIso = parseAt(String(opts.at));
             if (!atIso) {
@@ -128,15 +169,26 @@ export function registerCronEditCommand(cron: Command) {
             if (!everyMs) {
               throw new Error("Invalid --every");
             }
-            patch.schedule = { kind: "every", everyMs };
+            patch.schedule = { kind: "every", everyMs, ...constraints };
           } else if (opts.cron) {
             patch.schedule = {
               kind: "cron",
               expr: String(opts.cron),
               tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
+              ...constraints,
             };
           }
 
+          const triggers = parseCronTriggerOptions(opts);
+          if (triggers && opts.clearTriggers) {
+            throw new Error("Choose trigger flags or --clear-triggers, not both");
+          }
+          if (triggers) {
+            patch.triggers = triggers;
+          } else if (opts.clearTriggers) {
+            patch.triggers = null;
+          }
+
           const hasSystemEventPatch = typeof opts.systemEvent === "string";
           const model =
             typeof opts.model === "string" && opts.model.trim() ? opts.model.trim() : undefined;
@@ -151,15 +203,32 @@ export function registerCronEditCommand(cron: Command) {
           const hasDeliveryModeFlag = opts.announce || typeof opts.deliver === "boolean";
           const hasDeliveryTarget = typeof opts.channel === "string" || typeof opts.to === "string";
           const hasBestEffort = typeof opts.bestEffortDeliver === "boolean";
+          const workflowParams =
+            opts.param !== undefined ? parseKeyValueOptions(opts.param, "--param") : undefined;
+          const hasWorkflowPatch = typeof opts.workflow === "string" || Boolean(workflowParams);
+          const lookbackHours = opts.lookbackHours
+            ? Number.parseInt(String(opts.lookbackHours), 10)
+            : undefined;
+          const hasLookbackHours = Boolean(lookbackHours && Number.isFinite(lookbackHours));
+          const hasConsolidatePatch = Boolean(opts.consolidateMemory) || hasLookbackHours;
           const hasAgentTurnPatch =
-            typeof opts.message === "string" ||
-            Boolean(model) ||
-            Boolean(thinking) ||
-            hasTimeoutSeconds ||
-            hasDeliveryModeFlag ||
-            hasDeliveryTarget ||
-            hasBestEffort;
-          if (hasSystemEventPatch && hasAgentTurnPatch) {
+            !hasWorkflowPatch &&
+            !hasConsolidatePatch &&
+            (typeof opts.message === "string" ||
+              Boolean(model) ||
+              Boolean(thinking) ||
+              hasTimeoutSeconds ||
+              hasDeliveryModeFlag ||
+              hasDeliveryTarget ||
+              hasBestEffort);
+          if (
+            [hasSystemEventPatch, hasAgentTurnPatch, hasWorkflowPatch, hasConsolidatePatch].filter(
+              Boolean,
+            ).length > 1 ||
+            ((hasWorkflowPatch || hasConsolidatePatch) &&
+              (typeof opts.message === "string" || thinking)) ||
+            (hasWorkflowPatch && model)
+          ) {
             throw new Error("Choose at most one payload change");
           }
           if (hasSystemEventPatch) {
@@ -174,6 +243,18 @@ export function registerCronEditCommand(cron: Command) {
             assignIf(payload, "thinking", thinking, Boolean(thinking));
             assignIf(payload, "timeoutSeconds", timeoutSeconds, hasTimeoutSeconds);
             patch.payload = payload;
+          } else if (hasWorkflowPatch) {
+            const payload: Record<string, unknown> = { kind: "workflowRun" };
+            assignIf(payload, "workflow", String(opts.workflow), typeof opts.workflow === "string");
+            assignIf(payload, "params", workflowParams, Boolean(workflowParams));
+            assignIf(payload, "timeoutSeconds", timeoutSeconds, hasTimeoutSeconds);
+            patch.payload = payload;
+          } else if (hasConsolidatePatch) {
+            const payload: Record<string, unknown> = { kind: "memoryConsolidate" };
+            assignIf(payload, "model", model, Boolean(model));
+            assignIf(payload, "lookbackHours", lookbackHours, hasLookbackHours);
+            assignIf(payload, "timeoutSeconds", timeoutSeconds, hasTimeoutSeconds);
+            patch.payload = payload;
           }
 
           if (hasDeliveryModeFlag || hasDeliveryTarget || hasBestEffort) {
@@ -2,7 +2,11 @@ import type { Command } from "commander";
 import { danger } from "../../globals.js";
 import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
-import { warnIfCronSchedulerDisabled } from "./shared.js";
+import {
+  parseDurationMs,
+  parseScheduleConstraintOptions,
+  warnIfCronSchedulerDisabled,
+} from "./shared.js";
 
 export function registerCronSimpleCommands(cron: Command) {
   addGatewayClientOptions(
@@ -70,14 +74,32 @@ export function registerCronSimpleCommands(cron: Command) {
       .description("Show cron run history (JSONL-backed)")
       .requiredOption("--id <id>", "Job id")
       .option("--limit <n>", "Max entries (default 50)", "50")
+      .option("--run <runId>", "Only this run")
+      .option("--status <status>", "Only runs with status ok|error|skipped")
+      .option("--since <when>", "Only runs finished after this (ISO time or duration ago like 24h)")
       .action(async (opts) => {
         try {
           const limitRaw = Number.parseInt(String(opts.limit ?? "50"), 10);
           const limit = Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 50;
           const id = String(opts.id);
+          const status = typeof opts.status === "string" ? opts.status.trim() : undefined;
+          if (status && status !== "ok" && status !== "error" && status !== "skipped") {
+            throw new Error("--status must be ok, error or skipped");
+          }
+          let sinceMs: number | undefined;
+          if (typeof opts.since === "string") {
+            const agoMs = parseDurationMs(opts.since);
+            sinceMs = agoMs !== null ? Date.now() - agoMs : Date.parse(opts.since);
+            if (!Number.isFinite(sinceMs)) {
+              throw new Error("Invalid --since; use ISO time or duration like 24h");
+            }
+          }
           const res = await callGatewayFromCli("cron.runs", opts, {
             id,
             limit,
+            runId: typeof opts.run === "string" ? opts.run : undefined,
+            status,
+            sinceMs,
           });
           defaultRuntime.log(JSON.stringify(res, null, 2));
         } catch (err) {
@@ -87,6 +109,76 @@ export function registerCronSimpleCommands(cron: Command) {
       }),
   );
 
+  addGatewayClientOptions(
+    cron
+      .command("preview")
+      .description("Preview the next runs of a job, or of a schedule given by flags")
+      .argument("[id]", "Job id")
+      .option("--count <n>", "Number of runs to show (default 5, max 100)", "5")
+      .option("--every <duration>", "Preview an interval schedule (e.g. 10m)")
+      .option("--cron <expr>", "Preview a cron expression")
+      .option("--tz <iana>", "Timezone for --cron")
+      .option("--jitter <duration>", "Random delay added to each run (e.g. 5m)")
+      .option("--active-hours <HH:MM-HH:MM>", "Only run inside this daily window")
+      .option("--active-tz <iana>", "Timezone for --active-hours (default: schedule tz)")
+      .option("--exclude-calendar <path>", "ICS file whose events block runs (e.g. holidays)")
+      .option("--until <when>", "Stop scheduling after this time (ISO or duration like 30d)")
+      .option("--max-runs <n>", "Stop after this many runs")
+      .option("--json", "Output JSON", false)
+      .action(async (id: string | undefined, opts) => {
+        try {
+          const countRaw = Number.parseInt(String(opts.count ?? "5"), 10);
+          const count = Number.isFinite(countRaw) && countRaw > 0 ? Math.min(countRaw, 100) : 5;
+          const params: Record<string, unknown> = { count };
+          if (id) {
+            if (opts.every || opts.cron) {
+              throw new Error("Pass a job id or --every/--cron, not both");
+            }
+            params.id = id;
+          } else {
+            const constraints = parseScheduleConstraintOptions(opts);
+            if (opts.every && opts.cron) {
+              throw new Error("Choose --every or --cron, not both");
+            }
+            if (opts.every) {
+              const everyMs = parseDurationMs(String(opts.every));
+              if (!everyMs) {
+                throw new Error("Invalid --every; use e.g. 10m, 1h, 1d");
+              }
+              params.schedule = { kind: "every", everyMs, ...constraints };
+            } else if (opts.cron) {
+              params.schedule = {
+                kind: "cron",
+                expr: String(opts.cron),
+                tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
+                ...constraints,
+              };
+            } else {
+              throw new Error("Pass a job id or a schedule (--every or --cron)");
+            }
+          }
+          const res = (await callGatewayFromCli("cron.preview", opts, params)) as {
+            runs?: number[];
+          };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          const runs = Array.isArray(res?.runs) ? res.runs : [];
+          if (runs.length === 0) {
+            defaultRuntime.log("No upcoming runs.");
+            return;
+          }
+          for (const runAtMs of runs) {
+            defaultRuntime.log(new Date(runAtMs).toISOString());
+          }
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
   addGatewayClientOptions(
     cron
       .command("run")
@@ -106,4 +198,21 @@ export function registerCronSimpleCommands(cron: Command) {
         }
       }),
   );
+
+  addGatewayClientOptions(
+    cron
+      .command("replay")
+      .description("Re-run a past run of a job with the same inputs (debug)")
+      .argument("<id>", "Job id")
+      .argument("<runId>", "Run id from `cron runs`")
+      .action(async (id, runId, opts) => {
+        try {
+          const res = await callGatewayFromCli("cron.replay", opts, { id, runId });
+          defaultRuntime.log(JSON.stringify(res, null, 2));
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
 }
@@ -1,4 +1,9 @@
-import type { CronJob, CronSchedule } from "../../cron/types.js";
+import type {
+  CronJob,
+  CronSchedule,
+  CronScheduleConstraints,
+  CronTriggers,
+} from "../../cron/types.js";
 import type { GatewayRpcOpts } from "../gateway-rpc.js";
 import { listChannelPlugins } from "../../channels/plugins/index.js";
 import { parseAbsoluteTimeMs } from "../../cron/parse.js";
@@ -6,6 +11,7 @@ import { formatDurationHuman } from "../../infra/format-time/format-duration.ts"
 import { defaultRuntime } from "../../runtime.js";
 import { colorize, isRich, theme } from "../../terminal/theme.js";
 import { callGatewayFromCli } from "../gateway-rpc.js";
+import { parsePositiveIntOrUndefined } from "../program/helpers.js";
 
 export const getCronChannelOptions = () =>
   ["last", ...listChannelPlugins().map((plugin) => plugin.id)].join("|");
@@ -34,6 +40,29 @@ export async function warnIfCronSchedulerDisabled(opts: GatewayRpcOpts) {
   }
 }
 
+/** Collect `--on-success` / `--on-failure` / `--after` job ids into cron triggers. */
+export function parseCronTriggerOptions(opts: Record<string, unknown>): CronTriggers | undefined {
+  const readIds = (value: unknown) =>
+    Array.isArray(value)
+      ? value
+          .flatMap((entry) => (typeof entry === "string" ? entry.split(",") : []))
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+      : [];
+  const onSuccess = readIds(opts.onSuccess);
+  const onFailure = readIds(opts.onFailure);
+  const after = readIds(opts.after);
+  if (onSuccess.length === 0 && onFailure.length === 0 && after.length === 0) {
+    return undefined;
+  }
+  return {
+    onSuccess: onSuccess.length > 0 ? onSuccess : undefined,
+    onFailure: onFailure.length > 0 ? onFailure : undefined,
+    after: after.length > 0 ? after : undefined,
+    passOutput: opts.passOutput === false ? false : undefined,
+  };
+}
+
 export function parseDurationMs(input: string): number | null {
   const raw = input.trim();
   if (!raw) {
@@ -77,6 +106,53 @@ export function parseAt(input: string): string | null {
   return null;
 }
 
+/**
+ * Read `--jitter`, `--active-hours`, `--active-tz`, `--exclude-calendar`,
+ * `--until` and `--max-runs` into schedule constraints (undefined when none set).
+ */
+export function parseScheduleConstraintOptions(
+  opts: Record<string, unknown>,
+): CronScheduleConstraints | undefined {
+  const constraints: CronScheduleConstraints = {};
+  if (typeof opts.jitter === "string") {
+    const jitterMs = parseDurationMs(opts.jitter);
+    if (!jitterMs) {
+      throw new Error("Invalid --jitter; use e.g. 30s, 5m");
+    }
+    constraints.jitterMs = jitterMs;
+  }
+  if (typeof opts.activeHours === "string") {
+    const match = opts.activeHours.trim().match(/^(\d{2}:\d{2})-(\d{2}:\d{2})$/);
+    if (!match) {
+      throw new Error("Invalid --active-hours; use HH:MM-HH:MM (e.g. 09:00-18:00)");
+    }
+    constraints.activeHours = { start: match[1], end: match[2] };
+    if (typeof opts.activeTz === "string" && opts.activeTz.trim()) {
+      constraints.activeHours.timezone = opts.activeTz.trim();
+    }
+  } else if (typeof opts.activeTz === "string") {
+    throw new Error("--active-tz requires --active-hours");
+  }
+  if (typeof opts.excludeCalendar === "string" && opts.excludeCalendar.trim()) {
+    constraints.excludeCalendar = opts.excludeCalendar.trim();
+  }
+  if (typeof opts.until === "string") {
+    const until = parseAt(opts.until);
+    if (!until) {
+      throw new Error("Invalid --until; use ISO time or duration like 30d");
+    }
+    constraints.until = until;
+  }
+  if (opts.maxRuns !== undefined) {
+    const maxRuns = parsePositiveIntOrUndefined(opts.maxRuns);
+    if (!maxRuns) {
+      throw new Error("Invalid --max-runs; use a positive integer");
+    }
+    constraints.maxRuns = maxRuns;
+  }
+  return Object.keys(constraints).length > 0 ? constraints : undefined;
+}
+
 const CRON_ID_PAD = 36;
 const CRON_NAME_PAD = 24;
 const CRON_SCHEDULE_PAD = 32;
@@ -137,6 +213,9 @@ const formatSchedule = (schedule: CronSchedule) => {
   if (schedule.kind === "every") {
     return `every ${formatDurationHuman(schedule.everyMs)}`;
   }
+  if (schedule.kind === "trigger") {
+    return "on trigger";
+  }
   return schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
 };
 
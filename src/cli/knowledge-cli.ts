@@ -0,0 +1,144 @@
+import type { Command } from "commander";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import { resolveKnowledgeStorePath, withKnowledgeStore } from "../knowledge/store.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { resolveUserPath, shortenHomePath } from "../utils.js";
+
+type KnowledgeCommandOptions = {
+  agent?: string;
+  json?: boolean;
+};
+
+function resolveStorePath(agent?: string): string {
+  const cfg = loadConfig();
+  const agentId = agent?.trim() || resolveDefaultAgentId(cfg);
+  return resolveKnowledgeStorePath(resolveAgentWorkspaceDir(cfg, agentId));
+}
+
+function exitWithError(err: unknown) {
+  defaultRuntime.error(
+    `${theme.error("Error:")} ${err instanceof Error ? err.message : String(err)}`,
+  );
+  defaultRuntime.exit(1);
+}
+
+export function registerKnowledgeCli(program: Command) {
+  const knowledge = program
+    .command("knowledge")
+    .description("Inspect, back up and migrate the knowledge_store database")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/knowledge", "docs.openclaw.ai/cli/knowledge")}\n`,
+    );
+
+  knowledge
+    .command("categories")
+    .description("List categories with entry counts")
+    .option("--agent <id>", "Agent workspace (default: default agent)")
+    .option("--json", "Output JSON", false)
+    .action(async (opts: KnowledgeCommandOptions) => {
+      try {
+        const dbPath = resolveStorePath(opts.agent);
+        const categories = await withKnowledgeStore(dbPath, (store) => store.listCategories());
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify({ path: dbPath, categories }, null, 2));
+          return;
+        }
+        defaultRuntime.log(
+          `${theme.heading("Knowledge store")} ${theme.muted(shortenHomePath(dbPath))}`,
+        );
+        if (categories.length === 0) {
+          defaultRuntime.log("No categories.");
+          return;
+        }
+        const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+        defaultRuntime.log(
+          renderTable({
+            width: tableWidth,
+            columns: [
+              { key: "Category", header: "Category", minWidth: 14, flex: true },
+              { key: "Entries", header: "Entries", minWidth: 7, align: "right" },
+              { key: "Schema", header: "Schema", minWidth: 6 },
+            ],
+            rows: categories.map((category) => ({
+              Category: category.name,
+              Entries: String(category.count),
+              Schema: category.schema ? theme.success("yes") : theme.muted("no"),
+            })),
+          }).trimEnd(),
+        );
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+
+  knowledge
+    .command("export")
+    .description("Export entries and schemas as JSON")
+    .option("--agent <id>", "Agent workspace (default: default agent)")
+    .option("--category <name>", "Only export one category")
+    .option("--out <path>", "Write to a file instead of stdout")
+    .action(async (opts: KnowledgeCommandOptions & { category?: string; out?: string }) => {
+      try {
+        const dbPath = resolveStorePath(opts.agent);
+        const exported = await withKnowledgeStore(dbPath, (store) =>
+          store.export({ category: opts.category?.trim() || undefined }),
+        );
+        const payload = `${JSON.stringify(exported, null, 2)}\n`;
+        if (!opts.out) {
+          defaultRuntime.log(payload.trimEnd());
+          return;
+        }
+        const outPath = resolveUserPath(opts.out);
+        await fs.mkdir(path.dirname(outPath), { recursive: true });
+        await fs.writeFile(outPath, payload, "utf-8");
+        defaultRuntime.log(
+          `Exported ${exported.entries.length} entries to ${shortenHomePath(outPath)}`,
+        );
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+
+  knowledge
+    .command("import")
+    .description("Import an export file or a legacy .knowledge-store.json")
+    .argument("<file>", "JSON file to import")
+    .option("--agent <id>", "Agent workspace (default: default agent)")
+    .option("--replace", "Delete all existing entries and schemas first", false)
+    .option("--json", "Output JSON", false)
+    .action(async (file: string, opts: KnowledgeCommandOptions & { replace?: boolean }) => {
+      try {
+        const raw = await fs.readFile(resolveUserPath(file), "utf-8");
+        const doc = JSON.parse(raw) as unknown;
+        const dbPath = resolveStorePath(opts.agent);
+        const result = await withKnowledgeStore(dbPath, (store) =>
+          store.import(doc, { replace: opts.replace === true }),
+        );
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+        } else {
+          defaultRuntime.log(
+            `Imported ${result.entries} entries and ${result.schemas} schemas into ${shortenHomePath(dbPath)}`,
+          );
+          for (const skipped of result.skipped) {
+            defaultRuntime.log(
+              `${theme.warn("skipped")} ${skipped.category}/${skipped.key}: ${skipped.error}`,
+            );
+          }
+        }
+        if (result.skipped.length > 0) {
+          defaultRuntime.exit(1);
+        }
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+}
@@ -3,18 +3,27 @@ import fsSync from "node:fs";
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
+import type { MemorySearchFilter } from "../memory/types.js";
 import { resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { loadConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
 import { setVerbose } from "../globals.js";
+import { resolveKnowledgeStorePath, withKnowledgeStore } from "../knowledge/store.js";
+import {
+  formatMemoryConsolidationSummary,
+  type MemoryConsolidationResult,
+  runMemoryConsolidation,
+} from "../memory/consolidate.js";
 import { getMemorySearchManager, type MemorySearchManagerResult } from "../memory/index.js";
 import { listMemoryFiles, normalizeExtraMemoryPaths } from "../memory/internal.js";
+import { parseMemoryDateBound } from "../memory/search-filter.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { colorize, isRich, theme } from "../terminal/theme.js";
 import { shortenHomeInString, shortenHomePath } from "../utils.js";
 import { formatErrorMessage, withManager } from "./cli-utils.js";
+import { collectOption } from "./program/helpers.js";
 import { withProgress, withProgressTotals } from "./progress.js";
 
 type MemoryCommandOptions = {
@@ -28,7 +37,7 @@ type MemoryCommandOptions = {
 
 type MemoryManager = NonNullable<MemorySearchManagerResult["manager"]>;
 
-type MemorySourceName = "memory" | "sessions";
+type MemorySourceName = "memory" | "sessions" | "knowledge";
 
 type SourceScan = {
   source: MemorySourceName;
@@ -54,9 +63,45 @@ function formatSourceLabel(source: string, workspaceDir: string, agentId: string
       `sessions (${path.join(stateDir, "agents", agentId, "sessions")}${path.sep}*.jsonl)`,
     );
   }
+  if (source === "knowledge") {
+    return shortenHomeInString(`knowledge (${resolveKnowledgeStorePath(workspaceDir)})`);
+  }
   return source;
 }
 
+function buildSearchFilter(opts: {
+  path?: string[];
+  excludePath?: string[];
+  since?: string;
+  until?: string;
+  source?: string;
+  sessionAgent?: string;
+  channel?: string;
+  peer?: string;
+  sessionKey?: string;
+}): MemorySearchFilter {
+  const sources = opts.source
+    ?.split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  for (const source of sources ?? []) {
+    if (source !== "memory" && source !== "sessions" && source !== "knowledge") {
+      throw new Error(`Unknown memory source "${source}" (use memory, sessions or knowledge).`);
+    }
+  }
+  return {
+    pathInclude: opts.path,
+    pathExclude: opts.excludePath,
+    modifiedAfter: parseMemoryDateBound(opts.since),
+    modifiedBefore: parseMemoryDateBound(opts.until),
+    sources: sources as MemorySourceName[] | undefined,
+    agentId: opts.sessionAgent,
+    channel: opts.channel,
+    peer: opts.peer,
+    sessionKey: opts.sessionKey,
+  };
+}
+
 function resolveAgent(cfg: ReturnType<typeof loadConfig>, agent?: string) {
   const trimmed = agent?.trim();
   if (trimmed) {
@@ -119,6 +164,25 @@ async function scanSessionFiles(agentId: string): Promise<SourceScan> {
   }
 }
 
+async function scanKnowledgeEntries(workspaceDir: string): Promise<SourceScan> {
+  const issues: string[] = [];
+  const dbPath = resolveKnowledgeStorePath(workspaceDir);
+  if (!fsSync.existsSync(dbPath)) {
+    issues.push(`knowledge store missing (${shortenHomePath(dbPath)})`);
+    return { source: "knowledge", totalFiles: 0, issues };
+  }
+  try {
+    const categories = await withKnowledgeStore(dbPath, (store) => store.listCategories());
+    const totalFiles = categories.reduce((sum, category) => sum + category.count, 0);
+    return { source: "knowledge", totalFiles, issues };
+  } catch (err) {
+    issues.push(
+      `knowledge store not readable (${shortenHomePath(dbPath)}): ${formatErrorMessage(err)}`,
+    );
+    return { source: "knowledge", totalFiles: null, issues };
+  }
+}
+
 async function scanMemoryFiles(
   workspaceDir: string,
   extraPaths: string[] = [],
@@ -258,6 +322,9 @@ async function scanMemorySources(params: {
     if (source === "sessions") {
       scans.push(await scanSessionFiles(params.agentId));
     }
+    if (source === "knowledge") {
+      scans.push(await scanKnowledgeEntries(params.workspaceDir));
+    }
   }
   const issues = scans.flatMap((scan) => scan.issues);
   const totals = scans.map((scan) => scan.totalFiles);
@@ -472,6 +539,23 @@ export async function runMemoryStatus(opts: MemoryCommandOptions) {
         lines.push(`${label("FTS error")} ${warn(status.fts.error)}`);
       }
     }
+    if (status.ranking) {
+      const { rerank, mmr, recency, sourceBoosts } = status.ranking;
+      const parts = [
+        rerank.enabled ? `rerank ${rerank.mode}${rerank.model ? ` (${rerank.model})` : ""}` : null,
+        mmr.enabled ? `mmr λ=${mmr.lambda}` : null,
+        recency.enabled ? `recency ${recency.halfLifeDays}d (${recency.sources.join(", ")})` : null,
+        ...Object.entries(sourceBoosts)
+          .filter(([, boost]) => boost !== 1)
+          .map(([source, boost]) => `${source}×${boost}`),
+      ].filter(Boolean);
+      lines.push(
+        `${label("Ranking")} ${parts.length > 0 ? info(parts.join(" · ")) : muted("hybrid")}`,
+      );
+      if (rerank.lastError) {
+        lines.push(`${label("Rerank error")} ${warn(rerank.lastError)}`);
+      }
+    }
     if (status.cache) {
       const cacheState = status.cache.enabled ? "enabled" : "disabled";
       const cacheColor = status.cache.enabled ? theme.success : theme.muted;
@@ -683,6 +767,15 @@ export function registerMemoryCli(program: Command) {
     .option("--agent <id>", "Agent id (default: default agent)")
     .option("--max-results <n>", "Max results", (value: string) => Number(value))
     .option("--min-score <n>", "Minimum score", (value: string) => Number(value))
+    .option("--path <glob>", "Only paths matching this glob (repeatable)", collectOption)
+    .option("--exclude-path <glob>", "Skip paths matching this glob (repeatable)", collectOption)
+    .option("--since <date>", "Only files modified since (ISO date or age like 30d)")
+    .option("--until <date>", "Only files modified until (ISO date or age like 7d)")
+    .option("--source <sources>", "Comma-separated sources (memory, sessions, knowledge)")
+    .option("--session-agent <id>", "Session transcripts owned by this agent")
+    .option("--channel <channel>", "Session transcripts on this channel")
+    .option("--peer <id>", "Session transcripts with this peer")
+    .option("--session-key <key>", "Session transcripts for this session key")
     .option("--json", "Print JSON")
     .action(
       async (
@@ -690,10 +783,27 @@ export function registerMemoryCli(program: Command) {
         opts: MemoryCommandOptions & {
           maxResults?: number;
           minScore?: number;
+          path?: string[];
+          excludePath?: string[];
+          since?: string;
+          until?: string;
+          source?: string;
+          sessionAgent?: string;
+          channel?: string;
+          peer?: string;
+          sessionKey?: string;
         },
       ) => {
         const cfg = loadConfig();
         const agentId = resolveAgent(cfg, opts.agent);
+        let filter: MemorySearchFilter;
+        try {
+          filter = buildSearchFilter(opts);
+        } catch (err) {
+          defaultRuntime.error(formatErrorMessage(err));
+          process.exitCode = 1;
+          return;
+        }
         await withManager<MemoryManager>({
           getManager: () => getMemorySearchManager({ cfg, agentId }),
           onMissing: (error) => defaultRuntime.log(error ?? "Memory search disabled."),
@@ -708,6 +818,7 @@ export function registerMemoryCli(program: Command) {
               results = await manager.search(query, {
                 maxResults: opts.maxResults,
                 minScore: opts.minScore,
+                filter,
               });
             } catch (err) {
               const message = formatErrorMessage(err);
@@ -741,4 +852,61 @@ export function registerMemoryCli(program: Command) {
         });
       },
     );
+
+  memory
+    .command("consolidate")
+    .description("Summarize recent session transcripts into memory files")
+    .option("--agent <id>", "Agent id (default: all agents)")
+    .option("--model <model>", "Extraction model (provider/model or alias)")
+    .option(
+      "--lookback-hours <n>",
+      "Only transcripts modified within this window",
+      (value: string) => Number(value),
+    )
+    .option("--dry-run", "Show what would be added without writing", false)
+    .option("--json", "Print JSON")
+    .option("--verbose", "Verbose logging", false)
+    .action(
+      async (
+        opts: MemoryCommandOptions & { model?: string; lookbackHours?: number; dryRun?: boolean },
+      ) => {
+        setVerbose(Boolean(opts.verbose));
+        const cfg = loadConfig();
+        const results: MemoryConsolidationResult[] = [];
+        for (const agentId of resolveAgentIds(cfg, opts.agent)) {
+          try {
+            const result = await runMemoryConsolidation({
+              cfg,
+              agentId,
+              model: opts.model,
+              lookbackHours: Number.isFinite(opts.lookbackHours) ? opts.lookbackHours : undefined,
+              dryRun: Boolean(opts.dryRun),
+            });
+            results.push(result);
+            if (opts.json) {
+              continue;
+            }
+            const rich = isRich();
+            defaultRuntime.log(formatMemoryConsolidationSummary(result));
+            for (const item of result.written) {
+              defaultRuntime.log(
+                `  ${colorize(rich, theme.accent, item.scope)} ${item.text} ${colorize(
+                  rich,
+                  theme.muted,
+                  `(${item.source.path}#L${item.source.startLine}-L${item.source.endLine})`,
+                )}`,
+              );
+            }
+          } catch (err) {
+            defaultRuntime.error(
+              `Memory consolidation failed (${agentId}): ${formatErrorMessage(err)}`,
+            );
+            process.exitCode = 1;
+          }
+        }
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify({ results }, null, 2));
+        }
+      },
+    );
 }
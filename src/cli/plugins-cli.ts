@@ -3,6 +3,7 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import type { OpenClawConfig } from "../config/config.js";
+import type { PluginSandboxGrants } from "../config/types.plugins.js";
 import type { PluginRecord } from "../plugins/registry.js";
 import { loadConfig, writeConfigFile } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
@@ -10,6 +11,7 @@ import { resolveArchiveKind } from "../infra/archive.js";
 import { installPluginFromNpmSpec, installPluginFromPath } from "../plugins/install.js";
 import { recordPluginInstall } from "../plugins/installs.js";
 import { clearPluginManifestRegistryCache } from "../plugins/manifest-registry.js";
+import { loadPluginManifest, PLUGIN_MANIFEST_FILENAME } from "../plugins/manifest.js";
 import { applyExclusiveSlotSelection } from "../plugins/slots.js";
 import { resolvePluginSourceRoots, formatPluginSourceForTable } from "../plugins/source-display.js";
 import { buildPluginStatusReport } from "../plugins/status.js";
@@ -151,6 +153,91 @@ function enablePluginInConfig(config: OpenClawConfig, pluginId: string): OpenCla
   };
 }
 
+function enablePluginSandboxInConfig(
+  config: OpenClawConfig,
+  pluginId: string,
+  grants: PluginSandboxGrants,
+): OpenClawConfig {
+  const install = config.plugins?.installs?.[pluginId];
+  return {
+    ...config,
+    plugins: {
+      ...config.plugins,
+      entries: {
+        ...config.plugins?.entries,
+        [pluginId]: {
+          ...(config.plugins?.entries?.[pluginId] as object | undefined),
+          sandbox: true,
+        },
+      },
+      ...(install
+        ? { installs: { ...config.plugins?.installs, [pluginId]: { ...install, grants } } }
+        : {}),
+    },
+  };
+}
+
+function formatGrantList(values: string[]): string {
+  return values.length > 0 ? values.map((value) => shortenHomeInString(value)).join(", ") : "none";
+}
+
+/**
+ * Show what a plugin asks for when sandboxed and let the user approve the
+ * filesystem/network part. Declining still sandboxes the plugin, without extra access.
+ */
+async function approvePluginSandboxGrants(
+  pluginId: string,
+  rootDir: string,
+): Promise<PluginSandboxGrants> {
+  const manifest = loadPluginManifest(rootDir);
+  if (!manifest.ok) {
+    defaultRuntime.error(manifest.error);
+    process.exit(1);
+  }
+  const sandbox = manifest.manifest.sandbox;
+  if (!sandbox) {
+    defaultRuntime.error(
+      `Plugin "${pluginId}" declares no sandbox capabilities in ${PLUGIN_MANIFEST_FILENAME}; it cannot run sandboxed.`,
+    );
+    process.exit(1);
+  }
+  defaultRuntime.log(`Sandbox for ${theme.command(pluginId)}:`);
+  defaultRuntime.log(`  ${theme.muted("API:")} ${formatGrantList(sandbox.api)}`);
+  defaultRuntime.log(`  ${theme.muted("Filesystem read:")} ${formatGrantList(sandbox.fs.read)}`);
+  defaultRuntime.log(`  ${theme.muted("Filesystem write:")} ${formatGrantList(sandbox.fs.write)}`);
+  defaultRuntime.log(`  ${theme.muted("Network:")} ${formatGrantList(sandbox.network)}`);
+  const approvedAt = new Date().toISOString();
+  const requestsAccess =
+    sandbox.fs.read.length > 0 || sandbox.fs.write.length > 0 || sandbox.network.length > 0;
+  if (!requestsAccess) {
+    return { approvedAt };
+  }
+  const approved = await promptYesNo(`Grant this filesystem/network access to "${pluginId}"?`);
+  if (!approved) {
+    defaultRuntime.log(
+      theme.warn("Access not granted; the plugin runs sandboxed without filesystem or network."),
+    );
+    return { approvedAt };
+  }
+  return {
+    fs: { read: sandbox.fs.read, write: sandbox.fs.write },
+    network: sandbox.network,
+    approvedAt,
+  };
+}
+
+/** `plugins install --sandbox`: prompt for grants and record the sandbox in config. */
+async function applyPluginSandboxOption(
+  config: OpenClawConfig,
+  pluginId: string,
+  rootDir: string,
+): Promise<OpenClawConfig> {
+  const grants = await approvePluginSandboxGrants(pluginId, rootDir);
+  return enablePluginSandboxInConfig(config, pluginId, grants);
+}
+
+type PluginInstallOptions = { link?: boolean; allowDangerousCode?: boolean; sandbox?: boolean };
+
 function logSlotWarnings(warnings: string[]) {
   if (warnings.length === 0) {
     return;
@@ -321,6 +408,16 @@ export function registerPluginsCli(program: Command) {
       if (plugin.services.length > 0) {
         lines.push(`${theme.muted("Services:")} ${plugin.services.join(", ")}`);
       }
+      if (plugin.sandbox) {
+        lines.push(`${theme.muted("Sandbox:")} isolated host process`);
+        lines.push(`${theme.muted("Sandbox API:")} ${formatGrantList(plugin.sandbox.api)}`);
+        lines.push(`${theme.muted("Filesystem read:")} ${formatGrantList(plugin.sandbox.fs.read)}`);
+        lines.push(
+          `${theme.muted("Filesystem write:")} ${formatGrantList(plugin.sandbox.fs.write)}`,
+        );
+        lines.push(`${theme.muted("Network:")} ${formatGrantList(plugin.sandbox.network)}`);
+        lines.push(`${theme.muted("Data dir:")} ${shortenHomePath(plugin.sandbox.dataDir)}`);
+      }
       if (plugin.error) {
         lines.push(`${theme.error("Error:")} ${plugin.error}`);
       }
@@ -535,7 +632,17 @@ export function registerPluginsCli(program: Command) {
     .description("Install a plugin (path, archive, or npm spec)")
     .argument("<path-or-spec>", "Path (.ts/.js/.zip/.tgz/.tar.gz) or an npm package spec")
     .option("-l, --link", "Link a local path instead of copying", false)
-    .action(async (raw: string, opts: { link?: boolean }) => {
+    .option(
+      "--allow-dangerous-code",
+      "Install even when the code scan reports critical findings",
+      false,
+    )
+    .option(
+      "--sandbox",
+      "Run the plugin in an isolated host with only its declared API and approved access",
+      false,
+    )
+    .action(async (raw: string, opts: PluginInstallOptions) => {
       const fileSpec = resolveFileNpmSpecToLocalPath(raw);
       if (fileSpec && !fileSpec.ok) {
         defaultRuntime.error(fileSpec.error);
@@ -549,7 +656,12 @@ export function registerPluginsCli(program: Command) {
         if (opts.link) {
           const existing = cfg.plugins?.load?.paths ?? [];
           const merged = Array.from(new Set([...existing, resolved]));
-          const probe = await installPluginFromPath({ path: resolved, dryRun: true });
+          const probe = await installPluginFromPath({
+            path: resolved,
+            dryRun: true,
+            config: cfg,
+            allowDangerousCode: opts.allowDangerousCode,
+          });
           if (!probe.ok) {
             defaultRuntime.error(probe.error);
             process.exit(1);
@@ -575,6 +687,10 @@ export function registerPluginsCli(program: Command) {
             installPath: resolved,
             version: probe.version,
           });
+          if (opts.sandbox) {
+            const rootDir = fs.statSync(resolved).isDirectory() ? resolved : path.dirname(resolved);
+            next = await applyPluginSandboxOption(next, probe.pluginId, rootDir);
+          }
           const slotResult = applySlotSelectionForPlugin(next, probe.pluginId);
           next = slotResult.config;
           await writeConfigFile(next);
@@ -587,6 +703,8 @@ export function registerPluginsCli(program: Command) {
         const result = await installPluginFromPath({
           path: resolved,
           logger: createPluginInstallLogger(),
+          config: cfg,
+          allowDangerousCode: opts.allowDangerousCode,
         });
         if (!result.ok) {
           defaultRuntime.error(result.error);
@@ -605,6 +723,9 @@ export function registerPluginsCli(program: Command) {
           installPath: result.targetDir,
           version: result.version,
         });
+        if (opts.sandbox) {
+          next = await applyPluginSandboxOption(next, result.pluginId, result.targetDir);
+        }
         const slotResult = applySlotSelectionForPlugin(next, result.pluginId);
         next = slotResult.config;
         await writeConfigFile(next);
@@ -639,6 +760,8 @@ export function registerPluginsCli(program: Command) {
       const result = await installPluginFromNpmSpec({
         spec: raw,
         logger: createPluginInstallLogger(),
+        config: cfg,
+        allowDangerousCode: opts.allowDangerousCode,
       });
       if (!result.ok) {
         defaultRuntime.error(result.error);
@@ -655,6 +778,9 @@ export function registerPluginsCli(program: Command) {
         installPath: result.targetDir,
         version: result.version,
       });
+      if (opts.sandbox) {
+        next = await applyPluginSandboxOption(next, result.pluginId, result.targetDir);
+      }
       const slotResult = applySlotSelectionForPlugin(next, result.pluginId);
       next = slotResult.config;
       await writeConfigFile(next);
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { parseRecordedToolCall } from "./policy-cli.js";
+
+describe("parseRecordedToolCall", () => {
+  it("reads a tool call object with context", () => {
+    expect(
+      parseRecordedToolCall(
+        JSON.stringify({
+          tool: "exec",
+          params: { command: "ls" },
+          agentId: "ops",
+          channel: "telegram",
+          sandboxed: true,
+        }),
+      ),
+    ).toEqual({
+      toolName: "exec",
+      params: { command: "ls" },
+      agentId: "ops",
+      channel: "telegram",
+      senderId: undefined,
+      sandboxed: true,
+    });
+  });
+
+  it("picks tool calls out of a session transcript", () => {
+    const transcript = [
+      JSON.stringify({ type: "session", id: "s1" }),
+      JSON.stringify({
+        type: "message",
+        message: {
+          role: "assistant",
+          content: [
+            { type: "text", text: "checking" },
+            { type: "toolCall", id: "call_a", name: "read", arguments: { path: "a.md" } },
+            {
+              type: "toolCall",
+              id: "call_b",
+              name: "web_fetch",
+              arguments: { url: "https://x.dev" },
+            },
+          ],
+        },
+      }),
+    ].join("\n");
+
+    expect(parseRecordedToolCall(transcript)).toEqual({
+      toolName: "web_fetch",
+      params: { url: "https://x.dev" },
+    });
+    expect(parseRecordedToolCall(transcript, "call_a").toolName).toBe("read");
+    expect(() => parseRecordedToolCall(transcript, "call_z")).toThrow("tool call call_z not found");
+  });
+});
@@ -0,0 +1,199 @@
+import type { Command } from "commander";
+import fs from "node:fs";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { evaluateToolRules, resolveToolRuleId, type ToolRuleCall } from "../agents/tool-rules.js";
+import { loadConfig } from "../config/config.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { isPlainObject, resolveUserPath } from "../utils.js";
+
+type PolicyTestOptions = {
+  tool?: string;
+  args?: string;
+  call?: string;
+  agent?: string;
+  channel?: string;
+  sender?: string;
+  sandboxed?: boolean;
+  json?: boolean;
+};
+
+function readToolCallBlock(value: unknown): { name: string; params: unknown; id?: string } | null {
+  if (!isPlainObject(value)) {
+    return null;
+  }
+  const name = [value.tool, value.toolName, value.name].find(
+    (candidate): candidate is string => typeof candidate === "string" && candidate.trim() !== "",
+  );
+  if (!name) {
+    return null;
+  }
+  const params = value.params ?? value.arguments ?? value.args ?? value.input ?? {};
+  return { name, params, id: typeof value.id === "string" ? value.id : undefined };
+}
+
+/**
+ * Parse a recorded tool call: a JSON object (`{ tool, params, agentId, channel,
+ * senderId, sandboxed }` or a transcript `toolCall` block) or a session
+ * transcript (JSONL), where `callId` picks the call (default: the last one).
+ */
+export function parseRecordedToolCall(raw: string, callId?: string): ToolRuleCall {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    throw new Error("empty tool call input");
+  }
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    const block = readToolCallBlock(parsed);
+    if (block && isPlainObject(parsed)) {
+      return {
+        toolName: block.name,
+        params: block.params,
+        agentId: typeof parsed.agentId === "string" ? parsed.agentId : undefined,
+        channel: typeof parsed.channel === "string" ? parsed.channel : undefined,
+        senderId: typeof parsed.senderId === "string" ? parsed.senderId : undefined,
+        sandboxed: typeof parsed.sandboxed === "boolean" ? parsed.sandboxed : undefined,
+      };
+    }
+  } catch {
+    // Not a single JSON document; fall through to transcript lines.
+  }
+  const calls: Array<{ name: string; params: unknown; id?: string }> = [];
+  for (const line of trimmed.split(/\r?\n/)) {
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const message = isPlainObject(entry) && isPlainObject(entry.message) ? entry.message : null;
+    const content = message && Array.isArray(message.content) ? message.content : [];
+    for (const part of content) {
+      if (isPlainObject(part) && (part.type === "toolCall" || part.type === "toolUse")) {
+        const block = readToolCallBlock(part);
+        if (block) {
+          calls.push(block);
+        }
+      }
+    }
+  }
+  const picked = callId ? calls.find((call) => call.id === callId) : calls.at(-1);
+  if (!picked) {
+    throw new Error(callId ? `tool call ${callId} not found` : "no tool call found in input");
+  }
+  return { toolName: picked.name, params: picked.params };
+}
+
+function readInput(source: string): string {
+  return fs.readFileSync(source === "-" ? 0 : resolveUserPath(source), "utf8");
+}
+
+export function registerPolicyCli(program: Command) {
+  const policy = program
+    .command("policy")
+    .description("Inspect and test tool policy rules (tools.rules)")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/policy", "docs.openclaw.ai/cli/policy")}\n`,
+    );
+
+  policy
+    .command("list")
+    .description("List configured tool rules in evaluation order")
+    .option("--json", "Output JSON", false)
+    .action((opts: { json?: boolean }) => {
+      const rules = loadConfig().tools?.rules ?? [];
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify({ rules }, null, 2));
+        return;
+      }
+      if (rules.length === 0) {
+        defaultRuntime.log("No tool rules configured (tools.rules). All calls are allowed.");
+        return;
+      }
+      defaultRuntime.log(
+        renderTable({
+          width: Math.max(60, (process.stdout.columns ?? 120) - 1),
+          columns: [
+            { key: "Rule", header: "Rule", minWidth: 10 },
+            { key: "Action", header: "Action", minWidth: 10 },
+            { key: "Match", header: "Match", minWidth: 20, flex: true },
+          ],
+          rows: rules.map((rule, index) => ({
+            Rule: resolveToolRuleId(rule, index),
+            Action: rule.action,
+            Match: rule.match ? JSON.stringify(rule.match) : "(any call)",
+          })),
+        }).trimEnd(),
+      );
+    });
+
+  policy
+    .command("test")
+    .description("Evaluate a recorded tool call against tools.rules and explain the decision")
+    .argument("[file]", "Tool call JSON or session transcript (.jsonl); '-' reads stdin")
+    .option("--tool <name>", "Tool name (instead of a file)")
+    .option("--args <json>", "Tool arguments as JSON (with --tool)")
+    .option("--call <id>", "Tool call id to pick from a transcript (default: last call)")
+    .option("--agent <id>", "Agent id")
+    .option("--channel <id>", "Message channel (e.g. telegram)")
+    .option("--sender <id>", "Sender id")
+    .option("--sandboxed", "Evaluate as a sandboxed run")
+    .option("--json", "Output JSON", false)
+    .action((file: string | undefined, opts: PolicyTestOptions) => {
+      try {
+        let call: ToolRuleCall;
+        if (opts.tool) {
+          call = { toolName: opts.tool, params: opts.args ? JSON.parse(opts.args) : {} };
+        } else if (file) {
+          call = parseRecordedToolCall(readInput(file), opts.call);
+        } else {
+          throw new Error("pass a tool call file (or '-') or --tool <name>");
+        }
+        const cfg = loadConfig();
+        const agentId = opts.agent ?? call.agentId;
+        call = {
+          ...call,
+          agentId,
+          channel: opts.channel ?? call.channel,
+          senderId: opts.sender ?? call.senderId,
+          sandboxed: opts.sandboxed ?? call.sandboxed,
+          workspaceDir:
+            call.workspaceDir ??
+            resolveAgentWorkspaceDir(cfg, agentId ?? resolveDefaultAgentId(cfg)),
+        };
+        const decision = evaluateToolRules(cfg.tools?.rules, call);
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify({ call, decision }, null, 2));
+          return;
+        }
+        const color =
+          decision.action === "deny"
+            ? theme.error
+            : decision.action === "allow"
+              ? theme.success
+              : theme.warn;
+        const lines = [
+          `${theme.heading("Decision")} ${color(decision.action)} ${theme.muted(
+            decision.ruleId ? `(rule ${decision.ruleId})` : "(default)",
+          )}`,
+          theme.muted(`Reason: ${decision.reason}`),
+        ];
+        if (decision.trace.length > 0) {
+          lines.push("", theme.heading("Evaluation"));
+          for (const entry of decision.trace) {
+            const mark = entry.matched ? theme.success("✓") : theme.muted("·");
+            lines.push(`${mark} ${entry.id} [${entry.action}] ${theme.muted(entry.detail)}`);
+          }
+        }
+        defaultRuntime.log(lines.join("\n"));
+      } catch (err) {
+        defaultRuntime.error(`${theme.error("Error:")} ${formatErrorMessage(err)}`);
+        defaultRuntime.exit(1);
+      }
+    });
+}
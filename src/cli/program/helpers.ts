@@ -23,6 +23,22 @@ export function parsePositiveIntOrUndefined(value: unknown): number | undefined
   return undefined;
 }
 
+/** Parse repeated `key=value` option values; throws on entries without `=`. */
+export function parseKeyValueOptions(values: unknown, flag: string): Record<string, string> {
+  const entries = Array.isArray(values) ? values : typeof values === "string" ? [values] : [];
+  const result: Record<string, string> = {};
+  for (const entry of entries) {
+    const raw = String(entry);
+    const eq = raw.indexOf("=");
+    const key = eq > 0 ? raw.slice(0, eq).trim() : "";
+    if (!key) {
+      throw new Error(`Invalid ${flag} "${raw}"; use key=value`);
+    }
+    result[key] = raw.slice(eq + 1);
+  }
+  return result;
+}
+
 export function resolveActionArgs(actionCommand?: import("commander").Command): string[] {
   if (!actionCommand) {
     return [];
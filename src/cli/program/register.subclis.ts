@@ -136,6 +136,30 @@ const entries: SubCliEntry[] = [
       mod.registerCronCli(program);
     },
   },
+  {
+    name: "knowledge",
+    description: "Knowledge store backup and migration",
+    register: async (program) => {
+      const mod = await import("../knowledge-cli.js");
+      mod.registerKnowledgeCli(program);
+    },
+  },
+  {
+    name: "route",
+    description: "Agent routing diagnostics",
+    register: async (program) => {
+      const mod = await import("../route-cli.js");
+      mod.registerRouteCli(program);
+    },
+  },
+  {
+    name: "workflow",
+    description: "Workflow definitions and runs",
+    register: async (program) => {
+      const mod = await import("../workflow-cli.js");
+      mod.registerWorkflowCli(program);
+    },
+  },
   {
     name: "dns",
     description: "DNS helpers",
@@ -215,6 +239,14 @@ const entries: SubCliEntry[] = [
       mod.registerSecurityCli(program);
     },
   },
+  {
+    name: "policy",
+    description: "Tool policy rules",
+    register: async (program) => {
+      const mod = await import("../policy-cli.js");
+      mod.registerPolicyCli(program);
+    },
+  },
   {
     name: "skills",
     description: "Skills management",
@@ -0,0 +1,149 @@
+import type { Command } from "commander";
+import type { ChatType } from "../channels/chat-type.js";
+import { normalizeChatType } from "../channels/chat-type.js";
+import { loadConfig } from "../config/config.js";
+import { explainAgentRoute, type RoutePeer } from "../routing/resolve-route.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+
+type RouteExplainOptions = {
+  channel: string;
+  account?: string;
+  peer?: string;
+  parentPeer?: string;
+  guild?: string;
+  team?: string;
+  roles?: string;
+  text?: string;
+  senderId?: string;
+  senderUsername?: string;
+  senderName?: string;
+  senderE164?: string;
+  at?: string;
+  json?: boolean;
+};
+
+function parsePeer(raw: string | undefined, flag: string): RoutePeer | null {
+  if (!raw?.trim()) {
+    return null;
+  }
+  const sep = raw.indexOf(":");
+  const kind: ChatType | undefined = sep > 0 ? normalizeChatType(raw.slice(0, sep)) : undefined;
+  const id = sep > 0 ? raw.slice(sep + 1).trim() : "";
+  if (!kind || !id) {
+    throw new Error(`${flag} must look like direct:<id>, group:<id> or channel:<id>`);
+  }
+  return { kind, id };
+}
+
+function exitWithError(err: unknown) {
+  defaultRuntime.error(
+    `${theme.error("Error:")} ${err instanceof Error ? err.message : String(err)}`,
+  );
+  defaultRuntime.exit(1);
+}
+
+export function registerRouteCli(program: Command) {
+  const route = program
+    .command("route")
+    .description("Inspect how inbound messages are routed to agents")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/route", "docs.openclaw.ai/cli/route")}\n`,
+    );
+
+  route
+    .command("explain")
+    .description("Show which binding would handle a sample inbound message")
+    .requiredOption("--channel <channel>", "Channel id (telegram, discord, slack, ...)")
+    .option("--account <id>", "Channel account id")
+    .option(
+      "--peer <kind:id>",
+      "Chat the message arrives in (direct:<id>, group:<id>, channel:<id>)",
+    )
+    .option("--parent-peer <kind:id>", "Parent chat for threads")
+    .option("--guild <id>", "Discord guild id")
+    .option("--team <id>", "Slack team id")
+    .option("--roles <ids>", "Comma-separated Discord role ids of the sender")
+    .option("--text <text>", "Message text")
+    .option("--sender-id <id>", "Sender id")
+    .option("--sender-username <name>", "Sender username")
+    .option("--sender-name <name>", "Sender display name")
+    .option("--sender-e164 <number>", "Sender phone number")
+    .option("--at <time>", "Evaluate active hours at this ISO time (default: now)")
+    .option("--json", "Output JSON", false)
+    .action((opts: RouteExplainOptions) => {
+      try {
+        const nowMs = opts.at ? Date.parse(opts.at) : undefined;
+        if (nowMs !== undefined && !Number.isFinite(nowMs)) {
+          throw new Error("Invalid --at; use an ISO time");
+        }
+        const explanation = explainAgentRoute({
+          cfg: loadConfig(),
+          channel: opts.channel,
+          accountId: opts.account,
+          peer: parsePeer(opts.peer, "--peer"),
+          parentPeer: parsePeer(opts.parentPeer, "--parent-peer"),
+          guildId: opts.guild,
+          teamId: opts.team,
+          memberRoleIds: opts.roles
+            ?.split(",")
+            .map((role) => role.trim())
+            .filter(Boolean),
+          message: {
+            text: opts.text,
+            senderId: opts.senderId,
+            senderUsername: opts.senderUsername,
+            senderName: opts.senderName,
+            senderE164: opts.senderE164,
+          },
+          nowMs,
+        });
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(explanation, null, 2));
+          return;
+        }
+        const { route: resolved, bindings } = explanation;
+        defaultRuntime.log(
+          `${theme.heading("Agent")} ${resolved.agentId} ${theme.muted(`(matchedBy: ${resolved.matchedBy})`)}`,
+        );
+        defaultRuntime.log(`${theme.muted("Session:")} ${resolved.sessionKey}`);
+        if (bindings.length === 0) {
+          defaultRuntime.log("No bindings configured.");
+          return;
+        }
+        const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+        defaultRuntime.log(
+          renderTable({
+            width: tableWidth,
+            columns: [
+              { key: "Index", header: "#", minWidth: 3, align: "right" },
+              { key: "Agent", header: "Agent", minWidth: 10 },
+              { key: "Priority", header: "Prio", minWidth: 4, align: "right" },
+              { key: "Rule", header: "Rule", minWidth: 4 },
+              { key: "Status", header: "Status", minWidth: 8 },
+              { key: "Reason", header: "Reason", minWidth: 20, flex: true },
+            ],
+            rows: bindings.map((entry) => ({
+              Index: String(entry.index),
+              Agent: entry.agentId,
+              Priority: entry.priority === undefined ? "" : String(entry.priority),
+              Rule: entry.hasRule ? "yes" : "",
+              Status:
+                entry.status === "selected"
+                  ? theme.success("selected")
+                  : entry.status === "matched"
+                    ? theme.warn("matched")
+                    : theme.muted("skipped"),
+              Reason: entry.reason ?? "",
+            })),
+          }).trimEnd(),
+        );
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+}
@@ -1,12 +1,36 @@
 import type { Command } from "commander";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { QuarantineEntry } from "../security/quarantine.js";
+import type { SkillScanSeverity } from "../security/skill-scanner.js";
+import type { GatewayRpcOpts } from "./gateway-rpc.js";
 import { loadConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import { formatErrorMessage } from "../infra/errors.js";
 import { defaultRuntime } from "../runtime.js";
 import { runSecurityAudit } from "../security/audit.js";
 import { fixSecurityFootguns } from "../security/fix.js";
+import {
+  resolveDefaultSkillScanBaselinePath,
+  writeSkillScanBaseline,
+} from "../security/skill-scan-baseline.js";
+import { resolveSkillScanPolicy } from "../security/skill-scan-policy.js";
+import {
+  buildSkillScanJsonReport,
+  buildSkillScanSarifReport,
+  collectSkillScanTargets,
+  countSkillScanFindingsAtOrAbove,
+  type SkillScanTarget,
+  type SkillScanTargetResult,
+} from "../security/skill-scan-report.js";
+import { scanDirectoryWithSummary } from "../security/skill-scanner.js";
 import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
 import { isRich, theme } from "../terminal/theme.js";
-import { shortenHomeInString, shortenHomePath } from "../utils.js";
+import { resolveUserPath, shortenHomeInString, shortenHomePath } from "../utils.js";
 import { formatCliCommand } from "./command-format.js";
+import { addGatewayClientOptions, callGatewayFromCli } from "./gateway-rpc.js";
+import { parsePositiveIntOrUndefined } from "./program/helpers.js";
 
 type SecurityAuditOptions = {
   json?: boolean;
@@ -26,10 +50,296 @@ function formatSummary(summary: { critical: number; warn: number; info: number }
   return parts.join(" · ");
 }
 
+type QuarantineSummary = Omit<QuarantineEntry, "content"> & { preview: string };
+
+function formatTimestamp(ms: number): string {
+  return new Date(ms).toISOString().replace("T", " ").slice(0, 19);
+}
+
+export function formatQuarantineList(entries: QuarantineSummary[]): string {
+  if (entries.length === 0) {
+    return "Quarantine is empty.";
+  }
+  const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+  const statusColor = (status: QuarantineEntry["status"]) =>
+    status === "pending" ? theme.warn : status === "approved" ? theme.success : theme.muted;
+  return renderTable({
+    width: tableWidth,
+    columns: [
+      { key: "Id", header: "Id", minWidth: 8 },
+      { key: "Source", header: "Source", minWidth: 9 },
+      { key: "Status", header: "Status", minWidth: 9 },
+      { key: "Score", header: "Score", minWidth: 5, align: "right" },
+      { key: "Received", header: "Received", minWidth: 19 },
+      { key: "Preview", header: "Preview", minWidth: 20, flex: true },
+    ],
+    rows: entries.map((entry) => ({
+      Id: entry.id,
+      Source: entry.source,
+      Status: statusColor(entry.status)(entry.status),
+      Score: entry.score.toFixed(2),
+      Received: formatTimestamp(entry.createdAt),
+      Preview: `${entry.preview}\n${theme.muted(entry.signals.join(", "))}`,
+    })),
+  }).trimEnd();
+}
+
+function formatQuarantineEntry(entry: QuarantineEntry): string {
+  const fields: Array<[string, string | undefined]> = [
+    ["Source", entry.source],
+    ["Action", entry.action],
+    ["Status", entry.status],
+    ["Score", `${entry.score.toFixed(2)} (${entry.signals.join(", ")})`],
+    ["Received", formatTimestamp(entry.createdAt)],
+    ["Session", entry.sessionKey],
+    ["From", entry.sender],
+    ["Subject", entry.subject],
+    ["URL", entry.url],
+  ];
+  const lines = [`${theme.heading("Quarantine")} ${entry.id}`];
+  for (const [label, value] of fields) {
+    if (value) {
+      lines.push(`${theme.muted(`${label}:`)} ${value}`);
+    }
+  }
+  lines.push("", entry.content);
+  if (entry.truncated) {
+    lines.push(theme.muted("(content truncated)"));
+  }
+  return lines.join("\n");
+}
+
+function exitWithError(err: unknown) {
+  defaultRuntime.error(`${theme.error("Error:")} ${formatErrorMessage(err)}`);
+  defaultRuntime.exit(1);
+}
+
+function registerQuarantineCli(security: Command) {
+  const quarantine = security
+    .command("quarantine")
+    .description("Review external content withheld as likely prompt injection (via Gateway)");
+
+  addGatewayClientOptions(
+    quarantine
+      .command("list")
+      .description("List quarantined content (newest first)")
+      .option("--status <status>", "Filter by status (pending|approved|discarded)")
+      .option("--all", "Include resolved entries (default: pending only)", false)
+      .option("--limit <n>", "Max entries (default 50)", "50")
+      .option("--json", "Output JSON", false)
+      .action(async (opts: GatewayRpcOpts & Record<string, unknown>) => {
+        try {
+          const status =
+            typeof opts.status === "string" ? opts.status : opts.all ? undefined : "pending";
+          const res = (await callGatewayFromCli("security.quarantine.list", opts, {
+            limit: parsePositiveIntOrUndefined(opts.limit) ?? 50,
+            ...(status ? { status } : {}),
+          })) as { entries?: QuarantineSummary[] };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          defaultRuntime.log(formatQuarantineList(res?.entries ?? []));
+        } catch (err) {
+          exitWithError(err);
+        }
+      }),
+  );
+
+  addGatewayClientOptions(
+    quarantine
+      .command("show")
+      .description("Show one quarantined item, including its full content")
+      .argument("<id>", "Quarantine id")
+      .option("--json", "Output JSON", false)
+      .action(async (id: string, opts: GatewayRpcOpts) => {
+        try {
+          const res = (await callGatewayFromCli("security.quarantine.get", opts, { id })) as {
+            entry: QuarantineEntry;
+          };
+          defaultRuntime.log(
+            opts.json ? JSON.stringify(res, null, 2) : formatQuarantineEntry(res.entry),
+          );
+        } catch (err) {
+          exitWithError(err);
+        }
+      }),
+  );
+
+  for (const decision of ["approve", "discard"] as const) {
+    addGatewayClientOptions(
+      quarantine
+        .command(decision)
+        .description(
+          decision === "approve"
+            ? "Release an item (require-approval items are delivered to their session)"
+            : "Discard an item without delivering it",
+        )
+        .argument("<id>", "Quarantine id")
+        .option("--json", "Output JSON", false)
+        .action(async (id: string, opts: GatewayRpcOpts) => {
+          try {
+            const res = (await callGatewayFromCli("security.quarantine.resolve", opts, {
+              id,
+              decision,
+            })) as { entry: QuarantineSummary; delivered?: boolean };
+            if (opts.json) {
+              defaultRuntime.log(JSON.stringify(res, null, 2));
+              return;
+            }
+            const delivered = res.delivered ? ` (delivered to ${res.entry.sessionKey})` : "";
+            defaultRuntime.log(`${theme.success(res.entry.status)} ${res.entry.id}${delivered}`);
+          } catch (err) {
+            exitWithError(err);
+          }
+        }),
+    );
+  }
+}
+
+type ScanSkillsOptions = {
+  format?: string;
+  output?: string;
+  rules?: string[];
+  baseline?: string;
+  writeBaseline?: boolean;
+  reason?: string;
+  failOn?: string;
+};
+
+const SCAN_SEVERITIES = ["info", "warn", "critical"] as const;
+
+function formatScanSkillsText(results: SkillScanTargetResult[]): string {
+  const report = buildSkillScanJsonReport(results);
+  const lines = [
+    theme.heading("OpenClaw skill scan"),
+    theme.muted(
+      `Scanned ${report.summary.scannedFiles} file(s) in ${results.length} target(s): ${formatSummary(report.summary)}` +
+        (report.summary.suppressed > 0 ? ` · ${report.summary.suppressed} suppressed` : ""),
+    ),
+  ];
+  const label = (severity: SkillScanSeverity) =>
+    severity === "critical"
+      ? theme.error("CRITICAL")
+      : severity === "warn"
+        ? theme.warn("WARN")
+        : theme.muted("INFO");
+  for (const target of report.targets) {
+    if (target.findings.length === 0 && !target.error) {
+      continue;
+    }
+    lines.push("", `${theme.heading(target.scope)} ${theme.muted(`(${target.kind})`)}`);
+    if (target.error) {
+      lines.push(`  ${theme.warn("scan failed:")} ${target.error}`);
+    }
+    for (const finding of target.findings) {
+      lines.push(
+        `  ${label(finding.severity)} ${theme.muted(finding.ruleId)} ${finding.message} (${finding.path}:${finding.line})`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+function registerScanSkillsCli(security: Command) {
+  security
+    .command("scan-skills")
+    .description("Statically scan installed skills and plugins for dangerous code")
+    .argument("[paths...]", "Directories to scan (default: installed skills and plugins)")
+    .option("--format <format>", "Output format (text|json|sarif)", "text")
+    .option("--output <file>", "Write the report to a file instead of stdout")
+    .option("--rules <file...>", "Extra rule pack files (JSON or YAML)")
+    .option("--baseline <file>", "Suppression baseline (default: security.skillScan.baseline)")
+    .option("--write-baseline", "Accept all current findings into the baseline", false)
+    .option("--reason <text>", "Reason recorded with --write-baseline entries")
+    .option("--fail-on <severity>", "Exit 1 when findings at or above this severity remain")
+    .action(async (paths: string[], opts: ScanSkillsOptions) => {
+      try {
+        const format = opts.format ?? "text";
+        if (format !== "text" && format !== "json" && format !== "sarif") {
+          throw new Error(`--format must be text, json or sarif (got "${format}")`);
+        }
+        const failOn = opts.failOn as SkillScanSeverity | undefined;
+        if (failOn && !SCAN_SEVERITIES.includes(failOn)) {
+          throw new Error(`--fail-on must be one of ${SCAN_SEVERITIES.join(", ")}`);
+        }
+
+        const cfg = loadConfig();
+        const baselinePath =
+          opts.baseline ??
+          cfg.security?.skillScan?.baseline ??
+          resolveDefaultSkillScanBaselinePath();
+        const policy = await resolveSkillScanPolicy(cfg, {
+          rulePacks: opts.rules,
+          baseline: baselinePath,
+        });
+        const targets: SkillScanTarget[] =
+          paths.length > 0
+            ? paths.map((entry) => {
+                const rootDir = path.resolve(resolveUserPath(entry));
+                return { kind: "path", scope: path.basename(rootDir), rootDir };
+              })
+            : await collectSkillScanTargets({ cfg, stateDir: resolveStateDir() });
+
+        const results: SkillScanTargetResult[] = [];
+        for (const target of targets) {
+          try {
+            const summary = await scanDirectoryWithSummary(target.rootDir, {
+              includeFiles: target.includeFiles,
+              rules: policy.rules,
+              baseline: opts.writeBaseline ? undefined : (policy.baseline ?? undefined),
+              baselineScope: target.scope,
+            });
+            results.push({ ...target, summary });
+          } catch (err) {
+            results.push({ ...target, error: formatErrorMessage(err) });
+          }
+        }
+
+        if (opts.writeBaseline) {
+          const baseline = await writeSkillScanBaseline({
+            filePath: baselinePath,
+            entries: results.flatMap((result) =>
+              (result.summary?.findings ?? []).map((finding) => ({
+                finding,
+                rootDir: result.rootDir,
+                scope: result.scope,
+              })),
+            ),
+            reason: opts.reason,
+          });
+          defaultRuntime.log(
+            `Wrote ${baseline.suppressions.length} suppression(s) to ${shortenHomePath(baselinePath)}`,
+          );
+          return;
+        }
+
+        const output =
+          format === "json"
+            ? JSON.stringify(buildSkillScanJsonReport(results), null, 2)
+            : format === "sarif"
+              ? JSON.stringify(buildSkillScanSarifReport(results, process.cwd()), null, 2)
+              : formatScanSkillsText(results);
+        if (opts.output) {
+          await fs.writeFile(resolveUserPath(opts.output), `${output}\n`, "utf-8");
+          defaultRuntime.log(`Wrote ${format} report to ${shortenHomePath(opts.output)}`);
+        } else {
+          defaultRuntime.log(output);
+        }
+
+        if (failOn && countSkillScanFindingsAtOrAbove(results, failOn) > 0) {
+          defaultRuntime.exit(1);
+        }
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+}
+
 export function registerSecurityCli(program: Command) {
   const security = program
     .command("security")
-    .description("Security tools (audit)")
+    .description("Security tools (audit, skill scanning, quarantine)")
     .addHelpText(
       "after",
       () =>
@@ -155,4 +465,7 @@ export function registerSecurityCli(program: Command) {
 
       defaultRuntime.log(lines.join("\n"));
     });
+
+  registerScanSkillsCli(security);
+  registerQuarantineCli(security);
 }
@@ -0,0 +1,295 @@
+import type { Command } from "commander";
+import fs from "node:fs";
+import path from "node:path";
+import type { NamedWorkflowDefinition, WorkflowRunSummary } from "../workflows/types.js";
+import type { GatewayRpcOpts } from "./gateway-rpc.js";
+import { loadConfig } from "../config/config.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { resolveUserPath, shortenHomePath } from "../utils.js";
+import {
+  loadWorkflowFile,
+  loadWorkflowLibrary,
+  type WorkflowLibraryError,
+} from "../workflows/library.js";
+import { formatCliCommand } from "./command-format.js";
+import { addGatewayClientOptions, callGatewayFromCli } from "./gateway-rpc.js";
+import {
+  collectOption,
+  parseKeyValueOptions,
+  parsePositiveIntOrUndefined,
+} from "./program/helpers.js";
+
+const RUN_POLL_INTERVAL_MS = 2_000;
+
+type WorkflowRunResponse = { ok?: boolean; run?: WorkflowRunSummary };
+type WorkflowStatusResponse = { run?: WorkflowRunSummary };
+
+function formatParams(workflow: NamedWorkflowDefinition): string {
+  return Object.entries(workflow.params)
+    .map(([name, spec]) => (spec.required ? `${name}*` : name))
+    .join(", ");
+}
+
+function formatSource(workflow: NamedWorkflowDefinition): string {
+  return workflow.path ? shortenHomePath(workflow.path) : workflow.source;
+}
+
+function formatLibraryError(error: WorkflowLibraryError): string {
+  const where = error.path ? shortenHomePath(error.path) : `workflows.definitions.${error.name}`;
+  return `${where}: ${error.error}`;
+}
+
+export function formatWorkflowList(
+  workflows: NamedWorkflowDefinition[],
+  errors: WorkflowLibraryError[],
+): string {
+  const lines: string[] = [];
+  if (workflows.length === 0) {
+    lines.push("No workflows found.");
+  } else {
+    const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+    lines.push(`${theme.heading("Workflows")} ${theme.muted(`(${workflows.length})`)}`);
+    lines.push(
+      renderTable({
+        width: tableWidth,
+        columns: [
+          { key: "Name", header: "Name", minWidth: 14, flex: true },
+          { key: "Pattern", header: "Pattern", minWidth: 10 },
+          { key: "Steps", header: "Steps", minWidth: 5, align: "right" },
+          { key: "Params", header: "Params", minWidth: 12, flex: true },
+          { key: "Source", header: "Source", minWidth: 14, flex: true },
+        ],
+        rows: workflows.map((workflow) => ({
+          Name: workflow.description
+            ? `${workflow.name}\n${theme.muted(workflow.description)}`
+            : workflow.name,
+          Pattern: workflow.definition.pattern,
+          Steps: String(workflow.definition.steps.length),
+          Params: formatParams(workflow),
+          Source: theme.muted(formatSource(workflow)),
+        })),
+      }).trimEnd(),
+    );
+  }
+  if (errors.length > 0) {
+    lines.push("");
+    lines.push(theme.warn(`Invalid definitions (${errors.length}):`));
+    for (const error of errors) {
+      lines.push(`  ${theme.warn("-")} ${formatLibraryError(error)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export function formatWorkflowHistory(runs: WorkflowRunSummary[]): string {
+  if (runs.length === 0) {
+    return "No workflow runs.";
+  }
+  const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+  const statusColor = (status: WorkflowRunSummary["status"]) =>
+    status === "succeeded"
+      ? theme.success
+      : status === "failed"
+        ? theme.error
+        : status === "running"
+          ? theme.warn
+          : theme.muted;
+  return renderTable({
+    width: tableWidth,
+    columns: [
+      { key: "Run", header: "Run", minWidth: 12 },
+      { key: "Workflow", header: "Workflow", minWidth: 14, flex: true },
+      { key: "Status", header: "Status", minWidth: 10 },
+      { key: "Steps", header: "Steps", minWidth: 7 },
+      { key: "Updated", header: "Updated", minWidth: 20 },
+    ],
+    rows: runs.map((run) => ({
+      Run: run.runId.slice(0, 8),
+      Workflow: run.workflowName ?? run.label,
+      Status: statusColor(run.status)(
+        run.waitingApproval ? `${run.status} (approval)` : run.status,
+      ),
+      Steps: `${run.counts.succeeded ?? 0}/${run.totalSteps}`,
+      Updated: new Date(run.updatedAtMs).toISOString().replace("T", " ").slice(0, 19),
+    })),
+  }).trimEnd();
+}
+
+async function waitForWorkflowRun(
+  runId: string,
+  opts: GatewayRpcOpts,
+): Promise<WorkflowRunSummary | undefined> {
+  for (;;) {
+    const res = (await callGatewayFromCli(
+      "workflow.status",
+      opts,
+      { runId },
+      { progress: false },
+    )) as WorkflowStatusResponse;
+    if (res?.run?.status !== "running") {
+      return res?.run;
+    }
+    await new Promise((resolve) => setTimeout(resolve, RUN_POLL_INTERVAL_MS));
+  }
+}
+
+function exitWithError(err: unknown) {
+  defaultRuntime.error(
+    `${theme.error("Error:")} ${err instanceof Error ? err.message : String(err)}`,
+  );
+  defaultRuntime.exit(1);
+}
+
+export function registerWorkflowCli(program: Command) {
+  const workflow = program
+    .command("workflow")
+    .description("Run and manage stored workflow definitions")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/workflow", "docs.openclaw.ai/cli/workflow")}\n`,
+    );
+
+  workflow
+    .command("list")
+    .description("List workflow definitions (workspace + config)")
+    .option("--agent <id>", "Agent whose workspace to scan (default: default agent)")
+    .option("--json", "Output JSON", false)
+    .action(async (opts) => {
+      try {
+        const library = await loadWorkflowLibrary({ cfg: loadConfig(), agentId: opts.agent });
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(library, null, 2));
+          return;
+        }
+        defaultRuntime.log(formatWorkflowList(library.workflows, library.errors));
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+
+  workflow
+    .command("validate")
+    .description("Validate workflow definitions (all, one name, or a file path)")
+    .argument("[target]", "Workflow name or path to a YAML/JSON file")
+    .option("--agent <id>", "Agent whose workspace to scan (default: default agent)")
+    .option("--json", "Output JSON", false)
+    .action(async (target: string | undefined, opts) => {
+      try {
+        const filePath = target ? resolveUserPath(target) : "";
+        let workflows: NamedWorkflowDefinition[];
+        let errors: WorkflowLibraryError[];
+        if (target && fs.existsSync(filePath) && path.extname(filePath)) {
+          const result = await loadWorkflowFile(filePath);
+          workflows = result.ok ? [result.workflow] : [];
+          errors = result.ok ? [] : [{ source: "path", path: filePath, error: result.error }];
+        } else {
+          const library = await loadWorkflowLibrary({ cfg: loadConfig(), agentId: opts.agent });
+          workflows = target
+            ? library.workflows.filter((entry) => entry.name === target)
+            : library.workflows;
+          errors = target
+            ? library.errors.filter(
+                (entry) =>
+                  entry.name === target ||
+                  (entry.path && path.basename(entry.path, path.extname(entry.path)) === target),
+              )
+            : library.errors;
+          if (target && workflows.length === 0 && errors.length === 0) {
+            throw new Error(
+              `workflow "${target}" not found (see ${formatCliCommand("openclaw workflow list")})`,
+            );
+          }
+        }
+        if (opts.json) {
+          defaultRuntime.log(
+            JSON.stringify(
+              { ok: errors.length === 0, valid: workflows.map((entry) => entry.name), errors },
+              null,
+              2,
+            ),
+          );
+        } else {
+          for (const entry of workflows) {
+            defaultRuntime.log(`${theme.success("ok")} ${entry.name}`);
+          }
+          for (const error of errors) {
+            defaultRuntime.log(`${theme.error("invalid")} ${formatLibraryError(error)}`);
+          }
+        }
+        if (errors.length > 0) {
+          defaultRuntime.exit(1);
+        }
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+
+  addGatewayClientOptions(
+    workflow
+      .command("run")
+      .description("Start a stored workflow (via Gateway)")
+      .argument("<name>", "Workflow name")
+      .option("--param <key=value>", "Workflow param (repeatable)", collectOption)
+      .option("--agent <id>", "Agent to run the workflow as")
+      .option("--session-key <key>", "Requester session key (default: agent main session)")
+      .option("--wait", "Wait for the run to finish", false)
+      .option("--json", "Output JSON", false)
+      .action(async (name: string, opts: GatewayRpcOpts & Record<string, unknown>) => {
+        try {
+          const params = parseKeyValueOptions(opts.param, "--param");
+          const res = (await callGatewayFromCli("workflow.run", opts, {
+            name,
+            ...(Object.keys(params).length > 0 ? { params } : {}),
+            ...(typeof opts.agent === "string" ? { agentId: opts.agent } : {}),
+            ...(typeof opts.sessionKey === "string" ? { sessionKey: opts.sessionKey } : {}),
+          })) as WorkflowRunResponse;
+          const started = res?.run;
+          const run =
+            opts.wait && started ? await waitForWorkflowRun(started.runId, opts) : started;
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify({ run }, null, 2));
+          } else if (run) {
+            defaultRuntime.log(
+              `${theme.heading("Workflow")} ${run.workflowName ?? run.label} ${theme.muted(run.runId)}: ${run.status}${run.error ? ` (${run.error})` : ""}`,
+            );
+          }
+          if (opts.wait && run && run.status !== "succeeded") {
+            defaultRuntime.exit(1);
+          }
+        } catch (err) {
+          exitWithError(err);
+        }
+      }),
+  );
+
+  addGatewayClientOptions(
+    workflow
+      .command("history")
+      .description("Show recent workflow runs (via Gateway)")
+      .argument("[name]", "Only runs of this workflow")
+      .option("--status <status>", "Filter by status (running|succeeded|failed|cancelled)")
+      .option("--limit <n>", "Max runs (default 20)", "20")
+      .option("--json", "Output JSON", false)
+      .action(async (name: string | undefined, opts: GatewayRpcOpts & Record<string, unknown>) => {
+        try {
+          const limit = parsePositiveIntOrUndefined(opts.limit) ?? 20;
+          const res = (await callGatewayFromCli("workflow.list", opts, {
+            limit,
+            ...(name ? { workflow: name } : {}),
+            ...(typeof opts.status === "string" ? { status: opts.status } : {}),
+          })) as { runs?: WorkflowRunSummary[] };
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          defaultRuntime.log(formatWorkflowHistory(res?.runs ?? []));
+        } catch (err) {
+          exitWithError(err);
+        }
+      }),
+  );
+}
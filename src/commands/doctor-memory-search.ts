@@ -4,6 +4,7 @@ import { resolveAgentDir, resolveDefaultAgentId } from "../agents/agent-scope.js
 import { resolveMemorySearchConfig } from "../agents/memory-search.js";
 import { resolveApiKeyForProvider } from "../agents/model-auth.js";
 import { formatCliCommand } from "../cli/command-format.js";
+import { resolveDefaultOnnxModelDir } from "../memory/embeddings-onnx.js";
 import { note } from "../terminal/note.js";
 import { resolveUserPath } from "../utils.js";
 
@@ -42,6 +43,25 @@ export async function noteMemorySearchHealth(cfg: OpenClawConfig): Promise<void>
       );
       return;
     }
+    if (resolved.provider === "onnx") {
+      if (hasOnnxModel(resolved.onnx)) {
+        return;
+      }
+      note(
+        [
+          'Memory search provider is set to "onnx" but no ONNX model was found.',
+          "",
+          "Fix (pick one):",
+          `- Put a sentence-transformers ONNX export (model.onnx + tokenizer.json) in ${resolveDefaultOnnxModelDir()}`,
+          "- Set agents.defaults.memorySearch.onnx.modelPath to the model directory",
+          "- Install onnxruntime-node if it is missing: npm i -g onnxruntime-node",
+          "",
+          `Verify: ${formatCliCommand("openclaw memory status --deep")}`,
+        ].join("\n"),
+        "Memory search",
+      );
+      return;
+    }
     // Remote provider — check for API key
     if (hasRemoteApiKey || (await hasApiKeyForProvider(resolved.provider, cfg, agentDir))) {
       return;
@@ -68,6 +88,9 @@ export async function noteMemorySearchHealth(cfg: OpenClawConfig): Promise<void>
   if (hasLocalEmbeddings(resolved.local)) {
     return;
   }
+  if (resolved.onnx?.modelPath?.trim() && hasOnnxModel(resolved.onnx)) {
+    return;
+  }
   for (const provider of ["openai", "gemini", "voyage"] as const) {
     if (hasRemoteApiKey || (await hasApiKeyForProvider(provider, cfg, agentDir))) {
       return;
@@ -91,6 +114,11 @@ export async function noteMemorySearchHealth(cfg: OpenClawConfig): Promise<void>
   );
 }
 
+function hasOnnxModel(onnx: { modelPath?: string }): boolean {
+  const modelPath = onnx.modelPath?.trim() || resolveDefaultOnnxModelDir();
+  return fsSync.existsSync(resolveUserPath(modelPath));
+}
+
 function hasLocalEmbeddings(local: { modelPath?: string }): boolean {
   const modelPath = local.modelPath?.trim();
   if (!modelPath) {
@@ -17,6 +17,14 @@ export const FIELD_HELP: Record<string, string> = {
     "Optional allowlist of skills for this agent (omit = all skills; empty = no skills).",
   "agents.list[].identity.avatar":
     "Avatar image path (relative to the agent workspace only) or a remote URL/data URL.",
+  "agents.list[].description":
+    "What this agent handles; shown to the intent router when it picks an agent.",
+  "agents.router.enabled":
+    "Let a small model pick the agent when only a channel-wide binding or the default agent matched.",
+  "agents.router.model":
+    "Classifier model (provider/model or alias; default: the default agent's model).",
+  "agents.router.minConfidence":
+    "Minimum classifier confidence (0-1) to override the static route (default: 0.6).",
   "discovery.mdns.mode":
     'mDNS broadcast mode ("minimal" default, "full" includes cliPath/sshPort, "off" disables mDNS).',
   "gateway.auth.token":
@@ -34,6 +42,12 @@ export const FIELD_HELP: Record<string, string> = {
     "DANGEROUS. Disable Control UI device identity checks (token/password only).",
   "gateway.http.endpoints.chatCompletions.enabled":
     "Enable the OpenAI-compatible `POST /v1/chat/completions` endpoint (default: false).",
+  "gateway.http.endpoints.models.enabled":
+    "Serve `GET /v1/models` listing agents and catalog models (default: on when chat completions or responses are enabled).",
+  "gateway.http.endpoints.embeddings.enabled":
+    "Enable the OpenAI-compatible `POST /v1/embeddings` endpoint backed by the agent's memory search embedding provider (default: false).",
+  "gateway.http.endpoints.embeddings.maxInputs":
+    "Max inputs per `/v1/embeddings` request (default: 256).",
   "gateway.reload.mode": 'Hot reload strategy for config changes ("hybrid" recommended).',
   "gateway.reload.debounceMs": "Debounce window (ms) before applying config changes.",
   "gateway.nodes.browser.mode":
@@ -71,6 +85,8 @@ export const FIELD_HELP: Record<string, string> = {
     "Allow stdin-only safe binaries to run without explicit allowlist entries.",
   "tools.fs.workspaceOnly":
     "Restrict filesystem tools (read/write/edit/apply_patch) to the workspace directory (default: false).",
+  "tools.rules":
+    "Declarative rules evaluated before every tool call: match on tool, agent, channel, sender, sandbox state, exec command, file path, URL host or arguments, then allow, deny, require-approval or redact the result. First match wins; test with `openclaw policy test`.",
   "tools.sessions.visibility":
     'Controls which sessions can be targeted by sessions_list/sessions_history/sessions_send. ("tree" default = current session + spawned subagent sessions; "self" = only current; "agent" = any session in the current agent id; "all" = any session; cross-agent still requires tools.agentToAgent).',
   "tools.message.allowCrossContextSend":
@@ -157,13 +173,15 @@ export const FIELD_HELP: Record<string, string> = {
   "agents.defaults.memorySearch":
     "Vector search over MEMORY.md and memory/*.md (per-agent overrides supported).",
   "agents.defaults.memorySearch.sources":
-    'Sources to index for memory search (default: ["memory"]; add "sessions" to include session transcripts).',
+    'Sources to index for memory search (default: ["memory"]; add "sessions" to include session transcripts, "knowledge" to include knowledge_store entries).',
+  "agents.defaults.memorySearch.knowledge.categories":
+    'knowledge_store categories to index when sources includes "knowledge" (default: all categories).',
   "agents.defaults.memorySearch.extraPaths":
     "Extra paths to include in memory search (directories or .md files; relative paths resolved from workspace).",
   "agents.defaults.memorySearch.experimental.sessionMemory":
     "Enable experimental session transcript indexing for memory search (default: false).",
   "agents.defaults.memorySearch.provider":
-    'Embedding provider ("openai", "gemini", "voyage", or "local").',
+    'Embedding provider ("openai", "gemini", "voyage", "local", or "onnx").',
   "agents.defaults.memorySearch.remote.baseUrl":
     "Custom base URL for remote embeddings (OpenAI-compatible proxies or Gemini overrides).",
   "agents.defaults.memorySearch.remote.apiKey": "Custom API key for the remote embedding provider.",
@@ -181,8 +199,17 @@ export const FIELD_HELP: Record<string, string> = {
     "Timeout in minutes for batch indexing (default: 60).",
   "agents.defaults.memorySearch.local.modelPath":
     "Local GGUF model path or hf: URI (node-llama-cpp).",
+  "agents.defaults.memorySearch.onnx.modelPath":
+    "ONNX sentence-transformer directory (model.onnx + tokenizer.json) or .onnx file (default: ~/.openclaw/models/embeddings/all-MiniLM-L6-v2).",
+  "agents.defaults.memorySearch.onnx.pooling":
+    'Token pooling for ONNX embeddings ("mean" or "cls"; default: from the model config, else mean).',
+  "agents.defaults.memorySearch.onnx.maxSequenceLength":
+    "Max tokens per ONNX embedding input (default: from the model config, else 256).",
+  "agents.defaults.memorySearch.onnx.batchSize": "Texts per ONNX inference run (default: 16).",
+  "agents.defaults.memorySearch.onnx.threads":
+    "CPU threads for ONNX inference (default: chosen by onnxruntime).",
   "agents.defaults.memorySearch.fallback":
-    'Fallback provider when embeddings fail ("openai", "gemini", "local", or "none").',
+    'Fallback provider when embeddings fail ("openai", "gemini", "local", "onnx", or "none").',
   "agents.defaults.memorySearch.store.path":
     "SQLite index path (default: ~/.openclaw/memory/{agentId}.sqlite).",
   "agents.defaults.memorySearch.store.vector.enabled":
@@ -236,6 +263,52 @@ export const FIELD_HELP: Record<string, string> = {
   "memory.qmd.limits.timeoutMs": "Per-query timeout for QMD searches (default: 4000).",
   "memory.qmd.scope":
     "Session/channel scope for QMD recall (same syntax as session.sendPolicy; default: direct-only). Use match.rawKeyPrefix to match full agent-prefixed session keys.",
+  "workflows.paths":
+    "Extra directories or files with YAML/JSON workflow definitions (in addition to <workspace>/workflows).",
+  "workflows.definitions":
+    "Inline workflow definitions keyed by name (same shape as workflow files; workspace files win on name clashes).",
+  "taskQueue.enabled":
+    "Run task queue workers in the gateway (default: true when workers are configured).",
+  "taskQueue.workers":
+    "Gateway workers that drain task_queue queues with isolated agent runs (queue, agentId, concurrency, leaseSeconds, retryDelaySeconds, prompt).",
+  "budgets.enabled":
+    "Check spend budgets before every embedded model call (default: true when any limit is configured).",
+  "budgets.warnAt":
+    "Fraction of a budget limit that triggers a one-time soft warning per period (default: 0.8; 0 disables warnings).",
+  "budgets.stopMessage":
+    'Reply sent when a hard stop blocks a run; supports {scope}, {period} and {limit} placeholders (default: "Usage budget reached for {scope} ({period}). Try again later.").',
+  "budgets.notify":
+    "Channel target that receives soft warnings and hard stops (channel, to, accountId); budget events are always logged.",
+  "budgets.agents":
+    'Daily/monthly token and USD limits per agent id (dailyTokens, monthlyTokens, dailyUsd, monthlyUsd); "*" applies to every agent separately.',
+  "budgets.senders":
+    'Limits per sender id (channel user id or E.164 number); "*" applies to every sender separately.',
+  "budgets.channels":
+    'Limits per channel ("telegram") or channel account ("telegram:work"); "*" applies to every channel separately.',
+  "budgets.cronJobs": 'Limits per cron job id; "*" applies to every cron job separately.',
+  "security.injection.enabled":
+    "Score untrusted content (email/webhook hooks, web_fetch, link understanding, inbound channel messages) for prompt injection and apply per-source actions (default: false; suspicious patterns are only logged).",
+  "security.injection.threshold":
+    "Injection score (0-1) at or above which the source action applies (default: 0.5).",
+  "security.injection.actions":
+    'Action per source (email, webhook, web_fetch, link, channel): "off", "annotate" (default), "strip", "require-approval" or "quarantine". Withheld content is reviewed with `openclaw security quarantine`.',
+  "security.injection.classifier":
+    'Optional classifier consulted after the regex/heuristic pass: provider "model" (a local or hosted model via agents config) or "http" (POST { text, source } -> { score }).',
+  "security.audit.enabled":
+    "Rerun the security audit inside the gateway on startup, config reloads and a schedule, keeping history (default: true).",
+  "security.audit.intervalMinutes":
+    "Whole minutes between scheduled security audits, up to 35000 (default: 360; 0 = startup and config reloads only).",
+  "security.audit.historyLimit": "Security audit runs kept in history (default: 50).",
+  "security.audit.alert":
+    "Announce findings that are new since the previous audit run to a channel target (channel, to, accountId, minSeverity: critical|warn; default critical).",
+  "security.skillScan.rulePacks":
+    "Extra skill scanner rule packs (JSON/YAML files with regex, call and import rules for JS/TS, Python and shell).",
+  "security.skillScan.baseline":
+    "Suppression baseline for skill/plugin scan findings (default: ~/.openclaw/security/skill-scan-baseline.json when present).",
+  "security.skillScan.blockCritical":
+    "Block skill and plugin installs with critical scan findings unless the install is explicitly overridden (default: true).",
+  "security.injection.classifier.minScore":
+    "Only call the classifier when the rule/heuristic score reaches this value (default: 0.15; 0 = every message).",
   "agents.defaults.memorySearch.cache.maxEntries":
     "Optional cap on cached embeddings (best-effort).",
   "agents.defaults.memorySearch.sync.onSearch":
@@ -255,6 +328,8 @@ export const FIELD_HELP: Record<string, string> = {
   "plugins.entries": "Per-plugin settings keyed by plugin id (enable/disable + config payloads).",
   "plugins.entries.*.enabled": "Overrides plugin enable/disable for this entry (restart required).",
   "plugins.entries.*.config": "Plugin-defined config payload (schema is provided by the plugin).",
+  "plugins.entries.*.sandbox":
+    "Run this plugin in an isolated host process that only exposes the API surfaces declared in its manifest (tools, hooks, commands) plus the grants approved at install (restart required).",
   "plugins.installs":
     "CLI-managed install metadata (used by `openclaw plugins update` to locate install sources).",
   "plugins.installs.*.source": 'Install source ("npm", "archive", or "path").',
@@ -264,6 +339,13 @@ export const FIELD_HELP: Record<string, string> = {
     "Resolved install directory (usually ~/.openclaw/extensions/<id>).",
   "plugins.installs.*.version": "Version recorded at install time (if available).",
   "plugins.installs.*.installedAt": "ISO timestamp of last install/update.",
+  "plugins.installs.*.grants":
+    "Sandbox grants approved at install time (`openclaw plugins install --sandbox`).",
+  "plugins.installs.*.grants.fs.read": "Extra paths the sandboxed plugin may read.",
+  "plugins.installs.*.grants.fs.write": "Extra paths the sandboxed plugin may write.",
+  "plugins.installs.*.grants.network":
+    'Hosts the sandboxed plugin may connect to ("api.example.com", "*.example.com", or "*").',
+  "plugins.installs.*.grants.approvedAt": "ISO timestamp when the grants were approved.",
   "agents.list.*.identity.avatar":
     "Agent avatar (workspace-relative path, http(s) URL, or data URI).",
   "agents.defaults.model.primary": "Primary model (provider/model).",
@@ -325,6 +407,8 @@ export const FIELD_HELP: Record<string, string> = {
     'Override native skill commands for Slack (bool or "auto").',
   "session.agentToAgent.maxPingPongTurns":
     "Max reply-back turns between requester and target (0–5).",
+  "session.templates":
+    "Named session presets (model, thinking, system prompt, tool allow/deny, skills, sandbox mode, elevated level, extra bootstrap files). Referenced by sessions_spawn, workflow steps and session_template; use extends to inherit from other templates.",
   "channels.telegram.customCommands":
     "Additional Telegram bot menu commands (merged with native; conflicts ignored).",
   "messages.suppressToolErrors":
@@ -66,6 +66,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "tools.links.scope": "Link Understanding Scope",
   "tools.profile": "Tool Profile",
   "tools.alsoAllow": "Tool Allowlist Additions",
+  "tools.rules": "Tool Policy Rules",
   "agents.list[].tools.profile": "Agent Tool Profile",
   "agents.list[].tools.alsoAllow": "Agent Tool Allowlist Additions",
   "tools.byProvider": "Tool Policy by Provider",
@@ -109,6 +110,9 @@ export const FIELD_LABELS: Record<string, string> = {
   "gateway.controlUi.allowInsecureAuth": "Allow Insecure Control UI Auth",
   "gateway.controlUi.dangerouslyDisableDeviceAuth": "Dangerously Disable Control UI Device Auth",
   "gateway.http.endpoints.chatCompletions.enabled": "OpenAI Chat Completions Endpoint",
+  "gateway.http.endpoints.models.enabled": "OpenAI Models Endpoint",
+  "gateway.http.endpoints.embeddings.enabled": "OpenAI Embeddings Endpoint",
+  "gateway.http.endpoints.embeddings.maxInputs": "Embeddings Max Inputs",
   "gateway.reload.mode": "Config Reload Mode",
   "gateway.reload.debounceMs": "Config Reload Debounce (ms)",
   "gateway.nodes.browser.mode": "Gateway Node Browser Mode",
@@ -130,6 +134,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.enabled": "Enable Memory Search",
   "agents.defaults.memorySearch.sources": "Memory Search Sources",
   "agents.defaults.memorySearch.extraPaths": "Extra Memory Paths",
+  "agents.defaults.memorySearch.knowledge.categories": "Memory Search Knowledge Categories",
   "agents.defaults.memorySearch.experimental.sessionMemory":
     "Memory Search Session Index (Experimental)",
   "agents.defaults.memorySearch.provider": "Memory Search Provider",
@@ -140,6 +145,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.model": "Memory Search Model",
   "agents.defaults.memorySearch.fallback": "Memory Search Fallback",
   "agents.defaults.memorySearch.local.modelPath": "Local Embedding Model Path",
+  "agents.defaults.memorySearch.onnx.modelPath": "ONNX Embedding Model Path",
   "agents.defaults.memorySearch.store.path": "Memory Search Index Path",
   "agents.defaults.memorySearch.store.vector.enabled": "Memory Search Vector Index",
   "agents.defaults.memorySearch.store.vector.extensionPath": "Memory Search Vector Extension Path",
@@ -185,6 +191,30 @@ export const FIELD_LABELS: Record<string, string> = {
   "memory.qmd.limits.maxInjectedChars": "QMD Max Injected Chars",
   "memory.qmd.limits.timeoutMs": "QMD Search Timeout (ms)",
   "memory.qmd.scope": "QMD Surface Scope",
+  "workflows.paths": "Workflow Definition Paths",
+  "workflows.definitions": "Workflow Definitions",
+  "taskQueue.enabled": "Task Queue Workers Enabled",
+  "taskQueue.workers": "Task Queue Workers",
+  "budgets.enabled": "Spend Budgets Enabled",
+  "budgets.warnAt": "Budget Warning Threshold",
+  "budgets.stopMessage": "Budget Stop Message",
+  "budgets.notify": "Budget Notifications",
+  "budgets.agents": "Agent Budgets",
+  "budgets.senders": "Sender Budgets",
+  "budgets.channels": "Channel Budgets",
+  "budgets.cronJobs": "Cron Job Budgets",
+  "security.injection.enabled": "Prompt Injection Scanning",
+  "security.injection.threshold": "Prompt Injection Threshold",
+  "security.injection.actions": "Prompt Injection Actions",
+  "security.injection.classifier": "Prompt Injection Classifier",
+  "security.injection.classifier.minScore": "Classifier Min Score",
+  "security.audit.enabled": "Security Audit Monitor",
+  "security.audit.intervalMinutes": "Security Audit Interval (min)",
+  "security.audit.historyLimit": "Security Audit History Limit",
+  "security.audit.alert": "Security Audit Alert Target",
+  "security.skillScan.rulePacks": "Skill Scan Rule Packs",
+  "security.skillScan.baseline": "Skill Scan Baseline",
+  "security.skillScan.blockCritical": "Block Critical Skill/Plugin Installs",
   "auth.profiles": "Auth Profiles",
   "auth.order": "Auth Profile Order",
   "auth.cooldowns.billingBackoffHours": "Billing Backoff (hours)",
@@ -220,6 +250,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "browser.remoteCdpHandshakeTimeoutMs": "Remote CDP Handshake Timeout (ms)",
   "session.dmScope": "DM Session Scope",
   "session.agentToAgent.maxPingPongTurns": "Agent-to-Agent Ping-Pong Turns",
+  "session.templates": "Session Templates",
   "messages.suppressToolErrors": "Suppress Tool Error Warnings",
   "messages.ackReaction": "Ack Reaction Emoji",
   "messages.ackReactionScope": "Ack Reaction Scope",
@@ -301,6 +332,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "plugins.entries": "Plugin Entries",
   "plugins.entries.*.enabled": "Plugin Enabled",
   "plugins.entries.*.config": "Plugin Config",
+  "plugins.entries.*.sandbox": "Plugin Sandbox",
   "plugins.installs": "Plugin Install Records",
   "plugins.installs.*.source": "Plugin Install Source",
   "plugins.installs.*.spec": "Plugin Install Spec",
@@ -308,4 +340,9 @@ export const FIELD_LABELS: Record<string, string> = {
   "plugins.installs.*.installPath": "Plugin Install Path",
   "plugins.installs.*.version": "Plugin Install Version",
   "plugins.installs.*.installedAt": "Plugin Install Time",
+  "plugins.installs.*.grants": "Plugin Sandbox Grants",
+  "plugins.installs.*.grants.fs.read": "Sandbox Read Paths",
+  "plugins.installs.*.grants.fs.write": "Sandbox Write Paths",
+  "plugins.installs.*.grants.network": "Sandbox Network Hosts",
+  "plugins.installs.*.grants.approvedAt": "Sandbox Grants Approved At",
 };
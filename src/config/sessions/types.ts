@@ -22,6 +22,19 @@ export type SessionOrigin = {
   threadId?: string | number;
 };
 
+/** Intent-router outcome recorded on the session it routed to (agents.router). */
+export type SessionRouteDecision = {
+  /** Agent chosen by the classifier, or the static agent on fallback. */
+  agentId: string;
+  /** Agent the static bindings would have picked. */
+  staticAgentId: string;
+  outcome: "routed" | "cached" | "fallback";
+  confidence?: number;
+  reason?: string;
+  model?: string;
+  decidedAt: number;
+};
+
 export type SessionEntry = {
   /**
    * Last delivered heartbeat payload (used to suppress duplicate heartbeat notifications).
@@ -37,6 +50,10 @@ export type SessionEntry = {
   spawnedBy?: string;
   /** Subagent spawn depth (0 = main, 1 = sub-agent, 2 = sub-sub-agent). */
   spawnDepth?: number;
+  /** Session template (session.templates) applied to this session. */
+  template?: string;
+  /** Last intent-router decision that led to this session. */
+  routeDecision?: SessionRouteDecision;
   systemSent?: boolean;
   abortedLastRun?: boolean;
   chatType?: SessionChatType;
@@ -22,6 +22,8 @@ export type AgentConfig = {
   id: string;
   default?: boolean;
   name?: string;
+  /** What this agent handles; shown to the intent router (agents.router). */
+  description?: string;
   workspace?: string;
   agentDir?: string;
   model?: AgentModelConfig;
@@ -65,13 +67,68 @@ export type AgentConfig = {
   tools?: AgentToolsConfig;
 };
 
+/**
+ * Optional model-based routing for messages that only match a channel-wide
+ * binding (or none): a small model picks among candidate agents.
+ */
+export type AgentRouterConfig = {
+  enabled?: boolean;
+  /** Classifier model (provider/model or alias). Default: the default agent's model. */
+  model?: string;
+  /** Agent ids the router may choose from (default: every agent in agents.list). */
+  candidates?: string[];
+  /** Limit the router to these channels (default: all). */
+  channels?: string[];
+  /** Chat types the router runs for (default: ["direct"]). */
+  chatTypes?: ChatType[];
+  /** Minimum confidence (0-1) to override the static route (default: 0.6). */
+  minConfidence?: number;
+  /** Reuse a confident decision for the same peer for this long (default: 30; 0 disables). */
+  cacheTtlMinutes?: number;
+  /** Classifier timeout (default: 8000). */
+  timeoutMs?: number;
+};
+
 export type AgentsConfig = {
   defaults?: AgentDefaultsConfig;
   list?: AgentConfig[];
+  router?: AgentRouterConfig;
+};
+
+/**
+ * Content-based routing rule for a binding. Every condition that is set must
+ * match; bindings with a rule are checked before peer/guild/account bindings.
+ */
+export type AgentBindingRule = {
+  /** Match when the message contains any of these words or phrases (case-insensitive). */
+  keywords?: string[];
+  /** JavaScript regular expression tested against the message text. */
+  regex?: string;
+  /** Regex flags (default: "i"). */
+  regexFlags?: string;
+  /** Match when the message starts with this prefix, e.g. "/support". */
+  prefix?: string;
+  /** Sender identity: any listed id, username (without @), display name or E.164 number. */
+  sender?: {
+    ids?: string[];
+    usernames?: string[];
+    names?: string[];
+    e164?: string[];
+  };
+  /** Restrict to these chat types. */
+  chatTypes?: ChatType[];
+  /** Only match inside this daily window (same format as heartbeat active hours). */
+  activeHours?: {
+    start?: string;
+    end?: string;
+    timezone?: string;
+  };
 };
 
 export type AgentBinding = {
   agentId: string;
+  /** Rule bindings are tried from highest to lowest priority (default 0; ties keep config order). */
+  priority?: number;
   match: {
     channel: string;
     accountId?: string;
@@ -80,5 +137,6 @@ export type AgentBinding = {
     teamId?: string;
     /** Discord role IDs used for role-based routing. */
     roles?: string[];
+    rule?: AgentBindingRule;
   };
 };
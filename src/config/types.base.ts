@@ -107,6 +107,35 @@ export type SessionConfig = {
   };
   /** Automatic session store maintenance (pruning, capping, file rotation). */
   maintenance?: SessionMaintenanceConfig;
+  /** Named session presets used by sessions_spawn, workflow steps and session_template. */
+  templates?: Record<string, SessionTemplateConfig>;
+};
+
+export type SessionTemplateConfig = {
+  /** Parent template(s) to inherit from; later parents win over earlier ones. */
+  extends?: string | string[];
+  description?: string;
+  /** Model override (provider/model or alias) applied when the template is used. */
+  model?: string;
+  thinking?: string;
+  /** Extra system prompt text; inherited prompts are kept and this one is appended. */
+  systemPrompt?: string;
+  /** Tool allow/deny applied on top of the agent tool policy. Deny lists accumulate. */
+  tools?: {
+    allow?: string[];
+    alsoAllow?: string[];
+    deny?: string[];
+  };
+  /** Skill allowlist, intersected with the agent skills filter. */
+  skills?: string[];
+  /** Sandbox mode override for sessions using this template. */
+  sandbox?: {
+    mode?: "off" | "non-main" | "all";
+  };
+  /** Elevated exec level set when the template is applied. */
+  elevated?: "off" | "on" | "ask" | "full";
+  /** Extra workspace bootstrap files (paths or globs) injected into the session context. */
+  bootstrapFiles?: string[];
 };
 
 export type SessionMaintenanceMode = "enforce" | "warn";
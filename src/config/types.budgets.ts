@@ -0,0 +1,46 @@
+export type BudgetLimitConfig = {
+  /** Max tokens (input + output + cache) per UTC day. */
+  dailyTokens?: number;
+  /** Max tokens per UTC calendar month. */
+  monthlyTokens?: number;
+  /** Max estimated spend in USD per UTC day. */
+  dailyUsd?: number;
+  /** Max estimated spend in USD per UTC calendar month. */
+  monthlyUsd?: number;
+};
+
+/**
+ * Limits keyed by id; `"*"` applies to every id without its own entry
+ * (each id is still tracked separately).
+ */
+export type BudgetLimitMap = Record<string, BudgetLimitConfig>;
+
+export type BudgetNotifyConfig = {
+  /** Channel to announce soft warnings and hard stops on (e.g. telegram, slack). */
+  channel: string;
+  /** Channel target (chat id, user, channel). */
+  to: string;
+  accountId?: string;
+};
+
+export type BudgetsConfig = {
+  /** Enforce budgets before model calls (default: true when any limit is configured). */
+  enabled?: boolean;
+  /** Fraction of a limit that triggers a one-time soft warning per period (default: 0.8; 0 disables). */
+  warnAt?: number;
+  /**
+   * Reply sent when a hard stop blocks a run.
+   * Placeholders: `{scope}`, `{period}` (day|month), `{limit}`.
+   */
+  stopMessage?: string;
+  /** Where soft warnings and hard stops are announced (always logged). */
+  notify?: BudgetNotifyConfig;
+  /** Per agent id. */
+  agents?: BudgetLimitMap;
+  /** Per sender id (as seen by the channel, e.g. a Telegram user id or E.164 number). */
+  senders?: BudgetLimitMap;
+  /** Per channel (`telegram`) or channel account (`telegram:work`). */
+  channels?: BudgetLimitMap;
+  /** Per cron job id. */
+  cronJobs?: BudgetLimitMap;
+};
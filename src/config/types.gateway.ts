@@ -246,9 +246,37 @@ export type GatewayHttpResponsesImagesConfig = {
   timeoutMs?: number;
 };
 
+export type GatewayHttpModelsConfig = {
+  /**
+   * If false, the Gateway will not serve `GET /v1/models`.
+   * Default: true when chat completions or responses are enabled.
+   */
+  enabled?: boolean;
+};
+
+export type GatewayHttpEmbeddingsConfig = {
+  /**
+   * If false, the Gateway will not serve `POST /v1/embeddings`.
+   * Default: false when absent.
+   */
+  enabled?: boolean;
+  /**
+   * Max request body size in bytes for `/v1/embeddings`.
+   * Default: 1MB.
+   */
+  maxBodyBytes?: number;
+  /**
+   * Max number of inputs per request.
+   * Default: 256.
+   */
+  maxInputs?: number;
+};
+
 export type GatewayHttpEndpointsConfig = {
   chatCompletions?: GatewayHttpChatCompletionsConfig;
   responses?: GatewayHttpResponsesConfig;
+  models?: GatewayHttpModelsConfig;
+  embeddings?: GatewayHttpEmbeddingsConfig;
 };
 
 export type GatewayHttpConfig = {
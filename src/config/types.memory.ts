@@ -10,6 +10,47 @@ export type MemoryConfig = {
   qmd?: MemoryQmdConfig;
 };
 
+export type MemorySearchSourceId = "memory" | "sessions" | "knowledge";
+
+/** Second-pass scoring of the top hybrid candidates. */
+export type MemoryRerankConfig = {
+  enabled?: boolean;
+  /**
+   * "cross-encoder": rerank endpoint of the configured embedding provider (Voyage).
+   * "llm": a chat model scores each candidate.
+   */
+  mode?: "cross-encoder" | "llm";
+  /** Rerank model (cross-encoder default: rerank-2.5-lite; llm default: the agent default model). */
+  model?: string;
+  /** Candidates sent to the reranker (default: 20). */
+  candidates?: number;
+  /** Share of the final score taken from the reranker (0-1, default: 0.7). */
+  weight?: number;
+  /** Reranker timeout (default: 10000). Failures keep the hybrid order. */
+  timeoutMs?: number;
+};
+
+/** Maximal-marginal-relevance selection to avoid near-duplicate results. */
+export type MemoryMmrConfig = {
+  enabled?: boolean;
+  /** 1 = relevance only, 0 = diversity only (default: 0.7). */
+  lambda?: number;
+};
+
+/** Exponential decay of scores by file age. */
+export type MemoryRecencyConfig = {
+  enabled?: boolean;
+  /** Age at which a result keeps half its score (default: 14). */
+  halfLifeDays?: number;
+  /** Sources the decay applies to (default: ["sessions"]). */
+  sources?: MemorySearchSourceId[];
+  /** Lowest multiplier old results decay to (0-1, default: 0.2). */
+  minWeight?: number;
+};
+
+/** Score multipliers per source (default: 1). */
+export type MemorySourceBoosts = Partial<Record<MemorySearchSourceId, number>>;
+
 export type MemoryQmdConfig = {
   command?: string;
   searchMode?: MemoryQmdSearchMode;
@@ -3,6 +3,7 @@ import type { ApprovalsConfig } from "./types.approvals.js";
 import type { AuthConfig } from "./types.auth.js";
 import type { DiagnosticsConfig, LoggingConfig, SessionConfig, WebConfig } from "./types.base.js";
 import type { BrowserConfig } from "./types.browser.js";
+import type { BudgetsConfig } from "./types.budgets.js";
 import type { ChannelsConfig } from "./types.channels.js";
 import type { CronConfig } from "./types.cron.js";
 import type {
@@ -22,8 +23,11 @@ import type {
 import type { ModelsConfig } from "./types.models.js";
 import type { NodeHostConfig } from "./types.node-host.js";
 import type { PluginsConfig } from "./types.plugins.js";
+import type { SecurityConfig } from "./types.security.js";
 import type { SkillsConfig } from "./types.skills.js";
+import type { TaskQueueConfig } from "./types.task-queue.js";
 import type { ToolsConfig } from "./types.tools.js";
+import type { WorkflowsConfig } from "./types.workflows.js";
 
 export type OpenClawConfig = {
   meta?: {
@@ -97,6 +101,10 @@ export type OpenClawConfig = {
   talk?: TalkConfig;
   gateway?: GatewayConfig;
   memory?: MemoryConfig;
+  workflows?: WorkflowsConfig;
+  taskQueue?: TaskQueueConfig;
+  budgets?: BudgetsConfig;
+  security?: SecurityConfig;
 };
 
 export type ConfigValidationIssue = {
@@ -1,6 +1,11 @@
 export type PluginEntryConfig = {
   enabled?: boolean;
   config?: Record<string, unknown>;
+  /**
+   * Run the plugin in an isolated host process that only exposes the API surfaces
+   * declared in its manifest, plus the filesystem/network grants approved at install.
+   */
+  sandbox?: boolean;
 };
 
 export type PluginSlotsConfig = {
@@ -13,6 +18,13 @@ export type PluginsLoadConfig = {
   paths?: string[];
 };
 
+export type PluginSandboxGrants = {
+  fs?: { read?: string[]; write?: string[] };
+  /** Hosts the sandboxed plugin may connect to (`api.example.com`, `*.example.com`, `*`). */
+  network?: string[];
+  approvedAt?: string;
+};
+
 export type PluginInstallRecord = {
   source: "npm" | "archive" | "path";
   spec?: string;
@@ -20,6 +32,8 @@ export type PluginInstallRecord = {
   installPath?: string;
   version?: string;
   installedAt?: string;
+  /** Sandbox grants approved at install time (see `plugins.entries.*.sandbox`). */
+  grants?: PluginSandboxGrants;
 };
 
 export type PluginsConfig = {
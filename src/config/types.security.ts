@@ -0,0 +1,74 @@
+/** Where untrusted content enters an agent run. */
+export type InjectionScanSource = "email" | "webhook" | "web_fetch" | "link" | "channel";
+
+/**
+ * What to do with content that scores at or above the threshold:
+ * - off: skip scanning for this source
+ * - annotate: keep the content and prepend a warning with the score and reasons
+ * - strip: drop the matched segments, then annotate
+ * - require-approval: withhold it until an operator approves; approved content is
+ *   delivered to the originating session as a system event
+ * - quarantine: withhold it and keep it in the review queue only
+ */
+export type InjectionScanAction = "off" | "annotate" | "strip" | "require-approval" | "quarantine";
+
+export type InjectionClassifierConfig = {
+  /** "model": ask a configured model (local or hosted); "http": POST to a scoring endpoint. */
+  provider: "model" | "http";
+  /** Model for provider=model (provider/model or alias; default: the default agent model). */
+  model?: string;
+  /** Endpoint for provider=http; receives `{ text, source }`, returns `{ score }` (0-1). */
+  url?: string;
+  headers?: Record<string, string>;
+  /** Per-call timeout (default: 5000). */
+  timeoutMs?: number;
+  /** Only consult the classifier when rule/heuristic score reaches this (default: 0.15; 0 = always). */
+  minScore?: number;
+};
+
+export type InjectionScanConfig = {
+  /** Score untrusted content and apply per-source actions (default: false; only logs). */
+  enabled?: boolean;
+  /** Score (0-1) at or above which content counts as an injection attempt (default: 0.5). */
+  threshold?: number;
+  /** Action per source (default: annotate). */
+  actions?: Partial<Record<InjectionScanSource, InjectionScanAction>>;
+  classifier?: InjectionClassifierConfig;
+};
+
+export type SecurityAuditAlertConfig = {
+  /** Channel to announce new findings on (e.g. telegram, slack). */
+  channel: string;
+  /** Channel target (chat id, user, channel). */
+  to: string;
+  accountId?: string;
+  /** Lowest severity that triggers an alert (default: critical). */
+  minSeverity?: "critical" | "warn";
+};
+
+export type SecurityAuditMonitorConfig = {
+  /** Rerun the security audit in the gateway on startup, config reload and a schedule (default: true). */
+  enabled?: boolean;
+  /** Whole minutes between scheduled runs, at most 35000 (default: 360; 0 = only startup and config reloads). */
+  intervalMinutes?: number;
+  /** Audit runs kept in history (default: 50). */
+  historyLimit?: number;
+  /** Announce findings that were not present in the previous run. */
+  alert?: SecurityAuditAlertConfig;
+};
+
+/** Static code scanning of skills and plugins (`openclaw security scan-skills`, installs). */
+export type SkillScanConfig = {
+  /** Extra rule pack files (JSON or YAML) evaluated with the built-in rules. */
+  rulePacks?: string[];
+  /** Suppression baseline (default: ~/.openclaw/security/skill-scan-baseline.json when present). */
+  baseline?: string;
+  /** Block skill/plugin installs with critical findings unless overridden (default: true). */
+  blockCritical?: boolean;
+};
+
+export type SecurityConfig = {
+  injection?: InjectionScanConfig;
+  audit?: SecurityAuditMonitorConfig;
+  skillScan?: SkillScanConfig;
+};
@@ -0,0 +1,30 @@
+export type TaskQueueWorkerConfig = {
+  /** Worker id (default: "<agentId>:<queue>"). */
+  id?: string;
+  /** Queue to drain (default: "default"). */
+  queue?: string;
+  /** Agent whose workspace queue is drained and who runs the tasks (default: default agent). */
+  agentId?: string;
+  /** Max tasks processed in parallel by this worker (default: 1). */
+  concurrency?: number;
+  /** Poll interval while the queue is idle (default: 30). */
+  pollSeconds?: number;
+  /** Lease (visibility timeout) per claim; renewed while the run is in flight (default: 600). */
+  leaseSeconds?: number;
+  /** Delay before a failed task is retried (default: 60). */
+  retryDelaySeconds?: number;
+  /** Model override for task runs (provider/model or alias). */
+  model?: string;
+  /** Thinking level override for task runs. */
+  thinking?: string;
+  /** Timeout per task run. */
+  timeoutSeconds?: number;
+  /** Instructions prepended to every task prompt. */
+  prompt?: string;
+};
+
+export type TaskQueueConfig = {
+  /** Run task queue workers in the gateway (default: true when workers are configured). */
+  enabled?: boolean;
+  workers?: TaskQueueWorkerConfig[];
+};
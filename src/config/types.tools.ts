@@ -1,5 +1,11 @@
 import type { ChatType } from "../channels/chat-type.js";
 import type { AgentElevatedAllowFromConfig, SessionSendPolicyAction } from "./types.base.js";
+import type {
+  MemoryMmrConfig,
+  MemoryRecencyConfig,
+  MemoryRerankConfig,
+  MemorySourceBoosts,
+} from "./types.memory.js";
 
 export type MediaUnderstandingScopeMatch = {
   channel?: string;
@@ -247,16 +253,21 @@ export type MemorySearchConfig = {
   /** Enable vector memory search (default: true). */
   enabled?: boolean;
   /** Sources to index and search (default: ["memory"]). */
-  sources?: Array<"memory" | "sessions">;
+  sources?: Array<"memory" | "sessions" | "knowledge">;
   /** Extra paths to include in memory search (directories or .md files). */
   extraPaths?: string[];
+  /** knowledge_store indexing (used when sources includes "knowledge"). */
+  knowledge?: {
+    /** Categories to index (default: all categories). */
+    categories?: string[];
+  };
   /** Experimental memory search settings. */
   experimental?: {
     /** Enable session transcript indexing (experimental, default: false). */
     sessionMemory?: boolean;
   };
   /** Embedding provider mode. */
-  provider?: "openai" | "gemini" | "local" | "voyage";
+  provider?: "openai" | "gemini" | "local" | "onnx" | "voyage";
   remote?: {
     baseUrl?: string;
     apiKey?: string;
@@ -275,7 +286,7 @@ export type MemorySearchConfig = {
     };
   };
   /** Fallback behavior when embeddings fail. */
-  fallback?: "openai" | "gemini" | "local" | "voyage" | "none";
+  fallback?: "openai" | "gemini" | "local" | "onnx" | "voyage" | "none";
   /** Embedding model id (remote) or alias (local). */
   model?: string;
   /** Local embedding settings (node-llama-cpp). */
@@ -285,6 +296,19 @@ export type MemorySearchConfig = {
     /** Optional cache directory for local models. */
     modelCacheDir?: string;
   };
+  /** ONNX embedding settings (onnxruntime-node, CPU, no network). */
+  onnx?: {
+    /** Model directory (model.onnx + tokenizer.json) or .onnx file path. */
+    modelPath?: string;
+    /** Token pooling (default: from the model's sentence-transformers config, else mean). */
+    pooling?: "mean" | "cls";
+    /** Max tokens per input (default: from the model config, else 256). */
+    maxSequenceLength?: number;
+    /** Texts per inference run (default: 16). */
+    batchSize?: number;
+    /** Intra-op CPU threads (default: onnxruntime picks). */
+    threads?: number;
+  };
   /** Index storage configuration. */
   store?: {
     driver?: "sqlite";
@@ -335,6 +359,14 @@ export type MemorySearchConfig = {
       /** Multiplier for candidate pool size (default: 4). */
       candidateMultiplier?: number;
     };
+    /** Optional cross-encoder/LLM reranking of the top candidates. */
+    rerank?: MemoryRerankConfig;
+    /** Optional MMR de-duplication of the final results. */
+    mmr?: MemoryMmrConfig;
+    /** Optional recency decay (session transcripts by default). */
+    recency?: MemoryRecencyConfig;
+    /** Per-source score multipliers. */
+    sourceBoosts?: MemorySourceBoosts;
   };
   /** Index cache behavior. */
   cache?: {
@@ -370,6 +402,45 @@ export type CustomToolDefinition = {
   timeoutSeconds?: number;
 };
 
+export type ToolRuleAction = "allow" | "deny" | "require-approval" | "redact";
+
+/**
+ * Conditions of a tool rule. Every set field must match (AND); list fields match
+ * when any entry matches (OR). Patterns are globs (`*`) or `/regex/flags`.
+ */
+export type ToolRuleMatch = {
+  /** Tool names, groups (`group:fs`) or globs. */
+  tools?: string[];
+  agents?: string[];
+  /** Message channel ids (e.g. "telegram", "discord"). */
+  channels?: string[];
+  /** Sender ids of the inbound message that triggered the run. */
+  senders?: string[];
+  /** Match only sandboxed (true) or only host (false) runs. */
+  sandboxed?: boolean;
+  /** Patterns for the exec command line. */
+  commands?: string[];
+  /** Patterns for file paths the call touches (`~` is expanded). */
+  paths?: string[];
+  /** Patterns for URL hosts the call targets (`*.example.com` also matches `example.com`). */
+  hosts?: string[];
+  /** Patterns keyed by dotted parameter path (e.g. `{ "action": "send" }`). */
+  args?: Record<string, string | string[]>;
+};
+
+export type ToolRuleConfig = {
+  /** Stable id shown in decisions and `openclaw policy test` (default: rule index). */
+  id?: string;
+  description?: string;
+  /** Omitted match applies the rule to every tool call. */
+  match?: ToolRuleMatch;
+  action: ToolRuleAction;
+  /** Reason reported to the agent when the call is denied. */
+  reason?: string;
+  /** action=redact: patterns masked in the tool result (default: built-in secret patterns). */
+  redactPatterns?: string[];
+};
+
 export type ToolsConfig = {
   /** Base tool profile applied before allow/deny lists. */
   profile?: ToolProfileId;
@@ -524,4 +595,9 @@ export type ToolsConfig = {
   };
   /** Custom tools defined in config (HTTP endpoint or script execution). */
   custom?: CustomToolDefinition[];
+  /**
+   * Declarative rules evaluated before every tool call (first match wins;
+   * no match allows). Applied on top of allow/deny lists.
+   */
+  rules?: ToolRuleConfig[];
 };
@@ -6,6 +6,7 @@ export * from "./types.approvals.js";
 export * from "./types.auth.js";
 export * from "./types.base.js";
 export * from "./types.browser.js";
+export * from "./types.budgets.js";
 export * from "./types.channels.js";
 export * from "./types.openclaw.js";
 export * from "./types.cron.js";
@@ -22,6 +23,7 @@ export * from "./types.msteams.js";
 export * from "./types.plugins.js";
 export * from "./types.queue.js";
 export * from "./types.sandbox.js";
+export * from "./types.security.js";
 export * from "./types.signal.js";
 export * from "./types.skills.js";
 export * from "./types.slack.js";
@@ -30,3 +32,5 @@ export * from "./types.tts.js";
 export * from "./types.tools.js";
 export * from "./types.whatsapp.js";
 export * from "./types.memory.js";
+export * from "./types.workflows.js";
+export * from "./types.task-queue.js";
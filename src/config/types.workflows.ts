@@ -0,0 +1,6 @@
+export type WorkflowsConfig = {
+  /** Extra directories (or files) with YAML/JSON workflow definitions. */
+  paths?: string[];
+  /** Inline workflow definitions keyed by name. */
+  definitions?: Record<string, Record<string, unknown>>;
+};
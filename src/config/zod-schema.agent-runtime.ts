@@ -393,8 +393,16 @@ export const AgentToolsSchema = z
 export const MemorySearchSchema = z
   .object({
     enabled: z.boolean().optional(),
-    sources: z.array(z.union([z.literal("memory"), z.literal("sessions")])).optional(),
+    sources: z
+      .array(z.union([z.literal("memory"), z.literal("sessions"), z.literal("knowledge")]))
+      .optional(),
     extraPaths: z.array(z.string()).optional(),
+    knowledge: z
+      .object({
+        categories: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
     experimental: z
       .object({
         sessionMemory: z.boolean().optional(),
@@ -402,7 +410,13 @@ export const MemorySearchSchema = z
       .strict()
       .optional(),
     provider: z
-      .union([z.literal("openai"), z.literal("local"), z.literal("gemini"), z.literal("voyage")])
+      .union([
+        z.literal("openai"),
+        z.literal("local"),
+        z.literal("onnx"),
+        z.literal("gemini"),
+        z.literal("voyage"),
+      ])
       .optional(),
     remote: z
       .object({
@@ -427,6 +441,7 @@ export const MemorySearchSchema = z
         z.literal("openai"),
         z.literal("gemini"),
         z.literal("local"),
+        z.literal("onnx"),
         z.literal("voyage"),
         z.literal("none"),
       ])
@@ -439,6 +454,16 @@ export const MemorySearchSchema = z
       })
       .strict()
       .optional(),
+    onnx: z
+      .object({
+        modelPath: z.string().optional(),
+        pooling: z.union([z.literal("mean"), z.literal("cls")]).optional(),
+        maxSequenceLength: z.number().int().positive().optional(),
+        batchSize: z.number().int().positive().optional(),
+        threads: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
     store: z
       .object({
         driver: z.literal("sqlite").optional(),
@@ -490,6 +515,43 @@ export const MemorySearchSchema = z
           })
           .strict()
           .optional(),
+        rerank: z
+          .object({
+            enabled: z.boolean().optional(),
+            mode: z.union([z.literal("cross-encoder"), z.literal("llm")]).optional(),
+            model: z.string().optional(),
+            candidates: z.number().int().positive().optional(),
+            weight: z.number().min(0).max(1).optional(),
+            timeoutMs: z.number().int().positive().optional(),
+          })
+          .strict()
+          .optional(),
+        mmr: z
+          .object({
+            enabled: z.boolean().optional(),
+            lambda: z.number().min(0).max(1).optional(),
+          })
+          .strict()
+          .optional(),
+        recency: z
+          .object({
+            enabled: z.boolean().optional(),
+            halfLifeDays: z.number().positive().optional(),
+            sources: z
+              .array(z.union([z.literal("memory"), z.literal("sessions"), z.literal("knowledge")]))
+              .optional(),
+            minWeight: z.number().min(0).max(1).optional(),
+          })
+          .strict()
+          .optional(),
+        sourceBoosts: z
+          .object({
+            memory: z.number().nonnegative().optional(),
+            sessions: z.number().nonnegative().optional(),
+            knowledge: z.number().nonnegative().optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -509,6 +571,7 @@ export const AgentEntrySchema = z
     id: z.string(),
     default: z.boolean().optional(),
     name: z.string().optional(),
+    description: z.string().optional(),
     workspace: z.string().optional(),
     agentDir: z.string().optional(),
     model: AgentModelSchema.optional(),
@@ -541,6 +604,32 @@ export const AgentEntrySchema = z
   })
   .strict();
 
+const ToolRulePatternsSchema = z.array(z.string()).optional();
+
+const ToolRuleSchema = z
+  .object({
+    id: z.string().optional(),
+    description: z.string().optional(),
+    match: z
+      .object({
+        tools: ToolRulePatternsSchema,
+        agents: ToolRulePatternsSchema,
+        channels: ToolRulePatternsSchema,
+        senders: ToolRulePatternsSchema,
+        sandboxed: z.boolean().optional(),
+        commands: ToolRulePatternsSchema,
+        paths: ToolRulePatternsSchema,
+        hosts: ToolRulePatternsSchema,
+        args: z.record(z.string(), z.union([z.string(), z.array(z.string())])).optional(),
+      })
+      .strict()
+      .optional(),
+    action: z.enum(["allow", "deny", "require-approval", "redact"]),
+    reason: z.string().optional(),
+    redactPatterns: z.array(z.string()).optional(),
+  })
+  .strict();
+
 export const ToolsSchema = z
   .object({
     profile: ToolProfileSchema,
@@ -612,6 +701,7 @@ export const ToolsSchema = z
       })
       .strict()
       .optional(),
+    rules: z.array(ToolRuleSchema).optional(),
   })
   .strict()
   .superRefine((value, ctx) => {
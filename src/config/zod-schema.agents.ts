@@ -7,10 +7,72 @@ export const AgentsSchema = z
   .object({
     defaults: z.lazy(() => AgentDefaultsSchema).optional(),
     list: z.array(AgentEntrySchema).optional(),
+    router: z
+      .object({
+        enabled: z.boolean().optional(),
+        model: z.string().optional(),
+        candidates: z.array(z.string()).optional(),
+        channels: z.array(z.string()).optional(),
+        chatTypes: z
+          .array(z.union([z.literal("direct"), z.literal("group"), z.literal("channel")]))
+          .optional(),
+        minConfidence: z.number().min(0).max(1).optional(),
+        cacheTtlMinutes: z.number().nonnegative().optional(),
+        timeoutMs: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
   .optional();
 
+const BindingRuleTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]|24):([0-5]\d)$/, 'invalid time (use "HH:MM" 24h format)');
+
+const BindingRuleSchema = z
+  .object({
+    keywords: z.array(z.string()).optional(),
+    regex: z.string().optional(),
+    regexFlags: z.string().optional(),
+    prefix: z.string().optional(),
+    sender: z
+      .object({
+        ids: z.array(z.string()).optional(),
+        usernames: z.array(z.string()).optional(),
+        names: z.array(z.string()).optional(),
+        e164: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+    chatTypes: z
+      .array(z.union([z.literal("direct"), z.literal("group"), z.literal("channel")]))
+      .optional(),
+    activeHours: z
+      .object({
+        start: BindingRuleTimeSchema.optional(),
+        end: BindingRuleTimeSchema.optional(),
+        timezone: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .superRefine((rule, ctx) => {
+    if (rule.regex === undefined) {
+      return;
+    }
+    try {
+      new RegExp(rule.regex, rule.regexFlags ?? "i");
+    } catch (err) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["regex"],
+        message: `invalid regex: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  });
+
 export const BindingsSchema = z
   .array(
     z
@@ -36,8 +98,10 @@ export const BindingsSchema = z
             guildId: z.string().optional(),
             teamId: z.string().optional(),
             roles: z.array(z.string()).optional(),
+            rule: BindingRuleSchema.optional(),
           })
           .strict(),
+        priority: z.number().int().optional(),
       })
       .strict(),
   )
@@ -1,7 +1,7 @@
 import { z } from "zod";
 import { parseByteSize } from "../cli/parse-bytes.js";
 import { parseDurationMs } from "../cli/parse-duration.js";
-import { ElevatedAllowFromSchema } from "./zod-schema.agent-runtime.js";
+import { ElevatedAllowFromSchema, ToolPolicySchema } from "./zod-schema.agent-runtime.js";
 import { createAllowDenyChannelRulesSchema } from "./zod-schema.allowdeny.js";
 import {
   GroupChatSchema,
@@ -21,6 +21,46 @@ const SessionResetConfigSchema = z
 
 export const SessionSendPolicySchema = createAllowDenyChannelRulesSchema();
 
+const SessionTemplateSchema = z
+  .object({
+    extends: z.union([z.string(), z.array(z.string())]).optional(),
+    description: z.string().optional(),
+    model: z.string().optional(),
+    thinking: z.string().optional(),
+    systemPrompt: z.string().optional(),
+    tools: ToolPolicySchema,
+    skills: z.array(z.string()).optional(),
+    sandbox: z
+      .object({
+        mode: z.union([z.literal("off"), z.literal("non-main"), z.literal("all")]).optional(),
+      })
+      .strict()
+      .optional(),
+    elevated: z
+      .union([z.literal("off"), z.literal("on"), z.literal("ask"), z.literal("full")])
+      .optional(),
+    bootstrapFiles: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const SessionTemplatesSchema = z
+  .record(z.string(), SessionTemplateSchema)
+  .superRefine((templates, ctx) => {
+    for (const [name, template] of Object.entries(templates)) {
+      const parents =
+        typeof template.extends === "string" ? [template.extends] : (template.extends ?? []);
+      for (const parent of parents) {
+        if (!Object.hasOwn(templates, parent.trim())) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [name, "extends"],
+            message: `unknown session template "${parent}"`,
+          });
+        }
+      }
+    }
+  });
+
 export const SessionSchema = z
   .object({
     scope: z.union([z.literal("per-sender"), z.literal("global")]).optional(),
@@ -100,6 +140,7 @@ export const SessionSchema = z
         }
       })
       .optional(),
+    templates: SessionTemplatesSchema.optional(),
   })
   .strict()
   .optional();
@@ -93,6 +93,28 @@ const MemorySchema = z
   .strict()
   .optional();
 
+const BudgetLimitMapSchema = z
+  .record(
+    z.string(),
+    z
+      .object({
+        dailyTokens: z.number().int().positive().optional(),
+        monthlyTokens: z.number().int().positive().optional(),
+        dailyUsd: z.number().positive().optional(),
+        monthlyUsd: z.number().positive().optional(),
+      })
+      .strict(),
+  )
+  .optional();
+
+const InjectionScanActionSchema = z.union([
+  z.literal("off"),
+  z.literal("annotate"),
+  z.literal("strip"),
+  z.literal("require-approval"),
+  z.literal("quarantine"),
+]);
+
 const HttpUrlSchema = z
   .string()
   .url()
@@ -533,6 +555,20 @@ export const OpenClawSchema = z
                   })
                   .strict()
                   .optional(),
+                models: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                  })
+                  .strict()
+                  .optional(),
+                embeddings: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                    maxBodyBytes: z.number().int().positive().optional(),
+                    maxInputs: z.number().int().positive().optional(),
+                  })
+                  .strict()
+                  .optional(),
               })
               .strict()
               .optional(),
@@ -559,6 +595,116 @@ export const OpenClawSchema = z
       .strict()
       .optional(),
     memory: MemorySchema,
+    workflows: z
+      .object({
+        paths: z.array(z.string()).optional(),
+        definitions: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+      })
+      .strict()
+      .optional(),
+    taskQueue: z
+      .object({
+        enabled: z.boolean().optional(),
+        workers: z
+          .array(
+            z
+              .object({
+                id: z.string().optional(),
+                queue: z.string().optional(),
+                agentId: z.string().optional(),
+                concurrency: z.number().int().positive().optional(),
+                pollSeconds: z.number().positive().optional(),
+                leaseSeconds: z.number().int().min(5).optional(),
+                retryDelaySeconds: z.number().min(0).optional(),
+                model: z.string().optional(),
+                thinking: z.string().optional(),
+                timeoutSeconds: z.number().int().positive().optional(),
+                prompt: z.string().optional(),
+              })
+              .strict(),
+          )
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    budgets: z
+      .object({
+        enabled: z.boolean().optional(),
+        warnAt: z.number().min(0).max(1).optional(),
+        stopMessage: z.string().optional(),
+        notify: z
+          .object({
+            channel: z.string(),
+            to: z.string(),
+            accountId: z.string().optional(),
+          })
+          .strict()
+          .optional(),
+        agents: BudgetLimitMapSchema,
+        senders: BudgetLimitMapSchema,
+        channels: BudgetLimitMapSchema,
+        cronJobs: BudgetLimitMapSchema,
+      })
+      .strict()
+      .optional(),
+    security: z
+      .object({
+        injection: z
+          .object({
+            enabled: z.boolean().optional(),
+            threshold: z.number().min(0).max(1).optional(),
+            actions: z
+              .object({
+                email: InjectionScanActionSchema.optional(),
+                webhook: InjectionScanActionSchema.optional(),
+                web_fetch: InjectionScanActionSchema.optional(),
+                link: InjectionScanActionSchema.optional(),
+                channel: InjectionScanActionSchema.optional(),
+              })
+              .strict()
+              .optional(),
+            classifier: z
+              .object({
+                provider: z.union([z.literal("model"), z.literal("http")]),
+                model: z.string().optional(),
+                url: HttpUrlSchema.optional(),
+                headers: z.record(z.string(), z.string().register(sensitive)).optional(),
+                timeoutMs: z.number().int().positive().optional(),
+                minScore: z.number().min(0).max(1).optional(),
+              })
+              .strict()
+              .optional(),
+          })
+          .strict()
+          .optional(),
+        audit: z
+          .object({
+            enabled: z.boolean().optional(),
+            intervalMinutes: z.number().int().min(0).max(35_000).optional(),
+            historyLimit: z.number().int().positive().optional(),
+            alert: z
+              .object({
+                channel: z.string(),
+                to: z.string(),
+                accountId: z.string().optional(),
+                minSeverity: z.union([z.literal("critical"), z.literal("warn")]).optional(),
+              })
+              .strict()
+              .optional(),
+          })
+          .strict()
+          .optional(),
+        skillScan: z
+          .object({
+            rulePacks: z.array(z.string()).optional(),
+            baseline: z.string().optional(),
+            blockCritical: z.boolean().optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
     skills: z
       .object({
         allowBundled: z.array(z.string()).optional(),
@@ -619,6 +765,7 @@ export const OpenClawSchema = z
               .object({
                 enabled: z.boolean().optional(),
                 config: z.record(z.string(), z.unknown()).optional(),
+                sandbox: z.boolean().optional(),
               })
               .strict(),
           )
@@ -634,6 +781,20 @@ export const OpenClawSchema = z
                 installPath: z.string().optional(),
                 version: z.string().optional(),
                 installedAt: z.string().optional(),
+                grants: z
+                  .object({
+                    fs: z
+                      .object({
+                        read: z.array(z.string()).optional(),
+                        write: z.array(z.string()).optional(),
+                      })
+                      .strict()
+                      .optional(),
+                    network: z.array(z.string()).optional(),
+                    approvedAt: z.string().optional(),
+                  })
+                  .strict()
+                  .optional(),
               })
               .strict(),
           )
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseIcsExclusions, resolveCalendarExclusionEndMs } from "./calendar.js";
+
+const ics = (...events: string[][]) =>
+  [
+    "BEGIN:VCALENDAR",
+    ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+describe("cron exclusion calendars", () => {
+  it("parses all-day, yearly and timed events", () => {
+    const exclusions = parseIcsExclusions(
+      ics(
+        ["DTSTART;VALUE=DATE:20261224", "DTEND;VALUE=DATE:20261227"],
+        ["DTSTART;VALUE=DATE:20260101", "RRULE:FREQ=YEARLY"],
+        ["DTSTART:20260310T120000Z", "DTEND:20260310T14", " 0000Z"],
+      ),
+    );
+    expect([...exclusions.dates]).toEqual(["20261224", "20261225", "20261226"]);
+    expect([...exclusions.yearly]).toEqual(["0101"]);
+    expect(exclusions.ranges).toEqual([
+      { startMs: Date.parse("2026-03-10T12:00:00Z"), endMs: Date.parse("2026-03-10T14:00:00Z") },
+    ]);
+  });
+
+  it("resolves when an exclusion ends in the schedule timezone", () => {
+    const exclusions = parseIcsExclusions(
+      ics(
+        ["DTSTART;VALUE=DATE:20280101", "RRULE:FREQ=YEARLY"],
+        ["DTSTART;TZID=Europe/Berlin:20260310T090000", "DTEND;TZID=Europe/Berlin:20260310T100000"],
+      ),
+    );
+    expect(
+      resolveCalendarExclusionEndMs(
+        exclusions,
+        Date.parse("2027-01-01T10:00:00Z"),
+        "America/New_York",
+      ),
+    ).toBe(Date.parse("2027-01-02T05:00:00Z"));
+    expect(
+      resolveCalendarExclusionEndMs(exclusions, Date.parse("2026-03-10T08:30:00Z"), "UTC"),
+    ).toBe(Date.parse("2026-03-10T09:00:00Z"));
+    expect(
+      resolveCalendarExclusionEndMs(exclusions, Date.parse("2026-03-11T08:30:00Z"), "UTC"),
+    ).toBeUndefined();
+  });
+});
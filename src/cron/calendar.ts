@@ -0,0 +1,242 @@
+import fs from "node:fs";
+import { resolveUserPath } from "../utils.js";
+
+/** Runs blocked by an exclusion calendar (ICS). */
+export type CronCalendarExclusions = {
+  /** Timed events, as [startMs, endMs) ranges. */
+  ranges: Array<{ startMs: number; endMs: number }>;
+  /** All-day events as YYYYMMDD keys, matched in the schedule timezone. */
+  dates: Set<string>;
+  /** All-day events with `RRULE:FREQ=YEARLY`, as MMDD keys. */
+  yearly: Set<string>;
+};
+
+type LocalParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const DAY_MS = 24 * 60 * 60_000;
+
+function localParts(ms: number, timeZone: string): LocalParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(ms));
+  const map: Record<string, number> = {};
+  for (const part of parts) {
+    if (part.type !== "literal") {
+      map[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: map.year,
+    month: map.month,
+    day: map.day,
+    hour: map.hour,
+    minute: map.minute,
+    second: map.second,
+  };
+}
+
+/** UTC ms for a wall-clock time in `timeZone` (two passes settle DST offsets). */
+function zonedTimeToUtcMs(parts: LocalParts, timeZone: string): number {
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  let guess = wall;
+  for (let i = 0; i < 2; i++) {
+    const seen = localParts(guess, timeZone);
+    const seenWall = Date.UTC(
+      seen.year,
+      seen.month - 1,
+      seen.day,
+      seen.hour,
+      seen.minute,
+      seen.second,
+    );
+    guess += wall - seenWall;
+  }
+  return guess;
+}
+
+function dateKey(year: number, month: number, day: number) {
+  return `${String(year).padStart(4, "0")}${String(month).padStart(2, "0")}${String(day).padStart(2, "0")}`;
+}
+
+function unfoldIcsLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    if ((raw.startsWith(" ") || raw.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1] += raw.slice(1);
+    } else {
+      lines.push(raw);
+    }
+  }
+  return lines;
+}
+
+type IcsDate =
+  | { kind: "date"; year: number; month: number; day: number }
+  | { kind: "time"; ms: number };
+
+function parseIcsDate(params: Record<string, string>, value: string): IcsDate | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const year = Number(y);
+  const month = Number(mo);
+  const day = Number(d);
+  if (h === undefined || params.VALUE === "DATE") {
+    return { kind: "date", year, month, day };
+  }
+  const parts = { year, month, day, hour: Number(h), minute: Number(mi), second: Number(s) };
+  if (utc) {
+    return {
+      kind: "time",
+      ms: Date.UTC(year, month - 1, day, parts.hour, parts.minute, parts.second),
+    };
+  }
+  const timeZone = params.TZID?.trim() || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return { kind: "time", ms: zonedTimeToUtcMs(parts, timeZone) };
+}
+
+function parseProperty(line: string) {
+  const colon = line.indexOf(":");
+  if (colon <= 0) {
+    return null;
+  }
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+    }
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parse the VEVENTs of an ICS calendar into exclusions. All-day events block
+ * whole days (multi-day events up to, not including, DTEND); timed events
+ * block [DTSTART, DTEND). Only yearly recurrence of all-day events is
+ * expanded; other RRULEs are treated as their first occurrence.
+ */
+export function parseIcsExclusions(text: string): CronCalendarExclusions {
+  const exclusions: CronCalendarExclusions = { ranges: [], dates: new Set(), yearly: new Set() };
+  let event: { start?: IcsDate; end?: IcsDate; yearly?: boolean } | null = null;
+
+  for (const line of unfoldIcsLines(text)) {
+    const prop = parseProperty(line);
+    if (!prop) {
+      continue;
+    }
+    if (prop.name === "BEGIN" && prop.value.trim().toUpperCase() === "VEVENT") {
+      event = {};
+      continue;
+    }
+    if (!event) {
+      continue;
+    }
+    if (prop.name === "DTSTART") {
+      event.start = parseIcsDate(prop.params, prop.value) ?? undefined;
+    } else if (prop.name === "DTEND") {
+      event.end = parseIcsDate(prop.params, prop.value) ?? undefined;
+    } else if (prop.name === "RRULE") {
+      event.yearly = /(^|;)FREQ=YEARLY(;|$)/i.test(prop.value.trim());
+    } else if (prop.name === "END" && prop.value.trim().toUpperCase() === "VEVENT") {
+      const { start, end, yearly } = event;
+      event = null;
+      if (!start) {
+        continue;
+      }
+      if (start.kind === "time") {
+        const endMs = end?.kind === "time" ? end.ms : start.ms;
+        if (endMs > start.ms) {
+          exclusions.ranges.push({ startMs: start.ms, endMs });
+        }
+        continue;
+      }
+      const firstDayMs = Date.UTC(start.year, start.month - 1, start.day);
+      const endDayMs =
+        end?.kind === "date"
+          ? Math.max(Date.UTC(end.year, end.month - 1, end.day), firstDayMs + DAY_MS)
+          : firstDayMs + DAY_MS;
+      for (let dayMs = firstDayMs; dayMs < endDayMs; dayMs += DAY_MS) {
+        const day = new Date(dayMs);
+        const key = dateKey(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate());
+        if (yearly) {
+          exclusions.yearly.add(key.slice(4));
+        } else {
+          exclusions.dates.add(key);
+        }
+      }
+    }
+  }
+  return exclusions;
+}
+
+const calendarCache = new Map<string, { mtimeMs: number; exclusions: CronCalendarExclusions }>();
+
+/** Load an ICS exclusion calendar, re-parsing only when the file changes. */
+export function loadCronCalendar(filePath: string): CronCalendarExclusions {
+  const resolved = resolveUserPath(filePath);
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(resolved);
+  } catch {
+    throw new Error(`cron exclude calendar not found: ${filePath}`);
+  }
+  const cached = calendarCache.get(resolved);
+  if (cached && cached.mtimeMs === stat.mtimeMs) {
+    return cached.exclusions;
+  }
+  const exclusions = parseIcsExclusions(fs.readFileSync(resolved, "utf-8"));
+  calendarCache.set(resolved, { mtimeMs: stat.mtimeMs, exclusions });
+  return exclusions;
+}
+
+/**
+ * When `ms` falls inside an excluded event, return the time the exclusion
+ * ends (next local midnight for all-day events); otherwise undefined.
+ */
+export function resolveCalendarExclusionEndMs(
+  exclusions: CronCalendarExclusions,
+  ms: number,
+  timeZone: string,
+): number | undefined {
+  for (const range of exclusions.ranges) {
+    if (ms >= range.startMs && ms < range.endMs) {
+      return range.endMs;
+    }
+  }
+  if (exclusions.dates.size === 0 && exclusions.yearly.size === 0) {
+    return undefined;
+  }
+  const local = localParts(ms, timeZone);
+  const key = dateKey(local.year, local.month, local.day);
+  if (!exclusions.dates.has(key) && !exclusions.yearly.has(key.slice(4))) {
+    return undefined;
+  }
+  const sinceMidnightMs =
+    ((local.hour * 60 + local.minute) * 60 + local.second) * 1000 + (ms % 1000);
+  return ms - sinceMidnightMs + DAY_MS;
+}
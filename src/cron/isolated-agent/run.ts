@@ -1,7 +1,7 @@
 import type { MessagingToolSend } from "../../agents/pi-embedded-messaging.js";
 import type { OpenClawConfig } from "../../config/config.js";
 import type { AgentDefaultsConfig } from "../../config/types.js";
-import type { CronJob } from "../types.js";
+import type { CronJob, CronRunUsage } from "../types.js";
 import {
   resolveAgentConfig,
   resolveAgentDir,
@@ -45,6 +45,7 @@ import {
 import { registerAgentRunContext } from "../../infra/agent-events.js";
 import { deliverOutboundPayloads } from "../../infra/outbound/deliver.js";
 import { resolveAgentOutboundIdentity } from "../../infra/outbound/identity.js";
+import { loadSessionCostSummary } from "../../infra/session-cost-usage.js";
 import { logWarn } from "../../logger.js";
 import { buildAgentMainSessionKey, normalizeAgentId } from "../../routing/session-key.js";
 import {
@@ -53,6 +54,7 @@ import {
   getHookType,
   isExternalHookSession,
 } from "../../security/external-content.js";
+import { screenExternalContent } from "../../security/injection-scan.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
 import { resolveDeliveryTarget } from "./delivery-target.js";
 import {
@@ -116,8 +118,40 @@ export type RunCronAgentTurnResult = {
    * messages.  See: https://github.com/openclaw/openclaw/issues/15692
    */
   delivered?: boolean;
+  /** Tokens and cost of this run, from the run's session transcript. */
+  usage?: CronRunUsage;
 };
 
+async function readCronRunUsage(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  sessionId: string;
+  startMs: number;
+  model: string;
+  provider: string;
+}): Promise<CronRunUsage> {
+  const usage: CronRunUsage = { model: params.model, provider: params.provider };
+  try {
+    const summary = await loadSessionCostSummary({
+      sessionFile: resolveSessionTranscriptPath(params.sessionId, params.agentId),
+      config: params.cfg,
+      agentId: params.agentId,
+      startMs: params.startMs,
+    });
+    if (summary) {
+      usage.inputTokens = summary.input;
+      usage.outputTokens = summary.output;
+      usage.cacheReadTokens = summary.cacheRead;
+      usage.cacheWriteTokens = summary.cacheWrite;
+      usage.totalTokens = summary.totalTokens;
+      usage.costUsd = summary.totalCost;
+    }
+  } catch (err) {
+    logWarn(`[cron:${params.sessionId}] failed to read run usage: ${String(err)}`);
+  }
+  return usage;
+}
+
 export async function runCronIsolatedAgentTurn(params: {
   cfg: OpenClawConfig;
   deps: CliDeps;
@@ -253,12 +287,14 @@ export async function runCronIsolatedAgentTurn(params: {
       }
     });
   };
+  let runUsage: CronRunUsage | undefined;
   const withRunSession = (
-    result: Omit<RunCronAgentTurnResult, "sessionId" | "sessionKey">,
+    result: Omit<RunCronAgentTurnResult, "sessionId" | "sessionKey" | "usage">,
   ): RunCronAgentTurnResult => ({
     ...result,
     sessionId: runSessionId,
     sessionKey: runSessionKey,
+    usage: runUsage,
   });
   if (!cronSession.sessionEntry.label?.trim() && baseSessionKey.startsWith("cron:")) {
     const labelSuffix =
@@ -331,7 +367,6 @@ export async function runCronIsolatedAgentTurn(params: {
   });
 
   const { formattedTime, timeLine } = resolveCronStyleNow(params.cfg, now);
-  const base = `[cron:${params.job.id} ${params.job.name}] ${params.message}`.trim();
 
   // SECURITY: Wrap external hook content with security boundaries to prevent prompt injection
   // unless explicitly allowed via a dangerous config override.
@@ -341,6 +376,7 @@ export async function runCronIsolatedAgentTurn(params: {
     (isGmailHook && params.cfg.hooks?.gmail?.allowUnsafeExternalContent === true);
   const shouldWrapExternal = isExternalHook && !allowUnsafeExternalContent;
   let commandBody: string;
+  let message = params.message;
 
   if (isExternalHook) {
     // Log suspicious patterns for security monitoring
@@ -351,13 +387,26 @@ export async function runCronIsolatedAgentTurn(params: {
           `(session=${baseSessionKey}, patterns=${suspiciousPatterns.length}): ${suspiciousPatterns.slice(0, 3).join(", ")}`,
       );
     }
+    const screening = await screenExternalContent({
+      cfg: params.cfg,
+      source: getHookType(baseSessionKey) === "email" ? "email" : "webhook",
+      text: message,
+      // Approved content is delivered to the main session; hook sessions only run on new hooks.
+      sessionKey: resolveAgentMainSessionKey({ cfg: params.cfg, agentId }),
+      agentId,
+    });
+    if (screening.withheld) {
+      return withRunSession({ status: "skipped", summary: screening.text });
+    }
+    message = screening.text;
   }
+  const base = `[cron:${params.job.id} ${params.job.name}] ${message}`.trim();
 
   if (shouldWrapExternal) {
     // Wrap external content with security boundaries
     const hookType = getHookType(baseSessionKey);
     const safeContent = buildSafeExternalPrompt({
-      content: params.message,
+      content: message,
       source: hookType,
       jobName: params.job.name,
       jobId: params.job.id,
@@ -442,6 +491,7 @@ export async function runCronIsolatedAgentTurn(params: {
           agentId,
           messageChannel,
           agentAccountId: resolvedDelivery.accountId,
+          cronJobId: params.job.id,
           sessionFile,
           workspaceDir,
           config: cfgWithAgentDefaults,
@@ -502,6 +552,14 @@ export async function runCronIsolatedAgentTurn(params: {
       cronSession.sessionEntry.totalTokensFresh = true;
     }
     await persistSessionEntry();
+    runUsage = await readCronRunUsage({
+      cfg: cfgWithAgentDefaults,
+      agentId,
+      sessionId: runSessionId,
+      startMs: runStartedAt,
+      model: modelUsed,
+      provider: providerUsed,
+    });
   }
   const firstText = payloads[0]?.text ?? "";
   let summary = pickSummaryFromPayloads(payloads) ?? pickSummaryFromOutput(firstText);
@@ -292,6 +292,33 @@ describe("normalizeCronJobCreate", () => {
     expect(delivery.mode).toBeUndefined();
     expect(delivery.to).toBe("123");
   });
+
+  it("normalizes workflowRun payloads to isolated jobs", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "workflow",
+      schedule: { kind: "cron", expr: "0 9 * * 1" },
+      payload: { kind: "WorkflowRun", workflow: "weekly-report", params: { repo: "acme/app" } },
+    }) as unknown as Record<string, unknown>;
+
+    const payload = normalized.payload as Record<string, unknown>;
+    expect(payload.kind).toBe("workflowRun");
+    expect(payload.workflow).toBe("weekly-report");
+    expect(payload.params).toEqual({ repo: "acme/app" });
+    expect(normalized.sessionTarget).toBe("isolated");
+  });
+
+  it("normalizes memoryConsolidate payloads to isolated jobs", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "consolidate",
+      schedule: { kind: "cron", expr: "0 3 * * *" },
+      payload: { kind: "MemoryConsolidate", lookbackHours: 48 },
+    }) as unknown as Record<string, unknown>;
+
+    const payload = normalized.payload as Record<string, unknown>;
+    expect(payload.kind).toBe("memoryConsolidate");
+    expect(payload.lookbackHours).toBe(48);
+    expect(normalized.sessionTarget).toBe("isolated");
+  });
 });
 
 describe("normalizeCronJobPatch", () => {
@@ -23,7 +23,10 @@ const DEFAULT_OPTIONS: NormalizeOptions = {
 function coerceSchedule(schedule: UnknownRecord) {
   const next: UnknownRecord = { ...schedule };
   const rawKind = typeof schedule.kind === "string" ? schedule.kind.trim().toLowerCase() : "";
-  const kind = rawKind === "at" || rawKind === "every" || rawKind === "cron" ? rawKind : undefined;
+  const kind =
+    rawKind === "at" || rawKind === "every" || rawKind === "cron" || rawKind === "trigger"
+      ? rawKind
+      : undefined;
   const atMsRaw = schedule.atMs;
   const atRaw = schedule.at;
   const atString = typeof atRaw === "string" ? atRaw.trim() : "";
@@ -73,6 +76,10 @@ function coercePayload(payload: UnknownRecord) {
     next.kind = "agentTurn";
   } else if (kindRaw === "systemevent") {
     next.kind = "systemEvent";
+  } else if (kindRaw === "workflowrun") {
+    next.kind = "workflowRun";
+  } else if (kindRaw === "memoryconsolidate") {
+    next.kind = "memoryConsolidate";
   } else if (kindRaw) {
     next.kind = kindRaw;
   }
@@ -178,6 +185,33 @@ function coerceDelivery(delivery: UnknownRecord) {
   return next;
 }
 
+function coerceTriggers(triggers: UnknownRecord) {
+  const next: UnknownRecord = { ...triggers };
+  for (const field of ["onSuccess", "onFailure", "after"] as const) {
+    const value = triggers[field];
+    // Accept a single job id or a comma-separated list.
+    const list =
+      typeof value === "string" ? value.split(",") : Array.isArray(value) ? value : undefined;
+    if (!list) {
+      delete next[field];
+      continue;
+    }
+    const ids = list
+      .filter((entry): entry is string => typeof entry === "string")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    if (ids.length > 0) {
+      next[field] = ids;
+    } else {
+      delete next[field];
+    }
+  }
+  if ("passOutput" in next && typeof next.passOutput !== "boolean") {
+    delete next.passOutput;
+  }
+  return next;
+}
+
 function unwrapJob(raw: UnknownRecord) {
   if (isRecord(raw.data)) {
     return raw.data;
@@ -356,6 +390,10 @@ export function normalizeCronJobInput(
     next.delivery = coerceDelivery(base.delivery);
   }
 
+  if (isRecord(base.triggers)) {
+    next.triggers = coerceTriggers(base.triggers);
+  }
+
   if ("isolation" in next) {
     delete next.isolation;
   }
@@ -371,6 +409,10 @@ export function normalizeCronJobInput(
     if (!next.wakeMode) {
       next.wakeMode = "now";
     }
+    if (!isRecord(next.schedule) && isRecord(next.triggers)) {
+      // Jobs created with only triggers run when an upstream job finishes.
+      next.schedule = { kind: "trigger" };
+    }
     if (typeof next.enabled !== "boolean") {
       next.enabled = true;
     }
@@ -394,7 +436,7 @@ export function normalizeCronJobInput(
       if (kind === "systemEvent") {
         next.sessionTarget = "main";
       }
-      if (kind === "agentTurn") {
+      if (kind === "agentTurn" || kind === "workflowRun" || kind === "memoryConsolidate") {
         next.sessionTarget = "isolated";
       }
     }
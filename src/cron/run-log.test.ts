@@ -97,4 +97,49 @@ describe("cron run log", () => {
 
     await fs.rm(dir, { recursive: true, force: true });
   });
+
+  it("keeps run details and filters by run id, status and time", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-log-filter-"));
+    const logPath = path.join(dir, "runs", "job-1.jsonl");
+
+    await appendCronRunLog(logPath, {
+      ts: 100,
+      jobId: "job-1",
+      action: "finished",
+      runId: "run-a",
+      status: "error",
+      error: "boom",
+    });
+    await appendCronRunLog(logPath, {
+      ts: 200,
+      jobId: "job-1",
+      action: "finished",
+      runId: "run-b",
+      status: "ok",
+      outputText: "x".repeat(25_000),
+      usage: { model: "gpt-5", inputTokens: 10, outputTokens: 5, costUsd: 0.01 },
+      delivery: { requested: true, delivered: true, channel: "telegram", to: "123" },
+      input: { payload: { kind: "agentTurn", message: "hello" } },
+    });
+
+    const [runB] = await readCronRunLogEntries(logPath, { runId: "run-b" });
+    expect(runB?.outputText).toHaveLength(20_000);
+    expect(runB?.usage).toEqual({
+      model: "gpt-5",
+      inputTokens: 10,
+      outputTokens: 5,
+      costUsd: 0.01,
+    });
+    expect(runB?.delivery?.delivered).toBe(true);
+    expect(runB?.input?.payload).toEqual({ kind: "agentTurn", message: "hello" });
+
+    const errors = await readCronRunLogEntries(logPath, { status: "error" });
+    expect(errors.map((e) => e.runId)).toEqual(["run-a"]);
+    const recent = await readCronRunLogEntries(logPath, { sinceMs: 150 });
+    expect(recent.map((e) => e.runId)).toEqual(["run-b"]);
+    const older = await readCronRunLogEntries(logPath, { untilMs: 150 });
+    expect(older.map((e) => e.runId)).toEqual(["run-a"]);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
 });
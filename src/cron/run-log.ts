@@ -1,10 +1,18 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import type { CronRunDelivery, CronRunInput, CronRunUsage } from "./types.js";
+import { truncateUtf16Safe } from "../utils.js";
+
+/** Agent output kept per run log entry; the full text stays in the run transcript. */
+const MAX_RUN_LOG_OUTPUT_CHARS = 20_000;
 
 export type CronRunLogEntry = {
   ts: number;
   jobId: string;
   action: "finished";
+  runId?: string;
+  /** Run id this run replayed (`cron.replay`). */
+  replayOf?: string;
   status?: "ok" | "error" | "skipped";
   error?: string;
   summary?: string;
@@ -13,6 +21,21 @@ export type CronRunLogEntry = {
   runAtMs?: number;
   durationMs?: number;
   nextRunAtMs?: number;
+  outputText?: string;
+  usage?: CronRunUsage;
+  delivery?: CronRunDelivery;
+  input?: CronRunInput;
+};
+
+export type CronRunLogFilter = {
+  limit?: number;
+  jobId?: string;
+  runId?: string;
+  status?: "ok" | "error" | "skipped";
+  /** Only runs that finished at or after this time. */
+  sinceMs?: number;
+  /** Only runs that finished at or before this time. */
+  untilMs?: number;
 };
 
 export function resolveCronRunLogPath(params: { storePath: string; jobId: string }) {
@@ -51,7 +74,11 @@ export async function appendCronRunLog(
     .catch(() => undefined)
     .then(async () => {
       await fs.mkdir(path.dirname(resolved), { recursive: true });
-      await fs.appendFile(resolved, `${JSON.stringify(entry)}\n`, "utf-8");
+      const line =
+        entry.outputText && entry.outputText.length > MAX_RUN_LOG_OUTPUT_CHARS
+          ? { ...entry, outputText: truncateUtf16Safe(entry.outputText, MAX_RUN_LOG_OUTPUT_CHARS) }
+          : entry;
+      await fs.appendFile(resolved, `${JSON.stringify(line)}\n`, "utf-8");
       await pruneIfNeeded(resolved, {
         maxBytes: opts?.maxBytes ?? 2_000_000,
         keepLines: opts?.keepLines ?? 2_000,
@@ -61,12 +88,21 @@ export async function appendCronRunLog(
   await next;
 }
 
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim().length > 0 ? value : undefined;
+}
+
 export async function readCronRunLogEntries(
   filePath: string,
-  opts?: { limit?: number; jobId?: string },
+  opts?: CronRunLogFilter,
 ): Promise<CronRunLogEntry[]> {
   const limit = Math.max(1, Math.min(5000, Math.floor(opts?.limit ?? 200)));
   const jobId = opts?.jobId?.trim() || undefined;
+  const runId = opts?.runId?.trim() || undefined;
   const raw = await fs.readFile(path.resolve(filePath), "utf-8").catch(() => "");
   if (!raw.trim()) {
     return [];
@@ -95,6 +131,18 @@ export async function readCronRunLogEntries(
       if (jobId && obj.jobId !== jobId) {
         continue;
       }
+      if (runId && obj.runId !== runId) {
+        continue;
+      }
+      if (opts?.status && obj.status !== opts.status) {
+        continue;
+      }
+      if (typeof opts?.sinceMs === "number" && obj.ts < opts.sinceMs) {
+        continue;
+      }
+      if (typeof opts?.untilMs === "number" && obj.ts > opts.untilMs) {
+        continue;
+      }
       const entry: CronRunLogEntry = {
         ts: obj.ts,
         jobId: obj.jobId,
@@ -112,6 +160,18 @@ export async function readCronRunLogEntries(
       if (typeof obj.sessionKey === "string" && obj.sessionKey.trim().length > 0) {
         entry.sessionKey = obj.sessionKey;
       }
+      entry.runId = nonEmptyString(obj.runId);
+      entry.replayOf = nonEmptyString(obj.replayOf);
+      entry.outputText = nonEmptyString(obj.outputText);
+      if (isRecord(obj.usage)) {
+        entry.usage = obj.usage;
+      }
+      if (isRecord(obj.delivery)) {
+        entry.delivery = obj.delivery;
+      }
+      if (isRecord(obj.input) && isRecord(obj.input.payload)) {
+        entry.input = obj.input;
+      }
       parsed.push(entry);
     } catch {
       // ignore invalid lines
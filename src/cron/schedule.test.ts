@@ -1,5 +1,8 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { describe, expect, it } from "vitest";
-import { computeNextRunAtMs } from "./schedule.js";
+import { computeNextRunAtMs, previewNextRunsAtMs } from "./schedule.js";
 
 describe("cron schedule", () => {
   it("computes next run for cron expression with timezone", () => {
@@ -67,4 +70,68 @@ describe("cron schedule", () => {
       expect(next).toBe(noonMs);
     });
   });
+
+  describe("schedule limits", () => {
+    const hourly = { kind: "cron" as const, expr: "0 * * * *", tz: "UTC" };
+    const fromMs = Date.parse("2026-03-02T17:30:00.000Z");
+
+    it("skips slots outside active hours", () => {
+      const runs = previewNextRunsAtMs(
+        { ...hourly, activeHours: { start: "09:00", end: "19:00" } },
+        fromMs,
+        3,
+      );
+      expect(runs.map((ms) => new Date(ms).toISOString())).toEqual([
+        "2026-03-02T18:00:00.000Z",
+        "2026-03-03T09:00:00.000Z",
+        "2026-03-03T10:00:00.000Z",
+      ]);
+    });
+
+    it("skips days blocked by an exclusion calendar", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-cron-ics-"));
+      const icsPath = path.join(dir, "holidays.ics");
+      fs.writeFileSync(
+        icsPath,
+        [
+          "BEGIN:VCALENDAR",
+          "BEGIN:VEVENT",
+          "DTSTART;VALUE=DATE:20260303",
+          "DTEND;VALUE=DATE:20260305",
+          "SUMMARY:Offsite",
+          "END:VEVENT",
+          "END:VCALENDAR",
+        ].join("\r\n"),
+      );
+      try {
+        const daily = { kind: "cron" as const, expr: "0 9 * * *", tz: "UTC" };
+        const runs = previewNextRunsAtMs({ ...daily, excludeCalendar: icsPath }, fromMs, 2);
+        expect(runs.map((ms) => new Date(ms).toISOString())).toEqual([
+          "2026-03-05T09:00:00.000Z",
+          "2026-03-06T09:00:00.000Z",
+        ]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("stops at maxRuns and until", () => {
+      expect(computeNextRunAtMs({ ...hourly, maxRuns: 2 }, fromMs, { runCount: 2 })).toBe(
+        undefined,
+      );
+      expect(previewNextRunsAtMs({ ...hourly, maxRuns: 2 }, fromMs, 5)).toHaveLength(2);
+      expect(
+        previewNextRunsAtMs({ ...hourly, until: "2026-03-02T20:00:00.000Z" }, fromMs, 5),
+      ).toHaveLength(3);
+    });
+
+    it("adds stable jitter below the interval", () => {
+      const every = { kind: "every" as const, everyMs: 60_000, anchorMs: 0, jitterMs: 600_000 };
+      const first = computeNextRunAtMs(every, fromMs, { seed: "job-a" });
+      expect(first).toBe(computeNextRunAtMs(every, fromMs, { seed: "job-a" }));
+      expect(first).toBeGreaterThanOrEqual(fromMs);
+      expect(first).toBeLessThan(fromMs + 60_000);
+      expect(previewNextRunsAtMs(every, fromMs, 3, { seed: "job-a" })).toHaveLength(3);
+    });
+  });
 });
@@ -1,7 +1,22 @@
 import { Cron } from "croner";
+import crypto from "node:crypto";
 import type { CronSchedule } from "./types.js";
+import { minutesUntilActiveHours } from "../infra/heartbeat-active-hours.js";
+import { loadCronCalendar, resolveCalendarExclusionEndMs } from "./calendar.js";
 import { parseAbsoluteTimeMs } from "./parse.js";
 
+export type CronScheduleContext = {
+  /** Seed for stable jitter (the job id). */
+  seed?: string;
+  /** Runs completed so far, compared against `maxRuns`. */
+  runCount?: number;
+};
+
+type RecurringSchedule = Extract<CronSchedule, { kind: "every" | "cron" }>;
+
+/** Upper bound on skipped slots (inactive hours, excluded days) per lookup. */
+const MAX_CONSTRAINED_STEPS = 1_000;
+
 function resolveCronTimezone(tz?: string) {
   const trimmed = typeof tz === "string" ? tz.trim() : "";
   if (trimmed) {
@@ -10,7 +25,7 @@ function resolveCronTimezone(tz?: string) {
   return Intl.DateTimeFormat().resolvedOptions().timeZone;
 }
 
-export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): number | undefined {
+function computeSlotAfter(schedule: CronSchedule, nowMs: number): number | undefined {
   if (schedule.kind === "at") {
     // Handle both canonical `at` (string) and legacy `atMs` (number) fields.
     // The store migration should convert atMs→at, but be defensive in case
@@ -41,6 +56,11 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return anchor + steps * everyMs;
   }
 
+  if (schedule.kind === "trigger") {
+    // Trigger-only jobs have no clock schedule; upstream jobs make them due.
+    return undefined;
+  }
+
   const expr = schedule.expr.trim();
   if (!expr) {
     return undefined;
@@ -65,3 +85,126 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
   const nextMs = next.getTime();
   return Number.isFinite(nextMs) && nextMs > nowSecondMs ? nextMs : undefined;
 }
+
+/** First slot at or after `ms` (croner and `every` both step strictly forward). */
+function computeSlotFrom(schedule: RecurringSchedule, ms: number): number | undefined {
+  if (schedule.kind === "every") {
+    const anchor = Math.max(0, Math.floor(schedule.anchorMs ?? ms));
+    return ms <= anchor ? anchor : computeSlotAfter(schedule, ms);
+  }
+  return computeSlotAfter(schedule, ms - 1000);
+}
+
+function resolveUntilMs(schedule: RecurringSchedule): number | undefined {
+  const raw = schedule.until?.trim();
+  if (!raw) {
+    return undefined;
+  }
+  const untilMs = parseAbsoluteTimeMs(raw);
+  if (untilMs === null) {
+    throw new Error(`invalid schedule.until: ${raw}`);
+  }
+  return untilMs;
+}
+
+function resolveJitterMs(schedule: RecurringSchedule, slotMs: number, seed: string): number {
+  const raw = schedule.jitterMs;
+  if (typeof raw !== "number" || !Number.isFinite(raw) || raw <= 0) {
+    return 0;
+  }
+  // Jitter never pushes an interval job past its next slot.
+  const max = schedule.kind === "every" ? Math.min(raw, schedule.everyMs - 1) : raw;
+  if (max <= 0) {
+    return 0;
+  }
+  const digest = crypto.createHash("sha256").update(`${seed}:${slotMs}`).digest();
+  return Math.floor((digest.readUInt32BE(0) / 0x1_0000_0000) * max);
+}
+
+/**
+ * Apply end conditions, active hours and the exclusion calendar to the next
+ * slot, then add jitter. Blocked slots are skipped by jumping to the end of
+ * the blocking window rather than walking every slot.
+ */
+function applyScheduleConstraints(
+  schedule: RecurringSchedule,
+  firstSlot: number | undefined,
+  ctx?: CronScheduleContext,
+): number | undefined {
+  const maxRuns = schedule.maxRuns;
+  if (typeof maxRuns === "number" && maxRuns > 0 && (ctx?.runCount ?? 0) >= maxRuns) {
+    return undefined;
+  }
+  const untilMs = resolveUntilMs(schedule);
+  const timeZone = resolveCronTimezone(schedule.kind === "cron" ? schedule.tz : undefined);
+  const activeHours = schedule.activeHours
+    ? {
+        ...schedule.activeHours,
+        timezone: schedule.activeHours.timezone?.trim() || timeZone,
+      }
+    : undefined;
+  const calendarPath = schedule.excludeCalendar?.trim();
+  const calendar = calendarPath ? loadCronCalendar(calendarPath) : undefined;
+
+  let slot = firstSlot;
+  for (let step = 0; slot !== undefined && step < MAX_CONSTRAINED_STEPS; step++) {
+    if (untilMs !== undefined && slot > untilMs) {
+      return undefined;
+    }
+    const waitMinutes = minutesUntilActiveHours({}, activeHours, slot);
+    if (waitMinutes > 0) {
+      slot = computeSlotFrom(schedule, slot - (slot % 60_000) + waitMinutes * 60_000);
+      continue;
+    }
+    const excludedUntilMs = calendar
+      ? resolveCalendarExclusionEndMs(calendar, slot, timeZone)
+      : undefined;
+    if (excludedUntilMs !== undefined) {
+      slot = computeSlotFrom(schedule, Math.max(excludedUntilMs, slot + 1));
+      continue;
+    }
+    return slot + resolveJitterMs(schedule, slot, ctx?.seed ?? "");
+  }
+  return undefined;
+}
+
+export function computeNextRunAtMs(
+  schedule: CronSchedule,
+  nowMs: number,
+  ctx?: CronScheduleContext,
+): number | undefined {
+  const slot = computeSlotAfter(schedule, nowMs);
+  if (schedule.kind !== "every" && schedule.kind !== "cron") {
+    return slot;
+  }
+  return applyScheduleConstraints(schedule, slot, ctx);
+}
+
+/**
+ * Upcoming run times for a schedule, as the scheduler would pick them when
+ * every run completes (counting toward `maxRuns`).
+ */
+export function previewNextRunsAtMs(
+  schedule: CronSchedule,
+  fromMs: number,
+  count: number,
+  ctx?: CronScheduleContext,
+): number[] {
+  const runs: number[] = [];
+  let cursor = fromMs;
+  let runCount = ctx?.runCount ?? 0;
+  while (runs.length < count) {
+    const next = computeNextRunAtMs(schedule, cursor, { ...ctx, runCount });
+    if (next === undefined || (runs.length > 0 && next <= runs[runs.length - 1])) {
+      break;
+    }
+    runs.push(next);
+    if (schedule.kind === "at") {
+      break;
+    }
+    // `every` returns a slot equal to nowMs, so step just past the last run.
+    cursor = next + 1;
+    runCount += 1;
+  }
+  return runs;
+}
@@ -558,4 +558,46 @@ describe("Cron issue regressions", () => {
     expect(secondDone?.state.lastDurationMs).toBe(20);
     expect(startedAtEvents).toEqual([dueAt, dueAt + 50]);
   });
+
+  it("aborts workflow runs when the cron job times out", async () => {
+    const store = await makeStorePath();
+    const dueAt = Date.parse("2026-02-06T10:05:01.000Z");
+    const job: CronJob = {
+      ...createDueIsolatedJob({ id: "workflow-timeout", nowMs: dueAt, nextRunAtMs: dueAt }),
+      payload: { kind: "workflowRun", workflow: "nightly", timeoutSeconds: 1 },
+    };
+    await fs.writeFile(
+      store.storePath,
+      JSON.stringify({ version: 1, jobs: [job] }, null, 2),
+      "utf-8",
+    );
+
+    let signal: AbortSignal | undefined;
+    const started = createDeferred<void>();
+    const state = createCronServiceState({
+      cronEnabled: true,
+      storePath: store.storePath,
+      log: noopLogger,
+      nowMs: () => dueAt,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(),
+      runWorkflowJob: vi.fn(async (params: { abortSignal?: AbortSignal }) => {
+        signal = params.abortSignal;
+        started.resolve();
+        // Never settles on its own, like a stuck workflow step.
+        return await new Promise<never>(() => {});
+      }),
+    });
+
+    const timerRun = onTimer(state);
+    await started.promise;
+    await vi.advanceTimersByTimeAsync(1_000);
+    await timerRun;
+
+    expect(signal?.aborted).toBe(true);
+    const done = state.store?.jobs.find((entry) => entry.id === job.id);
+    expect(done?.state.lastStatus).toBe("error");
+    expect(done?.state.lastError).toContain("timed out");
+  });
 });
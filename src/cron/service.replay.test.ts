@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CronEvent } from "./service.js";
+import { CronService } from "./service.js";
+import { createCronStoreHarness, createNoopLogger } from "./service.test-harness.js";
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-replay-" });
+
+describe("CronService replay", () => {
+  it("records run details and replays a run with its original inputs", async () => {
+    const { storePath } = await makeStorePath();
+    const events: CronEvent[] = [];
+    const runIsolatedAgentJob = vi.fn(async ({ message }: { message: string }) => ({
+      status: "ok" as const,
+      summary: `ran ${message}`,
+      outputText: `output for ${message}`,
+      sessionKey: "agent:main:cron:job:run:s1",
+      usage: { model: "gpt-5", inputTokens: 12, outputTokens: 3, costUsd: 0.002 },
+    }));
+    const cron = new CronService({
+      cronEnabled: false,
+      storePath,
+      log: noopLogger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob,
+      onEvent: (evt) => events.push(evt),
+    });
+
+    const job = await cron.add({
+      name: "digest",
+      schedule: { kind: "every", everyMs: 3_600_000 },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "v1", model: "gpt-5" },
+      delivery: { mode: "none" },
+    });
+    await cron.run(job.id, "force");
+
+    const finished = events.find((evt) => evt.action === "finished");
+    expect(finished).toMatchObject({
+      status: "ok",
+      outputText: "output for v1",
+      usage: { inputTokens: 12, costUsd: 0.002 },
+      delivery: { requested: false, delivered: false },
+      input: { payload: { kind: "agentTurn", message: "v1", model: "gpt-5" } },
+    });
+    const runId = finished?.runId;
+    expect(runId).toBeTruthy();
+    const afterRun = cron.getJob(job.id);
+    expect(afterRun?.state.lastRunId).toBe(runId);
+    const runCount = afterRun?.state.runCount;
+
+    await cron.update(job.id, { payload: { kind: "agentTurn", message: "v2" } });
+    const replayed = await cron.replay(job.id, { runId: runId!, input: finished!.input! });
+    expect(replayed).toMatchObject({ ok: true, ran: true, status: "ok" });
+    expect(runIsolatedAgentJob.mock.calls.at(-1)?.[0]).toMatchObject({
+      message: "v1",
+      job: { id: job.id, payload: { message: "v1", model: "gpt-5" } },
+    });
+
+    const replayFinished = events.filter((evt) => evt.action === "finished").at(-1);
+    expect(replayFinished?.replayOf).toBe(runId);
+    const afterReplay = cron.getJob(job.id);
+    expect(afterReplay?.state.lastRunId).toBe(runId);
+    expect(afterReplay?.state.runCount).toBe(runCount);
+    expect(afterReplay?.state.runningAtMs).toBeUndefined();
+
+    cron.stop();
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import { createCronStoreHarness, createNoopLogger } from "./service.test-harness.js";
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-triggers-" });
+
+function createService(storePath: string, runIsolatedAgentJob: ReturnType<typeof vi.fn>) {
+  return new CronService({
+    // Keep the timer disarmed so triggered jobs only run via cron.run.
+    cronEnabled: false,
+    storePath,
+    log: noopLogger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob,
+  });
+}
+
+const isolatedTurn = (message: string) => ({
+  sessionTarget: "isolated" as const,
+  wakeMode: "now" as const,
+  payload: { kind: "agentTurn" as const, message },
+  delivery: { mode: "none" as const },
+});
+
+describe("CronService triggers", () => {
+  it("runs downstream jobs after upstream success with the upstream output", async () => {
+    const { storePath } = await makeStorePath();
+    const runIsolatedAgentJob = vi.fn(async ({ message }: { message: string }) =>
+      message === "ingest"
+        ? { status: "ok" as const, summary: "ingested", outputText: "42 new rows" }
+        : { status: "ok" as const, summary: "done" },
+    );
+    const cron = createService(storePath, runIsolatedAgentJob);
+
+    const ingest = await cron.add({
+      name: "ingest",
+      schedule: { kind: "every", everyMs: 3_600_000 },
+      ...isolatedTurn("ingest"),
+    });
+    const summary = await cron.add({
+      name: "summary",
+      schedule: { kind: "trigger" },
+      triggers: { onSuccess: [ingest.id] },
+      ...isolatedTurn("summarize"),
+    });
+    const alert = await cron.add({
+      name: "alert",
+      schedule: { kind: "trigger" },
+      triggers: { onFailure: [ingest.id] },
+      ...isolatedTurn("page someone"),
+    });
+    expect(summary.state.nextRunAtMs).toBeUndefined();
+
+    await cron.run(ingest.id, "force");
+    const jobs = await cron.list({ includeDisabled: true });
+    const pending = jobs.find((job) => job.id === summary.id)?.state;
+    expect(pending?.pendingTrigger).toMatchObject({ jobId: ingest.id, status: "ok" });
+    expect(typeof pending?.nextRunAtMs).toBe("number");
+    expect(jobs.find((job) => job.id === alert.id)?.state.pendingTrigger).toBeUndefined();
+
+    expect(await cron.run(summary.id)).toEqual({ ok: true, ran: true });
+    const message = runIsolatedAgentJob.mock.calls.at(-1)?.[0]?.message;
+    expect(message).toContain('summarize\n\nTriggered by cron job "ingest"');
+    expect(message).toContain("Output:\n42 new rows");
+
+    const after = (await cron.list({ includeDisabled: true })).find((j) => j.id === summary.id);
+    expect(after?.state.pendingTrigger).toBeUndefined();
+    expect(after?.state.nextRunAtMs).toBeUndefined();
+
+    cron.stop();
+  });
+
+  it("rejects trigger cycles and unknown upstream jobs", async () => {
+    const { storePath } = await makeStorePath();
+    const cron = createService(
+      storePath,
+      vi.fn(async () => ({ status: "ok" as const })),
+    );
+
+    const first = await cron.add({
+      name: "first",
+      schedule: { kind: "every", everyMs: 60_000 },
+      ...isolatedTurn("one"),
+    });
+    const second = await cron.add({
+      name: "second",
+      schedule: { kind: "trigger" },
+      triggers: { after: [first.id] },
+      ...isolatedTurn("two"),
+    });
+
+    await expect(
+      cron.add({
+        name: "orphan",
+        schedule: { kind: "trigger" },
+        triggers: { onSuccess: ["missing"] },
+        ...isolatedTurn("three"),
+      }),
+    ).rejects.toThrow(/unknown job id: missing/);
+    await expect(
+      cron.add({ name: "no-triggers", schedule: { kind: "trigger" }, ...isolatedTurn("four") }),
+    ).rejects.toThrow(/requires triggers/);
+    await expect(cron.update(first.id, { triggers: { onSuccess: [second.id] } })).rejects.toThrow(
+      `cron trigger cycle: ${first.id} -> ${second.id} -> ${first.id}`,
+    );
+
+    const unchanged = (await cron.list({ includeDisabled: true })).find((j) => j.id === first.id);
+    expect(unchanged?.triggers).toBeUndefined();
+
+    cron.stop();
+  });
+
+  it("drops removed jobs from other jobs' triggers", async () => {
+    const { storePath } = await makeStorePath();
+    const cron = createService(
+      storePath,
+      vi.fn(async () => ({ status: "ok" as const })),
+    );
+
+    const first = await cron.add({
+      name: "first",
+      schedule: { kind: "every", everyMs: 60_000 },
+      ...isolatedTurn("one"),
+    });
+    const second = await cron.add({
+      name: "second",
+      schedule: { kind: "every", everyMs: 60_000 },
+      ...isolatedTurn("two"),
+    });
+    const both = await cron.add({
+      name: "both",
+      schedule: { kind: "trigger" },
+      triggers: { onSuccess: [first.id], after: [second.id] },
+      ...isolatedTurn("three"),
+    });
+    const onlyFirst = await cron.add({
+      name: "only-first",
+      schedule: { kind: "trigger" },
+      triggers: { onFailure: [first.id] },
+      ...isolatedTurn("four"),
+    });
+
+    expect(await cron.remove(first.id)).toEqual({ ok: true, removed: true });
+    const jobs = await cron.list({ includeDisabled: true });
+    const bothAfter = jobs.find((job) => job.id === both.id);
+    expect(bothAfter?.triggers).toEqual({ after: [second.id] });
+    expect(bothAfter?.enabled).toBe(true);
+    const orphan = jobs.find((job) => job.id === onlyFirst.id);
+    expect(orphan?.triggers).toBeUndefined();
+    expect(orphan?.enabled).toBe(false);
+
+    // Editing triggers on the remaining jobs no longer trips over the removed id.
+    await expect(
+      cron.update(both.id, { triggers: { onSuccess: [second.id] } }),
+    ).resolves.toMatchObject({
+      triggers: { onSuccess: [second.id] },
+    });
+    await expect(cron.update(onlyFirst.id, { name: "renamed" })).resolves.toMatchObject({
+      name: "renamed",
+      enabled: false,
+    });
+    await expect(cron.update(onlyFirst.id, { enabled: true })).rejects.toThrow(/requires triggers/);
+
+    cron.stop();
+  });
+});
@@ -1,4 +1,4 @@
-import type { CronJob, CronJobCreate, CronJobPatch } from "./types.js";
+import type { CronJob, CronJobCreate, CronJobPatch, CronRunInput, CronSchedule } from "./types.js";
 import * as ops from "./service/ops.js";
 import { type CronServiceDeps, createCronServiceState } from "./service/state.js";
 
@@ -26,6 +26,10 @@ export class CronService {
     return await ops.list(this.state, opts);
   }
 
+  async preview(opts: { id?: string; schedule?: CronSchedule; count?: number }) {
+    return await ops.preview(this.state, opts);
+  }
+
   async add(input: CronJobCreate) {
     return await ops.add(this.state, input);
   }
@@ -42,6 +46,10 @@ export class CronService {
     return await ops.run(this.state, id, mode);
   }
 
+  async replay(id: string, replayOf: { runId: string; input: CronRunInput }) {
+    return await ops.replay(this.state, id, replayOf);
+  }
+
   getJob(id: string): CronJob | undefined {
     return this.state.store?.jobs.find((job) => job.id === id);
   }
@@ -10,13 +10,14 @@ import type {
 } from "../types.js";
 import type { CronServiceState } from "./state.js";
 import { parseAbsoluteTimeMs } from "../parse.js";
-import { computeNextRunAtMs } from "../schedule.js";
+import { computeNextRunAtMs, type CronScheduleContext } from "../schedule.js";
 import {
   normalizeOptionalAgentId,
   normalizeOptionalText,
   normalizePayloadToSystemText,
   normalizeRequiredName,
 } from "./normalize.js";
+import { hasCronTriggers, normalizeCronTriggers } from "./triggers.js";
 
 const STUCK_RUN_MS = 2 * 60 * 60 * 1000;
 
@@ -35,8 +36,22 @@ export function assertSupportedJobSpec(job: Pick<CronJob, "sessionTarget" | "pay
   if (job.sessionTarget === "main" && job.payload.kind !== "systemEvent") {
     throw new Error('main cron jobs require payload.kind="systemEvent"');
   }
-  if (job.sessionTarget === "isolated" && job.payload.kind !== "agentTurn") {
-    throw new Error('isolated cron jobs require payload.kind="agentTurn"');
+  if (
+    job.sessionTarget === "isolated" &&
+    job.payload.kind !== "agentTurn" &&
+    job.payload.kind !== "workflowRun" &&
+    job.payload.kind !== "memoryConsolidate"
+  ) {
+    throw new Error(
+      'isolated cron jobs require payload.kind="agentTurn", "workflowRun" or "memoryConsolidate"',
+    );
+  }
+}
+
+function assertTriggerSupport(job: Pick<CronJob, "enabled" | "schedule" | "triggers">) {
+  // Disabled trigger jobs may lack upstreams (e.g. after the upstream was removed).
+  if (job.schedule.kind === "trigger" && job.enabled && !hasCronTriggers(job)) {
+    throw new Error('cron schedule.kind="trigger" requires triggers (onSuccess/onFailure/after)');
   }
 }
 
@@ -58,12 +73,17 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
   if (!job.enabled) {
     return undefined;
   }
+  // A fired trigger keeps the job due until it runs.
+  const pendingTrigger = job.state.pendingTrigger;
+  if (pendingTrigger && Number.isFinite(pendingTrigger.firedAtMs)) {
+    return pendingTrigger.firedAtMs;
+  }
   if (job.schedule.kind === "every") {
     const anchorMs = resolveEveryAnchorMs({
       schedule: job.schedule,
       fallbackAnchorMs: job.createdAtMs,
     });
-    return computeNextRunAtMs({ ...job.schedule, anchorMs }, nowMs);
+    return computeNextRunAtMs({ ...job.schedule, anchorMs }, nowMs, resolveScheduleContext(job));
   }
   if (job.schedule.kind === "at") {
     // One-shot jobs stay due until they successfully finish.
@@ -84,7 +104,24 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
             : null;
     return atMs !== null ? atMs : undefined;
   }
-  return computeNextRunAtMs(job.schedule, nowMs);
+  return computeNextRunAtMs(job.schedule, nowMs, resolveScheduleContext(job));
+}
+
+function resolveScheduleContext(job: CronJob): CronScheduleContext {
+  return { seed: job.id, runCount: job.state.runCount };
+}
+
+/** True once a recurring job has hit its `maxRuns` or passed its `until`. */
+export function isJobScheduleExhausted(job: CronJob, nowMs: number): boolean {
+  if (job.schedule.kind !== "every" && job.schedule.kind !== "cron") {
+    return false;
+  }
+  const { maxRuns, until } = job.schedule;
+  if (typeof maxRuns === "number" && maxRuns > 0 && (job.state.runCount ?? 0) >= maxRuns) {
+    return true;
+  }
+  const untilMs = until?.trim() ? parseAbsoluteTimeMs(until.trim()) : null;
+  return untilMs !== null && nowMs > untilMs;
 }
 
 /** Maximum consecutive schedule errors before auto-disabling a job. */
@@ -111,6 +148,10 @@ function normalizeJobTickState(params: { state: CronServiceState; job: CronJob;
       job.state.runningAtMs = undefined;
       changed = true;
     }
+    if (job.state.pendingTrigger !== undefined) {
+      job.state.pendingTrigger = undefined;
+      changed = true;
+    }
     return { changed, skip: true };
   }
 
@@ -267,12 +308,14 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
     wakeMode: input.wakeMode,
     payload: input.payload,
     delivery: input.delivery,
+    triggers: normalizeCronTriggers(input.triggers),
     state: {
       ...input.state,
     },
   };
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertTriggerSupport(job);
   job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
   return job;
 }
@@ -322,6 +365,9 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   if (job.sessionTarget === "main" && job.delivery) {
     job.delivery = undefined;
   }
+  if ("triggers" in patch) {
+    job.triggers = normalizeCronTriggers(patch.triggers);
+  }
   if (patch.state) {
     job.state = { ...job.state, ...patch.state };
   }
@@ -330,6 +376,7 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   }
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertTriggerSupport(job);
 }
 
 function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronPayload {
@@ -345,6 +392,40 @@ function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronP
     return { kind: "systemEvent", text };
   }
 
+  if (patch.kind === "workflowRun") {
+    if (existing.kind !== "workflowRun") {
+      return buildPayloadFromPatch(patch);
+    }
+    const next: Extract<CronPayload, { kind: "workflowRun" }> = { ...existing };
+    if (typeof patch.workflow === "string") {
+      next.workflow = patch.workflow;
+    }
+    if (patch.params) {
+      next.params = patch.params;
+    }
+    if (typeof patch.timeoutSeconds === "number") {
+      next.timeoutSeconds = patch.timeoutSeconds;
+    }
+    return next;
+  }
+
+  if (patch.kind === "memoryConsolidate") {
+    if (existing.kind !== "memoryConsolidate") {
+      return buildPayloadFromPatch(patch);
+    }
+    const next: Extract<CronPayload, { kind: "memoryConsolidate" }> = { ...existing };
+    if (typeof patch.model === "string") {
+      next.model = patch.model;
+    }
+    if (typeof patch.lookbackHours === "number") {
+      next.lookbackHours = patch.lookbackHours;
+    }
+    if (typeof patch.timeoutSeconds === "number") {
+      next.timeoutSeconds = patch.timeoutSeconds;
+    }
+    return next;
+  }
+
   if (existing.kind !== "agentTurn") {
     return buildPayloadFromPatch(patch);
   }
@@ -429,6 +510,27 @@ function buildPayloadFromPatch(patch: CronPayloadPatch): CronPayload {
     return { kind: "systemEvent", text: patch.text };
   }
 
+  if (patch.kind === "workflowRun") {
+    if (typeof patch.workflow !== "string" || patch.workflow.length === 0) {
+      throw new Error('cron.update payload.kind="workflowRun" requires workflow');
+    }
+    return {
+      kind: "workflowRun",
+      workflow: patch.workflow,
+      params: patch.params,
+      timeoutSeconds: patch.timeoutSeconds,
+    };
+  }
+
+  if (patch.kind === "memoryConsolidate") {
+    return {
+      kind: "memoryConsolidate",
+      model: patch.model,
+      lookbackHours: patch.lookbackHours,
+      timeoutSeconds: patch.timeoutSeconds,
+    };
+  }
+
   if (typeof patch.message !== "string" || patch.message.length === 0) {
     throw new Error('cron.update payload.kind="agentTurn" requires message');
   }
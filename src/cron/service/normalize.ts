@@ -68,6 +68,9 @@ export function inferLegacyName(job: {
   if (kind === "at") {
     return "One-shot";
   }
+  if (kind === "trigger") {
+    return "Triggered";
+  }
   return "Cron job";
 }
 
@@ -75,5 +78,11 @@ export function normalizePayloadToSystemText(payload: CronPayload) {
   if (payload.kind === "systemEvent") {
     return payload.text.trim();
   }
+  if (payload.kind === "workflowRun") {
+    return `Run workflow ${payload.workflow.trim()}`;
+  }
+  if (payload.kind === "memoryConsolidate") {
+    return "Consolidate session transcripts into memory";
+  }
   return payload.message.trim();
 }
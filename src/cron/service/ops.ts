@@ -1,5 +1,6 @@
-import type { CronJobCreate, CronJobPatch } from "../types.js";
+import type { CronJobCreate, CronJobPatch, CronRunInput, CronSchedule } from "../types.js";
 import type { CronServiceState } from "./state.js";
+import { previewNextRunsAtMs } from "../schedule.js";
 import {
   applyJobPatch,
   computeJobNextRunAtMs,
@@ -12,7 +13,17 @@ import {
 } from "./jobs.js";
 import { locked } from "./locked.js";
 import { ensureLoaded, persist, warnIfDisabled } from "./store.js";
-import { armTimer, emit, executeJob, runMissedJobs, stopTimer, wake } from "./timer.js";
+import {
+  armTimer,
+  emit,
+  executeJob,
+  removeJobFromStore,
+  replayJob,
+  runMissedJobs,
+  stopTimer,
+  wake,
+} from "./timer.js";
+import { assertValidCronTriggers, normalizeCronTriggers } from "./triggers.js";
 
 async function ensureLoadedForRead(state: CronServiceState) {
   await ensureLoaded(state, { skipRecompute: true });
@@ -86,11 +97,46 @@ export async function list(state: CronServiceState, opts?: { includeDisabled?: b
   });
 }
 
+const DEFAULT_PREVIEW_COUNT = 5;
+const MAX_PREVIEW_COUNT = 100;
+
+/** Next run times for a stored job (by id) or an ad-hoc schedule. */
+export async function preview(
+  state: CronServiceState,
+  opts: { id?: string; schedule?: CronSchedule; count?: number },
+) {
+  return await locked(state, async () => {
+    await ensureLoadedForRead(state);
+    const now = state.deps.nowMs();
+    const count = Math.max(
+      1,
+      Math.min(MAX_PREVIEW_COUNT, Math.floor(opts.count ?? DEFAULT_PREVIEW_COUNT)),
+    );
+    if (opts.id) {
+      const job = findJobOrThrow(state, opts.id);
+      const schedule =
+        job.schedule.kind === "every"
+          ? { ...job.schedule, anchorMs: job.schedule.anchorMs ?? job.createdAtMs }
+          : job.schedule;
+      const runs = previewNextRunsAtMs(schedule, now, count, {
+        seed: job.id,
+        runCount: job.state.runCount,
+      });
+      return { jobId: job.id, schedule: job.schedule, runs };
+    }
+    if (!opts.schedule) {
+      throw new Error("cron preview requires a job id or schedule");
+    }
+    return { schedule: opts.schedule, runs: previewNextRunsAtMs(opts.schedule, now, count) };
+  });
+}
+
 export async function add(state: CronServiceState, input: CronJobCreate) {
   return await locked(state, async () => {
     warnIfDisabled(state, "add");
     await ensureLoaded(state);
     const job = createJob(state, input);
+    assertValidCronTriggers(state.store?.jobs ?? [], job);
     state.store?.jobs.push(job);
 
     // Defensive: recompute all next-run times to ensure consistency
@@ -126,6 +172,13 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     await ensureLoaded(state, { skipRecompute: true });
     const job = findJobOrThrow(state, id);
     const now = state.deps.nowMs();
+    if ("triggers" in patch) {
+      // Check the trigger graph before mutating the stored job.
+      assertValidCronTriggers(state.store?.jobs ?? [], {
+        ...job,
+        triggers: normalizeCronTriggers(patch.triggers),
+      });
+    }
     applyJobPatch(job, patch);
     if (job.schedule.kind === "every") {
       const anchor = job.schedule.anchorMs;
@@ -178,17 +231,12 @@ export async function remove(state: CronServiceState, id: string) {
   return await locked(state, async () => {
     warnIfDisabled(state, "remove");
     await ensureLoaded(state);
-    const before = state.store?.jobs.length ?? 0;
     if (!state.store) {
       return { ok: false, removed: false } as const;
     }
-    state.store.jobs = state.store.jobs.filter((j) => j.id !== id);
-    const removed = (state.store.jobs.length ?? 0) !== before;
+    const removed = removeJobFromStore(state, id);
     await persist(state);
     armTimer(state);
-    if (removed) {
-      emit(state, { jobId: id, action: "removed" });
-    }
     return { ok: true, removed } as const;
   });
 }
@@ -214,6 +262,25 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
   });
 }
 
+export async function replay(
+  state: CronServiceState,
+  id: string,
+  replayOf: { runId: string; input: CronRunInput },
+) {
+  return await locked(state, async () => {
+    warnIfDisabled(state, "replay");
+    await ensureLoaded(state, { skipRecompute: true });
+    const job = findJobOrThrow(state, id);
+    if (typeof job.state.runningAtMs === "number") {
+      return { ok: true, ran: false, reason: "already-running" as const };
+    }
+    const result = await replayJob(state, job, replayOf);
+    await persist(state);
+    armTimer(state);
+    return { ok: true, ran: true, ...result } as const;
+  });
+}
+
 export function wakeNow(
   state: CronServiceState,
   opts: { mode: "now" | "next-heartbeat"; text: string },
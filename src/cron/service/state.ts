@@ -1,10 +1,22 @@
 import type { CronConfig } from "../../config/types.cron.js";
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
-import type { CronJob, CronJobCreate, CronJobPatch, CronStoreFile } from "../types.js";
+import type {
+  CronJob,
+  CronJobCreate,
+  CronJobPatch,
+  CronRunDelivery,
+  CronRunInput,
+  CronRunUsage,
+  CronStoreFile,
+} from "../types.js";
 
 export type CronEvent = {
   jobId: string;
   action: "added" | "updated" | "removed" | "started" | "finished";
+  /** Set on `started` / `finished`; identifies the run in the run log. */
+  runId?: string;
+  /** Run id this run replays (`cron.replay`). */
+  replayOf?: string;
   runAtMs?: number;
   durationMs?: number;
   status?: "ok" | "error" | "skipped";
@@ -13,6 +25,11 @@ export type CronEvent = {
   sessionId?: string;
   sessionKey?: string;
   nextRunAtMs?: number;
+  /** Final agent text of an isolated run. */
+  outputText?: string;
+  usage?: CronRunUsage;
+  delivery?: CronRunDelivery;
+  input?: CronRunInput;
 };
 
 export type Logger = {
@@ -60,6 +77,30 @@ export type CronServiceDeps = {
      * https://github.com/openclaw/openclaw/issues/15692
      */
     delivered?: boolean;
+    usage?: CronRunUsage;
+  }>;
+  /** Run a stored workflow for `payload.kind="workflowRun"` jobs and wait for it to settle. */
+  runWorkflowJob?: (params: {
+    job: CronJob;
+    workflow: string;
+    params?: Record<string, string>;
+    /** Aborted when the cron job times out; the workflow run should be cancelled. */
+    abortSignal?: AbortSignal;
+  }) => Promise<{
+    status: "ok" | "error" | "skipped";
+    summary?: string;
+    error?: string;
+    sessionKey?: string;
+  }>;
+  /** Consolidate recent session transcripts into memory for `payload.kind="memoryConsolidate"` jobs. */
+  runMemoryConsolidationJob?: (params: {
+    job: CronJob;
+    model?: string;
+    lookbackHours?: number;
+  }) => Promise<{
+    status: "ok" | "error" | "skipped";
+    summary?: string;
+    error?: string;
   }>;
   onEvent?: (evt: CronEvent) => void;
 };
@@ -1,11 +1,19 @@
+import crypto from "node:crypto";
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
-import type { CronJob } from "../types.js";
+import type {
+  CronJob,
+  CronPendingTrigger,
+  CronRunDelivery,
+  CronRunInput,
+  CronRunUsage,
+} from "../types.js";
 import type { CronEvent, CronServiceState } from "./state.js";
 import { DEFAULT_AGENT_ID } from "../../routing/session-key.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
 import { sweepCronRunSessions } from "../session-reaper.js";
 import {
   computeJobNextRunAtMs,
+  isJobScheduleExhausted,
   nextWakeAtMs,
   recomputeNextRuns,
   recomputeNextRunsForMaintenance,
@@ -13,9 +21,22 @@ import {
 } from "./jobs.js";
 import { locked } from "./locked.js";
 import { ensureLoaded, persist } from "./store.js";
+import { buildTriggeredMessage, detachCronTriggerSource, fireCronTriggers } from "./triggers.js";
 
 const MAX_TIMER_DELAY_MS = 60_000;
 
+/** Result of executing one job, before it is applied to the job state. */
+type CronCoreResult = {
+  status: "ok" | "error" | "skipped";
+  error?: string;
+  summary?: string;
+  outputText?: string;
+  sessionId?: string;
+  sessionKey?: string;
+  usage?: CronRunUsage;
+  delivery?: CronRunDelivery;
+};
+
 /**
  * Maximum wall-clock time for a single job execution. Acts as a safety net
  * on top of the per-provider / per-agent timeouts to prevent one stuck job
@@ -51,17 +72,34 @@ function applyJobResult(
   result: {
     status: "ok" | "error" | "skipped";
     error?: string;
+    runId?: string;
     startedAt: number;
     endedAt: number;
+    /** Pending trigger the run consumed (triggers fired during the run stay pending). */
+    trigger?: CronPendingTrigger;
   },
 ): boolean {
   job.state.runningAtMs = undefined;
+  const pending = job.state.pendingTrigger;
+  if (
+    pending &&
+    result.trigger &&
+    pending.jobId === result.trigger.jobId &&
+    pending.firedAtMs === result.trigger.firedAtMs
+  ) {
+    job.state.pendingTrigger = undefined;
+  }
   job.state.lastRunAtMs = result.startedAt;
   job.state.lastStatus = result.status;
   job.state.lastDurationMs = Math.max(0, result.endedAt - result.startedAt);
   job.state.lastError = result.error;
+  job.state.lastRunId = result.runId;
   job.updatedAtMs = result.endedAt;
 
+  if (result.status !== "skipped") {
+    job.state.runCount = (job.state.runCount ?? 0) + 1;
+  }
+
   // Track consecutive errors for backoff / auto-disable.
   if (result.status === "error") {
     job.state.consecutiveErrors = (job.state.consecutiveErrors ?? 0) + 1;
@@ -90,6 +128,15 @@ function applyJobResult(
           "cron: disabling one-shot job after error",
         );
       }
+    } else if (job.enabled && isJobScheduleExhausted(job, result.endedAt)) {
+      // maxRuns / until reached: the job is done, like a finished one-shot.
+      job.enabled = false;
+      job.state.nextRunAtMs = undefined;
+      job.state.pendingTrigger = undefined;
+      state.deps.log.info(
+        { jobId: job.id, jobName: job.name, runCount: job.state.runCount },
+        "cron: schedule ended; disabling job",
+      );
     } else if (result.status === "error" && job.enabled) {
       // Apply exponential backoff for errored jobs to prevent retry storms.
       const backoff = errorBackoffMs(job.state.consecutiveErrors ?? 1);
@@ -210,39 +257,52 @@ export async function onTimer(state: CronServiceState) {
       }));
     });
 
-    const results: Array<{
-      jobId: string;
-      status: "ok" | "error" | "skipped";
-      error?: string;
-      summary?: string;
-      sessionId?: string;
-      sessionKey?: string;
-      startedAt: number;
-      endedAt: number;
-    }> = [];
+    const results: Array<
+      CronCoreResult & {
+        jobId: string;
+        runId: string;
+        input: CronRunInput;
+        startedAt: number;
+        endedAt: number;
+        trigger?: CronPendingTrigger;
+      }
+    > = [];
 
     for (const { id, job } of dueJobs) {
       const startedAt = state.deps.nowMs();
+      const runId = crypto.randomUUID();
+      const trigger = job.state.pendingTrigger;
+      const input: CronRunInput = { payload: job.payload, trigger };
       job.state.runningAtMs = startedAt;
-      emit(state, { jobId: job.id, action: "started", runAtMs: startedAt });
+      emit(state, { jobId: job.id, action: "started", runId, runAtMs: startedAt });
 
       const jobTimeoutMs =
-        job.payload.kind === "agentTurn" && typeof job.payload.timeoutSeconds === "number"
+        job.payload.kind !== "systemEvent" && typeof job.payload.timeoutSeconds === "number"
           ? job.payload.timeoutSeconds * 1_000
           : DEFAULT_JOB_TIMEOUT_MS;
 
       try {
         let timeoutId: NodeJS.Timeout;
+        // Aborted on timeout so work that outlives the race (workflow runs) is cancelled.
+        const abortController = new AbortController();
         const result = await Promise.race([
-          executeJobCore(state, job),
+          executeJobCore(state, job, trigger, abortController.signal),
           new Promise<never>((_, reject) => {
-            timeoutId = setTimeout(
-              () => reject(new Error("cron: job execution timed out")),
-              jobTimeoutMs,
-            );
+            timeoutId = setTimeout(() => {
+              abortController.abort();
+              reject(new Error("cron: job execution timed out"));
+            }, jobTimeoutMs);
           }),
         ]).finally(() => clearTimeout(timeoutId!));
-        results.push({ jobId: id, ...result, startedAt, endedAt: state.deps.nowMs() });
+        results.push({
+          jobId: id,
+          ...result,
+          runId,
+          input,
+          startedAt,
+          endedAt: state.deps.nowMs(),
+          trigger,
+        });
       } catch (err) {
         state.deps.log.warn(
           { jobId: id, jobName: job.name, timeoutMs: jobTimeoutMs },
@@ -252,8 +312,11 @@ export async function onTimer(state: CronServiceState) {
           jobId: id,
           status: "error",
           error: String(err),
+          runId,
+          input,
           startedAt,
           endedAt: state.deps.nowMs(),
+          trigger,
         });
       }
     }
@@ -271,15 +334,26 @@ export async function onTimer(state: CronServiceState) {
           const shouldDelete = applyJobResult(state, job, {
             status: result.status,
             error: result.error,
+            runId: result.runId,
             startedAt: result.startedAt,
             endedAt: result.endedAt,
+            trigger: result.trigger,
+          });
+          fireCronTriggers(state, job, {
+            status: result.status,
+            error: result.error,
+            output: result.outputText ?? result.summary,
+            endedAt: result.endedAt,
           });
 
-          emitJobFinished(state, job, result, result.startedAt);
+          emitJobFinished(state, job, result, {
+            runId: result.runId,
+            input: result.input,
+            runAtMs: result.startedAt,
+          });
 
-          if (shouldDelete && state.store) {
-            state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
-            emit(state, { jobId: job.id, action: "removed" });
+          if (shouldDelete) {
+            removeJobFromStore(state, job.id);
           }
         }
 
@@ -416,13 +490,9 @@ export async function runDueJobs(state: CronServiceState) {
 async function executeJobCore(
   state: CronServiceState,
   job: CronJob,
-): Promise<{
-  status: "ok" | "error" | "skipped";
-  error?: string;
-  summary?: string;
-  sessionId?: string;
-  sessionKey?: string;
-}> {
+  trigger: CronPendingTrigger | undefined,
+  abortSignal?: AbortSignal,
+): Promise<CronCoreResult> {
   if (job.sessionTarget === "main") {
     const text = resolveJobPayloadTextForMain(job);
     if (!text) {
@@ -475,13 +545,39 @@ async function executeJobCore(
     }
   }
 
+  if (job.payload.kind === "workflowRun") {
+    if (!state.deps.runWorkflowJob) {
+      return { status: "skipped", error: "workflow jobs are not supported by this cron service" };
+    }
+    return await state.deps.runWorkflowJob({
+      job,
+      workflow: job.payload.workflow,
+      params: job.payload.params,
+      abortSignal,
+    });
+  }
+
+  if (job.payload.kind === "memoryConsolidate") {
+    if (!state.deps.runMemoryConsolidationJob) {
+      return {
+        status: "skipped",
+        error: "memory consolidation jobs are not supported by this cron service",
+      };
+    }
+    return await state.deps.runMemoryConsolidationJob({
+      job,
+      model: job.payload.model,
+      lookbackHours: job.payload.lookbackHours,
+    });
+  }
+
   if (job.payload.kind !== "agentTurn") {
     return { status: "skipped", error: "isolated job requires payload.kind=agentTurn" };
   }
 
   const res = await state.deps.runIsolatedAgentJob({
     job,
-    message: job.payload.message,
+    message: buildTriggeredMessage(job, job.payload.message, trigger),
   });
 
   // Post a short summary back to the main session — but only when the
@@ -509,8 +605,16 @@ async function executeJobCore(
     status: res.status,
     error: res.error,
     summary: res.summary,
+    outputText: res.outputText,
     sessionId: res.sessionId,
     sessionKey: res.sessionKey,
+    usage: res.usage,
+    delivery: {
+      requested: deliveryPlan.requested,
+      delivered: res.delivered === true,
+      channel: deliveryPlan.requested ? deliveryPlan.channel : undefined,
+      to: deliveryPlan.requested ? deliveryPlan.to : undefined,
+    },
   };
 }
 
@@ -528,19 +632,16 @@ export async function executeJob(
     job.state = {};
   }
   const startedAt = state.deps.nowMs();
+  const runId = crypto.randomUUID();
+  const trigger = job.state.pendingTrigger;
+  const input: CronRunInput = { payload: job.payload, trigger };
   job.state.runningAtMs = startedAt;
   job.state.lastError = undefined;
-  emit(state, { jobId: job.id, action: "started", runAtMs: startedAt });
+  emit(state, { jobId: job.id, action: "started", runId, runAtMs: startedAt });
 
-  let coreResult: {
-    status: "ok" | "error" | "skipped";
-    error?: string;
-    summary?: string;
-    sessionId?: string;
-    sessionKey?: string;
-  };
+  let coreResult: CronCoreResult;
   try {
-    coreResult = await executeJobCore(state, job);
+    coreResult = await executeJobCore(state, job, trigger);
   } catch (err) {
     coreResult = { status: "error", error: String(err) };
   }
@@ -549,41 +650,97 @@ export async function executeJob(
   const shouldDelete = applyJobResult(state, job, {
     status: coreResult.status,
     error: coreResult.error,
+    runId,
     startedAt,
     endedAt,
+    trigger,
+  });
+  fireCronTriggers(state, job, {
+    status: coreResult.status,
+    error: coreResult.error,
+    output: coreResult.outputText ?? coreResult.summary,
+    endedAt,
   });
 
-  emitJobFinished(state, job, coreResult, startedAt);
+  emitJobFinished(state, job, coreResult, { runId, input, runAtMs: startedAt });
+
+  if (shouldDelete) {
+    removeJobFromStore(state, job.id);
+  }
+}
+
+/**
+ * Re-run a job with the inputs recorded for an earlier run (`cron.replay`).
+ * Replays are logged like other runs but leave the job's schedule state,
+ * run count and triggers untouched.
+ */
+export async function replayJob(
+  state: CronServiceState,
+  job: CronJob,
+  replay: { runId: string; input: CronRunInput },
+) {
+  const startedAt = state.deps.nowMs();
+  const runId = crypto.randomUUID();
+  job.state.runningAtMs = startedAt;
+  emit(state, {
+    jobId: job.id,
+    action: "started",
+    runId,
+    replayOf: replay.runId,
+    runAtMs: startedAt,
+  });
 
-  if (shouldDelete && state.store) {
-    state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
-    emit(state, { jobId: job.id, action: "removed" });
+  let coreResult: CronCoreResult;
+  try {
+    coreResult = await executeJobCore(
+      state,
+      { ...job, payload: replay.input.payload },
+      replay.input.trigger,
+    );
+  } catch (err) {
+    coreResult = { status: "error", error: String(err) };
   }
+  job.state.runningAtMs = undefined;
+
+  emitJobFinished(state, job, coreResult, {
+    runId,
+    replayOf: replay.runId,
+    input: replay.input,
+    runAtMs: startedAt,
+    durationMs: Math.max(0, state.deps.nowMs() - startedAt),
+  });
+  return { runId, status: coreResult.status, error: coreResult.error };
 }
 
 function emitJobFinished(
   state: CronServiceState,
   job: CronJob,
-  result: {
-    status: "ok" | "error" | "skipped";
-    error?: string;
-    summary?: string;
-    sessionId?: string;
-    sessionKey?: string;
+  result: CronCoreResult,
+  run: {
+    runId: string;
+    input: CronRunInput;
+    runAtMs: number;
+    replayOf?: string;
+    durationMs?: number;
   },
-  runAtMs: number,
 ) {
   emit(state, {
     jobId: job.id,
     action: "finished",
+    runId: run.runId,
+    replayOf: run.replayOf,
     status: result.status,
     error: result.error,
     summary: result.summary,
     sessionId: result.sessionId,
     sessionKey: result.sessionKey,
-    runAtMs,
-    durationMs: job.state.lastDurationMs,
+    runAtMs: run.runAtMs,
+    durationMs: run.durationMs ?? job.state.lastDurationMs,
     nextRunAtMs: job.state.nextRunAtMs,
+    outputText: result.outputText,
+    usage: result.usage,
+    delivery: result.delivery,
+    input: run.input,
   });
 }
 
@@ -609,6 +766,23 @@ export function stopTimer(state: CronServiceState) {
   state.timer = null;
 }
 
+/** Delete a job and drop it from other jobs' triggers; false when it was not stored. */
+export function removeJobFromStore(state: CronServiceState, jobId: string): boolean {
+  if (!state.store) {
+    return false;
+  }
+  const before = state.store.jobs.length;
+  state.store.jobs = state.store.jobs.filter((j) => j.id !== jobId);
+  if (state.store.jobs.length === before) {
+    return false;
+  }
+  emit(state, { jobId, action: "removed" });
+  for (const job of detachCronTriggerSource(state, jobId)) {
+    emit(state, { jobId: job.id, action: "updated", nextRunAtMs: job.state.nextRunAtMs });
+  }
+  return true;
+}
+
 export function emit(state: CronServiceState, evt: CronEvent) {
   try {
     state.deps.onEvent?.(evt);
@@ -0,0 +1,205 @@
+import type { CronJob, CronPendingTrigger, CronTriggers } from "../types.js";
+import type { CronServiceState } from "./state.js";
+import { truncateUtf16Safe } from "../../utils.js";
+
+/** Upstream output kept on the downstream job (persisted in the cron store). */
+const MAX_TRIGGER_OUTPUT_CHARS = 8_000;
+
+function listTriggerSources(triggers: CronTriggers | undefined): string[] {
+  if (!triggers) {
+    return [];
+  }
+  return Array.from(
+    new Set([
+      ...(triggers.onSuccess ?? []),
+      ...(triggers.onFailure ?? []),
+      ...(triggers.after ?? []),
+    ]),
+  );
+}
+
+function normalizeIdList(list: unknown): string[] | undefined {
+  if (!Array.isArray(list)) {
+    return undefined;
+  }
+  const ids = Array.from(
+    new Set(
+      list.filter((entry): entry is string => typeof entry === "string").map((id) => id.trim()),
+    ),
+  ).filter(Boolean);
+  return ids.length > 0 ? ids : undefined;
+}
+
+export function normalizeCronTriggers(
+  raw: CronTriggers | null | undefined,
+): CronTriggers | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  const next: CronTriggers = {
+    onSuccess: normalizeIdList(raw.onSuccess),
+    onFailure: normalizeIdList(raw.onFailure),
+    after: normalizeIdList(raw.after),
+    passOutput: typeof raw.passOutput === "boolean" ? raw.passOutput : undefined,
+  };
+  if (listTriggerSources(next).length === 0) {
+    return undefined;
+  }
+  return next;
+}
+
+export function hasCronTriggers(job: Pick<CronJob, "triggers">): boolean {
+  return listTriggerSources(job.triggers).length > 0;
+}
+
+function matchesTrigger(triggers: CronTriggers, upstreamId: string, status: "ok" | "error") {
+  if (triggers.after?.includes(upstreamId)) {
+    return true;
+  }
+  if (status === "ok") {
+    return triggers.onSuccess?.includes(upstreamId) === true;
+  }
+  return triggers.onFailure?.includes(upstreamId) === true;
+}
+
+/**
+ * Validate the trigger graph after `job` was added or changed: every upstream
+ * id must exist and following upstream edges must never lead back to `job`.
+ */
+export function assertValidCronTriggers(jobs: CronJob[], job: CronJob) {
+  const sources = listTriggerSources(job.triggers);
+  if (sources.length === 0) {
+    return;
+  }
+  const byId = new Map(jobs.map((entry) => [entry.id, entry]));
+  byId.set(job.id, job);
+  for (const id of sources) {
+    if (id !== job.id && !byId.has(id)) {
+      throw new Error(`cron trigger references unknown job id: ${id}`);
+    }
+  }
+
+  const visited = new Set<string>();
+  const findPathBack = (currentId: string, path: string[]): string[] | null => {
+    for (const upstreamId of listTriggerSources(byId.get(currentId)?.triggers)) {
+      if (upstreamId === job.id) {
+        return [...path, upstreamId];
+      }
+      if (visited.has(upstreamId)) {
+        continue;
+      }
+      visited.add(upstreamId);
+      const found = findPathBack(upstreamId, [...path, upstreamId]);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  };
+  const cycle = findPathBack(job.id, [job.id]);
+  if (cycle) {
+    // Edges point upstream; print the chain in run order.
+    throw new Error(`cron trigger cycle: ${cycle.toReversed().join(" -> ")}`);
+  }
+}
+
+/**
+ * Drop a removed job from every other job's triggers so later edits still pass
+ * validation. Trigger-only jobs left without any upstream are disabled, since
+ * nothing can fire them anymore; a run the removed job already fired (one-shot
+ * `deleteAfterRun` jobs) still goes ahead. Returns the jobs that changed.
+ */
+export function detachCronTriggerSource(state: CronServiceState, removedId: string): CronJob[] {
+  const changed: CronJob[] = [];
+  for (const job of state.store?.jobs ?? []) {
+    if (!listTriggerSources(job.triggers).includes(removedId)) {
+      continue;
+    }
+    const without = (list: string[] | undefined) => list?.filter((id) => id !== removedId);
+    job.triggers = normalizeCronTriggers({
+      ...job.triggers,
+      onSuccess: without(job.triggers?.onSuccess),
+      onFailure: without(job.triggers?.onFailure),
+      after: without(job.triggers?.after),
+    });
+    job.updatedAtMs = state.deps.nowMs();
+    if (
+      job.schedule.kind === "trigger" &&
+      !job.triggers &&
+      job.enabled &&
+      !job.state.pendingTrigger
+    ) {
+      job.enabled = false;
+      job.state.nextRunAtMs = undefined;
+      state.deps.log.warn(
+        { jobId: job.id, jobName: job.name, removedJobId: removedId },
+        "cron: disabled trigger job after its last upstream job was removed",
+      );
+    }
+    changed.push(job);
+  }
+  return changed;
+}
+
+/**
+ * Mark jobs that listen for `upstream` as due. The pending trigger keeps the
+ * upstream output so the downstream agentTurn can read it, and pins
+ * `nextRunAtMs` until the downstream job runs (see computeJobNextRunAtMs).
+ */
+export function fireCronTriggers(
+  state: CronServiceState,
+  upstream: CronJob,
+  result: {
+    status: "ok" | "error" | "skipped";
+    error?: string;
+    output?: string;
+    endedAt: number;
+  },
+) {
+  if (result.status === "skipped" || !state.store) {
+    return;
+  }
+  const status = result.status;
+  const output = result.output?.trim();
+  for (const job of state.store.jobs) {
+    if (job.id === upstream.id || !job.enabled || !job.triggers) {
+      continue;
+    }
+    if (!matchesTrigger(job.triggers, upstream.id, status)) {
+      continue;
+    }
+    job.state.pendingTrigger = {
+      jobId: upstream.id,
+      jobName: upstream.name,
+      status,
+      firedAtMs: result.endedAt,
+      output: output ? truncateUtf16Safe(output, MAX_TRIGGER_OUTPUT_CHARS) : undefined,
+      error: result.error,
+    };
+    job.state.nextRunAtMs = result.endedAt;
+    state.deps.log.info(
+      { jobId: job.id, jobName: job.name, upstreamJobId: upstream.id, status },
+      "cron: trigger fired",
+    );
+  }
+}
+
+/** agentTurn message for a triggered run, with the upstream result appended. */
+export function buildTriggeredMessage(
+  job: Pick<CronJob, "triggers">,
+  message: string,
+  trigger: CronPendingTrigger | undefined,
+): string {
+  if (!trigger || job.triggers?.passOutput === false) {
+    return message;
+  }
+  const label = trigger.jobName ? `"${trigger.jobName}" (${trigger.jobId})` : trigger.jobId;
+  const lines = [`Triggered by cron job ${label}, status: ${trigger.status}.`];
+  if (trigger.error) {
+    lines.push(`Error: ${trigger.error}`);
+  }
+  if (trigger.output) {
+    lines.push("Output:", trigger.output);
+  }
+  return `${message}\n\n${lines.join("\n")}`;
+}
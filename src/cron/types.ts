@@ -1,9 +1,32 @@
 import type { ChannelId } from "../channels/plugins/types.js";
 
+/** Optional limits for recurring (`every` / `cron`) schedules. */
+export type CronScheduleConstraints = {
+  /** Random delay (0..jitterMs) added to each run; stable per job and slot. */
+  jitterMs?: number;
+  /** Only run inside this daily window (same shape as heartbeat activeHours). */
+  activeHours?: {
+    /** Start time (24h, HH:MM). Inclusive. */
+    start?: string;
+    /** End time (24h, HH:MM). Exclusive. Use "24:00" for end-of-day. */
+    end?: string;
+    /** "local" or an IANA timezone. Default: schedule tz, else local. */
+    timezone?: string;
+  };
+  /** ICS file whose events block runs (e.g. public holidays). */
+  excludeCalendar?: string;
+  /** Stop scheduling runs after this time (ISO 8601). */
+  until?: string;
+  /** Stop after this many runs (ok or error). */
+  maxRuns?: number;
+};
+
 export type CronSchedule =
   | { kind: "at"; at: string }
-  | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string };
+  | ({ kind: "every"; everyMs: number; anchorMs?: number } & CronScheduleConstraints)
+  | ({ kind: "cron"; expr: string; tz?: string } & CronScheduleConstraints)
+  /** No clock schedule: the job only runs when one of its `triggers` fires. */
+  | { kind: "trigger" };
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -21,6 +44,31 @@ export type CronDelivery = {
 
 export type CronDeliveryPatch = Partial<CronDelivery>;
 
+/**
+ * Job-to-job triggers. Each list holds upstream job ids; a finished upstream
+ * run makes this job due immediately (on top of its own schedule).
+ */
+export type CronTriggers = {
+  /** Run after any listed job finishes with status "ok". */
+  onSuccess?: string[];
+  /** Run after any listed job finishes with status "error". */
+  onFailure?: string[];
+  /** Run after any listed job finishes, whatever the outcome (skipped runs excluded). */
+  after?: string[];
+  /** Append the upstream run's output to the agentTurn message (default: true). */
+  passOutput?: boolean;
+};
+
+/** Upstream run that made a triggered job due; cleared once the job runs. */
+export type CronPendingTrigger = {
+  jobId: string;
+  jobName?: string;
+  status: "ok" | "error";
+  firedAtMs: number;
+  output?: string;
+  error?: string;
+};
+
 export type CronPayload =
   | { kind: "systemEvent"; text: string }
   | {
@@ -35,6 +83,21 @@ export type CronPayload =
       channel?: CronMessageChannel;
       to?: string;
       bestEffortDeliver?: boolean;
+    }
+  | {
+      kind: "workflowRun";
+      /** Name of a stored workflow definition. */
+      workflow: string;
+      params?: Record<string, string>;
+      timeoutSeconds?: number;
+    }
+  | {
+      kind: "memoryConsolidate";
+      /** Extraction model override (provider/model or alias); default: the agent's model. */
+      model?: string;
+      /** Only transcripts modified within this many hours (default 24). */
+      lookbackHours?: number;
+      timeoutSeconds?: number;
     };
 
 export type CronPayloadPatch =
@@ -50,8 +113,46 @@ export type CronPayloadPatch =
       channel?: CronMessageChannel;
       to?: string;
       bestEffortDeliver?: boolean;
+    }
+  | {
+      kind: "workflowRun";
+      workflow?: string;
+      params?: Record<string, string>;
+      timeoutSeconds?: number;
+    }
+  | {
+      kind: "memoryConsolidate";
+      model?: string;
+      lookbackHours?: number;
+      timeoutSeconds?: number;
     };
 
+/** Token usage and cost of one isolated run, read from its session transcript. */
+export type CronRunUsage = {
+  model?: string;
+  provider?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  totalTokens?: number;
+  costUsd?: number;
+};
+
+/** Whether a run's output reached the configured delivery target. */
+export type CronRunDelivery = {
+  requested: boolean;
+  delivered: boolean;
+  channel?: string;
+  to?: string;
+};
+
+/** What a run executed with; kept in the run log so `cron.replay` can repeat it. */
+export type CronRunInput = {
+  payload: CronPayload;
+  trigger?: CronPendingTrigger;
+};
+
 export type CronJobState = {
   nextRunAtMs?: number;
   runningAtMs?: number;
@@ -59,10 +160,16 @@ export type CronJobState = {
   lastStatus?: "ok" | "error" | "skipped";
   lastError?: string;
   lastDurationMs?: number;
+  /** Run log id of the last run (see `cron.runs`). */
+  lastRunId?: string;
   /** Number of consecutive execution errors (reset on success). Used for backoff. */
   consecutiveErrors?: number;
   /** Number of consecutive schedule computation errors. Auto-disables job after threshold. */
   scheduleErrorCount?: number;
+  /** Completed runs (ok or error); compared against schedule.maxRuns. */
+  runCount?: number;
+  /** Set when an upstream job's trigger fired and this job has not run since. */
+  pendingTrigger?: CronPendingTrigger;
 };
 
 export type CronJob = {
@@ -80,6 +187,7 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  triggers?: CronTriggers;
   state: CronJobState;
 };
 
@@ -92,8 +200,12 @@ export type CronJobCreate = Omit<CronJob, "id" | "createdAtMs" | "updatedAtMs" |
   state?: Partial<CronJobState>;
 };
 
-export type CronJobPatch = Partial<Omit<CronJob, "id" | "createdAtMs" | "state" | "payload">> & {
+export type CronJobPatch = Partial<
+  Omit<CronJob, "id" | "createdAtMs" | "state" | "payload" | "triggers">
+> & {
   payload?: CronPayloadPatch;
   delivery?: CronDeliveryPatch;
+  /** Replaces the job's triggers; `null` clears them. */
+  triggers?: CronTriggers | null;
   state?: Partial<CronJobState>;
 };
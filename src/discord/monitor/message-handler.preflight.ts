@@ -28,7 +28,7 @@ import {
   readChannelAllowFromStore,
   upsertChannelPairingRequest,
 } from "../../pairing/pairing-store.js";
-import { resolveAgentRoute } from "../../routing/resolve-route.js";
+import { resolveAgentRouteWithIntent } from "../../routing/intent-router.js";
 import { fetchPluralKitMessageInfo } from "../pluralkit.js";
 import { sendMessageDiscord } from "../send.js";
 import {
@@ -240,7 +240,7 @@ export async function preflightDiscordMessage(
   const memberRoleIds = Array.isArray(params.data.rawMember?.roles)
     ? params.data.rawMember.roles.map((roleId: string) => String(roleId))
     : [];
-  const route = resolveAgentRoute({
+  const route = await resolveAgentRouteWithIntent({
     cfg: loadConfig(),
     channel: "discord",
     accountId: params.accountId,
@@ -252,6 +252,12 @@ export async function preflightDiscordMessage(
     },
     // Pass parent peer for thread binding inheritance
     parentPeer: earlyThreadParentId ? { kind: "channel", id: earlyThreadParentId } : undefined,
+    message: {
+      text: baseText,
+      senderId: sender.id,
+      senderUsername: sender.name,
+      senderName: author.globalName ?? sender.name,
+    },
   });
   const mentionRegexes = buildMentionRegexes(params.cfg, route.agentId);
   const explicitlyMentioned = Boolean(
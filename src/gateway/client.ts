@@ -7,6 +7,7 @@ import {
   publicKeyRawBase64UrlFromPem,
   signDevicePayload,
 } from "../infra/device-identity.js";
+import { getActiveTraceparent } from "../infra/diagnostic-trace.js";
 import { normalizeFingerprint } from "../infra/tls/fingerprint.js";
 import { rawDataToString } from "../infra/ws.js";
 import { logDebug, logError } from "../logger.js";
@@ -424,7 +425,14 @@ export class GatewayClient {
       throw new Error("gateway not connected");
     }
     const id = randomUUID();
-    const frame: RequestFrame = { type: "req", id, method, params };
+    const traceparent = getActiveTraceparent();
+    const frame: RequestFrame = {
+      type: "req",
+      id,
+      method,
+      params,
+      ...(traceparent ? { traceparent } : {}),
+    };
     if (!validateRequestFrame(frame)) {
       throw new Error(
         `invalid request frame: ${JSON.stringify(validateRequestFrame.errors, null, 2)}`,
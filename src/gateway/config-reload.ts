@@ -20,6 +20,7 @@ export type GatewayReloadPlan = {
   restartGmailWatcher: boolean;
   restartBrowserControl: boolean;
   restartCron: boolean;
+  restartTaskQueue: boolean;
   restartHeartbeat: boolean;
   restartChannels: Set<ChannelKind>;
   noopPaths: string[];
@@ -36,6 +37,7 @@ type ReloadAction =
   | "restart-gmail-watcher"
   | "restart-browser-control"
   | "restart-cron"
+  | "restart-task-queue"
   | "restart-heartbeat"
   | `restart-channel:${ChannelId}`;
 
@@ -56,6 +58,12 @@ const BASE_RELOAD_RULES: ReloadRule[] = [
   },
   { prefix: "agent.heartbeat", kind: "hot", actions: ["restart-heartbeat"] },
   { prefix: "cron", kind: "hot", actions: ["restart-cron"] },
+  { prefix: "taskQueue", kind: "hot", actions: ["restart-task-queue"] },
+  // The security audit monitor picks up its config on every hot reload.
+  { prefix: "security.audit", kind: "hot" },
+  { prefix: "budgets", kind: "none" },
+  { prefix: "security.injection", kind: "none" },
+  { prefix: "security.skillScan", kind: "none" },
   {
     prefix: "browser",
     kind: "hot",
@@ -181,6 +189,7 @@ export function buildGatewayReloadPlan(changedPaths: string[]): GatewayReloadPla
     restartGmailWatcher: false,
     restartBrowserControl: false,
     restartCron: false,
+    restartTaskQueue: false,
     restartHeartbeat: false,
     restartChannels: new Set(),
     noopPaths: [],
@@ -205,6 +214,9 @@ export function buildGatewayReloadPlan(changedPaths: string[]): GatewayReloadPla
       case "restart-cron":
         plan.restartCron = true;
         break;
+      case "restart-task-queue":
+        plan.restartTaskQueue = true;
+        break;
       case "restart-heartbeat":
         plan.restartHeartbeat = true;
         break;
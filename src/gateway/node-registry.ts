@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
 import type { GatewayWsClient } from "./server/ws-types.js";
+import { getActiveTraceparent, withDiagnosticSpan } from "../infra/diagnostic-trace.js";
 
 export type NodeSession = {
   nodeId: string;
@@ -28,6 +29,14 @@ type PendingInvoke = {
   timer: ReturnType<typeof setTimeout>;
 };
 
+type NodeInvokeParams = {
+  nodeId: string;
+  command: string;
+  params?: unknown;
+  timeoutMs?: number;
+  idempotencyKey?: string;
+};
+
 export type NodeInvokeResult = {
   ok: boolean;
   payload?: unknown;
@@ -104,13 +113,24 @@ export class NodeRegistry {
     return this.nodesById.get(nodeId);
   }
 
-  async invoke(params: {
-    nodeId: string;
-    command: string;
-    params?: unknown;
-    timeoutMs?: number;
-    idempotencyKey?: string;
-  }): Promise<NodeInvokeResult> {
+  async invoke(params: NodeInvokeParams): Promise<NodeInvokeResult> {
+    return await withDiagnosticSpan(
+      "openclaw.node.invoke",
+      {
+        kind: "client",
+        attributes: { "openclaw.nodeId": params.nodeId, "openclaw.command": params.command },
+      },
+      async (span) => {
+        const result = await this.sendInvoke(params);
+        if (!result.ok) {
+          span?.recordError(new Error(result.error?.message ?? "node invoke failed"));
+        }
+        return result;
+      },
+    );
+  }
+
+  private async sendInvoke(params: NodeInvokeParams): Promise<NodeInvokeResult> {
     const node = this.nodesById.get(params.nodeId);
     if (!node) {
       return {
@@ -127,6 +147,7 @@ export class NodeRegistry {
         "params" in params && params.params !== undefined ? JSON.stringify(params.params) : null,
       timeoutMs: params.timeoutMs,
       idempotencyKey: params.idempotencyKey,
+      traceparent: getActiveTraceparent(),
     };
     const ok = this.sendEventToSession(node, "node.invoke.request", payload);
     if (!ok) {
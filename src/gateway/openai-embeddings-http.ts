@@ -0,0 +1,165 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { GatewayHttpEmbeddingsConfig } from "../config/types.gateway.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { resolveAgentDir } from "../agents/agent-scope.js";
+import { resolveMemorySearchConfig } from "../agents/memory-search.js";
+import { loadConfig } from "../config/config.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import { logWarn } from "../logger.js";
+import { createEmbeddingProvider, type EmbeddingProviderResult } from "../memory/embeddings.js";
+import { sendJson } from "./http-common.js";
+import { handleGatewayPostJsonEndpoint } from "./http-endpoint-helpers.js";
+import { resolveAgentIdForRequest } from "./http-utils.js";
+
+const DEFAULT_EMBEDDINGS_BODY_BYTES = 1024 * 1024;
+const DEFAULT_EMBEDDINGS_MAX_INPUTS = 256;
+
+type OpenAiEmbeddingsHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  config?: GatewayHttpEmbeddingsConfig;
+  trustedProxies?: string[];
+  rateLimiter?: AuthRateLimiter;
+};
+
+type OpenAiEmbeddingsRequest = {
+  input?: unknown;
+  model?: unknown;
+  encoding_format?: unknown;
+};
+
+// Providers are reused across requests; local models are expensive to load.
+const PROVIDER_CACHE = new Map<string, Promise<EmbeddingProviderResult>>();
+
+export function __resetEmbeddingProviderCacheForTest() {
+  PROVIDER_CACHE.clear();
+}
+
+function sendInvalidRequest(res: ServerResponse, message: string) {
+  sendJson(res, 400, { error: { message, type: "invalid_request_error" } });
+}
+
+function coerceInputs(value: unknown): string[] | null {
+  const inputs = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return null;
+  }
+  if (!inputs.every((input) => typeof input === "string" && input.length > 0)) {
+    return null;
+  }
+  return inputs as string[];
+}
+
+function encodeBase64(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString("base64");
+}
+
+async function resolveEmbeddingProvider(agentId: string): Promise<EmbeddingProviderResult | null> {
+  const cfg = loadConfig();
+  const settings = resolveMemorySearchConfig(cfg, agentId);
+  if (!settings) {
+    return null;
+  }
+  const key = `${agentId}:${JSON.stringify([
+    settings.provider,
+    settings.model,
+    settings.fallback,
+    settings.remote,
+    settings.local,
+    settings.onnx,
+  ])}`;
+  let pending = PROVIDER_CACHE.get(key);
+  if (!pending) {
+    pending = createEmbeddingProvider({
+      config: cfg,
+      agentDir: resolveAgentDir(cfg, agentId),
+      provider: settings.provider,
+      remote: settings.remote,
+      model: settings.model,
+      fallback: settings.fallback,
+      local: settings.local,
+      onnx: settings.onnx,
+    });
+    PROVIDER_CACHE.set(key, pending);
+    pending.catch(() => PROVIDER_CACHE.delete(key));
+  }
+  return await pending;
+}
+
+export async function handleOpenAiEmbeddingsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: OpenAiEmbeddingsHttpOptions,
+): Promise<boolean> {
+  const handled = await handleGatewayPostJsonEndpoint(req, res, {
+    pathname: "/v1/embeddings",
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    rateLimiter: opts.rateLimiter,
+    maxBodyBytes: opts.config?.maxBodyBytes ?? DEFAULT_EMBEDDINGS_BODY_BYTES,
+  });
+  if (handled === false) {
+    return false;
+  }
+  if (!handled) {
+    return true;
+  }
+
+  const payload = (
+    handled.body && typeof handled.body === "object" ? handled.body : {}
+  ) as OpenAiEmbeddingsRequest;
+  const inputs = coerceInputs(payload.input);
+  if (!inputs) {
+    sendInvalidRequest(res, "`input` must be a non-empty string or array of non-empty strings.");
+    return true;
+  }
+  const maxInputs = opts.config?.maxInputs ?? DEFAULT_EMBEDDINGS_MAX_INPUTS;
+  if (inputs.length > maxInputs) {
+    sendInvalidRequest(res, `Too many inputs (${inputs.length}); the limit is ${maxInputs}.`);
+    return true;
+  }
+  const encoding = payload.encoding_format ?? "float";
+  if (encoding !== "float" && encoding !== "base64") {
+    sendInvalidRequest(res, "`encoding_format` must be `float` or `base64`.");
+    return true;
+  }
+
+  // Only agent refs (`openclaw:<agentId>`) pick the provider; other model names
+  // are ignored and the agent's configured embedding model answers.
+  const model = typeof payload.model === "string" ? payload.model : undefined;
+  const agentId = resolveAgentIdForRequest({ req, model });
+
+  try {
+    const result = await resolveEmbeddingProvider(agentId);
+    if (!result) {
+      sendInvalidRequest(
+        res,
+        `Embeddings are unavailable: memory search is disabled for agent "${agentId}".`,
+      );
+      return true;
+    }
+    // `usage` carries the provider's own token counts; providers that do not
+    // report them (local, ONNX, Gemini) get no `usage` rather than a guess.
+    const { vectors, usage } = result.provider.embedBatchWithUsage
+      ? await result.provider.embedBatchWithUsage(inputs)
+      : { vectors: await result.provider.embedBatch(inputs), usage: undefined };
+    sendJson(res, 200, {
+      object: "list",
+      data: vectors.map((vector, index) => ({
+        object: "embedding",
+        index,
+        embedding: encoding === "base64" ? encodeBase64(vector) : vector,
+      })),
+      model: result.provider.model,
+      ...(usage
+        ? { usage: { prompt_tokens: usage.promptTokens, total_tokens: usage.totalTokens } }
+        : {}),
+    });
+  } catch (err) {
+    logWarn(`openai-compat: embeddings failed: ${formatErrorMessage(err)}`);
+    sendJson(res, 500, {
+      error: { message: "embedding provider failed", type: "api_error" },
+    });
+  }
+  return true;
+}
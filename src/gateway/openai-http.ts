@@ -5,6 +5,7 @@ import type { ResolvedGatewayAuth } from "./auth.js";
 import { createDefaultDeps } from "../cli/deps.js";
 import { agentCommand } from "../commands/agent.js";
 import { emitAgentEvent, onAgentEvent } from "../infra/agent-events.js";
+import { parseTraceparent, withDiagnosticSpan } from "../infra/diagnostic-trace.js";
 import { logWarn } from "../logger.js";
 import { defaultRuntime } from "../runtime.js";
 import { resolveAssistantStreamDeltaText } from "./agent-event-assistant-text.js";
@@ -180,22 +181,38 @@ export async function handleOpenAiHttpRequest(
 
   const runId = `chatcmpl_${randomUUID()}`;
   const deps = createDefaultDeps();
+  // Callers may send a W3C `traceparent` header to continue their own trace.
+  const runAgent = () =>
+    withDiagnosticSpan(
+      "openclaw.http.chat_completions",
+      {
+        kind: "server",
+        parent: parseTraceparent(req.headers.traceparent),
+        attributes: {
+          "openclaw.runId": runId,
+          "openclaw.agentId": agentId,
+          "openclaw.stream": stream,
+        },
+      },
+      () =>
+        agentCommand(
+          {
+            message: prompt.message,
+            extraSystemPrompt: prompt.extraSystemPrompt,
+            sessionKey,
+            runId,
+            deliver: false,
+            messageChannel: "webchat",
+            bestEffortDeliver: false,
+          },
+          defaultRuntime,
+          deps,
+        ),
+    );
 
   if (!stream) {
     try {
-      const result = await agentCommand(
-        {
-          message: prompt.message,
-          extraSystemPrompt: prompt.extraSystemPrompt,
-          sessionKey,
-          runId,
-          deliver: false,
-          messageChannel: "webchat",
-          bestEffortDeliver: false,
-        },
-        defaultRuntime,
-        deps,
-      );
+      const result = await runAgent();
 
       const payloads = (result as { payloads?: Array<{ text?: string }> } | null)?.payloads;
       const content =
@@ -295,19 +312,7 @@ export async function handleOpenAiHttpRequest(
 
   void (async () => {
     try {
-      const result = await agentCommand(
-        {
-          message: prompt.message,
-          extraSystemPrompt: prompt.extraSystemPrompt,
-          sessionKey,
-          runId,
-          deliver: false,
-          messageChannel: "webchat",
-          bestEffortDeliver: false,
-        },
-        defaultRuntime,
-        deps,
-      );
+      const result = await runAgent();
 
       if (closed) {
         return;
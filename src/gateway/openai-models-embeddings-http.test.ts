@@ -0,0 +1,171 @@
+import type { AddressInfo } from "node:net";
+import { createServer, type Server } from "node:http";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ResolvedGatewayAuth } from "./auth.js";
+
+const embedBatch = vi.fn(async (texts: string[]) => texts.map((_, i) => [i, 0.5]));
+const createEmbeddingProvider = vi.fn(async () => ({
+  requestedProvider: "openai",
+  provider: { id: "openai", model: "text-embedding-3-small", embedQuery: vi.fn(), embedBatch },
+}));
+const resolveMemorySearchConfig = vi.fn((_cfg: unknown, agentId: string) =>
+  agentId === "nomem" ? null : { provider: "openai", model: "text-embedding-3-small" },
+);
+
+vi.mock("../memory/embeddings.js", () => ({ createEmbeddingProvider }));
+vi.mock("../agents/memory-search.js", () => ({ resolveMemorySearchConfig }));
+vi.mock("../config/config.js", () => ({ loadConfig: () => ({}) }));
+vi.mock("../agents/model-catalog.js", () => ({
+  loadModelCatalog: async () => [
+    { id: "gpt-5.2", name: "GPT-5.2", provider: "openai" },
+    { id: "claude-opus-4-6", name: "Claude Opus 4.6", provider: "anthropic" },
+  ],
+  resetModelCatalogCacheForTest: () => {},
+}));
+
+const { handleOpenAiEmbeddingsHttpRequest, __resetEmbeddingProviderCacheForTest } =
+  await import("./openai-embeddings-http.js");
+const { handleOpenAiModelsHttpRequest } = await import("./openai-models-http.js");
+
+const auth: ResolvedGatewayAuth = {
+  mode: "token",
+  token: "secret",
+  password: undefined,
+  allowTailscale: false,
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    void (async () => {
+      if (await handleOpenAiModelsHttpRequest(req, res, { auth })) {
+        return;
+      }
+      if (await handleOpenAiEmbeddingsHttpRequest(req, res, { auth, config: { maxInputs: 2 } })) {
+        return;
+      }
+      res.statusCode = 404;
+      res.end();
+    })();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  __resetEmbeddingProviderCacheForTest();
+  createEmbeddingProvider.mockClear();
+  embedBatch.mockClear();
+});
+
+async function postEmbeddings(body: unknown, token = "secret") {
+  return await fetch(`${baseUrl}/v1/embeddings`, {
+    method: "POST",
+    headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /v1/embeddings", () => {
+  it("embeds inputs with the agent's memory search provider", async () => {
+    const res = await postEmbeddings({ input: ["a", "b"], model: "text-embedding-3-small" });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      object: "list",
+      data: [
+        { object: "embedding", index: 0, embedding: [0, 0.5] },
+        { object: "embedding", index: 1, embedding: [1, 0.5] },
+      ],
+      model: "text-embedding-3-small",
+    });
+    expect(resolveMemorySearchConfig).toHaveBeenLastCalledWith({}, "main");
+
+    await postEmbeddings({ input: "c" });
+    expect(createEmbeddingProvider).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the provider's token usage when it has one", async () => {
+    const embedBatchWithUsage = vi.fn(async (texts: string[]) => ({
+      vectors: texts.map(() => [1, 0]),
+      usage: { promptTokens: 7, totalTokens: 7 },
+    }));
+    createEmbeddingProvider.mockResolvedValueOnce({
+      requestedProvider: "openai",
+      provider: {
+        id: "openai",
+        model: "text-embedding-3-small",
+        embedQuery: vi.fn(),
+        embedBatch,
+        embedBatchWithUsage,
+      },
+    });
+    const res = await postEmbeddings({ input: "x" });
+    expect(await res.json()).toMatchObject({ usage: { prompt_tokens: 7, total_tokens: 7 } });
+    expect(embedBatchWithUsage).toHaveBeenCalledWith(["x"]);
+    expect(embedBatch).not.toHaveBeenCalled();
+  });
+
+  it("supports base64 encoding and agent model refs", async () => {
+    const res = await postEmbeddings({
+      input: "x",
+      encoding_format: "base64",
+      model: "openclaw:ops",
+    });
+    const body = (await res.json()) as { data: Array<{ embedding: string }> };
+    const raw = Buffer.from(body.data[0].embedding, "base64");
+    const decoded = new Float32Array(raw.buffer, raw.byteOffset, raw.byteLength / 4);
+    expect([...decoded]).toEqual([0, 0.5]);
+    expect(resolveMemorySearchConfig).toHaveBeenLastCalledWith({}, "ops");
+  });
+
+  it("rejects bad requests and unauthenticated callers", async () => {
+    expect((await postEmbeddings({ input: "x" }, "wrong")).status).toBe(401);
+    expect((await postEmbeddings({ input: [] })).status).toBe(400);
+    expect((await postEmbeddings({ input: [1, 2] })).status).toBe(400);
+    expect((await postEmbeddings({ input: ["a", "b", "c"] })).status).toBe(400);
+    const disabled = await postEmbeddings({ input: "x", model: "openclaw:nomem" });
+    expect(disabled.status).toBe(400);
+    expect(embedBatch).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /v1/models", () => {
+  it("lists agents and catalog models", async () => {
+    const res = await fetch(`${baseUrl}/v1/models`, {
+      headers: { authorization: "Bearer secret" },
+    });
+    const body = (await res.json()) as { object: string; data: Array<{ id: string }> };
+    expect(body.object).toBe("list");
+    expect(body.data.map((model) => model.id)).toEqual([
+      "openclaw",
+      "openclaw:main",
+      "openai/gpt-5.2",
+      "anthropic/claude-opus-4-6",
+    ]);
+
+    const single = await fetch(`${baseUrl}/v1/models/openai%2Fgpt-5.2`, {
+      headers: { authorization: "Bearer secret" },
+    });
+    expect(await single.json()).toMatchObject({ id: "openai/gpt-5.2", owned_by: "openai" });
+
+    const missing = await fetch(`${baseUrl}/v1/models/nope`, {
+      headers: { authorization: "Bearer secret" },
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it("requires auth and GET", async () => {
+    expect((await fetch(`${baseUrl}/v1/models`)).status).toBe(401);
+    const post = await fetch(`${baseUrl}/v1/models`, {
+      method: "POST",
+      headers: { authorization: "Bearer secret" },
+    });
+    expect(post.status).toBe(405);
+  });
+});
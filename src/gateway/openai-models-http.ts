@@ -0,0 +1,103 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { listAgentIds } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import { logWarn } from "../logger.js";
+import { authorizeGatewayBearerRequestOrReply } from "./http-auth-helpers.js";
+import { sendJson, sendMethodNotAllowed } from "./http-common.js";
+import { loadGatewayModelCatalog } from "./server-model-catalog.js";
+
+type OpenAiModelsHttpOptions = {
+  auth: ResolvedGatewayAuth;
+  trustedProxies?: string[];
+  rateLimiter?: AuthRateLimiter;
+};
+
+export type OpenAiModelObject = {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+};
+
+/**
+ * Agents first (`openclaw` plus `openclaw:<agentId>`, the ids chat completions
+ * and responses route on), then catalog models as `<provider>/<model>`.
+ */
+export async function listOpenAiModels(): Promise<OpenAiModelObject[]> {
+  const cfg = loadConfig();
+  const created = Math.floor(Date.now() / 1000);
+  const models: OpenAiModelObject[] = [
+    { id: "openclaw", object: "model", created, owned_by: "openclaw" },
+    ...listAgentIds(cfg).map((agentId) => ({
+      id: `openclaw:${agentId}`,
+      object: "model" as const,
+      created,
+      owned_by: "openclaw",
+    })),
+  ];
+  const seen = new Set(models.map((model) => model.id));
+  const catalog = await loadGatewayModelCatalog().catch((err) => {
+    logWarn(`openai-compat: model catalog unavailable: ${String(err)}`);
+    return [];
+  });
+  for (const entry of catalog) {
+    const id = `${entry.provider}/${entry.id}`;
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+    models.push({ id, object: "model", created, owned_by: entry.provider });
+  }
+  return models;
+}
+
+export async function handleOpenAiModelsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: OpenAiModelsHttpOptions,
+): Promise<boolean> {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host || "localhost"}`);
+  const prefix = "/v1/models";
+  if (url.pathname !== prefix && !url.pathname.startsWith(`${prefix}/`)) {
+    return false;
+  }
+
+  if (req.method !== "GET") {
+    sendMethodNotAllowed(res, "GET");
+    return true;
+  }
+
+  const authorized = await authorizeGatewayBearerRequestOrReply({
+    req,
+    res,
+    auth: opts.auth,
+    trustedProxies: opts.trustedProxies,
+    rateLimiter: opts.rateLimiter,
+  });
+  if (!authorized) {
+    return true;
+  }
+
+  const models = await listOpenAiModels();
+  if (url.pathname === prefix) {
+    sendJson(res, 200, { object: "list", data: models });
+    return true;
+  }
+
+  const id = decodeURIComponent(url.pathname.slice(prefix.length + 1));
+  const model = models.find((entry) => entry.id === id);
+  if (!model) {
+    sendJson(res, 404, {
+      error: {
+        message: `The model '${id}' does not exist`,
+        type: "invalid_request_error",
+        code: "model_not_found",
+      },
+    });
+    return true;
+  }
+  sendJson(res, 200, model);
+  return true;
+}
@@ -80,8 +80,12 @@ import {
   CronJobSchema,
   type CronListParams,
   CronListParamsSchema,
+  type CronPreviewParams,
+  CronPreviewParamsSchema,
   type CronRemoveParams,
   CronRemoveParamsSchema,
+  type CronReplayParams,
+  CronReplayParamsSchema,
   type CronRunLogEntry,
   type CronRunParams,
   CronRunParamsSchema,
@@ -222,6 +226,36 @@ import {
   WizardStatusResultSchema,
   type WizardStep,
   WizardStepSchema,
+  type WorkflowListParams,
+  WorkflowListParamsSchema,
+  type WorkflowRunParams,
+  WorkflowRunParamsSchema,
+  type WorkflowStatusParams,
+  WorkflowStatusParamsSchema,
+  type WorkflowCancelParams,
+  WorkflowCancelParamsSchema,
+  type WorkflowResumeParams,
+  WorkflowResumeParamsSchema,
+  type WorkflowRunSummary,
+  WorkflowRunSummarySchema,
+  type BoardsListParams,
+  BoardsListParamsSchema,
+  type BoardsReadParams,
+  BoardsReadParamsSchema,
+  type BoardsPostParams,
+  BoardsPostParamsSchema,
+  type BoardsClearParams,
+  BoardsClearParamsSchema,
+  type SecurityQuarantineListParams,
+  SecurityQuarantineListParamsSchema,
+  type SecurityQuarantineGetParams,
+  SecurityQuarantineGetParamsSchema,
+  type SecurityQuarantineResolveParams,
+  SecurityQuarantineResolveParamsSchema,
+  type SecurityAuditLatestParams,
+  SecurityAuditLatestParamsSchema,
+  type SecurityAuditHistoryParams,
+  SecurityAuditHistoryParamsSchema,
 } from "./schema.js";
 
 const ajv = new (AjvPkg as unknown as new (opts?: object) => import("ajv").default)({
@@ -324,6 +358,8 @@ export const validateCronUpdateParams = ajv.compile<CronUpdateParams>(CronUpdate
 export const validateCronRemoveParams = ajv.compile<CronRemoveParams>(CronRemoveParamsSchema);
 export const validateCronRunParams = ajv.compile<CronRunParams>(CronRunParamsSchema);
 export const validateCronRunsParams = ajv.compile<CronRunsParams>(CronRunsParamsSchema);
+export const validateCronPreviewParams = ajv.compile<CronPreviewParams>(CronPreviewParamsSchema);
+export const validateCronReplayParams = ajv.compile<CronReplayParams>(CronReplayParamsSchema);
 export const validateDevicePairListParams = ajv.compile<DevicePairListParams>(
   DevicePairListParamsSchema,
 );
@@ -367,6 +403,36 @@ export const validateUpdateRunParams = ajv.compile<UpdateRunParams>(UpdateRunPar
 export const validateWebLoginStartParams =
   ajv.compile<WebLoginStartParams>(WebLoginStartParamsSchema);
 export const validateWebLoginWaitParams = ajv.compile<WebLoginWaitParams>(WebLoginWaitParamsSchema);
+export const validateWorkflowListParams = ajv.compile<WorkflowListParams>(WorkflowListParamsSchema);
+export const validateWorkflowRunParams = ajv.compile<WorkflowRunParams>(WorkflowRunParamsSchema);
+export const validateWorkflowStatusParams = ajv.compile<WorkflowStatusParams>(
+  WorkflowStatusParamsSchema,
+);
+export const validateWorkflowCancelParams = ajv.compile<WorkflowCancelParams>(
+  WorkflowCancelParamsSchema,
+);
+export const validateWorkflowResumeParams = ajv.compile<WorkflowResumeParams>(
+  WorkflowResumeParamsSchema,
+);
+export const validateBoardsListParams = ajv.compile<BoardsListParams>(BoardsListParamsSchema);
+export const validateBoardsReadParams = ajv.compile<BoardsReadParams>(BoardsReadParamsSchema);
+export const validateBoardsPostParams = ajv.compile<BoardsPostParams>(BoardsPostParamsSchema);
+export const validateBoardsClearParams = ajv.compile<BoardsClearParams>(BoardsClearParamsSchema);
+export const validateSecurityQuarantineListParams = ajv.compile<SecurityQuarantineListParams>(
+  SecurityQuarantineListParamsSchema,
+);
+export const validateSecurityQuarantineGetParams = ajv.compile<SecurityQuarantineGetParams>(
+  SecurityQuarantineGetParamsSchema,
+);
+export const validateSecurityQuarantineResolveParams = ajv.compile<SecurityQuarantineResolveParams>(
+  SecurityQuarantineResolveParamsSchema,
+);
+export const validateSecurityAuditLatestParams = ajv.compile<SecurityAuditLatestParams>(
+  SecurityAuditLatestParamsSchema,
+);
+export const validateSecurityAuditHistoryParams = ajv.compile<SecurityAuditHistoryParams>(
+  SecurityAuditHistoryParamsSchema,
+);
 
 export function formatValidationErrors(errors: ErrorObject[] | null | undefined) {
   if (!errors?.length) {
@@ -486,6 +552,8 @@ export {
   CronRemoveParamsSchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronPreviewParamsSchema,
+  CronReplayParamsSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
   ChatHistoryParamsSchema,
@@ -494,6 +562,21 @@ export {
   UpdateRunParamsSchema,
   TickEventSchema,
   ShutdownEventSchema,
+  WorkflowListParamsSchema,
+  WorkflowRunParamsSchema,
+  WorkflowStatusParamsSchema,
+  WorkflowCancelParamsSchema,
+  WorkflowResumeParamsSchema,
+  WorkflowRunSummarySchema,
+  BoardsListParamsSchema,
+  BoardsReadParamsSchema,
+  BoardsPostParamsSchema,
+  BoardsClearParamsSchema,
+  SecurityQuarantineListParamsSchema,
+  SecurityQuarantineGetParamsSchema,
+  SecurityQuarantineResolveParamsSchema,
+  SecurityAuditLatestParamsSchema,
+  SecurityAuditHistoryParamsSchema,
   ProtocolSchemas,
   PROTOCOL_VERSION,
   ErrorCodes,
@@ -591,6 +674,8 @@ export type {
   CronRemoveParams,
   CronRunParams,
   CronRunsParams,
+  CronPreviewParams,
+  CronReplayParams,
   CronRunLogEntry,
   ExecApprovalsGetParams,
   ExecApprovalsSetParams,
@@ -600,4 +685,19 @@ export type {
   PollParams,
   UpdateRunParams,
   ChatInjectParams,
+  WorkflowListParams,
+  WorkflowRunParams,
+  WorkflowStatusParams,
+  WorkflowCancelParams,
+  WorkflowResumeParams,
+  WorkflowRunSummary,
+  BoardsListParams,
+  BoardsReadParams,
+  BoardsPostParams,
+  BoardsClearParams,
+  SecurityQuarantineListParams,
+  SecurityQuarantineGetParams,
+  SecurityQuarantineResolveParams,
+  SecurityAuditLatestParams,
+  SecurityAuditHistoryParams,
 };
@@ -1,5 +1,6 @@
 export * from "./schema/agent.js";
 export * from "./schema/agents-models-skills.js";
+export * from "./schema/boards.js";
 export * from "./schema/channels.js";
 export * from "./schema/config.js";
 export * from "./schema/cron.js";
@@ -7,6 +8,7 @@ export * from "./schema/error-codes.js";
 export * from "./schema/exec-approvals.js";
 export * from "./schema/devices.js";
 export * from "./schema/frames.js";
+export * from "./schema/security.js";
 export * from "./schema/logs-chat.js";
 export * from "./schema/nodes.js";
 export * from "./schema/protocol-schemas.js";
@@ -14,3 +16,4 @@ export * from "./schema/sessions.js";
 export * from "./schema/snapshot.js";
 export * from "./schema/types.js";
 export * from "./schema/wizard.js";
+export * from "./schema/workflows.js";
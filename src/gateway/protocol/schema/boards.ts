@@ -0,0 +1,40 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const BoardsListParamsSchema = Type.Object(
+  {
+    agentId: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const BoardsReadParamsSchema = Type.Object(
+  {
+    board: NonEmptyString,
+    agentId: Type.Optional(NonEmptyString),
+    sinceMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    thread: Type.Optional(NonEmptyString),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  },
+  { additionalProperties: false },
+);
+
+export const BoardsPostParamsSchema = Type.Object(
+  {
+    board: NonEmptyString,
+    message: NonEmptyString,
+    agentId: Type.Optional(NonEmptyString),
+    from: Type.Optional(NonEmptyString),
+    tags: Type.Optional(Type.Array(NonEmptyString)),
+    replyTo: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const BoardsClearParamsSchema = Type.Object(
+  {
+    board: NonEmptyString,
+    agentId: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
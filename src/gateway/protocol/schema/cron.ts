@@ -19,6 +19,45 @@ function cronAgentTurnPayloadSchema(params: { message: TSchema }) {
   );
 }
 
+function cronWorkflowRunPayloadSchema(params: { workflow: TSchema }) {
+  return Type.Object(
+    {
+      kind: Type.Literal("workflowRun"),
+      workflow: params.workflow,
+      params: Type.Optional(Type.Record(Type.String(), Type.String())),
+      timeoutSeconds: Type.Optional(Type.Integer({ minimum: 1 })),
+    },
+    { additionalProperties: false },
+  );
+}
+
+const CronScheduleConstraintProperties = {
+  jitterMs: Type.Optional(Type.Integer({ minimum: 0 })),
+  activeHours: Type.Optional(
+    Type.Object(
+      {
+        start: Type.Optional(Type.String()),
+        end: Type.Optional(Type.String()),
+        timezone: Type.Optional(Type.String()),
+      },
+      { additionalProperties: false },
+    ),
+  ),
+  excludeCalendar: Type.Optional(NonEmptyString),
+  until: Type.Optional(NonEmptyString),
+  maxRuns: Type.Optional(Type.Integer({ minimum: 1 })),
+};
+
+const CronMemoryConsolidatePayloadSchema = Type.Object(
+  {
+    kind: Type.Literal("memoryConsolidate"),
+    model: Type.Optional(Type.String()),
+    lookbackHours: Type.Optional(Type.Number({ minimum: 0 })),
+    timeoutSeconds: Type.Optional(Type.Integer({ minimum: 1 })),
+  },
+  { additionalProperties: false },
+);
+
 export const CronScheduleSchema = Type.Union([
   Type.Object(
     {
@@ -32,6 +71,7 @@ export const CronScheduleSchema = Type.Union([
       kind: Type.Literal("every"),
       everyMs: Type.Integer({ minimum: 1 }),
       anchorMs: Type.Optional(Type.Integer({ minimum: 0 })),
+      ...CronScheduleConstraintProperties,
     },
     { additionalProperties: false },
   ),
@@ -40,11 +80,40 @@ export const CronScheduleSchema = Type.Union([
       kind: Type.Literal("cron"),
       expr: NonEmptyString,
       tz: Type.Optional(Type.String()),
+      ...CronScheduleConstraintProperties,
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      kind: Type.Literal("trigger"),
     },
     { additionalProperties: false },
   ),
 ]);
 
+export const CronTriggersSchema = Type.Object(
+  {
+    onSuccess: Type.Optional(Type.Array(NonEmptyString)),
+    onFailure: Type.Optional(Type.Array(NonEmptyString)),
+    after: Type.Optional(Type.Array(NonEmptyString)),
+    passOutput: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+export const CronPendingTriggerSchema = Type.Object(
+  {
+    jobId: NonEmptyString,
+    jobName: Type.Optional(Type.String()),
+    status: Type.Union([Type.Literal("ok"), Type.Literal("error")]),
+    firedAtMs: Type.Integer({ minimum: 0 }),
+    output: Type.Optional(Type.String()),
+    error: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
 export const CronPayloadSchema = Type.Union([
   Type.Object(
     {
@@ -54,6 +123,8 @@ export const CronPayloadSchema = Type.Union([
     { additionalProperties: false },
   ),
   cronAgentTurnPayloadSchema({ message: NonEmptyString }),
+  cronWorkflowRunPayloadSchema({ workflow: NonEmptyString }),
+  CronMemoryConsolidatePayloadSchema,
 ]);
 
 export const CronPayloadPatchSchema = Type.Union([
@@ -65,6 +136,8 @@ export const CronPayloadPatchSchema = Type.Union([
     { additionalProperties: false },
   ),
   cronAgentTurnPayloadSchema({ message: Type.Optional(NonEmptyString) }),
+  cronWorkflowRunPayloadSchema({ workflow: Type.Optional(NonEmptyString) }),
+  CronMemoryConsolidatePayloadSchema,
 ]);
 
 const CronDeliveryBaseProperties = {
@@ -99,7 +172,10 @@ export const CronJobStateSchema = Type.Object(
     ),
     lastError: Type.Optional(Type.String()),
     lastDurationMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    lastRunId: Type.Optional(NonEmptyString),
     consecutiveErrors: Type.Optional(Type.Integer({ minimum: 0 })),
+    runCount: Type.Optional(Type.Integer({ minimum: 0 })),
+    pendingTrigger: Type.Optional(CronPendingTriggerSchema),
   },
   { additionalProperties: false },
 );
@@ -120,6 +196,7 @@ export const CronJobSchema = Type.Object(
     wakeMode: Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]),
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    triggers: Type.Optional(CronTriggersSchema),
     state: CronJobStateSchema,
   },
   { additionalProperties: false },
@@ -147,6 +224,7 @@ export const CronAddParamsSchema = Type.Object(
     wakeMode: Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]),
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    triggers: Type.Optional(CronTriggersSchema),
   },
   { additionalProperties: false },
 );
@@ -164,6 +242,7 @@ export const CronJobPatchSchema = Type.Object(
     wakeMode: Type.Optional(Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")])),
     payload: Type.Optional(CronPayloadPatchSchema),
     delivery: Type.Optional(CronDeliveryPatchSchema),
+    triggers: Type.Optional(Type.Union([CronTriggersSchema, Type.Null()])),
     state: Type.Optional(Type.Partial(CronJobStateSchema)),
   },
   { additionalProperties: false },
@@ -218,31 +297,112 @@ export const CronRunParamsSchema = Type.Union([
   ),
 ]);
 
+const CronRunStatusSchema = Type.Union([
+  Type.Literal("ok"),
+  Type.Literal("error"),
+  Type.Literal("skipped"),
+]);
+
+const CronRunsFilterProperties = {
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+  runId: Type.Optional(NonEmptyString),
+  status: Type.Optional(CronRunStatusSchema),
+  sinceMs: Type.Optional(Type.Integer({ minimum: 0 })),
+  untilMs: Type.Optional(Type.Integer({ minimum: 0 })),
+};
+
 export const CronRunsParamsSchema = Type.Union([
   Type.Object(
     {
       id: NonEmptyString,
-      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+      ...CronRunsFilterProperties,
     },
     { additionalProperties: false },
   ),
   Type.Object(
     {
       jobId: NonEmptyString,
-      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+      ...CronRunsFilterProperties,
     },
     { additionalProperties: false },
   ),
 ]);
 
+export const CronReplayParamsSchema = Type.Union([
+  Type.Object(
+    {
+      id: NonEmptyString,
+      runId: NonEmptyString,
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      jobId: NonEmptyString,
+      runId: NonEmptyString,
+    },
+    { additionalProperties: false },
+  ),
+]);
+
+const CronPreviewCount = Type.Optional(Type.Integer({ minimum: 1, maximum: 100 }));
+
+export const CronPreviewParamsSchema = Type.Union([
+  Type.Object(
+    {
+      id: NonEmptyString,
+      count: CronPreviewCount,
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      jobId: NonEmptyString,
+      count: CronPreviewCount,
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      schedule: CronScheduleSchema,
+      count: CronPreviewCount,
+    },
+    { additionalProperties: false },
+  ),
+]);
+
+export const CronRunUsageSchema = Type.Object(
+  {
+    model: Type.Optional(Type.String()),
+    provider: Type.Optional(Type.String()),
+    inputTokens: Type.Optional(Type.Integer({ minimum: 0 })),
+    outputTokens: Type.Optional(Type.Integer({ minimum: 0 })),
+    cacheReadTokens: Type.Optional(Type.Integer({ minimum: 0 })),
+    cacheWriteTokens: Type.Optional(Type.Integer({ minimum: 0 })),
+    totalTokens: Type.Optional(Type.Integer({ minimum: 0 })),
+    costUsd: Type.Optional(Type.Number({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const CronRunDeliverySchema = Type.Object(
+  {
+    requested: Type.Boolean(),
+    delivered: Type.Boolean(),
+    channel: Type.Optional(Type.String()),
+    to: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
 export const CronRunLogEntrySchema = Type.Object(
   {
     ts: Type.Integer({ minimum: 0 }),
     jobId: NonEmptyString,
     action: Type.Literal("finished"),
-    status: Type.Optional(
-      Type.Union([Type.Literal("ok"), Type.Literal("error"), Type.Literal("skipped")]),
-    ),
+    runId: Type.Optional(NonEmptyString),
+    replayOf: Type.Optional(NonEmptyString),
+    status: Type.Optional(CronRunStatusSchema),
     error: Type.Optional(Type.String()),
     summary: Type.Optional(Type.String()),
     sessionId: Type.Optional(NonEmptyString),
@@ -250,6 +410,18 @@ export const CronRunLogEntrySchema = Type.Object(
     runAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
     durationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    outputText: Type.Optional(Type.String()),
+    usage: Type.Optional(CronRunUsageSchema),
+    delivery: Type.Optional(CronRunDeliverySchema),
+    input: Type.Optional(
+      Type.Object(
+        {
+          payload: CronPayloadSchema,
+          trigger: Type.Optional(CronPendingTriggerSchema),
+        },
+        { additionalProperties: false },
+      ),
+    ),
   },
   { additionalProperties: false },
 );
@@ -129,6 +129,7 @@ export const RequestFrameSchema = Type.Object(
     id: NonEmptyString,
     method: NonEmptyString,
     params: Type.Optional(Type.Unknown()),
+    traceparent: Type.Optional(Type.String()),
   },
   { additionalProperties: false },
 );
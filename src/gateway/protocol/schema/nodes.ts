@@ -96,6 +96,7 @@ export const NodeInvokeRequestEventSchema = Type.Object(
     paramsJSON: Type.Optional(Type.String()),
     timeoutMs: Type.Optional(Type.Integer({ minimum: 0 })),
     idempotencyKey: Type.Optional(NonEmptyString),
+    traceparent: Type.Optional(Type.String()),
   },
   { additionalProperties: false },
 );
@@ -35,6 +35,12 @@ import {
   SkillsStatusParamsSchema,
   SkillsUpdateParamsSchema,
 } from "./agents-models-skills.js";
+import {
+  BoardsClearParamsSchema,
+  BoardsListParamsSchema,
+  BoardsPostParamsSchema,
+  BoardsReadParamsSchema,
+} from "./boards.js";
 import {
   ChannelsLogoutParamsSchema,
   TalkConfigParamsSchema,
@@ -62,6 +68,8 @@ import {
   CronRunLogEntrySchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronPreviewParamsSchema,
+  CronReplayParamsSchema,
   CronStatusParamsSchema,
   CronUpdateParamsSchema,
 } from "./cron.js";
@@ -117,6 +125,13 @@ import {
   NodePairVerifyParamsSchema,
   NodeRenameParamsSchema,
 } from "./nodes.js";
+import {
+  SecurityQuarantineListParamsSchema,
+  SecurityQuarantineGetParamsSchema,
+  SecurityAuditHistoryParamsSchema,
+  SecurityAuditLatestParamsSchema,
+  SecurityQuarantineResolveParamsSchema,
+} from "./security.js";
 import {
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
@@ -138,6 +153,14 @@ import {
   WizardStatusResultSchema,
   WizardStepSchema,
 } from "./wizard.js";
+import {
+  WorkflowCancelParamsSchema,
+  WorkflowListParamsSchema,
+  WorkflowRunParamsSchema,
+  WorkflowResumeParamsSchema,
+  WorkflowRunSummarySchema,
+  WorkflowStatusParamsSchema,
+} from "./workflows.js";
 
 export const ProtocolSchemas: Record<string, TSchema> = {
   ConnectParams: ConnectParamsSchema,
@@ -232,6 +255,8 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   CronRemoveParams: CronRemoveParamsSchema,
   CronRunParams: CronRunParamsSchema,
   CronRunsParams: CronRunsParamsSchema,
+  CronPreviewParams: CronPreviewParamsSchema,
+  CronReplayParams: CronReplayParamsSchema,
   CronRunLogEntry: CronRunLogEntrySchema,
   LogsTailParams: LogsTailParamsSchema,
   LogsTailResult: LogsTailResultSchema,
@@ -257,6 +282,21 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   UpdateRunParams: UpdateRunParamsSchema,
   TickEvent: TickEventSchema,
   ShutdownEvent: ShutdownEventSchema,
+  WorkflowListParams: WorkflowListParamsSchema,
+  WorkflowRunParams: WorkflowRunParamsSchema,
+  WorkflowStatusParams: WorkflowStatusParamsSchema,
+  WorkflowCancelParams: WorkflowCancelParamsSchema,
+  WorkflowResumeParams: WorkflowResumeParamsSchema,
+  WorkflowRunSummary: WorkflowRunSummarySchema,
+  BoardsListParams: BoardsListParamsSchema,
+  BoardsReadParams: BoardsReadParamsSchema,
+  BoardsPostParams: BoardsPostParamsSchema,
+  BoardsClearParams: BoardsClearParamsSchema,
+  SecurityQuarantineListParams: SecurityQuarantineListParamsSchema,
+  SecurityQuarantineGetParams: SecurityQuarantineGetParamsSchema,
+  SecurityQuarantineResolveParams: SecurityQuarantineResolveParamsSchema,
+  SecurityAuditLatestParams: SecurityAuditLatestParamsSchema,
+  SecurityAuditHistoryParams: SecurityAuditHistoryParamsSchema,
 };
 
 export const PROTOCOL_VERSION = 3 as const;
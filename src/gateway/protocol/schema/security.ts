@@ -0,0 +1,37 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const SecurityQuarantineListParamsSchema = Type.Object(
+  {
+    status: Type.Optional(
+      Type.Union([Type.Literal("pending"), Type.Literal("approved"), Type.Literal("discarded")]),
+    ),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 500 })),
+  },
+  { additionalProperties: false },
+);
+
+export const SecurityQuarantineGetParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
+export const SecurityQuarantineResolveParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    decision: Type.Union([Type.Literal("approve"), Type.Literal("discard")]),
+  },
+  { additionalProperties: false },
+);
+
+export const SecurityAuditLatestParamsSchema = Type.Object({}, { additionalProperties: false });
+
+export const SecurityAuditHistoryParamsSchema = Type.Object(
+  {
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 500 })),
+    includeFindings: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
@@ -33,6 +33,12 @@ import type {
   SkillsStatusParamsSchema,
   SkillsUpdateParamsSchema,
 } from "./agents-models-skills.js";
+import type {
+  BoardsClearParamsSchema,
+  BoardsListParamsSchema,
+  BoardsPostParamsSchema,
+  BoardsReadParamsSchema,
+} from "./boards.js";
 import type {
   ChannelsLogoutParamsSchema,
   TalkConfigParamsSchema,
@@ -60,6 +66,8 @@ import type {
   CronRunLogEntrySchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronPreviewParamsSchema,
+  CronReplayParamsSchema,
   CronStatusParamsSchema,
   CronUpdateParamsSchema,
 } from "./cron.js";
@@ -110,6 +118,13 @@ import type {
   NodePairVerifyParamsSchema,
   NodeRenameParamsSchema,
 } from "./nodes.js";
+import type {
+  SecurityQuarantineListParamsSchema,
+  SecurityQuarantineGetParamsSchema,
+  SecurityAuditHistoryParamsSchema,
+  SecurityAuditLatestParamsSchema,
+  SecurityQuarantineResolveParamsSchema,
+} from "./security.js";
 import type {
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
@@ -131,6 +146,14 @@ import type {
   WizardStatusResultSchema,
   WizardStepSchema,
 } from "./wizard.js";
+import type {
+  WorkflowCancelParamsSchema,
+  WorkflowListParamsSchema,
+  WorkflowRunParamsSchema,
+  WorkflowResumeParamsSchema,
+  WorkflowRunSummarySchema,
+  WorkflowStatusParamsSchema,
+} from "./workflows.js";
 
 export type ConnectParams = Static<typeof ConnectParamsSchema>;
 export type HelloOk = Static<typeof HelloOkSchema>;
@@ -221,6 +244,8 @@ export type CronUpdateParams = Static<typeof CronUpdateParamsSchema>;
 export type CronRemoveParams = Static<typeof CronRemoveParamsSchema>;
 export type CronRunParams = Static<typeof CronRunParamsSchema>;
 export type CronRunsParams = Static<typeof CronRunsParamsSchema>;
+export type CronPreviewParams = Static<typeof CronPreviewParamsSchema>;
+export type CronReplayParams = Static<typeof CronReplayParamsSchema>;
 export type CronRunLogEntry = Static<typeof CronRunLogEntrySchema>;
 export type LogsTailParams = Static<typeof LogsTailParamsSchema>;
 export type LogsTailResult = Static<typeof LogsTailResultSchema>;
@@ -242,3 +267,18 @@ export type ChatEvent = Static<typeof ChatEventSchema>;
 export type UpdateRunParams = Static<typeof UpdateRunParamsSchema>;
 export type TickEvent = Static<typeof TickEventSchema>;
 export type ShutdownEvent = Static<typeof ShutdownEventSchema>;
+export type WorkflowListParams = Static<typeof WorkflowListParamsSchema>;
+export type WorkflowRunParams = Static<typeof WorkflowRunParamsSchema>;
+export type WorkflowStatusParams = Static<typeof WorkflowStatusParamsSchema>;
+export type WorkflowCancelParams = Static<typeof WorkflowCancelParamsSchema>;
+export type WorkflowResumeParams = Static<typeof WorkflowResumeParamsSchema>;
+export type WorkflowRunSummary = Static<typeof WorkflowRunSummarySchema>;
+export type BoardsListParams = Static<typeof BoardsListParamsSchema>;
+export type BoardsReadParams = Static<typeof BoardsReadParamsSchema>;
+export type BoardsPostParams = Static<typeof BoardsPostParamsSchema>;
+export type BoardsClearParams = Static<typeof BoardsClearParamsSchema>;
+export type SecurityQuarantineListParams = Static<typeof SecurityQuarantineListParamsSchema>;
+export type SecurityQuarantineGetParams = Static<typeof SecurityQuarantineGetParamsSchema>;
+export type SecurityQuarantineResolveParams = Static<typeof SecurityQuarantineResolveParamsSchema>;
+export type SecurityAuditLatestParams = Static<typeof SecurityAuditLatestParamsSchema>;
+export type SecurityAuditHistoryParams = Static<typeof SecurityAuditHistoryParamsSchema>;
@@ -0,0 +1,73 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+const WorkflowRunStatusSchema = Type.Union([
+  Type.Literal("running"),
+  Type.Literal("succeeded"),
+  Type.Literal("failed"),
+  Type.Literal("cancelled"),
+]);
+
+export const WorkflowListParamsSchema = Type.Object(
+  {
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 500 })),
+    status: Type.Optional(WorkflowRunStatusSchema),
+    agentId: Type.Optional(NonEmptyString),
+    workflow: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowRunParamsSchema = Type.Object(
+  {
+    name: NonEmptyString,
+    params: Type.Optional(Type.Record(Type.String(), Type.String())),
+    agentId: Type.Optional(NonEmptyString),
+    sessionKey: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowStatusParamsSchema = Type.Object(
+  { runId: NonEmptyString },
+  { additionalProperties: false },
+);
+
+export const WorkflowCancelParamsSchema = Type.Object(
+  { runId: NonEmptyString },
+  { additionalProperties: false },
+);
+
+export const WorkflowResumeParamsSchema = Type.Object(
+  { runId: NonEmptyString },
+  { additionalProperties: false },
+);
+
+export const WorkflowRunSummarySchema = Type.Object(
+  {
+    runId: NonEmptyString,
+    label: Type.String(),
+    workflowName: Type.Optional(Type.String()),
+    pattern: Type.String(),
+    status: WorkflowRunStatusSchema,
+    active: Type.Boolean(),
+    waitingApproval: Type.Optional(
+      Type.Object(
+        {
+          step: NonEmptyString,
+          approvalId: Type.Optional(NonEmptyString),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    requesterSessionKey: Type.String(),
+    agentId: Type.String(),
+    totalSteps: Type.Integer({ minimum: 0 }),
+    counts: Type.Record(Type.String(), Type.Integer({ minimum: 0 })),
+    createdAtMs: Type.Integer({ minimum: 0 }),
+    updatedAtMs: Type.Integer({ minimum: 0 }),
+    endedAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    error: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
@@ -1,4 +1,6 @@
 import type { CliDeps } from "../cli/deps.js";
+import type { CronEvent } from "../cron/service/state.js";
+import type { CronJob } from "../cron/types.js";
 import { resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { loadConfig } from "../config/config.js";
 import { resolveAgentMainSessionKey } from "../config/sessions.js";
@@ -11,8 +13,11 @@ import { runHeartbeatOnce } from "../infra/heartbeat-runner.js";
 import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
 import { enqueueSystemEvent } from "../infra/system-events.js";
 import { getChildLogger } from "../logging.js";
+import { formatMemoryConsolidationSummary, runMemoryConsolidation } from "../memory/consolidate.js";
+import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { normalizeAgentId } from "../routing/session-key.js";
 import { defaultRuntime } from "../runtime.js";
+import { cancelWorkflowRun, startNamedWorkflowRun } from "../workflows/service.js";
 
 export type GatewayCronState = {
   cron: CronService;
@@ -31,6 +36,51 @@ function redactWebhookUrl(url: string): string {
   }
 }
 
+function emitCronPluginHook(
+  evt: CronEvent,
+  job: CronJob | undefined,
+  logger: ReturnType<typeof getChildLogger>,
+) {
+  if (evt.action !== "started" && evt.action !== "finished") {
+    return;
+  }
+  const hookRunner = getGlobalHookRunner();
+  const hookName = evt.action === "started" ? "cron_run_start" : "cron_run_end";
+  if (!hookRunner?.hasHooks(hookName)) {
+    return;
+  }
+  const ctx = { jobId: evt.jobId, agentId: job?.agentId ?? undefined };
+  const run =
+    evt.action === "started"
+      ? hookRunner.runCronRunStart(
+          {
+            jobId: evt.jobId,
+            jobName: job?.name,
+            runId: evt.runId,
+            runAtMs: evt.runAtMs,
+            replayOf: evt.replayOf,
+          },
+          ctx,
+        )
+      : hookRunner.runCronRunEnd(
+          {
+            jobId: evt.jobId,
+            jobName: job?.name,
+            runId: evt.runId,
+            status: evt.status ?? "ok",
+            error: evt.error,
+            summary: evt.summary,
+            sessionKey: evt.sessionKey,
+            durationMs: evt.durationMs,
+            nextRunAtMs: evt.nextRunAtMs,
+          },
+          ctx,
+        );
+  void run.catch((err) => {
+    logger.warn({ err: String(err), jobId: evt.jobId }, `cron: ${hookName} hook failed`);
+  });
+}
+
 export function buildGatewayCronService(params: {
   cfg: ReturnType<typeof loadConfig>;
   deps: CliDeps;
@@ -100,9 +150,48 @@ export function buildGatewayCronService(params: {
         lane: "cron",
       });
     },
+    runWorkflowJob: async ({ job, workflow, params: workflowParams, abortSignal }) => {
+      const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+      const active = await startNamedWorkflowRun(
+        { name: workflow, params: workflowParams, agentId },
+        { cfg: runtimeConfig },
+      );
+      // The cron timeout only stops waiting; cancel the run so it does not keep going.
+      const cancel = () => {
+        void cancelWorkflowRun(active.record.runId).catch((err) => {
+          cronLogger.warn(
+            { jobId: job.id, runId: active.record.runId },
+            `cron: failed to cancel workflow run: ${String(err)}`,
+          );
+        });
+      };
+      if (abortSignal?.aborted) {
+        cancel();
+      } else {
+        abortSignal?.addEventListener("abort", cancel, { once: true });
+      }
+      const record = await active.done.finally(() =>
+        abortSignal?.removeEventListener("abort", cancel),
+      );
+      const summary = `Workflow ${record.label} ${record.status} (run ${record.runId})`;
+      return record.status === "succeeded"
+        ? { status: "ok", summary }
+        : { status: "error", summary, error: record.error ?? `workflow ${record.status}` };
+    },
+    runMemoryConsolidationJob: async ({ job, model, lookbackHours }) => {
+      const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+      const result = await runMemoryConsolidation({
+        cfg: runtimeConfig,
+        agentId,
+        model,
+        lookbackHours,
+      });
+      return { status: "ok", summary: formatMemoryConsolidationSummary(result) };
+    },
     log: getChildLogger({ module: "cron", storePath }),
     onEvent: (evt) => {
       params.broadcast("cron", evt, { dropIfSlow: true });
+      emitCronPluginHook(evt, cron.getJob(evt.jobId), cronLogger);
       if (evt.action === "finished") {
         const webhookUrl = params.cfg.cron?.webhook?.trim();
         const webhookToken = params.cfg.cron?.webhookToken?.trim();
@@ -146,6 +235,8 @@ export function buildGatewayCronService(params: {
           ts: Date.now(),
           jobId: evt.jobId,
           action: "finished",
+          runId: evt.runId,
+          replayOf: evt.replayOf,
           status: evt.status,
           error: evt.error,
           summary: evt.summary,
@@ -154,6 +245,10 @@ export function buildGatewayCronService(params: {
           runAtMs: evt.runAtMs,
           durationMs: evt.durationMs,
           nextRunAtMs: evt.nextRunAtMs,
+          outputText: evt.outputText,
+          usage: evt.usage,
+          delivery: evt.delivery,
+          input: evt.input,
         }).catch((err) => {
           cronLogger.warn({ err: String(err), logPath }, "cron: run log append failed");
         });
@@ -52,7 +52,9 @@ import {
 import { sendGatewayAuthFailure } from "./http-common.js";
 import { getBearerToken, getHeader } from "./http-utils.js";
 import { isPrivateOrLoopbackAddress, resolveGatewayClientIp } from "./net.js";
+import { handleOpenAiEmbeddingsHttpRequest } from "./openai-embeddings-http.js";
 import { handleOpenAiHttpRequest } from "./openai-http.js";
+import { handleOpenAiModelsHttpRequest } from "./openai-models-http.js";
 import { handleOpenResponsesHttpRequest } from "./openresponses-http.js";
 import { handleToolsInvokeHttpRequest } from "./tools-invoke-http.js";
 
@@ -444,6 +446,9 @@ export function createGatewayHttpServer(opts: {
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
+  openAiModelsEnabled?: boolean;
+  openAiEmbeddingsEnabled?: boolean;
+  openAiEmbeddingsConfig?: import("../config/types.gateway.js").GatewayHttpEmbeddingsConfig;
   handleHooksRequest: HooksRequestHandler;
   handlePluginRequest?: HooksRequestHandler;
   resolvedAuth: ResolvedGatewayAuth;
@@ -460,6 +465,9 @@ export function createGatewayHttpServer(opts: {
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
     openResponsesConfig,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
     handleHooksRequest,
     handlePluginRequest,
     resolvedAuth,
@@ -543,6 +551,29 @@ export function createGatewayHttpServer(opts: {
           return;
         }
       }
+      if (openAiModelsEnabled) {
+        if (
+          await handleOpenAiModelsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            trustedProxies,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
+      if (openAiEmbeddingsEnabled) {
+        if (
+          await handleOpenAiEmbeddingsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            config: openAiEmbeddingsConfig,
+            trustedProxies,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
       if (canvasHost) {
         if (isCanvasPath(requestPath)) {
           const ok = await authorizeCanvasRequest({
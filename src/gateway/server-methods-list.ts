@@ -8,6 +8,7 @@ const BASE_METHODS = [
   "status",
   "usage.status",
   "usage.cost",
+  "usage.budgets",
   "tts.status",
   "tts.providers",
   "tts.enable",
@@ -79,6 +80,22 @@ const BASE_METHODS = [
   "cron.remove",
   "cron.run",
   "cron.runs",
+  "cron.preview",
+  "cron.replay",
+  "workflow.list",
+  "workflow.status",
+  "workflow.run",
+  "workflow.cancel",
+  "workflow.resume",
+  "boards.list",
+  "boards.read",
+  "boards.post",
+  "boards.clear",
+  "security.quarantine.list",
+  "security.quarantine.get",
+  "security.quarantine.resolve",
+  "security.audit.latest",
+  "security.audit.history",
   "system-presence",
   "system-event",
   "send",
@@ -108,6 +125,9 @@ export const GATEWAY_EVENTS = [
   "health",
   "heartbeat",
   "cron",
+  "taskQueue",
+  "board",
+  "security.audit",
   "node.pair.requested",
   "node.pair.resolved",
   "node.invoke.request",
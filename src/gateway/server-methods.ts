@@ -1,7 +1,9 @@
 import type { GatewayRequestHandlers, GatewayRequestOptions } from "./server-methods/types.js";
+import { parseTraceparent, withDiagnosticSpan } from "../infra/diagnostic-trace.js";
 import { ErrorCodes, errorShape } from "./protocol/index.js";
 import { agentHandlers } from "./server-methods/agent.js";
 import { agentsHandlers } from "./server-methods/agents.js";
+import { boardsHandlers } from "./server-methods/boards.js";
 import { browserHandlers } from "./server-methods/browser.js";
 import { channelsHandlers } from "./server-methods/channels.js";
 import { chatHandlers } from "./server-methods/chat.js";
@@ -14,6 +16,7 @@ import { healthHandlers } from "./server-methods/health.js";
 import { logsHandlers } from "./server-methods/logs.js";
 import { modelsHandlers } from "./server-methods/models.js";
 import { nodeHandlers } from "./server-methods/nodes.js";
+import { securityHandlers } from "./server-methods/security.js";
 import { sendHandlers } from "./server-methods/send.js";
 import { sessionsHandlers } from "./server-methods/sessions.js";
 import { skillsHandlers } from "./server-methods/skills.js";
@@ -25,6 +28,7 @@ import { usageHandlers } from "./server-methods/usage.js";
 import { voicewakeHandlers } from "./server-methods/voicewake.js";
 import { webHandlers } from "./server-methods/web.js";
 import { wizardHandlers } from "./server-methods/wizard.js";
+import { workflowHandlers } from "./server-methods/workflows.js";
 
 const ADMIN_SCOPE = "operator.admin";
 const READ_SCOPE = "operator.read";
@@ -36,6 +40,7 @@ const APPROVAL_METHODS = new Set([
   "exec.approval.request",
   "exec.approval.waitDecision",
   "exec.approval.resolve",
+  "security.quarantine.resolve",
 ]);
 const NODE_ROLE_METHODS = new Set(["node.invoke.result", "node.event", "skills.bins"]);
 const PAIRING_METHODS = new Set([
@@ -59,6 +64,7 @@ const READ_METHODS = new Set([
   "status",
   "usage.status",
   "usage.cost",
+  "usage.budgets",
   "tts.status",
   "tts.providers",
   "models.list",
@@ -71,6 +77,15 @@ const READ_METHODS = new Set([
   "cron.list",
   "cron.status",
   "cron.runs",
+  "cron.preview",
+  "workflow.list",
+  "workflow.status",
+  "boards.list",
+  "boards.read",
+  "security.quarantine.list",
+  "security.quarantine.get",
+  "security.audit.latest",
+  "security.audit.history",
   "system-presence",
   "last-heartbeat",
   "node.list",
@@ -94,6 +109,11 @@ const WRITE_METHODS = new Set([
   "chat.send",
   "chat.abort",
   "browser.request",
+  "workflow.run",
+  "workflow.cancel",
+  "workflow.resume",
+  "boards.post",
+  "boards.clear",
 ]);
 
 function authorizeGatewayMethod(method: string, client: GatewayRequestOptions["client"]) {
@@ -158,6 +178,7 @@ function authorizeGatewayMethod(method: string, client: GatewayRequestOptions["c
     method === "cron.update" ||
     method === "cron.remove" ||
     method === "cron.run" ||
+    method === "cron.replay" ||
     method === "sessions.patch" ||
     method === "sessions.reset" ||
     method === "sessions.delete" ||
@@ -176,8 +197,11 @@ export const coreGatewayHandlers: GatewayRequestHandlers = {
   ...channelsHandlers,
   ...chatHandlers,
   ...cronHandlers,
+  ...workflowHandlers,
+  ...boardsHandlers,
   ...deviceHandlers,
   ...execApprovalsHandlers,
+  ...securityHandlers,
   ...webHandlers,
   ...modelsHandlers,
   ...configHandlers,
@@ -214,12 +238,24 @@ export async function handleGatewayRequest(
     );
     return;
   }
-  await handler({
-    req,
-    params: (req.params ?? {}) as Record<string, unknown>,
-    client,
-    isWebchatConnect,
-    respond,
-    context,
-  });
+  const invoke = () =>
+    handler({
+      req,
+      params: (req.params ?? {}) as Record<string, unknown>,
+      client,
+      isWebchatConnect,
+      respond,
+      context,
+    });
+  // Only callers inside a trace (agent tools, sub-agent spawns) get a server span.
+  const traceParent = parseTraceparent(req.traceparent);
+  if (!traceParent) {
+    await invoke();
+    return;
+  }
+  await withDiagnosticSpan(
+    "openclaw.gateway.request",
+    { kind: "server", parent: traceParent, attributes: { "openclaw.method": req.method } },
+    invoke,
+  );
 }
@@ -12,6 +12,7 @@ import {
   updateSessionStore,
 } from "../../config/sessions.js";
 import { registerAgentRunContext } from "../../infra/agent-events.js";
+import { getActiveTraceContext, withDiagnosticSpan } from "../../infra/diagnostic-trace.js";
 import {
   resolveAgentDeliveryPlan,
   resolveAgentOutboundTarget,
@@ -525,41 +526,57 @@ export const agentHandlers: GatewayRequestHandlers = {
 
     const resolvedThreadId = explicitThreadId ?? deliveryPlan.resolvedThreadId;
 
-    void agentCommand(
+    // Sub-agent runs start their own trace, linked to the spawning tool call.
+    const parentTrace = getActiveTraceContext();
+    void withDiagnosticSpan(
+      "openclaw.agent",
       {
-        message,
-        images,
-        to: resolvedTo,
-        sessionId: resolvedSessionId,
-        sessionKey: resolvedSessionKey,
-        thinking: request.thinking,
-        deliver,
-        deliveryTargetMode,
-        channel: resolvedChannel,
-        accountId: resolvedAccountId,
-        threadId: resolvedThreadId,
-        runContext: {
-          messageChannel: resolvedChannel,
-          accountId: resolvedAccountId,
-          groupId: resolvedGroupId,
-          groupChannel: resolvedGroupChannel,
-          groupSpace: resolvedGroupSpace,
-          currentThreadTs: resolvedThreadId != null ? String(resolvedThreadId) : undefined,
+        parent: spawnedByValue ? null : undefined,
+        links: spawnedByValue ? [parentTrace] : undefined,
+        attributes: {
+          "openclaw.runId": runId,
+          "openclaw.sessionKey": resolvedSessionKey,
+          "openclaw.spawnedBy": spawnedByValue,
+          "openclaw.lane": request.lane,
         },
-        groupId: resolvedGroupId,
-        groupChannel: resolvedGroupChannel,
-        groupSpace: resolvedGroupSpace,
-        spawnedBy: spawnedByValue,
-        timeout: request.timeout?.toString(),
-        bestEffortDeliver,
-        messageChannel: resolvedChannel,
-        runId,
-        lane: request.lane,
-        extraSystemPrompt: request.extraSystemPrompt,
-        inputProvenance,
       },
-      defaultRuntime,
-      context.deps,
+      () =>
+        agentCommand(
+          {
+            message,
+            images,
+            to: resolvedTo,
+            sessionId: resolvedSessionId,
+            sessionKey: resolvedSessionKey,
+            thinking: request.thinking,
+            deliver,
+            deliveryTargetMode,
+            channel: resolvedChannel,
+            accountId: resolvedAccountId,
+            threadId: resolvedThreadId,
+            runContext: {
+              messageChannel: resolvedChannel,
+              accountId: resolvedAccountId,
+              groupId: resolvedGroupId,
+              groupChannel: resolvedGroupChannel,
+              groupSpace: resolvedGroupSpace,
+              currentThreadTs: resolvedThreadId != null ? String(resolvedThreadId) : undefined,
+            },
+            groupId: resolvedGroupId,
+            groupChannel: resolvedGroupChannel,
+            groupSpace: resolvedGroupSpace,
+            spawnedBy: spawnedByValue,
+            timeout: request.timeout?.toString(),
+            bestEffortDeliver,
+            messageChannel: resolvedChannel,
+            runId,
+            lane: request.lane,
+            extraSystemPrompt: request.extraSystemPrompt,
+            inputProvenance,
+          },
+          defaultRuntime,
+          context.deps,
+        ),
     )
       .then((result) => {
         const payload = {
@@ -0,0 +1,170 @@
+import type { BoardMessage } from "../../agent-boards/types.js";
+import type { GatewayRequestHandlers, RespondFn } from "./types.js";
+import {
+  clearBoard,
+  listBoards,
+  postBoardMessage,
+  readBoardMessages,
+  selectBoardThread,
+} from "../../agent-boards/store.js";
+import {
+  listAgentIds,
+  resolveAgentWorkspaceDir,
+  resolveDefaultAgentId,
+} from "../../agents/agent-scope.js";
+import { loadConfig } from "../../config/config.js";
+import { normalizeAgentId } from "../../routing/session-key.js";
+import {
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  validateBoardsClearParams,
+  validateBoardsListParams,
+  validateBoardsPostParams,
+  validateBoardsReadParams,
+} from "../protocol/index.js";
+
+const DEFAULT_READ_LIMIT = 100;
+
+function resolveBoardsWorkspace(
+  agentIdRaw: string | undefined,
+  respond: RespondFn,
+): { agentId: string; workspaceDir: string } | null {
+  const cfg = loadConfig();
+  const agentId = agentIdRaw ? normalizeAgentId(agentIdRaw) : resolveDefaultAgentId(cfg);
+  if (!listAgentIds(cfg).includes(agentId)) {
+    respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "unknown agent id"));
+    return null;
+  }
+  return { agentId, workspaceDir: resolveAgentWorkspaceDir(cfg, agentId) };
+}
+
+function serializeMessage(message: BoardMessage) {
+  return {
+    id: message.id,
+    board: message.board,
+    from: message.from,
+    message: message.message,
+    timestampMs: message.timestamp,
+    ...(message.tags?.length ? { tags: message.tags } : {}),
+    ...(message.replyTo ? { replyTo: message.replyTo, threadId: message.threadId } : {}),
+    ...(message.sessionKey ? { sessionKey: message.sessionKey } : {}),
+  };
+}
+
+export const boardsHandlers: GatewayRequestHandlers = {
+  "boards.list": async ({ params, respond }) => {
+    if (!validateBoardsListParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid boards.list params: ${formatValidationErrors(validateBoardsListParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const target = resolveBoardsWorkspace(params.agentId, respond);
+    if (!target) {
+      return;
+    }
+    const boards = await listBoards(target.workspaceDir);
+    respond(true, { agentId: target.agentId, boards }, undefined);
+  },
+  "boards.read": async ({ params, respond }) => {
+    if (!validateBoardsReadParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid boards.read params: ${formatValidationErrors(validateBoardsReadParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const target = resolveBoardsWorkspace(params.agentId, respond);
+    if (!target) {
+      return;
+    }
+    let messages = await readBoardMessages(target.workspaceDir, params.board);
+    if (params.thread) {
+      messages = selectBoardThread(messages, params.thread);
+    }
+    const sinceMs = params.sinceMs;
+    if (sinceMs !== undefined) {
+      messages = messages.filter((m) => m.timestamp > sinceMs);
+    }
+    messages = messages.slice(-(params.limit ?? DEFAULT_READ_LIMIT));
+    respond(
+      true,
+      {
+        agentId: target.agentId,
+        board: params.board,
+        messages: messages.map(serializeMessage),
+      },
+      undefined,
+    );
+  },
+  "boards.post": async ({ params, respond }) => {
+    if (!validateBoardsPostParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid boards.post params: ${formatValidationErrors(validateBoardsPostParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const target = resolveBoardsWorkspace(params.agentId, respond);
+    if (!target) {
+      return;
+    }
+    try {
+      const result = await postBoardMessage(target.workspaceDir, {
+        board: params.board,
+        message: params.message,
+        from: params.from ?? "operator",
+        tags: params.tags,
+        replyTo: params.replyTo,
+      });
+      respond(
+        true,
+        {
+          ok: true,
+          message: serializeMessage(result.message),
+          notified: result.notified.length,
+        },
+        undefined,
+      );
+    } catch (err) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, err instanceof Error ? err.message : String(err)),
+      );
+    }
+  },
+  "boards.clear": async ({ params, respond }) => {
+    if (!validateBoardsClearParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid boards.clear params: ${formatValidationErrors(validateBoardsClearParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const target = resolveBoardsWorkspace(params.agentId, respond);
+    if (!target) {
+      return;
+    }
+    const cleared = await clearBoard(target.workspaceDir, params.board);
+    respond(true, { ok: true, board: params.board, cleared }, undefined);
+  },
+};
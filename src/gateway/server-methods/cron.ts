@@ -1,15 +1,22 @@
-import type { CronJobCreate, CronJobPatch } from "../../cron/types.js";
+import type { CronJobCreate, CronJobPatch, CronSchedule } from "../../cron/types.js";
 import type { GatewayRequestHandlers } from "./types.js";
 import { normalizeCronJobCreate, normalizeCronJobPatch } from "../../cron/normalize.js";
-import { readCronRunLogEntries, resolveCronRunLogPath } from "../../cron/run-log.js";
+import {
+  type CronRunLogFilter,
+  readCronRunLogEntries,
+  resolveCronRunLogPath,
+} from "../../cron/run-log.js";
 import { validateScheduleTimestamp } from "../../cron/validate-timestamp.js";
+import { formatErrorMessage } from "../../infra/errors.js";
 import {
   ErrorCodes,
   errorShape,
   formatValidationErrors,
   validateCronAddParams,
   validateCronListParams,
+  validateCronPreviewParams,
   validateCronRemoveParams,
+  validateCronReplayParams,
   validateCronRunParams,
   validateCronRunsParams,
   validateCronStatusParams,
@@ -70,6 +77,42 @@ export const cronHandlers: GatewayRequestHandlers = {
     const status = await context.cron.status();
     respond(true, status, undefined);
   },
+  "cron.preview": async ({ params, respond, context }) => {
+    const normalizedSchedule =
+      params && typeof params === "object" && "schedule" in params
+        ? (normalizeCronJobPatch({ schedule: (params as { schedule?: unknown }).schedule })
+            ?.schedule ?? (params as { schedule?: unknown }).schedule)
+        : undefined;
+    const candidate =
+      normalizedSchedule !== undefined ? { ...params, schedule: normalizedSchedule } : params;
+    if (!validateCronPreviewParams(candidate)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.preview params: ${formatValidationErrors(validateCronPreviewParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = candidate as {
+      id?: string;
+      jobId?: string;
+      schedule?: CronSchedule;
+      count?: number;
+    };
+    try {
+      const result = await context.cron.preview({
+        id: p.id ?? p.jobId,
+        schedule: p.schedule,
+        count: p.count,
+      });
+      respond(true, result, undefined);
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, formatErrorMessage(err)));
+    }
+  },
   "cron.add": async ({ params, respond, context }) => {
     const normalized = normalizeCronJobCreate(params) ?? params;
     if (!validateCronAddParams(normalized)) {
@@ -204,7 +247,7 @@ export const cronHandlers: GatewayRequestHandlers = {
       );
       return;
     }
-    const p = params as { id?: string; jobId?: string; limit?: number };
+    const p = params as CronRunLogFilter & { id?: string };
     const jobId = p.id ?? p.jobId;
     if (!jobId) {
       respond(
@@ -221,7 +264,58 @@ export const cronHandlers: GatewayRequestHandlers = {
     const entries = await readCronRunLogEntries(logPath, {
       limit: p.limit,
       jobId,
+      runId: p.runId,
+      status: p.status,
+      sinceMs: p.sinceMs,
+      untilMs: p.untilMs,
     });
     respond(true, { entries }, undefined);
   },
+  "cron.replay": async ({ params, respond, context }) => {
+    if (!validateCronReplayParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.replay params: ${formatValidationErrors(validateCronReplayParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as { id?: string; jobId?: string; runId: string };
+    const jobId = p.id ?? p.jobId;
+    if (!jobId) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "invalid cron.replay params: missing id"),
+      );
+      return;
+    }
+    const logPath = resolveCronRunLogPath({
+      storePath: context.cronStorePath,
+      jobId,
+    });
+    const [entry] = await readCronRunLogEntries(logPath, { jobId, runId: p.runId, limit: 1 });
+    if (!entry?.input) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          entry
+            ? `cron run ${p.runId} has no recorded inputs to replay`
+            : `unknown cron run: ${p.runId}`,
+        ),
+      );
+      return;
+    }
+    try {
+      const result = await context.cron.replay(jobId, { runId: p.runId, input: entry.input });
+      respond(true, result, undefined);
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, formatErrorMessage(err)));
+    }
+  },
 };
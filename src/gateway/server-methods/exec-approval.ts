@@ -5,6 +5,7 @@ import {
   DEFAULT_EXEC_APPROVAL_TIMEOUT_MS,
   type ExecApprovalDecision,
 } from "../../infra/exec-approvals.js";
+import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
 import {
   ErrorCodes,
   errorShape,
@@ -96,6 +97,31 @@ export function createExecApprovalHandlers(
         },
         { dropIfSlow: true },
       );
+      const hookRunner = getGlobalHookRunner();
+      const hookCtx = {
+        agentId: record.request.agentId ?? undefined,
+        sessionKey: record.request.sessionKey ?? undefined,
+      };
+      if (hookRunner?.hasHooks("approval_requested")) {
+        void hookRunner
+          .runApprovalRequested(
+            {
+              id: record.id,
+              kind: "exec",
+              command: record.request.command,
+              cwd: record.request.cwd ?? undefined,
+              host: record.request.host ?? undefined,
+              createdAtMs: record.createdAtMs,
+              expiresAtMs: record.expiresAtMs,
+            },
+            hookCtx,
+          )
+          .catch((err) => {
+            context.logGateway?.error?.(
+              `exec approvals: approval_requested hook failed: ${String(err)}`,
+            );
+          });
+      }
       void opts?.forwarder
         ?.handleRequested({
           id: record.id,
@@ -123,6 +149,25 @@ export function createExecApprovalHandlers(
       }
 
       const decision = await decisionPromise;
+      if (hookRunner?.hasHooks("approval_resolved")) {
+        void hookRunner
+          .runApprovalResolved(
+            {
+              id: record.id,
+              kind: "exec",
+              command: record.request.command,
+              decision: decision ?? "expired",
+              resolvedBy: record.resolvedBy ?? undefined,
+              durationMs: (record.resolvedAtMs ?? Date.now()) - record.createdAtMs,
+            },
+            hookCtx,
+          )
+          .catch((err) => {
+            context.logGateway?.error?.(
+              `exec approvals: approval_resolved hook failed: ${String(err)}`,
+            );
+          });
+      }
       // Send final response with decision for callers using expectFinal:true.
       respond(
         true,
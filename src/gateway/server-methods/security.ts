@@ -0,0 +1,150 @@
+import type { GatewayRequestHandlers } from "./types.js";
+import { formatErrorMessage } from "../../infra/errors.js";
+import { requestHeartbeatNow } from "../../infra/heartbeat-wake.js";
+import { enqueueSystemEvent } from "../../infra/system-events.js";
+import { getLatestSecurityAuditRun, listSecurityAuditRuns } from "../../security/audit-history.js";
+import { wrapExternalContent } from "../../security/external-content.js";
+import {
+  getQuarantineEntry,
+  listQuarantineEntries,
+  type QuarantineEntry,
+  resolveQuarantineEntry,
+} from "../../security/quarantine.js";
+import {
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  validateSecurityAuditHistoryParams,
+  validateSecurityAuditLatestParams,
+  validateSecurityQuarantineGetParams,
+  validateSecurityQuarantineListParams,
+  validateSecurityQuarantineResolveParams,
+} from "../protocol/index.js";
+
+const PREVIEW_CHARS = 200;
+
+function summarizeEntry(entry: QuarantineEntry) {
+  const { content, ...rest } = entry;
+  const preview = content.replace(/\s+/g, " ").trim();
+  return {
+    ...rest,
+    preview: preview.length > PREVIEW_CHARS ? `${preview.slice(0, PREVIEW_CHARS)}…` : preview,
+  };
+}
+
+/** Hand approved require-approval content to the session it was addressed to. */
+function deliverApprovedEntry(entry: QuarantineEntry): boolean {
+  if (entry.action !== "require-approval" || !entry.sessionKey) {
+    return false;
+  }
+  const wrapped = wrapExternalContent(entry.content, {
+    source: entry.source,
+    sender: entry.sender,
+    subject: entry.subject,
+  });
+  const origin = entry.url ? ` from ${entry.url}` : "";
+  enqueueSystemEvent(
+    `Operator approved previously withheld ${entry.source} content${origin} (quarantine ${entry.id}):\n${wrapped}`,
+    { sessionKey: entry.sessionKey },
+  );
+  requestHeartbeatNow({ reason: "security-quarantine" });
+  return true;
+}
+
+export const securityHandlers: GatewayRequestHandlers = {
+  "security.audit.latest": async ({ params, respond }) => {
+    if (!validateSecurityAuditLatestParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid security.audit.latest params: ${formatValidationErrors(validateSecurityAuditLatestParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    respond(true, { run: await getLatestSecurityAuditRun() }, undefined);
+  },
+  "security.audit.history": async ({ params, respond }) => {
+    if (!validateSecurityAuditHistoryParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid security.audit.history params: ${formatValidationErrors(validateSecurityAuditHistoryParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const runs = await listSecurityAuditRuns(params.limit ?? 20);
+    respond(
+      true,
+      {
+        runs: params.includeFindings ? runs : runs.map(({ findings: _findings, ...run }) => run),
+      },
+      undefined,
+    );
+  },
+  "security.quarantine.list": async ({ params, respond }) => {
+    if (!validateSecurityQuarantineListParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid security.quarantine.list params: ${formatValidationErrors(validateSecurityQuarantineListParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const entries = await listQuarantineEntries({ status: params.status, limit: params.limit });
+    respond(true, { entries: entries.map(summarizeEntry) }, undefined);
+  },
+  "security.quarantine.get": async ({ params, respond }) => {
+    if (!validateSecurityQuarantineGetParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid security.quarantine.get params: ${formatValidationErrors(validateSecurityQuarantineGetParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const entry = await getQuarantineEntry(params.id);
+    if (!entry) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "unknown quarantine id"));
+      return;
+    }
+    respond(true, { entry }, undefined);
+  },
+  "security.quarantine.resolve": async ({ params, respond }) => {
+    if (!validateSecurityQuarantineResolveParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid security.quarantine.resolve params: ${formatValidationErrors(validateSecurityQuarantineResolveParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    let entry: QuarantineEntry | null;
+    try {
+      entry = await resolveQuarantineEntry({ id: params.id, decision: params.decision });
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, formatErrorMessage(err)));
+      return;
+    }
+    if (!entry) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "unknown quarantine id"));
+      return;
+    }
+    const delivered = entry.status === "approved" ? deliverApprovedEntry(entry) : false;
+    respond(true, { entry: summarizeEntry(entry), delivered }, undefined);
+  },
+};
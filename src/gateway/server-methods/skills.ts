@@ -127,6 +127,7 @@ export const skillsHandlers: GatewayRequestHandlers = {
       name: string;
       installId: string;
       timeoutMs?: number;
+      allowDangerousCode?: boolean;
     };
     const cfg = loadConfig();
     const workspaceDirRaw = resolveAgentWorkspaceDir(cfg, resolveDefaultAgentId(cfg));
@@ -136,6 +137,7 @@ export const skillsHandlers: GatewayRequestHandlers = {
       installId: p.installId,
       timeoutMs: p.timeoutMs,
       config: cfg,
+      allowDangerousCode: p.allowDangerousCode,
     });
     respond(
       result.ok,
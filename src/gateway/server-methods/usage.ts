@@ -24,6 +24,7 @@ import {
   discoverAllSessions,
   type DiscoveredSession,
 } from "../../infra/session-cost-usage.js";
+import { listSpendBudgetStatus } from "../../infra/spend-budgets.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
 import { buildUsageAggregateTail } from "../../shared/usage-aggregates.js";
 import {
@@ -305,6 +306,10 @@ export const usageHandlers: GatewayRequestHandlers = {
     const summary = await loadCostUsageSummaryCached({ startMs, endMs, config });
     respond(true, summary, undefined);
   },
+  "usage.budgets": async ({ respond }) => {
+    const status = await listSpendBudgetStatus({ cfg: loadConfig() });
+    respond(true, status, undefined);
+  },
   "sessions.usage": async ({ respond, params }) => {
     if (!validateSessionsUsageParams(params)) {
       respond(
@@ -0,0 +1,167 @@
+import type { GatewayRequestHandlers } from "./types.js";
+import {
+  cancelWorkflowRun,
+  getWorkflowRun,
+  listWorkflowRunSummaries,
+  resumeWorkflowRun,
+  startNamedWorkflowRun,
+  summarizeWorkflowRun,
+} from "../../workflows/service.js";
+import {
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  validateWorkflowCancelParams,
+  validateWorkflowListParams,
+  validateWorkflowResumeParams,
+  validateWorkflowRunParams,
+  validateWorkflowStatusParams,
+} from "../protocol/index.js";
+
+export const workflowHandlers: GatewayRequestHandlers = {
+  "workflow.list": async ({ params, respond }) => {
+    if (!validateWorkflowListParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid workflow.list params: ${formatValidationErrors(validateWorkflowListParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const runs = await listWorkflowRunSummaries({
+      limit: params.limit ?? 50,
+      status: params.status,
+      agentId: params.agentId,
+      workflow: params.workflow,
+    });
+    respond(true, { runs }, undefined);
+  },
+  "workflow.run": async ({ params, respond, context }) => {
+    if (!validateWorkflowRunParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid workflow.run params: ${formatValidationErrors(validateWorkflowRunParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    let active;
+    try {
+      active = await startNamedWorkflowRun({
+        name: params.name,
+        params: params.params,
+        agentId: params.agentId,
+        sessionKey: params.sessionKey,
+      });
+    } catch (err) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, err instanceof Error ? err.message : String(err)),
+      );
+      return;
+    }
+    void active.done.then((record) => {
+      context.logGateway.info(`workflow ${record.runId} (${record.label}) ${record.status}`);
+    });
+    respond(true, { ok: true, run: summarizeWorkflowRun(active.record) }, undefined);
+  },
+  "workflow.status": async ({ params, respond }) => {
+    if (!validateWorkflowStatusParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid workflow.status params: ${formatValidationErrors(
+            validateWorkflowStatusParams.errors,
+          )}`,
+        ),
+      );
+      return;
+    }
+    const record = await getWorkflowRun(params.runId);
+    if (!record) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `unknown workflow run: ${params.runId}`),
+      );
+      return;
+    }
+    respond(
+      true,
+      {
+        run: summarizeWorkflowRun(record),
+        definition: record.definition,
+        steps: record.steps,
+      },
+      undefined,
+    );
+  },
+  "workflow.cancel": async ({ params, respond }) => {
+    if (!validateWorkflowCancelParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid workflow.cancel params: ${formatValidationErrors(
+            validateWorkflowCancelParams.errors,
+          )}`,
+        ),
+      );
+      return;
+    }
+    const result = await cancelWorkflowRun(params.runId);
+    if (!result.found) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `unknown workflow run: ${params.runId}`),
+      );
+      return;
+    }
+    respond(
+      true,
+      { ok: true, runId: params.runId, cancelled: result.cancelled, status: result.status },
+      undefined,
+    );
+  },
+  "workflow.resume": async ({ params, respond, context }) => {
+    if (!validateWorkflowResumeParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid workflow.resume params: ${formatValidationErrors(
+            validateWorkflowResumeParams.errors,
+          )}`,
+        ),
+      );
+      return;
+    }
+    let active;
+    try {
+      active = await resumeWorkflowRun(params.runId);
+    } catch (err) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, err instanceof Error ? err.message : String(err)),
+      );
+      return;
+    }
+    void active.done.then((record) => {
+      context.logGateway.info(`workflow ${record.runId} (${record.label}) ${record.status}`);
+    });
+    respond(true, { ok: true, run: summarizeWorkflowRun(active.record) }, undefined);
+  },
+};
@@ -2,6 +2,7 @@ import type { CliDeps } from "../cli/deps.js";
 import type { loadConfig } from "../config/config.js";
 import type { HeartbeatRunner } from "../infra/heartbeat-runner.js";
 import type { ChannelKind, GatewayReloadPlan } from "./config-reload.js";
+import type { GatewaySecurityAuditMonitor } from "./server-security-audit.js";
 import { getActiveEmbeddedRunCount } from "../agents/pi-embedded-runner/runs.js";
 import { getTotalPendingReplies } from "../auto-reply/reply/dispatcher-registry.js";
 import { resolveAgentMaxConcurrent, resolveSubagentMaxConcurrent } from "../config/agent-limits.js";
@@ -18,11 +19,18 @@ import { CommandLane } from "../process/lanes.js";
 import { resolveHooksConfig } from "./hooks.js";
 import { startBrowserControlServerIfEnabled } from "./server-browser.js";
 import { buildGatewayCronService, type GatewayCronState } from "./server-cron.js";
+import {
+  buildGatewayTaskQueueService,
+  resolveTaskQueueLaneConcurrency,
+  type GatewayTaskQueueState,
+} from "./server-task-queue.js";
 
 type GatewayHotReloadState = {
   hooksConfig: ReturnType<typeof resolveHooksConfig>;
   heartbeatRunner: HeartbeatRunner;
   cronState: GatewayCronState;
+  taskQueueState: GatewayTaskQueueState;
+  securityAudit: GatewaySecurityAuditMonitor;
   browserControl: Awaited<ReturnType<typeof startBrowserControlServerIfEnabled>> | null;
 };
 
@@ -65,6 +73,9 @@ export function createGatewayReloadHandlers(params: {
 
     resetDirectoryCache();
 
+    // Any applied config change can open or close a security foot-gun.
+    nextState.securityAudit.updateConfig(nextConfig);
+
     if (plan.restartCron) {
       state.cronState.cron.stop();
       nextState.cronState = buildGatewayCronService({
@@ -77,6 +88,18 @@ export function createGatewayReloadHandlers(params: {
         .catch((err) => params.logCron.error(`failed to start: ${String(err)}`));
     }
 
+    if (plan.restartTaskQueue) {
+      state.taskQueueState.service.stop();
+      nextState.taskQueueState = buildGatewayTaskQueueService({
+        cfg: nextConfig,
+        deps: params.deps,
+        broadcast: params.broadcast,
+      });
+      if (nextState.taskQueueState.enabled) {
+        nextState.taskQueueState.service.start();
+      }
+    }
+
     if (plan.restartBrowserControl) {
       if (state.browserControl) {
         await state.browserControl.stop().catch(() => {});
@@ -133,6 +156,7 @@ export function createGatewayReloadHandlers(params: {
     setCommandLaneConcurrency(CommandLane.Cron, nextConfig.cron?.maxConcurrentRuns ?? 1);
     setCommandLaneConcurrency(CommandLane.Main, resolveAgentMaxConcurrent(nextConfig));
     setCommandLaneConcurrency(CommandLane.Subagent, resolveSubagentMaxConcurrent(nextConfig));
+    setCommandLaneConcurrency(CommandLane.TaskQueue, resolveTaskQueueLaneConcurrency(nextConfig));
 
     if (plan.hotReasons.length > 0) {
       params.logReload.info(`config hot reload applied (${plan.hotReasons.join(", ")})`);
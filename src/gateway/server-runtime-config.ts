@@ -19,6 +19,9 @@ export type GatewayRuntimeConfig = {
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
+  openAiModelsEnabled: boolean;
+  openAiEmbeddingsEnabled: boolean;
+  openAiEmbeddingsConfig?: import("../config/types.gateway.js").GatewayHttpEmbeddingsConfig;
   controlUiBasePath: string;
   controlUiRoot?: string;
   resolvedAuth: ResolvedGatewayAuth;
@@ -51,6 +54,11 @@ export async function resolveGatewayRuntimeConfig(params: {
     false;
   const openResponsesConfig = params.cfg.gateway?.http?.endpoints?.responses;
   const openResponsesEnabled = params.openResponsesEnabled ?? openResponsesConfig?.enabled ?? false;
+  const openAiModelsEnabled =
+    params.cfg.gateway?.http?.endpoints?.models?.enabled ??
+    (openAiChatCompletionsEnabled || openResponsesEnabled);
+  const openAiEmbeddingsConfig = params.cfg.gateway?.http?.endpoints?.embeddings;
+  const openAiEmbeddingsEnabled = openAiEmbeddingsConfig?.enabled ?? false;
   const controlUiBasePath = normalizeControlUiBasePath(params.cfg.gateway?.controlUi?.basePath);
   const controlUiRootRaw = params.cfg.gateway?.controlUi?.root;
   const controlUiRoot =
@@ -123,6 +131,9 @@ export async function resolveGatewayRuntimeConfig(params: {
     openResponsesConfig: openResponsesConfig
       ? { ...openResponsesConfig, enabled: openResponsesEnabled }
       : undefined,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
     controlUiBasePath,
     controlUiRoot,
     resolvedAuth,
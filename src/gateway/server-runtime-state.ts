@@ -41,6 +41,9 @@ export async function createGatewayRuntimeState(params: {
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
+  openAiModelsEnabled?: boolean;
+  openAiEmbeddingsEnabled?: boolean;
+  openAiEmbeddingsConfig?: import("../config/types.gateway.js").GatewayHttpEmbeddingsConfig;
   resolvedAuth: ResolvedGatewayAuth;
   /** Optional rate limiter for auth brute-force protection. */
   rateLimiter?: AuthRateLimiter;
@@ -128,6 +131,9 @@ export async function createGatewayRuntimeState(params: {
       openAiChatCompletionsEnabled: params.openAiChatCompletionsEnabled,
       openResponsesEnabled: params.openResponsesEnabled,
       openResponsesConfig: params.openResponsesConfig,
+      openAiModelsEnabled: params.openAiModelsEnabled,
+      openAiEmbeddingsEnabled: params.openAiEmbeddingsEnabled,
+      openAiEmbeddingsConfig: params.openAiEmbeddingsConfig,
       handleHooksRequest,
       handlePluginRequest,
       resolvedAuth: params.resolvedAuth,
@@ -0,0 +1,119 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { SecurityAuditFinding, SecurityAuditReport } from "../security/audit.js";
+import { listSecurityAuditRuns } from "../security/audit-history.js";
+import { startGatewaySecurityAuditMonitor } from "./server-security-audit.js";
+
+let stateDir = "";
+
+beforeEach(async () => {
+  stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-audit-monitor-"));
+  vi.stubEnv("OPENCLAW_STATE_DIR", stateDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(stateDir, { recursive: true, force: true });
+});
+
+function finding(checkId: string, severity: SecurityAuditFinding["severity"]) {
+  return { checkId, severity, title: checkId, detail: `${checkId} detail` };
+}
+
+function report(findings: SecurityAuditFinding[]): SecurityAuditReport {
+  return {
+    ts: Date.now(),
+    summary: {
+      critical: findings.filter((f) => f.severity === "critical").length,
+      warn: findings.filter((f) => f.severity === "warn").length,
+      info: findings.filter((f) => f.severity === "info").length,
+    },
+    findings,
+  };
+}
+
+describe("startGatewaySecurityAuditMonitor", () => {
+  it("records runs, diffs them and alerts only on new critical findings", async () => {
+    const reports = [
+      report([finding("gateway.bind_no_auth", "critical"), finding("fs.state_dir", "warn")]),
+      report([
+        finding("gateway.bind_no_auth", "critical"),
+        finding("hooks.token_reuse", "critical"),
+      ]),
+    ];
+    const runAudit = vi.fn(async () => reports.shift() ?? report([]));
+    const deliver = vi.fn(async () => []);
+    const broadcast = vi.fn();
+    const cfg: OpenClawConfig = {
+      security: { audit: { intervalMinutes: 0, alert: { channel: "telegram", to: "123" } } },
+    };
+
+    const monitor = startGatewaySecurityAuditMonitor({ cfg, broadcast, runAudit, deliver });
+    const first = await monitor.runNow("startup");
+    expect(first?.trigger).toBe("startup");
+    expect(first?.hasPrevious).toBe(false);
+    expect(deliver).toHaveBeenCalledTimes(1);
+
+    monitor.updateConfig(cfg);
+    const second = await monitor.runNow("config-reload");
+    monitor.stop();
+
+    expect(runAudit).toHaveBeenCalledTimes(2);
+    expect(second?.diff.added.map((f) => f.checkId)).toEqual(["hooks.token_reuse"]);
+    expect(second?.diff.resolved.map((f) => f.checkId)).toEqual(["fs.state_dir"]);
+    expect(deliver).toHaveBeenCalledTimes(2);
+    expect(deliver).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        channel: "telegram",
+        to: "123",
+        payloads: [{ text: expect.stringContaining("hooks.token_reuse") }],
+      }),
+    );
+    const lastAlert = (
+      deliver.mock.calls.at(-1) as unknown as [{ payloads: [{ text: string }] }]
+    )[0];
+    expect(lastAlert.payloads[0].text).not.toContain("gateway.bind_no_auth");
+    expect(broadcast).toHaveBeenLastCalledWith(
+      "security.audit",
+      expect.objectContaining({ trigger: "config-reload", added: 1, resolved: 1 }),
+      { dropIfSlow: true },
+    );
+
+    const runs = await listSecurityAuditRuns();
+    expect(runs.map((run) => run.trigger)).toEqual(["config-reload", "startup"]);
+  });
+
+  it("does nothing when disabled", async () => {
+    const runAudit = vi.fn(async () => report([]));
+    const monitor = startGatewaySecurityAuditMonitor({
+      cfg: { security: { audit: { enabled: false } } },
+      broadcast: vi.fn(),
+      runAudit,
+    });
+    expect(await monitor.runNow("schedule")).toBeNull();
+    monitor.stop();
+    expect(runAudit).not.toHaveBeenCalled();
+  });
+
+  it("keeps the schedule within Node's timer range", async () => {
+    const setIntervalSpy = vi.spyOn(globalThis, "setInterval");
+    const start = async (intervalMinutes: number) => {
+      setIntervalSpy.mockClear();
+      const monitor = startGatewaySecurityAuditMonitor({
+        cfg: { security: { audit: { intervalMinutes } } },
+        broadcast: vi.fn(),
+        runAudit: vi.fn(async () => report([])),
+      });
+      await monitor.runNow("startup");
+      monitor.stop();
+      return setIntervalSpy.mock.calls.map((call) => call[1]);
+    };
+
+    expect(await start(100_000)).toEqual([35_000 * 60_000]);
+    expect(await start(0.001)).toEqual([]);
+    setIntervalSpy.mockRestore();
+  });
+});
@@ -0,0 +1,197 @@
+import type { OpenClawConfig } from "../config/config.js";
+import type { SecurityAuditFinding } from "../security/audit.js";
+import { isTruthyEnvValue } from "../infra/env.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import { deliverOutboundPayloads } from "../infra/outbound/deliver.js";
+import { getChildLogger } from "../logging.js";
+import {
+  recordSecurityAuditRun,
+  type SecurityAuditRun,
+  type SecurityAuditTrigger,
+} from "../security/audit-history.js";
+import { runSecurityAudit } from "../security/audit.js";
+import { isDeliverableMessageChannel, normalizeMessageChannel } from "../utils/message-channel.js";
+
+const DEFAULT_INTERVAL_MINUTES = 360;
+// setInterval delays above 2^31-1 ms fall back to 1 ms; stay well below that.
+const MAX_INTERVAL_MINUTES = 35_000;
+const MAX_ALERT_FINDINGS = 10;
+
+export type GatewaySecurityAuditMonitor = {
+  /** Run now, or join the run already in flight. Resolves null when disabled or on failure. */
+  runNow: (trigger: SecurityAuditTrigger) => Promise<SecurityAuditRun | null>;
+  /** Apply a reloaded config: reschedule and rerun the audit. */
+  updateConfig: (cfg: OpenClawConfig) => void;
+  stop: () => void;
+};
+
+function isMonitorEnabled(cfg: OpenClawConfig): boolean {
+  return (
+    !isTruthyEnvValue(process.env.OPENCLAW_SKIP_SECURITY_AUDIT) &&
+    cfg.security?.audit?.enabled !== false
+  );
+}
+
+export function formatSecurityAuditAlert(run: SecurityAuditRun, findings: SecurityAuditFinding[]) {
+  const lines = [
+    `🛡️ Security audit (${run.trigger}): ${findings.length} new finding${findings.length === 1 ? "" : "s"} ` +
+      `(${run.summary.critical} critical · ${run.summary.warn} warn total)`,
+  ];
+  for (const finding of findings.slice(0, MAX_ALERT_FINDINGS)) {
+    lines.push(`- [${finding.severity}] ${finding.title} (${finding.checkId})`);
+    if (finding.remediation?.trim()) {
+      lines.push(`  Fix: ${finding.remediation.trim()}`);
+    }
+  }
+  if (findings.length > MAX_ALERT_FINDINGS) {
+    lines.push(`…and ${findings.length - MAX_ALERT_FINDINGS} more (openclaw security audit)`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Rerun the security audit inside the gateway (startup, config reloads and
+ * `security.audit.intervalMinutes`), record each run with a diff against the
+ * previous one, broadcast a `security.audit` event and announce newly
+ * appeared findings to `security.audit.alert`.
+ */
+export function startGatewaySecurityAuditMonitor(params: {
+  cfg: OpenClawConfig;
+  broadcast: (event: string, payload: unknown, opts?: { dropIfSlow?: boolean }) => void;
+  runAudit?: typeof runSecurityAudit;
+  deliver?: typeof deliverOutboundPayloads;
+}): GatewaySecurityAuditMonitor {
+  const log = getChildLogger({ module: "security-audit" });
+  const runAudit = params.runAudit ?? runSecurityAudit;
+  const deliver = params.deliver ?? deliverOutboundPayloads;
+  let cfg = params.cfg;
+  let timer: NodeJS.Timeout | null = null;
+  let inFlight: Promise<SecurityAuditRun | null> | null = null;
+  let inFlightCfg: OpenClawConfig | null = null;
+  let stopped = false;
+  let pendingReload = false;
+
+  const alert = async (run: SecurityAuditRun) => {
+    const target = cfg.security?.audit?.alert;
+    if (!target) {
+      return;
+    }
+    const severities = target.minSeverity === "warn" ? ["critical", "warn"] : ["critical"];
+    const findings = run.diff.added.filter((finding) => severities.includes(finding.severity));
+    if (findings.length === 0) {
+      return;
+    }
+    const channel = normalizeMessageChannel(target.channel) ?? target.channel;
+    if (!isDeliverableMessageChannel(channel)) {
+      log.warn(`security audit alert skipped: channel "${target.channel}" cannot deliver`);
+      return;
+    }
+    await deliver({
+      cfg,
+      channel,
+      to: target.to,
+      accountId: target.accountId,
+      payloads: [{ text: formatSecurityAuditAlert(run, findings) }],
+      bestEffort: true,
+    });
+  };
+
+  const execute = async (trigger: SecurityAuditTrigger): Promise<SecurityAuditRun | null> => {
+    try {
+      const report = await runAudit({
+        config: cfg,
+        deep: false,
+        includeFilesystem: true,
+        includeChannelSecurity: true,
+      });
+      const run = await recordSecurityAuditRun({
+        report,
+        trigger,
+        limit: cfg.security?.audit?.historyLimit,
+      });
+      params.broadcast(
+        "security.audit",
+        {
+          id: run.id,
+          ts: run.ts,
+          trigger,
+          summary: run.summary,
+          added: run.diff.added.length,
+          resolved: run.diff.resolved.length,
+        },
+        { dropIfSlow: true },
+      );
+      if (run.diff.added.length > 0 || run.diff.resolved.length > 0) {
+        log.info(
+          `security audit (${trigger}): ${run.diff.added.length} new, ${run.diff.resolved.length} resolved ` +
+            `(${run.summary.critical} critical, ${run.summary.warn} warn)`,
+        );
+      }
+      await alert(run).catch((err) => {
+        log.warn(`security audit alert failed: ${formatErrorMessage(err)}`);
+      });
+      return run;
+    } catch (err) {
+      log.warn(`security audit (${trigger}) failed: ${formatErrorMessage(err)}`);
+      return null;
+    }
+  };
+
+  const runNow = (trigger: SecurityAuditTrigger): Promise<SecurityAuditRun | null> => {
+    if (stopped || !isMonitorEnabled(cfg)) {
+      return Promise.resolve(null);
+    }
+    if (inFlight) {
+      // A reload mid-run must still be audited against the new config.
+      if (trigger === "config-reload" && inFlightCfg !== cfg) {
+        pendingReload = true;
+      }
+      return inFlight;
+    }
+    inFlightCfg = cfg;
+    inFlight = execute(trigger).finally(() => {
+      inFlight = null;
+      inFlightCfg = null;
+      if (pendingReload) {
+        pendingReload = false;
+        void runNow("config-reload");
+      }
+    });
+    return inFlight;
+  };
+
+  const schedule = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    const minutes = Math.min(
+      Math.floor(cfg.security?.audit?.intervalMinutes ?? DEFAULT_INTERVAL_MINUTES),
+      MAX_INTERVAL_MINUTES,
+    );
+    if (stopped || !isMonitorEnabled(cfg) || !Number.isFinite(minutes) || minutes <= 0) {
+      return;
+    }
+    timer = setInterval(() => void runNow("schedule"), minutes * 60_000);
+    timer.unref?.();
+  };
+
+  schedule();
+  void runNow("startup");
+
+  return {
+    runNow,
+    updateConfig: (next) => {
+      cfg = next;
+      schedule();
+      void runNow("config-reload");
+    },
+    stop: () => {
+      stopped = true;
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import crypto from "node:crypto";
+import type { CliDeps } from "../cli/deps.js";
+import type { CronJob } from "../cron/types.js";
+import type { TaskQueueWorkerSpec } from "../task-queue/worker.js";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import { runCronIsolatedAgentTurn } from "../cron/isolated-agent.js";
+import { isTruthyEnvValue } from "../infra/env.js";
+import { getChildLogger } from "../logging.js";
+import { CommandLane } from "../process/lanes.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import { normalizeTaskQueueName, resolveTaskQueueStorePath } from "../task-queue/store.js";
+import { TaskQueueWorkerService } from "../task-queue/worker.js";
+
+export type GatewayTaskQueueState = {
+  service: TaskQueueWorkerService;
+  enabled: boolean;
+};
+
+const DEFAULT_POLL_SECONDS = 30;
+const DEFAULT_LEASE_SECONDS = 600;
+const DEFAULT_RETRY_DELAY_SECONDS = 60;
+
+export function resolveTaskQueueWorkers(cfg: ReturnType<typeof loadConfig>): TaskQueueWorkerSpec[] {
+  const defaultAgentId = resolveDefaultAgentId(cfg);
+  const seen = new Set<string>();
+  const workers: TaskQueueWorkerSpec[] = [];
+  for (const entry of cfg.taskQueue?.workers ?? []) {
+    const agentId = entry.agentId?.trim() ? normalizeAgentId(entry.agentId) : defaultAgentId;
+    const queue = normalizeTaskQueueName(entry.queue);
+    const id = entry.id?.trim() || `${agentId}:${queue}`;
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+    workers.push({
+      id,
+      queue,
+      agentId,
+      concurrency: Math.max(1, Math.floor(entry.concurrency ?? 1)),
+      pollMs: Math.max(1, entry.pollSeconds ?? DEFAULT_POLL_SECONDS) * 1000,
+      leaseMs: Math.max(5, entry.leaseSeconds ?? DEFAULT_LEASE_SECONDS) * 1000,
+      retryDelayMs: Math.max(0, entry.retryDelaySeconds ?? DEFAULT_RETRY_DELAY_SECONDS) * 1000,
+      timeoutSeconds: entry.timeoutSeconds,
+      model: entry.model,
+      thinking: entry.thinking,
+      prompt: entry.prompt,
+    });
+  }
+  return workers;
+}
+
+/** Parallel task runs across all workers; sizes the task-queue command lane. */
+export function resolveTaskQueueLaneConcurrency(cfg: ReturnType<typeof loadConfig>): number {
+  return Math.max(
+    1,
+    resolveTaskQueueWorkers(cfg).reduce((sum, worker) => sum + worker.concurrency, 0),
+  );
+}
+
+export function buildGatewayTaskQueueService(params: {
+  cfg: ReturnType<typeof loadConfig>;
+  deps: CliDeps;
+  broadcast: (event: string, payload: unknown, opts?: { dropIfSlow?: boolean }) => void;
+}): GatewayTaskQueueState {
+  const workers = resolveTaskQueueWorkers(params.cfg);
+  const enabled =
+    !isTruthyEnvValue(process.env.OPENCLAW_SKIP_TASK_QUEUE) &&
+    params.cfg.taskQueue?.enabled !== false &&
+    workers.length > 0;
+
+  const service = new TaskQueueWorkerService({
+    workers: enabled ? workers : [],
+    resolveStorePath: (agentId) =>
+      resolveTaskQueueStorePath(resolveAgentWorkspaceDir(params.cfg, agentId)),
+    runTask: async ({ worker, task, message }) => {
+      const now = Date.now();
+      // Task runs reuse the isolated cron turn: fresh session, no delivery.
+      const job: CronJob = {
+        id: `task-queue:${worker.id}:${crypto.randomUUID()}`,
+        agentId: worker.agentId,
+        name: `Task queue ${task.queue}: ${task.task.slice(0, 60)}`,
+        enabled: true,
+        createdAtMs: now,
+        updatedAtMs: now,
+        schedule: { kind: "at", at: new Date(now).toISOString() },
+        sessionTarget: "isolated",
+        wakeMode: "next-heartbeat",
+        payload: {
+          kind: "agentTurn",
+          message,
+          model: worker.model,
+          thinking: worker.thinking,
+          timeoutSeconds: worker.timeoutSeconds,
+        },
+        delivery: { mode: "none" },
+        state: { nextRunAtMs: now },
+      };
+      return await runCronIsolatedAgentTurn({
+        cfg: loadConfig(),
+        deps: params.deps,
+        job,
+        message,
+        agentId: worker.agentId,
+        sessionKey: `task-queue:${task.queue}:${task.id}`,
+        lane: CommandLane.TaskQueue,
+      });
+    },
+    log: getChildLogger({ module: "task-queue" }),
+    onEvent: (evt) => {
+      params.broadcast("taskQueue", evt, { dropIfSlow: true });
+    },
+  });
+
+  return { service, enabled };
+}
@@ -4,6 +4,7 @@ import type { PluginServicesHandle } from "../plugins/services.js";
 import type { RuntimeEnv } from "../runtime.js";
 import type { ControlUiRootState } from "./control-ui.js";
 import type { startBrowserControlServerIfEnabled } from "./server-browser.js";
+import { onBoardPost } from "../agent-boards/events.js";
 import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { getActiveEmbeddedRunCount } from "../agents/pi-embedded-runner/runs.js";
 import { registerSkillsChangeListener } from "../agents/skills/refresh.js";
@@ -69,10 +70,15 @@ import { loadGatewayPlugins } from "./server-plugins.js";
 import { createGatewayReloadHandlers } from "./server-reload-handlers.js";
 import { resolveGatewayRuntimeConfig } from "./server-runtime-config.js";
 import { createGatewayRuntimeState } from "./server-runtime-state.js";
+import {
+  type GatewaySecurityAuditMonitor,
+  startGatewaySecurityAuditMonitor,
+} from "./server-security-audit.js";
 import { resolveSessionKeyForRun } from "./server-session-key.js";
 import { logGatewayStartup } from "./server-startup-log.js";
 import { startGatewaySidecars } from "./server-startup.js";
 import { startGatewayTailscaleExposure } from "./server-tailscale.js";
+import { buildGatewayTaskQueueService } from "./server-task-queue.js";
 import { createWizardSessionTracker } from "./server-wizard-sessions.js";
 import { attachGatewayWsHandlers } from "./server-ws-runtime.js";
 import {
@@ -275,6 +281,9 @@ export async function startGatewayServer(
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
     openResponsesConfig,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
     controlUiBasePath,
     controlUiRoot: controlUiRootOverride,
     resolvedAuth,
@@ -359,6 +368,9 @@ export async function startGatewayServer(
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
     openResponsesConfig,
+    openAiModelsEnabled,
+    openAiEmbeddingsEnabled,
+    openAiEmbeddingsConfig,
     resolvedAuth,
     rateLimiter: authRateLimiter,
     gatewayTls,
@@ -400,6 +412,11 @@ export async function startGatewayServer(
     broadcast,
   });
   let { cron, storePath: cronStorePath } = cronState;
+  let taskQueueState = buildGatewayTaskQueueService({
+    cfg: cfgAtStart,
+    deps,
+    broadcast,
+  });
 
   const channelManager = createChannelManager({
     loadConfig,
@@ -495,6 +512,23 @@ export async function startGatewayServer(
         broadcast("heartbeat", evt, { dropIfSlow: true });
       });
 
+  const boardUnsub = minimalTestGateway
+    ? null
+    : onBoardPost((evt) => {
+        broadcast(
+          "board",
+          {
+            board: evt.message.board,
+            id: evt.message.id,
+            from: evt.message.from,
+            timestampMs: evt.message.timestamp,
+            ...(evt.message.tags?.length ? { tags: evt.message.tags } : {}),
+            ...(evt.message.threadId ? { threadId: evt.message.threadId } : {}),
+          },
+          { dropIfSlow: true },
+        );
+      });
+
   let heartbeatRunner: HeartbeatRunner = minimalTestGateway
     ? {
         stop: () => {},
@@ -502,8 +536,15 @@ export async function startGatewayServer(
       }
     : startHeartbeatRunner({ cfg: cfgAtStart });
 
+  const securityAudit: GatewaySecurityAuditMonitor = minimalTestGateway
+    ? { runNow: async () => null, updateConfig: () => {}, stop: () => {} }
+    : startGatewaySecurityAuditMonitor({ cfg: cfgAtStart, broadcast });
+
   if (!minimalTestGateway) {
     void cron.start().catch((err) => logCron.error(`failed to start: ${String(err)}`));
+    if (taskQueueState.enabled) {
+      taskQueueState.service.start();
+    }
   }
 
   // Recover pending outbound deliveries from previous crash/restart.
@@ -645,6 +686,8 @@ export async function startGatewayServer(
             hooksConfig,
             heartbeatRunner,
             cronState,
+            taskQueueState,
+            securityAudit,
             browserControl,
           }),
           setState: (nextState) => {
@@ -653,6 +696,7 @@ export async function startGatewayServer(
             cronState = nextState.cronState;
             cron = cronState.cron;
             cronStorePath = cronState.storePath;
+            taskQueueState = nextState.taskQueueState;
             browserControl = nextState.browserControl;
           },
           startChannel,
@@ -686,6 +730,8 @@ export async function startGatewayServer(
     stopChannel,
     pluginServices,
     cron,
+    taskQueue: { stop: () => taskQueueState.service.stop() },
+    securityAudit,
     heartbeatRunner,
     nodePresenceTimers,
     broadcast,
@@ -694,6 +740,7 @@ export async function startGatewayServer(
     dedupeCleanup,
     agentUnsub,
     heartbeatUnsub,
+    boardUnsub,
     chatRunState,
     clients,
     configReloader,
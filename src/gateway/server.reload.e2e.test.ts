@@ -241,6 +241,7 @@ describe("gateway hot reload", () => {
           restartGmailWatcher: true,
           restartBrowserControl: true,
           restartCron: true,
+          restartTaskQueue: false,
           restartHeartbeat: true,
           restartChannels: new Set(["whatsapp", "telegram", "discord", "signal", "imessage"]),
           noopPaths: [],
@@ -291,6 +292,7 @@ describe("gateway hot reload", () => {
           restartGmailWatcher: false,
           restartBrowserControl: false,
           restartCron: false,
+          restartTaskQueue: false,
           restartHeartbeat: false,
           restartChannels: new Set(),
           noopPaths: [],
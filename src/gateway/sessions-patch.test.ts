@@ -4,6 +4,39 @@ import type { SessionEntry } from "../config/sessions.js";
 import { applySessionsPatchToStore } from "./sessions-patch.js";
 
 describe("gateway sessions patch", () => {
+  test("sets a configured template and drops the cached skills snapshot", async () => {
+    const cfg = {
+      session: { templates: { coding: { model: "opus" } } },
+    } as OpenClawConfig;
+    const store: Record<string, SessionEntry> = {
+      "agent:main:main": {
+        sessionId: "s1",
+        updatedAt: 1,
+        skillsSnapshot: { prompt: "", skills: [] },
+      },
+    };
+    const res = await applySessionsPatchToStore({
+      cfg,
+      store,
+      storeKey: "agent:main:main",
+      patch: { template: " coding " },
+    });
+    expect(res.ok).toBe(true);
+    if (!res.ok) {
+      return;
+    }
+    expect(res.entry.template).toBe("coding");
+    expect(res.entry.skillsSnapshot).toBeUndefined();
+
+    const unknown = await applySessionsPatchToStore({
+      cfg,
+      store,
+      storeKey: "agent:main:main",
+      patch: { template: "research" },
+    });
+    expect(unknown.ok).toBe(false);
+  });
+
   test("persists thinkingLevel=off (does not clear)", async () => {
     const store: Record<string, SessionEntry> = {};
     const res = await applySessionsPatchToStore({
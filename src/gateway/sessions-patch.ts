@@ -14,6 +14,7 @@ import {
   normalizeUsageDisplay,
   supportsXHighThinking,
 } from "../auto-reply/thinking.js";
+import { formatErrorMessage } from "../infra/errors.js";
 import {
   isSubagentSessionKey,
   normalizeAgentId,
@@ -23,6 +24,7 @@ import { applyVerboseOverride, parseVerboseOverride } from "../sessions/level-ov
 import { applyModelOverrideToSessionEntry } from "../sessions/model-overrides.js";
 import { normalizeSendPolicy } from "../sessions/send-policy.js";
 import { parseSessionLabel } from "../sessions/session-label.js";
+import { resolveSessionTemplate } from "../sessions/templates.js";
 import {
   ErrorCodes,
   type ErrorShape,
@@ -143,6 +145,23 @@ export async function applySessionsPatchToStore(params: {
     }
   }
 
+  if ("template" in patch) {
+    const raw = patch.template;
+    if (raw === null) {
+      delete next.template;
+    } else if (raw !== undefined) {
+      try {
+        next.template = resolveSessionTemplate(cfg, String(raw)).name;
+      } catch (err) {
+        return invalid(`invalid template: ${formatErrorMessage(err)}`);
+      }
+    }
+    if (next.template !== existing?.template) {
+      // Rebuild the skills snapshot with the new template's skills filter.
+      delete next.skillsSnapshot;
+    }
+  }
+
   if ("thinkingLevel" in patch) {
     const raw = patch.thinkingLevel;
     if (raw === null) {
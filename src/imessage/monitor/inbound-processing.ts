@@ -213,6 +213,7 @@ export function resolveIMessageInboundDecision(params: {
       kind: isGroup ? "group" : "direct",
       id: isGroup ? String(chatId ?? "unknown") : senderNormalized,
     },
+    message: { text: params.messageText, senderId: senderNormalized },
   });
   const mentionRegexes = buildMentionRegexes(params.cfg, route.agentId);
   const messageText = params.messageText.trim();
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { enqueueCommandInLane } from "../process/command-queue.js";
+import {
+  formatTraceparent,
+  getActiveTraceparent,
+  parseTraceparent,
+  registerDiagnosticTracer,
+  resetDiagnosticTracingForTest,
+  withDiagnosticSpan,
+  type DiagnosticTraceContext,
+  type DiagnosticTracer,
+} from "./diagnostic-trace.js";
+
+type RecordedSpan = {
+  name: string;
+  kind: string;
+  parent?: DiagnosticTraceContext;
+  links: DiagnosticTraceContext[];
+  context: DiagnosticTraceContext;
+  errors: unknown[];
+  ended: boolean;
+};
+
+function createRecordingTracer() {
+  const spans: RecordedSpan[] = [];
+  const tracer: DiagnosticTracer = {
+    startSpan: (name, params) => {
+      const index = spans.length + 1;
+      const span: RecordedSpan = {
+        name,
+        kind: params.kind,
+        parent: params.parent,
+        links: params.links,
+        context: {
+          traceId: params.parent?.traceId ?? index.toString(16).padStart(32, "0"),
+          spanId: index.toString(16).padStart(16, "0"),
+          traceFlags: 1,
+        },
+        errors: [],
+        ended: false,
+      };
+      spans.push(span);
+      return {
+        context: span.context,
+        setAttributes: () => {},
+        recordError: (err) => span.errors.push(err),
+        end: () => {
+          span.ended = true;
+        },
+      };
+    },
+  };
+  return { tracer, spans };
+}
+
+describe("diagnostic trace", () => {
+  afterEach(() => {
+    resetDiagnosticTracingForTest();
+  });
+
+  it("round-trips W3C traceparent headers and rejects invalid ones", () => {
+    const header = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+    const parsed = parseTraceparent(header);
+    expect(parsed).toEqual({
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      spanId: "00f067aa0ba902b7",
+      traceFlags: 1,
+    });
+    expect(formatTraceparent(parsed!)).toBe(header);
+    expect(parseTraceparent(`00-${"0".repeat(32)}-00f067aa0ba902b7-01`)).toBeUndefined();
+    expect(parseTraceparent("ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01")).toBe(
+      undefined,
+    );
+    expect(parseTraceparent("garbage")).toBeUndefined();
+    expect(parseTraceparent(undefined)).toBeUndefined();
+  });
+
+  it("is a pass-through without a registered tracer", async () => {
+    const result = await withDiagnosticSpan("openclaw.test", {}, async (span) => {
+      expect(span).toBeUndefined();
+      expect(getActiveTraceparent()).toBeUndefined();
+      return 42;
+    });
+    expect(result).toBe(42);
+  });
+
+  it("nests spans, records failures and supports linked new traces", async () => {
+    const { tracer, spans } = createRecordingTracer();
+    registerDiagnosticTracer(tracer);
+
+    await withDiagnosticSpan("openclaw.message.inbound", { kind: "server" }, async () => {
+      await withDiagnosticSpan("openclaw.tool.call", {}, async () => {
+        expect(getActiveTraceparent()).toBe(formatTraceparent(spans[1].context));
+      });
+      await withDiagnosticSpan("openclaw.agent", { parent: null, links: [spans[0]?.context] }, () =>
+        Promise.resolve(),
+      );
+      await expect(
+        withDiagnosticSpan("openclaw.model.call", { kind: "client" }, async () => {
+          throw new Error("boom");
+        }),
+      ).rejects.toThrow("boom");
+    });
+
+    const [inbound, tool, agent, model] = spans;
+    expect(inbound).toMatchObject({ kind: "server", parent: undefined, ended: true });
+    expect(tool?.parent).toEqual(inbound?.context);
+    expect(agent?.parent).toBeUndefined();
+    expect(agent?.links).toEqual([inbound?.context]);
+    expect(model?.parent).toEqual(inbound?.context);
+    expect(model?.errors).toHaveLength(1);
+    expect(spans.every((span) => span.ended)).toBe(true);
+  });
+
+  it("runs lane tasks in the trace of the caller that queued them", async () => {
+    const { tracer, spans } = createRecordingTracer();
+    registerDiagnosticTracer(tracer);
+    const lane = "trace-test";
+    let release: () => void = () => {};
+    const blocker = enqueueCommandInLane(
+      lane,
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        }),
+    );
+
+    const queued = withDiagnosticSpan("openclaw.message.inbound", {}, () =>
+      enqueueCommandInLane(lane, async () => getActiveTraceparent()),
+    );
+    release();
+    await blocker;
+    const traceparent = await queued;
+
+    const inbound = spans.find((span) => span.name === "openclaw.message.inbound");
+    const wait = spans.filter((span) => span.name === "openclaw.queue.wait");
+    expect(traceparent).toBe(formatTraceparent(inbound!.context));
+    expect(wait.at(-1)).toMatchObject({ parent: inbound?.context, ended: true });
+  });
+});
@@ -0,0 +1,179 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// Span tree for an agent turn (channel ingress -> routing -> queue -> model/tool
+// calls -> delivery). Core only tracks W3C trace context; an exporter plugin
+// (diagnostics-otel) registers the tracer that actually records spans. Without a
+// tracer every helper here is a pass-through.
+
+export type DiagnosticTraceContext = {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+};
+
+export type DiagnosticSpanKind = "internal" | "server" | "client" | "producer" | "consumer";
+
+export type DiagnosticSpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export type DiagnosticSpan = {
+  readonly context: DiagnosticTraceContext;
+  setAttributes: (attributes: DiagnosticSpanAttributes) => void;
+  recordError: (err: unknown) => void;
+  end: () => void;
+};
+
+export type DiagnosticTracer = {
+  startSpan: (
+    name: string,
+    params: {
+      kind: DiagnosticSpanKind;
+      attributes: DiagnosticSpanAttributes;
+      parent?: DiagnosticTraceContext;
+      links: DiagnosticTraceContext[];
+    },
+  ) => DiagnosticSpan;
+};
+
+export type DiagnosticSpanOptions = {
+  kind?: DiagnosticSpanKind;
+  attributes?: DiagnosticSpanAttributes;
+  /**
+   * Explicit parent (e.g. a queued item or an incoming `traceparent`).
+   * Defaults to the active span; `null` starts a new trace.
+   */
+  parent?: DiagnosticTraceContext | null;
+  links?: Array<DiagnosticTraceContext | undefined>;
+};
+
+const TRACEPARENT_RE = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+// Shared through globalThis: the plugin SDK bundle registers the tracer that the
+// core bundle's spans use.
+const TRACE_STATE = Symbol.for("openclaw.diagnosticTraceState");
+
+type TraceState = {
+  tracer: DiagnosticTracer | null;
+  activeContext: AsyncLocalStorage<DiagnosticTraceContext>;
+};
+
+const state: TraceState = (() => {
+  const globalState = globalThis as typeof globalThis & {
+    [TRACE_STATE]?: TraceState;
+  };
+  if (!globalState[TRACE_STATE]) {
+    globalState[TRACE_STATE] = {
+      tracer: null,
+      activeContext: new AsyncLocalStorage<DiagnosticTraceContext>(),
+    };
+  }
+  return globalState[TRACE_STATE];
+})();
+
+export function registerDiagnosticTracer(next: DiagnosticTracer): () => void {
+  state.tracer = next;
+  return () => {
+    if (state.tracer === next) {
+      state.tracer = null;
+    }
+  };
+}
+
+export function isDiagnosticTracingEnabled(): boolean {
+  return state.tracer !== null;
+}
+
+export function getActiveTraceContext(): DiagnosticTraceContext | undefined {
+  return state.tracer ? state.activeContext.getStore() : undefined;
+}
+
+export function formatTraceparent(context: DiagnosticTraceContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+export function parseTraceparent(value: unknown): DiagnosticTraceContext | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const match = TRACEPARENT_RE.exec(value.trim().toLowerCase());
+  if (!match || match[1] === "ff") {
+    return undefined;
+  }
+  const [, , traceId, spanId, flags] = match;
+  if (!traceId || !spanId || traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+  return { traceId, spanId, traceFlags: Number.parseInt(flags ?? "0", 16) };
+}
+
+/** `traceparent` header value for the active span, when tracing is enabled. */
+export function getActiveTraceparent(): string | undefined {
+  const context = getActiveTraceContext();
+  return context ? formatTraceparent(context) : undefined;
+}
+
+/**
+ * Start a span without making it active. Use for spans whose lifetime is not a
+ * single callback (queue waits, streamed model responses).
+ */
+export function startDiagnosticSpan(
+  name: string,
+  opts?: DiagnosticSpanOptions,
+): DiagnosticSpan | undefined {
+  const tracer = state.tracer;
+  if (!tracer) {
+    return undefined;
+  }
+  const parent = opts?.parent === undefined ? state.activeContext.getStore() : opts.parent;
+  try {
+    return tracer.startSpan(name, {
+      kind: opts?.kind ?? "internal",
+      attributes: opts?.attributes ?? {},
+      parent: parent ?? undefined,
+      links: (opts?.links ?? []).filter((link): link is DiagnosticTraceContext => Boolean(link)),
+    });
+  } catch {
+    // Tracing must never break the traced work.
+    return undefined;
+  }
+}
+
+/** Run `fn` with `context` as the active trace context (no new span). */
+export function runWithTraceContext<T>(
+  context: DiagnosticTraceContext | undefined,
+  fn: () => T,
+): T {
+  if (!state.tracer || !context) {
+    return fn();
+  }
+  return state.activeContext.run(context, fn);
+}
+
+/**
+ * Run `fn` inside a new active span. The span ends when `fn` settles and is
+ * marked as failed when it throws.
+ */
+export async function withDiagnosticSpan<T>(
+  name: string,
+  opts: DiagnosticSpanOptions,
+  fn: (span: DiagnosticSpan | undefined) => Promise<T> | T,
+): Promise<T> {
+  const span = startDiagnosticSpan(name, opts);
+  if (!span) {
+    return await fn(undefined);
+  }
+  try {
+    return await state.activeContext.run(span.context, () => fn(span));
+  } catch (err) {
+    span.recordError(err);
+    throw err;
+  } finally {
+    span.end();
+  }
+}
+
+export function resetDiagnosticTracingForTest(): void {
+  state.tracer = null;
+}
@@ -67,33 +67,52 @@ function resolveMinutesInTimeZone(nowMs: number, timeZone: string): number | nul
   }
 }
 
-export function isWithinActiveHours(
+export type ActiveHoursWindow = NonNullable<NonNullable<HeartbeatConfig>["activeHours"]>;
+
+/**
+ * Minutes from `nowMs` until the active window opens: 0 inside the window (or
+ * when the window is missing/invalid), otherwise the wait until its start.
+ */
+export function minutesUntilActiveHours(
   cfg: OpenClawConfig,
-  heartbeat?: HeartbeatConfig,
+  active: ActiveHoursWindow | undefined,
   nowMs?: number,
-): boolean {
-  const active = heartbeat?.activeHours;
+): number {
   if (!active) {
-    return true;
+    return 0;
   }
 
   const startMin = parseActiveHoursTime({ allow24: false }, active.start);
   const endMin = parseActiveHoursTime({ allow24: true }, active.end);
   if (startMin === null || endMin === null) {
-    return true;
+    return 0;
   }
   if (startMin === endMin) {
-    return true;
+    return 0;
   }
 
   const timeZone = resolveActiveHoursTimezone(cfg, active.timezone);
   const currentMin = resolveMinutesInTimeZone(nowMs ?? Date.now(), timeZone);
   if (currentMin === null) {
-    return true;
+    return 0;
   }
 
   if (endMin > startMin) {
-    return currentMin >= startMin && currentMin < endMin;
+    if (currentMin >= startMin && currentMin < endMin) {
+      return 0;
+    }
+    return currentMin < startMin ? startMin - currentMin : 24 * 60 - currentMin + startMin;
+  }
+  if (currentMin >= startMin || currentMin < endMin) {
+    return 0;
   }
-  return currentMin >= startMin || currentMin < endMin;
+  return startMin - currentMin;
+}
+
+export function isWithinActiveHours(
+  cfg: OpenClawConfig,
+  heartbeat?: HeartbeatConfig,
+  nowMs?: number,
+): boolean {
+  return minutesUntilActiveHours(cfg, heartbeat?.activeHours, nowMs) === 0;
 }
@@ -29,6 +29,7 @@ import { getAgentScopedMediaLocalRoots } from "../../media/local-roots.js";
 import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
 import { markdownToSignalTextChunks, type SignalTextStyleRange } from "../../signal/format.js";
 import { sendMessageSignal } from "../../signal/send.js";
+import { withDiagnosticSpan } from "../diagnostic-trace.js";
 import { throwIfAborted } from "./abort.js";
 import { ackDelivery, enqueueDelivery, failDelivery } from "./delivery-queue.js";
 import { normalizeReplyPayloadsForDelivery } from "./payloads.js";
@@ -232,7 +233,18 @@ export async function deliverOutboundPayloads(
     : params;
 
   try {
-    const results = await deliverOutboundPayloadsCore(wrappedParams);
+    const results = await withDiagnosticSpan(
+      "openclaw.outbound.deliver",
+      {
+        kind: "producer",
+        attributes: {
+          "openclaw.channel": channel,
+          "openclaw.accountId": params.accountId,
+          "openclaw.payloads": payloads.length,
+        },
+      },
+      () => deliverOutboundPayloadsCore(wrappedParams),
+    );
     if (queueId) {
       if (hadPartialFailure) {
         await failDelivery(queueId, "partial delivery failure (bestEffort)").catch(() => {});
@@ -497,7 +509,24 @@ async function deliverOutboundPayloadsCore(
       }
       emitMessageSent(true);
     } catch (err) {
-      emitMessageSent(false, err instanceof Error ? err.message : String(err));
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      emitMessageSent(false, errorMessage);
+      if (!isAbortError(err) && hookRunner?.hasHooks("delivery_failed")) {
+        void hookRunner
+          .runDeliveryFailed(
+            {
+              to,
+              content: payloadSummary.text,
+              mediaUrls: payloadSummary.mediaUrls,
+              error: errorMessage,
+            },
+            {
+              channelId: channel,
+              accountId: accountId ?? undefined,
+            },
+          )
+          .catch(() => {});
+      }
       if (!params.bestEffort) {
         throw err;
       }
@@ -0,0 +1,120 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  restoreStateDirEnv,
+  setStateDirEnv,
+  snapshotStateDirEnv,
+} from "../test-helpers/state-dir-env.js";
+import {
+  checkSpendBudgets,
+  formatSpendBudgetStopMessage,
+  isSpendBudgetsEnabled,
+  listSpendBudgetStatus,
+  recordSpendBudgetUsage,
+  resolveSpendBudgetScopes,
+} from "./spend-budgets.js";
+
+const NOW = Date.UTC(2026, 2, 14, 12);
+
+describe("spend budgets", () => {
+  let envSnapshot: ReturnType<typeof snapshotStateDirEnv>;
+  let tempRoot: string;
+
+  beforeEach(async () => {
+    envSnapshot = snapshotStateDirEnv();
+    tempRoot = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-spend-budgets-"));
+    setStateDirEnv(path.join(tempRoot, "state"));
+  });
+
+  afterEach(async () => {
+    restoreStateDirEnv(envSnapshot);
+    await fs.rm(tempRoot, { recursive: true, force: true });
+  });
+
+  it("resolves the most specific scope per dimension", () => {
+    const cfg = {
+      budgets: {
+        agents: { main: { dailyTokens: 1000 } },
+        senders: { "*": { dailyUsd: 1 } },
+        channels: { "telegram:work": { monthlyUsd: 5 }, "*": { dailyTokens: 10 } },
+        cronJobs: { nightly: { dailyTokens: 0 } },
+      },
+    } as OpenClawConfig;
+    expect(isSpendBudgetsEnabled(cfg)).toBe(true);
+    expect(isSpendBudgetsEnabled({ budgets: { ...cfg.budgets, enabled: false } })).toBe(false);
+
+    const keys = (ctx: Parameters<typeof resolveSpendBudgetScopes>[1]) =>
+      resolveSpendBudgetScopes(cfg, ctx).map((scope) => scope.key);
+    expect(
+      keys({
+        agentId: "Main",
+        senderId: "+15550001",
+        channel: "telegram",
+        accountId: "work",
+        cronJobId: "nightly",
+      }),
+    ).toEqual(["agent:main", "sender:+15550001", "channel:telegram:work"]);
+    expect(keys({ agentId: "ops", channel: "slack", accountId: "a1" })).toEqual([
+      "channel:slack:a1",
+    ]);
+  });
+
+  it("records usage, announces thresholds once and blocks at the limit", async () => {
+    const cfg = { budgets: { agents: { main: { dailyTokens: 1000 } } } } as OpenClawConfig;
+    const ctx = { agentId: "main" };
+
+    expect(await recordSpendBudgetUsage({ cfg, ctx, tokens: 500, usd: 0, now: NOW })).toEqual([]);
+    const warn = await recordSpendBudgetUsage({ cfg, ctx, tokens: 300, usd: 0, now: NOW });
+    expect(warn).toMatchObject([{ level: "warn", scope: "agent:main", used: 800, limit: 1000 }]);
+    expect(await recordSpendBudgetUsage({ cfg, ctx, tokens: 50, usd: 0, now: NOW })).toEqual([]);
+    expect(await checkSpendBudgets({ cfg, ctx, now: NOW })).toBeNull();
+
+    const stop = await recordSpendBudgetUsage({ cfg, ctx, tokens: 200, usd: 0, now: NOW });
+    expect(stop).toMatchObject([{ level: "stop", period: "day", metric: "tokens" }]);
+    const breach = await checkSpendBudgets({ cfg, ctx, now: NOW });
+    expect(breach).toMatchObject({ scope: "agent:main", used: 1050, limit: 1000 });
+    if (!breach) {
+      throw new Error("expected breach");
+    }
+    expect(formatSpendBudgetStopMessage(cfg, breach)).toBe(
+      "Usage budget reached for agent:main (day). Try again later.",
+    );
+
+    // A new UTC day starts a fresh bucket.
+    const tomorrow = NOW + 24 * 60 * 60 * 1000;
+    expect(await checkSpendBudgets({ cfg, ctx, now: tomorrow })).toBeNull();
+  });
+
+  it("lists consumption for configured and wildcard-matched scopes", async () => {
+    const cfg = {
+      budgets: {
+        agents: { main: { monthlyUsd: 2 } },
+        senders: { "*": { dailyTokens: 100 } },
+      },
+    } as OpenClawConfig;
+    await recordSpendBudgetUsage({
+      cfg,
+      ctx: { agentId: "main", senderId: "alice" },
+      tokens: 120,
+      usd: 1.7,
+      now: NOW,
+    });
+
+    const status = await listSpendBudgetStatus({ cfg, now: NOW });
+    expect(status.enabled).toBe(true);
+    expect(status.periods).toEqual({ day: "2026-03-14", month: "2026-03" });
+    expect(status.scopes).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          scope: "agent:main",
+          status: "warn",
+          month: expect.objectContaining({ usd: 1.7 }),
+        }),
+        expect.objectContaining({ scope: "sender:alice", status: "exceeded" }),
+      ]),
+    );
+  });
+});
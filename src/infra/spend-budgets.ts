@@ -0,0 +1,384 @@
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import type { BudgetLimitConfig, BudgetLimitMap } from "../config/types.budgets.js";
+import { resolveStateDir } from "../config/paths.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "./json-files.js";
+
+export const DEFAULT_BUDGET_WARN_AT = 0.8;
+export const DEFAULT_BUDGET_STOP_MESSAGE =
+  "Usage budget reached for {scope} ({period}). Try again later.";
+
+export type SpendBudgetDimension = "agent" | "sender" | "channel" | "cronJob";
+export type SpendBudgetPeriod = "day" | "month";
+export type SpendBudgetMetric = "tokens" | "usd";
+
+/** Who a model call is attributed to. */
+export type SpendBudgetContext = {
+  agentId?: string;
+  senderId?: string | null;
+  channel?: string;
+  accountId?: string;
+  cronJobId?: string;
+};
+
+export type SpendBudgetScope = {
+  dimension: SpendBudgetDimension;
+  id: string;
+  /** Ledger key, e.g. `agent:main` or `channel:telegram:work`. */
+  key: string;
+  limits: BudgetLimitConfig;
+};
+
+export type SpendBudgetBreach = {
+  scope: string;
+  period: SpendBudgetPeriod;
+  metric: SpendBudgetMetric;
+  used: number;
+  limit: number;
+};
+
+export type SpendBudgetNotice = SpendBudgetBreach & { level: "warn" | "stop" };
+
+type SpendBucket = {
+  period: string;
+  tokens: number;
+  usd: number;
+  /** `<level>:<metric>` notices already sent for this period. */
+  notified?: string[];
+};
+
+type SpendLedgerEntry = { day: SpendBucket; month: SpendBucket };
+
+type SpendLedgerStore = {
+  version: 1;
+  scopes: Record<string, SpendLedgerEntry>;
+};
+
+const DIMENSION_CONFIG: Record<
+  SpendBudgetDimension,
+  "agents" | "senders" | "channels" | "cronJobs"
+> = {
+  agent: "agents",
+  sender: "senders",
+  channel: "channels",
+  cronJob: "cronJobs",
+};
+
+const LIMIT_KEYS: Record<SpendBudgetPeriod, Record<SpendBudgetMetric, keyof BudgetLimitConfig>> = {
+  day: { tokens: "dailyTokens", usd: "dailyUsd" },
+  month: { tokens: "monthlyTokens", usd: "monthlyUsd" },
+};
+
+const withLock = createAsyncLock();
+
+export function resolveSpendBudgetLedgerPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), "usage", "spend-budgets.json");
+}
+
+async function loadStore(): Promise<SpendLedgerStore> {
+  const raw = await readJsonFile<SpendLedgerStore>(resolveSpendBudgetLedgerPath());
+  return {
+    version: 1,
+    scopes: raw?.scopes && typeof raw.scopes === "object" ? raw.scopes : {},
+  };
+}
+
+/** UTC period keys: `YYYY-MM-DD` and `YYYY-MM`. */
+export function resolveSpendBudgetPeriods(now: number): Record<SpendBudgetPeriod, string> {
+  const day = new Date(now).toISOString().slice(0, 10);
+  return { day, month: day.slice(0, 7) };
+}
+
+function hasLimits(limits: BudgetLimitConfig | undefined): limits is BudgetLimitConfig {
+  return Boolean(
+    limits && (limits.dailyTokens || limits.monthlyTokens || limits.dailyUsd || limits.monthlyUsd),
+  );
+}
+
+export function isSpendBudgetsEnabled(cfg?: OpenClawConfig): boolean {
+  const budgets = cfg?.budgets;
+  if (!budgets || budgets.enabled === false) {
+    return false;
+  }
+  return Object.values(DIMENSION_CONFIG).some((key) =>
+    Object.values(budgets[key] ?? {}).some(hasLimits),
+  );
+}
+
+function lookupLimits(
+  map: BudgetLimitMap | undefined,
+  ids: string[],
+): { id: string; limits: BudgetLimitConfig } | null {
+  if (!map) {
+    return null;
+  }
+  const lowered = new Map(Object.entries(map).map(([key, value]) => [key.toLowerCase(), value]));
+  for (const id of ids) {
+    const limits = lowered.get(id.toLowerCase());
+    if (hasLimits(limits)) {
+      return { id, limits };
+    }
+  }
+  return null;
+}
+
+/** Budget scopes that apply to a call, most specific entry per dimension. */
+export function resolveSpendBudgetScopes(
+  cfg: OpenClawConfig | undefined,
+  ctx: SpendBudgetContext,
+): SpendBudgetScope[] {
+  const budgets = cfg?.budgets;
+  if (!budgets) {
+    return [];
+  }
+  const scopes: SpendBudgetScope[] = [];
+  const push = (dimension: SpendBudgetDimension, id: string, limits: BudgetLimitConfig) => {
+    scopes.push({ dimension, id, key: `${dimension}:${id}`, limits });
+  };
+
+  const agentId = ctx.agentId?.trim() ? normalizeAgentId(ctx.agentId) : undefined;
+  if (agentId) {
+    const match = lookupLimits(budgets.agents, [agentId, "*"]);
+    if (match) {
+      push("agent", agentId, match.limits);
+    }
+  }
+  const senderId = ctx.senderId?.trim();
+  if (senderId) {
+    const match = lookupLimits(budgets.senders, [senderId, "*"]);
+    if (match) {
+      push("sender", senderId, match.limits);
+    }
+  }
+  const channel = ctx.channel?.trim().toLowerCase();
+  if (channel) {
+    const accountId = ctx.accountId?.trim();
+    const accountKey = accountId ? `${channel}:${accountId}` : undefined;
+    const match = lookupLimits(budgets.channels, [...(accountKey ? [accountKey] : []), channel]);
+    if (match) {
+      push("channel", match.id, match.limits);
+    } else {
+      const fallback = lookupLimits(budgets.channels, ["*"]);
+      if (fallback) {
+        push("channel", accountKey ?? channel, fallback.limits);
+      }
+    }
+  }
+  const cronJobId = ctx.cronJobId?.trim();
+  if (cronJobId) {
+    const match = lookupLimits(budgets.cronJobs, [cronJobId, "*"]);
+    if (match) {
+      push("cronJob", cronJobId, match.limits);
+    }
+  }
+  return scopes;
+}
+
+function currentBucket(bucket: SpendBucket | undefined, period: string): SpendBucket {
+  return bucket && bucket.period === period ? bucket : { period, tokens: 0, usd: 0 };
+}
+
+function* eachLimit(scope: SpendBudgetScope) {
+  for (const period of ["day", "month"] as const) {
+    for (const metric of ["tokens", "usd"] as const) {
+      const limit = scope.limits[LIMIT_KEYS[period][metric]];
+      if (typeof limit === "number" && limit > 0) {
+        yield { period, metric, limit };
+      }
+    }
+  }
+}
+
+/** First limit that is already used up for any scope of the call, if any. */
+export async function checkSpendBudgets(params: {
+  cfg?: OpenClawConfig;
+  ctx: SpendBudgetContext;
+  now?: number;
+}): Promise<SpendBudgetBreach | null> {
+  const scopes = resolveSpendBudgetScopes(params.cfg, params.ctx);
+  if (scopes.length === 0) {
+    return null;
+  }
+  const periods = resolveSpendBudgetPeriods(params.now ?? Date.now());
+  const store = await loadStore();
+  for (const scope of scopes) {
+    const entry = store.scopes[scope.key];
+    for (const { period, metric, limit } of eachLimit(scope)) {
+      const used = currentBucket(entry?.[period], periods[period])[metric];
+      if (used >= limit) {
+        return { scope: scope.key, period, metric, used, limit };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Add one model call's usage to every scope of the call. Returns soft-warning
+ * and hard-stop notices crossed by this call (each sent once per period).
+ */
+export async function recordSpendBudgetUsage(params: {
+  cfg?: OpenClawConfig;
+  ctx: SpendBudgetContext;
+  tokens: number;
+  usd: number;
+  now?: number;
+}): Promise<SpendBudgetNotice[]> {
+  const scopes = resolveSpendBudgetScopes(params.cfg, params.ctx);
+  if (scopes.length === 0 || (params.tokens <= 0 && params.usd <= 0)) {
+    return [];
+  }
+  const warnAt = params.cfg?.budgets?.warnAt ?? DEFAULT_BUDGET_WARN_AT;
+  const periods = resolveSpendBudgetPeriods(params.now ?? Date.now());
+  return await withLock(async () => {
+    const store = await loadStore();
+    const notices: SpendBudgetNotice[] = [];
+    for (const scope of scopes) {
+      const prev = store.scopes[scope.key];
+      const entry: SpendLedgerEntry = {
+        day: currentBucket(prev?.day, periods.day),
+        month: currentBucket(prev?.month, periods.month),
+      };
+      for (const bucket of [entry.day, entry.month]) {
+        bucket.tokens += Math.max(0, params.tokens);
+        bucket.usd += Math.max(0, params.usd);
+      }
+      for (const { period, metric, limit } of eachLimit(scope)) {
+        const bucket = entry[period];
+        const used = bucket[metric];
+        const level = used >= limit ? "stop" : warnAt > 0 && used >= limit * warnAt ? "warn" : null;
+        const marker = `${level}:${metric}`;
+        if (!level || bucket.notified?.includes(marker)) {
+          continue;
+        }
+        bucket.notified = [...(bucket.notified ?? []), marker];
+        notices.push({ level, scope: scope.key, period, metric, used, limit });
+      }
+      store.scopes[scope.key] = entry;
+    }
+    await writeJsonAtomic(resolveSpendBudgetLedgerPath(), store);
+    return notices;
+  });
+}
+
+export type SpendBudgetStatusEntry = {
+  scope: string;
+  dimension: SpendBudgetDimension;
+  id: string;
+  limits: BudgetLimitConfig;
+  day: { period: string; tokens: number; usd: number };
+  month: { period: string; tokens: number; usd: number };
+  status: "ok" | "warn" | "exceeded";
+};
+
+/**
+ * Current consumption for every configured id plus every ledger scope still
+ * covered by a limit (e.g. senders matched by `"*"`).
+ */
+export async function listSpendBudgetStatus(params: {
+  cfg?: OpenClawConfig;
+  now?: number;
+}): Promise<{
+  enabled: boolean;
+  periods: Record<SpendBudgetPeriod, string>;
+  scopes: SpendBudgetStatusEntry[];
+}> {
+  const periods = resolveSpendBudgetPeriods(params.now ?? Date.now());
+  const budgets = params.cfg?.budgets;
+  const warnAt = budgets?.warnAt ?? DEFAULT_BUDGET_WARN_AT;
+  const store = await loadStore();
+
+  const candidates = new Map<string, SpendBudgetScope>();
+  const add = (scopes: SpendBudgetScope[]) => {
+    for (const scope of scopes) {
+      candidates.set(scope.key, scope);
+    }
+  };
+  for (const [dimension, key] of Object.entries(DIMENSION_CONFIG) as Array<
+    [SpendBudgetDimension, (typeof DIMENSION_CONFIG)[SpendBudgetDimension]]
+  >) {
+    for (const id of Object.keys(budgets?.[key] ?? {})) {
+      if (id !== "*") {
+        add(resolveSpendBudgetScopes(params.cfg, contextFor(dimension, id)));
+      }
+    }
+  }
+  for (const key of Object.keys(store.scopes)) {
+    const [dimension, ...rest] = key.split(":");
+    if (dimension in DIMENSION_CONFIG && rest.length > 0) {
+      add(
+        resolveSpendBudgetScopes(
+          params.cfg,
+          contextFor(dimension as SpendBudgetDimension, rest.join(":")),
+        ).filter((scope) => scope.key === key),
+      );
+    }
+  }
+
+  const scopes = [...candidates.values()].map((scope): SpendBudgetStatusEntry => {
+    const entry = store.scopes[scope.key];
+    const day = currentBucket(entry?.day, periods.day);
+    const month = currentBucket(entry?.month, periods.month);
+    let status: SpendBudgetStatusEntry["status"] = "ok";
+    for (const { period, metric, limit } of eachLimit(scope)) {
+      const used = (period === "day" ? day : month)[metric];
+      if (used >= limit) {
+        status = "exceeded";
+        break;
+      }
+      if (warnAt > 0 && used >= limit * warnAt) {
+        status = "warn";
+      }
+    }
+    return {
+      scope: scope.key,
+      dimension: scope.dimension,
+      id: scope.id,
+      limits: scope.limits,
+      day: { period: day.period, tokens: day.tokens, usd: day.usd },
+      month: { period: month.period, tokens: month.tokens, usd: month.usd },
+      status,
+    };
+  });
+  scopes.sort((a, b) => a.scope.localeCompare(b.scope));
+  return { enabled: isSpendBudgetsEnabled(params.cfg), periods, scopes };
+}
+
+function contextFor(dimension: SpendBudgetDimension, id: string): SpendBudgetContext {
+  switch (dimension) {
+    case "agent":
+      return { agentId: id };
+    case "sender":
+      return { senderId: id };
+    case "channel": {
+      const [channel, ...account] = id.split(":");
+      return { channel, accountId: account.join(":") || undefined };
+    }
+    case "cronJob":
+      return { cronJobId: id };
+  }
+}
+
+export function formatSpendBudgetAmount(metric: SpendBudgetMetric, value: number): string {
+  return metric === "usd" ? `$${value.toFixed(2)}` : `${Math.round(value)} tokens`;
+}
+
+export function formatSpendBudgetStopMessage(
+  cfg: OpenClawConfig | undefined,
+  breach: SpendBudgetBreach,
+): string {
+  const template = cfg?.budgets?.stopMessage?.trim() || DEFAULT_BUDGET_STOP_MESSAGE;
+  return template
+    .replaceAll("{scope}", breach.scope)
+    .replaceAll("{period}", breach.period)
+    .replaceAll("{limit}", formatSpendBudgetAmount(breach.metric, breach.limit));
+}
+
+export function formatSpendBudgetNotice(notice: SpendBudgetNotice): string {
+  const used = formatSpendBudgetAmount(notice.metric, notice.used);
+  const limit = formatSpendBudgetAmount(notice.metric, notice.limit);
+  return notice.level === "stop"
+    ? `Budget exceeded for ${notice.scope}: ${used} of ${limit} this ${notice.period}. New runs are stopped until the period resets.`
+    : `Budget warning for ${notice.scope}: ${used} of ${limit} used this ${notice.period}.`;
+}
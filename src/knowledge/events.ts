@@ -0,0 +1,26 @@
+import path from "node:path";
+
+type KnowledgeStoreUpdate = {
+  dbPath: string;
+  category?: string;
+  key?: string;
+};
+
+type KnowledgeStoreListener = (update: KnowledgeStoreUpdate) => void;
+
+const KNOWLEDGE_STORE_LISTENERS = new Set<KnowledgeStoreListener>();
+
+export function onKnowledgeStoreUpdate(listener: KnowledgeStoreListener): () => void {
+  KNOWLEDGE_STORE_LISTENERS.add(listener);
+  return () => {
+    KNOWLEDGE_STORE_LISTENERS.delete(listener);
+  };
+}
+
+/** Emitted after a committed write; `category`/`key` are omitted for bulk changes. */
+export function emitKnowledgeStoreUpdate(update: KnowledgeStoreUpdate): void {
+  const resolved = { ...update, dbPath: path.resolve(update.dbPath) };
+  for (const listener of KNOWLEDGE_STORE_LISTENERS) {
+    listener(resolved);
+  }
+}
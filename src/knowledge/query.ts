@@ -0,0 +1,244 @@
+import type { SQLInputValue } from "node:sqlite";
+import type { KnowledgeFieldOperators, KnowledgeFilter, KnowledgeSortField } from "./types.js";
+
+type SqlFragment = { sql: string; params: SQLInputValue[] };
+
+const FIELD_OPERATORS = new Set<keyof KnowledgeFieldOperators>([
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "contains",
+  "prefix",
+  "in",
+  "exists",
+]);
+
+const ENTRY_COLUMNS: Record<string, string> = {
+  key: "e.key",
+  createdAt: "e.created_at",
+  updatedAt: "e.updated_at",
+};
+
+const SEGMENT_RE = /^[^."'\\[\]]+$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Convert a dotted data path (`address.city`, `phones.0`) into an SQLite JSON
+ * path literal. Segments are validated so the literal can be inlined safely,
+ * which also keeps the expression identical to the one used by field indexes.
+ */
+export function toKnowledgeJsonPath(field: string): string {
+  const segments = field.split(".").map((segment) => segment.trim());
+  if (segments.length === 0 || segments.some((segment) => !segment)) {
+    throw new Error(`invalid field "${field}"`);
+  }
+  let out = "$";
+  for (const segment of segments) {
+    if (/^\d+$/.test(segment)) {
+      out += `[${segment}]`;
+      continue;
+    }
+    if (!SEGMENT_RE.test(segment)) {
+      throw new Error(`invalid field "${field}"`);
+    }
+    out += `."${segment}"`;
+  }
+  return `'${out}'`;
+}
+
+export function knowledgeFieldExpression(field: string): string {
+  return `json_extract(e.data, ${toKnowledgeJsonPath(field)})`;
+}
+
+function toSqlValue(value: unknown): SQLInputValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (typeof value === "number" || typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function isOperatorObject(value: unknown): value is KnowledgeFieldOperators {
+  if (!isRecord(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return (
+    keys.length > 0 &&
+    keys.every((key) => FIELD_OPERATORS.has(key as keyof KnowledgeFieldOperators))
+  );
+}
+
+function compileEquals(expr: string, value: unknown, negate: boolean): SqlFragment {
+  const op = negate ? "IS NOT" : "IS";
+  if (value !== null && typeof value === "object") {
+    return { sql: `${expr} ${op} json(?)`, params: [JSON.stringify(value)] };
+  }
+  return { sql: `${expr} ${op} ?`, params: [toSqlValue(value)] };
+}
+
+function compileRange(
+  field: string,
+  expr: string,
+  typeExpr: string,
+  op: ">" | ">=" | "<" | "<=",
+  value: unknown,
+): SqlFragment {
+  if (typeof value === "number") {
+    return { sql: `(${typeExpr} IN ('integer', 'real') AND ${expr} ${op} ?)`, params: [value] };
+  }
+  if (typeof value === "string") {
+    return { sql: `(${typeExpr} = 'text' AND ${expr} ${op} ?)`, params: [value] };
+  }
+  throw new Error(`range filter on "${field}" needs a number or string`);
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
+
+function compileField(field: string, raw: unknown): SqlFragment[] {
+  const path = toKnowledgeJsonPath(field);
+  const expr = `json_extract(e.data, ${path})`;
+  const typeExpr = `json_type(e.data, ${path})`;
+  if (!isOperatorObject(raw)) {
+    // Legacy shorthand: strings match as case-insensitive substrings.
+    if (typeof raw === "string") {
+      return [
+        {
+          sql: `(${typeExpr} NOT IN ('object', 'array') AND instr(lower(CAST(${expr} AS TEXT)), lower(?)) > 0)`,
+          params: [raw],
+        },
+      ];
+    }
+    return [compileEquals(expr, raw, false)];
+  }
+
+  const out: SqlFragment[] = [];
+  const ops = raw;
+  if ("eq" in ops) {
+    out.push(compileEquals(expr, ops.eq, false));
+  }
+  if ("ne" in ops) {
+    out.push(compileEquals(expr, ops.ne, true));
+  }
+  if (ops.gt !== undefined) {
+    out.push(compileRange(field, expr, typeExpr, ">", ops.gt));
+  }
+  if (ops.gte !== undefined) {
+    out.push(compileRange(field, expr, typeExpr, ">=", ops.gte));
+  }
+  if (ops.lt !== undefined) {
+    out.push(compileRange(field, expr, typeExpr, "<", ops.lt));
+  }
+  if (ops.lte !== undefined) {
+    out.push(compileRange(field, expr, typeExpr, "<=", ops.lte));
+  }
+  if (ops.contains !== undefined) {
+    const needle = toSqlValue(ops.contains);
+    out.push({
+      sql:
+        `(CASE ${typeExpr} ` +
+        `WHEN 'array' THEN EXISTS (SELECT 1 FROM json_each(e.data, ${path}) AS item WHERE item.value IS ?) ` +
+        `WHEN 'text' THEN instr(lower(${expr}), lower(?)) > 0 ` +
+        `ELSE 0 END)`,
+      params: [
+        needle,
+        typeof ops.contains === "string" ? ops.contains : JSON.stringify(ops.contains),
+      ],
+    });
+  }
+  if (ops.prefix !== undefined) {
+    if (typeof ops.prefix !== "string") {
+      throw new Error(`prefix filter on "${field}" needs a string`);
+    }
+    out.push({
+      sql: `(${typeExpr} = 'text' AND lower(${expr}) LIKE ? ESCAPE '\\')`,
+      params: [`${escapeLike(ops.prefix.toLowerCase())}%`],
+    });
+  }
+  if (ops.in !== undefined) {
+    if (!Array.isArray(ops.in)) {
+      throw new Error(`in filter on "${field}" needs an array`);
+    }
+    if (ops.in.length === 0) {
+      out.push({ sql: "0", params: [] });
+    } else {
+      out.push({
+        sql: `${expr} IN (${ops.in.map(() => "?").join(", ")})`,
+        params: ops.in.map(toSqlValue),
+      });
+    }
+  }
+  if (ops.exists !== undefined) {
+    out.push({ sql: `${typeExpr} IS ${ops.exists ? "NOT NULL" : "NULL"}`, params: [] });
+  }
+  return out;
+}
+
+export function compileKnowledgeFilter(filter: KnowledgeFilter | undefined): SqlFragment[] {
+  if (!filter) {
+    return [];
+  }
+  return Object.entries(filter).flatMap(([field, value]) => compileField(field, value));
+}
+
+export function compileKnowledgeTags(params: { tags?: string[]; anyTags?: string[] }) {
+  const out: SqlFragment[] = [];
+  const all = [...new Set(params.tags ?? [])];
+  if (all.length > 0) {
+    out.push({
+      sql:
+        "(SELECT COUNT(DISTINCT t.tag) FROM entry_tags t " +
+        `WHERE t.category = e.category AND t.key = e.key AND t.tag IN (${all.map(() => "?").join(", ")})) = ?`,
+      params: [...all, all.length],
+    });
+  }
+  const any = [...new Set(params.anyTags ?? [])];
+  if (any.length > 0) {
+    out.push({
+      sql:
+        "EXISTS (SELECT 1 FROM entry_tags t " +
+        `WHERE t.category = e.category AND t.key = e.key AND t.tag IN (${any.map(() => "?").join(", ")}))`,
+      params: any,
+    });
+  }
+  return out;
+}
+
+/** Parse `"-updatedAt,name"` into sort fields (leading `-` means descending). */
+export function parseKnowledgeSort(raw: string | undefined): KnowledgeSortField[] {
+  if (!raw?.trim()) {
+    return [];
+  }
+  return raw
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("-")
+        ? { field: part.slice(1).trim(), order: "desc" as const }
+        : { field: part.replace(/^\+/, "").trim(), order: "asc" as const },
+    );
+}
+
+export function compileKnowledgeSort(sort: KnowledgeSortField[] | undefined): string {
+  const terms = (sort ?? []).map((entry) => {
+    const column = ENTRY_COLUMNS[entry.field] ?? knowledgeFieldExpression(entry.field);
+    return `${column} ${entry.order === "desc" ? "DESC" : "ASC"}`;
+  });
+  // Stable order so offset pagination never skips or repeats entries.
+  terms.push("e.category ASC", "e.key ASC");
+  return terms.join(", ");
+}
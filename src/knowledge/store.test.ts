@@ -0,0 +1,189 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  KnowledgeStore,
+  LEGACY_KNOWLEDGE_STORE_FILENAME,
+  resolveKnowledgeStorePath,
+  withKnowledgeStore,
+} from "./store.js";
+
+let tmpDir = "";
+let dbPath = "";
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-knowledge-"));
+  dbPath = resolveKnowledgeStorePath(tmpDir);
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+function seedContacts(store: KnowledgeStore) {
+  store.set({
+    category: "contacts",
+    key: "ada",
+    data: {
+      name: "Ada Lovelace",
+      age: 36,
+      skills: ["math", "poetry"],
+      address: { city: "London" },
+    },
+    tags: ["vip", "historic"],
+  });
+  store.set({
+    category: "contacts",
+    key: "grace",
+    data: { name: "Grace Hopper", age: 85, skills: ["cobol"], address: { city: "Arlington" } },
+    tags: ["historic"],
+  });
+  store.set({
+    category: "contacts",
+    key: "linus",
+    data: { name: "Linus", age: 54, skills: ["c", "git"] },
+    tags: ["vip"],
+  });
+  store.set({ category: "projects", key: "engine", data: { name: "Analytical Engine" } });
+}
+
+describe("KnowledgeStore queries", () => {
+  it("supports range, contains, prefix, in and exists filters on nested fields", async () => {
+    await withKnowledgeStore(dbPath, (store) => {
+      seedContacts(store);
+      const keys = (filter: Record<string, unknown>) =>
+        store.query({ category: "contacts", filter }).entries.map((entry) => entry.key);
+
+      expect(keys({ age: { gte: 50 } })).toEqual(["grace", "linus"]);
+      expect(keys({ age: { gt: 30, lt: 60 } })).toEqual(["ada", "linus"]);
+      expect(keys({ skills: { contains: "git" } })).toEqual(["linus"]);
+      expect(keys({ name: { contains: "HOPPER" } })).toEqual(["grace"]);
+      expect(keys({ name: { prefix: "li" } })).toEqual(["linus"]);
+      expect(keys({ "address.city": { in: ["London", "Arlington"] } })).toEqual(["ada", "grace"]);
+      expect(keys({ address: { exists: false } })).toEqual(["linus"]);
+      expect(keys({ age: { ne: 36 } })).toEqual(["grace", "linus"]);
+      // Legacy shorthand: substring for strings, equality otherwise.
+      expect(keys({ name: "lace" })).toEqual(["ada"]);
+      expect(keys({ age: 85 })).toEqual(["grace"]);
+    });
+  });
+
+  it("sorts, paginates and filters by tags across categories", async () => {
+    await withKnowledgeStore(dbPath, (store) => {
+      seedContacts(store);
+      const first = store.query({
+        category: "contacts",
+        sort: [{ field: "age", order: "desc" }],
+        limit: 2,
+      });
+      expect(first.entries.map((entry) => entry.key)).toEqual(["grace", "linus"]);
+      expect(first.total).toBe(3);
+      expect(first.nextOffset).toBe(2);
+      const second = store.query({
+        category: "contacts",
+        sort: [{ field: "age", order: "desc" }],
+        limit: 2,
+        offset: first.nextOffset,
+      });
+      expect(second.entries.map((entry) => entry.key)).toEqual(["ada"]);
+      expect(second.nextOffset).toBeUndefined();
+
+      expect(store.query({ tags: ["vip", "historic"] }).entries.map((e) => e.key)).toEqual(["ada"]);
+      expect(store.query({ anyTags: ["vip"] }).entries.map((e) => e.key)).toEqual(["ada", "linus"]);
+    });
+  });
+
+  it("rejects unsafe field paths", async () => {
+    await withKnowledgeStore(dbPath, (store) => {
+      expect(() => store.query({ filter: { "name'); DROP TABLE entries; --": "x" } })).toThrow(
+        /invalid field/,
+      );
+    });
+  });
+});
+
+describe("KnowledgeStore schemas", () => {
+  it("validates writes against the category schema and indexes fields", async () => {
+    await withKnowledgeStore(dbPath, (store) => {
+      seedContacts(store);
+      expect(() =>
+        store.setSchema({
+          category: "contacts",
+          schema: { type: "object", required: ["email"] },
+        }),
+      ).toThrow(/existing entry "ada"/);
+
+      store.setSchema({
+        category: "contacts",
+        schema: {
+          type: "object",
+          required: ["name"],
+          properties: { name: { type: "string" }, age: { type: "number" } },
+        },
+        indexes: ["age"],
+      });
+      expect(() =>
+        store.set({ category: "contacts", key: "bad", data: { name: "x", age: "old" } }),
+      ).toThrow(/does not match the "contacts" schema/);
+      expect(store.get("contacts", "bad")).toBeNull();
+      expect(store.getSchema("contacts").indexes).toEqual(["age"]);
+      expect(store.listCategories().find((c) => c.name === "contacts")?.schema).toBeDefined();
+    });
+  });
+
+  it("merges object data without dropping other fields or tags", async () => {
+    await withKnowledgeStore(dbPath, (store) => {
+      seedContacts(store);
+      const result = store.set({
+        category: "contacts",
+        key: "ada",
+        data: { age: 37 },
+        merge: true,
+      });
+      expect(result.status).toBe("updated");
+      const entry = store.get("contacts", "ada");
+      expect(entry?.data).toMatchObject({ name: "Ada Lovelace", age: 37 });
+      expect(entry?.tags).toEqual(["historic", "vip"]);
+    });
+  });
+});
+
+describe("KnowledgeStore export/import", () => {
+  it("round-trips entries and schemas", async () => {
+    const exported = await withKnowledgeStore(dbPath, (store) => {
+      seedContacts(store);
+      store.setSchema({ category: "projects", schema: { type: "object" } });
+      return store.export();
+    });
+    expect(exported.entries).toHaveLength(4);
+
+    const otherPath = path.join(tmpDir, "other", "store.sqlite");
+    const result = await withKnowledgeStore(otherPath, (store) => store.import(exported));
+    expect(result).toEqual({ entries: 4, schemas: 1, skipped: [] });
+    await withKnowledgeStore(otherPath, (store) => {
+      expect(store.get("contacts", "ada")?.tags).toEqual(["historic", "vip"]);
+      expect(store.getSchema("projects").schema).toEqual({ type: "object" });
+    });
+  });
+
+  it("imports the legacy JSON store the first time a workspace store opens", async () => {
+    await fs.writeFile(
+      path.join(tmpDir, LEGACY_KNOWLEDGE_STORE_FILENAME),
+      JSON.stringify({
+        contacts: {
+          sean: { data: { company: "Swinkels" }, createdAt: 1000, updatedAt: 2000, tags: ["x"] },
+        },
+      }),
+    );
+    await withKnowledgeStore(dbPath, (store) => {
+      const entry = store.get("contacts", "sean");
+      expect(entry).toMatchObject({ createdAt: 1000, updatedAt: 2000, tags: ["x"] });
+      store.delete("contacts", "sean");
+    });
+    // Not re-imported on later opens.
+    await withKnowledgeStore(dbPath, (store) => {
+      expect(store.get("contacts", "sean")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,551 @@
+import type { DatabaseSync, SQLOutputValue } from "node:sqlite";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  KnowledgeCategory,
+  KnowledgeEntry,
+  KnowledgeExport,
+  KnowledgeImportResult,
+  KnowledgeQuery,
+  KnowledgeQueryResult,
+} from "./types.js";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import { validateJsonSchemaValue } from "../plugins/schema-validator.js";
+import { emitKnowledgeStoreUpdate } from "./events.js";
+import {
+  compileKnowledgeFilter,
+  compileKnowledgeSort,
+  compileKnowledgeTags,
+  knowledgeFieldExpression,
+} from "./query.js";
+
+export const KNOWLEDGE_STORE_FILENAME = ".knowledge-store.sqlite";
+/** Pre-SQLite store, imported once when a workspace store is first opened. */
+export const LEGACY_KNOWLEDGE_STORE_FILENAME = ".knowledge-store.json";
+
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 500;
+// Other processes (CLI, a second gateway) may hold the write lock briefly.
+const BUSY_TIMEOUT_MS = 5_000;
+const LEGACY_IMPORT_META_KEY = "legacy_json_imported";
+
+type Row = Record<string, SQLOutputValue>;
+
+// Parsed schemas are shared by text so the ajv cache (keyed by identity) hits.
+const parsedSchemas = new Map<string, Record<string, unknown>>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseSchemaText(text: string): Record<string, unknown> {
+  let schema = parsedSchemas.get(text);
+  if (!schema) {
+    schema = JSON.parse(text) as Record<string, unknown>;
+    parsedSchemas.set(text, schema);
+  }
+  return schema;
+}
+
+export function normalizeKnowledgeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) {
+    return [];
+  }
+  const out = new Set<string>();
+  for (const tag of tags) {
+    if (typeof tag === "string" && tag.trim()) {
+      out.add(tag.trim());
+    }
+  }
+  return [...out];
+}
+
+function fieldIndexName(category: string, field: string): string {
+  const hash = crypto.createHash("sha1").update(`${category}\0${field}`).digest("hex");
+  return `idx_knowledge_field_${hash.slice(0, 16)}`;
+}
+
+export function resolveKnowledgeStorePath(workspaceDir: string): string {
+  return path.join(workspaceDir, KNOWLEDGE_STORE_FILENAME);
+}
+
+export class KnowledgeStore {
+  private constructor(
+    private readonly db: DatabaseSync,
+    readonly dbPath: string,
+  ) {}
+
+  static open(dbPath: string): KnowledgeStore {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const { DatabaseSync } = requireNodeSqlite();
+    const db = new DatabaseSync(dbPath);
+    db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    db.exec("PRAGMA journal_mode = WAL");
+    const store = new KnowledgeStore(db, dbPath);
+    try {
+      store.ensureSchema();
+      store.importLegacyOnce();
+    } catch (err) {
+      db.close();
+      throw err;
+    }
+    return store;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private ensureSchema(): void {
+    this.transaction(() => {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS categories (
+          name TEXT PRIMARY KEY,
+          schema TEXT,
+          indexes TEXT,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS entries (
+          category TEXT NOT NULL,
+          key TEXT NOT NULL,
+          data TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (category, key)
+        );
+      `);
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS entry_tags (
+          category TEXT NOT NULL,
+          key TEXT NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (category, key, tag)
+        );
+      `);
+      this.db.exec(
+        `CREATE INDEX IF NOT EXISTS idx_entries_updated_at ON entries(category, updated_at);`,
+      );
+      this.db.exec(`CREATE INDEX IF NOT EXISTS idx_entry_tags_tag ON entry_tags(tag);`);
+    });
+  }
+
+  private importLegacyOnce(): void {
+    const imported = this.db
+      .prepare("SELECT value FROM meta WHERE key = ?")
+      .get(LEGACY_IMPORT_META_KEY) as Row | undefined;
+    if (imported) {
+      return;
+    }
+    const legacyPath = path.join(path.dirname(this.dbPath), LEGACY_KNOWLEDGE_STORE_FILENAME);
+    let legacy: unknown;
+    try {
+      legacy = JSON.parse(fs.readFileSync(legacyPath, "utf-8"));
+    } catch {
+      legacy = undefined;
+    }
+    this.transaction(() => {
+      if (legacy !== undefined) {
+        this.importUnlocked(legacy, { replace: false });
+      }
+      this.db
+        .prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)")
+        .run(LEGACY_IMPORT_META_KEY, String(Date.now()));
+    });
+  }
+
+  /** Run `fn` holding the write lock (`BEGIN IMMEDIATE`) so writers never interleave. */
+  private transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  private readTags(category: string, key: string): string[] {
+    const rows = this.db
+      .prepare("SELECT tag FROM entry_tags WHERE category = ? AND key = ? ORDER BY tag")
+      .all(category, key) as Row[];
+    return rows.map((row) => String(row.tag));
+  }
+
+  private toEntry(row: Row): KnowledgeEntry {
+    const category = String(row.category);
+    const key = String(row.key);
+    return {
+      category,
+      key,
+      data: JSON.parse(String(row.data)) as unknown,
+      tags: this.readTags(category, key),
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+    };
+  }
+
+  private readSchemaText(category: string): string | null {
+    const row = this.db.prepare("SELECT schema FROM categories WHERE name = ?").get(category) as
+      | Row
+      | undefined;
+    return typeof row?.schema === "string" ? row.schema : null;
+  }
+
+  private validateAgainstSchema(category: string, data: unknown, schemaText: string | null) {
+    if (!schemaText) {
+      return;
+    }
+    const result = validateJsonSchemaValue({
+      schema: parseSchemaText(schemaText),
+      cacheKey: `knowledge-schema:${category}`,
+      value: data,
+    });
+    if (!result.ok) {
+      throw new Error(`data does not match the "${category}" schema: ${result.errors.join("; ")}`);
+    }
+  }
+
+  private writeEntry(entry: KnowledgeEntry): void {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO entries (category, key, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?)",
+      )
+      .run(
+        entry.category,
+        entry.key,
+        JSON.stringify(entry.data ?? null),
+        entry.createdAt,
+        entry.updatedAt,
+      );
+    this.db
+      .prepare("DELETE FROM entry_tags WHERE category = ? AND key = ?")
+      .run(entry.category, entry.key);
+    const insertTag = this.db.prepare(
+      "INSERT OR IGNORE INTO entry_tags (category, key, tag) VALUES (?, ?, ?)",
+    );
+    for (const tag of entry.tags) {
+      insertTag.run(entry.category, entry.key, tag);
+    }
+  }
+
+  get(category: string, key: string): KnowledgeEntry | null {
+    const row = this.db
+      .prepare("SELECT * FROM entries WHERE category = ? AND key = ?")
+      .get(category, key) as Row | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  /**
+   * Create or replace an entry. With `merge`, object data is shallow-merged
+   * into the stored object inside the same write transaction, so concurrent
+   * writers updating different fields do not clobber each other.
+   */
+  set(params: { category: string; key: string; data: unknown; tags?: string[]; merge?: boolean }): {
+    status: "created" | "updated";
+    entry: KnowledgeEntry;
+  } {
+    const result = this.transaction(() => {
+      const existing = this.get(params.category, params.key);
+      const data =
+        params.merge && existing && isRecord(existing.data) && isRecord(params.data)
+          ? { ...existing.data, ...params.data }
+          : params.data;
+      this.validateAgainstSchema(params.category, data, this.readSchemaText(params.category));
+      const now = Date.now();
+      const entry: KnowledgeEntry = {
+        category: params.category,
+        key: params.key,
+        data,
+        tags:
+          params.tags !== undefined
+            ? normalizeKnowledgeTags(params.tags)
+            : params.merge
+              ? (existing?.tags ?? [])
+              : [],
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: existing ? Math.max(now, existing.updatedAt + 1) : now,
+      };
+      this.writeEntry(entry);
+      return { status: existing ? ("updated" as const) : ("created" as const), entry };
+    });
+    emitKnowledgeStoreUpdate({ dbPath: this.dbPath, category: params.category, key: params.key });
+    return result;
+  }
+
+  delete(category: string, key: string): boolean {
+    const deleted = this.transaction(() => {
+      const result = this.db
+        .prepare("DELETE FROM entries WHERE category = ? AND key = ?")
+        .run(category, key);
+      this.db.prepare("DELETE FROM entry_tags WHERE category = ? AND key = ?").run(category, key);
+      return Number(result.changes) > 0;
+    });
+    if (deleted) {
+      emitKnowledgeStoreUpdate({ dbPath: this.dbPath, category, key });
+    }
+    return deleted;
+  }
+
+  query(query: KnowledgeQuery = {}): KnowledgeQueryResult {
+    const clauses = [
+      ...(query.category ? [{ sql: "e.category = ?", params: [query.category] }] : []),
+      ...compileKnowledgeFilter(query.filter),
+      ...compileKnowledgeTags(query),
+    ];
+    const where = clauses.length > 0 ? `WHERE ${clauses.map((c) => c.sql).join(" AND ")}` : "";
+    const params = clauses.flatMap((clause) => clause.params);
+    const limit = Math.min(
+      Math.max(1, Math.trunc(query.limit ?? DEFAULT_QUERY_LIMIT)),
+      MAX_QUERY_LIMIT,
+    );
+    const offset = Math.max(0, Math.trunc(query.offset ?? 0));
+
+    const countRow = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM entries e ${where}`)
+      .get(...params) as Row;
+    const total = Number(countRow.total);
+    const rows = this.db
+      .prepare(
+        `SELECT e.* FROM entries e ${where} ORDER BY ${compileKnowledgeSort(query.sort)} LIMIT ? OFFSET ?`,
+      )
+      .all(...params, limit, offset) as Row[];
+    const entries = rows.map((row) => this.toEntry(row));
+    const next = offset + entries.length;
+    return { total, offset, entries, ...(next < total ? { nextOffset: next } : {}) };
+  }
+
+  listCategories(): KnowledgeCategory[] {
+    const rows = this.db
+      .prepare(
+        `SELECT name, SUM(count) AS count, MAX(schema) AS schema FROM (
+           SELECT category AS name, COUNT(*) AS count, NULL AS schema FROM entries GROUP BY category
+           UNION ALL
+           SELECT name, 0 AS count, schema FROM categories
+         ) GROUP BY name ORDER BY name`,
+      )
+      .all() as Row[];
+    return rows.map((row) => ({
+      name: String(row.name),
+      count: Number(row.count),
+      ...(typeof row.schema === "string" ? { schema: parseSchemaText(row.schema) } : {}),
+    }));
+  }
+
+  getSchema(category: string): { schema?: Record<string, unknown>; indexes: string[] } {
+    const row = this.db
+      .prepare("SELECT schema, indexes FROM categories WHERE name = ?")
+      .get(category) as Row | undefined;
+    return {
+      ...(typeof row?.schema === "string" ? { schema: parseSchemaText(row.schema) } : {}),
+      indexes: typeof row?.indexes === "string" ? (JSON.parse(row.indexes) as string[]) : [],
+    };
+  }
+
+  /**
+   * Attach a JSON schema (or `null` to drop it) and the data fields to index
+   * for a category. Existing entries must already satisfy the new schema.
+   */
+  setSchema(params: {
+    category: string;
+    schema: Record<string, unknown> | null;
+    indexes?: string[];
+  }): { indexes: string[] } {
+    return this.transaction(() => {
+      const schemaText = params.schema ? JSON.stringify(params.schema) : null;
+      if (schemaText) {
+        try {
+          validateJsonSchemaValue({
+            schema: parseSchemaText(schemaText),
+            cacheKey: `knowledge-schema:${params.category}`,
+            value: null,
+          });
+        } catch (err) {
+          throw new Error(`invalid schema: ${err instanceof Error ? err.message : String(err)}`, {
+            cause: err,
+          });
+        }
+        const rows = this.db
+          .prepare("SELECT * FROM entries WHERE category = ? ORDER BY key")
+          .all(params.category) as Row[];
+        for (const row of rows) {
+          const entry = this.toEntry(row);
+          try {
+            this.validateAgainstSchema(params.category, entry.data, schemaText);
+          } catch (err) {
+            throw new Error(
+              `existing entry "${entry.key}" does not match the new schema: ${err instanceof Error ? err.message : String(err)}`,
+              { cause: err },
+            );
+          }
+        }
+      }
+      const previous = this.getSchema(params.category).indexes;
+      const indexes = params.indexes
+        ? [...new Set(params.indexes.map((field) => field.trim()).filter(Boolean))]
+        : previous;
+      for (const field of previous) {
+        if (!indexes.includes(field)) {
+          this.db.exec(`DROP INDEX IF EXISTS ${fieldIndexName(params.category, field)}`);
+        }
+      }
+      for (const field of indexes) {
+        // Same json_extract() expression the filters compile to, so the planner uses it.
+        const expression = knowledgeFieldExpression(field).replace("e.data", "data");
+        this.db.exec(
+          `CREATE INDEX IF NOT EXISTS ${fieldIndexName(params.category, field)} ` +
+            `ON entries(category, ${expression})`,
+        );
+      }
+      if (!schemaText && indexes.length === 0) {
+        this.db.prepare("DELETE FROM categories WHERE name = ?").run(params.category);
+      } else {
+        this.db
+          .prepare(
+            "INSERT OR REPLACE INTO categories (name, schema, indexes, updated_at) VALUES (?, ?, ?, ?)",
+          )
+          .run(params.category, schemaText, JSON.stringify(indexes), Date.now());
+      }
+      return { indexes };
+    });
+  }
+
+  export(params: { category?: string } = {}): KnowledgeExport {
+    const entryRows = (
+      params.category
+        ? this.db
+            .prepare("SELECT * FROM entries WHERE category = ? ORDER BY category, key")
+            .all(params.category)
+        : this.db.prepare("SELECT * FROM entries ORDER BY category, key").all()
+    ) as Row[];
+    const categories = this.listCategories()
+      .filter((category) => !params.category || category.name === params.category)
+      .flatMap((category) =>
+        category.schema ? [{ name: category.name, schema: category.schema }] : [],
+      );
+    return {
+      version: 1,
+      exportedAt: Date.now(),
+      categories,
+      entries: entryRows.map((row) => this.toEntry(row)),
+    };
+  }
+
+  /**
+   * Import an `export()` document or a legacy `.knowledge-store.json` file.
+   * Entries that fail their category schema are skipped and reported.
+   */
+  import(doc: unknown, opts: { replace?: boolean } = {}): KnowledgeImportResult {
+    const result = this.transaction(() => this.importUnlocked(doc, opts));
+    emitKnowledgeStoreUpdate({ dbPath: this.dbPath });
+    return result;
+  }
+
+  private importUnlocked(doc: unknown, opts: { replace?: boolean }): KnowledgeImportResult {
+    if (!isRecord(doc)) {
+      throw new Error("import data must be a JSON object");
+    }
+    if (opts.replace) {
+      this.db.exec("DELETE FROM entries; DELETE FROM entry_tags;");
+      for (const row of this.db.prepare("SELECT name, indexes FROM categories").all() as Row[]) {
+        for (const field of JSON.parse(String(row.indexes ?? "[]")) as string[]) {
+          this.db.exec(`DROP INDEX IF EXISTS ${fieldIndexName(String(row.name), field)}`);
+        }
+      }
+      this.db.exec("DELETE FROM categories;");
+    }
+
+    const result: KnowledgeImportResult = { entries: 0, schemas: 0, skipped: [] };
+    const incoming: KnowledgeEntry[] = [];
+    if (doc.version === 1 && Array.isArray(doc.entries)) {
+      for (const category of Array.isArray(doc.categories) ? doc.categories : []) {
+        if (isRecord(category) && typeof category.name === "string" && isRecord(category.schema)) {
+          this.db
+            .prepare(
+              "INSERT INTO categories (name, schema, indexes, updated_at) VALUES (?, ?, '[]', ?) " +
+                "ON CONFLICT(name) DO UPDATE SET schema = excluded.schema, updated_at = excluded.updated_at",
+            )
+            .run(category.name, JSON.stringify(category.schema), Date.now());
+          result.schemas += 1;
+        }
+      }
+      for (const raw of doc.entries) {
+        if (isRecord(raw) && typeof raw.category === "string" && typeof raw.key === "string") {
+          incoming.push(this.coerceImportedEntry(raw.category, raw.key, raw));
+        }
+      }
+    } else {
+      // Legacy layout: { [category]: { [key]: { data, createdAt, updatedAt, tags } } }.
+      for (const [category, entries] of Object.entries(doc)) {
+        if (!isRecord(entries)) {
+          continue;
+        }
+        for (const [key, raw] of Object.entries(entries)) {
+          if (isRecord(raw) && "data" in raw) {
+            incoming.push(this.coerceImportedEntry(category, key, raw));
+          }
+        }
+      }
+    }
+
+    for (const entry of incoming) {
+      try {
+        this.validateAgainstSchema(entry.category, entry.data, this.readSchemaText(entry.category));
+      } catch (err) {
+        result.skipped.push({
+          category: entry.category,
+          key: entry.key,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        continue;
+      }
+      this.writeEntry(entry);
+      result.entries += 1;
+    }
+    return result;
+  }
+
+  private coerceImportedEntry(
+    category: string,
+    key: string,
+    raw: Record<string, unknown>,
+  ): KnowledgeEntry {
+    const now = Date.now();
+    const createdAt = typeof raw.createdAt === "number" ? raw.createdAt : now;
+    return {
+      category,
+      key,
+      data: raw.data ?? null,
+      tags: normalizeKnowledgeTags(raw.tags),
+      createdAt,
+      updatedAt: typeof raw.updatedAt === "number" ? raw.updatedAt : createdAt,
+    };
+  }
+}
+
+/**
+ * Open the store for one operation. Connections are short-lived so the CLI,
+ * the gateway and sandboxed runs can share the file; SQLite WAL + busy
+ * timeouts serialize their writes.
+ */
+export async function withKnowledgeStore<T>(
+  dbPath: string,
+  fn: (store: KnowledgeStore) => T | Promise<T>,
+): Promise<T> {
+  const store = KnowledgeStore.open(dbPath);
+  try {
+    return await fn(store);
+  } finally {
+    store.close();
+  }
+}
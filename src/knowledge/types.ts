@@ -0,0 +1,75 @@
+export type KnowledgeEntry = {
+  category: string;
+  key: string;
+  data: unknown;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type KnowledgeCategory = {
+  name: string;
+  count: number;
+  /** JSON schema every entry in the category must satisfy. */
+  schema?: Record<string, unknown>;
+};
+
+/**
+ * Operators accepted per data field. A bare value (not an operator object)
+ * keeps the legacy semantics: strings match case-insensitively as substrings,
+ * everything else by equality.
+ */
+export type KnowledgeFieldOperators = {
+  eq?: unknown;
+  ne?: unknown;
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+  /** Substring (strings, case-insensitive) or element membership (arrays). */
+  contains?: unknown;
+  /** Case-insensitive string prefix. */
+  prefix?: string;
+  in?: unknown[];
+  exists?: boolean;
+};
+
+export type KnowledgeFilter = Record<string, unknown>;
+
+export type KnowledgeSortField = {
+  /** `key`, `createdAt`, `updatedAt` or a dotted data path. */
+  field: string;
+  order: "asc" | "desc";
+};
+
+export type KnowledgeQuery = {
+  category?: string;
+  filter?: KnowledgeFilter;
+  /** Entries must carry every tag listed here. */
+  tags?: string[];
+  /** Entries must carry at least one of these tags. */
+  anyTags?: string[];
+  sort?: KnowledgeSortField[];
+  limit?: number;
+  offset?: number;
+};
+
+export type KnowledgeQueryResult = {
+  total: number;
+  offset: number;
+  entries: KnowledgeEntry[];
+  nextOffset?: number;
+};
+
+export type KnowledgeExport = {
+  version: 1;
+  exportedAt: number;
+  categories: Array<{ name: string; schema: Record<string, unknown> }>;
+  entries: KnowledgeEntry[];
+};
+
+export type KnowledgeImportResult = {
+  entries: number;
+  schemas: number;
+  skipped: Array<{ category: string; key: string; error: string }>;
+};
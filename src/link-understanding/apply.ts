@@ -1,6 +1,7 @@
 import type { MsgContext } from "../auto-reply/templating.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { finalizeInboundContext } from "../auto-reply/reply/inbound-context.js";
+import { screenExternalContent } from "../security/injection-scan.js";
 import { formatLinkUnderstandingBody } from "./format.js";
 import { runLinkUnderstanding } from "./runner.js";
 
@@ -12,11 +13,26 @@ export type ApplyLinkUnderstandingResult = {
 export async function applyLinkUnderstanding(params: {
   ctx: MsgContext;
   cfg: OpenClawConfig;
+  sessionKey?: string;
+  agentId?: string;
 }): Promise<ApplyLinkUnderstandingResult> {
-  const result = await runLinkUnderstanding({
+  const raw = await runLinkUnderstanding({
     cfg: params.cfg,
     ctx: params.ctx,
   });
+  const outputs: string[] = [];
+  for (const output of raw.outputs) {
+    const screening = await screenExternalContent({
+      cfg: params.cfg,
+      source: "link",
+      text: output,
+      sessionKey: params.sessionKey,
+      agentId: params.agentId,
+      sender: params.ctx.SenderName ?? params.ctx.From,
+    });
+    outputs.push(screening.text);
+  }
+  const result = { ...raw, outputs };
 
   if (result.outputs.length === 0) {
     return result;
@@ -0,0 +1,122 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { runMemoryConsolidation, resolveConsolidationStatePath } from "./consolidate.js";
+
+let rootDir = "";
+let workspaceDir = "";
+let transcriptPath = "";
+
+function message(role: "user" | "assistant", text: string) {
+  return JSON.stringify({ type: "message", message: { role, content: [{ type: "text", text }] } });
+}
+
+beforeEach(async () => {
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-consolidate-"));
+  vi.stubEnv("OPENCLAW_STATE_DIR", path.join(rootDir, "state"));
+  workspaceDir = path.join(rootDir, "workspace");
+  await fs.mkdir(workspaceDir, { recursive: true });
+  const sessionsDir = path.join(rootDir, "state", "agents", "main", "sessions");
+  await fs.mkdir(sessionsDir, { recursive: true });
+  transcriptPath = path.join(sessionsDir, "abc.jsonl");
+  await fs.writeFile(
+    transcriptPath,
+    [
+      JSON.stringify({ type: "session", id: "abc" }),
+      message("user", "We should use Postgres for the billing service."),
+      message("assistant", "Agreed, Postgres it is."),
+      message("user", "Also I prefer short replies."),
+    ].join("\n"),
+  );
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+const cfg = (): OpenClawConfig => ({
+  agents: { defaults: { workspace: workspaceDir, userTimezone: "UTC" } },
+});
+
+describe("runMemoryConsolidation", () => {
+  it("appends new memories with provenance, skips duplicates and resumes from the cursor", async () => {
+    await fs.writeFile(
+      path.join(workspaceDir, "MEMORY.md"),
+      "# Memory\n\n- The user prefers short replies.\n",
+    );
+    const extract = vi.fn(async ({ prompt }: { prompt: string }) => {
+      expect(prompt).toContain("Transcript: sessions/abc.jsonl");
+      expect(prompt).toContain("L2 User: We should use Postgres for the billing service.");
+      return JSON.stringify([
+        { text: "Billing uses Postgres.", kind: "decision", scope: "long-term", lines: [2, 3] },
+        { text: "The user prefers short replies!", kind: "preference", lines: [4] },
+        { text: "Discussed the billing database.", scope: "daily", lines: [99] },
+      ]);
+    });
+    const nowMs = Date.parse("2026-03-04T10:00:00Z");
+
+    const result = await runMemoryConsolidation(
+      { cfg: cfg(), agentId: "main", nowMs },
+      { extract },
+    );
+
+    expect(result.transcripts).toBe(1);
+    expect(result.written).toHaveLength(2);
+    expect(result.duplicates).toBe(1);
+    expect(result.files.toSorted()).toEqual(["MEMORY.md", "memory/2026-03-04.md"]);
+    expect(await fs.readFile(path.join(workspaceDir, "MEMORY.md"), "utf-8")).toBe(
+      [
+        "# Memory",
+        "",
+        "- The user prefers short replies.",
+        "",
+        "## Consolidated from sessions",
+        "",
+        "- [decision] Billing uses Postgres. (source: sessions/abc.jsonl#L2-L3)",
+        "",
+      ].join("\n"),
+    );
+    expect(
+      await fs.readFile(path.join(workspaceDir, "memory", "2026-03-04.md"), "utf-8"),
+    ).toContain("- [fact] Discussed the billing database. (source: sessions/abc.jsonl#L4)");
+    const state = JSON.parse(await fs.readFile(resolveConsolidationStatePath("main"), "utf-8"));
+    expect(state.transcripts["sessions/abc.jsonl"].line).toBe(4);
+
+    await fs.appendFile(transcriptPath, `\n${message("user", "Deploys happen on Fridays.")}`);
+    extract.mockImplementation(async ({ prompt }: { prompt: string }) => {
+      expect(prompt).not.toContain("Postgres");
+      return JSON.stringify([{ text: "Deploys happen on Fridays.", lines: [5] }]);
+    });
+    const second = await runMemoryConsolidation(
+      { cfg: cfg(), agentId: "main", nowMs },
+      { extract },
+    );
+    expect(second.written).toHaveLength(1);
+    const memory = await fs.readFile(path.join(workspaceDir, "MEMORY.md"), "utf-8");
+    expect(memory.trimEnd().split("\n").slice(-2)).toEqual([
+      "- [decision] Billing uses Postgres. (source: sessions/abc.jsonl#L2-L3)",
+      "- [fact] Deploys happen on Fridays. (source: sessions/abc.jsonl#L5)",
+    ]);
+
+    const third = await runMemoryConsolidation({ cfg: cfg(), agentId: "main", nowMs }, { extract });
+    expect(third.chunks).toBe(0);
+    expect(extract).toHaveBeenCalledTimes(2);
+  });
+
+  it("leaves files and the cursor untouched on a dry run", async () => {
+    const extract = vi.fn(async () => '[{"text": "Billing uses Postgres.", "lines": [2]}]');
+
+    const result = await runMemoryConsolidation(
+      { cfg: cfg(), agentId: "main", dryRun: true },
+      { extract },
+    );
+
+    expect(result.written).toHaveLength(1);
+    expect(result.files).toEqual(["MEMORY.md"]);
+    await expect(fs.stat(path.join(workspaceDir, "MEMORY.md"))).rejects.toThrow();
+    await expect(fs.stat(resolveConsolidationStatePath("main"))).rejects.toThrow();
+  });
+});
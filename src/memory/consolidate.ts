@@ -0,0 +1,428 @@
+import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { resolveCronStyleNow } from "../agents/current-time.js";
+import { formatDateStampInTimezone } from "../agents/date-time.js";
+import { getApiKeyForModel, requireApiKey } from "../agents/model-auth.js";
+import {
+  buildModelAliasIndex,
+  resolveDefaultModelForAgent,
+  resolveModelRefFromString,
+} from "../agents/model-selection.js";
+import { resolveModel } from "../agents/pi-embedded-runner/model.js";
+import { resolveStateDir } from "../config/paths.js";
+import { readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import { truncateUtf16Safe } from "../utils.js";
+import { listMemoryFiles } from "./internal.js";
+import { buildSessionEntry, listSessionFilesForAgent } from "./session-files.js";
+
+export const DEFAULT_CONSOLIDATION_LOOKBACK_HOURS = 24;
+export const CONSOLIDATED_SECTION_HEADING = "## Consolidated from sessions";
+const DEFAULT_CALL_TIMEOUT_MS = 60_000;
+const CHUNK_MAX_CHARS = 12_000;
+const LINE_MAX_CHARS = 1_000;
+const MAX_CHUNKS_PER_RUN = 12;
+const DUPLICATE_SIMILARITY = 0.8;
+
+export type ConsolidatedMemoryKind = "fact" | "decision" | "preference";
+
+/** One extracted memory, linked back to the transcript lines it came from. */
+export type ConsolidatedMemory = {
+  text: string;
+  kind: ConsolidatedMemoryKind;
+  /** `long-term` items go to MEMORY.md, `daily` items to memory/YYYY-MM-DD.md. */
+  scope: "long-term" | "daily";
+  source: { path: string; startLine: number; endLine: number };
+};
+
+export type MemoryConsolidationResult = {
+  agentId: string;
+  /** Transcripts that had unconsolidated lines. */
+  transcripts: number;
+  /** Model calls made (one per transcript chunk). */
+  chunks: number;
+  written: ConsolidatedMemory[];
+  duplicates: number;
+  /** Workspace-relative memory files that were (or would be) updated. */
+  files: string[];
+  dryRun: boolean;
+  /** True when the chunk budget ran out; the rest is picked up next run. */
+  truncated: boolean;
+};
+
+/** Send one extraction prompt to the agent's model and return its raw reply. */
+export type MemoryConsolidationExtractor = (params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  model?: string;
+  prompt: string;
+  timeoutMs: number;
+}) => Promise<string>;
+
+type ConsolidationState = {
+  version: 1;
+  /** Last consolidated JSONL line per transcript (`sessions/<id>.jsonl`). */
+  transcripts: Record<string, { line: number; updatedAt: number }>;
+  lastRunAt?: number;
+};
+
+type TranscriptChunk = {
+  path: string;
+  lines: Array<{ line: number; text: string }>;
+};
+
+export function resolveConsolidationStatePath(
+  agentId: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return path.join(
+    resolveStateDir(env),
+    "memory",
+    `${normalizeAgentId(agentId)}.consolidation.json`,
+  );
+}
+
+export function buildConsolidationPrompt(chunk: TranscriptChunk): string {
+  return [
+    "Extract durable memories from this conversation transcript excerpt.",
+    "Keep only facts, decisions and preferences worth knowing in later sessions: people, projects, settings, commitments, and choices made (with the reason when given).",
+    "Skip small talk, transient task chatter, secrets and anything only meaningful inside this conversation.",
+    'Use scope "long-term" for stable facts about the user, their projects or preferences, and "daily" for things that mainly matter as a log of today.',
+    'Reply with a JSON array and nothing else: [{"text": "...", "kind": "fact" | "decision" | "preference", "scope": "long-term" | "daily", "lines": [first, last]}]',
+    'Write each "text" as one self-contained sentence. "lines" are the L numbers the item comes from. Reply [] when nothing is worth keeping.',
+    "",
+    `Transcript: ${chunk.path}`,
+    ...chunk.lines.map((entry) => `L${entry.line} ${entry.text}`),
+  ].join("\n");
+}
+
+function readKind(value: unknown): ConsolidatedMemoryKind {
+  return value === "decision" || value === "preference" ? value : "fact";
+}
+
+/** Parse an extraction reply; malformed items are dropped and line refs clamped to the chunk. */
+export function parseConsolidationReply(raw: string, chunk: TranscriptChunk): ConsolidatedMemory[] {
+  const start = raw.indexOf("[");
+  const end = raw.lastIndexOf("]");
+  let parsed: unknown = null;
+  if (start >= 0 && end > start) {
+    try {
+      parsed = JSON.parse(raw.slice(start, end + 1));
+    } catch {
+      parsed = null;
+    }
+  }
+  if (!Array.isArray(parsed) || chunk.lines.length === 0) {
+    return [];
+  }
+  const first = chunk.lines[0].line;
+  const last = chunk.lines[chunk.lines.length - 1].line;
+  const clamp = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? Math.min(last, Math.max(first, Math.floor(value)))
+      : fallback;
+  const items: ConsolidatedMemory[] = [];
+  for (const entry of parsed) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const record = entry as { text?: unknown; kind?: unknown; scope?: unknown; lines?: unknown };
+    const text = typeof record.text === "string" ? record.text.replace(/\s+/g, " ").trim() : "";
+    if (!text) {
+      continue;
+    }
+    const lines = Array.isArray(record.lines) ? record.lines : [];
+    const startLine = clamp(lines[0], first);
+    const endLine = Math.max(startLine, clamp(lines[lines.length - 1], startLine));
+    items.push({
+      text,
+      kind: readKind(record.kind),
+      scope: record.scope === "daily" ? "daily" : "long-term",
+      source: { path: chunk.path, startLine, endLine },
+    });
+  }
+  return items;
+}
+
+const PROVENANCE_RE = /\s*\(source: [^)]*\)\s*$/;
+const KIND_PREFIX_RE = /^\[(?:fact|decision|preference)\]\s*/i;
+
+function tokenize(text: string): Set<string> {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  return new Set(normalized);
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) {
+      shared += 1;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/** Memory lines already on disk, stripped of list markers and provenance. */
+function extractExistingMemories(content: string): string[] {
+  const out: string[] = [];
+  for (const raw of content.split("\n")) {
+    const line = raw
+      .trim()
+      .replace(/^[-*+]\s+/, "")
+      .replace(KIND_PREFIX_RE, "")
+      .replace(PROVENANCE_RE, "");
+    if (line && !line.startsWith("#")) {
+      out.push(line);
+    }
+  }
+  return out;
+}
+
+export function formatConsolidatedMemory(memory: ConsolidatedMemory): string {
+  const { path: sourcePath, startLine, endLine } = memory.source;
+  const range = startLine === endLine ? `L${startLine}` : `L${startLine}-L${endLine}`;
+  return `- [${memory.kind}] ${memory.text} (source: ${sourcePath}#${range})`;
+}
+
+/** Insert bullets at the end of the consolidated section, creating it when missing. */
+function mergeIntoSection(existing: string, bullets: string[], title?: string): string {
+  const lines = existing ? existing.replace(/\s+$/, "").split("\n") : [];
+  const headingIdx = lines.findIndex((line) => line.trim() === CONSOLIDATED_SECTION_HEADING);
+  if (headingIdx < 0) {
+    const prefix = lines.length > 0 ? [...lines, ""] : title ? [title, ""] : [];
+    return [...prefix, CONSOLIDATED_SECTION_HEADING, "", ...bullets, ""].join("\n");
+  }
+  let insertAt = lines.length;
+  for (let idx = headingIdx + 1; idx < lines.length; idx += 1) {
+    if (/^#{1,2}\s/.test(lines[idx])) {
+      insertAt = idx;
+      break;
+    }
+  }
+  while (insertAt > headingIdx + 1 && !lines[insertAt - 1].trim()) {
+    insertAt -= 1;
+  }
+  const tail = lines.slice(insertAt);
+  const next = [
+    ...lines.slice(0, insertAt),
+    ...(insertAt === headingIdx + 1 ? [""] : []),
+    ...bullets,
+  ];
+  return [...next, ...(tail.length > 0 ? ["", ...tail] : []), ""].join("\n");
+}
+
+async function collectChunks(params: {
+  agentId: string;
+  state: ConsolidationState;
+  sinceMs: number;
+}): Promise<{ chunks: TranscriptChunk[]; transcripts: number }> {
+  const files = await listSessionFilesForAgent(params.agentId);
+  const chunks: TranscriptChunk[] = [];
+  let transcripts = 0;
+  for (const absPath of files) {
+    const entry = await buildSessionEntry(absPath);
+    if (!entry || entry.mtimeMs < params.sinceMs) {
+      continue;
+    }
+    const lastLine = entry.lineMap[entry.lineMap.length - 1] ?? 0;
+    let cursor = params.state.transcripts[entry.path]?.line ?? 0;
+    // A transcript shorter than the cursor was rewritten; start over.
+    if (cursor > lastLine) {
+      cursor = 0;
+    }
+    const pending = entry.content
+      .split("\n")
+      .map((text, idx) => ({ line: entry.lineMap[idx] ?? 0, text }))
+      .filter((item) => item.line > cursor && item.text.trim());
+    if (pending.length === 0) {
+      continue;
+    }
+    transcripts += 1;
+    let current: TranscriptChunk = { path: entry.path, lines: [] };
+    let size = 0;
+    for (const item of pending) {
+      const text = truncateUtf16Safe(item.text, LINE_MAX_CHARS);
+      if (current.lines.length > 0 && size + text.length > CHUNK_MAX_CHARS) {
+        chunks.push(current);
+        current = { path: entry.path, lines: [] };
+        size = 0;
+      }
+      current.lines.push({ line: item.line, text });
+      size += text.length + 8;
+    }
+    chunks.push(current);
+  }
+  return { chunks, transcripts };
+}
+
+function isTextContentBlock(block: { type: string }): block is TextContent {
+  return block.type === "text";
+}
+
+const extractWithModel: MemoryConsolidationExtractor = async ({
+  cfg,
+  agentId,
+  model: override,
+  prompt,
+  timeoutMs,
+}) => {
+  const defaultRef = resolveDefaultModelForAgent({ cfg, agentId });
+  const ref = override?.trim()
+    ? (resolveModelRefFromString({
+        raw: override.trim(),
+        defaultProvider: defaultRef.provider,
+        aliasIndex: buildModelAliasIndex({ cfg, defaultProvider: defaultRef.provider }),
+      })?.ref ?? defaultRef)
+    : defaultRef;
+  const resolved = resolveModel(ref.provider, ref.model, undefined, cfg);
+  if (!resolved.model) {
+    throw new Error(resolved.error ?? `Unknown consolidation model: ${ref.provider}/${ref.model}`);
+  }
+  const apiKey = requireApiKey(
+    await getApiKeyForModel({ model: resolved.model, cfg }),
+    ref.provider,
+  );
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await completeSimple(
+      resolved.model,
+      { messages: [{ role: "user", content: prompt, timestamp: Date.now() }] },
+      { apiKey, maxTokens: 2_000, temperature: 0, signal: controller.signal },
+    );
+    return res.content
+      .filter(isTextContentBlock)
+      .map((block) => block.text)
+      .join("\n");
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Summarize recent session transcripts into curated memory files: the agent's
+ * model extracts durable facts and decisions from lines not consolidated yet,
+ * near-duplicates of existing memories are dropped, and the rest is appended
+ * to MEMORY.md (long-term) or memory/YYYY-MM-DD.md (daily) with a
+ * `(source: sessions/<id>.jsonl#Lx-Ly)` reference to the transcript lines.
+ */
+export async function runMemoryConsolidation(
+  params: {
+    cfg: OpenClawConfig;
+    agentId: string;
+    model?: string;
+    lookbackHours?: number;
+    dryRun?: boolean;
+    nowMs?: number;
+    callTimeoutMs?: number;
+  },
+  opts?: { extract?: MemoryConsolidationExtractor },
+): Promise<MemoryConsolidationResult> {
+  const agentId = normalizeAgentId(params.agentId);
+  const nowMs = params.nowMs ?? Date.now();
+  const lookbackHours = params.lookbackHours ?? DEFAULT_CONSOLIDATION_LOOKBACK_HOURS;
+  const statePath = resolveConsolidationStatePath(agentId);
+  const state: ConsolidationState = (await readJsonFile<ConsolidationState>(statePath)) ?? {
+    version: 1,
+    transcripts: {},
+  };
+  state.transcripts ??= {};
+
+  const { chunks, transcripts } = await collectChunks({
+    agentId,
+    state,
+    sinceMs: nowMs - lookbackHours * 3_600_000,
+  });
+  const runChunks = chunks.slice(0, MAX_CHUNKS_PER_RUN);
+
+  const workspaceDir = resolveAgentWorkspaceDir(params.cfg, agentId);
+  const known: Array<Set<string>> = [];
+  for (const file of await listMemoryFiles(workspaceDir)) {
+    const content = await fs.readFile(file, "utf-8").catch(() => "");
+    for (const line of extractExistingMemories(content)) {
+      known.push(tokenize(line));
+    }
+  }
+
+  const extract = opts?.extract ?? extractWithModel;
+  const written: ConsolidatedMemory[] = [];
+  let duplicates = 0;
+  for (const chunk of runChunks) {
+    const reply = await extract({
+      cfg: params.cfg,
+      agentId,
+      model: params.model,
+      prompt: buildConsolidationPrompt(chunk),
+      timeoutMs: params.callTimeoutMs ?? DEFAULT_CALL_TIMEOUT_MS,
+    });
+    for (const memory of parseConsolidationReply(reply, chunk)) {
+      const tokens = tokenize(memory.text);
+      if (known.some((other) => similarity(tokens, other) >= DUPLICATE_SIMILARITY)) {
+        duplicates += 1;
+        continue;
+      }
+      known.push(tokens);
+      written.push(memory);
+    }
+  }
+
+  const { userTimezone } = resolveCronStyleNow(params.cfg, nowMs);
+  const dateStamp = formatDateStampInTimezone(nowMs, userTimezone);
+  const targets = new Map<string, ConsolidatedMemory[]>();
+  for (const memory of written) {
+    const relPath = memory.scope === "daily" ? path.join("memory", `${dateStamp}.md`) : "MEMORY.md";
+    targets.set(relPath, [...(targets.get(relPath) ?? []), memory]);
+  }
+
+  if (!params.dryRun) {
+    for (const [relPath, memories] of targets) {
+      const absPath = path.join(workspaceDir, relPath);
+      const existing = await fs.readFile(absPath, "utf-8").catch(() => "");
+      const title = relPath === "MEMORY.md" ? "# Memory" : `# ${dateStamp}`;
+      await fs.mkdir(path.dirname(absPath), { recursive: true });
+      await fs.writeFile(
+        absPath,
+        mergeIntoSection(existing, memories.map(formatConsolidatedMemory), title),
+        "utf-8",
+      );
+    }
+    for (const chunk of runChunks) {
+      const line = chunk.lines[chunk.lines.length - 1]?.line ?? 0;
+      const previous = state.transcripts[chunk.path]?.line ?? 0;
+      state.transcripts[chunk.path] = { line: Math.max(line, previous), updatedAt: nowMs };
+    }
+    state.lastRunAt = nowMs;
+    await writeJsonAtomic(statePath, state);
+  }
+
+  return {
+    agentId,
+    transcripts,
+    chunks: runChunks.length,
+    written,
+    duplicates,
+    files: [...targets.keys()].map((file) => file.replace(/\\/g, "/")),
+    dryRun: Boolean(params.dryRun),
+    truncated: chunks.length > runChunks.length,
+  };
+}
+
+export function formatMemoryConsolidationSummary(result: MemoryConsolidationResult): string {
+  if (result.chunks === 0) {
+    return `No new session lines to consolidate (${result.agentId}).`;
+  }
+  const files = result.files.length > 0 ? ` → ${result.files.join(", ")}` : "";
+  const more = result.truncated ? "; more pending" : "";
+  const verb = result.dryRun ? "would add" : "added";
+  return `Consolidated ${result.transcripts} transcript(s): ${verb} ${result.written.length} memories, skipped ${result.duplicates} duplicates${more}${files}`;
+}
@@ -30,6 +30,10 @@ export function resolveEmbeddingMaxInputTokens(provider: EmbeddingProvider): num
   if (provider.id.toLowerCase() === "gemini") {
     return 2048;
   }
+  // BERT-style ONNX encoders cap positions at 512 tokens.
+  if (provider.id.toLowerCase() === "onnx") {
+    return 512;
+  }
 
   return DEFAULT_EMBEDDING_MAX_INPUT_TOKENS;
 }
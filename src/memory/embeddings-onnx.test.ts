@@ -0,0 +1,141 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createOnnxEmbeddingProvider } from "./embeddings-onnx.js";
+import { loadWordPieceTokenizer } from "./wordpiece.js";
+
+const importOnnxRuntimeMock = vi.fn();
+vi.mock("./onnx-runtime.js", () => ({
+  importOnnxRuntime: (...args: unknown[]) => importOnnxRuntimeMock(...args),
+}));
+
+const VOCAB = [
+  "[PAD]",
+  "[UNK]",
+  "[CLS]",
+  "[SEP]",
+  "hello",
+  "world",
+  "cafe",
+  "emb",
+  "##ed",
+  "##ding",
+  "!",
+];
+
+let modelDir = "";
+
+beforeEach(async () => {
+  modelDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-onnx-"));
+  await fs.writeFile(path.join(modelDir, "model.onnx"), "");
+  await fs.writeFile(
+    path.join(modelDir, "tokenizer.json"),
+    JSON.stringify({
+      normalizer: { type: "BertNormalizer", lowercase: true, strip_accents: null },
+      pre_tokenizer: { type: "BertPreTokenizer" },
+      model: {
+        type: "WordPiece",
+        unk_token: "[UNK]",
+        continuing_subword_prefix: "##",
+        vocab: Object.fromEntries(VOCAB.map((token, index) => [token, index])),
+      },
+      post_processor: { type: "BertProcessing", cls: ["[CLS]", 2], sep: ["[SEP]", 3] },
+    }),
+  );
+});
+
+afterEach(async () => {
+  vi.resetAllMocks();
+  await fs.rm(modelDir, { recursive: true, force: true });
+});
+
+describe("loadWordPieceTokenizer", () => {
+  it("lowercases, strips accents, splits punctuation and sub-words", () => {
+    const tokenizer = loadWordPieceTokenizer(modelDir);
+    expect(tokenizer.encode("Hello CAFÉ embedding!  xyz", 32).ids).toEqual([
+      2, 4, 6, 7, 8, 9, 10, 1, 3,
+    ]);
+    expect(tokenizer.encode("hello world hello world", 4).ids).toEqual([2, 4, 5, 3]);
+    expect(tokenizer.padId).toBe(0);
+  });
+});
+
+describe("createOnnxEmbeddingProvider", () => {
+  it("mean-pools masked token states in mini-batches and reads the model's max length", async () => {
+    await fs.writeFile(
+      path.join(modelDir, "sentence_bert_config.json"),
+      JSON.stringify({ max_seq_length: 128 }),
+    );
+    const runs: Array<Record<string, { data: BigInt64Array; dims: number[] }>> = [];
+    class FakeTensor {
+      constructor(
+        readonly type: string,
+        readonly data: BigInt64Array,
+        readonly dims: number[],
+      ) {}
+    }
+    const session = {
+      inputNames: ["input_ids", "attention_mask", "token_type_ids"],
+      outputNames: ["last_hidden_state"],
+      run: vi.fn(async (feeds: Record<string, FakeTensor>) => {
+        runs.push(feeds);
+        const [batch, seqLen] = feeds.input_ids.dims;
+        // Hidden state = [token id, 1]; padding positions get a huge value that must be masked out.
+        const data = new Float32Array(batch * seqLen * 2);
+        for (let i = 0; i < batch * seqLen; i += 1) {
+          const masked = feeds.attention_mask.data[i] === 0n;
+          data[i * 2] = masked ? 1000 : Number(feeds.input_ids.data[i]);
+          data[i * 2 + 1] = 1;
+        }
+        return { last_hidden_state: { data, dims: [batch, seqLen, 2] } };
+      }),
+    };
+    const create = vi.fn(async () => session);
+    importOnnxRuntimeMock.mockResolvedValue({
+      Tensor: FakeTensor,
+      InferenceSession: { create },
+    });
+
+    const provider = await createOnnxEmbeddingProvider({
+      config: {} as never,
+      provider: "onnx",
+      model: "",
+      fallback: "none",
+      onnx: { modelPath: modelDir, batchSize: 2, threads: 2 },
+    });
+    expect(provider.id).toBe("onnx");
+    expect(provider.maxInputTokens).toBe(128);
+
+    const vectors = await provider.embedBatch(["hello", "hello world", "world"]);
+    expect(session.run).toHaveBeenCalledTimes(2);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0]).toEqual([
+      path.join(modelDir, "model.onnx"),
+      expect.objectContaining({ executionProviders: ["cpu"], intraOpNumThreads: 2 }),
+    ]);
+    expect(runs[0]?.input_ids.dims).toEqual([2, 4]);
+    expect(Array.from(runs[0]?.input_ids.data ?? [])).toEqual([2n, 4n, 3n, 0n, 2n, 4n, 5n, 3n]);
+    expect(runs[0]?.token_type_ids.data.every((value) => value === 0n)).toBe(true);
+
+    // "hello" → mean of [2,4,3] = 3 → normalize([3, 1])
+    const expected = [3 / Math.sqrt(10), 1 / Math.sqrt(10)];
+    expect(vectors).toHaveLength(3);
+    expect(vectors[0]?.[0]).toBeCloseTo(expected[0]);
+    expect(vectors[0]?.[1]).toBeCloseTo(expected[1]);
+  });
+
+  it("fails fast when the model directory has no model", async () => {
+    await fs.rm(path.join(modelDir, "model.onnx"));
+    await expect(
+      createOnnxEmbeddingProvider({
+        config: {} as never,
+        provider: "onnx",
+        model: "",
+        fallback: "none",
+        onnx: { modelPath: modelDir },
+      }),
+    ).rejects.toThrow("no model.onnx found");
+    expect(importOnnxRuntimeMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import type { InferenceSession } from "onnxruntime-node";
+import fs from "node:fs";
+import path from "node:path";
+import type { EmbeddingProvider, EmbeddingProviderOptions } from "./embeddings.js";
+import { resolveStateDir } from "../config/paths.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import { resolveUserPath } from "../utils.js";
+import { importOnnxRuntime } from "./onnx-runtime.js";
+import { loadWordPieceTokenizer } from "./wordpiece.js";
+
+export type OnnxPooling = "mean" | "cls";
+
+export const DEFAULT_ONNX_MODEL = "all-MiniLM-L6-v2";
+const DEFAULT_ONNX_MAX_SEQUENCE_LENGTH = 256;
+const DEFAULT_ONNX_BATCH_SIZE = 16;
+const MODEL_FILE_CANDIDATES = [
+  "model.onnx",
+  path.join("onnx", "model.onnx"),
+  "model_quantized.onnx",
+  path.join("onnx", "model_quantized.onnx"),
+];
+
+export function resolveDefaultOnnxModelDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), "models", "embeddings", DEFAULT_ONNX_MODEL);
+}
+
+function readJsonFile(filePath: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Resolve `modelPath` (a model directory or an `.onnx` file) to the model file and its directory. */
+export function resolveOnnxModelFiles(modelPath: string): { modelDir: string; modelFile: string } {
+  const resolved = resolveUserPath(modelPath);
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(resolved);
+  } catch {
+    throw new Error(`ONNX embedding model not found at ${resolved}`);
+  }
+  if (stat.isFile()) {
+    return { modelDir: path.dirname(resolved), modelFile: resolved };
+  }
+  for (const candidate of MODEL_FILE_CANDIDATES) {
+    const modelFile = path.join(resolved, candidate);
+    if (fs.existsSync(modelFile)) {
+      return { modelDir: resolved, modelFile };
+    }
+  }
+  throw new Error(`no model.onnx found in ${resolved}`);
+}
+
+/**
+ * Read sentence-transformers metadata shipped with the model (max sequence
+ * length and pooling mode); explicit config wins.
+ */
+function resolveModelDefaults(modelDir: string): {
+  maxSequenceLength?: number;
+  pooling?: OnnxPooling;
+} {
+  const sbert = readJsonFile(path.join(modelDir, "sentence_bert_config.json"));
+  const pooling = readJsonFile(path.join(modelDir, "1_Pooling", "config.json"));
+  const maxSeq = sbert?.max_seq_length;
+  return {
+    maxSequenceLength: typeof maxSeq === "number" && maxSeq > 0 ? maxSeq : undefined,
+    pooling: pooling?.pooling_mode_cls_token
+      ? "cls"
+      : pooling?.pooling_mode_mean_tokens
+        ? "mean"
+        : undefined,
+  };
+}
+
+function normalize(vec: number[]): number[] {
+  const sanitized = vec.map((value) => (Number.isFinite(value) ? value : 0));
+  const magnitude = Math.sqrt(sanitized.reduce((sum, value) => sum + value * value, 0));
+  if (magnitude < 1e-10) {
+    return sanitized;
+  }
+  return sanitized.map((value) => value / magnitude);
+}
+
+/**
+ * Pool `[batch, seq, hidden]` token embeddings into one normalized vector per
+ * text: attention-masked mean, or the first ([CLS]) token.
+ */
+export function poolTokenEmbeddings(params: {
+  data: ArrayLike<number>;
+  dims: readonly number[];
+  attentionMask: number[][];
+  pooling: OnnxPooling;
+}): number[][] {
+  const [batch, seqLen, hidden] = params.dims;
+  const out: number[][] = [];
+  for (let b = 0; b < batch; b += 1) {
+    const vec = Array.from({ length: hidden }, () => 0);
+    const mask = params.attentionMask[b] ?? [];
+    let count = 0;
+    for (let t = 0; t < seqLen; t += 1) {
+      if (params.pooling === "cls" ? t !== 0 : !mask[t]) {
+        continue;
+      }
+      const offset = (b * seqLen + t) * hidden;
+      for (let h = 0; h < hidden; h += 1) {
+        vec[h] += Number(params.data[offset + h]);
+      }
+      count += 1;
+    }
+    out.push(normalize(count > 1 ? vec.map((value) => value / count) : vec));
+  }
+  return out;
+}
+
+export async function createOnnxEmbeddingProvider(
+  options: EmbeddingProviderOptions,
+): Promise<EmbeddingProvider> {
+  const modelPath = options.onnx?.modelPath?.trim() || resolveDefaultOnnxModelDir();
+  const { modelDir, modelFile } = resolveOnnxModelFiles(modelPath);
+  const tokenizer = loadWordPieceTokenizer(modelDir);
+  const defaults = resolveModelDefaults(modelDir);
+  const maxSequenceLength =
+    options.onnx?.maxSequenceLength ??
+    defaults.maxSequenceLength ??
+    DEFAULT_ONNX_MAX_SEQUENCE_LENGTH;
+  const pooling = options.onnx?.pooling ?? defaults.pooling ?? "mean";
+  const batchSize = Math.max(1, options.onnx?.batchSize ?? DEFAULT_ONNX_BATCH_SIZE);
+
+  // Lazy-load onnxruntime-node to keep startup light unless onnx is enabled.
+  const ort = await importOnnxRuntime();
+  let session: InferenceSession | null = null;
+
+  const ensureSession = async () => {
+    if (!session) {
+      session = await ort.InferenceSession.create(modelFile, {
+        executionProviders: ["cpu"],
+        graphOptimizationLevel: "all",
+        ...(options.onnx?.threads ? { intraOpNumThreads: options.onnx.threads } : {}),
+      });
+    }
+    return session;
+  };
+
+  const embedChunk = async (texts: string[]): Promise<number[][]> => {
+    const active = await ensureSession();
+    const encoded = texts.map((text) => tokenizer.encode(text, maxSequenceLength).ids);
+    const seqLen = Math.max(...encoded.map((ids) => ids.length));
+    const inputIds = new BigInt64Array(texts.length * seqLen).fill(BigInt(tokenizer.padId));
+    const attention = new BigInt64Array(texts.length * seqLen);
+    const attentionMask: number[][] = [];
+    for (const [row, ids] of encoded.entries()) {
+      for (const [col, id] of ids.entries()) {
+        inputIds[row * seqLen + col] = BigInt(id);
+        attention[row * seqLen + col] = 1n;
+      }
+      attentionMask.push(Array.from({ length: seqLen }, (_, col) => (col < ids.length ? 1 : 0)));
+    }
+    const dims = [texts.length, seqLen];
+    const feeds: Record<string, InstanceType<typeof ort.Tensor>> = {
+      input_ids: new ort.Tensor("int64", inputIds, dims),
+      attention_mask: new ort.Tensor("int64", attention, dims),
+    };
+    if (active.inputNames.includes("token_type_ids")) {
+      feeds.token_type_ids = new ort.Tensor("int64", new BigInt64Array(inputIds.length), dims);
+    }
+    const outputs = await active.run(feeds);
+    const outputName = active.outputNames.includes("sentence_embedding")
+      ? "sentence_embedding"
+      : active.outputNames.includes("last_hidden_state")
+        ? "last_hidden_state"
+        : active.outputNames[0];
+    const output = outputs[outputName];
+    if (!output) {
+      throw new Error(`ONNX model produced no "${outputName}" output`);
+    }
+    const data: number[] = [];
+    for (const value of output.data) {
+      data.push(Number(value));
+    }
+    if (output.dims.length === 2) {
+      const hidden = output.dims[1];
+      return texts.map((_, row) => normalize(data.slice(row * hidden, (row + 1) * hidden)));
+    }
+    return poolTokenEmbeddings({ data, dims: output.dims, attentionMask, pooling });
+  };
+
+  return {
+    id: "onnx",
+    model: modelDir,
+    maxInputTokens: maxSequenceLength,
+    embedQuery: async (text) => (await embedChunk([text]))[0] ?? [],
+    embedBatch: async (texts) => {
+      const embeddings: number[][] = [];
+      for (let start = 0; start < texts.length; start += batchSize) {
+        embeddings.push(...(await embedChunk(texts.slice(start, start + batchSize))));
+      }
+      return embeddings;
+    },
+  };
+}
+
+function isOnnxRuntimeMissing(err: unknown): boolean {
+  if (!(err instanceof Error)) {
+    return false;
+  }
+  const code = (err as Error & { code?: unknown }).code;
+  return code === "ERR_MODULE_NOT_FOUND" && err.message.includes("onnxruntime-node");
+}
+
+export function formatOnnxSetupError(err: unknown): string {
+  const detail = formatErrorMessage(err);
+  const missing = isOnnxRuntimeMissing(err);
+  return [
+    "ONNX embeddings unavailable.",
+    missing
+      ? "Reason: optional dependency onnxruntime-node is not installed."
+      : `Reason: ${detail}`,
+    "To enable ONNX embeddings:",
+    missing ? "1) Install the runtime next to OpenClaw: npm i -g onnxruntime-node" : null,
+    `2) Put a sentence-transformers ONNX export (model.onnx + tokenizer.json) in ${resolveDefaultOnnxModelDir()}`,
+    "   or set agents.defaults.memorySearch.onnx.modelPath to its directory.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
@@ -1,4 +1,8 @@
-import type { EmbeddingProvider, EmbeddingProviderOptions } from "./embeddings.js";
+import type {
+  EmbeddingBatchResult,
+  EmbeddingProvider,
+  EmbeddingProviderOptions,
+} from "./embeddings.js";
 import { requireApiKey, resolveApiKeyForProvider } from "../agents/model-auth.js";
 
 export type OpenAiEmbeddingClient = {
@@ -32,9 +36,9 @@ export async function createOpenAiEmbeddingProvider(
   const client = await resolveOpenAiEmbeddingClient(options);
   const url = `${client.baseUrl.replace(/\/$/, "")}/embeddings`;
 
-  const embed = async (input: string[]): Promise<number[][]> => {
+  const embedWithUsage = async (input: string[]): Promise<EmbeddingBatchResult> => {
     if (input.length === 0) {
-      return [];
+      return { vectors: [] };
     }
     const res = await fetch(url, {
       method: "POST",
@@ -47,10 +51,20 @@ export async function createOpenAiEmbeddingProvider(
     }
     const payload = (await res.json()) as {
       data?: Array<{ embedding?: number[] }>;
+      usage?: { prompt_tokens?: number; total_tokens?: number };
     };
     const data = payload.data ?? [];
-    return data.map((entry) => entry.embedding ?? []);
+    const promptTokens = payload.usage?.prompt_tokens;
+    const totalTokens = payload.usage?.total_tokens ?? promptTokens;
+    return {
+      vectors: data.map((entry) => entry.embedding ?? []),
+      usage:
+        typeof promptTokens === "number" && typeof totalTokens === "number"
+          ? { promptTokens, totalTokens }
+          : undefined,
+    };
   };
+  const embed = async (input: string[]) => (await embedWithUsage(input)).vectors;
 
   return {
     provider: {
@@ -62,6 +76,7 @@ export async function createOpenAiEmbeddingProvider(
         return vec ?? [];
       },
       embedBatch: embed,
+      embedBatchWithUsage: embedWithUsage,
     },
     client,
   };
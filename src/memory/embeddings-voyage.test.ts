@@ -123,6 +123,33 @@ describe("voyage embedding provider", () => {
     });
   });
 
+  it("reports the token usage returned by the API", async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ data: [{ embedding: [0.1, 0.2] }], usage: { total_tokens: 5 } }),
+    })) as unknown as typeof fetch;
+    vi.stubGlobal("fetch", fetchMock);
+
+    vi.mocked(authModule.resolveApiKeyForProvider).mockResolvedValue({
+      apiKey: "voyage-key-123",
+      mode: "api-key",
+      source: "test",
+    });
+
+    const result = await createVoyageEmbeddingProvider({
+      config: {} as never,
+      provider: "voyage",
+      model: "voyage-4-large",
+      fallback: "none",
+    });
+
+    await expect(result.provider.embedBatchWithUsage?.(["doc"])).resolves.toEqual({
+      vectors: [[0.1, 0.2]],
+      usage: { promptTokens: 5, totalTokens: 5 },
+    });
+  });
+
   it("normalizes model names", async () => {
     expect(normalizeVoyageModel("voyage/voyage-large-2")).toBe("voyage-large-2");
     expect(normalizeVoyageModel("voyage-4-large")).toBe("voyage-4-large");
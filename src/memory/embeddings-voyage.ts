@@ -1,4 +1,8 @@
-import type { EmbeddingProvider, EmbeddingProviderOptions } from "./embeddings.js";
+import type {
+  EmbeddingBatchResult,
+  EmbeddingProvider,
+  EmbeddingProviderOptions,
+} from "./embeddings.js";
 import { requireApiKey, resolveApiKeyForProvider } from "../agents/model-auth.js";
 
 export type VoyageEmbeddingClient = {
@@ -32,9 +36,12 @@ export async function createVoyageEmbeddingProvider(
   const client = await resolveVoyageEmbeddingClient(options);
   const url = `${client.baseUrl.replace(/\/$/, "")}/embeddings`;
 
-  const embed = async (input: string[], input_type?: "query" | "document"): Promise<number[][]> => {
+  const embedWithUsage = async (
+    input: string[],
+    input_type?: "query" | "document",
+  ): Promise<EmbeddingBatchResult> => {
     if (input.length === 0) {
-      return [];
+      return { vectors: [] };
     }
     const body: { model: string; input: string[]; input_type?: "query" | "document" } = {
       model: client.model,
@@ -55,10 +62,19 @@ export async function createVoyageEmbeddingProvider(
     }
     const payload = (await res.json()) as {
       data?: Array<{ embedding?: number[] }>;
+      usage?: { total_tokens?: number };
     };
     const data = payload.data ?? [];
-    return data.map((entry) => entry.embedding ?? []);
+    // Voyage only reports total tokens; for embeddings that is the prompt size.
+    const totalTokens = payload.usage?.total_tokens;
+    return {
+      vectors: data.map((entry) => entry.embedding ?? []),
+      usage:
+        typeof totalTokens === "number" ? { promptTokens: totalTokens, totalTokens } : undefined,
+    };
   };
+  const embed = async (input: string[], input_type?: "query" | "document") =>
+    (await embedWithUsage(input, input_type)).vectors;
 
   return {
     provider: {
@@ -70,6 +86,7 @@ export async function createVoyageEmbeddingProvider(
         return vec ?? [];
       },
       embedBatch: async (texts) => embed(texts, "document"),
+      embedBatchWithUsage: async (texts) => embedWithUsage(texts, "document"),
     },
     client,
   };
@@ -4,6 +4,7 @@ import type { OpenClawConfig } from "../config/config.js";
 import { formatErrorMessage } from "../infra/errors.js";
 import { resolveUserPath } from "../utils.js";
 import { createGeminiEmbeddingProvider, type GeminiEmbeddingClient } from "./embeddings-gemini.js";
+import { createOnnxEmbeddingProvider, formatOnnxSetupError } from "./embeddings-onnx.js";
 import { createOpenAiEmbeddingProvider, type OpenAiEmbeddingClient } from "./embeddings-openai.js";
 import { createVoyageEmbeddingProvider, type VoyageEmbeddingClient } from "./embeddings-voyage.js";
 import { importNodeLlamaCpp } from "./node-llama.js";
@@ -27,9 +28,16 @@ export type EmbeddingProvider = {
   maxInputTokens?: number;
   embedQuery: (text: string) => Promise<number[]>;
   embedBatch: (texts: string[]) => Promise<number[][]>;
+  /** Like `embedBatch`, plus the token counts the provider API reported, if any. */
+  embedBatchWithUsage?: (texts: string[]) => Promise<EmbeddingBatchResult>;
 };
 
-export type EmbeddingProviderId = "openai" | "local" | "gemini" | "voyage";
+export type EmbeddingBatchResult = {
+  vectors: number[][];
+  usage?: { promptTokens: number; totalTokens: number };
+};
+
+export type EmbeddingProviderId = "openai" | "local" | "onnx" | "gemini" | "voyage";
 export type EmbeddingProviderRequest = EmbeddingProviderId | "auto";
 export type EmbeddingProviderFallback = EmbeddingProviderId | "none";
 
@@ -60,6 +68,13 @@ export type EmbeddingProviderOptions = {
     modelPath?: string;
     modelCacheDir?: string;
   };
+  onnx?: {
+    modelPath?: string;
+    pooling?: "mean" | "cls";
+    maxSequenceLength?: number;
+    batchSize?: number;
+    threads?: number;
+  };
 };
 
 export const DEFAULT_LOCAL_MODEL =
@@ -81,6 +96,14 @@ function canAutoSelectLocal(options: EmbeddingProviderOptions): boolean {
   }
 }
 
+function canAutoSelectOnnx(options: EmbeddingProviderOptions): boolean {
+  const modelPath = options.onnx?.modelPath?.trim();
+  if (!modelPath) {
+    return false;
+  }
+  return fsSync.existsSync(resolveUserPath(modelPath));
+}
+
 function isMissingApiKeyError(err: unknown): boolean {
   const message = formatErrorMessage(err);
   return message.includes("No API key found for provider");
@@ -145,6 +168,10 @@ export async function createEmbeddingProvider(
       const provider = await createLocalEmbeddingProvider(options);
       return { provider };
     }
+    if (id === "onnx") {
+      const provider = await createOnnxEmbeddingProvider(options);
+      return { provider };
+    }
     if (id === "gemini") {
       const { provider, client } = await createGeminiEmbeddingProvider(options);
       return { provider, gemini: client };
@@ -158,11 +185,16 @@ export async function createEmbeddingProvider(
   };
 
   const formatPrimaryError = (err: unknown, provider: EmbeddingProviderId) =>
-    provider === "local" ? formatLocalSetupError(err) : formatErrorMessage(err);
+    provider === "local"
+      ? formatLocalSetupError(err)
+      : provider === "onnx"
+        ? formatOnnxSetupError(err)
+        : formatErrorMessage(err);
 
   if (requestedProvider === "auto") {
     const missingKeyErrors: string[] = [];
     let localError: string | null = null;
+    let onnxError: string | null = null;
 
     if (canAutoSelectLocal(options)) {
       try {
@@ -173,6 +205,15 @@ export async function createEmbeddingProvider(
       }
     }
 
+    if (canAutoSelectOnnx(options)) {
+      try {
+        const onnx = await createProvider("onnx");
+        return { ...onnx, requestedProvider };
+      } catch (err) {
+        onnxError = formatOnnxSetupError(err);
+      }
+    }
+
     for (const provider of REMOTE_EMBEDDING_PROVIDER_IDS) {
       try {
         const result = await createProvider(provider);
@@ -187,7 +228,7 @@ export async function createEmbeddingProvider(
       }
     }
 
-    const details = [...missingKeyErrors, localError].filter(Boolean) as string[];
+    const details = [...missingKeyErrors, localError, onnxError].filter(Boolean) as string[];
     if (details.length > 0) {
       throw new Error(details.join("\n\n"));
     }
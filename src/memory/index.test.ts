@@ -337,4 +337,39 @@ describe("memory index", () => {
       );
     }
   });
+
+  it("restricts search to filtered paths and modification dates", async () => {
+    const acmeDir = path.join(memoryDir, "projects", "acme");
+    await fs.mkdir(acmeDir, { recursive: true });
+    await fs.writeFile(path.join(acmeDir, "notes.md"), "Alpha alpha acme launch plan.");
+    try {
+      const cfg = createCfg({
+        storePath: path.join(workspaceDir, `index-filter-${Date.now()}.sqlite`),
+        hybrid: { enabled: true, vectorWeight: 0.5, textWeight: 0.5 },
+      });
+      const result = await getMemorySearchManager({ cfg, agentId: "main" });
+      const manager = result.manager as MemoryIndexManager;
+      managersForCleanup.add(manager);
+      await manager.sync({ reason: "test" });
+
+      const unfiltered = await manager.search("alpha");
+      expect(new Set(unfiltered.map((entry) => entry.path)).size).toBe(2);
+
+      const scoped = await manager.search("alpha", {
+        filter: { pathInclude: ["memory/projects/**"] },
+      });
+      expect(scoped.map((entry) => entry.path)).toEqual(["memory/projects/acme/notes.md"]);
+
+      const excluded = await manager.search("alpha", {
+        filter: { pathExclude: ["memory/projects"] },
+      });
+      expect(excluded.map((entry) => entry.path)).toEqual(["memory/2026-01-12.md"]);
+
+      await expect(
+        manager.search("alpha", { filter: { modifiedAfter: Date.now() + 60_000 } }),
+      ).resolves.toEqual([]);
+    } finally {
+      await fs.rm(path.join(memoryDir, "projects"), { recursive: true, force: true });
+    }
+  });
 });
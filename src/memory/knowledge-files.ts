@@ -0,0 +1,105 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { KnowledgeEntry } from "../knowledge/types.js";
+import {
+  LEGACY_KNOWLEDGE_STORE_FILENAME,
+  resolveKnowledgeStorePath,
+  withKnowledgeStore,
+} from "../knowledge/store.js";
+import { hashText } from "./internal.js";
+
+export type KnowledgeFileEntry = {
+  path: string;
+  absPath: string;
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  content: string;
+};
+
+const KNOWLEDGE_PATH_PREFIX = "knowledge/";
+
+/** Virtual index path for an entry: `knowledge/<category>/<key>` (segments URI-encoded). */
+export function knowledgePathForEntry(category: string, key: string): string {
+  return `${KNOWLEDGE_PATH_PREFIX}${encodeURIComponent(category)}/${encodeURIComponent(key)}`;
+}
+
+export function parseKnowledgePath(relPath: string): { category: string; key: string } | null {
+  if (!relPath.startsWith(KNOWLEDGE_PATH_PREFIX)) {
+    return null;
+  }
+  const parts = relPath.slice(KNOWLEDGE_PATH_PREFIX.length).split("/");
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    return null;
+  }
+  try {
+    return { category: decodeURIComponent(parts[0]), key: decodeURIComponent(parts[1]) };
+  } catch {
+    return null;
+  }
+}
+
+/** Markdown view of an entry; this is what gets chunked, embedded and cited. */
+export function renderKnowledgeEntry(entry: KnowledgeEntry): string {
+  const lines = [`# ${entry.category}/${entry.key}`];
+  if (entry.tags.length > 0) {
+    lines.push(`Tags: ${entry.tags.join(", ")}`);
+  }
+  lines.push(`Updated: ${new Date(entry.updatedAt).toISOString()}`, "");
+  const data =
+    typeof entry.data === "string" ? entry.data : JSON.stringify(entry.data ?? null, null, 2);
+  lines.push(...data.split("\n"));
+  return lines.join("\n");
+}
+
+export function buildKnowledgeFileEntry(
+  entry: KnowledgeEntry,
+  absPath: string,
+): KnowledgeFileEntry {
+  const content = renderKnowledgeEntry(entry);
+  return {
+    path: knowledgePathForEntry(entry.category, entry.key),
+    absPath,
+    mtimeMs: entry.updatedAt,
+    size: Buffer.byteLength(content, "utf-8"),
+    hash: hashText(content),
+    content,
+  };
+}
+
+function knowledgeStoreExists(workspaceDir: string, dbPath: string): boolean {
+  return (
+    fs.existsSync(dbPath) || fs.existsSync(path.join(workspaceDir, LEGACY_KNOWLEDGE_STORE_FILENAME))
+  );
+}
+
+/**
+ * Entries of the workspace knowledge store, limited to `categories` when set.
+ * Workspaces without a store return nothing (no database is created).
+ */
+export async function listKnowledgeEntriesForWorkspace(
+  workspaceDir: string,
+  categories?: string[],
+): Promise<KnowledgeFileEntry[]> {
+  const dbPath = resolveKnowledgeStorePath(workspaceDir);
+  if (!knowledgeStoreExists(workspaceDir, dbPath)) {
+    return [];
+  }
+  const allowed = categories ? new Set(categories) : null;
+  const exported = await withKnowledgeStore(dbPath, (store) => store.export());
+  return exported.entries
+    .filter((entry) => !allowed || allowed.has(entry.category))
+    .map((entry) => buildKnowledgeFileEntry(entry, dbPath));
+}
+
+export async function readKnowledgeEntry(
+  workspaceDir: string,
+  category: string,
+  key: string,
+): Promise<KnowledgeEntry | null> {
+  const dbPath = resolveKnowledgeStorePath(workspaceDir);
+  if (!fs.existsSync(dbPath)) {
+    return null;
+  }
+  return await withKnowledgeStore(dbPath, (store) => store.get(category, key));
+}
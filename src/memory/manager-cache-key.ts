@@ -13,6 +13,9 @@ export function computeMemoryManagerCacheKey(params: {
       enabled: settings.enabled,
       sources: [...settings.sources].toSorted((a, b) => a.localeCompare(b)),
       extraPaths: [...settings.extraPaths].toSorted((a, b) => a.localeCompare(b)),
+      knowledgeCategories: settings.knowledge.categories
+        ? [...settings.knowledge.categories].toSorted((a, b) => a.localeCompare(b))
+        : undefined,
       provider: settings.provider,
       model: settings.model,
       fallback: settings.fallback,
@@ -20,6 +23,7 @@ export function computeMemoryManagerCacheKey(params: {
         modelPath: settings.local.modelPath,
         modelCacheDir: settings.local.modelCacheDir,
       },
+      onnx: settings.onnx,
       remote: settings.remote
         ? {
             baseUrl: settings.remote.baseUrl,
@@ -233,6 +233,17 @@ class MemoryManagerEmbeddingOps {
         }),
       );
     }
+    if (this.provider.id === "onnx") {
+      // Pooling and truncation change the vectors, not just the model path.
+      return hashText(
+        JSON.stringify({
+          provider: "onnx",
+          model: this.provider.model,
+          pooling: this.settings.onnx.pooling,
+          maxInputTokens: this.provider.maxInputTokens,
+        }),
+      );
+    }
     return hashText(JSON.stringify({ provider: this.provider.id, model: this.provider.model }));
   }
 
@@ -528,7 +539,7 @@ class MemoryManagerEmbeddingOps {
   }
 
   private resolveEmbeddingTimeout(kind: "query" | "batch"): number {
-    const isLocal = this.provider.id === "local";
+    const isLocal = this.provider.id === "local" || this.provider.id === "onnx";
     if (kind === "query") {
       return isLocal ? EMBEDDING_QUERY_TIMEOUT_LOCAL_MS : EMBEDDING_QUERY_TIMEOUT_REMOTE_MS;
     }
@@ -8,6 +8,8 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import type { MemorySource, MemorySyncProgressUpdate } from "./types.js";
 import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
+import { onKnowledgeStoreUpdate } from "../knowledge/events.js";
+import { resolveKnowledgeStorePath } from "../knowledge/store.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { onSessionTranscriptUpdate } from "../sessions/transcript-events.js";
 import { resolveUserPath } from "../utils.js";
@@ -22,6 +24,7 @@ import {
   runWithConcurrency,
   type MemoryFileEntry,
 } from "./internal.js";
+import { listKnowledgeEntriesForWorkspace } from "./knowledge-files.js";
 import { ensureMemoryIndexSchema } from "./memory-schema.js";
 import {
   buildSessionEntry,
@@ -53,6 +56,7 @@ const VECTOR_TABLE = "chunks_vec";
 const FTS_TABLE = "chunks_fts";
 const EMBEDDING_CACHE_TABLE = "embedding_cache";
 const SESSION_DIRTY_DEBOUNCE_MS = 5000;
+const KNOWLEDGE_DIRTY_DEBOUNCE_MS = 1000;
 const SESSION_DELTA_READ_CHUNK_BYTES = 64 * 1024;
 const VECTOR_LOAD_TIMEOUT_MS = 30_000;
 const IGNORED_MEMORY_WATCH_DIR_NAMES = new Set([
@@ -156,14 +160,23 @@ class MemoryManagerSyncOps {
     }
   }
 
-  private buildSourceFilter(alias?: string): { sql: string; params: MemorySource[] } {
+  private buildSourceFilter(alias?: string, paths?: string[]): { sql: string; params: string[] } {
     const sources = Array.from(this.sources);
+    const pathFilter = paths
+      ? {
+          sql: ` AND ${alias ? `${alias}.path` : "path"} IN (SELECT value FROM json_each(?))`,
+          params: [JSON.stringify(paths)],
+        }
+      : { sql: "", params: [] };
     if (sources.length === 0) {
-      return { sql: "", params: [] };
+      return pathFilter;
     }
     const column = alias ? `${alias}.source` : "source";
     const placeholders = sources.map(() => "?").join(", ");
-    return { sql: ` AND ${column} IN (${placeholders})`, params: sources };
+    return {
+      sql: ` AND ${column} IN (${placeholders})${pathFilter.sql}`,
+      params: [...sources, ...pathFilter.params],
+    };
   }
 
   private openDatabase(): DatabaseSync {
@@ -334,6 +347,36 @@ class MemoryManagerSyncOps {
     });
   }
 
+  private ensureKnowledgeListener() {
+    if (!this.sources.has("knowledge") || this.knowledgeUnsubscribe) {
+      return;
+    }
+    const storePath = path.resolve(resolveKnowledgeStorePath(this.workspaceDir));
+    const categories = this.settings.knowledge.categories;
+    this.knowledgeUnsubscribe = onKnowledgeStoreUpdate((update) => {
+      if (this.closed || update.dbPath !== storePath) {
+        return;
+      }
+      if (update.category && categories && !categories.includes(update.category)) {
+        return;
+      }
+      this.knowledgeDirty = true;
+      this.scheduleKnowledgeSync();
+    });
+  }
+
+  private scheduleKnowledgeSync() {
+    if (this.knowledgeWatchTimer) {
+      return;
+    }
+    this.knowledgeWatchTimer = setTimeout(() => {
+      this.knowledgeWatchTimer = null;
+      void this.sync({ reason: "knowledge" }).catch((err) => {
+        log.warn(`memory sync failed (knowledge): ${String(err)}`);
+      });
+    }, KNOWLEDGE_DIRTY_DEBOUNCE_MS);
+  }
+
   private scheduleSessionDirty(sessionFile: string) {
     this.sessionPendingFiles.add(sessionFile);
     if (this.sessionWatchTimer) {
@@ -540,6 +583,13 @@ class MemoryManagerSyncOps {
     return this.sessionsDirty && this.sessionsDirtyFiles.size > 0;
   }
 
+  private shouldSyncKnowledge(params?: { force?: boolean }, needsFullReindex = false) {
+    if (!this.sources.has("knowledge")) {
+      return false;
+    }
+    return Boolean(params?.force || needsFullReindex || this.knowledgeDirty);
+  }
+
   private async syncMemoryFiles(params: {
     needsFullReindex: boolean;
     progress?: MemorySyncProgressState;
@@ -716,6 +766,79 @@ class MemoryManagerSyncOps {
     }
   }
 
+  private async syncKnowledgeEntries(params: {
+    needsFullReindex: boolean;
+    progress?: MemorySyncProgressState;
+  }) {
+    const entries = await listKnowledgeEntriesForWorkspace(
+      this.workspaceDir,
+      this.settings.knowledge.categories,
+    );
+    log.debug("memory sync: indexing knowledge entries", {
+      entries: entries.length,
+      needsFullReindex: params.needsFullReindex,
+      batch: this.batch.enabled,
+      concurrency: this.getIndexConcurrency(),
+    });
+    const activePaths = new Set(entries.map((entry) => entry.path));
+    if (params.progress) {
+      params.progress.total += entries.length;
+      params.progress.report({
+        completed: params.progress.completed,
+        total: params.progress.total,
+        label: this.batch.enabled
+          ? "Indexing knowledge entries (batch)..."
+          : "Indexing knowledge entries…",
+      });
+    }
+
+    const tasks = entries.map((entry) => async () => {
+      const record = this.db
+        .prepare(`SELECT hash FROM files WHERE path = ? AND source = ?`)
+        .get(entry.path, "knowledge") as { hash: string } | undefined;
+      if (params.needsFullReindex || record?.hash !== entry.hash) {
+        await this.indexFile(entry, { source: "knowledge", content: entry.content });
+      }
+      if (params.progress) {
+        params.progress.completed += 1;
+        params.progress.report({
+          completed: params.progress.completed,
+          total: params.progress.total,
+        });
+      }
+    });
+    await runWithConcurrency(tasks, this.getIndexConcurrency());
+
+    const staleRows = this.db
+      .prepare(`SELECT path FROM files WHERE source = ?`)
+      .all("knowledge") as Array<{ path: string }>;
+    for (const stale of staleRows) {
+      if (activePaths.has(stale.path)) {
+        continue;
+      }
+      this.db
+        .prepare(`DELETE FROM files WHERE path = ? AND source = ?`)
+        .run(stale.path, "knowledge");
+      try {
+        this.db
+          .prepare(
+            `DELETE FROM ${VECTOR_TABLE} WHERE id IN (SELECT id FROM chunks WHERE path = ? AND source = ?)`,
+          )
+          .run(stale.path, "knowledge");
+      } catch {}
+      this.db
+        .prepare(`DELETE FROM chunks WHERE path = ? AND source = ?`)
+        .run(stale.path, "knowledge");
+      if (this.fts.enabled && this.fts.available) {
+        try {
+          this.db
+            .prepare(`DELETE FROM ${FTS_TABLE} WHERE path = ? AND source = ? AND model = ?`)
+            .run(stale.path, "knowledge", this.provider.model);
+        } catch {}
+      }
+    }
+  }
+
   private createSyncProgress(
     onProgress: (update: MemorySyncProgressUpdate) => void,
   ): MemorySyncProgressState {
@@ -789,12 +912,18 @@ class MemoryManagerSyncOps {
       const shouldSyncMemory =
         this.sources.has("memory") && (params?.force || needsFullReindex || this.dirty);
       const shouldSyncSessions = this.shouldSyncSessions(params, needsFullReindex);
+      const shouldSyncKnowledge = this.shouldSyncKnowledge(params, needsFullReindex);
 
       if (shouldSyncMemory) {
         await this.syncMemoryFiles({ needsFullReindex, progress: progress ?? undefined });
         this.dirty = false;
       }
 
+      if (shouldSyncKnowledge) {
+        this.knowledgeDirty = false;
+        await this.syncKnowledgeEntries({ needsFullReindex, progress: progress ?? undefined });
+      }
+
       if (shouldSyncSessions) {
         await this.syncSessionFiles({ needsFullReindex, progress: progress ?? undefined });
         this.sessionsDirty = false;
@@ -946,6 +1075,11 @@ class MemoryManagerSyncOps {
         this.dirty = false;
       }
 
+      if (this.sources.has("knowledge")) {
+        this.knowledgeDirty = false;
+        await this.syncKnowledgeEntries({ needsFullReindex: true, progress: params.progress });
+      }
+
       if (shouldSyncSessions) {
         await this.syncSessionFiles({ needsFullReindex: true, progress: params.progress });
         this.sessionsDirty = false;
@@ -1012,6 +1146,11 @@ class MemoryManagerSyncOps {
       this.dirty = false;
     }
 
+    if (this.sources.has("knowledge")) {
+      this.knowledgeDirty = false;
+      await this.syncKnowledgeEntries({ needsFullReindex: true, progress: params.progress });
+    }
+
     if (shouldSyncSessions) {
       await this.syncSessionFiles({ needsFullReindex: true, progress: params.progress });
       this.sessionsDirty = false;
@@ -0,0 +1,130 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveKnowledgeStorePath, withKnowledgeStore } from "../knowledge/store.js";
+import { getMemorySearchManager, type MemoryIndexManager } from "./index.js";
+import { parseKnowledgePath, knowledgePathForEntry } from "./knowledge-files.js";
+
+vi.mock("chokidar", () => ({
+  default: {
+    watch: () => ({ on: () => {}, close: async () => {} }),
+  },
+  watch: () => ({ on: () => {}, close: async () => {} }),
+}));
+
+vi.mock("./sqlite-vec.js", () => ({
+  loadSqliteVecExtension: async () => ({ ok: false, error: "sqlite-vec disabled in tests" }),
+}));
+
+vi.mock("./embeddings.js", () => {
+  const embedText = (text: string) => {
+    const lower = text.toLowerCase();
+    return [lower.split("alpha").length - 1, lower.split("beta").length - 1];
+  };
+  return {
+    createEmbeddingProvider: async (options: { model?: string }) => ({
+      requestedProvider: "openai",
+      provider: {
+        id: "mock",
+        model: options.model ?? "mock-embed",
+        embedQuery: async (text: string) => embedText(text),
+        embedBatch: async (texts: string[]) => texts.map(embedText),
+      },
+    }),
+  };
+});
+
+describe("memory index knowledge source", () => {
+  let workspaceDir = "";
+  let manager: MemoryIndexManager | null = null;
+
+  beforeEach(async () => {
+    vi.stubEnv("OPENCLAW_TEST_MEMORY_UNSAFE_REINDEX", "1");
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-knowledge-"));
+    await withKnowledgeStore(resolveKnowledgeStorePath(workspaceDir), (store) => {
+      store.set({
+        category: "contacts",
+        key: "ada",
+        data: { name: "Ada", note: "alpha project lead" },
+        tags: ["vip"],
+      });
+      store.set({ category: "secrets", key: "vault", data: { note: "alpha launch codes" } });
+    });
+    const result = await getMemorySearchManager({
+      cfg: {
+        agents: {
+          defaults: {
+            workspace: workspaceDir,
+            memorySearch: {
+              provider: "openai",
+              model: "mock-embed",
+              sources: ["memory", "knowledge"],
+              knowledge: { categories: ["contacts"] },
+              store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+              chunking: { tokens: 4000, overlap: 0 },
+              sync: { watch: false, onSessionStart: false, onSearch: false },
+              query: { minScore: 0, hybrid: { enabled: false } },
+            },
+          },
+          list: [{ id: "main", default: true }],
+        },
+      },
+      agentId: "main",
+    });
+    manager = result.manager as MemoryIndexManager;
+  });
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = null;
+    vi.unstubAllEnvs();
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("indexes opted-in categories and reads entries back by path", async () => {
+    if (!manager) {
+      throw new Error("manager missing");
+    }
+    await manager.sync({ reason: "test" });
+    const results = await manager.search("alpha");
+    expect(results.map((result) => result.path)).toEqual(["knowledge/contacts/ada"]);
+    expect(results[0]?.source).toBe("knowledge");
+    expect(results[0]?.snippet).toContain("alpha project lead");
+
+    const read = await manager.readFile({ relPath: "knowledge/contacts/ada" });
+    expect(read.text).toContain("# contacts/ada");
+    expect(read.text).toContain("Tags: vip");
+    await expect(manager.readFile({ relPath: "knowledge/secrets/vault" })).rejects.toThrow(
+      'knowledge category "secrets" is not enabled for memory indexing',
+    );
+  });
+
+  it("marks the index dirty on knowledge_store writes and drops deleted entries", async () => {
+    if (!manager) {
+      throw new Error("manager missing");
+    }
+    await manager.sync({ reason: "test" });
+    expect(manager.status().dirty).toBe(false);
+
+    const dbPath = resolveKnowledgeStorePath(workspaceDir);
+    await withKnowledgeStore(dbPath, (store) =>
+      store.set({ category: "secrets", key: "other", data: { note: "beta" } }),
+    );
+    expect(manager.status().dirty).toBe(false);
+
+    await withKnowledgeStore(dbPath, (store) => store.delete("contacts", "ada"));
+    expect(manager.status().dirty).toBe(true);
+    await manager.sync({ reason: "test" });
+    expect(await manager.search("alpha")).toEqual([]);
+  });
+});
+
+describe("knowledge index paths", () => {
+  it("round-trips categories and keys with reserved characters", () => {
+    const relPath = knowledgePathForEntry("people/work", "sean #1");
+    expect(relPath).toBe("knowledge/people%2Fwork/sean%20%231");
+    expect(parseKnowledgePath(relPath)).toEqual({ category: "people/work", key: "sean #1" });
+    expect(parseKnowledgePath("memory/notes.md")).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@ import type { OpenClawConfig } from "../config/config.js";
 import type {
   MemoryEmbeddingProbeResult,
   MemoryProviderStatus,
+  MemorySearchFilter,
   MemorySearchManager,
   MemorySearchResult,
   MemorySource,
@@ -14,7 +15,9 @@ import type {
 } from "./types.js";
 import { resolveAgentDir, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
 import { resolveMemorySearchConfig } from "../agents/memory-search.js";
+import { formatErrorMessage } from "../infra/errors.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import {
   createEmbeddingProvider,
   type EmbeddingProvider,
@@ -25,9 +28,19 @@ import {
 } from "./embeddings.js";
 import { bm25RankToScore, buildFtsQuery, mergeHybridResults } from "./hybrid.js";
 import { isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
+import { parseKnowledgePath, readKnowledgeEntry, renderKnowledgeEntry } from "./knowledge-files.js";
 import { memoryManagerEmbeddingOps } from "./manager-embedding-ops.js";
 import { searchKeyword, searchVector } from "./manager-search.js";
 import { memoryManagerSyncOps } from "./manager-sync-ops.js";
+import { rankMemoryResults } from "./ranking.js";
+import { createMemoryReranker, type MemoryReranker } from "./rerank.js";
+import {
+  hasSessionScopeFilter,
+  loadSessionTranscriptScopes,
+  matchesMemorySearchFilter,
+  normalizeMemorySearchFilter,
+  sessionTranscriptId,
+} from "./search-filter.js";
 const SNIPPET_MAX_CHARS = 700;
 const VECTOR_TABLE = "chunks_vec";
 const FTS_TABLE = "chunks_fts";
@@ -47,8 +60,8 @@ export class MemoryIndexManager implements MemorySearchManager {
   private readonly workspaceDir: string;
   private readonly settings: ResolvedMemorySearchConfig;
   private provider: EmbeddingProvider;
-  private readonly requestedProvider: "openai" | "local" | "gemini" | "voyage" | "auto";
-  private fallbackFrom?: "openai" | "local" | "gemini" | "voyage";
+  private readonly requestedProvider: "openai" | "local" | "onnx" | "gemini" | "voyage" | "auto";
+  private fallbackFrom?: "openai" | "local" | "onnx" | "gemini" | "voyage";
   private fallbackReason?: string;
   private openAi?: OpenAiEmbeddingClient;
   private gemini?: GeminiEmbeddingClient;
@@ -80,15 +93,20 @@ export class MemoryIndexManager implements MemorySearchManager {
     available: boolean;
     loadError?: string;
   };
+  private reranker: MemoryReranker | null = null;
+  private rerankLastError?: string;
   private vectorReady: Promise<boolean> | null = null;
   private watcher: FSWatcher | null = null;
   private watchTimer: NodeJS.Timeout | null = null;
   private sessionWatchTimer: NodeJS.Timeout | null = null;
   private sessionUnsubscribe: (() => void) | null = null;
+  private knowledgeWatchTimer: NodeJS.Timeout | null = null;
+  private knowledgeUnsubscribe: (() => void) | null = null;
   private intervalTimer: NodeJS.Timeout | null = null;
   private closed = false;
   private dirty = false;
   private sessionsDirty = false;
+  private knowledgeDirty = false;
   private sessionsDirtyFiles = new Set<string>();
   private sessionPendingFiles = new Set<string>();
   private sessionDeltas = new Map<
@@ -122,6 +140,7 @@ export class MemoryIndexManager implements MemorySearchManager {
       model: settings.model,
       fallback: settings.fallback,
       local: settings.local,
+      onnx: settings.onnx,
     });
     const manager = new MemoryIndexManager({
       cacheKey: key,
@@ -177,10 +196,24 @@ export class MemoryIndexManager implements MemorySearchManager {
     }
     this.ensureWatcher();
     this.ensureSessionListener();
+    this.ensureKnowledgeListener();
     this.ensureIntervalSync();
     const statusOnly = params.purpose === "status";
     this.dirty = this.sources.has("memory") && (statusOnly ? !meta : true);
+    this.knowledgeDirty = this.sources.has("knowledge") && (statusOnly ? !meta : true);
     this.batch = this.resolveBatchConfig();
+    if (params.settings.query.rerank.enabled) {
+      try {
+        this.reranker = createMemoryReranker({
+          cfg: params.cfg,
+          settings: params.settings.query.rerank,
+          providerResult: params.providerResult,
+        });
+      } catch (err) {
+        this.rerankLastError = formatErrorMessage(err);
+        log.warn(`memory rerank disabled: ${this.rerankLastError}`);
+      }
+    }
   }
 
   async warmSession(sessionKey?: string): Promise<void> {
@@ -205,10 +238,11 @@ export class MemoryIndexManager implements MemorySearchManager {
       maxResults?: number;
       minScore?: number;
       sessionKey?: string;
+      filter?: MemorySearchFilter;
     },
   ): Promise<MemorySearchResult[]> {
     void this.warmSession(opts?.sessionKey);
-    if (this.settings.sync.onSearch && (this.dirty || this.sessionsDirty)) {
+    if (this.settings.sync.onSearch && (this.dirty || this.sessionsDirty || this.knowledgeDirty)) {
       void this.sync({ reason: "search" }).catch((err) => {
         log.warn(`memory sync failed (search): ${String(err)}`);
       });
@@ -217,6 +251,11 @@ export class MemoryIndexManager implements MemorySearchManager {
     if (!cleaned) {
       return [];
     }
+    const filter = normalizeMemorySearchFilter(opts?.filter);
+    const scopedPaths = filter ? this.resolveFilteredPaths(filter) : undefined;
+    if (scopedPaths?.length === 0) {
+      return [];
+    }
     const minScore = opts?.minScore ?? this.settings.query.minScore;
     const maxResults = opts?.maxResults ?? this.settings.query.maxResults;
     const hybrid = this.settings.query.hybrid;
@@ -226,32 +265,89 @@ export class MemoryIndexManager implements MemorySearchManager {
     );
 
     const keywordResults = hybrid.enabled
-      ? await this.searchKeyword(cleaned, candidates).catch(() => [])
+      ? await this.searchKeyword(cleaned, candidates, scopedPaths).catch(() => [])
       : [];
 
     const queryVec = (await this.embedQueryWithTimeout(cleaned)) as number[];
     const hasVector = queryVec.some((v) => v !== 0);
     const vectorResults = hasVector
-      ? await this.searchVector(queryVec, candidates).catch(() => [])
+      ? await this.searchVector(queryVec, candidates, scopedPaths).catch(() => [])
       : [];
 
-    if (!hybrid.enabled) {
-      return vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults);
-    }
+    const merged = hybrid.enabled
+      ? this.mergeHybridResults({
+          vector: vectorResults,
+          keyword: keywordResults,
+          vectorWeight: hybrid.vectorWeight,
+          textWeight: hybrid.textWeight,
+        })
+      : vectorResults;
 
-    const merged = this.mergeHybridResults({
-      vector: vectorResults,
-      keyword: keywordResults,
-      vectorWeight: hybrid.vectorWeight,
-      textWeight: hybrid.textWeight,
+    const ranked = await rankMemoryResults({
+      results: merged,
+      query: cleaned,
+      settings: this.settings.query,
+      maxResults,
+      minScore,
+      loadMtimes: (paths) => this.loadFileMtimes(paths),
+      rerank: this.reranker ? async (q, results) => await this.rerank(q, results) : undefined,
     });
+    return ranked;
+  }
 
-    return merged.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+  /** Indexed paths that pass `filter`; search queries are then restricted to them. */
+  private resolveFilteredPaths(filter: MemorySearchFilter): string[] {
+    const sourceFilter = this.buildSourceFilter();
+    const rows = this.db
+      .prepare(`SELECT path, source, mtime FROM files WHERE 1 = 1${sourceFilter.sql}`)
+      .all(...sourceFilter.params) as Array<{ path: string; source: MemorySource; mtime: number }>;
+    const sessions =
+      hasSessionScopeFilter(filter) && rows.some((row) => row.source === "sessions")
+        ? loadSessionTranscriptScopes({ cfg: this.cfg, agentId: this.agentId })
+        : undefined;
+    return rows
+      .filter((row) =>
+        matchesMemorySearchFilter(filter, {
+          path: row.path,
+          source: row.source,
+          mtimeMs: row.mtime,
+          session:
+            row.source === "sessions" ? sessions?.get(sessionTranscriptId(row.path)) : undefined,
+        }),
+      )
+      .map((row) => row.path);
+  }
+
+  private loadFileMtimes(paths: string[]): Map<string, number> {
+    const rows = this.db
+      .prepare(`SELECT path, mtime FROM files WHERE path IN (${paths.map(() => "?").join(", ")})`)
+      .all(...paths) as Array<{ path: string; mtime: number }>;
+    return new Map(rows.map((row) => [row.path, row.mtime]));
+  }
+
+  /** Rerank scores for `results`; on failure keep the hybrid order (empty scores). */
+  private async rerank(query: string, results: MemorySearchResult[]): Promise<number[]> {
+    if (!this.reranker) {
+      return [];
+    }
+    try {
+      const scores = await this.reranker.rerank(
+        query,
+        results.map((entry) => entry.snippet),
+      );
+      this.rerankLastError = undefined;
+      return scores;
+    } catch (err) {
+      this.rerankLastError = formatErrorMessage(err);
+      log.warn(`memory rerank failed: ${this.rerankLastError}`);
+      return [];
+    }
   }
 
   private async searchVector(
     queryVec: number[],
     limit: number,
+    paths?: string[],
   ): Promise<Array<MemorySearchResult & { id: string }>> {
     const results = await searchVector({
       db: this.db,
@@ -261,8 +357,8 @@ export class MemoryIndexManager implements MemorySearchManager {
       limit,
       snippetMaxChars: SNIPPET_MAX_CHARS,
       ensureVectorReady: async (dimensions) => await this.ensureVectorReady(dimensions),
-      sourceFilterVec: this.buildSourceFilter("c"),
-      sourceFilterChunks: this.buildSourceFilter(),
+      sourceFilterVec: this.buildSourceFilter("c", paths),
+      sourceFilterChunks: this.buildSourceFilter(undefined, paths),
     });
     return results.map((entry) => entry as MemorySearchResult & { id: string });
   }
@@ -274,11 +370,12 @@ export class MemoryIndexManager implements MemorySearchManager {
   private async searchKeyword(
     query: string,
     limit: number,
+    paths?: string[],
   ): Promise<Array<MemorySearchResult & { id: string; textScore: number }>> {
     if (!this.fts.enabled || !this.fts.available) {
       return [];
     }
-    const sourceFilter = this.buildSourceFilter();
+    const sourceFilter = this.buildSourceFilter(undefined, paths);
     const results = await searchKeyword({
       db: this.db,
       ftsTable: FTS_TABLE,
@@ -332,12 +429,42 @@ export class MemoryIndexManager implements MemorySearchManager {
     if (this.syncing) {
       return this.syncing;
     }
-    this.syncing = this.runSync(params).finally(() => {
-      this.syncing = null;
-    });
+    const startedAt = Date.now();
+    this.syncing = this.runSync(params)
+      .then(() => this.emitIndexed(params, Date.now() - startedAt))
+      .finally(() => {
+        this.syncing = null;
+      });
     return this.syncing ?? Promise.resolve();
   }
 
+  private emitIndexed(
+    params: { reason?: string; force?: boolean } | undefined,
+    durationMs: number,
+  ) {
+    const hookRunner = getGlobalHookRunner();
+    if (!hookRunner?.hasHooks("memory_indexed")) {
+      return;
+    }
+    const { files, chunks } = this.status();
+    void hookRunner
+      .runMemoryIndexed(
+        {
+          reason: params?.reason,
+          force: params?.force,
+          provider: this.provider.id,
+          model: this.provider.model,
+          files: files ?? 0,
+          chunks: chunks ?? 0,
+          durationMs,
+        },
+        { agentId: this.agentId, workspaceDir: this.workspaceDir },
+      )
+      .catch((err) => {
+        log.warn(`memory_indexed hook failed: ${formatErrorMessage(err)}`);
+      });
+  }
+
   async readFile(params: {
     relPath: string;
     from?: number;
@@ -347,6 +474,10 @@ export class MemoryIndexManager implements MemorySearchManager {
     if (!rawPath) {
       throw new Error("path required");
     }
+    const knowledgeRef = this.sources.has("knowledge") ? parseKnowledgePath(rawPath) : null;
+    if (knowledgeRef) {
+      return await this.readKnowledgeFile(rawPath, knowledgeRef, params);
+    }
     const absPath = path.isAbsolute(rawPath)
       ? path.resolve(rawPath)
       : path.resolve(this.workspaceDir, rawPath);
@@ -403,6 +534,31 @@ export class MemoryIndexManager implements MemorySearchManager {
     return { text: slice.join("\n"), path: relPath };
   }
 
+  private async readKnowledgeFile(
+    relPath: string,
+    ref: { category: string; key: string },
+    params: { from?: number; lines?: number },
+  ): Promise<{ text: string; path: string }> {
+    const categories = this.settings.knowledge.categories;
+    if (categories && !categories.includes(ref.category)) {
+      throw new Error(
+        `knowledge category "${ref.category}" is not enabled for memory indexing (memorySearch.knowledge.categories)`,
+      );
+    }
+    const entry = await readKnowledgeEntry(this.workspaceDir, ref.category, ref.key);
+    if (!entry) {
+      throw new Error(`knowledge entry not found: ${ref.category}/${ref.key}`);
+    }
+    const content = renderKnowledgeEntry(entry);
+    if (!params.from && !params.lines) {
+      return { text: content, path: relPath };
+    }
+    const lines = content.split("\n");
+    const start = Math.max(1, params.from ?? 1);
+    const count = Math.max(1, params.lines ?? lines.length);
+    return { text: lines.slice(start - 1, start - 1 + count).join("\n"), path: relPath };
+  }
+
   status(): MemoryProviderStatus {
     const sourceFilter = this.buildSourceFilter();
     const files = this.db
@@ -450,7 +606,7 @@ export class MemoryIndexManager implements MemorySearchManager {
       backend: "builtin",
       files: files?.c ?? 0,
       chunks: chunks?.c ?? 0,
-      dirty: this.dirty || this.sessionsDirty,
+      dirty: this.dirty || this.sessionsDirty || this.knowledgeDirty,
       workspaceDir: this.workspaceDir,
       dbPath: this.settings.store.path,
       provider: this.provider.id,
@@ -486,6 +642,21 @@ export class MemoryIndexManager implements MemorySearchManager {
         loadError: this.vector.loadError,
         dims: this.vector.dims,
       },
+      ranking: {
+        rerank: {
+          enabled: this.settings.query.rerank.enabled,
+          mode: this.settings.query.rerank.mode,
+          model: this.reranker?.model ?? this.settings.query.rerank.model,
+          available: this.settings.query.rerank.enabled ? this.reranker !== null : undefined,
+          lastError: this.rerankLastError,
+        },
+        mmr: { ...this.settings.query.mmr },
+        recency: {
+          ...this.settings.query.recency,
+          sources: [...this.settings.query.recency.sources],
+        },
+        sourceBoosts: { ...this.settings.query.sourceBoosts },
+      },
       batch: {
         enabled: this.batch.enabled,
         failures: this.batchFailureCount,
@@ -530,6 +701,10 @@ export class MemoryIndexManager implements MemorySearchManager {
       clearTimeout(this.sessionWatchTimer);
       this.sessionWatchTimer = null;
     }
+    if (this.knowledgeWatchTimer) {
+      clearTimeout(this.knowledgeWatchTimer);
+      this.knowledgeWatchTimer = null;
+    }
     if (this.intervalTimer) {
       clearInterval(this.intervalTimer);
       this.intervalTimer = null;
@@ -542,6 +717,10 @@ export class MemoryIndexManager implements MemorySearchManager {
       this.sessionUnsubscribe();
       this.sessionUnsubscribe = null;
     }
+    if (this.knowledgeUnsubscribe) {
+      this.knowledgeUnsubscribe();
+      this.knowledgeUnsubscribe = null;
+    }
     this.db.close();
     INDEX_CACHE.delete(this.cacheKey);
   }
@@ -0,0 +1,3 @@
+export async function importOnnxRuntime() {
+  return import("onnxruntime-node");
+}
@@ -7,6 +7,7 @@ import type { OpenClawConfig } from "../config/config.js";
 import type {
   MemoryEmbeddingProbeResult,
   MemoryProviderStatus,
+  MemorySearchFilter,
   MemorySearchManager,
   MemorySearchResult,
   MemorySource,
@@ -16,6 +17,14 @@ import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
 import { resolveStateDir } from "../config/paths.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { deriveQmdScopeChannel, deriveQmdScopeChatType, isQmdScopeAllowed } from "./qmd-scope.js";
+import {
+  hasSessionScopeFilter,
+  loadSessionTranscriptScopes,
+  matchesMemorySearchFilter,
+  normalizeMemorySearchFilter,
+  sessionTranscriptId,
+  type SessionTranscriptScope,
+} from "./search-filter.js";
 import {
   listSessionFilesForAgent,
   buildSessionEntry,
@@ -32,6 +41,7 @@ const log = createSubsystemLogger("memory");
 const SNIPPET_HEADER_RE = /@@\s*-([0-9]+),([0-9]+)/;
 const SEARCH_PENDING_UPDATE_WAIT_MS = 500;
 const MAX_QMD_OUTPUT_CHARS = 200_000;
+const QMD_FILTER_OVERFETCH = 4;
 const NUL_MARKER_RE = /(?:\^@|\\0|\\x00|\\u0000|null\s*byte|nul\s*byte)/i;
 
 type CollectionRoot = {
@@ -383,7 +393,12 @@ export class QmdMemoryManager implements MemorySearchManager {
 
   async search(
     query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
+    opts?: {
+      maxResults?: number;
+      minScore?: number;
+      sessionKey?: string;
+      filter?: MemorySearchFilter;
+    },
   ): Promise<MemorySearchResult[]> {
     if (!this.isScopeAllowed(opts?.sessionKey)) {
       this.logScopeDenied(opts?.sessionKey);
@@ -398,6 +413,9 @@ export class QmdMemoryManager implements MemorySearchManager {
       this.qmd.limits.maxResults,
       opts?.maxResults ?? this.qmd.limits.maxResults,
     );
+    const filter = normalizeMemorySearchFilter(opts?.filter);
+    // QMD has no structured filters: over-fetch, then filter the resolved documents.
+    const fetchLimit = filter ? limit * QMD_FILTER_OVERFETCH : limit;
     const collectionNames = this.listManagedCollectionNames();
     if (collectionNames.length === 0) {
       log.warn("qmd query skipped: no managed collections configured");
@@ -407,9 +425,9 @@ export class QmdMemoryManager implements MemorySearchManager {
     let parsed: QmdQueryResult[];
     try {
       if (qmdSearchCommand === "query" && collectionNames.length > 1) {
-        parsed = await this.runQueryAcrossCollections(trimmed, limit, collectionNames);
+        parsed = await this.runQueryAcrossCollections(trimmed, fetchLimit, collectionNames);
       } else {
-        const args = this.buildSearchArgs(qmdSearchCommand, trimmed, limit);
+        const args = this.buildSearchArgs(qmdSearchCommand, trimmed, fetchLimit);
         args.push(...this.buildCollectionFilterArgs(collectionNames));
         // Always scope to managed collections (default + custom). Even for `search`/`vsearch`,
         // pass collection filters; if a given QMD build rejects these flags, we fall back to `query`.
@@ -423,9 +441,9 @@ export class QmdMemoryManager implements MemorySearchManager {
         );
         try {
           if (collectionNames.length > 1) {
-            parsed = await this.runQueryAcrossCollections(trimmed, limit, collectionNames);
+            parsed = await this.runQueryAcrossCollections(trimmed, fetchLimit, collectionNames);
           } else {
-            const fallbackArgs = this.buildSearchArgs("query", trimmed, limit);
+            const fallbackArgs = this.buildSearchArgs("query", trimmed, fetchLimit);
             fallbackArgs.push(...this.buildCollectionFilterArgs(collectionNames));
             const fallback = await this.runQmd(fallbackArgs, {
               timeoutMs: this.qmd.limits.timeoutMs,
@@ -442,11 +460,15 @@ export class QmdMemoryManager implements MemorySearchManager {
       }
     }
     const results: MemorySearchResult[] = [];
+    const filterState = { sessions: undefined as Map<string, SessionTranscriptScope> | undefined };
     for (const entry of parsed) {
       const doc = await this.resolveDocLocation(entry.docid);
       if (!doc) {
         continue;
       }
+      if (filter && !(await this.matchesSearchFilter(filter, doc, filterState))) {
+        continue;
+      }
       const snippet = entry.snippet?.slice(0, this.qmd.limits.maxSnippetChars) ?? "";
       const lines = this.extractSnippetLines(snippet);
       const score = typeof entry.score === "number" ? entry.score : 0;
@@ -982,6 +1004,31 @@ export class QmdMemoryManager implements MemorySearchManager {
     }
   }
 
+  private async matchesSearchFilter(
+    filter: MemorySearchFilter,
+    doc: { rel: string; abs: string; source: MemorySource },
+    state: { sessions?: Map<string, SessionTranscriptScope> },
+  ): Promise<boolean> {
+    let mtimeMs: number | undefined;
+    if (filter.modifiedAfter !== undefined || filter.modifiedBefore !== undefined) {
+      mtimeMs = await fs
+        .stat(doc.abs)
+        .then((stat) => stat.mtimeMs)
+        .catch(() => undefined);
+    }
+    let session: SessionTranscriptScope | undefined;
+    if (doc.source === "sessions" && hasSessionScopeFilter(filter)) {
+      state.sessions ??= loadSessionTranscriptScopes({ cfg: this.cfg, agentId: this.agentId });
+      session = state.sessions.get(sessionTranscriptId(doc.abs));
+    }
+    return matchesMemorySearchFilter(filter, {
+      path: doc.rel,
+      source: doc.source,
+      mtimeMs,
+      session,
+    });
+  }
+
   private logScopeDenied(sessionKey?: string): void {
     const channel = deriveQmdScopeChannel(sessionKey) ?? "unknown";
     const chatType = deriveQmdScopeChatType(sessionKey) ?? "unknown";
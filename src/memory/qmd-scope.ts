@@ -4,6 +4,7 @@ import { parseAgentSessionKey } from "../sessions/session-key-utils.js";
 type ParsedQmdSessionScope = {
   channel?: string;
   chatType?: "channel" | "group" | "direct";
+  peer?: string;
   normalizedKey?: string;
 };
 
@@ -54,6 +55,10 @@ export function deriveQmdScopeChannel(key?: string): string | undefined {
   return parseQmdSessionScope(key).channel;
 }
 
+export function deriveQmdScopePeer(key?: string): string | undefined {
+  return parseQmdSessionScope(key).peer;
+}
+
 export function deriveQmdScopeChatType(key?: string): "channel" | "group" | "direct" | undefined {
   return parseQmdSessionScope(key).chatType;
 }
@@ -78,15 +83,24 @@ function parseQmdSessionScope(key?: string): ParsedQmdSessionScope {
       normalizedKey: normalized,
       channel: parts[0]?.toLowerCase(),
       chatType: chatType ?? "direct",
+      peer: derivePeer(parts),
     };
   }
   if (normalized.includes(":group:")) {
-    return { normalizedKey: normalized, chatType: "group" };
+    return { normalizedKey: normalized, chatType: "group", peer: derivePeer(parts) };
   }
   if (normalized.includes(":channel:")) {
-    return { normalizedKey: normalized, chatType: "channel" };
+    return { normalizedKey: normalized, chatType: "channel", peer: derivePeer(parts) };
   }
-  return { normalizedKey: normalized, chatType: "direct" };
+  return { normalizedKey: normalized, chatType: "direct", peer: derivePeer(parts) };
+}
+
+/** Peer id follows the chat-type segment (`telegram:direct:42`, `discord:group:123:thread:9`). */
+function derivePeer(parts: string[]): string | undefined {
+  const index = parts.findIndex(
+    (part) => part === "direct" || part === "dm" || part === "group" || part === "channel",
+  );
+  return index >= 0 ? parts[index + 1] : undefined;
 }
 
 function normalizeQmdSessionKey(key?: string): string | undefined {
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
+import type { MemorySearchResult } from "./types.js";
+import { applyRecencyDecay, rankMemoryResults, selectWithMmr } from "./ranking.js";
+import { parseLlmRerankReply } from "./rerank.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function result(
+  path: string,
+  score: number,
+  snippet: string,
+  overrides: Partial<MemorySearchResult> = {},
+): MemorySearchResult {
+  return { path, startLine: 1, endLine: 5, score, snippet, source: "memory", ...overrides };
+}
+
+function settings(
+  overrides: Partial<ResolvedMemorySearchConfig["query"]> = {},
+): ResolvedMemorySearchConfig["query"] {
+  return {
+    maxResults: 3,
+    minScore: 0,
+    hybrid: { enabled: true, vectorWeight: 0.7, textWeight: 0.3, candidateMultiplier: 4 },
+    rerank: { enabled: false, mode: "llm", candidates: 20, weight: 0.7, timeoutMs: 1000 },
+    mmr: { enabled: false, lambda: 0.7 },
+    recency: { enabled: false, halfLifeDays: 14, sources: ["sessions"], minWeight: 0.2 },
+    sourceBoosts: { memory: 1, sessions: 1, knowledge: 1 },
+    ...overrides,
+  };
+}
+
+describe("memory ranking", () => {
+  it("selectWithMmr skips near-duplicate chunks", () => {
+    const picked = selectWithMmr(
+      [
+        result("memory/deploy.md", 0.9, "deploy the gateway with docker compose up"),
+        result("memory/deploy-copy.md", 0.89, "deploy the gateway with docker compose up -d"),
+        result("memory/deploy.md", 0.88, "deploy notes", { startLine: 3, endLine: 8 }),
+        result("memory/backup.md", 0.7, "nightly backups go to the nas"),
+      ],
+      { lambda: 0.7, limit: 2 },
+    );
+    expect(picked.map((entry) => entry.path)).toEqual(["memory/deploy.md", "memory/backup.md"]);
+  });
+
+  it("applyRecencyDecay halves scores per half-life for configured sources only", () => {
+    const nowMs = 100 * DAY_MS;
+    const decayed = applyRecencyDecay(
+      [
+        result("sessions/old.jsonl", 1, "a", { source: "sessions" }),
+        result("sessions/ancient.jsonl", 1, "b", { source: "sessions" }),
+        result("memory/old.md", 1, "c"),
+      ],
+      {
+        recency: { enabled: true, halfLifeDays: 10, sources: ["sessions"], minWeight: 0.2 },
+        mtimeByPath: new Map([
+          ["sessions/old.jsonl", nowMs - 10 * DAY_MS],
+          ["sessions/ancient.jsonl", nowMs - 90 * DAY_MS],
+          ["memory/old.md", nowMs - 90 * DAY_MS],
+        ]),
+        nowMs,
+      },
+    );
+    expect(decayed.map((entry) => entry.score)).toEqual([0.5, 0.2, 1]);
+  });
+
+  it("rankMemoryResults boosts, filters, reranks and trims", async () => {
+    const rerank = vi.fn(async () => [0.1, 1]);
+    const ranked = await rankMemoryResults({
+      results: [
+        result("memory/a.md", 0.8, "alpha"),
+        result("knowledge/b.md", 0.5, "beta", { source: "knowledge" }),
+        result("memory/c.md", 0.3, "gamma"),
+      ],
+      query: "beta",
+      settings: settings({
+        rerank: { enabled: true, mode: "llm", candidates: 2, weight: 0.5, timeoutMs: 1000 },
+        sourceBoosts: { memory: 1, sessions: 1, knowledge: 1.2 },
+      }),
+      maxResults: 2,
+      minScore: 0.35,
+      rerank,
+    });
+    expect(rerank).toHaveBeenCalledWith("beta", [
+      expect.objectContaining({ path: "memory/a.md" }),
+      expect.objectContaining({ path: "knowledge/b.md" }),
+    ]);
+    expect(ranked.map((entry) => entry.path)).toEqual(["knowledge/b.md", "memory/a.md"]);
+    expect(ranked[0]?.score).toBeCloseTo(0.8);
+  });
+
+  it("parseLlmRerankReply scales 0-10 scores and tolerates junk", () => {
+    expect(parseLlmRerankReply('Scores: [10, 2.5, "x"]', 4)).toEqual([
+      1,
+      0.25,
+      Number.NaN,
+      Number.NaN,
+    ]);
+    expect(parseLlmRerankReply("no idea", 1)).toEqual([Number.NaN]);
+  });
+});
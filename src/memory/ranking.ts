@@ -0,0 +1,166 @@
+import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
+import type { MemorySearchResult, MemorySource } from "./types.js";
+
+type RankingSettings = ResolvedMemorySearchConfig["query"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Multiply scores by the configured per-source boost. */
+export function applySourceBoosts<T extends MemorySearchResult>(
+  results: T[],
+  boosts: Record<MemorySource, number>,
+): T[] {
+  return results.map((entry) => {
+    const boost = boosts[entry.source] ?? 1;
+    return boost === 1 ? entry : { ...entry, score: entry.score * boost };
+  });
+}
+
+/**
+ * Exponential decay by file age for the configured sources; a result loses
+ * half its score every `halfLifeDays`, down to `minWeight`.
+ */
+export function applyRecencyDecay<T extends MemorySearchResult>(
+  results: T[],
+  params: {
+    recency: RankingSettings["recency"];
+    mtimeByPath: Map<string, number>;
+    nowMs: number;
+  },
+): T[] {
+  const { recency, mtimeByPath, nowMs } = params;
+  const sources = new Set<MemorySource>(recency.sources);
+  return results.map((entry) => {
+    const mtime = mtimeByPath.get(entry.path);
+    if (!sources.has(entry.source) || mtime === undefined) {
+      return entry;
+    }
+    const ageDays = Math.max(0, nowMs - mtime) / DAY_MS;
+    const weight = Math.max(recency.minWeight, 0.5 ** (ageDays / recency.halfLifeDays));
+    return { ...entry, score: entry.score * weight };
+  });
+}
+
+/** Blend reranker scores (0-1, aligned with `results`) into the retrieval scores. */
+export function blendRerankScores<T extends MemorySearchResult>(
+  results: T[],
+  scores: number[],
+  weight: number,
+): T[] {
+  return results
+    .map((entry, index) => {
+      const rerank = scores[index];
+      if (typeof rerank !== "number" || !Number.isFinite(rerank)) {
+        return entry;
+      }
+      return { ...entry, score: (1 - weight) * entry.score + weight * rerank };
+    })
+    .toSorted((a, b) => b.score - a.score);
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) {
+      shared += 1;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function overlapsLines(a: MemorySearchResult, b: MemorySearchResult): boolean {
+  return a.path === b.path && a.startLine <= b.endLine && b.startLine <= a.endLine;
+}
+
+/**
+ * Maximal marginal relevance: greedily pick the result with the best
+ * `lambda * score - (1 - lambda) * maxSimilarity`, where similarity is token
+ * overlap with the results already picked (overlapping line ranges in the
+ * same file count as identical).
+ */
+export function selectWithMmr<T extends MemorySearchResult>(
+  results: T[],
+  params: { lambda: number; limit: number },
+): T[] {
+  const remaining = results.map((entry) => ({ entry, tokens: tokenize(entry.snippet) }));
+  const picked: typeof remaining = [];
+  while (picked.length < params.limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = Number.NEGATIVE_INFINITY;
+    for (const [index, candidate] of remaining.entries()) {
+      let maxSimilarity = 0;
+      for (const chosen of picked) {
+        const similarity = overlapsLines(candidate.entry, chosen.entry)
+          ? 1
+          : jaccard(candidate.tokens, chosen.tokens);
+        maxSimilarity = Math.max(maxSimilarity, similarity);
+      }
+      const value = params.lambda * candidate.entry.score - (1 - params.lambda) * maxSimilarity;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    }
+    picked.push(remaining.splice(bestIndex, 1)[0]);
+  }
+  return picked.map((item) => item.entry);
+}
+
+/**
+ * Post-retrieval stage for merged hybrid candidates (sorted by score):
+ * source boosts and recency decay, `minScore` filtering, optional reranking
+ * of the top candidates, then MMR or plain top-N selection.
+ */
+export async function rankMemoryResults<T extends MemorySearchResult>(params: {
+  results: T[];
+  query: string;
+  settings: RankingSettings;
+  maxResults: number;
+  minScore: number;
+  nowMs?: number;
+  loadMtimes?: (paths: string[]) => Map<string, number>;
+  rerank?: (query: string, results: T[]) => Promise<number[]>;
+}): Promise<T[]> {
+  const { settings } = params;
+  let ranked = applySourceBoosts(params.results, settings.sourceBoosts);
+  if (settings.recency.enabled && params.loadMtimes) {
+    const paths = Array.from(
+      new Set(
+        ranked
+          .filter((entry) => settings.recency.sources.includes(entry.source))
+          .map((entry) => entry.path),
+      ),
+    );
+    if (paths.length > 0) {
+      ranked = applyRecencyDecay(ranked, {
+        recency: settings.recency,
+        mtimeByPath: params.loadMtimes(paths),
+        nowMs: params.nowMs ?? Date.now(),
+      });
+    }
+  }
+  ranked = ranked
+    .filter((entry) => entry.score >= params.minScore)
+    .toSorted((a, b) => b.score - a.score);
+
+  if (settings.rerank.enabled && params.rerank && ranked.length > 1) {
+    const head = ranked.slice(0, settings.rerank.candidates);
+    const scores = await params.rerank(params.query, head);
+    ranked = [
+      ...blendRerankScores(head, scores, settings.rerank.weight),
+      ...ranked.slice(head.length),
+    ];
+  }
+
+  if (settings.mmr.enabled) {
+    return selectWithMmr(ranked, { lambda: settings.mmr.lambda, limit: params.maxResults });
+  }
+  return ranked.slice(0, params.maxResults);
+}
@@ -0,0 +1,169 @@
+import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
+import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { EmbeddingProviderResult } from "./embeddings.js";
+import { getApiKeyForModel, requireApiKey } from "../agents/model-auth.js";
+import {
+  buildModelAliasIndex,
+  resolveDefaultModelForAgent,
+  resolveModelRefFromString,
+} from "../agents/model-selection.js";
+import { resolveModel } from "../agents/pi-embedded-runner/model.js";
+import { truncateUtf16Safe } from "../utils.js";
+
+export const DEFAULT_CROSS_ENCODER_MODEL = "rerank-2.5-lite";
+const LLM_SNIPPET_MAX_CHARS = 600;
+
+export type MemoryReranker = {
+  mode: "cross-encoder" | "llm";
+  model: string;
+  /** Relevance (0-1) of each document to the query, in input order. */
+  rerank: (query: string, documents: string[]) => Promise<number[]>;
+};
+
+type RerankSettings = ResolvedMemorySearchConfig["query"]["rerank"];
+
+async function withTimeout<T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await run(controller.signal);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function createCrossEncoderReranker(
+  settings: RerankSettings,
+  providerResult: Pick<EmbeddingProviderResult, "provider" | "voyage">,
+): MemoryReranker {
+  const client = providerResult.voyage;
+  if (!client) {
+    throw new Error(
+      `cross-encoder reranking needs the voyage embedding provider (current: ${providerResult.provider.id})`,
+    );
+  }
+  const model = settings.model ?? DEFAULT_CROSS_ENCODER_MODEL;
+  const url = `${client.baseUrl.replace(/\/$/, "")}/rerank`;
+  return {
+    mode: "cross-encoder",
+    model,
+    rerank: async (query, documents) =>
+      await withTimeout(settings.timeoutMs, async (signal) => {
+        const res = await fetch(url, {
+          method: "POST",
+          headers: client.headers,
+          body: JSON.stringify({ model, query, documents }),
+          signal,
+        });
+        if (!res.ok) {
+          const text = await res.text();
+          throw new Error(`voyage rerank failed: ${res.status} ${text}`);
+        }
+        const payload = (await res.json()) as {
+          data?: Array<{ index?: number; relevance_score?: number }>;
+        };
+        const scores: number[] = Array.from({ length: documents.length }, () => Number.NaN);
+        for (const entry of payload.data ?? []) {
+          if (typeof entry.index === "number" && typeof entry.relevance_score === "number") {
+            scores[entry.index] = entry.relevance_score;
+          }
+        }
+        return scores;
+      }),
+  };
+}
+
+export function buildLlmRerankPrompt(query: string, documents: string[]): string {
+  const numbered = documents.map(
+    (doc, index) => `[${index}]\n${truncateUtf16Safe(doc.trim(), LLM_SNIPPET_MAX_CHARS)}`,
+  );
+  return [
+    "Rate how well each passage answers the search query, from 0 (unrelated) to 10 (exact answer).",
+    `Reply with a JSON array of ${documents.length} numbers in passage order and nothing else.`,
+    "",
+    `Query: ${query}`,
+    "",
+    ...numbered,
+  ].join("\n");
+}
+
+/** Parse an LLM rerank reply into 0-1 scores; missing or invalid entries become NaN. */
+export function parseLlmRerankReply(raw: string, count: number): number[] {
+  const start = raw.indexOf("[");
+  const end = raw.lastIndexOf("]");
+  let parsed: unknown = null;
+  if (start >= 0 && end > start) {
+    try {
+      parsed = JSON.parse(raw.slice(start, end + 1));
+    } catch {
+      parsed = null;
+    }
+  }
+  const values = Array.isArray(parsed) ? parsed : [];
+  return Array.from({ length: count }, (_, index) => {
+    const value = values[index];
+    return typeof value === "number" && Number.isFinite(value)
+      ? Math.min(1, Math.max(0, value / 10))
+      : Number.NaN;
+  });
+}
+
+function isTextContentBlock(block: { type: string }): block is TextContent {
+  return block.type === "text";
+}
+
+function createLlmReranker(cfg: OpenClawConfig, settings: RerankSettings): MemoryReranker {
+  const defaultRef = resolveDefaultModelForAgent({ cfg });
+  const ref = settings.model
+    ? (resolveModelRefFromString({
+        raw: settings.model,
+        defaultProvider: defaultRef.provider,
+        aliasIndex: buildModelAliasIndex({ cfg, defaultProvider: defaultRef.provider }),
+      })?.ref ?? defaultRef)
+    : defaultRef;
+  return {
+    mode: "llm",
+    model: `${ref.provider}/${ref.model}`,
+    rerank: async (query, documents) => {
+      const resolved = resolveModel(ref.provider, ref.model, undefined, cfg);
+      const model = resolved.model;
+      if (!model) {
+        throw new Error(resolved.error ?? `Unknown rerank model: ${ref.provider}/${ref.model}`);
+      }
+      const apiKey = requireApiKey(await getApiKeyForModel({ model, cfg }), ref.provider);
+      const res = await withTimeout(
+        settings.timeoutMs,
+        async (signal) =>
+          await completeSimple(
+            model,
+            {
+              messages: [
+                {
+                  role: "user",
+                  content: buildLlmRerankPrompt(query, documents),
+                  timestamp: Date.now(),
+                },
+              ],
+            },
+            { apiKey, maxTokens: 20 + documents.length * 6, temperature: 0, signal },
+          ),
+      );
+      const reply = res.content
+        .filter(isTextContentBlock)
+        .map((block) => block.text)
+        .join("\n");
+      return parseLlmRerankReply(reply, documents.length);
+    },
+  };
+}
+
+export function createMemoryReranker(params: {
+  cfg: OpenClawConfig;
+  settings: RerankSettings;
+  providerResult: Pick<EmbeddingProviderResult, "provider" | "voyage">;
+}): MemoryReranker {
+  return params.settings.mode === "llm"
+    ? createLlmReranker(params.cfg, params.settings)
+    : createCrossEncoderReranker(params.settings, params.providerResult);
+}
@@ -0,0 +1,88 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { clearSessionStoreCacheForTest } from "../config/sessions/store.js";
+import {
+  loadSessionTranscriptScopes,
+  matchesMemoryPathGlob,
+  matchesMemorySearchFilter,
+  normalizeMemorySearchFilter,
+  parseMemoryDateBound,
+} from "./search-filter.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let tmpDir = "";
+
+afterEach(async () => {
+  clearSessionStoreCacheForTest();
+  if (tmpDir) {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+    tmpDir = "";
+  }
+});
+
+describe("memory search filters", () => {
+  it("matches globs and bare directory prefixes", () => {
+    expect(matchesMemoryPathGlob("memory/projects/acme/notes.md", "memory/projects/**")).toBe(true);
+    expect(matchesMemoryPathGlob("memory/projects/acme/notes.md", "memory/*/notes.md")).toBe(false);
+    expect(matchesMemoryPathGlob("memory/notes.md", "memory/**/notes.md")).toBe(true);
+    expect(matchesMemoryPathGlob("memory/projects/acme/a.md", "memory/projects/acme")).toBe(true);
+    expect(matchesMemoryPathGlob("memory/projects/acme2/a.md", "memory/projects/acme")).toBe(false);
+    expect(matchesMemoryPathGlob("sessions/abc.jsonl", "sessions/*.jsonl")).toBe(true);
+  });
+
+  it("parses ISO dates, epoch ms and relative ages", () => {
+    const nowMs = Date.UTC(2026, 1, 1);
+    expect(parseMemoryDateBound("30d", nowMs)).toBe(nowMs - 30 * DAY_MS);
+    expect(parseMemoryDateBound("2w", nowMs)).toBe(nowMs - 14 * DAY_MS);
+    expect(parseMemoryDateBound("2026-01-15", nowMs)).toBe(Date.UTC(2026, 0, 15));
+    expect(parseMemoryDateBound("1700000000000", nowMs)).toBe(1_700_000_000_000);
+    expect(parseMemoryDateBound(" ", nowMs)).toBeUndefined();
+    expect(() => parseMemoryDateBound("last tuesday", nowMs)).toThrow("invalid date");
+  });
+
+  it("scopes session transcripts by channel and peer but leaves other sources alone", async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-memory-filter-"));
+    const storePath = path.join(tmpDir, "sessions.json");
+    await fs.writeFile(
+      storePath,
+      JSON.stringify({
+        "agent:main:telegram:direct:42": { sessionId: "s-42", updatedAt: 1 },
+        "agent:main:main": {
+          sessionId: "s-main",
+          updatedAt: 1,
+          lastChannel: "whatsapp",
+          lastTo: "+15550001",
+        },
+      }),
+    );
+    const scopes = loadSessionTranscriptScopes({
+      cfg: { session: { store: storePath } },
+      agentId: "main",
+    });
+    const filter = normalizeMemorySearchFilter({
+      channel: "Telegram",
+      peer: "42",
+      pathInclude: [],
+    });
+    expect(filter).toEqual(expect.objectContaining({ channel: "telegram", peer: "42" }));
+    if (!filter) {
+      throw new Error("filter missing");
+    }
+    const session = (id: string) => ({
+      path: `sessions/${id}.jsonl`,
+      source: "sessions" as const,
+      session: scopes.get(id),
+    });
+    expect(matchesMemorySearchFilter(filter, session("s-42"))).toBe(true);
+    expect(matchesMemorySearchFilter(filter, session("s-main"))).toBe(false);
+    expect(matchesMemorySearchFilter(filter, session("unknown"))).toBe(false);
+    expect(matchesMemorySearchFilter(filter, { path: "memory/a.md", source: "memory" })).toBe(true);
+    expect(
+      matchesMemorySearchFilter({ peer: "+15550001", sources: ["sessions"] }, session("s-main")),
+    ).toBe(true);
+    expect(normalizeMemorySearchFilter({ pathInclude: [" "], channel: "" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,243 @@
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import type { MemorySearchFilter, MemorySource } from "./types.js";
+import { resolveStorePath } from "../config/sessions/paths.js";
+import { loadSessionStore } from "../config/sessions/store.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import { parseAgentSessionKey } from "../sessions/session-key-utils.js";
+import { deriveQmdScopeChannel, deriveQmdScopePeer } from "./qmd-scope.js";
+
+/** Who a session transcript belongs to, from its session store entry. */
+export type SessionTranscriptScope = {
+  sessionKey: string;
+  agentId: string;
+  channels: string[];
+  peers: string[];
+};
+
+export type MemorySearchFileInfo = {
+  path: string;
+  source: MemorySource;
+  mtimeMs?: number;
+  session?: SessionTranscriptScope;
+};
+
+const RELATIVE_AGE_RE = /^(\d+(?:\.\d+)?)\s*(m|h|d|w)$/i;
+const RELATIVE_AGE_UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse a date bound: epoch ms, an ISO date or timestamp, or a relative age
+ * such as `30d`, `12h` or `2w` (that long before `nowMs`).
+ */
+export function parseMemoryDateBound(
+  raw: string | number | undefined,
+  nowMs = Date.now(),
+): number | undefined {
+  if (typeof raw === "number") {
+    return Number.isFinite(raw) ? raw : undefined;
+  }
+  const trimmed = raw?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const relative = RELATIVE_AGE_RE.exec(trimmed);
+  if (relative) {
+    return nowMs - Number(relative[1]) * RELATIVE_AGE_UNIT_MS[relative[2].toLowerCase()];
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  const parsed = Date.parse(trimmed);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`invalid date "${trimmed}" (use an ISO date, epoch ms, or an age like 30d)`);
+  }
+  return parsed;
+}
+
+function cleanList(values?: string[]): string[] | undefined {
+  const cleaned = values?.map((value) => value.trim()).filter(Boolean);
+  return cleaned && cleaned.length > 0 ? cleaned : undefined;
+}
+
+function cleanValue(value?: string): string | undefined {
+  return value?.trim().toLowerCase() || undefined;
+}
+
+/** Trim the filter and drop empty fields; undefined when nothing constrains the search. */
+export function normalizeMemorySearchFilter(
+  filter?: MemorySearchFilter,
+): MemorySearchFilter | undefined {
+  if (!filter) {
+    return undefined;
+  }
+  const normalized: MemorySearchFilter = {
+    pathInclude: cleanList(filter.pathInclude),
+    pathExclude: cleanList(filter.pathExclude),
+    modifiedAfter: Number.isFinite(filter.modifiedAfter) ? filter.modifiedAfter : undefined,
+    modifiedBefore: Number.isFinite(filter.modifiedBefore) ? filter.modifiedBefore : undefined,
+    sources: filter.sources && filter.sources.length > 0 ? filter.sources : undefined,
+    agentId: filter.agentId?.trim() ? normalizeAgentId(filter.agentId) : undefined,
+    channel: cleanValue(filter.channel),
+    peer: cleanValue(filter.peer),
+    sessionKey: cleanValue(filter.sessionKey),
+  };
+  const hasConstraint = Object.values(normalized).some((value) => value !== undefined);
+  return hasConstraint ? normalized : undefined;
+}
+
+export function hasSessionScopeFilter(filter: MemorySearchFilter): boolean {
+  return Boolean(filter.agentId || filter.channel || filter.peer || filter.sessionKey);
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Path glob: `**` spans directories, `*` and `?` stay within one segment. A
+ * pattern without wildcards matches that path or anything below it.
+ */
+export function matchesMemoryPathGlob(value: string, pattern: string): boolean {
+  const normalizedValue = value.replace(/\\/g, "/").replace(/^\.\//, "");
+  const normalizedPattern = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+  if (!/[*?]/.test(normalizedPattern)) {
+    const prefix = normalizedPattern.replace(/\/+$/, "");
+    return normalizedValue === prefix || normalizedValue.startsWith(`${prefix}/`);
+  }
+  let regex = globCache.get(normalizedPattern);
+  if (!regex) {
+    const source = normalizedPattern
+      .split(/(\*\*\/?|\*|\?)/)
+      .map((part) => {
+        if (part === "**/") {
+          return "(?:.*/)?";
+        }
+        if (part === "**") {
+          return ".*";
+        }
+        if (part === "*") {
+          return "[^/]*";
+        }
+        if (part === "?") {
+          return "[^/]";
+        }
+        return escapeRegex(part);
+      })
+      .join("");
+    regex = new RegExp(`^${source}$`);
+    globCache.set(normalizedPattern, regex);
+  }
+  return regex.test(normalizedValue);
+}
+
+function matchesPeer(candidates: string[], peer: string): boolean {
+  return candidates.some((candidate) => candidate === peer || candidate.endsWith(`:${peer}`));
+}
+
+function matchesSessionScope(filter: MemorySearchFilter, session?: SessionTranscriptScope) {
+  if (!session) {
+    return false;
+  }
+  if (filter.agentId && session.agentId !== filter.agentId) {
+    return false;
+  }
+  if (filter.channel && !session.channels.includes(filter.channel)) {
+    return false;
+  }
+  if (filter.peer && !matchesPeer(session.peers, filter.peer)) {
+    return false;
+  }
+  if (filter.sessionKey) {
+    const key = session.sessionKey.toLowerCase();
+    const rest = parseAgentSessionKey(key)?.rest;
+    return key === filter.sessionKey || rest === filter.sessionKey;
+  }
+  return true;
+}
+
+/** Whether one indexed file passes a normalized filter. */
+export function matchesMemorySearchFilter(
+  filter: MemorySearchFilter,
+  file: MemorySearchFileInfo,
+): boolean {
+  if (filter.sources && !filter.sources.includes(file.source)) {
+    return false;
+  }
+  if (
+    filter.pathInclude &&
+    !filter.pathInclude.some((pattern) => matchesMemoryPathGlob(file.path, pattern))
+  ) {
+    return false;
+  }
+  if (filter.pathExclude?.some((pattern) => matchesMemoryPathGlob(file.path, pattern))) {
+    return false;
+  }
+  if (filter.modifiedAfter !== undefined || filter.modifiedBefore !== undefined) {
+    if (file.mtimeMs === undefined) {
+      return false;
+    }
+    if (filter.modifiedAfter !== undefined && file.mtimeMs < filter.modifiedAfter) {
+      return false;
+    }
+    if (filter.modifiedBefore !== undefined && file.mtimeMs > filter.modifiedBefore) {
+      return false;
+    }
+  }
+  if (file.source === "sessions" && hasSessionScopeFilter(filter)) {
+    return matchesSessionScope(filter, file.session);
+  }
+  return true;
+}
+
+/** Transcript id shared by `<id>.jsonl` transcripts and QMD's exported `<id>.md` copies. */
+export function sessionTranscriptId(filePath: string): string {
+  const base = path.basename(filePath.replace(/\\/g, "/"));
+  return base.slice(0, base.length - path.extname(base).length);
+}
+
+function uniqueLower(values: Array<string | undefined>): string[] {
+  return Array.from(
+    new Set(values.map((value) => value?.trim().toLowerCase()).filter(Boolean) as string[]),
+  );
+}
+
+/** Map transcript ids to their session key, channel and peer from the agent's session store. */
+export function loadSessionTranscriptScopes(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+}): Map<string, SessionTranscriptScope> {
+  const storePath = resolveStorePath(params.cfg.session?.store, { agentId: params.agentId });
+  const store = loadSessionStore(storePath);
+  const scopes = new Map<string, SessionTranscriptScope>();
+  for (const [sessionKey, entry] of Object.entries(store)) {
+    if (!entry?.sessionId) {
+      continue;
+    }
+    const id = entry.sessionFile ? sessionTranscriptId(entry.sessionFile) : entry.sessionId;
+    scopes.set(id, {
+      sessionKey,
+      agentId: normalizeAgentId(parseAgentSessionKey(sessionKey)?.agentId ?? params.agentId),
+      channels: uniqueLower([
+        deriveQmdScopeChannel(sessionKey),
+        entry.channel,
+        entry.lastChannel,
+        entry.origin?.provider,
+        entry.origin?.surface,
+      ]),
+      peers: uniqueLower([
+        deriveQmdScopePeer(sessionKey),
+        entry.origin?.from,
+        entry.origin?.to,
+        entry.lastTo,
+      ]),
+    });
+  }
+  return scopes;
+}
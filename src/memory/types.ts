@@ -1,4 +1,4 @@
-export type MemorySource = "memory" | "sessions";
+export type MemorySource = "memory" | "sessions" | "knowledge";
 
 export type MemorySearchResult = {
   path: string;
@@ -10,6 +10,25 @@ export type MemorySearchResult = {
   citation?: string;
 };
 
+/**
+ * Structured search filters. Path globs match result paths (`memory/projects/**`,
+ * `sessions/*.jsonl`); `agentId`, `channel`, `peer` and `sessionKey` only
+ * constrain session transcripts, other sources pass through them.
+ */
+export type MemorySearchFilter = {
+  pathInclude?: string[];
+  pathExclude?: string[];
+  /** Only files modified at or after this time (ms since epoch). */
+  modifiedAfter?: number;
+  /** Only files modified at or before this time (ms since epoch). */
+  modifiedBefore?: number;
+  sources?: MemorySource[];
+  agentId?: string;
+  channel?: string;
+  peer?: string;
+  sessionKey?: string;
+};
+
 export type MemoryEmbeddingProbeResult = {
   ok: boolean;
   error?: string;
@@ -44,6 +63,24 @@ export type MemoryProviderStatus = {
     loadError?: string;
     dims?: number;
   };
+  /** Post-retrieval ranking (rerank, MMR, recency, per-source boosts). */
+  ranking?: {
+    rerank: {
+      enabled: boolean;
+      mode: "cross-encoder" | "llm";
+      model?: string;
+      available?: boolean;
+      lastError?: string;
+    };
+    mmr: { enabled: boolean; lambda: number };
+    recency: {
+      enabled: boolean;
+      halfLifeDays: number;
+      sources: MemorySource[];
+      minWeight: number;
+    };
+    sourceBoosts: Record<MemorySource, number>;
+  };
   batch?: {
     enabled: boolean;
     failures: number;
@@ -61,7 +98,12 @@ export type MemoryProviderStatus = {
 export interface MemorySearchManager {
   search(
     query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
+    opts?: {
+      maxResults?: number;
+      minScore?: number;
+      sessionKey?: string;
+      filter?: MemorySearchFilter;
+    },
   ): Promise<MemorySearchResult[]>;
   readFile(params: {
     relPath: string;
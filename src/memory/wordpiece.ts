@@ -0,0 +1,239 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export type WordPieceEncoding = {
+  ids: number[];
+};
+
+export type WordPieceTokenizer = {
+  padId: number;
+  /** Encode one text as `[CLS] pieces [SEP]`, truncated to `maxLength` ids. */
+  encode: (text: string, maxLength: number) => WordPieceEncoding;
+};
+
+export type WordPieceTokenizerOptions = {
+  vocab: Map<string, number>;
+  lowercase?: boolean;
+  stripAccents?: boolean;
+  cleanText?: boolean;
+  handleChineseChars?: boolean;
+  unkToken?: string;
+  clsToken?: string;
+  sepToken?: string;
+  padToken?: string;
+  continuingSubwordPrefix?: string;
+  maxInputCharsPerWord?: number;
+};
+
+type TokenizerJson = {
+  normalizer?: {
+    type?: string;
+    lowercase?: boolean;
+    strip_accents?: boolean | null;
+    clean_text?: boolean;
+    handle_chinese_chars?: boolean;
+  } | null;
+  model?: {
+    type?: string;
+    vocab?: Record<string, number>;
+    unk_token?: string;
+    continuing_subword_prefix?: string;
+    max_input_chars_per_word?: number;
+  };
+  post_processor?: {
+    type?: string;
+    cls?: [string, number];
+    sep?: [string, number];
+  } | null;
+  padding?: { pad_token?: string } | null;
+};
+
+function isChineseChar(cp: number): boolean {
+  return (
+    (cp >= 0x4e00 && cp <= 0x9fff) ||
+    (cp >= 0x3400 && cp <= 0x4dbf) ||
+    (cp >= 0x20000 && cp <= 0x2a6df) ||
+    (cp >= 0x2a700 && cp <= 0x2b73f) ||
+    (cp >= 0x2b740 && cp <= 0x2b81f) ||
+    (cp >= 0x2b820 && cp <= 0x2ceaf) ||
+    (cp >= 0xf900 && cp <= 0xfaff) ||
+    (cp >= 0x2f800 && cp <= 0x2fa1f)
+  );
+}
+
+function isPunctuation(ch: string, cp: number): boolean {
+  // BERT treats every non-alphanumeric ASCII symbol as punctuation.
+  if ((cp >= 33 && cp <= 47) || (cp >= 58 && cp <= 64) || (cp >= 91 && cp <= 96)) {
+    return true;
+  }
+  if (cp >= 123 && cp <= 126) {
+    return true;
+  }
+  return /\p{P}/u.test(ch);
+}
+
+function isWhitespace(ch: string): boolean {
+  return /\s/u.test(ch);
+}
+
+function isControl(ch: string): boolean {
+  if (ch === "\t" || ch === "\n" || ch === "\r") {
+    return false;
+  }
+  return /[\p{Cc}\p{Cf}]/u.test(ch);
+}
+
+/** BERT basic tokenization: clean, normalize and split on whitespace and punctuation. */
+function basicTokenize(text: string, options: WordPieceTokenizerOptions): string[] {
+  let normalized = "";
+  for (const ch of text) {
+    const cp = ch.codePointAt(0) ?? 0;
+    if (options.cleanText !== false && (cp === 0 || cp === 0xfffd || isControl(ch))) {
+      continue;
+    }
+    if (options.handleChineseChars !== false && isChineseChar(cp)) {
+      normalized += ` ${ch} `;
+      continue;
+    }
+    normalized += isWhitespace(ch) ? " " : ch;
+  }
+  if (options.lowercase) {
+    normalized = normalized.toLowerCase();
+  }
+  if (options.stripAccents ?? options.lowercase) {
+    normalized = normalized.normalize("NFD").replace(/\p{Mn}/gu, "");
+  }
+
+  const words: string[] = [];
+  for (const raw of normalized.split(" ")) {
+    let current = "";
+    for (const ch of raw) {
+      if (isPunctuation(ch, ch.codePointAt(0) ?? 0)) {
+        if (current) {
+          words.push(current);
+          current = "";
+        }
+        words.push(ch);
+        continue;
+      }
+      current += ch;
+    }
+    if (current) {
+      words.push(current);
+    }
+  }
+  return words;
+}
+
+export function createWordPieceTokenizer(options: WordPieceTokenizerOptions): WordPieceTokenizer {
+  const vocab = options.vocab;
+  const lookup = (token: string, label: string) => {
+    const id = vocab.get(token);
+    if (id === undefined) {
+      throw new Error(`tokenizer vocab is missing the ${label} token "${token}"`);
+    }
+    return id;
+  };
+  const unkId = lookup(options.unkToken ?? "[UNK]", "unknown");
+  const clsId = lookup(options.clsToken ?? "[CLS]", "classifier");
+  const sepId = lookup(options.sepToken ?? "[SEP]", "separator");
+  const padId = vocab.get(options.padToken ?? "[PAD]") ?? 0;
+  const prefix = options.continuingSubwordPrefix ?? "##";
+  const maxChars = options.maxInputCharsPerWord ?? 100;
+
+  const wordPiece = (word: string, out: number[]) => {
+    const chars = Array.from(word);
+    if (chars.length > maxChars) {
+      out.push(unkId);
+      return;
+    }
+    const pieces: number[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let match: number | undefined;
+      while (start < end) {
+        const piece = chars.slice(start, end).join("");
+        match = vocab.get(start > 0 ? `${prefix}${piece}` : piece);
+        if (match !== undefined) {
+          break;
+        }
+        end -= 1;
+      }
+      if (match === undefined) {
+        out.push(unkId);
+        return;
+      }
+      pieces.push(match);
+      start = end;
+    }
+    out.push(...pieces);
+  };
+
+  return {
+    padId,
+    encode: (text, maxLength) => {
+      const budget = Math.max(0, maxLength - 2);
+      const ids: number[] = [];
+      for (const word of basicTokenize(text, options)) {
+        if (ids.length >= budget) {
+          break;
+        }
+        wordPiece(word, ids);
+      }
+      return { ids: [clsId, ...ids.slice(0, budget), sepId] };
+    },
+  };
+}
+
+function parseTokenizerJson(raw: string): WordPieceTokenizerOptions {
+  const parsed = JSON.parse(raw) as TokenizerJson;
+  const model = parsed.model;
+  if (model?.type !== "WordPiece" || !model.vocab) {
+    throw new Error(
+      `unsupported tokenizer type "${model?.type ?? "unknown"}" (only WordPiece/BERT tokenizers are supported)`,
+    );
+  }
+  const normalizer = parsed.normalizer?.type === "BertNormalizer" ? parsed.normalizer : null;
+  const post = parsed.post_processor?.type === "BertProcessing" ? parsed.post_processor : null;
+  return {
+    vocab: new Map(Object.entries(model.vocab)),
+    lowercase: normalizer?.lowercase ?? false,
+    stripAccents: normalizer?.strip_accents ?? undefined,
+    cleanText: normalizer?.clean_text ?? true,
+    handleChineseChars: normalizer?.handle_chinese_chars ?? true,
+    unkToken: model.unk_token,
+    clsToken: post?.cls?.[0],
+    sepToken: post?.sep?.[0],
+    padToken: parsed.padding?.pad_token,
+    continuingSubwordPrefix: model.continuing_subword_prefix,
+    maxInputCharsPerWord: model.max_input_chars_per_word,
+  };
+}
+
+function parseVocabTxt(raw: string): WordPieceTokenizerOptions {
+  const vocab = new Map<string, number>();
+  for (const [index, line] of raw.split(/\r?\n/).entries()) {
+    if (line && !vocab.has(line)) {
+      vocab.set(line, index);
+    }
+  }
+  // Bare vocab.txt exports come from uncased BERT models far more often than cased ones.
+  return { vocab, lowercase: true };
+}
+
+/**
+ * Load a BERT-style tokenizer from a model directory: `tokenizer.json`
+ * (Hugging Face tokenizers format) or a plain `vocab.txt`.
+ */
+export function loadWordPieceTokenizer(modelDir: string): WordPieceTokenizer {
+  const jsonPath = path.join(modelDir, "tokenizer.json");
+  if (fs.existsSync(jsonPath)) {
+    return createWordPieceTokenizer(parseTokenizerJson(fs.readFileSync(jsonPath, "utf-8")));
+  }
+  const vocabPath = path.join(modelDir, "vocab.txt");
+  if (fs.existsSync(vocabPath)) {
+    return createWordPieceTokenizer(parseVocabTxt(fs.readFileSync(vocabPath, "utf-8")));
+  }
+  throw new Error(`no tokenizer.json or vocab.txt found in ${modelDir}`);
+}
@@ -303,6 +303,22 @@ export type {
   DiagnosticWebhookProcessedEvent,
   DiagnosticWebhookReceivedEvent,
 } from "../infra/diagnostic-events.js";
+export {
+  formatTraceparent,
+  getActiveTraceContext,
+  getActiveTraceparent,
+  parseTraceparent,
+  registerDiagnosticTracer,
+  withDiagnosticSpan,
+} from "../infra/diagnostic-trace.js";
+export type {
+  DiagnosticSpan,
+  DiagnosticSpanAttributes,
+  DiagnosticSpanKind,
+  DiagnosticSpanOptions,
+  DiagnosticTraceContext,
+  DiagnosticTracer,
+} from "../infra/diagnostic-trace.js";
 export { detectMime, extensionForMime, getFileExtension } from "../media/mime.js";
 export { extractOriginalFilename } from "../media/store.js";
 
@@ -36,6 +36,20 @@ import type {
   PluginHookToolResultPersistContext,
   PluginHookToolResultPersistEvent,
   PluginHookToolResultPersistResult,
+  PluginHookApprovalContext,
+  PluginHookApprovalRequestedEvent,
+  PluginHookApprovalResolvedEvent,
+  PluginHookBeforeRouteEvent,
+  PluginHookBeforeRouteResult,
+  PluginHookCronContext,
+  PluginHookCronRunEndEvent,
+  PluginHookCronRunStartEvent,
+  PluginHookDeliveryFailedEvent,
+  PluginHookMemoryContext,
+  PluginHookMemoryIndexedEvent,
+  PluginHookSubagentContext,
+  PluginHookSubagentEndedEvent,
+  PluginHookSubagentSpawnedEvent,
 } from "./types.js";
 
 // Re-export types for consumers
@@ -67,6 +81,20 @@ export type {
   PluginHookGatewayContext,
   PluginHookGatewayStartEvent,
   PluginHookGatewayStopEvent,
+  PluginHookBeforeRouteEvent,
+  PluginHookBeforeRouteResult,
+  PluginHookDeliveryFailedEvent,
+  PluginHookCronContext,
+  PluginHookCronRunStartEvent,
+  PluginHookCronRunEndEvent,
+  PluginHookApprovalContext,
+  PluginHookApprovalRequestedEvent,
+  PluginHookApprovalResolvedEvent,
+  PluginHookSubagentContext,
+  PluginHookSubagentSpawnedEvent,
+  PluginHookSubagentEndedEvent,
+  PluginHookMemoryContext,
+  PluginHookMemoryIndexedEvent,
 };
 
 export type HookRunnerLogger = {
@@ -459,6 +487,136 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     return runVoidHook("gateway_stop", event, ctx);
   }
 
+  // =========================================================================
+  // Routing + Delivery Hooks
+  // =========================================================================
+
+  /**
+   * Run before_route hook.
+   * Allows plugins to override the agent and/or session an inbound message is routed to.
+   * Runs sequentially.
+   */
+  async function runBeforeRoute(
+    event: PluginHookBeforeRouteEvent,
+    ctx: PluginHookMessageContext,
+  ): Promise<PluginHookBeforeRouteResult | undefined> {
+    return runModifyingHook<"before_route", PluginHookBeforeRouteResult>(
+      "before_route",
+      event,
+      ctx,
+      (acc, next) => ({
+        agentId: next.agentId ?? acc?.agentId,
+        sessionKey: next.sessionKey ?? acc?.sessionKey,
+      }),
+    );
+  }
+
+  /**
+   * Run delivery_failed hook.
+   * Fired when an outbound payload could not be sent.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runDeliveryFailed(
+    event: PluginHookDeliveryFailedEvent,
+    ctx: PluginHookMessageContext,
+  ): Promise<void> {
+    return runVoidHook("delivery_failed", event, ctx);
+  }
+
+  // =========================================================================
+  // Cron Hooks
+  // =========================================================================
+
+  /**
+   * Run cron_run_start hook.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runCronRunStart(
+    event: PluginHookCronRunStartEvent,
+    ctx: PluginHookCronContext,
+  ): Promise<void> {
+    return runVoidHook("cron_run_start", event, ctx);
+  }
+
+  /**
+   * Run cron_run_end hook.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runCronRunEnd(
+    event: PluginHookCronRunEndEvent,
+    ctx: PluginHookCronContext,
+  ): Promise<void> {
+    return runVoidHook("cron_run_end", event, ctx);
+  }
+
+  // =========================================================================
+  // Approval Hooks
+  // =========================================================================
+
+  /**
+   * Run approval_requested hook.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runApprovalRequested(
+    event: PluginHookApprovalRequestedEvent,
+    ctx: PluginHookApprovalContext,
+  ): Promise<void> {
+    return runVoidHook("approval_requested", event, ctx);
+  }
+
+  /**
+   * Run approval_resolved hook.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runApprovalResolved(
+    event: PluginHookApprovalResolvedEvent,
+    ctx: PluginHookApprovalContext,
+  ): Promise<void> {
+    return runVoidHook("approval_resolved", event, ctx);
+  }
+
+  // =========================================================================
+  // Subagent Hooks
+  // =========================================================================
+
+  /**
+   * Run subagent_spawned hook.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runSubagentSpawned(
+    event: PluginHookSubagentSpawnedEvent,
+    ctx: PluginHookSubagentContext,
+  ): Promise<void> {
+    return runVoidHook("subagent_spawned", event, ctx);
+  }
+
+  /**
+   * Run subagent_ended hook.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runSubagentEnded(
+    event: PluginHookSubagentEndedEvent,
+    ctx: PluginHookSubagentContext,
+  ): Promise<void> {
+    return runVoidHook("subagent_ended", event, ctx);
+  }
+
+  // =========================================================================
+  // Memory Hooks
+  // =========================================================================
+
+  /**
+   * Run memory_indexed hook.
+   * Fired after a memory index sync completes.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runMemoryIndexed(
+    event: PluginHookMemoryIndexedEvent,
+    ctx: PluginHookMemoryContext,
+  ): Promise<void> {
+    return runVoidHook("memory_indexed", event, ctx);
+  }
+
   // =========================================================================
   // Utility
   // =========================================================================
@@ -500,6 +658,20 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     // Gateway hooks
     runGatewayStart,
     runGatewayStop,
+    // Routing + delivery hooks
+    runBeforeRoute,
+    runDeliveryFailed,
+    // Cron hooks
+    runCronRunStart,
+    runCronRunEnd,
+    // Approval hooks
+    runApprovalRequested,
+    runApprovalResolved,
+    // Subagent hooks
+    runSubagentSpawned,
+    runSubagentEnded,
+    // Memory hooks
+    runMemoryIndexed,
     // Utility
     hasHooks,
     getHookCount,
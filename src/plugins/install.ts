@@ -1,6 +1,7 @@
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
 import { MANIFEST_KEY } from "../compat/legacy-names.js";
 import {
   extractArchive,
@@ -18,6 +19,12 @@ import {
 import { validateRegistryNpmSpec } from "../infra/npm-registry-spec.js";
 import { runCommandWithTimeout } from "../process/exec.js";
 import { extensionUsesSkippedScannerPath, isPathInside } from "../security/scan-paths.js";
+import {
+  formatInstallScanPolicyError,
+  resolveInstallScanBlock,
+  resolveSkillScanPolicy,
+  type SkillScanPolicy,
+} from "../security/skill-scan-policy.js";
 import * as skillScanner from "../security/skill-scanner.js";
 import { CONFIG_DIR, resolveUserPath } from "../utils.js";
 
@@ -92,11 +99,75 @@ export function resolvePluginInstallDir(pluginId: string, extensionsDir?: string
   return targetDirResult.path;
 }
 
+/**
+ * Scans plugin source for dangerous code patterns. Critical findings block the
+ * install (unless overridden or disabled via `security.skillScan.blockCritical`),
+ * as does a rule pack or baseline that fails to load; a scan that fails to run
+ * only warns.
+ */
+async function scanPluginBeforeInstall(params: {
+  pluginId: string;
+  rootDir: string;
+  scan: (
+    options: Pick<skillScanner.SkillScanOptions, "rules" | "baseline" | "baselineScope">,
+  ) => Promise<skillScanner.SkillScanSummary>;
+  logger: PluginInstallLogger;
+  config?: OpenClawConfig;
+  allowDangerousCode?: boolean;
+}): Promise<string | null> {
+  const { pluginId, logger } = params;
+  let policy: SkillScanPolicy;
+  try {
+    policy = await resolveSkillScanPolicy(params.config);
+  } catch (err) {
+    return formatInstallScanPolicyError({ kind: "Plugin", name: pluginId, error: err });
+  }
+  try {
+    const scanSummary = await params.scan({
+      rules: policy.rules,
+      baseline: policy.baseline ?? undefined,
+      baselineScope: pluginId,
+    });
+    const blocked = resolveInstallScanBlock({
+      kind: "Plugin",
+      name: pluginId,
+      rootDir: params.rootDir,
+      summary: scanSummary,
+      policy,
+      allowDangerousCode: params.allowDangerousCode,
+    });
+    if (blocked) {
+      return blocked;
+    }
+    if (scanSummary.critical > 0) {
+      const criticalDetails = scanSummary.findings
+        .filter((f) => f.severity === "critical")
+        .map((f) => `${f.message} (${f.file}:${f.line})`)
+        .join("; ");
+      logger.warn?.(
+        `WARNING: Plugin "${pluginId}" contains dangerous code patterns: ${criticalDetails}`,
+      );
+    } else if (scanSummary.warn > 0) {
+      logger.warn?.(
+        `Plugin "${pluginId}" has ${scanSummary.warn} suspicious code pattern(s). Run "openclaw security audit --deep" for details.`,
+      );
+    }
+  } catch (err) {
+    logger.warn?.(
+      `Plugin "${pluginId}" code safety scan failed (${String(err)}). Installation continues; run "openclaw security audit --deep" after install.`,
+    );
+  }
+  return null;
+}
+
 async function installPluginFromPackageDir(params: {
   packageDir: string;
   extensionsDir?: string;
   timeoutMs?: number;
   logger?: PluginInstallLogger;
+  config?: OpenClawConfig;
+  /** Install even when the code scan reports critical findings. */
+  allowDangerousCode?: boolean;
   mode?: "install" | "update";
   dryRun?: boolean;
   expectedPluginId?: string;
@@ -154,28 +225,20 @@ async function installPluginFromPackageDir(params: {
     forcedScanEntries.push(resolvedEntry);
   }
 
-  // Scan plugin source for dangerous code patterns (warn-only; never blocks install)
-  try {
-    const scanSummary = await skillScanner.scanDirectoryWithSummary(params.packageDir, {
-      includeFiles: forcedScanEntries,
-    });
-    if (scanSummary.critical > 0) {
-      const criticalDetails = scanSummary.findings
-        .filter((f) => f.severity === "critical")
-        .map((f) => `${f.message} (${f.file}:${f.line})`)
-        .join("; ");
-      logger.warn?.(
-        `WARNING: Plugin "${pluginId}" contains dangerous code patterns: ${criticalDetails}`,
-      );
-    } else if (scanSummary.warn > 0) {
-      logger.warn?.(
-        `Plugin "${pluginId}" has ${scanSummary.warn} suspicious code pattern(s). Run "openclaw security audit --deep" for details.`,
-      );
-    }
-  } catch (err) {
-    logger.warn?.(
-      `Plugin "${pluginId}" code safety scan failed (${String(err)}). Installation continues; run "openclaw security audit --deep" after install.`,
-    );
+  const blocked = await scanPluginBeforeInstall({
+    pluginId,
+    rootDir: packageDir,
+    scan: (options) =>
+      skillScanner.scanDirectoryWithSummary(packageDir, {
+        ...options,
+        includeFiles: forcedScanEntries,
+      }),
+    logger,
+    config: params.config,
+    allowDangerousCode: params.allowDangerousCode,
+  });
+  if (blocked) {
+    return { ok: false, error: blocked };
   }
 
   const extensionsDir = params.extensionsDir
@@ -254,6 +317,9 @@ export async function installPluginFromArchive(params: {
   extensionsDir?: string;
   timeoutMs?: number;
   logger?: PluginInstallLogger;
+  config?: OpenClawConfig;
+  /** Install even when the code scan reports critical findings. */
+  allowDangerousCode?: boolean;
   mode?: "install" | "update";
   dryRun?: boolean;
   expectedPluginId?: string;
@@ -300,6 +366,8 @@ export async function installPluginFromArchive(params: {
       extensionsDir: params.extensionsDir,
       timeoutMs,
       logger,
+      config: params.config,
+      allowDangerousCode: params.allowDangerousCode,
       mode,
       dryRun: params.dryRun,
       expectedPluginId: params.expectedPluginId,
@@ -314,6 +382,9 @@ export async function installPluginFromDir(params: {
   extensionsDir?: string;
   timeoutMs?: number;
   logger?: PluginInstallLogger;
+  config?: OpenClawConfig;
+  /** Install even when the code scan reports critical findings. */
+  allowDangerousCode?: boolean;
   mode?: "install" | "update";
   dryRun?: boolean;
   expectedPluginId?: string;
@@ -332,6 +403,8 @@ export async function installPluginFromDir(params: {
     extensionsDir: params.extensionsDir,
     timeoutMs: params.timeoutMs,
     logger: params.logger,
+    config: params.config,
+    allowDangerousCode: params.allowDangerousCode,
     mode: params.mode,
     dryRun: params.dryRun,
     expectedPluginId: params.expectedPluginId,
@@ -342,6 +415,9 @@ export async function installPluginFromFile(params: {
   filePath: string;
   extensionsDir?: string;
   logger?: PluginInstallLogger;
+  config?: OpenClawConfig;
+  /** Install even when the code scan reports critical findings. */
+  allowDangerousCode?: boolean;
   mode?: "install" | "update";
   dryRun?: boolean;
 }): Promise<InstallPluginResult> {
@@ -371,6 +447,18 @@ export async function installPluginFromFile(params: {
     return { ok: false, error: `plugin already exists: ${targetFile} (delete it first)` };
   }
 
+  const blocked = await scanPluginBeforeInstall({
+    pluginId,
+    rootDir: path.dirname(filePath),
+    scan: (options) => skillScanner.scanFileWithSummary(filePath, options),
+    logger,
+    config: params.config,
+    allowDangerousCode: params.allowDangerousCode,
+  });
+  if (blocked) {
+    return { ok: false, error: blocked };
+  }
+
   if (dryRun) {
     return {
       ok: true,
@@ -400,6 +488,9 @@ export async function installPluginFromNpmSpec(params: {
   extensionsDir?: string;
   timeoutMs?: number;
   logger?: PluginInstallLogger;
+  config?: OpenClawConfig;
+  /** Install even when the code scan reports critical findings. */
+  allowDangerousCode?: boolean;
   mode?: "install" | "update";
   dryRun?: boolean;
   expectedPluginId?: string;
@@ -448,6 +539,8 @@ export async function installPluginFromNpmSpec(params: {
       extensionsDir: params.extensionsDir,
       timeoutMs,
       logger,
+      config: params.config,
+      allowDangerousCode: params.allowDangerousCode,
       mode,
       dryRun,
       expectedPluginId,
@@ -462,6 +555,9 @@ export async function installPluginFromPath(params: {
   extensionsDir?: string;
   timeoutMs?: number;
   logger?: PluginInstallLogger;
+  config?: OpenClawConfig;
+  /** Install even when the code scan reports critical findings. */
+  allowDangerousCode?: boolean;
   mode?: "install" | "update";
   dryRun?: boolean;
   expectedPluginId?: string;
@@ -478,6 +574,8 @@ export async function installPluginFromPath(params: {
       extensionsDir: params.extensionsDir,
       timeoutMs: params.timeoutMs,
       logger: params.logger,
+      config: params.config,
+      allowDangerousCode: params.allowDangerousCode,
       mode: params.mode,
       dryRun: params.dryRun,
       expectedPluginId: params.expectedPluginId,
@@ -491,6 +589,8 @@ export async function installPluginFromPath(params: {
       extensionsDir: params.extensionsDir,
       timeoutMs: params.timeoutMs,
       logger: params.logger,
+      config: params.config,
+      allowDangerousCode: params.allowDangerousCode,
       mode: params.mode,
       dryRun: params.dryRun,
       expectedPluginId: params.expectedPluginId,
@@ -501,6 +601,8 @@ export async function installPluginFromPath(params: {
     filePath: resolved,
     extensionsDir: params.extensionsDir,
     logger: params.logger,
+    config: params.config,
+    allowDangerousCode: params.allowDangerousCode,
     mode: params.mode,
     dryRun: params.dryRun,
   });
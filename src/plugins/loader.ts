@@ -26,6 +26,7 @@ import { loadPluginManifestRegistry } from "./manifest-registry.js";
 import { createPluginRegistry, type PluginRecord, type PluginRegistry } from "./registry.js";
 import { setActivePluginRegistry } from "./runtime.js";
 import { createPluginRuntime } from "./runtime/index.js";
+import { loadSandboxedPlugin } from "./sandbox.js";
 import { validateJsonSchemaValue } from "./schema-validator.js";
 
 export type PluginLoadResult = PluginRegistry;
@@ -43,7 +44,11 @@ const registryCache = new Map<string, PluginRegistry>();
 
 const defaultLogger = () => createSubsystemLogger("plugins");
 
-const resolvePluginSdkAliasFile = (params: {
+/**
+ * Locate a file shipped with OpenClaw itself: `src/<srcFile>` in a checkout,
+ * `dist/<distFile>` in a build.
+ */
+const resolveOpenClawPackageFile = (params: {
   srcFile: string;
   distFile: string;
 }): string | null => {
@@ -53,8 +58,8 @@ const resolvePluginSdkAliasFile = (params: {
     const isTest = process.env.VITEST || process.env.NODE_ENV === "test";
     let cursor = path.dirname(modulePath);
     for (let i = 0; i < 6; i += 1) {
-      const srcCandidate = path.join(cursor, "src", "plugin-sdk", params.srcFile);
-      const distCandidate = path.join(cursor, "dist", "plugin-sdk", params.distFile);
+      const srcCandidate = path.join(cursor, "src", params.srcFile);
+      const distCandidate = path.join(cursor, "dist", params.distFile);
       const orderedCandidates = isProduction
         ? isTest
           ? [distCandidate, srcCandidate]
@@ -78,10 +83,28 @@ const resolvePluginSdkAliasFile = (params: {
 };
 
 const resolvePluginSdkAlias = (): string | null =>
-  resolvePluginSdkAliasFile({ srcFile: "index.ts", distFile: "index.js" });
+  resolveOpenClawPackageFile({
+    srcFile: "plugin-sdk/index.ts",
+    distFile: "plugin-sdk/index.js",
+  });
 
 const resolvePluginSdkAccountIdAlias = (): string | null => {
-  return resolvePluginSdkAliasFile({ srcFile: "account-id.ts", distFile: "account-id.js" });
+  return resolveOpenClawPackageFile({
+    srcFile: "plugin-sdk/account-id.ts",
+    distFile: "plugin-sdk/account-id.js",
+  });
+};
+
+/** jiti aliases that let plugins import `openclaw/plugin-sdk` from this install. */
+const resolvePluginSdkAliases = (): Record<string, string> => {
+  const pluginSdkAlias = resolvePluginSdkAlias();
+  const pluginSdkAccountIdAlias = resolvePluginSdkAccountIdAlias();
+  return {
+    ...(pluginSdkAlias ? { "openclaw/plugin-sdk": pluginSdkAlias } : {}),
+    ...(pluginSdkAccountIdAlias
+      ? { "openclaw/plugin-sdk/account-id": pluginSdkAccountIdAlias }
+      : {}),
+  };
 };
 
 function buildCacheKey(params: {
@@ -226,21 +249,11 @@ export function loadOpenClawPlugins(options: PluginLoadOptions = {}): PluginRegi
     if (jitiLoader) {
       return jitiLoader;
     }
-    const pluginSdkAlias = resolvePluginSdkAlias();
-    const pluginSdkAccountIdAlias = resolvePluginSdkAccountIdAlias();
+    const alias = resolvePluginSdkAliases();
     jitiLoader = createJiti(import.meta.url, {
       interopDefault: true,
       extensions: [".ts", ".tsx", ".mts", ".cts", ".mtsx", ".ctsx", ".js", ".mjs", ".cjs", ".json"],
-      ...(pluginSdkAlias || pluginSdkAccountIdAlias
-        ? {
-            alias: {
-              ...(pluginSdkAlias ? { "openclaw/plugin-sdk": pluginSdkAlias } : {}),
-              ...(pluginSdkAccountIdAlias
-                ? { "openclaw/plugin-sdk/account-id": pluginSdkAccountIdAlias }
-                : {}),
-            },
-          }
-        : {}),
+      ...(Object.keys(alias).length > 0 ? { alias } : {}),
     });
     return jitiLoader;
   };
@@ -318,9 +331,26 @@ export function loadOpenClawPlugins(options: PluginLoadOptions = {}): PluginRegi
       continue;
     }
 
+    // Sandboxed plugins are never imported into the gateway process; their
+    // registrations come from an isolated host (see sandbox.ts).
+    const sandboxed = entry?.sandbox === true;
+    if (sandboxed && !manifestRecord.sandbox) {
+      record.status = "error";
+      record.error = "sandbox enabled but the plugin manifest declares no sandbox capabilities";
+      registry.plugins.push(record);
+      seenIds.set(pluginId, candidate.origin);
+      registry.diagnostics.push({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: record.error,
+      });
+      continue;
+    }
+
     let mod: OpenClawPluginModule | null = null;
     try {
-      mod = getJiti()(candidate.source) as OpenClawPluginModule;
+      mod = sandboxed ? null : (getJiti()(candidate.source) as OpenClawPluginModule);
     } catch (err) {
       logger.error(`[plugins] ${record.id} failed to load from ${record.source}: ${String(err)}`);
       record.status = "error";
@@ -336,7 +366,7 @@ export function loadOpenClawPlugins(options: PluginLoadOptions = {}): PluginRegi
       continue;
     }
 
-    const resolved = resolvePluginModuleExport(mod);
+    const resolved = mod ? resolvePluginModuleExport(mod) : {};
     const definition = resolved.definition;
     const register = resolved.register;
 
@@ -415,6 +445,38 @@ export function loadOpenClawPlugins(options: PluginLoadOptions = {}): PluginRegi
       continue;
     }
 
+    if (sandboxed && manifestRecord.sandbox) {
+      const result = loadSandboxedPlugin({
+        config: cfg,
+        api: createApi(record, { config: cfg, pluginConfig: validatedConfig.value }),
+        rootDir: candidate.rootDir,
+        manifest: manifestRecord.sandbox,
+        hostEntry: resolveOpenClawPackageFile({
+          srcFile: "plugins/sandbox-host.ts",
+          distFile: "plugins/sandbox-host.js",
+        }),
+        aliases: resolvePluginSdkAliases(),
+        logger,
+      });
+      record.sandbox = result.policy;
+      if (result.ok) {
+        pushDiagnostics(registry.diagnostics, result.registration.diagnostics);
+      } else {
+        logger.error(`[plugins] ${record.id} sandbox failed: ${result.error}`);
+        record.status = "error";
+        record.error = result.error;
+        registry.diagnostics.push({
+          level: "error",
+          pluginId: record.id,
+          source: record.source,
+          message: `plugin sandbox failed: ${result.error}`,
+        });
+      }
+      registry.plugins.push(record);
+      seenIds.set(pluginId, candidate.origin);
+      continue;
+    }
+
     if (typeof register !== "function") {
       logger.error(`[plugins] ${record.id} missing register/activate export`);
       record.status = "error";
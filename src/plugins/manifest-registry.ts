@@ -4,7 +4,7 @@ import type { PluginConfigUiHint, PluginDiagnostic, PluginKind, PluginOrigin } f
 import { resolveUserPath } from "../utils.js";
 import { normalizePluginsConfig, type NormalizedPluginsConfig } from "./config-state.js";
 import { discoverOpenClawPlugins, type PluginCandidate } from "./discovery.js";
-import { loadPluginManifest, type PluginManifest } from "./manifest.js";
+import { loadPluginManifest, type PluginManifest, type PluginManifestSandbox } from "./manifest.js";
 
 type SeenIdEntry = {
   candidate: PluginCandidate;
@@ -50,6 +50,7 @@ export type PluginManifestRecord = {
   schemaCacheKey?: string;
   configSchema?: Record<string, unknown>;
   configUiHints?: Record<string, PluginConfigUiHint>;
+  sandbox?: PluginManifestSandbox;
 };
 
 export type PluginManifestRegistry = {
@@ -141,6 +142,7 @@ function buildRecord(params: {
     schemaCacheKey: params.schemaCacheKey,
     configSchema: params.configSchema,
     configUiHints: params.manifest.uiHints,
+    sandbox: params.manifest.sandbox,
   };
 }
 
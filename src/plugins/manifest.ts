@@ -7,6 +7,19 @@ import { isRecord } from "../utils.js";
 export const PLUGIN_MANIFEST_FILENAME = "openclaw.plugin.json";
 export const PLUGIN_MANIFEST_FILENAMES = [PLUGIN_MANIFEST_FILENAME] as const;
 
+/** API surfaces a sandboxed plugin can ask for; everything else stays in-process only. */
+export const PLUGIN_SANDBOX_API_SURFACES = ["tools", "hooks", "commands"] as const;
+
+export type PluginSandboxApiSurface = (typeof PLUGIN_SANDBOX_API_SURFACES)[number];
+
+export type PluginManifestSandbox = {
+  api: PluginSandboxApiSurface[];
+  /** Paths the plugin asks to read/write; the user approves them at install time. */
+  fs: { read: string[]; write: string[] };
+  /** Hosts the plugin asks to reach (`api.example.com`, `*.example.com`, or `*`). */
+  network: string[];
+};
+
 export type PluginManifest = {
   id: string;
   configSchema: Record<string, unknown>;
@@ -18,6 +31,7 @@ export type PluginManifest = {
   description?: string;
   version?: string;
   uiHints?: Record<string, PluginConfigUiHint>;
+  sandbox?: PluginManifestSandbox;
 };
 
 export type PluginManifestLoadResult =
@@ -31,6 +45,36 @@ function normalizeStringList(value: unknown): string[] {
   return value.map((entry) => (typeof entry === "string" ? entry.trim() : "")).filter(Boolean);
 }
 
+function parseSandboxManifest(
+  raw: unknown,
+): { ok: true; sandbox?: PluginManifestSandbox } | { ok: false; error: string } {
+  if (raw === undefined) {
+    return { ok: true };
+  }
+  if (!isRecord(raw)) {
+    return { ok: false, error: "plugin manifest sandbox must be an object" };
+  }
+  const api = normalizeStringList(raw.api);
+  const unknown = api.filter(
+    (surface) => !(PLUGIN_SANDBOX_API_SURFACES as readonly string[]).includes(surface),
+  );
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      error: `plugin manifest sandbox.api has unknown surface(s): ${unknown.join(", ")}`,
+    };
+  }
+  const fsGrants = isRecord(raw.fs) ? raw.fs : {};
+  return {
+    ok: true,
+    sandbox: {
+      api: Array.from(new Set(api)) as PluginSandboxApiSurface[],
+      fs: { read: normalizeStringList(fsGrants.read), write: normalizeStringList(fsGrants.write) },
+      network: normalizeStringList(raw.network),
+    },
+  };
+}
+
 export function resolvePluginManifestPath(rootDir: string): string {
   for (const filename of PLUGIN_MANIFEST_FILENAMES) {
     const candidate = path.join(rootDir, filename);
@@ -80,6 +124,10 @@ export function loadPluginManifest(rootDir: string): PluginManifestLoadResult {
   if (isRecord(raw.uiHints)) {
     uiHints = raw.uiHints as Record<string, PluginConfigUiHint>;
   }
+  const sandbox = parseSandboxManifest(raw.sandbox);
+  if (!sandbox.ok) {
+    return { ok: false, error: sandbox.error, manifestPath };
+  }
 
   return {
     ok: true,
@@ -94,6 +142,7 @@ export function loadPluginManifest(rootDir: string): PluginManifestLoadResult {
       description,
       version,
       uiHints,
+      sandbox: sandbox.sandbox,
     },
     manifestPath,
   };
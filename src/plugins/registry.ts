@@ -8,6 +8,7 @@ import type {
 } from "../gateway/server-methods/types.js";
 import type { HookEntry } from "../hooks/types.js";
 import type { PluginRuntime } from "./runtime/types.js";
+import type { PluginSandboxPolicy } from "./sandbox.js";
 import type {
   OpenClawPluginApi,
   OpenClawPluginChannelRegistration,
@@ -119,6 +120,8 @@ export type PluginRecord = {
   configSchema: boolean;
   configUiHints?: Record<string, PluginConfigUiHint>;
   configJsonSchema?: Record<string, unknown>;
+  /** Set when the plugin runs in an isolated sandbox host. */
+  sandbox?: PluginSandboxPolicy;
 };
 
 export type PluginRegistry = {
@@ -0,0 +1,462 @@
+import type { AgentToolResult } from "@mariozechner/pi-agent-core";
+import { createJiti } from "jiti";
+import dgram from "node:dgram";
+import dns from "node:dns";
+import { syncBuiltinESMExports } from "node:module";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import type { AnyAgentTool } from "../agents/tools/common.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { PluginRuntime } from "./runtime/types.js";
+import type {
+  SandboxHostInit,
+  SandboxHostMessage,
+  SandboxHostMode,
+  SandboxParentMessage,
+  SandboxRegistration,
+  SandboxToolDescriptor,
+} from "./sandbox-protocol.js";
+import type {
+  OpenClawPluginApi,
+  OpenClawPluginCommandDefinition,
+  OpenClawPluginDefinition,
+  OpenClawPluginToolContext,
+  OpenClawPluginToolFactory,
+  PluginCommandContext,
+  PluginHookName,
+  PluginLogger,
+} from "./types.js";
+import { SANDBOX_DESCRIBE_MARKER, SANDBOX_INIT_ENV } from "./sandbox-protocol.js";
+
+// Entry point of the out-of-process plugin host. The gateway starts it under the
+// Node permission model (see `sandbox.ts`); keep this module free of runtime imports
+// from the rest of OpenClaw so the host only needs read access to this file and jiti.
+
+// Synchronous hooks cannot cross a process boundary.
+const SANDBOX_UNSUPPORTED_HOOKS = new Set<PluginHookName>(["tool_result_persist"]);
+
+type HostState = {
+  tools: Array<{ tool: AnyAgentTool | OpenClawPluginToolFactory; described: AnyAgentTool[] }>;
+  hooks: Array<(...args: unknown[]) => unknown>;
+  commands: OpenClawPluginCommandDefinition[];
+};
+
+export function isNetworkHostGranted(host: string, grants: string[]): boolean {
+  const normalized = host
+    .trim()
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "");
+  if (!normalized) {
+    return false;
+  }
+  return grants.some((grant) => {
+    const pattern = grant.trim().toLowerCase();
+    if (pattern === "*") {
+      return true;
+    }
+    if (pattern.startsWith("*.")) {
+      return normalized.endsWith(pattern.slice(1));
+    }
+    return normalized === pattern;
+  });
+}
+
+function resolveConnectTarget(args: unknown[]): string | null {
+  // net.connect() hands Socket#connect a pre-normalized [options, callback] array.
+  const first = Array.isArray(args[0]) ? (args[0] as unknown[])[0] : args[0];
+  if (typeof first === "number" || (typeof first === "string" && /^\d+$/.test(first))) {
+    return typeof args[1] === "string" ? args[1] : "localhost";
+  }
+  if (typeof first === "string") {
+    return null;
+  }
+  if (first && typeof first === "object") {
+    const options = first as { host?: unknown; path?: unknown };
+    if (typeof options.path === "string") {
+      return null;
+    }
+    return typeof options.host === "string" ? options.host : "localhost";
+  }
+  return null;
+}
+
+function denyNetwork(host: string | null): never {
+  throw new Error(`plugin sandbox: network access to ${host ?? "local sockets"} is not granted`);
+}
+
+/**
+ * Grants are checked against the requested host name, so a caller-supplied
+ * resolver could map a granted name to any address. Only the default one is allowed.
+ */
+function denyCustomLookup(options: unknown) {
+  if (options && typeof options === "object" && "lookup" in options && options.lookup != null) {
+    throw new Error("plugin sandbox: custom DNS lookup functions are not allowed");
+  }
+}
+
+function guardTcp(grants: string[]) {
+  // oxlint-disable-next-line typescript/unbound-method -- re-applied with the socket as `this`
+  const connect = net.Socket.prototype.connect as (...args: unknown[]) => net.Socket;
+  net.Socket.prototype.connect = function guardedConnect(this: net.Socket, ...args: unknown[]) {
+    // net/tls/http/undici connects (custom `connect`/`createConnection` factories
+    // included) all end up here with the options that carry `lookup`.
+    denyCustomLookup(Array.isArray(args[0]) ? (args[0] as unknown[])[0] : args[0]);
+    const host = resolveConnectTarget(args);
+    if (!host || !isNetworkHostGranted(host, grants)) {
+      denyNetwork(host);
+    }
+    return connect.apply(this, args);
+  } as typeof net.Socket.prototype.connect;
+}
+
+function resolveUdpSendTarget(socket: dgram.Socket, args: unknown[]): string | null {
+  // send(msg, [offset, length,] port [, address] [, callback]); numeric strings are ports.
+  const address = args
+    .slice(1)
+    .find((arg): arg is string => typeof arg === "string" && !/^\d+$/.test(arg));
+  if (address) {
+    return address;
+  }
+  try {
+    // Connected sockets were checked in connect().
+    return socket.remoteAddress().address;
+  } catch {
+    return null;
+  }
+}
+
+function guardUdp(grants: string[]) {
+  // UDP sockets take `lookup` at creation; wrap both constructors and publish the
+  // wrappers to ESM named imports.
+  const { Socket, createSocket } = dgram;
+  const GuardedSocket = function GuardedSocket(this: unknown, ...args: unknown[]) {
+    denyCustomLookup(args[0]);
+    return Reflect.construct(Socket, args, new.target ?? Socket) as dgram.Socket;
+  } as unknown as typeof dgram.Socket;
+  GuardedSocket.prototype = Socket.prototype;
+  dgram.Socket = GuardedSocket;
+  dgram.createSocket = function guardedCreateSocket(...args: unknown[]) {
+    denyCustomLookup(args[0]);
+    return (createSocket as (...inner: unknown[]) => dgram.Socket)(...args);
+  } as typeof dgram.createSocket;
+  syncBuiltinESMExports();
+
+  const proto = Socket.prototype as unknown as Record<string, (...args: unknown[]) => unknown>;
+  const send = proto.send;
+  const connect = proto.connect;
+  proto.send = function guardedSend(this: dgram.Socket, ...args: unknown[]) {
+    const host = resolveUdpSendTarget(this, args);
+    if (!host || !isNetworkHostGranted(host, grants)) {
+      denyNetwork(host);
+    }
+    return send.apply(this, args);
+  };
+  proto.connect = function guardedConnect(this: dgram.Socket, ...args: unknown[]) {
+    const host = typeof args[1] === "string" ? args[1] : "localhost";
+    if (!isNetworkHostGranted(host, grants)) {
+      denyNetwork(host);
+    }
+    return connect.apply(this, args);
+  };
+}
+
+const DNS_QUERY_METHODS = [
+  "lookup",
+  "lookupService",
+  "resolve",
+  "resolveAny",
+  "resolve4",
+  "resolve6",
+  "resolveCaa",
+  "resolveCname",
+  "resolveMx",
+  "resolveNaptr",
+  "resolveNs",
+  "resolvePtr",
+  "resolveSoa",
+  "resolveSrv",
+  "resolveTxt",
+  "reverse",
+] as const;
+
+function guardDns(grants: string[]) {
+  // Queries carry the queried name to the resolver, so they are an exfiltration
+  // channel of their own: only granted hostnames may be looked up.
+  for (const target of [
+    dns,
+    dns.Resolver.prototype,
+    dns.promises,
+    dns.promises.Resolver.prototype,
+  ]) {
+    const methods = target as unknown as Record<string, unknown>;
+    for (const name of DNS_QUERY_METHODS) {
+      const original = methods[name];
+      if (typeof original !== "function") {
+        continue;
+      }
+      methods[name] = function guardedDnsQuery(this: unknown, ...args: unknown[]) {
+        const host = typeof args[0] === "string" ? args[0] : null;
+        if (!host || !isNetworkHostGranted(host, grants)) {
+          denyNetwork(host);
+        }
+        return (original as (...inner: unknown[]) => unknown).apply(this, args);
+      };
+    }
+  }
+}
+
+function installNetworkGuard(grants: string[]) {
+  if (grants.includes("*")) {
+    return;
+  }
+  // Raw socket bindings are already denied by the permission model; guard every
+  // public entry point that can reach the network. This is a best-effort check in
+  // the plugin's own process, not an isolation boundary.
+  guardTcp(grants);
+  guardUdp(grants);
+  guardDns(grants);
+}
+
+function resolveModuleExport(moduleExport: unknown): OpenClawPluginDefinition["register"] {
+  const resolved =
+    moduleExport && typeof moduleExport === "object" && "default" in moduleExport
+      ? (moduleExport as { default: unknown }).default
+      : moduleExport;
+  if (typeof resolved === "function") {
+    return resolved as OpenClawPluginDefinition["register"];
+  }
+  if (resolved && typeof resolved === "object") {
+    const def = resolved as OpenClawPluginDefinition;
+    return def.register ?? def.activate;
+  }
+  return undefined;
+}
+
+function resolveTools(
+  tool: AnyAgentTool | OpenClawPluginToolFactory,
+  ctx: OpenClawPluginToolContext,
+): AnyAgentTool[] {
+  const resolved = typeof tool === "function" ? tool(ctx) : tool;
+  if (!resolved) {
+    return [];
+  }
+  return Array.isArray(resolved) ? resolved : [resolved];
+}
+
+function describeTool(tool: AnyAgentTool): SandboxToolDescriptor {
+  return {
+    name: tool.name,
+    label: tool.label,
+    description: tool.description,
+    parameters: tool.parameters,
+  };
+}
+
+function createHostLogger(mode: SandboxHostMode, pluginId: string): PluginLogger {
+  const emit = (level: "info" | "warn" | "error" | "debug", message: string) => {
+    if (mode === "serve" && process.send) {
+      process.send({ type: "log", level, message } satisfies SandboxHostMessage);
+      return;
+    }
+    process.stderr.write(`[${pluginId}] ${level}: ${message}\n`);
+  };
+  return {
+    info: (message) => emit("info", message),
+    warn: (message) => emit("warn", message),
+    error: (message) => emit("error", message),
+    debug: (message) => emit("debug", message),
+  };
+}
+
+function createSandboxApi(
+  init: SandboxHostInit,
+  state: HostState,
+  registration: SandboxRegistration,
+  logger: PluginLogger,
+): OpenClawPluginApi {
+  const granted = new Set(init.api);
+  const warn = (message: string) => {
+    registration.diagnostics.push({
+      level: "warn",
+      pluginId: init.pluginId,
+      source: init.source,
+      message,
+    });
+  };
+  const unavailable = (method: string) => () => {
+    warn(`${method} is not available to sandboxed plugins`);
+  };
+  const notGranted = (method: string, surface: string) =>
+    warn(`${method} ignored: "${surface}" is not declared in the manifest sandbox.api`);
+
+  return {
+    id: init.pluginId,
+    name: init.name,
+    version: init.version,
+    description: init.description,
+    source: init.source,
+    // Sandboxed plugins never see the gateway config (it holds credentials).
+    config: {} as OpenClawConfig,
+    pluginConfig: init.pluginConfig,
+    runtime: new Proxy({} as PluginRuntime, {
+      get: () => {
+        throw new Error("plugin sandbox: api.runtime is not available");
+      },
+    }),
+    logger,
+    registerTool: (tool, opts) => {
+      if (!granted.has("tools")) {
+        notGranted("registerTool", "tools");
+        return;
+      }
+      const described = resolveTools(tool, {});
+      const names = opts?.names ?? (opts?.name ? [opts.name] : []);
+      state.tools.push({ tool, described });
+      registration.tools.push({
+        index: state.tools.length - 1,
+        names: Array.from(new Set([...names, ...described.map((entry) => entry.name)])),
+        optional: opts?.optional === true,
+        tools: described.map(describeTool),
+      });
+    },
+    on: (hookName, handler, opts) => {
+      if (!granted.has("hooks")) {
+        notGranted(`on("${hookName}")`, "hooks");
+        return;
+      }
+      if (SANDBOX_UNSUPPORTED_HOOKS.has(hookName)) {
+        warn(`on("${hookName}") ignored: synchronous hooks cannot run in the sandbox`);
+        return;
+      }
+      state.hooks.push(handler as (...args: unknown[]) => unknown);
+      registration.hooks.push({
+        index: state.hooks.length - 1,
+        hookName,
+        priority: opts?.priority,
+      });
+    },
+    registerCommand: (command) => {
+      if (!granted.has("commands")) {
+        notGranted("registerCommand", "commands");
+        return;
+      }
+      state.commands.push(command);
+      registration.commands.push({
+        index: state.commands.length - 1,
+        name: command.name,
+        description: command.description,
+        acceptsArgs: command.acceptsArgs,
+        requireAuth: command.requireAuth,
+      });
+    },
+    registerHook: unavailable("registerHook"),
+    registerHttpHandler: unavailable("registerHttpHandler"),
+    registerHttpRoute: unavailable("registerHttpRoute"),
+    registerChannel: unavailable("registerChannel"),
+    registerGatewayMethod: unavailable("registerGatewayMethod"),
+    registerCli: unavailable("registerCli"),
+    registerService: unavailable("registerService"),
+    registerProvider: unavailable("registerProvider"),
+    resolvePath: (input) =>
+      input.startsWith("~") ? path.join(os.homedir(), input.slice(1)) : path.resolve(input),
+  };
+}
+
+async function handleCall(
+  state: HostState,
+  message: Extract<SandboxParentMessage, { type: "call" }>,
+  signal: AbortSignal,
+): Promise<unknown> {
+  if (message.kind === "tool") {
+    const entry = state.tools[message.index];
+    if (!entry) {
+      throw new Error(`unknown tool registration ${message.index}`);
+    }
+    const { toolName, toolCallId, params, ctx } = message.args;
+    const tool =
+      resolveTools(entry.tool, ctx).find((candidate) => candidate.name === toolName) ??
+      entry.described.find((candidate) => candidate.name === toolName);
+    if (!tool) {
+      throw new Error(`tool not found: ${toolName}`);
+    }
+    const result: AgentToolResult<unknown> = await tool.execute(toolCallId, params, signal);
+    return result;
+  }
+  if (message.kind === "hook") {
+    const handler = state.hooks[message.index];
+    if (!handler) {
+      throw new Error(`unknown hook registration ${message.index}`);
+    }
+    return await handler(message.args.event, message.args.ctx);
+  }
+  const command = state.commands[message.index];
+  if (!command) {
+    throw new Error(`unknown command registration ${message.index}`);
+  }
+  const ctx = { ...(message.args.ctx as object), config: {} } as PluginCommandContext;
+  return await command.handler(ctx);
+}
+
+function serve(state: HostState, registration: SandboxRegistration) {
+  const send = (message: SandboxHostMessage) => process.send?.(message);
+  const inflight = new Map<number, AbortController>();
+  process.on("message", (raw: SandboxParentMessage) => {
+    if (raw.type === "abort") {
+      inflight.get(raw.id)?.abort();
+      return;
+    }
+    const controller = new AbortController();
+    inflight.set(raw.id, controller);
+    void handleCall(state, raw, controller.signal)
+      .then((value) => send({ type: "result", id: raw.id, ok: true, value: value ?? null }))
+      .catch((err: unknown) =>
+        send({
+          type: "result",
+          id: raw.id,
+          ok: false,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      )
+      .finally(() => inflight.delete(raw.id));
+  });
+  process.on("disconnect", () => process.exit(0));
+  send({ type: "ready", registration });
+}
+
+export function runSandboxHost(mode = process.argv[1] as SandboxHostMode) {
+  const init = JSON.parse(process.env[SANDBOX_INIT_ENV] ?? "{}") as SandboxHostInit;
+  delete process.env[SANDBOX_INIT_ENV];
+  installNetworkGuard(init.network ?? []);
+
+  const logger = createHostLogger(mode, init.pluginId);
+  const state: HostState = { tools: [], hooks: [], commands: [] };
+  const registration: SandboxRegistration = { tools: [], hooks: [], commands: [], diagnostics: [] };
+  const jiti = createJiti(import.meta.url, {
+    interopDefault: true,
+    fsCache: false,
+    extensions: [".ts", ".tsx", ".mts", ".cts", ".mtsx", ".ctsx", ".js", ".mjs", ".cjs", ".json"],
+    alias: init.aliases,
+  });
+  const register = resolveModuleExport(jiti(init.source));
+  if (typeof register !== "function") {
+    throw new Error("plugin export missing register/activate");
+  }
+  const result = register(createSandboxApi(init, state, registration, logger));
+  if (result && typeof result.then === "function") {
+    registration.diagnostics.push({
+      level: "warn",
+      pluginId: init.pluginId,
+      source: init.source,
+      message: "plugin register returned a promise; async registration is ignored",
+    });
+  }
+
+  if (mode === "describe") {
+    process.stdout.write(`${SANDBOX_DESCRIBE_MARKER}${JSON.stringify(registration)}\n`, () =>
+      process.exit(0),
+    );
+    return;
+  }
+  serve(state, registration);
+}
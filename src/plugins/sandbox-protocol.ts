@@ -0,0 +1,74 @@
+import type { PluginSandboxApiSurface } from "./manifest.js";
+import type { PluginDiagnostic, PluginHookName } from "./types.js";
+
+// Messages exchanged between the gateway and a sandboxed plugin host
+// (`sandbox-host.ts`). Everything here must survive JSON serialization.
+
+export const SANDBOX_INIT_ENV = "OPENCLAW_PLUGIN_SANDBOX_INIT";
+export const SANDBOX_DESCRIBE_MARKER = "\u0000openclaw-plugin-sandbox:";
+
+export type SandboxHostMode = "describe" | "serve";
+
+export type SandboxHostInit = {
+  pluginId: string;
+  name: string;
+  version?: string;
+  description?: string;
+  source: string;
+  pluginConfig?: Record<string, unknown>;
+  api: PluginSandboxApiSurface[];
+  network: string[];
+  aliases: Record<string, string>;
+};
+
+export type SandboxToolDescriptor = {
+  name: string;
+  label?: string;
+  description?: string;
+  parameters?: unknown;
+};
+
+export type SandboxRegistration = {
+  tools: Array<{
+    index: number;
+    names: string[];
+    optional: boolean;
+    tools: SandboxToolDescriptor[];
+  }>;
+  hooks: Array<{ index: number; hookName: PluginHookName; priority?: number }>;
+  commands: Array<{
+    index: number;
+    name: string;
+    description: string;
+    acceptsArgs?: boolean;
+    requireAuth?: boolean;
+  }>;
+  diagnostics: PluginDiagnostic[];
+};
+
+export type SandboxCallKind = "tool" | "hook" | "command";
+
+export type SandboxParentMessage =
+  | { type: "call"; id: number; kind: "tool"; index: number; args: SandboxToolCallArgs }
+  | {
+      type: "call";
+      id: number;
+      kind: "hook";
+      index: number;
+      args: { event: unknown; ctx: unknown };
+    }
+  | { type: "call"; id: number; kind: "command"; index: number; args: { ctx: unknown } }
+  | { type: "abort"; id: number };
+
+export type SandboxToolCallArgs = {
+  toolName: string;
+  toolCallId: string;
+  params: unknown;
+  ctx: Record<string, unknown>;
+};
+
+export type SandboxHostMessage =
+  | { type: "ready"; registration: SandboxRegistration }
+  | { type: "result"; id: number; ok: true; value: unknown }
+  | { type: "result"; id: number; ok: false; error: string }
+  | { type: "log"; level: "info" | "warn" | "error" | "debug"; message: string };
@@ -0,0 +1,197 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  restoreStateDirEnv,
+  setStateDirEnv,
+  snapshotStateDirEnv,
+} from "../test-helpers/state-dir-env.js";
+import { createHookRunner } from "./hooks.js";
+import { loadOpenClawPlugins } from "./loader.js";
+import { isNetworkHostGranted } from "./sandbox-host.js";
+
+const fixtureRoot = path.join(os.tmpdir(), `openclaw-plugin-sandbox-${randomUUID()}`);
+const EMPTY_PLUGIN_SCHEMA = { type: "object", additionalProperties: false, properties: {} };
+let tempDirIndex = 0;
+
+function writePlugin(params: { id: string; body: string; sandbox?: unknown }) {
+  const dir = path.join(fixtureRoot, `case-${tempDirIndex++}`, params.id);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "index.js"), params.body, "utf-8");
+  fs.writeFileSync(
+    path.join(dir, "openclaw.plugin.json"),
+    JSON.stringify({ id: params.id, configSchema: EMPTY_PLUGIN_SCHEMA, sandbox: params.sandbox }),
+    "utf-8",
+  );
+  return dir;
+}
+
+afterAll(() => {
+  fs.rmSync(fixtureRoot, { recursive: true, force: true });
+});
+
+describe("plugin sandbox", () => {
+  let envSnapshot: ReturnType<typeof snapshotStateDirEnv>;
+  const prevToken = process.env.SANDBOX_TEST_TOKEN;
+
+  beforeEach(() => {
+    envSnapshot = snapshotStateDirEnv();
+    setStateDirEnv(path.join(fixtureRoot, `state-${tempDirIndex++}`));
+    process.env.SANDBOX_TEST_TOKEN = "gateway-secret";
+  });
+
+  afterEach(() => {
+    restoreStateDirEnv(envSnapshot);
+    if (prevToken === undefined) {
+      delete process.env.SANDBOX_TEST_TOKEN;
+    } else {
+      process.env.SANDBOX_TEST_TOKEN = prevToken;
+    }
+  });
+
+  it("matches network grants by exact host or subdomain wildcard", () => {
+    expect(isNetworkHostGranted("api.example.com", ["api.example.com"])).toBe(true);
+    expect(isNetworkHostGranted("API.example.com", ["*.example.com"])).toBe(true);
+    expect(isNetworkHostGranted("example.com", ["*.example.com"])).toBe(false);
+    expect(isNetworkHostGranted("evil-example.com", ["*.example.com"])).toBe(false);
+    expect(isNetworkHostGranted("127.0.0.1", ["api.example.com"])).toBe(false);
+    expect(isNetworkHostGranted("127.0.0.1", ["*"])).toBe(true);
+  });
+
+  it("runs declared tools and hooks out of process without gateway secrets", async () => {
+    const secretFile = path.join(fixtureRoot, "gateway-secret.txt");
+    fs.mkdirSync(fixtureRoot, { recursive: true });
+    fs.writeFileSync(secretFile, "top secret", "utf-8");
+    const dir = writePlugin({
+      id: "sandboxed",
+      sandbox: { api: ["tools", "hooks"] },
+      body: `import dgram from "node:dgram";
+import dns from "node:dns";
+import fs from "node:fs";
+import net from "node:net";
+const probe = (fn) => { try { fn(); return "allowed"; } catch { return "denied"; } };
+export default {
+  register(api) {
+    api.registerTool({
+      name: "sandbox_probe",
+      label: "Probe",
+      description: "Reports what the sandbox allows",
+      parameters: { type: "object", properties: { text: { type: "string" } } },
+      async execute(_id, params) {
+        const report = {
+          text: params.text,
+          pid: process.pid,
+          read: probe(() => fs.readFileSync(${JSON.stringify(secretFile)}, "utf-8")),
+          net: probe(() => net.connect(9, "127.0.0.1").destroy()),
+          udp: probe(() => dgram.createSocket("udp4").send("leak", 9, "127.0.0.1")),
+          udpConnected: probe(() => dgram.createSocket("udp4").connect(9, "127.0.0.1")),
+          dns: probe(() => dns.resolveTxt("leak.example.com", () => {})),
+          dnsPromise: probe(() => void dns.promises.lookup("leak.example.com").catch(() => {})),
+          granted: probe(() => net.connect(9, "granted.example").on("error", () => {}).destroy()),
+          grantedLookup: probe(() =>
+            net
+              .connect({ host: "granted.example", port: 9, lookup: (_h, _o, cb) => cb(null, "127.0.0.1", 4) })
+              .on("error", () => {})
+              .destroy(),
+          ),
+          udpLookup: probe(() =>
+            dgram.createSocket({ type: "udp4", lookup: (_h, _o, cb) => cb(null, "127.0.0.1", 4) }),
+          ),
+          udpLookupCtor: probe(
+            () => new dgram.Socket({ type: "udp4", lookup: (_h, _o, cb) => cb(null, "127.0.0.1", 4) }),
+          ),
+          env: process.env.SANDBOX_TEST_TOKEN ?? null,
+          config: Object.keys(api.config).length,
+        };
+        return { content: [{ type: "text", text: JSON.stringify(report) }] };
+      },
+    });
+    api.on("message_sending", (event) => ({ content: event.content.toUpperCase() }));
+    api.registerCommand({ name: "sbx", description: "nope", handler: () => ({ text: "x" }) });
+    api.registerHttpRoute({ path: "/sandboxed", handler() {} });
+  },
+};`,
+    });
+
+    const registry = loadOpenClawPlugins({
+      cache: false,
+      config: {
+        gateway: { auth: { token: "gateway-token" } },
+        plugins: {
+          load: { paths: [dir] },
+          allow: ["sandboxed"],
+          entries: { sandboxed: { sandbox: true } },
+          installs: {
+            sandboxed: { source: "path", grants: { network: ["granted.example"] } },
+          },
+        },
+      },
+    });
+
+    const record = registry.plugins.find((entry) => entry.id === "sandboxed");
+    expect(record?.status).toBe("loaded");
+    expect(record?.sandbox?.api).toEqual(["tools", "hooks"]);
+    expect(record?.toolNames).toEqual(["sandbox_probe"]);
+    expect(registry.httpRoutes).toHaveLength(0);
+    expect(registry.commands).toHaveLength(0);
+    expect(registry.diagnostics.map((diag) => diag.message)).toEqual(
+      expect.arrayContaining([
+        'registerCommand ignored: "commands" is not declared in the manifest sandbox.api',
+        "registerHttpRoute is not available to sandboxed plugins",
+      ]),
+    );
+
+    const [tool] = registry.tools[0].factory({ agentId: "main" }) as Array<{
+      execute: (id: string, params: unknown) => Promise<{ content: Array<{ text: string }> }>;
+    }>;
+    const result = await tool.execute("call-1", { text: "hi" });
+    const report = JSON.parse(result.content[0]?.text ?? "{}") as Record<string, unknown>;
+    expect(report).toMatchObject({
+      text: "hi",
+      read: "denied",
+      net: "denied",
+      udp: "denied",
+      udpConnected: "denied",
+      dns: "denied",
+      dnsPromise: "denied",
+      granted: "allowed",
+      grantedLookup: "denied",
+      udpLookup: "denied",
+      udpLookupCtor: "denied",
+      env: null,
+      config: 0,
+    });
+    expect(report.pid).not.toBe(process.pid);
+
+    const hooks = createHookRunner(registry);
+    const sending = await hooks.runMessageSending(
+      { to: "+1555", content: "quiet please" },
+      { channelId: "telegram" },
+    );
+    expect(sending?.content).toBe("QUIET PLEASE");
+  }, 60_000);
+
+  it("refuses to sandbox a plugin whose manifest declares no capabilities", () => {
+    const dir = writePlugin({
+      id: "undeclared",
+      body: `export default { register() {} };`,
+    });
+
+    const registry = loadOpenClawPlugins({
+      cache: false,
+      config: {
+        plugins: {
+          load: { paths: [dir] },
+          allow: ["undeclared"],
+          entries: { undeclared: { sandbox: true } },
+        },
+      },
+    });
+
+    const record = registry.plugins.find((entry) => entry.id === "undeclared");
+    expect(record?.status).toBe("error");
+    expect(record?.error).toContain("declares no sandbox capabilities");
+  });
+});
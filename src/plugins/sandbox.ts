@@ -0,0 +1,441 @@
+import type { AgentToolResult } from "@mariozechner/pi-agent-core";
+import { spawn, spawnSync, type ChildProcess } from "node:child_process";
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import type { AnyAgentTool } from "../agents/tools/common.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { PluginManifestSandbox, PluginSandboxApiSurface } from "./manifest.js";
+import type {
+  SandboxCallKind,
+  SandboxHostInit,
+  SandboxHostMessage,
+  SandboxHostMode,
+  SandboxParentMessage,
+  SandboxRegistration,
+  SandboxToolDescriptor,
+} from "./sandbox-protocol.js";
+import type {
+  OpenClawPluginApi,
+  PluginCommandResult,
+  PluginHookHandlerMap,
+  PluginLogger,
+} from "./types.js";
+import { resolveStateDir } from "../config/paths.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import { resolveUserPath } from "../utils.js";
+import { SANDBOX_DESCRIBE_MARKER, SANDBOX_INIT_ENV } from "./sandbox-protocol.js";
+
+const DESCRIBE_TIMEOUT_MS = 30_000;
+const CALL_TIMEOUT_MS = 60_000;
+const DESCRIBE_MAX_BUFFER = 16 * 1024 * 1024;
+// Everything else (API keys, tokens, OPENCLAW_* overrides) stays in the gateway.
+const PASSTHROUGH_ENV = ["PATH", "HOME", "LANG", "LC_ALL", "TZ", "NODE_ENV"];
+
+export type PluginSandboxPolicy = {
+  api: PluginSandboxApiSurface[];
+  fs: { read: string[]; write: string[] };
+  network: string[];
+  /** Private read/write directory; also the host's `OPENCLAW_STATE_DIR`. */
+  dataDir: string;
+};
+
+export type SandboxSpawnSpec = {
+  command: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+};
+
+export type PluginSandboxHost = {
+  call: (
+    kind: SandboxCallKind,
+    index: number,
+    args: unknown,
+    opts?: { signal?: AbortSignal; timeoutMs?: number },
+  ) => Promise<unknown>;
+  stop: () => void;
+};
+
+/**
+ * API surfaces come from the manifest; filesystem and network access only from
+ * the grants the user approved at install time (`plugins.installs.<id>.grants`).
+ */
+export function resolvePluginSandboxPolicy(params: {
+  config: OpenClawConfig;
+  pluginId: string;
+  manifest: PluginManifestSandbox;
+  env?: NodeJS.ProcessEnv;
+}): PluginSandboxPolicy {
+  const grants = params.config.plugins?.installs?.[params.pluginId]?.grants;
+  return {
+    api: [...params.manifest.api],
+    fs: {
+      read: (grants?.fs?.read ?? []).map((entry) => resolveUserPath(entry)),
+      write: (grants?.fs?.write ?? []).map((entry) => resolveUserPath(entry)),
+    },
+    network: [...(grants?.network ?? [])],
+    dataDir: path.join(resolveStateDir(params.env), "plugin-data", params.pluginId),
+  };
+}
+
+function realpathOrSelf(target: string): string {
+  try {
+    return fs.realpathSync(target);
+  } catch {
+    return target;
+  }
+}
+
+export function buildSandboxSpawnSpec(params: {
+  hostEntry: string;
+  rootDir: string;
+  policy: PluginSandboxPolicy;
+  init: SandboxHostInit;
+}): SandboxSpawnSpec {
+  const require = createRequire(import.meta.url);
+  const jitiEntry = require.resolve("jiti");
+  const jitiRoot = path.dirname(require.resolve("jiti/package.json"));
+  // <root>/src/plugins/sandbox-host.ts or <root>/dist/plugins/sandbox-host.js
+  const packageRoot = path.resolve(path.dirname(params.hostEntry), "..", "..");
+  const { policy } = params;
+
+  const read = new Set<string>();
+  for (const entry of [
+    packageRoot,
+    path.join(packageRoot, "node_modules"),
+    jitiRoot,
+    params.rootDir,
+    policy.dataDir,
+    ...policy.fs.read,
+    ...policy.fs.write,
+  ]) {
+    read.add(entry);
+    read.add(realpathOrSelf(entry));
+  }
+  const write = new Set([policy.dataDir, ...policy.fs.write]);
+  const permissionFlag = process.allowedNodeEnvironmentFlags.has("--permission")
+    ? "--permission"
+    : "--experimental-permission";
+  const bootstrap = [
+    `const entry = ${JSON.stringify(params.hostEntry)};`,
+    `require(${JSON.stringify(jitiEntry)}).createJiti(entry, { fsCache: false })(entry).runSandboxHost();`,
+  ].join(" ");
+
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of PASSTHROUGH_ENV) {
+    if (process.env[key] !== undefined) {
+      env[key] = process.env[key];
+    }
+  }
+  env.OPENCLAW_STATE_DIR = policy.dataDir;
+  env[SANDBOX_INIT_ENV] = JSON.stringify(params.init);
+
+  return {
+    command: process.execPath,
+    args: [
+      permissionFlag,
+      ...Array.from(read, (entry) => `--allow-fs-read=${entry}`),
+      ...Array.from(write, (entry) => `--allow-fs-write=${entry}`),
+      "-e",
+      bootstrap,
+    ],
+    env,
+  };
+}
+
+function hostArgs(spec: SandboxSpawnSpec, mode: SandboxHostMode): string[] {
+  return [...spec.args, mode];
+}
+
+function tail(text: string | undefined, max = 800): string {
+  const trimmed = (text ?? "").trim();
+  return trimmed.length > max ? `…${trimmed.slice(-max)}` : trimmed;
+}
+
+/**
+ * Run the plugin's register() once in a throwaway host to learn what it registers.
+ * Synchronous because plugin loading is.
+ */
+export function describeSandboxedPlugin(
+  spec: SandboxSpawnSpec,
+): { ok: true; registration: SandboxRegistration } | { ok: false; error: string } {
+  const result = spawnSync(spec.command, hostArgs(spec, "describe"), {
+    env: spec.env,
+    encoding: "utf8",
+    timeout: DESCRIBE_TIMEOUT_MS,
+    maxBuffer: DESCRIBE_MAX_BUFFER,
+  });
+  if (result.error) {
+    return { ok: false, error: `sandbox host failed: ${formatErrorMessage(result.error)}` };
+  }
+  const line = result.stdout.split("\n").find((entry) => entry.startsWith(SANDBOX_DESCRIBE_MARKER));
+  if (!line) {
+    const status = result.signal ?? result.status;
+    return {
+      ok: false,
+      error: `sandbox host exited (${status}) before registering: ${tail(result.stderr) || "no output"}`,
+    };
+  }
+  try {
+    return {
+      ok: true,
+      registration: JSON.parse(line.slice(SANDBOX_DESCRIBE_MARKER.length)) as SandboxRegistration,
+    };
+  } catch (err) {
+    return { ok: false, error: `sandbox host sent an invalid registration: ${String(err)}` };
+  }
+}
+
+/** Long-lived host for one plugin; started on first use and restarted after a crash. */
+export function createPluginSandboxHost(params: {
+  pluginId: string;
+  spec: SandboxSpawnSpec;
+  logger: PluginLogger;
+}): PluginSandboxHost {
+  const { pluginId, spec, logger } = params;
+  const prefix = `[plugins] ${pluginId} (sandbox)`;
+  const pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (err: Error) => void }
+  >();
+  let child: ChildProcess | null = null;
+  let ready: Promise<ChildProcess> | null = null;
+  let nextId = 1;
+
+  const log = (level: "info" | "warn" | "error" | "debug", message: string) => {
+    const line = `${prefix}: ${message}`;
+    if (level === "debug") {
+      logger.debug?.(line);
+      return;
+    }
+    logger[level](line);
+  };
+
+  const start = (): Promise<ChildProcess> => {
+    if (ready) {
+      return ready;
+    }
+    ready = new Promise<ChildProcess>((resolve, reject) => {
+      const proc = spawn(spec.command, hostArgs(spec, "serve"), {
+        env: spec.env,
+        stdio: ["ignore", "pipe", "pipe", "ipc"],
+      });
+      child = proc;
+      proc.stdout?.on("data", (chunk) => log("info", String(chunk).trimEnd()));
+      proc.stderr?.on("data", (chunk) => log("warn", String(chunk).trimEnd()));
+      proc.on("message", (message: SandboxHostMessage) => {
+        if (message.type === "ready") {
+          resolve(proc);
+          return;
+        }
+        if (message.type === "log") {
+          log(message.level, message.message);
+          return;
+        }
+        const entry = pending.get(message.id);
+        if (!entry) {
+          return;
+        }
+        pending.delete(message.id);
+        if (message.ok) {
+          entry.resolve(message.value);
+        } else {
+          entry.reject(new Error(message.error));
+        }
+      });
+      const onGone = (err: Error) => {
+        if (child === proc) {
+          child = null;
+          ready = null;
+        }
+        reject(err);
+        for (const [id, entry] of pending) {
+          pending.delete(id);
+          entry.reject(err);
+        }
+      };
+      proc.on("error", (err) => onGone(new Error(`${prefix}: ${formatErrorMessage(err)}`)));
+      proc.on("exit", (code, signal) =>
+        onGone(new Error(`${prefix}: host exited (${signal ?? code})`)),
+      );
+      // The host must never keep the gateway alive on its own.
+      proc.unref();
+      proc.channel?.unref();
+    });
+    return ready;
+  };
+
+  const call: PluginSandboxHost["call"] = async (kind, index, args, opts = {}) => {
+    const proc = await start();
+    const id = nextId++;
+    return await new Promise<unknown>((resolve, reject) => {
+      const onAbort = () => proc.send({ type: "abort", id } satisfies SandboxParentMessage);
+      const timer = opts.timeoutMs
+        ? setTimeout(() => {
+            pending.delete(id);
+            cleanup();
+            reject(new Error(`${prefix}: ${kind} call timed out after ${opts.timeoutMs}ms`));
+          }, opts.timeoutMs)
+        : null;
+      const cleanup = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        opts.signal?.removeEventListener("abort", onAbort);
+      };
+      opts.signal?.addEventListener("abort", onAbort, { once: true });
+      pending.set(id, {
+        resolve: (value) => {
+          cleanup();
+          resolve(value);
+        },
+        reject: (err) => {
+          cleanup();
+          reject(err);
+        },
+      });
+      proc.send({ type: "call", id, kind, index, args } as SandboxParentMessage, (err) => {
+        if (err) {
+          pending.get(id)?.reject(err);
+          pending.delete(id);
+        }
+      });
+    });
+  };
+
+  return {
+    call,
+    stop: () => {
+      child?.kill();
+      child = null;
+      ready = null;
+    },
+  };
+}
+
+/** Drop the gateway config and anything that cannot cross the process boundary. */
+function toSandboxContext(ctx: unknown): Record<string, unknown> {
+  if (!ctx || typeof ctx !== "object") {
+    return {};
+  }
+  return JSON.parse(JSON.stringify({ ...ctx, config: undefined })) as Record<string, unknown>;
+}
+
+function createSandboxedTool(
+  host: PluginSandboxHost,
+  index: number,
+  descriptor: SandboxToolDescriptor,
+  ctx: Record<string, unknown>,
+): AnyAgentTool {
+  return {
+    name: descriptor.name,
+    label: descriptor.label ?? descriptor.name,
+    description: descriptor.description ?? "",
+    parameters: (descriptor.parameters ?? {
+      type: "object",
+      properties: {},
+    }) as AnyAgentTool["parameters"],
+    execute: async (toolCallId, params, signal) =>
+      (await host.call(
+        "tool",
+        index,
+        { toolName: descriptor.name, toolCallId, params, ctx },
+        { signal },
+      )) as AgentToolResult<unknown>,
+  };
+}
+
+/** Mirror the host's registrations into the gateway registry as IPC proxies. */
+export function registerSandboxedPlugin(params: {
+  api: OpenClawPluginApi;
+  registration: SandboxRegistration;
+  host: PluginSandboxHost;
+}) {
+  const { api, registration, host } = params;
+  for (const entry of registration.tools) {
+    api.registerTool(
+      (ctx) => {
+        const sandboxCtx = toSandboxContext(ctx);
+        return entry.tools.map((tool) => createSandboxedTool(host, entry.index, tool, sandboxCtx));
+      },
+      { names: entry.names, optional: entry.optional },
+    );
+  }
+  for (const hook of registration.hooks) {
+    const handler = (event: unknown, ctx: unknown) =>
+      host.call(
+        "hook",
+        hook.index,
+        { event, ctx: toSandboxContext(ctx) },
+        { timeoutMs: CALL_TIMEOUT_MS },
+      );
+    api.on(hook.hookName, handler as PluginHookHandlerMap[typeof hook.hookName], {
+      priority: hook.priority,
+    });
+  }
+  for (const command of registration.commands) {
+    api.registerCommand({
+      name: command.name,
+      description: command.description,
+      acceptsArgs: command.acceptsArgs,
+      requireAuth: command.requireAuth,
+      handler: async (ctx) =>
+        (await host.call(
+          "command",
+          command.index,
+          { ctx: toSandboxContext(ctx) },
+          { timeoutMs: CALL_TIMEOUT_MS },
+        )) as PluginCommandResult,
+    });
+  }
+}
+
+export function loadSandboxedPlugin(params: {
+  config: OpenClawConfig;
+  api: OpenClawPluginApi;
+  rootDir: string;
+  manifest: PluginManifestSandbox;
+  hostEntry: string | null;
+  aliases: Record<string, string>;
+  logger: PluginLogger;
+}):
+  | { ok: true; policy: PluginSandboxPolicy; registration: SandboxRegistration }
+  | { ok: false; policy: PluginSandboxPolicy; error: string } {
+  const { api } = params;
+  const policy = resolvePluginSandboxPolicy({
+    config: params.config,
+    pluginId: api.id,
+    manifest: params.manifest,
+  });
+  if (!params.hostEntry) {
+    return { ok: false, policy, error: "plugin sandbox host not found in this install" };
+  }
+  try {
+    fs.mkdirSync(policy.dataDir, { recursive: true });
+  } catch (err) {
+    return { ok: false, policy, error: `plugin data dir unavailable: ${formatErrorMessage(err)}` };
+  }
+  const spec = buildSandboxSpawnSpec({
+    hostEntry: params.hostEntry,
+    rootDir: params.rootDir,
+    policy,
+    init: {
+      pluginId: api.id,
+      name: api.name,
+      version: api.version,
+      description: api.description,
+      source: api.source,
+      pluginConfig: api.pluginConfig,
+      api: policy.api,
+      network: policy.network,
+      aliases: params.aliases,
+    },
+  });
+  const described = describeSandboxedPlugin(spec);
+  if (!described.ok) {
+    return { ok: false, policy, error: described.error };
+  }
+  const host = createPluginSandboxHost({ pluginId: api.id, spec, logger: params.logger });
+  registerSandboxedPlugin({ api, registration: described.registration, host });
+  return { ok: true, policy, registration: described.registration };
+}
@@ -312,7 +312,16 @@ export type PluginHookName =
   | "session_start"
   | "session_end"
   | "gateway_start"
-  | "gateway_stop";
+  | "gateway_stop"
+  | "before_route"
+  | "delivery_failed"
+  | "cron_run_start"
+  | "cron_run_end"
+  | "approval_requested"
+  | "approval_resolved"
+  | "subagent_spawned"
+  | "subagent_ended"
+  | "memory_indexed";
 
 // Agent context shared across agent hooks
 export type PluginHookAgentContext = {
@@ -523,6 +532,133 @@ export type PluginHookGatewayStopEvent = {
   reason?: string;
 };
 
+// before_route hook — fired for inbound messages before the reply run is dispatched
+export type PluginHookBeforeRouteEvent = {
+  /** Agent resolved from bindings. */
+  agentId: string;
+  /** Session key resolved from bindings and `session.dmScope`. */
+  sessionKey: string;
+  from: string;
+  to?: string;
+  content: string;
+  chatType?: string;
+  senderId?: string;
+  threadId?: string | number;
+};
+
+export type PluginHookBeforeRouteResult = {
+  /** Route to another agent; the session key is re-scoped to it unless `sessionKey` is set. */
+  agentId?: string;
+  sessionKey?: string;
+};
+
+// delivery_failed hook
+export type PluginHookDeliveryFailedEvent = {
+  to: string;
+  content: string;
+  mediaUrls: string[];
+  error: string;
+};
+
+// Cron context
+export type PluginHookCronContext = {
+  agentId?: string;
+  jobId: string;
+};
+
+// cron_run_start hook
+export type PluginHookCronRunStartEvent = {
+  jobId: string;
+  jobName?: string;
+  runId?: string;
+  runAtMs?: number;
+  /** Run id this run replays (`cron.replay`). */
+  replayOf?: string;
+};
+
+// cron_run_end hook
+export type PluginHookCronRunEndEvent = {
+  jobId: string;
+  jobName?: string;
+  runId?: string;
+  status: "ok" | "error" | "skipped";
+  error?: string;
+  summary?: string;
+  sessionKey?: string;
+  durationMs?: number;
+  nextRunAtMs?: number;
+};
+
+// Approval context
+export type PluginHookApprovalContext = {
+  agentId?: string;
+  sessionKey?: string;
+};
+
+// approval_requested hook
+export type PluginHookApprovalRequestedEvent = {
+  id: string;
+  kind: "exec";
+  command: string;
+  cwd?: string;
+  host?: string;
+  createdAtMs: number;
+  expiresAtMs: number;
+};
+
+// approval_resolved hook — also fired when a request expires without a decision
+export type PluginHookApprovalResolvedEvent = {
+  id: string;
+  kind: "exec";
+  command: string;
+  decision: "allow-once" | "allow-always" | "deny" | "expired";
+  resolvedBy?: string;
+  durationMs: number;
+};
+
+// Subagent context
+export type PluginHookSubagentContext = {
+  /** Agent that owns the child session. */
+  agentId?: string;
+  requesterSessionKey: string;
+};
+
+// subagent_spawned hook
+export type PluginHookSubagentSpawnedEvent = {
+  runId: string;
+  childSessionKey: string;
+  task: string;
+  label?: string;
+  model?: string;
+  cleanup: "delete" | "keep";
+};
+
+// subagent_ended hook
+export type PluginHookSubagentEndedEvent = {
+  runId: string;
+  childSessionKey: string;
+  status: "ok" | "error" | "timeout" | "killed" | "unknown";
+  error?: string;
+  durationMs?: number;
+};
+
+// Memory context
+export type PluginHookMemoryContext = {
+  agentId: string;
+  workspaceDir?: string;
+};
+
+// memory_indexed hook
+export type PluginHookMemoryIndexedEvent = {
+  reason?: string;
+  force?: boolean;
+  provider: string;
+  model: string;
+  files: number;
+  chunks: number;
+  durationMs: number;
+};
+
 // Hook handler types mapped by hook name
 export type PluginHookHandlerMap = {
   before_agent_start: (
@@ -587,6 +723,42 @@ export type PluginHookHandlerMap = {
     event: PluginHookGatewayStopEvent,
     ctx: PluginHookGatewayContext,
   ) => Promise<void> | void;
+  before_route: (
+    event: PluginHookBeforeRouteEvent,
+    ctx: PluginHookMessageContext,
+  ) => Promise<PluginHookBeforeRouteResult | void> | PluginHookBeforeRouteResult | void;
+  delivery_failed: (
+    event: PluginHookDeliveryFailedEvent,
+    ctx: PluginHookMessageContext,
+  ) => Promise<void> | void;
+  cron_run_start: (
+    event: PluginHookCronRunStartEvent,
+    ctx: PluginHookCronContext,
+  ) => Promise<void> | void;
+  cron_run_end: (
+    event: PluginHookCronRunEndEvent,
+    ctx: PluginHookCronContext,
+  ) => Promise<void> | void;
+  approval_requested: (
+    event: PluginHookApprovalRequestedEvent,
+    ctx: PluginHookApprovalContext,
+  ) => Promise<void> | void;
+  approval_resolved: (
+    event: PluginHookApprovalResolvedEvent,
+    ctx: PluginHookApprovalContext,
+  ) => Promise<void> | void;
+  subagent_spawned: (
+    event: PluginHookSubagentSpawnedEvent,
+    ctx: PluginHookSubagentContext,
+  ) => Promise<void> | void;
+  subagent_ended: (
+    event: PluginHookSubagentEndedEvent,
+    ctx: PluginHookSubagentContext,
+  ) => Promise<void> | void;
+  memory_indexed: (
+    event: PluginHookMemoryIndexedEvent,
+    ctx: PluginHookMemoryContext,
+  ) => Promise<void> | void;
 };
 
 export type PluginHookRegistration<K extends PluginHookName = PluginHookName> = {
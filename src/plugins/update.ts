@@ -211,6 +211,7 @@ export async function updateNpmInstalledPlugins(params: {
           dryRun: true,
           expectedPluginId: pluginId,
           logger,
+          config: params.config,
         });
       } catch (err) {
         outcomes.push({
@@ -258,6 +259,7 @@ export async function updateNpmInstalledPlugins(params: {
         mode: "update",
         expectedPluginId: pluginId,
         logger,
+        config: params.config,
       });
     } catch (err) {
       outcomes.push({
@@ -390,6 +392,7 @@ export async function syncPluginsForUpdateChannel(params: {
           mode: "update",
           expectedPluginId: pluginId,
           logger: params.logger,
+          config: params.config,
         });
       } catch (err) {
         summary.errors.push(`Failed to install ${pluginId}: ${String(err)}`);
@@ -0,0 +1,125 @@
+/**
+ * Test: before_route, delivery_failed, cron, approval, subagent & memory hook runners
+ *
+ * The call sites are spread across the gateway, so these exercise the runner contract.
+ */
+import { describe, expect, it, vi } from "vitest";
+import { createHookRunner } from "./hooks.js";
+import { createMockPluginRegistry } from "./hooks.test-helpers.js";
+
+describe("before_route hook runner", () => {
+  it("merges overrides with higher-priority plugins winning", async () => {
+    const low = vi.fn().mockReturnValue({ agentId: "ops", sessionKey: "agent:ops:low" });
+    const high = vi.fn().mockReturnValue({ agentId: "support" });
+    const registry = createMockPluginRegistry([
+      { hookName: "before_route", handler: low },
+      { hookName: "before_route", handler: high },
+    ]);
+    registry.typedHooks[1].priority = 10;
+    const runner = createHookRunner(registry);
+
+    const event = {
+      agentId: "main",
+      sessionKey: "agent:main:main",
+      from: "telegram:123",
+      content: "hi",
+    };
+    const result = await runner.runBeforeRoute(event, { channelId: "telegram" });
+
+    expect(high).toHaveBeenCalledWith(event, { channelId: "telegram" });
+    expect(high.mock.invocationCallOrder[0]).toBeLessThan(low.mock.invocationCallOrder[0]);
+    expect(result).toEqual({ agentId: "ops", sessionKey: "agent:ops:low" });
+  });
+
+  it("returns undefined when no plugin overrides the route", async () => {
+    const handler = vi.fn().mockReturnValue(undefined);
+    const registry = createMockPluginRegistry([{ hookName: "before_route", handler }]);
+    const runner = createHookRunner(registry);
+
+    const result = await runner.runBeforeRoute(
+      { agentId: "main", sessionKey: "agent:main:main", from: "x", content: "" },
+      { channelId: "slack" },
+    );
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(result).toBeUndefined();
+  });
+});
+
+describe("observing lifecycle hook runners", () => {
+  it("invokes delivery, cron, approval, subagent and memory hooks with their context", async () => {
+    const handlers = {
+      delivery_failed: vi.fn(),
+      cron_run_start: vi.fn(),
+      cron_run_end: vi.fn(),
+      approval_requested: vi.fn(),
+      approval_resolved: vi.fn(),
+      subagent_spawned: vi.fn(),
+      subagent_ended: vi.fn(),
+      memory_indexed: vi.fn(),
+    };
+    const registry = createMockPluginRegistry(
+      Object.entries(handlers).map(([hookName, handler]) => ({ hookName, handler })),
+    );
+    const runner = createHookRunner(registry);
+
+    await runner.runDeliveryFailed(
+      { to: "+1555", content: "hello", mediaUrls: [], error: "rate limited" },
+      { channelId: "whatsapp", accountId: "default" },
+    );
+    await runner.runCronRunStart({ jobId: "nightly", runId: "r1" }, { jobId: "nightly" });
+    await runner.runCronRunEnd(
+      { jobId: "nightly", runId: "r1", status: "error", error: "boom" },
+      { jobId: "nightly", agentId: "main" },
+    );
+    await runner.runApprovalRequested(
+      { id: "a1", kind: "exec", command: "ls", createdAtMs: 1, expiresAtMs: 2 },
+      { agentId: "main" },
+    );
+    await runner.runApprovalResolved(
+      { id: "a1", kind: "exec", command: "ls", decision: "expired", durationMs: 1 },
+      { agentId: "main" },
+    );
+    await runner.runSubagentSpawned(
+      { runId: "s1", childSessionKey: "agent:main:subagent:1", task: "t", cleanup: "keep" },
+      { agentId: "main", requesterSessionKey: "agent:main:main" },
+    );
+    await runner.runSubagentEnded(
+      { runId: "s1", childSessionKey: "agent:main:subagent:1", status: "timeout" },
+      { agentId: "main", requesterSessionKey: "agent:main:main" },
+    );
+    await runner.runMemoryIndexed(
+      { provider: "openai", model: "m", files: 3, chunks: 12, durationMs: 40 },
+      { agentId: "main" },
+    );
+
+    for (const handler of Object.values(handlers)) {
+      expect(handler).toHaveBeenCalledTimes(1);
+    }
+    expect(handlers.delivery_failed).toHaveBeenCalledWith(
+      expect.objectContaining({ error: "rate limited" }),
+      { channelId: "whatsapp", accountId: "default" },
+    );
+    expect(handlers.approval_resolved).toHaveBeenCalledWith(
+      expect.objectContaining({ decision: "expired" }),
+      { agentId: "main" },
+    );
+    expect(handlers.subagent_ended).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "timeout" }),
+      { agentId: "main", requesterSessionKey: "agent:main:main" },
+    );
+  });
+
+  it("swallows handler errors so the caller keeps going", async () => {
+    const handler = vi.fn().mockRejectedValue(new Error("plugin crashed"));
+    const registry = createMockPluginRegistry([{ hookName: "cron_run_end", handler }]);
+    const runner = createHookRunner(registry, {
+      logger: { warn: vi.fn(), error: vi.fn() },
+    });
+
+    await expect(
+      runner.runCronRunEnd({ jobId: "j", status: "ok" }, { jobId: "j" }),
+    ).resolves.toBeUndefined();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
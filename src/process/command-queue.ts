@@ -1,3 +1,8 @@
+import {
+  getActiveTraceContext,
+  runWithTraceContext,
+  startDiagnosticSpan,
+} from "../infra/diagnostic-trace.js";
 import { diagnosticLogger as diag, logLaneDequeue, logLaneEnqueue } from "../logging/diagnostic.js";
 import { CommandLane } from "./lanes.js";
 /**
@@ -135,11 +140,26 @@ export function enqueueCommandInLane<T>(
   const cleaned = lane.trim() || CommandLane.Main;
   const warnAfterMs = opts?.warnAfterMs ?? 2_000;
   const state = getLaneState(cleaned);
+  // The task runs later from whichever drain picks it up; keep it in the enqueuer's trace.
+  const traceContext = getActiveTraceContext();
+  let waitSpan = startDiagnosticSpan("openclaw.queue.wait", {
+    attributes: { "openclaw.lane": cleaned },
+  });
+  const endWait = () => {
+    waitSpan?.end();
+    waitSpan = undefined;
+  };
   return new Promise<T>((resolve, reject) => {
     state.queue.push({
-      task: () => task(),
+      task: () => {
+        endWait();
+        return runWithTraceContext(traceContext, task);
+      },
       resolve: (value) => resolve(value as T),
-      reject,
+      reject: (reason) => {
+        endWait();
+        reject(reason);
+      },
       enqueuedAt: Date.now(),
       warnAfterMs,
       onWait: opts?.onWait,
@@ -0,0 +1,159 @@
+import type { ChatType } from "../channels/chat-type.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { AgentBindingRule } from "../config/types.agents.js";
+import { normalizeChatType } from "../channels/chat-type.js";
+import { minutesUntilActiveHours } from "../infra/heartbeat-active-hours.js";
+import { escapeRegExp, normalizeE164 } from "../utils.js";
+
+/** Inbound message details used by content-based binding rules. */
+export type RouteMessage = {
+  text?: string | null;
+  senderId?: string | null;
+  senderUsername?: string | null;
+  senderName?: string | null;
+  senderE164?: string | null;
+};
+
+export type NormalizedBindingRule = {
+  /** Set when the rule cannot match (e.g. a regex that does not compile). */
+  invalid: boolean;
+  keywords: RegExp[] | null;
+  regex: RegExp | null;
+  prefix: string | null;
+  senderIds: Set<string> | null;
+  senderUsernames: Set<string> | null;
+  senderNames: Set<string> | null;
+  senderE164: Set<string> | null;
+  chatTypes: Set<ChatType> | null;
+  activeHours: AgentBindingRule["activeHours"] | null;
+};
+
+function normalizeList(
+  values: unknown,
+  normalize: (value: string) => string = (value) => value.trim().toLowerCase(),
+): Set<string> | null {
+  if (!Array.isArray(values)) {
+    return null;
+  }
+  const normalized = values
+    .filter((value): value is string => typeof value === "string")
+    .map(normalize)
+    .filter(Boolean);
+  return normalized.length > 0 ? new Set(normalized) : null;
+}
+
+function stripAt(value: string) {
+  return value.trim().replace(/^@/, "").toLowerCase();
+}
+
+function buildKeywordPattern(keyword: string): RegExp {
+  // Word boundaries that also work for non-ASCII text ("bug" must not match "debug").
+  return new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(keyword)}($|[^\\p{L}\\p{N}_])`, "iu");
+}
+
+export function normalizeBindingRule(
+  rule: AgentBindingRule | undefined,
+): NormalizedBindingRule | null {
+  if (!rule || typeof rule !== "object") {
+    return null;
+  }
+  let invalid = false;
+  let regex: RegExp | null = null;
+  if (typeof rule.regex === "string" && rule.regex.length > 0) {
+    try {
+      // Drop stateful flags so repeated tests do not depend on lastIndex.
+      const flags = (rule.regexFlags ?? "i").replace(/[gy]/g, "");
+      regex = new RegExp(rule.regex, flags);
+    } catch {
+      invalid = true;
+    }
+  }
+  const keywords = normalizeList(rule.keywords);
+  const chatTypes = Array.isArray(rule.chatTypes)
+    ? rule.chatTypes
+        .map((kind) => normalizeChatType(kind))
+        .filter((kind): kind is ChatType => Boolean(kind))
+    : [];
+  const prefix = typeof rule.prefix === "string" ? rule.prefix.trim().toLowerCase() : "";
+  return {
+    invalid,
+    keywords: keywords ? Array.from(keywords, buildKeywordPattern) : null,
+    regex,
+    prefix: prefix || null,
+    senderIds: normalizeList(rule.sender?.ids, (value) => value.trim()),
+    senderUsernames: normalizeList(rule.sender?.usernames, stripAt),
+    senderNames: normalizeList(rule.sender?.names),
+    senderE164: normalizeList(rule.sender?.e164, (value) =>
+      value.trim() ? normalizeE164(value) : "",
+    ),
+    chatTypes: chatTypes.length > 0 ? new Set(chatTypes) : null,
+    activeHours: rule.activeHours ?? null,
+  };
+}
+
+function matchesSender(rule: NormalizedBindingRule, message: RouteMessage): boolean {
+  const { senderIds, senderUsernames, senderNames, senderE164 } = rule;
+  if (!senderIds && !senderUsernames && !senderNames && !senderE164) {
+    return true;
+  }
+  const id = message.senderId?.trim();
+  if (senderIds && id && senderIds.has(id)) {
+    return true;
+  }
+  const username = message.senderUsername ? stripAt(message.senderUsername) : "";
+  if (senderUsernames && username && senderUsernames.has(username)) {
+    return true;
+  }
+  const name = message.senderName?.trim().toLowerCase();
+  if (senderNames && name && senderNames.has(name)) {
+    return true;
+  }
+  const e164 = message.senderE164?.trim() ? normalizeE164(message.senderE164) : "";
+  return Boolean(senderE164 && e164 && senderE164.has(e164));
+}
+
+/**
+ * Why a rule did not match, or null when it matches. Used for routing and by
+ * `openclaw route explain`.
+ */
+export function explainBindingRuleMismatch(
+  rule: NormalizedBindingRule,
+  params: {
+    cfg: OpenClawConfig;
+    message: RouteMessage | null | undefined;
+    chatType: ChatType | null | undefined;
+    nowMs?: number;
+  },
+): string | null {
+  if (rule.invalid) {
+    return "invalid regex";
+  }
+  const message = params.message ?? {};
+  const text = message.text ?? "";
+  if (rule.chatTypes && (!params.chatType || !rule.chatTypes.has(params.chatType))) {
+    return `chat type ${params.chatType ?? "unknown"} not in [${Array.from(rule.chatTypes).join(", ")}]`;
+  }
+  if (rule.prefix && !text.trimStart().toLowerCase().startsWith(rule.prefix)) {
+    return `text does not start with "${rule.prefix}"`;
+  }
+  if (rule.keywords && !rule.keywords.some((pattern) => pattern.test(text))) {
+    return "no keyword found";
+  }
+  if (rule.regex && !rule.regex.test(text)) {
+    return `regex ${String(rule.regex)} did not match`;
+  }
+  if (!matchesSender(rule, message)) {
+    return "sender not listed";
+  }
+  if (rule.activeHours && minutesUntilActiveHours(params.cfg, rule.activeHours, params.nowMs) > 0) {
+    return `outside active hours ${rule.activeHours.start ?? "00:00"}-${rule.activeHours.end ?? "24:00"}`;
+  }
+  return null;
+}
+
+export function matchesBindingRule(
+  rule: NormalizedBindingRule,
+  params: Parameters<typeof explainBindingRuleMismatch>[1],
+): boolean {
+  return explainBindingRuleMismatch(rule, params) === null;
+}
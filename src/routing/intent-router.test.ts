@@ -0,0 +1,155 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { clearSessionStoreCacheForTest, loadSessionStore } from "../config/sessions/store.js";
+import {
+  clearIntentRouterCacheForTest,
+  parseIntentRouterReply,
+  resolveAgentRouteWithIntent,
+} from "./intent-router.js";
+
+let storePath = "";
+
+beforeEach(async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-intent-router-"));
+  storePath = path.join(dir, "sessions.json");
+  clearIntentRouterCacheForTest();
+  clearSessionStoreCacheForTest();
+});
+
+afterEach(async () => {
+  await fs.rm(path.dirname(storePath), { recursive: true, force: true });
+});
+
+function makeConfig(router: NonNullable<OpenClawConfig["agents"]>["router"]): OpenClawConfig {
+  return {
+    session: { store: storePath, dmScope: "per-peer" },
+    agents: {
+      list: [
+        { id: "main", default: true, description: "General questions" },
+        { id: "billing", name: "Billing", description: "Invoices, refunds and payments" },
+        { id: "ops", description: "Server incidents" },
+      ],
+      router,
+    },
+  };
+}
+
+const dm = (text: string) => ({
+  channel: "telegram",
+  peer: { kind: "direct" as const, id: "42" },
+  message: { text },
+});
+
+describe("resolveAgentRouteWithIntent", () => {
+  test("routes confident classifications, caches them per peer and records the decision", async () => {
+    const cfg = makeConfig({ enabled: true, minConfidence: 0.7 });
+    const classify = vi.fn(async () => ({
+      agentId: "billing",
+      confidence: 0.9,
+      reason: "refund request",
+      model: "test/router",
+    }));
+
+    const route = await resolveAgentRouteWithIntent(
+      { cfg, ...dm("I want a refund") },
+      { classify },
+    );
+    expect(route.agentId).toBe("billing");
+    expect(route.matchedBy).toBe("router");
+    expect(route.sessionKey).toBe("agent:billing:direct:42");
+    expect(classify.mock.calls[0]?.[0].candidates.map((c) => c.agentId)).toEqual([
+      "main",
+      "billing",
+      "ops",
+    ]);
+
+    const again = await resolveAgentRouteWithIntent({ cfg, ...dm("thanks!") }, { classify });
+    expect(again.agentId).toBe("billing");
+    expect(classify).toHaveBeenCalledTimes(1);
+
+    await vi.waitFor(() => {
+      expect(
+        loadSessionStore(storePath, { skipCache: true })["agent:billing:direct:42"]?.routeDecision,
+      ).toMatchObject({
+        agentId: "billing",
+        staticAgentId: "main",
+        outcome: "cached",
+        confidence: 0.9,
+        model: "test/router",
+      });
+    });
+  });
+
+  test("keeps the static route on low confidence, errors and specific bindings", async () => {
+    const cfg = makeConfig({ enabled: true });
+    const lowConfidence = vi.fn(async () => ({ agentId: "ops", confidence: 0.3 }));
+    const low = await resolveAgentRouteWithIntent(
+      { cfg, ...dm("hello") },
+      { classify: lowConfidence },
+    );
+    expect(low).toMatchObject({ agentId: "main", matchedBy: "default" });
+
+    const failing = vi.fn(async () => {
+      throw new Error("boom");
+    });
+    const failed = await resolveAgentRouteWithIntent(
+      { cfg, ...dm("server down") },
+      { classify: failing },
+    );
+    expect(failed.agentId).toBe("main");
+    await vi.waitFor(() => {
+      expect(
+        loadSessionStore(storePath, { skipCache: true })["agent:main:direct:42"]?.routeDecision,
+      ).toMatchObject({
+        outcome: "fallback",
+        reason: "classifier error: boom",
+      });
+    });
+
+    const bound = await resolveAgentRouteWithIntent(
+      {
+        cfg: {
+          ...cfg,
+          bindings: [
+            { agentId: "ops", match: { channel: "telegram", peer: { kind: "direct", id: "42" } } },
+          ],
+        },
+        ...dm("refund please"),
+      },
+      { classify: lowConfidence },
+    );
+    expect(bound.matchedBy).toBe("binding.peer");
+
+    const group = await resolveAgentRouteWithIntent(
+      { cfg, channel: "telegram", peer: { kind: "group", id: "-100" }, message: { text: "hi" } },
+      { classify: lowConfidence },
+    );
+    expect(group.matchedBy).toBe("default");
+    expect(lowConfidence).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("parseIntentRouterReply", () => {
+  const candidates = [{ agentId: "main" }, { agentId: "billing" }];
+
+  test("reads fenced JSON and clamps confidence", () => {
+    expect(
+      parseIntentRouterReply(
+        '```json\n{"agent": "Billing", "confidence": 1.4, "reason": "invoice"}\n```',
+        candidates,
+      ),
+    ).toEqual({ agentId: "billing", confidence: 1, reason: "invoice" });
+  });
+
+  test("rejects unknown agents and malformed replies", () => {
+    expect(parseIntentRouterReply('{"agent": "sales", "confidence": 0.9}', candidates)).toEqual({
+      agentId: null,
+      confidence: 0.9,
+      reason: "unknown agent",
+    });
+    expect(parseIntentRouterReply("billing", candidates).agentId).toBeNull();
+  });
+});
@@ -0,0 +1,338 @@
+import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
+import type { OpenClawConfig } from "../config/config.js";
+import type { SessionRouteDecision } from "../config/sessions/types.js";
+import type { AgentRouterConfig } from "../config/types.agents.js";
+import { getApiKeyForModel, requireApiKey } from "../agents/model-auth.js";
+import {
+  buildModelAliasIndex,
+  resolveDefaultModelForAgent,
+  resolveModelRefFromString,
+} from "../agents/model-selection.js";
+import { resolveModel } from "../agents/pi-embedded-runner/model.js";
+import { normalizeChatType } from "../channels/chat-type.js";
+import { resolveStorePath } from "../config/sessions/paths.js";
+import { updateSessionStore } from "../config/sessions/store.js";
+import { mergeSessionEntry } from "../config/sessions/types.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import { logDebug, logWarn } from "../logger.js";
+import { truncateUtf16Safe } from "../utils.js";
+import {
+  buildAgentRoute,
+  resolveAgentRoute,
+  type ResolveAgentRouteInput,
+  type ResolvedAgentRoute,
+} from "./resolve-route.js";
+import { normalizeAgentId } from "./session-key.js";
+
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+const DEFAULT_CACHE_TTL_MINUTES = 30;
+const DEFAULT_TIMEOUT_MS = 8_000;
+const MAX_CLASSIFIER_TEXT_CHARS = 2_000;
+const MAX_CACHE_ENTRIES = 5_000;
+
+/** Static matches that leave the choice open: nothing peer-, guild- or rule-specific. */
+const AMBIGUOUS_MATCHES = new Set<ResolvedAgentRoute["matchedBy"]>([
+  "default",
+  "binding.account",
+  "binding.channel",
+]);
+
+export type IntentRouterCandidate = {
+  agentId: string;
+  name?: string;
+  description?: string;
+};
+
+export type IntentClassification = {
+  agentId: string | null;
+  confidence: number;
+  reason?: string;
+};
+
+export type IntentClassifier = (params: {
+  cfg: OpenClawConfig;
+  router: AgentRouterConfig;
+  candidates: IntentRouterCandidate[];
+  text: string;
+}) => Promise<IntentClassification & { model?: string }>;
+
+type CachedDecision = {
+  agentId: string;
+  confidence: number;
+  reason?: string;
+  model?: string;
+  expiresAt: number;
+};
+
+const decisionCache = new Map<string, CachedDecision>();
+
+export function clearIntentRouterCacheForTest() {
+  decisionCache.clear();
+}
+
+export function resolveIntentRouterCandidates(cfg: OpenClawConfig): IntentRouterCandidate[] {
+  const agents = Array.isArray(cfg.agents?.list) ? cfg.agents.list : [];
+  const allowed = cfg.agents?.router?.candidates?.map((id) => normalizeAgentId(id));
+  const candidates: IntentRouterCandidate[] = [];
+  const seen = new Set<string>();
+  for (const agent of agents) {
+    const agentId = normalizeAgentId(agent.id);
+    if (seen.has(agentId) || (allowed && !allowed.includes(agentId))) {
+      continue;
+    }
+    seen.add(agentId);
+    candidates.push({
+      agentId,
+      name: agent.name?.trim() || agent.identity?.name?.trim() || undefined,
+      description: agent.description?.trim() || undefined,
+    });
+  }
+  return candidates;
+}
+
+export function buildIntentRouterPrompt(candidates: IntentRouterCandidate[], text: string): string {
+  const lines = candidates.map((candidate) => {
+    const label = candidate.name ? `${candidate.agentId} (${candidate.name})` : candidate.agentId;
+    return candidate.description ? `- ${label}: ${candidate.description}` : `- ${label}`;
+  });
+  return [
+    "You route incoming chat messages to the agent best suited to answer them.",
+    "Agents:",
+    ...lines,
+    "",
+    'Reply with JSON only: {"agent": "<agent id or null>", "confidence": <0-1>, "reason": "<short reason>"}.',
+    "Use null with low confidence when no agent clearly fits.",
+    "",
+    `<message>\n${truncateUtf16Safe(text, MAX_CLASSIFIER_TEXT_CHARS)}\n</message>`,
+  ].join("\n");
+}
+
+/** Parse the classifier reply; tolerates code fences and text around the JSON object. */
+export function parseIntentRouterReply(
+  raw: string,
+  candidates: IntentRouterCandidate[],
+): IntentClassification {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    return { agentId: null, confidence: 0, reason: "unparseable reply" };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return { agentId: null, confidence: 0, reason: "unparseable reply" };
+  }
+  const record = parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  const reason = typeof record.reason === "string" ? record.reason.trim() || undefined : undefined;
+  const confidence =
+    typeof record.confidence === "number" && Number.isFinite(record.confidence)
+      ? Math.min(1, Math.max(0, record.confidence))
+      : 0;
+  const agentRaw = typeof record.agent === "string" ? normalizeAgentId(record.agent) : "";
+  const match = candidates.find((candidate) => candidate.agentId === agentRaw);
+  if (!match) {
+    return {
+      agentId: null,
+      confidence,
+      reason: reason ?? (agentRaw ? "unknown agent" : undefined),
+    };
+  }
+  return { agentId: match.agentId, confidence, reason };
+}
+
+function isTextContentBlock(block: { type: string }): block is TextContent {
+  return block.type === "text";
+}
+
+const classifyWithModel: IntentClassifier = async ({ cfg, router, candidates, text }) => {
+  const defaultRef = resolveDefaultModelForAgent({ cfg });
+  const override = router.model?.trim();
+  const ref = override
+    ? (resolveModelRefFromString({
+        raw: override,
+        defaultProvider: defaultRef.provider,
+        aliasIndex: buildModelAliasIndex({ cfg, defaultProvider: defaultRef.provider }),
+      })?.ref ?? defaultRef)
+    : defaultRef;
+  const resolved = resolveModel(ref.provider, ref.model, undefined, cfg);
+  if (!resolved.model) {
+    throw new Error(resolved.error ?? `Unknown router model: ${ref.provider}/${ref.model}`);
+  }
+  const apiKey = requireApiKey(
+    await getApiKeyForModel({ model: resolved.model, cfg }),
+    ref.provider,
+  );
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), router.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  try {
+    const res = await completeSimple(
+      resolved.model,
+      {
+        messages: [
+          {
+            role: "user",
+            content: buildIntentRouterPrompt(candidates, text),
+            timestamp: Date.now(),
+          },
+        ],
+      },
+      { apiKey, maxTokens: 200, temperature: 0, signal: controller.signal },
+    );
+    const reply = res.content
+      .filter(isTextContentBlock)
+      .map((block) => block.text)
+      .join("\n");
+    return {
+      ...parseIntentRouterReply(reply, candidates),
+      model: `${ref.provider}/${ref.model}`,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+function buildCacheKey(route: ResolvedAgentRoute, input: ResolveAgentRouteInput): string {
+  const peer = input.peer;
+  return `${route.channel}\t${route.accountId}\t${peer?.kind ?? "direct"}\t${peer?.id ?? ""}`;
+}
+
+function shouldRunRouter(
+  router: AgentRouterConfig | undefined,
+  route: ResolvedAgentRoute,
+  input: ResolveAgentRouteInput,
+): router is AgentRouterConfig {
+  if (!router?.enabled || !AMBIGUOUS_MATCHES.has(route.matchedBy)) {
+    return false;
+  }
+  if (!input.peer || !input.message?.text?.trim()) {
+    return false;
+  }
+  const channels = router.channels?.map((channel) => channel.trim().toLowerCase());
+  if (channels && channels.length > 0 && !channels.includes(route.channel)) {
+    return false;
+  }
+  const chatTypes = router.chatTypes?.length ? router.chatTypes : ["direct"];
+  const kind = normalizeChatType(input.peer.kind);
+  return Boolean(kind && chatTypes.includes(kind));
+}
+
+async function recordRouteDecision(
+  cfg: OpenClawConfig,
+  route: ResolvedAgentRoute,
+  decision: SessionRouteDecision,
+) {
+  const storePath = resolveStorePath(cfg.session?.store, { agentId: route.agentId });
+  await updateSessionStore(
+    storePath,
+    (store) => {
+      store[route.sessionKey] = mergeSessionEntry(store[route.sessionKey], {
+        routeDecision: decision,
+      });
+    },
+    { activeSessionKey: route.sessionKey },
+  );
+}
+
+/**
+ * resolveAgentRoute plus the optional intent router (agents.router): when the
+ * static route only matched a channel-wide binding or the default agent, a
+ * classifier model picks among the candidate agents. Low-confidence or failed
+ * classifications keep the static route. The outcome is stored as
+ * `routeDecision` on the session the message lands in.
+ */
+export async function resolveAgentRouteWithIntent(
+  input: ResolveAgentRouteInput,
+  opts?: { classify?: IntentClassifier; nowMs?: number },
+): Promise<ResolvedAgentRoute> {
+  const route = resolveAgentRoute(input);
+  const router = input.cfg.agents?.router;
+  if (!shouldRunRouter(router, route, input)) {
+    return route;
+  }
+  const candidates = resolveIntentRouterCandidates(input.cfg);
+  if (candidates.length < 2) {
+    return route;
+  }
+
+  const nowMs = opts?.nowMs ?? Date.now();
+  const cacheKey = buildCacheKey(route, input);
+  const ttlMs = (router.cacheTtlMinutes ?? DEFAULT_CACHE_TTL_MINUTES) * 60_000;
+  const finish = (next: ResolvedAgentRoute, decision: SessionRouteDecision) => {
+    logDebug(
+      `[routing] intent router: outcome=${decision.outcome} agentId=${decision.agentId} staticAgentId=${decision.staticAgentId} confidence=${decision.confidence ?? "n/a"}`,
+    );
+    void recordRouteDecision(input.cfg, next, decision).catch((err) => {
+      logWarn(`routing: failed to record intent router decision: ${formatErrorMessage(err)}`);
+    });
+    return next;
+  };
+
+  const cached = decisionCache.get(cacheKey);
+  if (cached && cached.expiresAt > nowMs) {
+    return finish(buildAgentRoute(input, cached.agentId, "router"), {
+      agentId: cached.agentId,
+      staticAgentId: route.agentId,
+      outcome: "cached",
+      confidence: cached.confidence,
+      reason: cached.reason,
+      model: cached.model,
+      decidedAt: nowMs,
+    });
+  }
+  decisionCache.delete(cacheKey);
+
+  let result: Awaited<ReturnType<IntentClassifier>>;
+  try {
+    result = await (opts?.classify ?? classifyWithModel)({
+      cfg: input.cfg,
+      router,
+      candidates,
+      text: input.message?.text ?? "",
+    });
+  } catch (err) {
+    logWarn(`routing: intent router failed, using static route: ${formatErrorMessage(err)}`);
+    return finish(route, {
+      agentId: route.agentId,
+      staticAgentId: route.agentId,
+      outcome: "fallback",
+      reason: `classifier error: ${formatErrorMessage(err)}`,
+      decidedAt: nowMs,
+    });
+  }
+
+  const minConfidence = router.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  if (!result.agentId || result.confidence < minConfidence) {
+    return finish(route, {
+      agentId: route.agentId,
+      staticAgentId: route.agentId,
+      outcome: "fallback",
+      confidence: result.confidence,
+      reason: result.reason ?? `confidence below ${minConfidence}`,
+      model: result.model,
+      decidedAt: nowMs,
+    });
+  }
+
+  if (ttlMs > 0) {
+    if (decisionCache.size >= MAX_CACHE_ENTRIES) {
+      decisionCache.clear();
+    }
+    decisionCache.set(cacheKey, {
+      agentId: result.agentId,
+      confidence: result.confidence,
+      reason: result.reason,
+      model: result.model,
+      expiresAt: nowMs + ttlMs,
+    });
+  }
+  return finish(buildAgentRoute(input, result.agentId, "router"), {
+    agentId: result.agentId,
+    staticAgentId: route.agentId,
+    outcome: "routed",
+    confidence: result.confidence,
+    reason: result.reason,
+    model: result.model,
+    decidedAt: nowMs,
+  });
+}
@@ -1,7 +1,7 @@
 import { describe, expect, test } from "vitest";
 import type { ChatType } from "../channels/chat-type.js";
 import type { OpenClawConfig } from "../config/config.js";
-import { resolveAgentRoute } from "./resolve-route.js";
+import { explainAgentRoute, resolveAgentRoute } from "./resolve-route.js";
 
 describe("resolveAgentRoute", () => {
   test("defaults to main/default when no bindings exist", () => {
@@ -757,3 +757,79 @@ describe("role-based agent routing", () => {
     expect(route.matchedBy).toBe("binding.guild+roles");
   });
 });
+
+describe("resolveAgentRoute content rules", () => {
+  const cfg: OpenClawConfig = {
+    agents: {
+      list: [{ id: "main", default: true }, { id: "support" }, { id: "oncall" }, { id: "boss" }],
+    },
+    bindings: [
+      { agentId: "main", match: { channel: "telegram", peer: { kind: "direct", id: "42" } } },
+      {
+        agentId: "support",
+        match: {
+          channel: "telegram",
+          rule: { keywords: ["refund", "bug"], chatTypes: ["direct"] },
+        },
+      },
+      {
+        agentId: "oncall",
+        priority: 10,
+        match: {
+          channel: "telegram",
+          rule: {
+            prefix: "/page",
+            activeHours: { start: "22:00", end: "07:00", timezone: "UTC" },
+          },
+        },
+      },
+      {
+        agentId: "boss",
+        priority: 5,
+        match: { channel: "telegram", rule: { sender: { usernames: ["@TheBoss"] } } },
+      },
+    ],
+  };
+  const route = (text: string, extra?: { username?: string; nowMs?: number }) =>
+    resolveAgentRoute({
+      cfg,
+      channel: "telegram",
+      peer: { kind: "direct", id: "42" },
+      message: { text, senderId: "42", senderUsername: extra?.username },
+      nowMs: extra?.nowMs ?? Date.parse("2026-03-02T12:00:00Z"),
+    });
+
+  test("rules win over peer bindings and match whole keywords", () => {
+    expect(route("I want a Refund please")).toMatchObject({
+      agentId: "support",
+      matchedBy: "binding.rule",
+    });
+    expect(route("debugging is fun")).toMatchObject({ agentId: "main", matchedBy: "binding.peer" });
+  });
+
+  test("higher priority rules are tried first and honor active hours", () => {
+    const night = Date.parse("2026-03-02T23:30:00Z");
+    expect(route("/page db is down, refund", { nowMs: night }).agentId).toBe("oncall");
+    expect(route("/page db is down, refund").agentId).toBe("support");
+    expect(route("bug report", { username: "theboss" }).agentId).toBe("boss");
+  });
+
+  test("explain reports why bindings were skipped", () => {
+    const explanation = explainAgentRoute({
+      cfg,
+      channel: "telegram",
+      peer: { kind: "group", id: "-100" },
+      message: { text: "refund" },
+      nowMs: Date.parse("2026-03-02T12:00:00Z"),
+    });
+    expect(explanation.route.matchedBy).toBe("default");
+    expect(
+      explanation.bindings.map((entry) => [entry.agentId, entry.status, entry.reason]),
+    ).toEqual([
+      ["main", "skipped", "peer direct:42 did not match"],
+      ["support", "skipped", "chat type group not in [direct]"],
+      ["oncall", "skipped", 'text does not start with "/page"'],
+      ["boss", "skipped", "sender not listed"],
+    ]);
+  });
+});
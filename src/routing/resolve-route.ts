@@ -1,9 +1,16 @@
 import type { ChatType } from "../channels/chat-type.js";
 import type { OpenClawConfig } from "../config/config.js";
+import type { AgentBinding } from "../config/types.agents.js";
 import { resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { normalizeChatType } from "../channels/chat-type.js";
 import { shouldLogVerbose } from "../globals.js";
 import { logDebug } from "../logger.js";
+import {
+  explainBindingRuleMismatch,
+  normalizeBindingRule,
+  type NormalizedBindingRule,
+  type RouteMessage,
+} from "./binding-rules.js";
 import { listBindings } from "./bindings.js";
 import {
   buildAgentMainSessionKey,
@@ -33,8 +40,14 @@ export type ResolveAgentRouteInput = {
   teamId?: string | null;
   /** Discord member role IDs — used for role-based agent routing. */
   memberRoleIds?: string[];
+  /** Message text and sender, for content-based binding rules (`match.rule`). */
+  message?: RouteMessage | null;
+  /** Clock for `rule.activeHours` (default: now). */
+  nowMs?: number;
 };
 
+export type { RouteMessage } from "./binding-rules.js";
+
 export type ResolvedAgentRoute = {
   agentId: string;
   channel: string;
@@ -45,6 +58,7 @@ export type ResolvedAgentRoute = {
   mainSessionKey: string;
   /** Match description for debugging/logging. */
   matchedBy:
+    | "binding.rule"
     | "binding.peer"
     | "binding.peer.parent"
     | "binding.guild+roles"
@@ -52,6 +66,7 @@ export type ResolvedAgentRoute = {
     | "binding.team"
     | "binding.account"
     | "binding.channel"
+    | "router"
     | "default";
 };
 
@@ -154,11 +169,13 @@ type NormalizedBindingMatch = {
   guildId: string | null;
   teamId: string | null;
   roles: string[] | null;
+  rule: NormalizedBindingRule | null;
 };
 
 type EvaluatedBinding = {
   binding: ReturnType<typeof listBindings>[number];
   match: NormalizedBindingMatch;
+  priority: number;
 };
 
 type BindingScope = {
@@ -207,7 +224,11 @@ function getEvaluatedBindingsForChannelAccount(
     if (!matchesAccountId(binding.match?.accountId, accountId)) {
       return [];
     }
-    return [{ binding, match: normalizeBindingMatch(binding.match) }];
+    const priority =
+      typeof binding.priority === "number" && Number.isFinite(binding.priority)
+        ? binding.priority
+        : 0;
+    return [{ binding, match: normalizeBindingMatch(binding.match), priority }];
   });
 
   cache.byChannelAccount.set(cacheKey, evaluated);
@@ -241,6 +262,7 @@ function normalizeBindingMatch(
         guildId?: string | undefined;
         teamId?: string | undefined;
         roles?: string[] | undefined;
+        rule?: AgentBinding["match"]["rule"];
       }
     | undefined,
 ): NormalizedBindingMatch {
@@ -251,6 +273,7 @@ function normalizeBindingMatch(
     guildId: normalizeId(match?.guildId) || null,
     teamId: normalizeId(match?.teamId) || null,
     roles: Array.isArray(rawRoles) && rawRoles.length > 0 ? rawRoles : null,
+    rule: normalizeBindingRule(match?.rule),
   };
 }
 
@@ -266,33 +289,78 @@ function hasRolesConstraint(match: NormalizedBindingMatch): boolean {
   return Boolean(match.roles);
 }
 
-function matchesBindingScope(match: NormalizedBindingMatch, scope: BindingScope): boolean {
+function explainBindingScopeMismatch(
+  match: NormalizedBindingMatch,
+  scope: BindingScope,
+): string | null {
   if (match.peer.state === "invalid") {
-    return false;
+    return "invalid peer";
   }
   if (match.peer.state === "valid") {
     if (!scope.peer || scope.peer.kind !== match.peer.kind || scope.peer.id !== match.peer.id) {
-      return false;
+      return `peer ${match.peer.kind}:${match.peer.id} did not match`;
     }
   }
   if (match.guildId && match.guildId !== scope.guildId) {
-    return false;
+    return `guild ${match.guildId} did not match`;
   }
   if (match.teamId && match.teamId !== scope.teamId) {
-    return false;
+    return `team ${match.teamId} did not match`;
   }
   if (match.roles) {
     for (const role of match.roles) {
       if (scope.memberRoleIds.has(role)) {
-        return true;
+        return null;
       }
     }
-    return false;
+    return "no matching role";
   }
-  return true;
+  return null;
 }
 
-export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentRoute {
+function matchesBindingScope(match: NormalizedBindingMatch, scope: BindingScope): boolean {
+  return explainBindingScopeMismatch(match, scope) === null;
+}
+
+/**
+ * Route to `agentId` with the session scoping resolveAgentRoute would use for
+ * this input (unknown agents fall back to the default agent).
+ */
+export function buildAgentRoute(
+  input: ResolveAgentRouteInput,
+  agentId: string,
+  matchedBy: ResolvedAgentRoute["matchedBy"],
+): ResolvedAgentRoute {
+  const channel = normalizeToken(input.channel);
+  const accountId = normalizeAccountId(input.accountId);
+  const peer = input.peer ? { kind: input.peer.kind, id: normalizeId(input.peer.id) } : null;
+  const resolvedAgentId = pickFirstExistingAgentId(input.cfg, agentId);
+  const sessionKey = buildAgentSessionKey({
+    agentId: resolvedAgentId,
+    channel,
+    accountId,
+    peer,
+    dmScope: input.cfg.session?.dmScope ?? "main",
+    identityLinks: input.cfg.session?.identityLinks,
+  }).toLowerCase();
+  const mainSessionKey = buildAgentMainSessionKey({
+    agentId: resolvedAgentId,
+    mainKey: DEFAULT_MAIN_KEY,
+  }).toLowerCase();
+  return {
+    agentId: resolvedAgentId,
+    channel,
+    accountId,
+    sessionKey,
+    mainSessionKey,
+    matchedBy,
+  };
+}
+
+function resolveAgentRouteMatch(input: ResolveAgentRouteInput): {
+  route: ResolvedAgentRoute;
+  binding: AgentBinding | null;
+} {
   const channel = normalizeToken(input.channel);
   const accountId = normalizeAccountId(input.accountId);
   const peer = input.peer ? { kind: input.peer.kind, id: normalizeId(input.peer.id) } : null;
@@ -303,32 +371,11 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
 
   const bindings = getEvaluatedBindingsForChannelAccount(input.cfg, channel, accountId);
 
-  const dmScope = input.cfg.session?.dmScope ?? "main";
-  const identityLinks = input.cfg.session?.identityLinks;
-
-  const choose = (agentId: string, matchedBy: ResolvedAgentRoute["matchedBy"]) => {
-    const resolvedAgentId = pickFirstExistingAgentId(input.cfg, agentId);
-    const sessionKey = buildAgentSessionKey({
-      agentId: resolvedAgentId,
-      channel,
-      accountId,
-      peer,
-      dmScope,
-      identityLinks,
-    }).toLowerCase();
-    const mainSessionKey = buildAgentMainSessionKey({
-      agentId: resolvedAgentId,
-      mainKey: DEFAULT_MAIN_KEY,
-    }).toLowerCase();
-    return {
-      agentId: resolvedAgentId,
-      channel,
-      accountId,
-      sessionKey,
-      mainSessionKey,
-      matchedBy,
-    };
-  };
+  const choose = (
+    agentId: string,
+    matchedBy: ResolvedAgentRoute["matchedBy"],
+    binding: AgentBinding | null = null,
+  ) => ({ route: buildAgentRoute(input, agentId, matchedBy), binding });
 
   const shouldLogDebug = shouldLogVerbose();
   const formatPeer = (value?: RoutePeer | null) =>
@@ -363,6 +410,29 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
     memberRoleIds: memberRoleIdSet,
   };
 
+  // Content rules win over every structural tier; higher priority first.
+  const ruleBindings = bindings
+    .filter((candidate) => candidate.match.rule)
+    .toSorted((a, b) => b.priority - a.priority);
+  for (const candidate of ruleBindings) {
+    if (
+      !matchesRuleBinding(candidate, {
+        cfg: input.cfg,
+        scope: baseScope,
+        peer,
+        parentPeer,
+        message: input.message,
+        nowMs: input.nowMs,
+      })
+    ) {
+      continue;
+    }
+    if (shouldLogDebug) {
+      logDebug(`[routing] match: matchedBy=binding.rule agentId=${candidate.binding.agentId}`);
+    }
+    return choose(candidate.binding.agentId, "binding.rule", candidate.binding);
+  }
+
   const tiers: Array<{
     matchedBy: Exclude<ResolvedAgentRoute["matchedBy"], "default">;
     enabled: boolean;
@@ -421,6 +491,7 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
     }
     const matched = bindings.find(
       (candidate) =>
+        !candidate.match.rule &&
         tier.predicate(candidate) &&
         matchesBindingScope(candidate.match, {
           ...baseScope,
@@ -431,9 +502,131 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
       if (shouldLogDebug) {
         logDebug(`[routing] match: matchedBy=${tier.matchedBy} agentId=${matched.binding.agentId}`);
       }
-      return choose(matched.binding.agentId, tier.matchedBy);
+      return choose(matched.binding.agentId, tier.matchedBy, matched.binding);
     }
   }
 
   return choose(resolveDefaultAgentId(input.cfg), "default");
 }
+
+export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentRoute {
+  return resolveAgentRouteMatch(input).route;
+}
+
+function matchesRuleBinding(
+  candidate: EvaluatedBinding,
+  params: {
+    cfg: OpenClawConfig;
+    scope: Omit<BindingScope, "peer">;
+    peer: RoutePeer | null;
+    parentPeer: RoutePeer | null;
+    message?: RouteMessage | null;
+    nowMs?: number;
+  },
+): boolean {
+  return explainRuleBindingMismatch(candidate, params) === null;
+}
+
+function explainRuleBindingMismatch(
+  candidate: EvaluatedBinding,
+  params: Parameters<typeof matchesRuleBinding>[1],
+): string | null {
+  const scopeMismatch = explainBindingScopeMismatch(candidate.match, {
+    ...params.scope,
+    peer: params.peer,
+  });
+  if (
+    scopeMismatch &&
+    (!params.parentPeer?.id ||
+      !matchesBindingScope(candidate.match, { ...params.scope, peer: params.parentPeer }))
+  ) {
+    return scopeMismatch;
+  }
+  if (!candidate.match.rule) {
+    return null;
+  }
+  return explainBindingRuleMismatch(candidate.match.rule, {
+    cfg: params.cfg,
+    message: params.message,
+    chatType: params.peer?.kind,
+    nowMs: params.nowMs,
+  });
+}
+
+export type AgentRouteBindingExplanation = {
+  /** Position in `bindings`. */
+  index: number;
+  agentId: string;
+  priority?: number;
+  hasRule: boolean;
+  status: "selected" | "matched" | "skipped";
+  /** Why the binding did not match, or why it lost. */
+  reason?: string;
+};
+
+export type AgentRouteExplanation = {
+  route: ResolvedAgentRoute;
+  bindings: AgentRouteBindingExplanation[];
+};
+
+/**
+ * Resolve a route and report, for every configured binding, whether it
+ * matched and why not. Backs `openclaw route explain`.
+ */
+export function explainAgentRoute(input: ResolveAgentRouteInput): AgentRouteExplanation {
+  const { route, binding: selected } = resolveAgentRouteMatch(input);
+  const channel = normalizeToken(input.channel);
+  const accountId = normalizeAccountId(input.accountId);
+  const peer = input.peer ? { kind: input.peer.kind, id: normalizeId(input.peer.id) } : null;
+  const parentPeer = input.parentPeer
+    ? { kind: input.parentPeer.kind, id: normalizeId(input.parentPeer.id) }
+    : null;
+  const scope = {
+    guildId: normalizeId(input.guildId),
+    teamId: normalizeId(input.teamId),
+    memberRoleIds: new Set(input.memberRoleIds ?? []),
+  };
+  const evaluated = new Map(
+    getEvaluatedBindingsForChannelAccount(input.cfg, channel, accountId).map((entry) => [
+      entry.binding,
+      entry,
+    ]),
+  );
+
+  const bindings = listBindings(input.cfg).map((binding, index): AgentRouteBindingExplanation => {
+    const base = {
+      index,
+      agentId: binding?.agentId ?? "",
+      priority: binding?.priority,
+      hasRule: Boolean(binding?.match?.rule),
+    };
+    if (binding === selected) {
+      return { ...base, status: "selected" };
+    }
+    const entry = evaluated.get(binding);
+    if (!entry) {
+      const reason = !matchesChannel(binding?.match, channel)
+        ? `channel ${normalizeToken(binding?.match?.channel) || "(none)"} did not match`
+        : `account ${binding.match.accountId?.trim() || DEFAULT_ACCOUNT_ID} did not match`;
+      return { ...base, status: "skipped", reason };
+    }
+    const mismatch = explainRuleBindingMismatch(entry, {
+      cfg: input.cfg,
+      scope,
+      peer,
+      parentPeer,
+      message: input.message,
+      nowMs: input.nowMs,
+    });
+    if (mismatch) {
+      return { ...base, status: "skipped", reason: mismatch };
+    }
+    return {
+      ...base,
+      status: "matched",
+      reason: selected ? "a higher-precedence binding won" : undefined,
+    };
+  });
+
+  return { route, bindings };
+}
@@ -19,7 +19,6 @@ import {
 import { loadWorkspaceSkillEntries } from "../agents/skills.js";
 import { resolveToolProfilePolicy } from "../agents/tool-policy.js";
 import { listAgentWorkspaceDirs } from "../agents/workspace-dirs.js";
-import { MANIFEST_KEY } from "../compat/legacy-names.js";
 import { resolveNativeSkillsEnabled } from "../config/commands.js";
 import { createConfigIO } from "../config/config.js";
 import { collectIncludePathsRecursive } from "../config/includes-scan.js";
@@ -33,7 +32,11 @@ import {
   safeStat,
 } from "./audit-fs.js";
 import { pickSandboxToolPolicy } from "./audit-tool-policy.js";
-import { extensionUsesSkippedScannerPath, isPathInside } from "./scan-paths.js";
+import {
+  extensionUsesSkippedScannerPath,
+  isPathInside,
+  readPluginManifestExtensions,
+} from "./scan-paths.js";
 import * as skillScanner from "./skill-scanner.js";
 
 export type SecurityAuditFinding = {
@@ -65,23 +68,6 @@ function expandTilde(p: string, env: NodeJS.ProcessEnv): string | null {
   return null;
 }
 
-async function readPluginManifestExtensions(pluginPath: string): Promise<string[]> {
-  const manifestPath = path.join(pluginPath, "package.json");
-  const raw = await fs.readFile(manifestPath, "utf-8").catch(() => "");
-  if (!raw.trim()) {
-    return [];
-  }
-
-  const parsed = JSON.parse(raw) as Partial<
-    Record<typeof MANIFEST_KEY, { extensions?: unknown }>
-  > | null;
-  const extensions = parsed?.[MANIFEST_KEY]?.extensions;
-  if (!Array.isArray(extensions)) {
-    return [];
-  }
-  return extensions.map((entry) => (typeof entry === "string" ? entry.trim() : "")).filter(Boolean);
-}
-
 function formatCodeSafetyDetails(findings: SkillScanFinding[], rootDir: string): string {
   return findings
     .map((finding) => {
@@ -617,6 +603,7 @@ export async function readConfigSnapshotForAudit(params: {
 
 export async function collectPluginsCodeSafetyFindings(params: {
   stateDir: string;
+  scanOptions?: Pick<skillScanner.SkillScanOptions, "rules" | "baseline">;
 }): Promise<SecurityAuditFinding[]> {
   const findings: SecurityAuditFinding[] = [];
   const extensionsDir = path.join(params.stateDir, "extensions");
@@ -675,7 +662,9 @@ export async function collectPluginsCodeSafetyFindings(params: {
 
     const summary = await skillScanner
       .scanDirectoryWithSummary(pluginPath, {
+        ...params.scanOptions,
         includeFiles: forcedScanEntries,
+        baselineScope: pluginName,
       })
       .catch((err) => {
         findings.push({
@@ -724,6 +713,7 @@ export async function collectPluginsCodeSafetyFindings(params: {
 export async function collectInstalledSkillsCodeSafetyFindings(params: {
   cfg: OpenClawConfig;
   stateDir: string;
+  scanOptions?: Pick<skillScanner.SkillScanOptions, "rules" | "baseline">;
 }): Promise<SecurityAuditFinding[]> {
   const findings: SecurityAuditFinding[] = [];
   const pluginExtensionsDir = path.join(params.stateDir, "extensions");
@@ -748,17 +738,19 @@ export async function collectInstalledSkillsCodeSafetyFindings(params: {
       scannedSkillDirs.add(skillDir);
 
       const skillName = entry.skill.name;
-      const summary = await skillScanner.scanDirectoryWithSummary(skillDir).catch((err) => {
-        findings.push({
-          checkId: "skills.code_safety.scan_failed",
-          severity: "warn",
-          title: `Skill "${skillName}" code scan failed`,
-          detail: `Static code scan could not complete for ${skillDir}: ${String(err)}`,
-          remediation:
-            "Check file permissions and skill layout, then rerun `openclaw security audit --deep`.",
+      const summary = await skillScanner
+        .scanDirectoryWithSummary(skillDir, params.scanOptions)
+        .catch((err) => {
+          findings.push({
+            checkId: "skills.code_safety.scan_failed",
+            severity: "warn",
+            title: `Skill "${skillName}" code scan failed`,
+            detail: `Static code scan could not complete for ${skillDir}: ${String(err)}`,
+            remediation:
+              "Check file permissions and skill layout, then rerun `openclaw security audit --deep`.",
+          });
+          return null;
         });
-        return null;
-      });
       if (!summary) {
         continue;
       }
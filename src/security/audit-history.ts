@@ -0,0 +1,95 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import type { SecurityAuditFinding, SecurityAuditReport, SecurityAuditSummary } from "./audit.js";
+import { resolveStateDir } from "../config/paths.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+
+export const DEFAULT_AUDIT_HISTORY_LIMIT = 50;
+
+export type SecurityAuditTrigger = "startup" | "schedule" | "config-reload";
+
+/** Findings that appeared or disappeared since the previous run. */
+export type SecurityAuditDiff = {
+  added: SecurityAuditFinding[];
+  resolved: SecurityAuditFinding[];
+};
+
+export type SecurityAuditRun = {
+  id: string;
+  ts: number;
+  trigger: SecurityAuditTrigger;
+  summary: SecurityAuditSummary;
+  findings: SecurityAuditFinding[];
+  diff: SecurityAuditDiff;
+  /** False for the first recorded run (nothing to diff against). */
+  hasPrevious: boolean;
+};
+
+type SecurityAuditHistoryStore = {
+  version: 1;
+  runs: SecurityAuditRun[];
+};
+
+const withLock = createAsyncLock();
+
+export function resolveSecurityAuditHistoryPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), "security", "audit-history.json");
+}
+
+async function loadStore(): Promise<SecurityAuditHistoryStore> {
+  const raw = await readJsonFile<SecurityAuditHistoryStore>(resolveSecurityAuditHistoryPath());
+  return { version: 1, runs: Array.isArray(raw?.runs) ? raw.runs : [] };
+}
+
+function findingKey(finding: SecurityAuditFinding): string {
+  return `${finding.checkId}\u0000${finding.title}`;
+}
+
+export function diffSecurityAuditFindings(
+  previous: SecurityAuditFinding[],
+  current: SecurityAuditFinding[],
+): SecurityAuditDiff {
+  const previousKeys = new Set(previous.map(findingKey));
+  const currentKeys = new Set(current.map(findingKey));
+  return {
+    added: current.filter((finding) => !previousKeys.has(findingKey(finding))),
+    resolved: previous.filter((finding) => !currentKeys.has(findingKey(finding))),
+  };
+}
+
+/** Append a report to the history, diffed against the latest stored run. */
+export async function recordSecurityAuditRun(params: {
+  report: SecurityAuditReport;
+  trigger: SecurityAuditTrigger;
+  limit?: number;
+}): Promise<SecurityAuditRun> {
+  return await withLock(async () => {
+    const store = await loadStore();
+    const previous = store.runs.at(-1);
+    const run: SecurityAuditRun = {
+      id: randomUUID().slice(0, 8),
+      ts: params.report.ts,
+      trigger: params.trigger,
+      summary: params.report.summary,
+      findings: params.report.findings,
+      diff: diffSecurityAuditFindings(previous?.findings ?? [], params.report.findings),
+      hasPrevious: Boolean(previous),
+    };
+    const limit = Math.max(1, params.limit ?? DEFAULT_AUDIT_HISTORY_LIMIT);
+    store.runs = [...store.runs, run].slice(-limit);
+    await writeJsonAtomic(resolveSecurityAuditHistoryPath(), store);
+    return run;
+  });
+}
+
+/** Newest first. */
+export async function listSecurityAuditRuns(limit?: number): Promise<SecurityAuditRun[]> {
+  const store = await loadStore();
+  const newest = store.runs.toReversed();
+  return limit ? newest.slice(0, limit) : newest;
+}
+
+export async function getLatestSecurityAuditRun(): Promise<SecurityAuditRun | null> {
+  const store = await loadStore();
+  return store.runs.at(-1) ?? null;
+}
@@ -36,6 +36,7 @@ import {
   inspectPathPermissions,
 } from "./audit-fs.js";
 import { DEFAULT_GATEWAY_HTTP_TOOL_DENY } from "./dangerous-tools.js";
+import { resolveSkillScanPolicy } from "./skill-scan-policy.js";
 
 export type SecurityAuditSeverity = "info" | "warn" | "critical";
 
@@ -655,8 +656,15 @@ export async function runSecurityAudit(opts: SecurityAuditOptions): Promise<Secu
     );
     findings.push(...(await collectPluginsTrustFindings({ cfg, stateDir })));
     if (opts.deep === true) {
-      findings.push(...(await collectPluginsCodeSafetyFindings({ stateDir })));
-      findings.push(...(await collectInstalledSkillsCodeSafetyFindings({ cfg, stateDir })));
+      // Rule packs and the baseline are optional; a broken pack must not fail the audit.
+      const policy = await resolveSkillScanPolicy(cfg, { env }).catch(() => null);
+      const scanOptions = policy
+        ? { rules: policy.rules, baseline: policy.baseline ?? undefined }
+        : undefined;
+      findings.push(...(await collectPluginsCodeSafetyFindings({ stateDir, scanOptions })));
+      findings.push(
+        ...(await collectInstalledSkillsCodeSafetyFindings({ cfg, stateDir, scanOptions })),
+      );
     }
   }
 
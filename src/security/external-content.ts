@@ -8,23 +8,42 @@
  * system prompts or treated as trusted instructions.
  */
 
+export type InjectionPatternRule = {
+  id: string;
+  pattern: RegExp;
+  /** Contribution to the injection score (0-1) when the pattern matches. */
+  weight: number;
+};
+
 /**
  * Patterns that may indicate prompt injection attempts.
- * These are logged for monitoring but content is still processed (wrapped safely).
+ * Without `security.injection` these are only logged; content is still processed (wrapped safely).
  */
-const SUSPICIOUS_PATTERNS = [
-  /ignore\s+(all\s+)?(previous|prior|above)\s+(instructions?|prompts?)/i,
-  /disregard\s+(all\s+)?(previous|prior|above)/i,
-  /forget\s+(everything|all|your)\s+(instructions?|rules?|guidelines?)/i,
-  /you\s+are\s+now\s+(a|an)\s+/i,
-  /new\s+instructions?:/i,
-  /system\s*:?\s*(prompt|override|command)/i,
-  /\bexec\b.*command\s*=/i,
-  /elevated\s*=\s*true/i,
-  /rm\s+-rf/i,
-  /delete\s+all\s+(emails?|files?|data)/i,
-  /<\/?system>/i,
-  /\]\s*\n\s*\[?(system|assistant|user)\]?:/i,
+export const INJECTION_PATTERN_RULES: readonly InjectionPatternRule[] = [
+  {
+    id: "ignore-previous",
+    pattern: /ignore\s+(all\s+)?(previous|prior|above)\s+(instructions?|prompts?)/i,
+    weight: 0.6,
+  },
+  {
+    id: "disregard-previous",
+    pattern: /disregard\s+(all\s+)?(previous|prior|above)/i,
+    weight: 0.5,
+  },
+  {
+    id: "forget-instructions",
+    pattern: /forget\s+(everything|all|your)\s+(instructions?|rules?|guidelines?)/i,
+    weight: 0.5,
+  },
+  { id: "role-reassignment", pattern: /you\s+are\s+now\s+(a|an)\s+/i, weight: 0.3 },
+  { id: "new-instructions", pattern: /new\s+instructions?:/i, weight: 0.4 },
+  { id: "system-override", pattern: /system\s*:?\s*(prompt|override|command)/i, weight: 0.4 },
+  { id: "exec-command", pattern: /\bexec\b.*command\s*=/i, weight: 0.4 },
+  { id: "elevated-flag", pattern: /elevated\s*=\s*true/i, weight: 0.5 },
+  { id: "rm-rf", pattern: /rm\s+-rf/i, weight: 0.3 },
+  { id: "delete-all", pattern: /delete\s+all\s+(emails?|files?|data)/i, weight: 0.3 },
+  { id: "system-tag", pattern: /<\/?system>/i, weight: 0.4 },
+  { id: "role-injection", pattern: /\]\s*\n\s*\[?(system|assistant|user)\]?:/i, weight: 0.4 },
 ];
 
 /**
@@ -32,9 +51,9 @@ const SUSPICIOUS_PATTERNS = [
  */
 export function detectSuspiciousPatterns(content: string): string[] {
   const matches: string[] = [];
-  for (const pattern of SUSPICIOUS_PATTERNS) {
-    if (pattern.test(content)) {
-      matches.push(pattern.source);
+  for (const rule of INJECTION_PATTERN_RULES) {
+    if (rule.pattern.test(content)) {
+      matches.push(rule.pattern.source);
     }
   }
   return matches;
@@ -71,6 +90,8 @@ export type ExternalContentSource =
   | "channel_metadata"
   | "web_search"
   | "web_fetch"
+  | "link"
+  | "channel"
   | "unknown";
 
 const EXTERNAL_SOURCE_LABELS: Record<ExternalContentSource, string> = {
@@ -81,6 +102,8 @@ const EXTERNAL_SOURCE_LABELS: Record<ExternalContentSource, string> = {
   channel_metadata: "Channel metadata",
   web_search: "Web Search",
   web_fetch: "Web Fetch",
+  link: "Link",
+  channel: "Channel message",
   unknown: "External",
 };
 
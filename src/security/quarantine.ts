@@ -0,0 +1,125 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import type { InjectionScanAction, InjectionScanSource } from "../config/types.security.js";
+import { resolveStateDir } from "../config/paths.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+
+const MAX_ENTRIES = 500;
+const MAX_CONTENT_CHARS = 100_000;
+
+export type QuarantineStatus = "pending" | "approved" | "discarded";
+
+/** Untrusted content withheld from an agent because it scored as a likely prompt injection. */
+export type QuarantineEntry = {
+  id: string;
+  createdAt: number;
+  source: InjectionScanSource;
+  action: Extract<InjectionScanAction, "require-approval" | "quarantine">;
+  status: QuarantineStatus;
+  score: number;
+  signals: string[];
+  content: string;
+  truncated?: boolean;
+  /** Session the content was addressed to; approved require-approval content is delivered there. */
+  sessionKey?: string;
+  agentId?: string;
+  sender?: string;
+  subject?: string;
+  url?: string;
+  resolvedAt?: number;
+};
+
+type QuarantineStore = {
+  version: 1;
+  entries: QuarantineEntry[];
+};
+
+const withLock = createAsyncLock();
+
+export function resolveQuarantineStorePath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), "security", "quarantine.json");
+}
+
+async function loadStore(): Promise<QuarantineStore> {
+  const raw = await readJsonFile<QuarantineStore>(resolveQuarantineStorePath());
+  return { version: 1, entries: Array.isArray(raw?.entries) ? raw.entries : [] };
+}
+
+/** Keep the newest entries, dropping resolved ones before pending ones. */
+function pruneEntries(entries: QuarantineEntry[]): QuarantineEntry[] {
+  if (entries.length <= MAX_ENTRIES) {
+    return entries;
+  }
+  let excess = entries.length - MAX_ENTRIES;
+  const dropped = new Set<string>();
+  for (const entry of entries) {
+    if (excess === 0) {
+      break;
+    }
+    if (entry.status !== "pending") {
+      dropped.add(entry.id);
+      excess -= 1;
+    }
+  }
+  const kept = entries.filter((entry) => !dropped.has(entry.id));
+  return kept.slice(kept.length - MAX_ENTRIES);
+}
+
+export async function addQuarantineEntry(
+  input: Omit<QuarantineEntry, "id" | "createdAt" | "status" | "truncated" | "resolvedAt">,
+): Promise<QuarantineEntry> {
+  return await withLock(async () => {
+    const store = await loadStore();
+    const truncated = input.content.length > MAX_CONTENT_CHARS;
+    const entry: QuarantineEntry = {
+      ...input,
+      id: randomUUID().slice(0, 8),
+      createdAt: Date.now(),
+      status: "pending",
+      content: truncated ? input.content.slice(0, MAX_CONTENT_CHARS) : input.content,
+      ...(truncated ? { truncated } : {}),
+    };
+    store.entries = pruneEntries([...store.entries, entry]);
+    await writeJsonAtomic(resolveQuarantineStorePath(), store);
+    return entry;
+  });
+}
+
+/** Newest first. */
+export async function listQuarantineEntries(params?: {
+  status?: QuarantineStatus;
+  limit?: number;
+}): Promise<QuarantineEntry[]> {
+  const store = await loadStore();
+  const filtered = params?.status
+    ? store.entries.filter((entry) => entry.status === params.status)
+    : store.entries;
+  const newest = filtered.toReversed();
+  return params?.limit ? newest.slice(0, params.limit) : newest;
+}
+
+export async function getQuarantineEntry(id: string): Promise<QuarantineEntry | null> {
+  const store = await loadStore();
+  return store.entries.find((entry) => entry.id === id) ?? null;
+}
+
+/** Approve or discard a pending entry; returns null when the id is unknown. */
+export async function resolveQuarantineEntry(params: {
+  id: string;
+  decision: "approve" | "discard";
+}): Promise<QuarantineEntry | null> {
+  return await withLock(async () => {
+    const store = await loadStore();
+    const entry = store.entries.find((candidate) => candidate.id === params.id);
+    if (!entry) {
+      return null;
+    }
+    if (entry.status !== "pending") {
+      throw new Error(`quarantine entry ${entry.id} is already ${entry.status}`);
+    }
+    entry.status = params.decision === "approve" ? "approved" : "discarded";
+    entry.resolvedAt = Date.now();
+    await writeJsonAtomic(resolveQuarantineStorePath(), store);
+    return entry;
+  });
+}
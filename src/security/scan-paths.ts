@@ -1,4 +1,6 @@
+import fs from "node:fs/promises";
 import path from "node:path";
+import { MANIFEST_KEY } from "../compat/legacy-names.js";
 
 export function isPathInside(basePath: string, candidatePath: string): boolean {
   const base = path.resolve(basePath);
@@ -15,3 +17,20 @@ export function extensionUsesSkippedScannerPath(entry: string): boolean {
       (segment.startsWith(".") && segment !== "." && segment !== ".."),
   );
 }
+
+export async function readPluginManifestExtensions(pluginPath: string): Promise<string[]> {
+  const manifestPath = path.join(pluginPath, "package.json");
+  const raw = await fs.readFile(manifestPath, "utf-8").catch(() => "");
+  if (!raw.trim()) {
+    return [];
+  }
+
+  const parsed = JSON.parse(raw) as Partial<
+    Record<typeof MANIFEST_KEY, { extensions?: unknown }>
+  > | null;
+  const extensions = parsed?.[MANIFEST_KEY]?.extensions;
+  if (!Array.isArray(extensions)) {
+    return [];
+  }
+  return extensions.map((entry) => (typeof entry === "string" ? entry.trim() : "")).filter(Boolean);
+}
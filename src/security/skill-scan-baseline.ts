@@ -0,0 +1,145 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { SkillScanFinding } from "./skill-scanner.js";
+import { compileGlobPattern, matchesAnyGlobPattern } from "../agents/glob-pattern.js";
+import { resolveStateDir } from "../config/paths.js";
+import { hasErrnoCode } from "../infra/errors.js";
+import { writeJsonAtomic } from "../infra/json-files.js";
+import { resolveUserPath } from "../utils.js";
+
+/**
+ * Accepted findings. An entry with a `fingerprint` matches that one finding
+ * (`ruleId`/`path` are then informational); otherwise it matches by `ruleId`
+ * and/or `path` glob (e.g. a rule that is noisy for one skill).
+ */
+export type SkillScanSuppression = {
+  fingerprint?: string;
+  ruleId?: string;
+  /** Glob over `<scope>/<relative file>`, e.g. `my-skill/scripts/*`. */
+  path?: string;
+  reason?: string;
+};
+
+export type SkillScanBaseline = {
+  version: 1;
+  suppressions: SkillScanSuppression[];
+};
+
+export function resolveDefaultSkillScanBaselinePath(env: NodeJS.ProcessEnv = process.env) {
+  return path.join(resolveStateDir(env), "security", "skill-scan-baseline.json");
+}
+
+/** `<scope>/<path relative to the scanned dir>`, with forward slashes. */
+export function resolveSkillScanFindingPath(params: {
+  finding: SkillScanFinding;
+  rootDir: string;
+  scope?: string;
+}): string {
+  const scope = params.scope?.trim() || path.basename(path.resolve(params.rootDir));
+  const relative = path.relative(path.resolve(params.rootDir), path.resolve(params.finding.file));
+  const file =
+    relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+      ? relative
+      : path.basename(params.finding.file);
+  return `${scope}/${file.split(path.sep).join("/")}`;
+}
+
+/** Stable across line moves: rule, file and the matched line's text. */
+export function fingerprintSkillScanFinding(params: {
+  finding: SkillScanFinding;
+  rootDir: string;
+  scope?: string;
+}): string {
+  const location = resolveSkillScanFindingPath(params);
+  return crypto
+    .createHash("sha256")
+    .update(`${params.finding.ruleId}\u0000${location}\u0000${params.finding.evidence}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function matchesSuppression(
+  suppression: SkillScanSuppression,
+  finding: SkillScanFinding,
+  location: string,
+  fingerprint: string,
+): boolean {
+  if (suppression.fingerprint) {
+    return suppression.fingerprint === fingerprint;
+  }
+  if (!suppression.ruleId && !suppression.path) {
+    return false;
+  }
+  if (suppression.ruleId && suppression.ruleId !== finding.ruleId) {
+    return false;
+  }
+  if (suppression.path) {
+    const pattern = compileGlobPattern({ raw: suppression.path, normalize: (v) => v.trim() });
+    return matchesAnyGlobPattern(location, [pattern]);
+  }
+  return true;
+}
+
+export function applySkillScanBaseline(params: {
+  findings: SkillScanFinding[];
+  baseline: SkillScanBaseline;
+  rootDir: string;
+  scope?: string;
+}): { findings: SkillScanFinding[]; suppressed: SkillScanFinding[] } {
+  const findings: SkillScanFinding[] = [];
+  const suppressed: SkillScanFinding[] = [];
+  for (const finding of params.findings) {
+    const ref = { finding, rootDir: params.rootDir, scope: params.scope };
+    const location = resolveSkillScanFindingPath(ref);
+    const fingerprint = fingerprintSkillScanFinding(ref);
+    const hit = params.baseline.suppressions.some((entry) =>
+      matchesSuppression(entry, finding, location, fingerprint),
+    );
+    (hit ? suppressed : findings).push(finding);
+  }
+  return { findings, suppressed };
+}
+
+/** Null when the file does not exist. */
+export async function loadSkillScanBaseline(filePath: string): Promise<SkillScanBaseline | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(resolveUserPath(filePath), "utf-8");
+  } catch (err) {
+    if (hasErrnoCode(err, "ENOENT")) {
+      return null;
+    }
+    throw err;
+  }
+  const parsed = JSON.parse(raw) as Partial<SkillScanBaseline>;
+  if (!Array.isArray(parsed?.suppressions)) {
+    throw new Error(`${filePath}: expected { "version": 1, "suppressions": [...] }`);
+  }
+  return { version: 1, suppressions: parsed.suppressions };
+}
+
+export async function writeSkillScanBaseline(params: {
+  filePath: string;
+  entries: Array<{ finding: SkillScanFinding; rootDir: string; scope?: string }>;
+  reason?: string;
+}): Promise<SkillScanBaseline> {
+  const seen = new Set<string>();
+  const suppressions: SkillScanSuppression[] = [];
+  for (const entry of params.entries) {
+    const fingerprint = fingerprintSkillScanFinding(entry);
+    if (seen.has(fingerprint)) {
+      continue;
+    }
+    seen.add(fingerprint);
+    suppressions.push({
+      fingerprint,
+      ruleId: entry.finding.ruleId,
+      path: resolveSkillScanFindingPath(entry),
+      ...(params.reason ? { reason: params.reason } : {}),
+    });
+  }
+  const baseline: SkillScanBaseline = { version: 1, suppressions };
+  await writeJsonAtomic(resolveUserPath(params.filePath), baseline);
+  return baseline;
+}
@@ -0,0 +1,84 @@
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import type { SkillScanFinding, SkillScanSummary } from "./skill-scanner.js";
+import {
+  loadSkillScanBaseline,
+  resolveDefaultSkillScanBaselinePath,
+  type SkillScanBaseline,
+} from "./skill-scan-baseline.js";
+import { loadSkillScanRulePacks, type SkillScanRule } from "./skill-scanner-rules.js";
+
+/** Rule packs, baseline and install enforcement resolved from `security.skillScan`. */
+export type SkillScanPolicy = {
+  rules: SkillScanRule[];
+  baseline: SkillScanBaseline | null;
+  blockCritical: boolean;
+};
+
+export async function resolveSkillScanPolicy(
+  cfg?: OpenClawConfig,
+  overrides?: { rulePacks?: string[]; baseline?: string; env?: NodeJS.ProcessEnv },
+): Promise<SkillScanPolicy> {
+  const scanCfg = cfg?.security?.skillScan;
+  const rulePacks = [...(scanCfg?.rulePacks ?? []), ...(overrides?.rulePacks ?? [])];
+  const baselinePath =
+    overrides?.baseline ?? scanCfg?.baseline ?? resolveDefaultSkillScanBaselinePath(overrides?.env);
+  return {
+    rules: await loadSkillScanRulePacks(rulePacks),
+    baseline: await loadSkillScanBaseline(baselinePath),
+    blockCritical: scanCfg?.blockCritical !== false,
+  };
+}
+
+export function formatSkillScanFindingDetail(
+  rootDir: string,
+  finding: Pick<SkillScanFinding, "message" | "file" | "line">,
+): string {
+  const relativePath = path.relative(rootDir, finding.file);
+  const filePath =
+    relativePath && relativePath !== "." && !relativePath.startsWith("..")
+      ? relativePath
+      : path.basename(finding.file);
+  return `${finding.message} (${filePath}:${finding.line})`;
+}
+
+/**
+ * Returns the block reason when an install must stop on critical findings,
+ * or null when it may continue.
+ */
+export function resolveInstallScanBlock(params: {
+  kind: "Skill" | "Plugin";
+  name: string;
+  rootDir: string;
+  summary: Pick<SkillScanSummary, "critical" | "findings">;
+  policy: Pick<SkillScanPolicy, "blockCritical">;
+  allowDangerousCode?: boolean;
+}): string | null {
+  if (params.summary.critical === 0 || !params.policy.blockCritical || params.allowDangerousCode) {
+    return null;
+  }
+  const details = params.summary.findings
+    .filter((finding) => finding.severity === "critical")
+    .map((finding) => formatSkillScanFindingDetail(params.rootDir, finding))
+    .join("; ");
+  return (
+    `${params.kind} "${params.name}" blocked: dangerous code patterns: ${details}. ` +
+    `Review the code, then retry with --allow-dangerous-code (allowDangerousCode) or accept the findings in a ` +
+    `baseline (openclaw security scan-skills --write-baseline).`
+  );
+}
+
+/**
+ * Block reason when the configured rule packs or baseline cannot be loaded.
+ * Installs fail closed here: continuing would silently drop the configured checks.
+ */
+export function formatInstallScanPolicyError(params: {
+  kind: "Skill" | "Plugin";
+  name: string;
+  error: unknown;
+}): string {
+  return (
+    `${params.kind} "${params.name}" blocked: security.skillScan rule packs or baseline could not be ` +
+    `loaded (${String(params.error)}). Fix or remove the configured files, then retry.`
+  );
+}
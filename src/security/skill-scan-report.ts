@@ -0,0 +1,206 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import type { SkillScanFinding, SkillScanSeverity, SkillScanSummary } from "./skill-scanner.js";
+import { loadWorkspaceSkillEntries } from "../agents/skills.js";
+import { listAgentWorkspaceDirs } from "../agents/workspace-dirs.js";
+import { VERSION } from "../version.js";
+import { isPathInside, readPluginManifestExtensions } from "./scan-paths.js";
+import { fingerprintSkillScanFinding, resolveSkillScanFindingPath } from "./skill-scan-baseline.js";
+
+export type SkillScanTarget = {
+  kind: "skill" | "plugin" | "path";
+  /** Name findings are reported and baselined under. */
+  scope: string;
+  rootDir: string;
+  includeFiles?: string[];
+};
+
+export type SkillScanTargetResult = SkillScanTarget & {
+  summary?: SkillScanSummary;
+  error?: string;
+};
+
+/** Installed (non-bundled) workspace skills plus plugins under `<stateDir>/extensions`. */
+export async function collectSkillScanTargets(params: {
+  cfg: OpenClawConfig;
+  stateDir: string;
+}): Promise<SkillScanTarget[]> {
+  const targets: SkillScanTarget[] = [];
+  const seen = new Set<string>();
+  const extensionsDir = path.join(params.stateDir, "extensions");
+
+  for (const workspaceDir of listAgentWorkspaceDirs(params.cfg)) {
+    for (const entry of loadWorkspaceSkillEntries(workspaceDir, { config: params.cfg })) {
+      const skillDir = path.resolve(entry.skill.baseDir);
+      if (
+        entry.skill.source === "openclaw-bundled" ||
+        isPathInside(extensionsDir, skillDir) ||
+        seen.has(skillDir)
+      ) {
+        continue;
+      }
+      seen.add(skillDir);
+      targets.push({ kind: "skill", scope: path.basename(skillDir), rootDir: skillDir });
+    }
+  }
+
+  const pluginDirs = await fs.readdir(extensionsDir, { withFileTypes: true }).catch(() => []);
+  for (const dirent of pluginDirs) {
+    if (!dirent.isDirectory()) {
+      continue;
+    }
+    const pluginPath = path.join(extensionsDir, dirent.name);
+    const entries = await readPluginManifestExtensions(pluginPath).catch(() => []);
+    targets.push({
+      kind: "plugin",
+      scope: dirent.name,
+      rootDir: pluginPath,
+      includeFiles: entries
+        .map((entry) => path.resolve(pluginPath, entry))
+        .filter((entry) => isPathInside(pluginPath, entry)),
+    });
+  }
+  return targets;
+}
+
+const SEVERITY_RANK: Record<SkillScanSeverity, number> = { info: 0, warn: 1, critical: 2 };
+
+export function countSkillScanFindingsAtOrAbove(
+  results: SkillScanTargetResult[],
+  severity: SkillScanSeverity,
+): number {
+  let count = 0;
+  for (const result of results) {
+    for (const finding of result.summary?.findings ?? []) {
+      if (SEVERITY_RANK[finding.severity] >= SEVERITY_RANK[severity]) {
+        count += 1;
+      }
+    }
+  }
+  return count;
+}
+
+type ReportFinding = Omit<SkillScanFinding, "file"> & {
+  path: string;
+  fingerprint: string;
+};
+
+function toReportFinding(result: SkillScanTargetResult, finding: SkillScanFinding): ReportFinding {
+  const ref = { finding, rootDir: result.rootDir, scope: result.scope };
+  const { file: _file, ...rest } = finding;
+  return {
+    ...rest,
+    path: resolveSkillScanFindingPath(ref),
+    fingerprint: fingerprintSkillScanFinding(ref),
+  };
+}
+
+export function buildSkillScanJsonReport(results: SkillScanTargetResult[]) {
+  const totals = { scannedFiles: 0, critical: 0, warn: 0, info: 0, suppressed: 0 };
+  const targets = results.map((result) => {
+    const summary = result.summary;
+    if (summary) {
+      totals.scannedFiles += summary.scannedFiles;
+      totals.critical += summary.critical;
+      totals.warn += summary.warn;
+      totals.info += summary.info;
+      totals.suppressed += summary.suppressed?.length ?? 0;
+    }
+    return {
+      kind: result.kind,
+      scope: result.scope,
+      rootDir: result.rootDir,
+      ...(result.error ? { error: result.error } : {}),
+      scannedFiles: summary?.scannedFiles ?? 0,
+      findings: (summary?.findings ?? []).map((finding) => toReportFinding(result, finding)),
+      suppressed: (summary?.suppressed ?? []).map((finding) => toReportFinding(result, finding)),
+    };
+  });
+  return { version: 1, summary: totals, targets };
+}
+
+const SARIF_LEVEL: Record<SkillScanSeverity, "error" | "warning" | "note"> = {
+  critical: "error",
+  warn: "warning",
+  info: "note",
+};
+
+/**
+ * SARIF 2.1.0 log with one run. Locations are relative to `baseDir` (usually
+ * the cwd) so code-scanning UIs can link them; suppressed findings are kept
+ * with an external suppression so reviewers can still see them.
+ */
+export function buildSkillScanSarifReport(results: SkillScanTargetResult[], baseDir: string) {
+  const rules = new Map<string, { id: string; message: string; severity: SkillScanSeverity }>();
+  const sarifResults: Array<Record<string, unknown>> = [];
+
+  const push = (result: SkillScanTargetResult, finding: SkillScanFinding, suppressed: boolean) => {
+    if (!rules.has(finding.ruleId)) {
+      rules.set(finding.ruleId, {
+        id: finding.ruleId,
+        message: finding.message,
+        severity: finding.severity,
+      });
+    }
+    const relative = path.relative(baseDir, finding.file);
+    const uri = (
+      relative && !relative.startsWith("..") && !path.isAbsolute(relative) ? relative : finding.file
+    )
+      .split(path.sep)
+      .join("/");
+    sarifResults.push({
+      ruleId: finding.ruleId,
+      level: SARIF_LEVEL[finding.severity],
+      message: { text: finding.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri },
+            region: { startLine: finding.line, snippet: { text: finding.evidence } },
+          },
+        },
+      ],
+      partialFingerprints: {
+        "openclawSkillScan/v1": fingerprintSkillScanFinding({
+          finding,
+          rootDir: result.rootDir,
+          scope: result.scope,
+        }),
+      },
+      properties: { scope: result.scope, kind: result.kind },
+      ...(suppressed ? { suppressions: [{ kind: "external" }] } : {}),
+    });
+  };
+
+  for (const result of results) {
+    for (const finding of result.summary?.findings ?? []) {
+      push(result, finding, false);
+    }
+    for (const finding of result.summary?.suppressed ?? []) {
+      push(result, finding, true);
+    }
+  }
+
+  return {
+    version: "2.1.0",
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "openclaw-skill-scanner",
+            version: VERSION,
+            informationUri: "https://docs.openclaw.ai/cli/security",
+            rules: [...rules.values()].map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.message },
+              defaultConfiguration: { level: SARIF_LEVEL[rule.severity] },
+            })),
+          },
+        },
+        results: sarifResults,
+      },
+    ],
+  };
+}
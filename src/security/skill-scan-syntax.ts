@@ -0,0 +1,290 @@
+import type TypeScript from "typescript";
+import { createRequire } from "node:module";
+
+// Syntax-tree facts for JS/TS rule-pack `call` and `import` rules. Parsing with
+// the TypeScript compiler sees through what a text match cannot: aliases
+// (`const e = eval; e(x)`), destructured and renamed imports, `.call`/`.apply`,
+// `globalThis.` prefixes and module names built from constant strings
+// (`require("child_" + "process")`). Aliases are tracked per file, not per
+// scope, which over-reports rather than under-reports.
+//
+// `typescript` is an optional peer dependency, loaded on first use. Without it
+// the caller falls back to token matching.
+
+const require = createRequire(import.meta.url);
+let typescript: typeof TypeScript | null | undefined;
+
+function loadTypeScript(): typeof TypeScript | null {
+  if (typescript === undefined) {
+    try {
+      typescript = require("typescript") as typeof TypeScript;
+    } catch {
+      typescript = null;
+    }
+  }
+  return typescript;
+}
+
+export type SkillScanSyntaxFacts = {
+  /** Names each call site can resolve to, as written and with aliases expanded. */
+  calls: Array<{ names: string[]; index: number }>;
+  /** Statically known module specifiers (`node:` prefix removed). */
+  imports: Array<{ module: string; index: number }>;
+};
+
+const GLOBAL_PREFIXES = ["globalThis.", "window.", "global.", "self."];
+const INDIRECT_CALL_METHODS = [".call", ".apply", ".bind"];
+
+function normalizeModule(specifier: string): string {
+  return specifier.startsWith("node:") ? specifier.slice("node:".length) : specifier;
+}
+
+/** Calls and imports in a JS/TS file, or null when `typescript` is not installed. */
+export function collectSkillScanSyntaxFacts(
+  source: string,
+  filePath: string,
+): SkillScanSyntaxFacts | null {
+  const ts = loadTypeScript();
+  if (!ts) {
+    return null;
+  }
+  const lower = filePath.toLowerCase();
+  const scriptKind = /\.[cm]?tsx?$/.test(lower)
+    ? lower.endsWith("x")
+      ? ts.ScriptKind.TSX
+      : ts.ScriptKind.TS
+    : lower.endsWith("x")
+      ? ts.ScriptKind.JSX
+      : ts.ScriptKind.JS;
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    source,
+    ts.ScriptTarget.Latest,
+    false,
+    scriptKind,
+  );
+  const aliases = new Map<string, string>();
+  const constants = new Map<string, string>();
+
+  const unwrap = (node: TypeScript.Expression): TypeScript.Expression => {
+    let current = node;
+    while (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isNonNullExpression(current) ||
+      ts.isTypeAssertionExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isAwaitExpression(current)
+    ) {
+      current = current.expression;
+    }
+    // `(0, eval)(x)` calls the last operand.
+    if (ts.isBinaryExpression(current) && current.operatorToken.kind === ts.SyntaxKind.CommaToken) {
+      return unwrap(current.right);
+    }
+    return current;
+  };
+
+  const constantString = (node: TypeScript.Expression): string | undefined => {
+    const expr = unwrap(node);
+    if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) {
+      return expr.text;
+    }
+    if (ts.isTemplateExpression(expr)) {
+      let text = expr.head.text;
+      for (const span of expr.templateSpans) {
+        const value = constantString(span.expression);
+        if (value === undefined) {
+          return undefined;
+        }
+        text += value + span.literal.text;
+      }
+      return text;
+    }
+    if (ts.isBinaryExpression(expr) && expr.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      const left = constantString(expr.left);
+      const right = left === undefined ? undefined : constantString(expr.right);
+      return left === undefined || right === undefined ? undefined : left + right;
+    }
+    if (ts.isIdentifier(expr)) {
+      return constants.get(expr.text);
+    }
+    return undefined;
+  };
+
+  /** Module loaded by `require(x)`, `import(x)` or `createRequire(...)(x)`. */
+  const loadedModule = (node: TypeScript.Expression): string | undefined => {
+    const expr = unwrap(node);
+    if (!ts.isCallExpression(expr) || expr.arguments.length === 0) {
+      return undefined;
+    }
+    const callee = unwrap(expr.expression);
+    const isLoader =
+      callee.kind === ts.SyntaxKind.ImportKeyword ||
+      ["require", "module.require"].includes(qualifiedName(callee, true) ?? "") ||
+      (ts.isCallExpression(callee) &&
+        ["createRequire", "module.createRequire"].includes(
+          qualifiedName(callee.expression, true) ?? "",
+        ));
+    if (!isLoader) {
+      return undefined;
+    }
+    const specifier = constantString(expr.arguments[0]);
+    return specifier === undefined ? undefined : normalizeModule(specifier);
+  };
+
+  const qualifiedName = (node: TypeScript.Expression, resolve: boolean): string | undefined => {
+    const expr = unwrap(node);
+    if (ts.isIdentifier(expr)) {
+      return (resolve ? aliases.get(expr.text) : undefined) ?? expr.text;
+    }
+    if (ts.isPropertyAccessExpression(expr)) {
+      const base = qualifiedName(expr.expression, resolve) ?? "?";
+      return `${base}.${expr.name.text}`;
+    }
+    if (ts.isElementAccessExpression(expr)) {
+      const member = constantString(expr.argumentExpression);
+      if (member === undefined) {
+        return undefined;
+      }
+      return `${qualifiedName(expr.expression, resolve) ?? "?"}.${member}`;
+    }
+    if (resolve) {
+      return loadedModule(expr);
+    }
+    return undefined;
+  };
+
+  const bindAlias = (name: string, target: string | undefined) => {
+    if (target && target !== name) {
+      aliases.set(name, target);
+    }
+  };
+
+  const bindPattern = (pattern: TypeScript.BindingName, base: string | undefined) => {
+    if (ts.isIdentifier(pattern)) {
+      bindAlias(pattern.text, base);
+      return;
+    }
+    if (!base || !ts.isObjectBindingPattern(pattern)) {
+      return;
+    }
+    for (const element of pattern.elements) {
+      const property = element.propertyName ?? element.name;
+      const key = ts.isIdentifier(property)
+        ? property.text
+        : ts.isStringLiteral(property)
+          ? property.text
+          : undefined;
+      if (key !== undefined && !element.dotDotDotToken) {
+        bindPattern(element.name, `${base}.${key}`);
+      }
+    }
+  };
+
+  // Pass 1: constants and aliases, in source order.
+  const collectBindings = (node: TypeScript.Node) => {
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      const value = ts.isIdentifier(node.name) ? constantString(node.initializer) : undefined;
+      if (value !== undefined && ts.isIdentifier(node.name)) {
+        constants.set(node.name.text, value);
+      } else {
+        bindPattern(node.name, qualifiedName(node.initializer, true));
+      }
+    } else if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      ts.isIdentifier(node.left)
+    ) {
+      bindAlias(node.left.text, qualifiedName(node.right, true));
+    } else if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const module = normalizeModule(node.moduleSpecifier.text);
+      const clause = node.importClause;
+      if (clause?.name) {
+        bindAlias(clause.name.text, module);
+      }
+      const bindings = clause?.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        bindAlias(bindings.name.text, module);
+      } else if (bindings) {
+        for (const element of bindings.elements) {
+          const imported = (element.propertyName ?? element.name).text;
+          bindAlias(element.name.text, `${module}.${imported}`);
+        }
+      }
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      ts.isStringLiteral(node.moduleReference.expression)
+    ) {
+      bindAlias(node.name.text, normalizeModule(node.moduleReference.expression.text));
+    }
+    ts.forEachChild(node, collectBindings);
+  };
+  collectBindings(sourceFile);
+
+  // Pass 2: call sites and module loads.
+  const facts: SkillScanSyntaxFacts = { calls: [], imports: [] };
+  const collectFacts = (node: TypeScript.Node) => {
+    const index = () => node.getStart(sourceFile);
+    if (
+      (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      facts.imports.push({ module: normalizeModule(node.moduleSpecifier.text), index: index() });
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      ts.isStringLiteral(node.moduleReference.expression)
+    ) {
+      facts.imports.push({
+        module: normalizeModule(node.moduleReference.expression.text),
+        index: index(),
+      });
+    } else if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      const module = ts.isCallExpression(node) ? loadedModule(node) : undefined;
+      if (module !== undefined) {
+        facts.imports.push({ module, index: index() });
+      }
+      const names = new Set<string>();
+      for (const resolve of [false, true]) {
+        const name = qualifiedName(node.expression, resolve);
+        if (!name) {
+          continue;
+        }
+        names.add(name);
+        const indirect = INDIRECT_CALL_METHODS.find((suffix) => name.endsWith(suffix));
+        const target = indirect ? name.slice(0, -indirect.length) : name;
+        names.add(target);
+        const global = GLOBAL_PREFIXES.find((prefix) => target.startsWith(prefix));
+        if (global) {
+          names.add(target.slice(global.length));
+        }
+      }
+      if (names.size > 0) {
+        facts.calls.push({ names: [...names], index: index() });
+      }
+    }
+    ts.forEachChild(node, collectFacts);
+  };
+  collectFacts(sourceFile);
+  return facts;
+}
+
+/** `name` matches exactly; `*.name` matches any method called `name`. */
+export function matchesSkillScanCallee(candidates: string[], patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.startsWith("*.")
+      ? candidates.some((candidate) => candidate.endsWith(pattern.slice(1)))
+      : candidates.includes(pattern),
+  );
+}
+
+/** A module matches itself and its subpaths (`fs` matches `fs/promises`). */
+export function matchesSkillScanModule(module: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const name = normalizeModule(pattern);
+    return module === name || module.startsWith(`${name}/`);
+  });
+}
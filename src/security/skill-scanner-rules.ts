@@ -0,0 +1,467 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import type { SkillScanFinding, SkillScanSeverity } from "./skill-scanner.js";
+import { resolveUserPath } from "../utils.js";
+import {
+  collectSkillScanSyntaxFacts,
+  matchesSkillScanCallee,
+  matchesSkillScanModule,
+  type SkillScanSyntaxFacts,
+} from "./skill-scan-syntax.js";
+
+// ---------------------------------------------------------------------------
+// Languages
+// ---------------------------------------------------------------------------
+
+export type SkillScanLanguage = "js" | "ts" | "python" | "shell";
+
+const LANGUAGE_BY_EXTENSION: Record<string, SkillScanLanguage> = {
+  ".js": "js",
+  ".mjs": "js",
+  ".cjs": "js",
+  ".jsx": "js",
+  ".ts": "ts",
+  ".mts": "ts",
+  ".cts": "ts",
+  ".tsx": "ts",
+  ".py": "python",
+  ".sh": "shell",
+  ".bash": "shell",
+  ".zsh": "shell",
+};
+
+const SKILL_SCAN_LANGUAGES = new Set<string>(["js", "ts", "python", "shell"]);
+
+export function resolveSkillScanLanguage(filePath: string): SkillScanLanguage | null {
+  return LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Rule packs
+// ---------------------------------------------------------------------------
+
+/**
+ * One rule as written in a rule pack (JSON or YAML). Exactly one matcher:
+ * - `regex`: pattern over the raw source (`scope: "code"` ignores comments and strings)
+ * - `call`: callee names (`eval`, `os.system`, `*.exec`; shell: command words)
+ * - `import`: module names (`child_process`, `requests`; subpaths match too)
+ *
+ * With the optional `typescript` peer installed, JS/TS `call` and `import` rules are
+ * resolved on the syntax tree, so aliases and constant-folded module names match.
+ * Otherwise, and for Python and shell, they use token matching.
+ */
+export type SkillScanRulePackRule = {
+  id: string;
+  severity: SkillScanSeverity;
+  message: string;
+  /** Languages the rule applies to (default: all). */
+  languages?: SkillScanLanguage[];
+  regex?: string;
+  flags?: string;
+  scope?: "source" | "code";
+  call?: string | string[];
+  import?: string | string[];
+  /** Only fire when the raw source also matches this regex. */
+  requires?: string;
+};
+
+export type SkillScanRulePack = {
+  name?: string;
+  rules: SkillScanRulePackRule[];
+};
+
+/** A compiled rule; `pattern` runs against the (masked) file source. */
+export type SkillScanRule = {
+  ruleId: string;
+  severity: SkillScanSeverity;
+  message: string;
+  languages?: SkillScanLanguage[];
+  /** Per-language patterns; `*` applies to every language. */
+  patterns: Partial<Record<SkillScanLanguage | "*", RegExp>>;
+  /**
+   * JS/TS callees and modules, matched on the syntax tree instead of `patterns`
+   * when `typescript` is installed.
+   */
+  syntax?: { calls?: string[]; imports?: string[] };
+  mask: "none" | "comments" | "code";
+  requiresContext?: RegExp;
+  pack?: string;
+};
+
+const SEVERITIES = new Set<string>(["info", "warn", "critical"]);
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map((entry) => entry.trim()).filter(Boolean);
+}
+
+function compileRegex(raw: string, flags: string | undefined, label: string): RegExp {
+  try {
+    return new RegExp(raw, (flags ?? "").replace(/[gy]/g, ""));
+  } catch (err) {
+    throw new Error(`${label}: invalid regex: ${String(err)}`, { cause: err });
+  }
+}
+
+function compileCallPatterns(names: string[]): SkillScanRule["patterns"] {
+  const codeCallees = names.map((name) => {
+    if (name.startsWith("*.")) {
+      return `\\.\\s*${escapeRegex(name.slice(2))}`;
+    }
+    const parts = name.split(".").map(escapeRegex);
+    return `(?<![\\w$.])${parts.join("\\s*\\.\\s*")}`;
+  });
+  const code = new RegExp(`(?:${codeCallees.join("|")})\\s*\\(`);
+  const commands = names.map((name) => escapeRegex(name.replace(/^\*\./, "")));
+  const shell = new RegExp(
+    `(?:^|[;&|(\`{]|\\$\\()\\s*(?:sudo\\s+|exec\\s+|command\\s+)?(?:${commands.join("|")})(?=[\\s;&|)]|$)`,
+    "m",
+  );
+  return { js: code, ts: code, python: code, shell };
+}
+
+function compileImportPatterns(modules: string[]): SkillScanRule["patterns"] {
+  const mod = `(?:node:)?(?:${modules.map(escapeRegex).join("|")})(?:/[^"'\`]*)?`;
+  const js = new RegExp(
+    [
+      `\\bfrom\\s*["'\`]${mod}["'\`]`,
+      `\\bimport\\s*["'\`]${mod}["'\`]`,
+      `\\b(?:require|import)\\s*\\(\\s*["'\`]${mod}["'\`]\\s*\\)`,
+    ].join("|"),
+  );
+  const pyModules = `(?:${modules.map(escapeRegex).join("|")})`;
+  const python = new RegExp(
+    `^\\s*(?:import\\s+(?:[\\w.]+\\s*,\\s*)*${pyModules}(?![\\w])|from\\s+${pyModules}(?![\\w])[\\w.]*\\s+import\\b)`,
+    "m",
+  );
+  return { js, ts: js, python };
+}
+
+function validateLanguages(value: unknown, label: string): SkillScanLanguage[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((entry) => !SKILL_SCAN_LANGUAGES.has(entry))) {
+    throw new Error(`${label}: languages must be a list of js, ts, python, shell`);
+  }
+  return value as SkillScanLanguage[];
+}
+
+export function compileSkillScanRulePack(pack: SkillScanRulePack, source = "rule pack") {
+  if (!pack || !Array.isArray(pack.rules)) {
+    throw new Error(`${source}: expected { rules: [...] }`);
+  }
+  const packName = pack.name?.trim() || source;
+  return pack.rules.map((rule, index): SkillScanRule => {
+    const label = `${source}: rules[${index}]${rule?.id ? ` (${rule.id})` : ""}`;
+    if (!rule || typeof rule.id !== "string" || !rule.id.trim()) {
+      throw new Error(`${label}: missing id`);
+    }
+    if (!SEVERITIES.has(rule.severity)) {
+      throw new Error(`${label}: severity must be info, warn or critical`);
+    }
+    if (typeof rule.message !== "string" || !rule.message.trim()) {
+      throw new Error(`${label}: missing message`);
+    }
+    const matchers = [rule.regex, rule.call, rule.import].filter((entry) => entry !== undefined);
+    if (matchers.length !== 1) {
+      throw new Error(`${label}: set exactly one of regex, call or import`);
+    }
+    const base = {
+      ruleId: rule.id.trim(),
+      severity: rule.severity,
+      message: rule.message.trim(),
+      languages: validateLanguages(rule.languages, label),
+      requiresContext: rule.requires ? compileRegex(rule.requires, rule.flags, label) : undefined,
+      pack: packName,
+    };
+    if (rule.regex !== undefined) {
+      return {
+        ...base,
+        patterns: { "*": compileRegex(rule.regex, rule.flags, label) },
+        mask: rule.scope === "code" ? "code" : "none",
+      };
+    }
+    if (rule.call !== undefined) {
+      const names = toList(rule.call);
+      if (names.length === 0) {
+        throw new Error(`${label}: call must name at least one callee`);
+      }
+      return {
+        ...base,
+        patterns: compileCallPatterns(names),
+        syntax: { calls: names },
+        mask: "code",
+      };
+    }
+    const modules = toList(rule.import);
+    if (modules.length === 0) {
+      throw new Error(`${label}: import must name at least one module`);
+    }
+    return {
+      ...base,
+      patterns: compileImportPatterns(modules),
+      syntax: { imports: modules },
+      mask: "comments",
+    };
+  });
+}
+
+/** Load a rule pack from a JSON or YAML file. */
+export async function loadSkillScanRulePack(filePath: string): Promise<SkillScanRule[]> {
+  const resolved = resolveUserPath(filePath);
+  const raw = await fs.readFile(resolved, "utf-8");
+  let parsed: unknown;
+  try {
+    parsed = /\.ya?ml$/i.test(resolved) ? YAML.parse(raw) : JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`${filePath}: invalid rule pack: ${String(err)}`, { cause: err });
+  }
+  return compileSkillScanRulePack(parsed as SkillScanRulePack, filePath);
+}
+
+export async function loadSkillScanRulePacks(paths: string[]): Promise<SkillScanRule[]> {
+  const rules: SkillScanRule[] = [];
+  for (const filePath of paths) {
+    rules.push(...(await loadSkillScanRulePack(filePath)));
+  }
+  return rules;
+}
+
+/** Python and shell coverage; JS/TS use the scanner's built-in line/source rules. */
+export const BUILTIN_SKILL_SCAN_RULES: SkillScanRule[] = compileSkillScanRulePack(
+  {
+    name: "builtin",
+    rules: [
+      {
+        id: "dangerous-exec",
+        severity: "critical",
+        message: "Shell command execution detected (os.system/os.popen)",
+        languages: ["python"],
+        call: ["os.system", "os.popen", "os.execv", "os.execvp", "pty.spawn"],
+      },
+      {
+        id: "dangerous-exec",
+        severity: "critical",
+        message: "Shell command execution detected (subprocess with shell=True)",
+        languages: ["python"],
+        regex: String.raw`\bsubprocess\.\w+\([^)]*\bshell\s*=\s*True`,
+      },
+      {
+        id: "dynamic-code-execution",
+        severity: "critical",
+        message: "Dynamic code execution detected",
+        languages: ["python"],
+        call: ["eval", "exec", "compile", "__import__"],
+      },
+      {
+        id: "env-harvesting",
+        severity: "critical",
+        message:
+          "Environment variable access combined with network send — possible credential harvesting",
+        languages: ["python"],
+        regex: String.raw`\bos\.(?:environ|getenv)\b`,
+        scope: "code",
+        requires: String.raw`\brequests\.post\b|\burlopen\b|\bhttpx\.post\b|\bsocket\.`,
+      },
+      {
+        id: "remote-script-exec",
+        severity: "critical",
+        message: "Downloaded script piped into a shell",
+        languages: ["shell", "python"],
+        regex: String.raw`\b(?:curl|wget)\b[^|\n]*\|\s*(?:sudo\s+)?(?:ba|z|da)?sh\b`,
+      },
+      {
+        id: "dynamic-code-execution",
+        severity: "warn",
+        message: "eval of a command substitution or variable",
+        languages: ["shell"],
+        regex: String.raw`(?:^|[;&|]\s*)eval\s+["']?\$`,
+        flags: "m",
+        scope: "code",
+      },
+      {
+        id: "crypto-mining",
+        severity: "critical",
+        message: "Possible crypto-mining reference detected",
+        languages: ["python", "shell"],
+        regex: "stratum\\+tcp|stratum\\+ssl|coinhive|cryptonight|xmrig",
+        flags: "i",
+      },
+    ],
+  },
+  "builtin",
+);
+
+// ---------------------------------------------------------------------------
+// Source masking (keeps offsets and newlines so line numbers stay stable)
+// ---------------------------------------------------------------------------
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/**
+ * Replace comments (and, unless `keepStrings`, string literal contents) with
+ * spaces. A small lexer, not a parser: good enough to stop rules from firing
+ * on documentation, examples and log messages.
+ */
+export function maskSkillSource(
+  source: string,
+  language: SkillScanLanguage,
+  opts?: { keepStrings?: boolean },
+): string {
+  const keepStrings = opts?.keepStrings ?? false;
+  const hashComments = language === "python" || language === "shell";
+  let out = "";
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+    if (!hashComments && ch === "/" && next === "/") {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      out += blank(source.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    if (!hashComments && ch === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      out += blank(source.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    // Shell only treats `#` as a comment at the start of a word.
+    const wordStart = language === "python" || i === 0 || /\s/.test(source[i - 1]);
+    if (hashComments && ch === "#" && wordStart) {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      out += blank(source.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    const isQuote = ch === '"' || ch === "'" || (ch === "`" && language !== "python");
+    if (isQuote) {
+      const triple = language === "python" && source.startsWith(ch.repeat(3), i);
+      const delimiter = triple ? ch.repeat(3) : ch;
+      let j = i + delimiter.length;
+      while (j < source.length) {
+        if (source[j] === "\\" && !(language === "shell" && ch === "'")) {
+          j += 2;
+          continue;
+        }
+        if (source.startsWith(delimiter, j)) {
+          break;
+        }
+        if (!triple && source[j] === "\n" && ch !== "`" && language !== "shell") {
+          break;
+        }
+        j += 1;
+      }
+      j = Math.min(j, source.length);
+      const closed = source.startsWith(delimiter, j);
+      const stop = closed ? j + delimiter.length : j;
+      out += keepStrings
+        ? source.slice(i, stop)
+        : `${delimiter}${blank(source.slice(i + delimiter.length, j))}${closed ? delimiter : ""}`;
+      i = stop;
+      continue;
+    }
+    out += ch;
+    i += 1;
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function truncateEvidence(evidence: string, maxLen = 120): string {
+  return evidence.length <= maxLen ? evidence : `${evidence.slice(0, maxLen)}…`;
+}
+
+function isSyntaxLanguage(language: SkillScanLanguage) {
+  return language === "js" || language === "ts";
+}
+
+function findSyntaxMatch(
+  facts: SkillScanSyntaxFacts,
+  syntax: NonNullable<SkillScanRule["syntax"]>,
+): number | undefined {
+  const { calls, imports } = syntax;
+  const hits = [
+    ...(calls ? facts.calls.filter((call) => matchesSkillScanCallee(call.names, calls)) : []),
+    ...(imports
+      ? facts.imports.filter((entry) => matchesSkillScanModule(entry.module, imports))
+      : []),
+  ];
+  return hits.length > 0 ? Math.min(...hits.map((hit) => hit.index)) : undefined;
+}
+
+/** Run compiled rules over one file; at most one finding per rule per file. */
+export function runSkillScanRules(params: {
+  source: string;
+  filePath: string;
+  language: SkillScanLanguage;
+  rules: SkillScanRule[];
+}): SkillScanFinding[] {
+  const { source, language } = params;
+  const findings: SkillScanFinding[] = [];
+  const lines = source.split("\n");
+  const masked: Partial<Record<SkillScanRule["mask"], string>> = { none: source };
+  const seen = new Set<string>();
+  // null once parsing is known to be unavailable (no `typescript` installed).
+  let facts: SkillScanSyntaxFacts | null | undefined;
+
+  for (const rule of params.rules) {
+    if (rule.languages && !rule.languages.includes(language)) {
+      continue;
+    }
+    const pattern = rule.patterns[language] ?? rule.patterns["*"];
+    if (!pattern) {
+      continue;
+    }
+    const key = `${rule.ruleId}::${rule.message}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    if (rule.requiresContext && !rule.requiresContext.test(source)) {
+      continue;
+    }
+    if (rule.syntax && isSyntaxLanguage(language) && facts === undefined) {
+      facts = collectSkillScanSyntaxFacts(source, params.filePath);
+    }
+    let matchIndex: number | undefined;
+    if (rule.syntax && isSyntaxLanguage(language) && facts) {
+      matchIndex = findSyntaxMatch(facts, rule.syntax);
+    } else {
+      masked[rule.mask] ??= maskSkillSource(source, language, {
+        keepStrings: rule.mask === "comments",
+      });
+      matchIndex = pattern.exec(masked[rule.mask] ?? source)?.index;
+    }
+    if (matchIndex === undefined) {
+      continue;
+    }
+    const lineIndex = source.slice(0, matchIndex).split("\n").length - 1;
+    findings.push({
+      ruleId: rule.ruleId,
+      severity: rule.severity,
+      file: params.filePath,
+      line: lineIndex + 1,
+      message: rule.message,
+      evidence: truncateEvidence((lines[lineIndex] ?? "").trim()),
+    });
+    seen.add(key);
+  }
+  return findings;
+}
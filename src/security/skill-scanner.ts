@@ -1,6 +1,13 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { hasErrnoCode } from "../infra/errors.js";
+import { applySkillScanBaseline, type SkillScanBaseline } from "./skill-scan-baseline.js";
+import {
+  BUILTIN_SKILL_SCAN_RULES,
+  resolveSkillScanLanguage,
+  runSkillScanRules,
+  type SkillScanRule,
+} from "./skill-scanner-rules.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -23,34 +30,31 @@ export type SkillScanSummary = {
   warn: number;
   info: number;
   findings: SkillScanFinding[];
+  /** Findings hidden by the baseline (not counted above). */
+  suppressed?: SkillScanFinding[];
 };
 
 export type SkillScanOptions = {
   includeFiles?: string[];
   maxFiles?: number;
   maxFileBytes?: number;
+  /** Rule-pack rules evaluated in addition to the built-in rules. */
+  rules?: SkillScanRule[];
+  baseline?: SkillScanBaseline;
+  /** Name the baseline fingerprints findings under (default: the directory name). */
+  baselineScope?: string;
 };
 
 // ---------------------------------------------------------------------------
 // Scannable extensions
 // ---------------------------------------------------------------------------
 
-const SCANNABLE_EXTENSIONS = new Set([
-  ".js",
-  ".ts",
-  ".mjs",
-  ".cjs",
-  ".mts",
-  ".cts",
-  ".jsx",
-  ".tsx",
-]);
-
 const DEFAULT_MAX_SCAN_FILES = 500;
 const DEFAULT_MAX_FILE_BYTES = 1024 * 1024;
 
+/** JS/TS, Python and shell sources. */
 export function isScannable(filePath: string): boolean {
-  return SCANNABLE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  return resolveSkillScanLanguage(filePath) !== null;
 }
 
 // ---------------------------------------------------------------------------
@@ -147,7 +151,17 @@ function truncateEvidence(evidence: string, maxLen = 120): string {
   return `${evidence.slice(0, maxLen)}…`;
 }
 
-export function scanSource(source: string, filePath: string): SkillScanFinding[] {
+export function scanSource(
+  source: string,
+  filePath: string,
+  rules?: SkillScanRule[],
+): SkillScanFinding[] {
+  const language = resolveSkillScanLanguage(filePath) ?? "js";
+  const packRules = [...BUILTIN_SKILL_SCAN_RULES, ...(rules ?? [])];
+  if (language === "python" || language === "shell") {
+    return runSkillScanRules({ source, filePath, language, rules: packRules });
+  }
+
   const findings: SkillScanFinding[] = [];
   const lines = source.split("\n");
   const matchedLineRules = new Set<string>();
@@ -237,6 +251,14 @@ export function scanSource(source: string, filePath: string): SkillScanFinding[]
     matchedSourceRules.add(ruleKey);
   }
 
+  // --- Rule-pack rules ---
+  const builtinKeys = new Set(findings.map((finding) => `${finding.ruleId}::${finding.message}`));
+  for (const finding of runSkillScanRules({ source, filePath, language, rules: packRules })) {
+    if (!builtinKeys.has(`${finding.ruleId}::${finding.message}`)) {
+      findings.push(finding);
+    }
+  }
+
   return findings;
 }
 
@@ -244,11 +266,16 @@ export function scanSource(source: string, filePath: string): SkillScanFinding[]
 // Directory scanner
 // ---------------------------------------------------------------------------
 
-function normalizeScanOptions(opts?: SkillScanOptions): Required<SkillScanOptions> {
+type NormalizedScanOptions = Required<
+  Pick<SkillScanOptions, "includeFiles" | "maxFiles" | "maxFileBytes" | "rules">
+>;
+
+function normalizeScanOptions(opts?: SkillScanOptions): NormalizedScanOptions {
   return {
     includeFiles: opts?.includeFiles ?? [],
     maxFiles: Math.max(1, opts?.maxFiles ?? DEFAULT_MAX_SCAN_FILES),
     maxFileBytes: Math.max(1, opts?.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES),
+    rules: opts?.rules ?? [],
   };
 }
 
@@ -334,7 +361,7 @@ async function resolveForcedFiles(params: {
   return out;
 }
 
-async function collectScannableFiles(dirPath: string, opts: Required<SkillScanOptions>) {
+async function collectScannableFiles(dirPath: string, opts: NormalizedScanOptions) {
   const forcedFiles = await resolveForcedFiles({
     rootDir: dirPath,
     includeFiles: opts.includeFiles,
@@ -396,7 +423,7 @@ export async function scanDirectory(
     if (source == null) {
       continue;
     }
-    const findings = scanSource(source, file);
+    const findings = scanSource(source, file, scanOptions.rules);
     allFindings.push(...findings);
   }
 
@@ -418,15 +445,52 @@ export async function scanDirectoryWithSummary(
       continue;
     }
     scannedFiles += 1;
-    const findings = scanSource(source, file);
+    const findings = scanSource(source, file, scanOptions.rules);
     allFindings.push(...findings);
   }
 
+  return summarizeFindings({ allFindings, scannedFiles, rootDir: dirPath, opts });
+}
+
+/** Scans a single file (e.g. a one-file plugin); the baseline is rooted at its directory. */
+export async function scanFileWithSummary(
+  filePath: string,
+  opts?: SkillScanOptions,
+): Promise<SkillScanSummary> {
+  const scanOptions = normalizeScanOptions(opts);
+  const source = isScannable(filePath)
+    ? await readScannableSource(filePath, scanOptions.maxFileBytes)
+    : null;
+  return summarizeFindings({
+    allFindings: source == null ? [] : scanSource(source, filePath, scanOptions.rules),
+    scannedFiles: source == null ? 0 : 1,
+    rootDir: path.dirname(filePath),
+    opts,
+  });
+}
+
+function summarizeFindings(params: {
+  allFindings: SkillScanFinding[];
+  scannedFiles: number;
+  rootDir: string;
+  opts?: SkillScanOptions;
+}): SkillScanSummary {
+  const { allFindings, scannedFiles, opts } = params;
+  const { findings, suppressed } = opts?.baseline
+    ? applySkillScanBaseline({
+        findings: allFindings,
+        baseline: opts.baseline,
+        rootDir: params.rootDir,
+        scope: opts.baselineScope,
+      })
+    : { findings: allFindings, suppressed: [] };
+
   return {
     scannedFiles,
-    critical: allFindings.filter((f) => f.severity === "critical").length,
-    warn: allFindings.filter((f) => f.severity === "warn").length,
-    info: allFindings.filter((f) => f.severity === "info").length,
-    findings: allFindings,
+    critical: findings.filter((f) => f.severity === "critical").length,
+    warn: findings.filter((f) => f.severity === "warn").length,
+    info: findings.filter((f) => f.severity === "info").length,
+    findings,
+    ...(suppressed.length > 0 ? { suppressed } : {}),
   };
 }
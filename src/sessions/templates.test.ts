@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  buildSessionTemplatePatch,
+  findSessionTemplateEscalation,
+  isSandboxModeLooser,
+  resolveSessionTemplate,
+  resolveSessionTemplateForSession,
+} from "./templates.js";
+
+const cfg = {
+  session: {
+    templates: {
+      base: {
+        systemPrompt: "Be terse.",
+        tools: { deny: ["gateway"] },
+        skills: ["github", "notion"],
+        bootstrapFiles: ["templates/AGENTS.md"],
+        elevated: "off",
+      },
+      locked: {
+        tools: { allow: ["read", "exec"], deny: ["browser"] },
+        sandbox: { mode: "all" },
+      },
+      coding: {
+        extends: ["base", "locked"],
+        model: "opus",
+        systemPrompt: "You write code.",
+        skills: ["github"],
+        bootstrapFiles: ["templates/coding/TOOLS.md"],
+      },
+      unsandboxed: { sandbox: { mode: "off" }, elevated: "full" },
+      asking: { elevated: "ask" },
+      loopA: { extends: "loopB" },
+      loopB: { extends: "loopA" },
+    },
+  },
+} as OpenClawConfig;
+
+describe("session templates", () => {
+  it("layers extends chains over the template", () => {
+    const resolved = resolveSessionTemplate(cfg, "coding");
+    expect(resolved.chain).toEqual(["base", "locked", "coding"]);
+    expect(resolved.model).toBe("opus");
+    expect(resolved.systemPrompt).toBe("Be terse.\n\nYou write code.");
+    expect(resolved.tools?.allow).toEqual(["read", "exec"]);
+    expect(resolved.tools?.deny).toEqual(["gateway", "browser"]);
+    expect(resolved.skills).toEqual(["github"]);
+    expect(resolved.sandbox?.mode).toBe("all");
+    expect(resolved.elevated).toBe("off");
+    expect(resolved.bootstrapFiles).toEqual(["templates/AGENTS.md", "templates/coding/TOOLS.md"]);
+    expect(buildSessionTemplatePatch(resolved)).toEqual({
+      template: "coding",
+      elevatedLevel: "off",
+    });
+  });
+
+  it("rejects unknown templates and inheritance cycles", () => {
+    expect(() => resolveSessionTemplate(cfg, "missing")).toThrow(/unknown session template/);
+    expect(() => resolveSessionTemplate(cfg, "loopA")).toThrow(/cycle: loopA -> loopB -> loopA/);
+  });
+
+  it("resolves the template recorded on a session entry", () => {
+    const entry = { sessionId: "s1", updatedAt: 1, template: "locked" };
+    expect(resolveSessionTemplateForSession({ cfg, entry })?.sandbox?.mode).toBe("all");
+    expect(
+      resolveSessionTemplateForSession({ cfg, entry: { ...entry, template: "gone" } }),
+    ).toBeUndefined();
+    expect(resolveSessionTemplateForSession({ cfg: {}, entry })).toBeUndefined();
+  });
+
+  it("only lets templates tighten the requester's sandbox and elevated level", () => {
+    expect(isSandboxModeLooser("off", "non-main")).toBe(true);
+    expect(isSandboxModeLooser("all", "non-main")).toBe(false);
+    expect(isSandboxModeLooser(undefined, "all")).toBe(false);
+
+    const unsandboxed = resolveSessionTemplate(cfg, "unsandboxed");
+    expect(
+      findSessionTemplateEscalation({ cfg, template: unsandboxed, requesterSandboxMode: "all" }),
+    ).toMatch(/sandbox mode "off"/);
+    expect(findSessionTemplateEscalation({ cfg, template: unsandboxed })).toMatch(
+      /elevated "full"/,
+    );
+    expect(
+      findSessionTemplateEscalation({
+        cfg: { ...cfg, agents: { defaults: { elevatedDefault: "full" } } },
+        template: unsandboxed,
+      }),
+    ).toBeUndefined();
+
+    const coding = resolveSessionTemplate(cfg, "coding");
+    expect(
+      findSessionTemplateEscalation({ cfg, template: coding, requesterSandboxMode: "non-main" }),
+    ).toBeUndefined();
+    const asking = resolveSessionTemplate(cfg, "asking");
+    expect(findSessionTemplateEscalation({ cfg, template: asking })).toMatch(/elevated "ask"/);
+    expect(
+      findSessionTemplateEscalation({
+        cfg: { ...cfg, agents: { defaults: { elevatedDefault: "on" } } },
+        template: asking,
+      }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,212 @@
+import type { OpenClawConfig } from "../config/config.js";
+import type { SessionTemplateConfig } from "../config/types.base.js";
+import { normalizeElevatedLevel, resolveElevatedMode } from "../auto-reply/thinking.js";
+import { loadSessionStore, resolveStorePath, type SessionEntry } from "../config/sessions.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+
+export type ResolvedSessionTemplate = Omit<SessionTemplateConfig, "extends"> & {
+  name: string;
+  /** Templates applied in order (ancestors first, the template itself last). */
+  chain: string[];
+};
+
+type SessionTemplateSandboxMode = NonNullable<SessionTemplateConfig["sandbox"]>["mode"];
+
+const SANDBOX_MODE_STRICTNESS = { off: 0, "non-main": 1, all: 2 } as const;
+const ELEVATED_MODE_STRICTNESS = { full: 0, ask: 1, off: 2 } as const;
+
+function normalizeList(list?: string[]): string[] | undefined {
+  if (!Array.isArray(list)) {
+    return undefined;
+  }
+  return list.map((entry) => entry.trim()).filter(Boolean);
+}
+
+function unionLists(base?: string[], extra?: string[]): string[] | undefined {
+  if (!base && !extra) {
+    return undefined;
+  }
+  return Array.from(new Set([...(base ?? []), ...(extra ?? [])]));
+}
+
+function resolveParents(template: SessionTemplateConfig): string[] {
+  const raw = typeof template.extends === "string" ? [template.extends] : template.extends;
+  return normalizeList(raw) ?? [];
+}
+
+function joinPrompts(base?: string, extra?: string): string | undefined {
+  const parts = [base?.trim(), extra?.trim()].filter(Boolean);
+  return parts.length > 0 ? parts.join("\n\n") : undefined;
+}
+
+/**
+ * Layer `child` over `base`: scalars override, deny lists and bootstrap files
+ * accumulate, an explicit allowlist or skills list replaces the inherited one,
+ * and system prompts are concatenated so children refine their parents.
+ */
+function mergeTemplates(
+  base: Omit<SessionTemplateConfig, "extends">,
+  child: SessionTemplateConfig,
+): Omit<SessionTemplateConfig, "extends"> {
+  const tools =
+    base.tools || child.tools
+      ? {
+          allow: normalizeList(child.tools?.allow) ?? base.tools?.allow,
+          alsoAllow: unionLists(base.tools?.alsoAllow, normalizeList(child.tools?.alsoAllow)),
+          deny: unionLists(base.tools?.deny, normalizeList(child.tools?.deny)),
+        }
+      : undefined;
+  return {
+    description: child.description ?? base.description,
+    model: child.model?.trim() || base.model,
+    thinking: child.thinking?.trim() || base.thinking,
+    systemPrompt: joinPrompts(base.systemPrompt, child.systemPrompt),
+    tools,
+    skills: normalizeList(child.skills) ?? base.skills,
+    sandbox: child.sandbox?.mode ? { mode: child.sandbox.mode } : base.sandbox,
+    elevated: child.elevated ?? base.elevated,
+    bootstrapFiles: unionLists(base.bootstrapFiles, normalizeList(child.bootstrapFiles)),
+  };
+}
+
+export function listSessionTemplateNames(cfg?: OpenClawConfig): string[] {
+  return Object.keys(cfg?.session?.templates ?? {}).toSorted();
+}
+
+/**
+ * Resolve a template and its `extends` chain. Throws when the template (or a
+ * parent) is not configured, or when the chain loops back on itself.
+ */
+export function resolveSessionTemplate(
+  cfg: OpenClawConfig | undefined,
+  name: string,
+): ResolvedSessionTemplate {
+  const templates = cfg?.session?.templates ?? {};
+  const chain: string[] = [];
+
+  const visit = (
+    current: string,
+    stack: string[],
+  ): Omit<SessionTemplateConfig, "extends"> | undefined => {
+    const template = Object.hasOwn(templates, current) ? templates[current] : undefined;
+    if (!template) {
+      const via = stack.length > 0 ? ` (extended by "${stack.at(-1)}")` : "";
+      throw new Error(`unknown session template "${current}"${via}`);
+    }
+    if (stack.includes(current)) {
+      throw new Error(`session template cycle: ${[...stack, current].join(" -> ")}`);
+    }
+    let merged: Omit<SessionTemplateConfig, "extends"> = {};
+    for (const parent of resolveParents(template)) {
+      const inherited = visit(parent, [...stack, current]);
+      if (inherited) {
+        merged = mergeTemplates(merged, inherited);
+      }
+    }
+    if (chain.includes(current)) {
+      // Diamond inheritance: the shared ancestor is already layered in.
+      return undefined;
+    }
+    chain.push(current);
+    return mergeTemplates(merged, template);
+  };
+
+  const trimmed = name.trim();
+  const resolved = visit(trimmed, []) ?? {};
+  return { ...resolved, name: trimmed, chain };
+}
+
+function loadSessionEntry(cfg: OpenClawConfig | undefined, sessionKey?: string) {
+  const key = sessionKey?.trim();
+  if (!key) {
+    return undefined;
+  }
+  const storePath = resolveStorePath(cfg?.session?.store, {
+    agentId: resolveAgentIdFromSessionKey(key),
+  });
+  return loadSessionStore(storePath)[key];
+}
+
+/** True when `candidate` sandboxes fewer sessions than `current`. */
+export function isSandboxModeLooser(
+  candidate: SessionTemplateSandboxMode,
+  current: SessionTemplateSandboxMode,
+): boolean {
+  if (!candidate || !current) {
+    return false;
+  }
+  return SANDBOX_MODE_STRICTNESS[candidate] < SANDBOX_MODE_STRICTNESS[current];
+}
+
+/**
+ * Reason a requester may not apply `template`, or undefined when it may.
+ * Templates can only tighten: a sandboxed requester cannot pick a looser
+ * sandbox mode, and a requester without full elevated access cannot raise the
+ * elevated level beyond its own.
+ */
+export function findSessionTemplateEscalation(params: {
+  cfg?: OpenClawConfig;
+  template: ResolvedSessionTemplate;
+  requesterSessionKey?: string;
+  /** Sandbox mode in effect for the requester, when it runs sandboxed. */
+  requesterSandboxMode?: SessionTemplateSandboxMode;
+}): string | undefined {
+  const { template, requesterSandboxMode } = params;
+  if (requesterSandboxMode && isSandboxModeLooser(template.sandbox?.mode, requesterSandboxMode)) {
+    return `session template "${template.name}" sets sandbox mode "${template.sandbox?.mode}", which is looser than the requester's "${requesterSandboxMode}"`;
+  }
+  if (!template.elevated) {
+    return undefined;
+  }
+  const requesterLevel =
+    normalizeElevatedLevel(
+      loadSessionEntry(params.cfg, params.requesterSessionKey)?.elevatedLevel,
+    ) ?? normalizeElevatedLevel(params.cfg?.agents?.defaults?.elevatedDefault);
+  const requesterMode = resolveElevatedMode(requesterLevel);
+  const templateMode = resolveElevatedMode(template.elevated);
+  if (ELEVATED_MODE_STRICTNESS[templateMode] < ELEVATED_MODE_STRICTNESS[requesterMode]) {
+    return `session template "${template.name}" sets elevated "${template.elevated}", which is looser than the requester's "${requesterLevel ?? "off"}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Template applied to a session (via `sessions.patch { template }`), resolved
+ * against the current config. Returns undefined when the session has no
+ * template or it no longer resolves.
+ */
+export function resolveSessionTemplateForSession(params: {
+  cfg?: OpenClawConfig;
+  sessionKey?: string;
+  entry?: SessionEntry;
+}): ResolvedSessionTemplate | undefined {
+  const { cfg } = params;
+  if (!cfg?.session?.templates || Object.keys(cfg.session.templates).length === 0) {
+    return undefined;
+  }
+  const entry = params.entry ?? loadSessionEntry(cfg, params.sessionKey);
+  const name = entry?.template?.trim();
+  if (!name) {
+    return undefined;
+  }
+  try {
+    return resolveSessionTemplate(cfg, name);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * `sessions.patch` fields that apply a template's session-level settings.
+ * Tool policy, skills, sandbox mode, bootstrap files and the system prompt are
+ * read from the template at run time, so only the name needs persisting.
+ */
+export function buildSessionTemplatePatch(template: ResolvedSessionTemplate): {
+  template: string;
+  elevatedLevel?: string;
+} {
+  return {
+    template: template.name,
+    ...(template.elevated ? { elevatedLevel: template.elevated } : {}),
+  };
+}
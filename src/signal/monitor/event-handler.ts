@@ -35,6 +35,7 @@ import {
   readChannelAllowFromStore,
   upsertChannelPairingRequest,
 } from "../../pairing/pairing-store.js";
+import { resolveAgentRouteWithIntent } from "../../routing/intent-router.js";
 import { resolveAgentRoute } from "../../routing/resolve-route.js";
 import { normalizeE164 } from "../../utils.js";
 import {
@@ -521,7 +522,7 @@ export function createSignalEventHandler(deps: SignalEventHandlerDeps) {
       return;
     }
 
-    const route = resolveAgentRoute({
+    const route = await resolveAgentRouteWithIntent({
       cfg: deps.cfg,
       channel: "signal",
       accountId: deps.accountId,
@@ -529,6 +530,12 @@ export function createSignalEventHandler(deps: SignalEventHandlerDeps) {
         kind: isGroup ? "group" : "direct",
         id: isGroup ? (groupId ?? "unknown") : senderPeerId,
       },
+      message: {
+        text: messageText,
+        senderId: senderAllowId,
+        senderName: envelope.sourceName,
+        senderE164: sender.kind === "phone" ? sender.e164 : undefined,
+      },
     });
     const mentionRegexes = buildMentionRegexes(deps.cfg, route.agentId);
     const wasMentioned = isGroup && matchesMentionPatterns(messageText, mentionRegexes);
@@ -33,7 +33,7 @@ import { logVerbose, shouldLogVerbose } from "../../../globals.js";
 import { enqueueSystemEvent } from "../../../infra/system-events.js";
 import { buildPairingReply } from "../../../pairing/pairing-messages.js";
 import { upsertChannelPairingRequest } from "../../../pairing/pairing-store.js";
-import { resolveAgentRoute } from "../../../routing/resolve-route.js";
+import { resolveAgentRouteWithIntent } from "../../../routing/intent-router.js";
 import { resolveThreadSessionKeys } from "../../../routing/session-key.js";
 import { reactSlackMessage } from "../../actions.js";
 import { sendMessageSlack } from "../../send.js";
@@ -186,7 +186,7 @@ export async function prepareSlackMessage(params: {
     }
   }
 
-  const route = resolveAgentRoute({
+  const route = await resolveAgentRouteWithIntent({
     cfg,
     channel: "slack",
     accountId: account.accountId,
@@ -195,6 +195,7 @@ export async function prepareSlackMessage(params: {
       kind: isDirectMessage ? "direct" : isRoom ? "channel" : "group",
       id: isDirectMessage ? (message.user ?? "unknown") : message.channel,
     },
+    message: { text: message.text, senderId },
   });
 
   const baseSessionKey = route.sessionKey;
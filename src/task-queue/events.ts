@@ -0,0 +1,25 @@
+import path from "node:path";
+
+type TaskQueueUpdate = {
+  dbPath: string;
+  queue: string;
+};
+
+type TaskQueueListener = (update: TaskQueueUpdate) => void;
+
+const TASK_QUEUE_LISTENERS = new Set<TaskQueueListener>();
+
+export function onTaskQueueUpdate(listener: TaskQueueListener): () => void {
+  TASK_QUEUE_LISTENERS.add(listener);
+  return () => {
+    TASK_QUEUE_LISTENERS.delete(listener);
+  };
+}
+
+/** Emitted when a task becomes claimable (added, retried or released for another attempt). */
+export function emitTaskQueueUpdate(update: TaskQueueUpdate): void {
+  const resolved = { ...update, dbPath: path.resolve(update.dbPath) };
+  for (const listener of TASK_QUEUE_LISTENERS) {
+    listener(resolved);
+  }
+}
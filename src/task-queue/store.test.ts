@@ -0,0 +1,137 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  LEGACY_TASK_QUEUE_FILENAME,
+  TaskQueueStore,
+  resolveTaskQueueStorePath,
+  withTaskQueueStore,
+} from "./store.js";
+
+describe("TaskQueueStore", () => {
+  let workspaceDir = "";
+  let dbPath = "";
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-task-queue-"));
+    dbPath = resolveTaskQueueStorePath(workspaceDir);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("keeps named queues apart and hides delayed tasks until they are due", async () => {
+    await withTaskQueueStore(dbPath, (store) => {
+      const now = Date.now();
+      store.add({ task: "later", availableAt: now + 60_000 });
+      store.add({ task: "mail", queue: "email" });
+      expect(store.claim({ owner: "test" })).toBeNull();
+      expect(store.stats()).toMatchObject({ total: 2, pending: 2, scheduled: 1 });
+      expect(store.listQueues().map((queue) => queue.name)).toEqual(["default", "email"]);
+      expect(store.claim({ queue: "email", owner: "test" })?.task.task).toBe("mail");
+    });
+  });
+
+  it("releases expired leases and rejects the stale token", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await withTaskQueueStore(dbPath, (store) => {
+      const added = store.add({ task: "slow", maxRetries: 3 });
+      const first = store.claim({ owner: "a", leaseMs: 5_000 });
+      expect(first?.task.id).toBe(added.id);
+      expect(store.claim({ owner: "b", leaseMs: 5_000 })).toBeNull();
+
+      vi.setSystemTime(Date.now() + 6_000);
+      const second = store.claim({ owner: "b", leaseMs: 5_000 });
+      expect(second?.task.retries).toBe(1);
+      expect(second?.task.error).toBe("lease expired");
+
+      const stale = store.complete({ id: added.id, token: first?.token, result: "late" });
+      expect(stale.status).toBe("lease_lost");
+      const fresh = store.complete({ id: added.id, token: second?.token, result: "ok" });
+      expect(fresh.status).toBe("ok");
+      expect(store.get(added.id)?.result).toBe("ok");
+    });
+  });
+
+  it("extends leases and dead-letters tasks once retries run out", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await withTaskQueueStore(dbPath, (store) => {
+      const added = store.add({ task: "flaky", maxRetries: 2 });
+      const claim = store.claim({ owner: "a", leaseMs: 5_000 });
+      vi.setSystemTime(Date.now() + 4_000);
+      expect(store.extendLease({ id: added.id, token: claim?.token, leaseMs: 5_000 }).status).toBe(
+        "ok",
+      );
+      vi.setSystemTime(Date.now() + 4_000);
+      expect(store.expireLeases()).toEqual([]);
+
+      const failed = store.fail({
+        id: added.id,
+        token: claim?.token,
+        error: "boom",
+        retryDelayMs: 10_000,
+      });
+      expect(failed.status === "ok" && failed.task.status).toBe("pending");
+      expect(store.claim({ owner: "a" })).toBeNull();
+
+      vi.setSystemTime(Date.now() + 10_000);
+      const retry = store.claim({ owner: "a" });
+      const dead = store.fail({ id: added.id, token: retry?.token, error: "boom again" });
+      expect(dead.status === "ok" && dead.task.status).toBe("failed");
+      expect(store.get(added.id)?.deadLetteredAt).toBeDefined();
+
+      expect(store.retry(added.id)?.status).toBe("pending");
+      expect(store.get(added.id)?.deadLetteredAt).toBeUndefined();
+    });
+  });
+
+  it("imports the legacy JSON queue once", async () => {
+    const now = Date.now();
+    await fs.writeFile(
+      path.join(workspaceDir, LEGACY_TASK_QUEUE_FILENAME),
+      JSON.stringify({
+        tasks: [
+          {
+            id: "t1",
+            task: "old",
+            priority: "high",
+            status: "pending",
+            retries: 0,
+            maxRetries: 3,
+            createdAt: now,
+            updatedAt: now,
+          },
+          {
+            id: "t2",
+            task: "stuck",
+            priority: "normal",
+            status: "claimed",
+            retries: 0,
+            maxRetries: 3,
+            createdAt: now,
+            updatedAt: now,
+            claimedAt: now,
+          },
+        ],
+      }),
+    );
+    const first = TaskQueueStore.open(dbPath);
+    try {
+      expect(first.stats()).toMatchObject({ total: 2, pending: 1, claimed: 1 });
+      // The orphaned legacy claim is released on the next claim pass.
+      expect(first.claim({ owner: "a" })?.task.id).toBe("t1");
+      expect(first.claim({ owner: "a" })?.task.id).toBe("t2");
+    } finally {
+      first.close();
+    }
+    const second = TaskQueueStore.open(dbPath);
+    try {
+      expect(second.stats().total).toBe(2);
+    } finally {
+      second.close();
+    }
+  });
+});
@@ -0,0 +1,572 @@
+import type { DatabaseSync, SQLInputValue, SQLOutputValue } from "node:sqlite";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  TaskClaim,
+  TaskPriority,
+  TaskQueueStats,
+  TaskQueueSummary,
+  TaskRecord,
+  TaskStatus,
+  TaskUpdateResult,
+} from "./types.js";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import { emitTaskQueueUpdate } from "./events.js";
+
+export const TASK_QUEUE_STORE_FILENAME = ".task-queue.sqlite";
+/** Pre-SQLite queue file, imported once when a workspace queue is first opened. */
+export const LEGACY_TASK_QUEUE_FILENAME = ".task-queue.json";
+export const DEFAULT_TASK_QUEUE = "default";
+export const DEFAULT_TASK_LEASE_MS = 10 * 60_000;
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+const BUSY_TIMEOUT_MS = 5_000;
+const LEGACY_IMPORT_META_KEY = "legacy_json_imported";
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, normal: 1, low: 2 };
+
+type Row = Record<string, SQLOutputValue>;
+
+export function resolveTaskQueueStorePath(workspaceDir: string): string {
+  return path.join(workspaceDir, TASK_QUEUE_STORE_FILENAME);
+}
+
+export function normalizeTaskQueueName(queue: unknown): string {
+  return typeof queue === "string" && queue.trim() ? queue.trim() : DEFAULT_TASK_QUEUE;
+}
+
+function normalizePriority(value: unknown): TaskPriority {
+  return value === "high" || value === "low" ? value : "normal";
+}
+
+function encodeJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function decodeJson(value: SQLOutputValue): unknown {
+  return typeof value === "string" ? JSON.parse(value) : undefined;
+}
+
+function optionalNumber(value: SQLOutputValue): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+function toTask(row: Row): TaskRecord {
+  const data = decodeJson(row.data);
+  const result = decodeJson(row.result);
+  const tags = decodeJson(row.tags) as string[] | undefined;
+  const claimedAt = optionalNumber(row.claimed_at);
+  const leaseExpiresAt = optionalNumber(row.lease_expires_at);
+  const completedAt = optionalNumber(row.completed_at);
+  const deadLetteredAt = optionalNumber(row.dead_lettered_at);
+  return {
+    id: String(row.id),
+    queue: String(row.queue),
+    task: String(row.task),
+    ...(data !== undefined ? { data } : {}),
+    priority: normalizePriority(row.priority),
+    status: String(row.status) as TaskStatus,
+    retries: Number(row.retries),
+    maxRetries: Number(row.max_retries),
+    createdAt: Number(row.created_at),
+    updatedAt: Number(row.updated_at),
+    availableAt: Number(row.available_at),
+    ...(claimedAt !== undefined ? { claimedAt } : {}),
+    ...(typeof row.lease_owner === "string" ? { leaseOwner: row.lease_owner } : {}),
+    ...(leaseExpiresAt !== undefined ? { leaseExpiresAt } : {}),
+    ...(completedAt !== undefined ? { completedAt } : {}),
+    ...(deadLetteredAt !== undefined ? { deadLetteredAt } : {}),
+    ...(result !== undefined ? { result } : {}),
+    ...(typeof row.error === "string" ? { error: row.error } : {}),
+    ...(tags?.length ? { tags } : {}),
+  };
+}
+
+/**
+ * SQLite-backed task queue for one workspace. Claims hand out leases
+ * (visibility timeouts): a claimed task that is not completed, failed or
+ * extended before its lease expires counts as a failed attempt and becomes
+ * claimable again, or moves to the dead-letter queue once retries run out.
+ */
+export class TaskQueueStore {
+  private constructor(
+    private readonly db: DatabaseSync,
+    readonly dbPath: string,
+  ) {}
+
+  static open(dbPath: string): TaskQueueStore {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const { DatabaseSync } = requireNodeSqlite();
+    const db = new DatabaseSync(dbPath);
+    db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    db.exec("PRAGMA journal_mode = WAL");
+    const store = new TaskQueueStore(db, dbPath);
+    try {
+      store.ensureSchema();
+      store.importLegacyOnce();
+    } catch (err) {
+      db.close();
+      throw err;
+    }
+    return store;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private ensureSchema(): void {
+    this.transaction(() => {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          queue TEXT NOT NULL,
+          task TEXT NOT NULL,
+          data TEXT,
+          priority TEXT NOT NULL,
+          priority_rank INTEGER NOT NULL,
+          status TEXT NOT NULL,
+          retries INTEGER NOT NULL,
+          max_retries INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          available_at INTEGER NOT NULL,
+          claimed_at INTEGER,
+          lease_owner TEXT,
+          lease_token TEXT,
+          lease_expires_at INTEGER,
+          completed_at INTEGER,
+          dead_lettered_at INTEGER,
+          result TEXT,
+          error TEXT,
+          tags TEXT
+        );
+      `);
+      this.db.exec(
+        "CREATE INDEX IF NOT EXISTS idx_tasks_claim ON tasks(queue, status, priority_rank, created_at)",
+      );
+      this.db.exec("CREATE INDEX IF NOT EXISTS idx_tasks_lease ON tasks(status, lease_expires_at)");
+    });
+  }
+
+  private importLegacyOnce(): void {
+    const legacyPath = path.join(path.dirname(this.dbPath), LEGACY_TASK_QUEUE_FILENAME);
+    const done = this.db
+      .prepare("SELECT value FROM meta WHERE key = ?")
+      .get(LEGACY_IMPORT_META_KEY) as Row | undefined;
+    if (done || !fs.existsSync(legacyPath)) {
+      return;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(legacyPath, "utf-8"));
+    } catch {
+      parsed = null;
+    }
+    const tasks =
+      parsed && typeof parsed === "object" && Array.isArray((parsed as { tasks?: unknown }).tasks)
+        ? ((parsed as { tasks: unknown[] }).tasks as Array<Partial<TaskRecord>>)
+        : [];
+    const now = Date.now();
+    this.transaction(() => {
+      for (const raw of tasks) {
+        if (!raw || typeof raw.id !== "string" || typeof raw.task !== "string") {
+          continue;
+        }
+        const createdAt = typeof raw.createdAt === "number" ? raw.createdAt : now;
+        const status: TaskStatus =
+          raw.status === "claimed" ||
+          raw.status === "done" ||
+          raw.status === "failed" ||
+          raw.status === "pending"
+            ? raw.status
+            : "pending";
+        this.insertTask({
+          id: raw.id,
+          queue: DEFAULT_TASK_QUEUE,
+          task: raw.task,
+          data: raw.data,
+          priority: normalizePriority(raw.priority),
+          status,
+          retries: typeof raw.retries === "number" ? raw.retries : 0,
+          maxRetries: typeof raw.maxRetries === "number" ? raw.maxRetries : DEFAULT_MAX_RETRIES,
+          createdAt,
+          updatedAt: typeof raw.updatedAt === "number" ? raw.updatedAt : createdAt,
+          availableAt: createdAt,
+          claimedAt: raw.claimedAt,
+          // Legacy claims never expired; make them reclaimable right away.
+          leaseExpiresAt: status === "claimed" ? now : undefined,
+          completedAt: raw.completedAt,
+          result: raw.result,
+          error: raw.error,
+          tags: raw.tags,
+        });
+      }
+      this.db
+        .prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)")
+        .run(LEGACY_IMPORT_META_KEY, String(now));
+    });
+  }
+
+  private transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  private insertTask(task: TaskRecord, leaseToken?: string): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO tasks (
+          id, queue, task, data, priority, priority_rank, status, retries, max_retries,
+          created_at, updated_at, available_at, claimed_at, lease_owner, lease_token,
+          lease_expires_at, completed_at, dead_lettered_at, result, error, tags
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        task.id,
+        task.queue,
+        task.task,
+        encodeJson(task.data),
+        task.priority,
+        PRIORITY_RANK[task.priority],
+        task.status,
+        task.retries,
+        task.maxRetries,
+        task.createdAt,
+        task.updatedAt,
+        task.availableAt,
+        task.claimedAt ?? null,
+        task.leaseOwner ?? null,
+        leaseToken ?? null,
+        task.leaseExpiresAt ?? null,
+        task.completedAt ?? null,
+        task.deadLetteredAt ?? null,
+        encodeJson(task.result),
+        task.error ?? null,
+        task.tags?.length ? JSON.stringify(task.tags) : null,
+      );
+  }
+
+  private readRow(id: string): Row | undefined {
+    return this.db.prepare("SELECT * FROM tasks WHERE id = ?").get(id) as Row | undefined;
+  }
+
+  get(id: string): TaskRecord | null {
+    const row = this.readRow(id);
+    return row ? toTask(row) : null;
+  }
+
+  add(params: {
+    task: string;
+    queue?: string;
+    data?: unknown;
+    priority?: TaskPriority;
+    maxRetries?: number;
+    tags?: string[];
+    /** Earliest claim time (delayed/scheduled tasks). Defaults to now. */
+    availableAt?: number;
+  }): TaskRecord {
+    const now = Date.now();
+    const record: TaskRecord = {
+      id: crypto.randomUUID().slice(0, 8),
+      queue: normalizeTaskQueueName(params.queue),
+      task: params.task,
+      data: params.data,
+      priority: normalizePriority(params.priority),
+      status: "pending",
+      retries: 0,
+      maxRetries: Math.max(0, Math.floor(params.maxRetries ?? DEFAULT_MAX_RETRIES)),
+      createdAt: now,
+      updatedAt: now,
+      availableAt: Math.max(now, params.availableAt ?? now),
+      ...(params.tags?.length ? { tags: params.tags } : {}),
+    };
+    this.transaction(() => this.insertTask(record));
+    emitTaskQueueUpdate({ dbPath: this.dbPath, queue: record.queue });
+    return record;
+  }
+
+  /**
+   * Lease the next claimable task (highest priority, then oldest). Expired
+   * leases are settled first so crashed consumers do not strand tasks.
+   */
+  claim(params: { queue?: string; owner: string; leaseMs?: number }): TaskClaim | null {
+    const queue = normalizeTaskQueueName(params.queue);
+    const leaseMs = Math.max(1_000, params.leaseMs ?? DEFAULT_TASK_LEASE_MS);
+    const claimed = this.transaction(() => {
+      const now = Date.now();
+      this.expireLeasesUnlocked(now);
+      const row = this.db
+        .prepare(
+          `SELECT * FROM tasks
+           WHERE queue = ? AND status = 'pending' AND available_at <= ?
+           ORDER BY priority_rank ASC, created_at ASC, rowid ASC
+           LIMIT 1`,
+        )
+        .get(queue, now) as Row | undefined;
+      if (!row) {
+        return null;
+      }
+      const token = crypto.randomUUID();
+      this.db
+        .prepare(
+          `UPDATE tasks SET status = 'claimed', claimed_at = ?, updated_at = ?,
+             lease_owner = ?, lease_token = ?, lease_expires_at = ?
+           WHERE id = ?`,
+        )
+        .run(now, now, params.owner, token, now + leaseMs, String(row.id));
+      return { task: toTask(this.readRow(String(row.id)) as Row), token };
+    });
+    return claimed;
+  }
+
+  /** Push a lease further out (long-running work, worker heartbeats). */
+  extendLease(params: { id: string; token?: string; leaseMs?: number }): TaskUpdateResult {
+    const leaseMs = Math.max(1_000, params.leaseMs ?? DEFAULT_TASK_LEASE_MS);
+    return this.transaction(() => {
+      const row = this.readRow(params.id);
+      if (!row) {
+        return { status: "not_found" as const };
+      }
+      if (!this.holdsLease(row, params.token)) {
+        return { status: "lease_lost" as const, task: toTask(row) };
+      }
+      const now = Date.now();
+      this.db
+        .prepare("UPDATE tasks SET lease_expires_at = ?, updated_at = ? WHERE id = ?")
+        .run(now + leaseMs, now, params.id);
+      return { status: "ok" as const, task: toTask(this.readRow(params.id) as Row) };
+    });
+  }
+
+  complete(params: { id: string; token?: string; result?: unknown }): TaskUpdateResult {
+    return this.transaction(() => {
+      const row = this.readRow(params.id);
+      if (!row) {
+        return { status: "not_found" as const };
+      }
+      if (params.token !== undefined && !this.holdsLease(row, params.token)) {
+        return { status: "lease_lost" as const, task: toTask(row) };
+      }
+      const now = Date.now();
+      this.db
+        .prepare(
+          `UPDATE tasks SET status = 'done', completed_at = ?, updated_at = ?, result = ?,
+             lease_owner = NULL, lease_token = NULL, lease_expires_at = NULL
+           WHERE id = ?`,
+        )
+        .run(now, now, encodeJson(params.result), params.id);
+      return { status: "ok" as const, task: toTask(this.readRow(params.id) as Row) };
+    });
+  }
+
+  /**
+   * Record a failed attempt. The task goes back to pending (after
+   * `retryDelayMs`) while retries remain, otherwise to the dead-letter queue.
+   */
+  fail(params: {
+    id: string;
+    token?: string;
+    error: string;
+    retryDelayMs?: number;
+  }): TaskUpdateResult {
+    const result = this.transaction(() => {
+      const row = this.readRow(params.id);
+      if (!row) {
+        return { status: "not_found" as const };
+      }
+      if (params.token !== undefined && !this.holdsLease(row, params.token)) {
+        return { status: "lease_lost" as const, task: toTask(row) };
+      }
+      this.recordFailure(toTask(row), params.error, Date.now(), params.retryDelayMs ?? 0);
+      return { status: "ok" as const, task: toTask(this.readRow(params.id) as Row) };
+    });
+    if (result.status === "ok" && result.task.status === "pending") {
+      emitTaskQueueUpdate({ dbPath: this.dbPath, queue: result.task.queue });
+    }
+    return result;
+  }
+
+  /** Reset a task (typically from the dead-letter queue) back to pending. */
+  retry(id: string): TaskRecord | null {
+    const task = this.transaction(() => {
+      if (!this.readRow(id)) {
+        return null;
+      }
+      const now = Date.now();
+      this.db
+        .prepare(
+          `UPDATE tasks SET status = 'pending', available_at = ?, updated_at = ?, error = NULL,
+             claimed_at = NULL, dead_lettered_at = NULL,
+             lease_owner = NULL, lease_token = NULL, lease_expires_at = NULL
+           WHERE id = ?`,
+        )
+        .run(now, now, id);
+      return toTask(this.readRow(id) as Row);
+    });
+    if (task) {
+      emitTaskQueueUpdate({ dbPath: this.dbPath, queue: task.queue });
+    }
+    return task;
+  }
+
+  /** Settle every expired lease; returns the affected tasks. */
+  expireLeases(now = Date.now()): TaskRecord[] {
+    return this.transaction(() => this.expireLeasesUnlocked(now));
+  }
+
+  list(params: { queue?: string; status?: TaskStatus; limit?: number } = {}): TaskRecord[] {
+    const clauses: string[] = [];
+    const values: SQLInputValue[] = [];
+    if (params.queue) {
+      clauses.push("queue = ?");
+      values.push(params.queue);
+    }
+    if (params.status) {
+      clauses.push("status = ?");
+      values.push(params.status);
+    }
+    const limit = Math.min(
+      MAX_LIST_LIMIT,
+      Math.max(1, Math.floor(params.limit ?? DEFAULT_LIST_LIMIT)),
+    );
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM tasks ${where} ORDER BY created_at DESC, rowid DESC LIMIT ?`)
+      .all(...values, limit) as Row[];
+    return rows.map(toTask).toReversed();
+  }
+
+  /** Remove finished (done/failed) tasks last updated at or before `now - olderThanMs`. */
+  clear(params: { olderThanMs: number; queue?: string }): number {
+    const cutoff = Date.now() - Math.max(0, params.olderThanMs);
+    return this.transaction(() => {
+      const result = params.queue
+        ? this.db
+            .prepare(
+              "DELETE FROM tasks WHERE status IN ('done', 'failed') AND updated_at <= ? AND queue = ?",
+            )
+            .run(cutoff, params.queue)
+        : this.db
+            .prepare("DELETE FROM tasks WHERE status IN ('done', 'failed') AND updated_at <= ?")
+            .run(cutoff);
+      return Number(result.changes);
+    });
+  }
+
+  stats(params: { queue?: string } = {}): TaskQueueStats {
+    return this.listQueues().reduce<TaskQueueStats>(
+      (acc, queue) => {
+        if (params.queue && queue.name !== params.queue) {
+          return acc;
+        }
+        acc.total += queue.total;
+        acc.pending += queue.pending;
+        acc.scheduled += queue.scheduled;
+        acc.claimed += queue.claimed;
+        acc.done += queue.done;
+        acc.failed += queue.failed;
+        return acc;
+      },
+      { total: 0, pending: 0, scheduled: 0, claimed: 0, done: 0, failed: 0 },
+    );
+  }
+
+  listQueues(): TaskQueueSummary[] {
+    const rows = this.db
+      .prepare(
+        `SELECT queue,
+           COUNT(*) AS total,
+           SUM(status = 'pending') AS pending,
+           SUM(status = 'pending' AND available_at > ?) AS scheduled,
+           SUM(status = 'claimed') AS claimed,
+           SUM(status = 'done') AS done,
+           SUM(status = 'failed') AS failed
+         FROM tasks GROUP BY queue ORDER BY queue`,
+      )
+      .all(Date.now()) as Row[];
+    return rows.map((row) => ({
+      name: String(row.queue),
+      total: Number(row.total ?? 0),
+      pending: Number(row.pending ?? 0),
+      scheduled: Number(row.scheduled ?? 0),
+      claimed: Number(row.claimed ?? 0),
+      done: Number(row.done ?? 0),
+      failed: Number(row.failed ?? 0),
+    }));
+  }
+
+  private holdsLease(row: Row, token: string | undefined): boolean {
+    if (row.status !== "claimed") {
+      return false;
+    }
+    return token === undefined || row.lease_token === token;
+  }
+
+  private expireLeasesUnlocked(now: number): TaskRecord[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM tasks WHERE status = 'claimed' AND lease_expires_at IS NOT NULL AND lease_expires_at <= ?",
+      )
+      .all(now) as Row[];
+    const expired: TaskRecord[] = [];
+    for (const row of rows) {
+      this.recordFailure(toTask(row), "lease expired", now, 0);
+      expired.push(toTask(this.readRow(String(row.id)) as Row));
+    }
+    return expired;
+  }
+
+  private recordFailure(task: TaskRecord, error: string, now: number, retryDelayMs: number) {
+    const retries = task.retries + 1;
+    const exhausted = retries >= task.maxRetries;
+    this.db
+      .prepare(
+        `UPDATE tasks SET status = ?, retries = ?, error = ?, updated_at = ?, available_at = ?,
+           claimed_at = NULL, dead_lettered_at = ?,
+           lease_owner = NULL, lease_token = NULL, lease_expires_at = NULL
+         WHERE id = ?`,
+      )
+      .run(
+        exhausted ? "failed" : "pending",
+        retries,
+        error,
+        now,
+        exhausted ? task.availableAt : now + Math.max(0, retryDelayMs),
+        exhausted ? now : null,
+        task.id,
+      );
+  }
+}
+
+/**
+ * Open the queue for one operation. Connections are short-lived so agent
+ * tools, gateway workers and the CLI can share the file; SQLite WAL + busy
+ * timeouts serialize their writes.
+ */
+export async function withTaskQueueStore<T>(
+  dbPath: string,
+  fn: (store: TaskQueueStore) => T | Promise<T>,
+): Promise<T> {
+  const store = TaskQueueStore.open(dbPath);
+  try {
+    return await fn(store);
+  } finally {
+    store.close();
+  }
+}
@@ -0,0 +1,53 @@
+export type TaskStatus = "pending" | "claimed" | "done" | "failed";
+
+export type TaskPriority = "low" | "normal" | "high";
+
+export type TaskRecord = {
+  id: string;
+  /** Named queue; tasks without one live in "default". */
+  queue: string;
+  task: string;
+  data?: unknown;
+  priority: TaskPriority;
+  status: TaskStatus;
+  retries: number;
+  maxRetries: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Not claimable before this time (delayed tasks and retry backoff). */
+  availableAt: number;
+  claimedAt?: number;
+  /** Who holds the current lease (tool call, gateway worker id). */
+  leaseOwner?: string;
+  leaseExpiresAt?: number;
+  completedAt?: number;
+  /** Set when the task ran out of retries and moved to the dead-letter queue. */
+  deadLetteredAt?: number;
+  result?: unknown;
+  error?: string;
+  tags?: string[];
+};
+
+/** A claimed task plus the lease token needed to extend, complete or fail it. */
+export type TaskClaim = {
+  task: TaskRecord;
+  token: string;
+};
+
+export type TaskUpdateResult =
+  | { status: "ok"; task: TaskRecord }
+  | { status: "not_found" }
+  /** The lease expired and the task was reclaimed (or finished) elsewhere. */
+  | { status: "lease_lost"; task: TaskRecord };
+
+export type TaskQueueStats = {
+  total: number;
+  pending: number;
+  /** Pending tasks whose `availableAt` is still in the future. */
+  scheduled: number;
+  claimed: number;
+  done: number;
+  failed: number;
+};
+
+export type TaskQueueSummary = TaskQueueStats & { name: string };
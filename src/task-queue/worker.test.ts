@@ -0,0 +1,124 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TaskQueueWorkerEvent, TaskQueueWorkerSpec } from "./worker.js";
+import { resolveTaskQueueStorePath, withTaskQueueStore } from "./store.js";
+import { TaskQueueWorkerService, buildTaskQueuePrompt } from "./worker.js";
+
+const log = { info: () => {}, warn: () => {}, error: () => {} };
+
+function spec(overrides: Partial<TaskQueueWorkerSpec> = {}): TaskQueueWorkerSpec {
+  return {
+    id: "w1",
+    queue: "jobs",
+    agentId: "main",
+    concurrency: 2,
+    pollMs: 60_000,
+    leaseMs: 60_000,
+    retryDelayMs: 0,
+    ...overrides,
+  };
+}
+
+describe("TaskQueueWorkerService", () => {
+  let workspaceDir = "";
+  let dbPath = "";
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-task-worker-"));
+    dbPath = resolveTaskQueueStorePath(workspaceDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("runs claimed tasks with bounded concurrency and records results", async () => {
+    await withTaskQueueStore(dbPath, (store) => {
+      for (const name of ["a", "b", "c"]) {
+        store.add({ task: name, queue: "jobs" });
+      }
+    });
+    let running = 0;
+    let peak = 0;
+    const runTask = vi.fn(async ({ task }: { task: { task: string } }) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running -= 1;
+      return { status: "ok" as const, summary: `did ${task.task}` };
+    });
+    const service = new TaskQueueWorkerService({
+      workers: [spec()],
+      resolveStorePath: () => dbPath,
+      runTask,
+      log,
+    });
+
+    await service.tick();
+    await service.idle();
+    await service.tick();
+    await service.idle();
+
+    expect(runTask).toHaveBeenCalledTimes(3);
+    expect(peak).toBe(2);
+    const done = await withTaskQueueStore(dbPath, (store) =>
+      store.list({ queue: "jobs", status: "done" }),
+    );
+    expect(done.map((task) => task.result)).toEqual([
+      { status: "ok", summary: "did a" },
+      { status: "ok", summary: "did b" },
+      { status: "ok", summary: "did c" },
+    ]);
+  });
+
+  it("retries failed runs and dead-letters them when retries run out", async () => {
+    const id = await withTaskQueueStore(
+      dbPath,
+      (store) => store.add({ task: "flaky", queue: "jobs", maxRetries: 2 }).id,
+    );
+    const events: TaskQueueWorkerEvent[] = [];
+    const service = new TaskQueueWorkerService({
+      workers: [spec({ concurrency: 1 })],
+      resolveStorePath: () => dbPath,
+      runTask: async () => ({ status: "error", error: "boom" }),
+      log,
+      onEvent: (evt) => events.push(evt),
+    });
+
+    await service.tick();
+    await service.idle();
+    await service.tick();
+    await service.idle();
+
+    expect(events.filter((evt) => evt.action !== "started").map((evt) => evt.action)).toEqual([
+      "retrying",
+      "dead-lettered",
+    ]);
+    const task = await withTaskQueueStore(dbPath, (store) => store.get(id));
+    expect(task?.status).toBe("failed");
+    expect(task?.error).toBe("boom");
+  });
+
+  it("includes worker instructions, data and the previous error in the prompt", () => {
+    const prompt = buildTaskQueuePrompt(spec({ prompt: "Be brief." }), {
+      id: "t1",
+      queue: "jobs",
+      task: "Summarize",
+      data: { url: "https://example.com" },
+      priority: "normal",
+      status: "claimed",
+      retries: 1,
+      maxRetries: 3,
+      createdAt: 0,
+      updatedAt: 0,
+      availableAt: 0,
+      error: "timeout",
+    });
+    expect(prompt).toContain("Be brief.");
+    expect(prompt).toContain("attempt 2 of 3");
+    expect(prompt).toContain('"url": "https://example.com"');
+    expect(prompt).toContain("Previous attempt failed: timeout");
+  });
+});
@@ -0,0 +1,320 @@
+import path from "node:path";
+import type { TaskRecord } from "./types.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import { onTaskQueueUpdate } from "./events.js";
+import { withTaskQueueStore } from "./store.js";
+
+export type TaskQueueWorkerSpec = {
+  id: string;
+  queue: string;
+  agentId: string;
+  concurrency: number;
+  pollMs: number;
+  leaseMs: number;
+  retryDelayMs: number;
+  timeoutSeconds?: number;
+  model?: string;
+  thinking?: string;
+  /** Instructions prepended to every task prompt. */
+  prompt?: string;
+};
+
+export type TaskQueueRunResult = {
+  status: "ok" | "error" | "skipped";
+  summary?: string;
+  outputText?: string;
+  error?: string;
+  sessionKey?: string;
+};
+
+export type TaskQueueWorkerEvent = {
+  workerId: string;
+  queue: string;
+  taskId: string;
+  action: "started" | "completed" | "retrying" | "dead-lettered" | "lease-lost";
+  durationMs?: number;
+  error?: string;
+  summary?: string;
+  sessionKey?: string;
+};
+
+type Logger = {
+  info: (obj: unknown, msg?: string) => void;
+  warn: (obj: unknown, msg?: string) => void;
+  error: (obj: unknown, msg?: string) => void;
+};
+
+export type TaskQueueWorkerDeps = {
+  workers: TaskQueueWorkerSpec[];
+  /** Queue database for an agent workspace. */
+  resolveStorePath: (agentId: string) => string;
+  runTask: (params: {
+    worker: TaskQueueWorkerSpec;
+    task: TaskRecord;
+    message: string;
+  }) => Promise<TaskQueueRunResult>;
+  log: Logger;
+  onEvent?: (evt: TaskQueueWorkerEvent) => void;
+};
+
+type WorkerState = {
+  spec: TaskQueueWorkerSpec;
+  dbPath: string;
+  active: Set<string>;
+  timer: NodeJS.Timeout | null;
+  ticking: boolean;
+};
+
+export function buildTaskQueuePrompt(worker: TaskQueueWorkerSpec, task: TaskRecord): string {
+  const lines: string[] = [];
+  if (worker.prompt?.trim()) {
+    lines.push(worker.prompt.trim(), "");
+  }
+  lines.push(
+    `Task queue "${task.queue}" task ${task.id} (attempt ${task.retries + 1} of ${Math.max(1, task.maxRetries)}):`,
+    task.task,
+  );
+  if (task.data !== undefined) {
+    lines.push("", "Task data (JSON):", JSON.stringify(task.data, null, 2));
+  }
+  if (task.error) {
+    lines.push("", `Previous attempt failed: ${task.error}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Drains task queues with isolated agent runs. Each worker polls its queue
+ * (and wakes early when a task becomes claimable), claims up to `concurrency`
+ * tasks under a lease, renews the lease while the run is in flight and then
+ * completes or fails the task. Tasks whose worker dies are released once the
+ * lease expires.
+ */
+export class TaskQueueWorkerService {
+  private readonly workers: WorkerState[];
+  private unsubscribe: (() => void) | null = null;
+  private running = false;
+  private readonly inflight = new Set<Promise<void>>();
+
+  constructor(private readonly deps: TaskQueueWorkerDeps) {
+    this.workers = deps.workers.map((spec) => ({
+      spec,
+      dbPath: path.resolve(deps.resolveStorePath(spec.agentId)),
+      active: new Set<string>(),
+      timer: null,
+      ticking: false,
+    }));
+  }
+
+  start() {
+    if (this.running || this.workers.length === 0) {
+      return;
+    }
+    this.running = true;
+    this.unsubscribe = onTaskQueueUpdate((update) => {
+      for (const worker of this.workers) {
+        if (worker.dbPath === update.dbPath && worker.spec.queue === update.queue) {
+          this.schedule(worker, 0);
+        }
+      }
+    });
+    for (const worker of this.workers) {
+      this.deps.log.info(
+        { workerId: worker.spec.id, queue: worker.spec.queue, agentId: worker.spec.agentId },
+        "task-queue: worker started",
+      );
+      this.schedule(worker, 0);
+    }
+  }
+
+  /** Stop polling. In-flight runs keep their leases and settle on their own. */
+  stop() {
+    this.running = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    for (const worker of this.workers) {
+      if (worker.timer) {
+        clearTimeout(worker.timer);
+        worker.timer = null;
+      }
+    }
+  }
+
+  /** Claim and start as many tasks as the worker has free slots for. */
+  async tick(workerId?: string) {
+    for (const worker of this.workers) {
+      if (!workerId || worker.spec.id === workerId) {
+        await this.tickWorker(worker);
+      }
+    }
+  }
+
+  /** Resolves once every run started so far has settled (tests, shutdown). */
+  async idle() {
+    while (this.inflight.size > 0) {
+      await Promise.allSettled(this.inflight);
+    }
+  }
+
+  private schedule(worker: WorkerState, delayMs: number) {
+    if (!this.running) {
+      return;
+    }
+    if (worker.timer) {
+      clearTimeout(worker.timer);
+    }
+    worker.timer = setTimeout(() => {
+      worker.timer = null;
+      void this.tickWorker(worker)
+        .catch((err) => {
+          this.deps.log.error(
+            { workerId: worker.spec.id, err: formatErrorMessage(err) },
+            "task-queue: poll failed",
+          );
+        })
+        .finally(() => {
+          if (!worker.timer) {
+            this.schedule(worker, worker.spec.pollMs);
+          }
+        });
+    }, delayMs);
+    worker.timer.unref?.();
+  }
+
+  private async tickWorker(worker: WorkerState) {
+    if (worker.ticking) {
+      return;
+    }
+    worker.ticking = true;
+    try {
+      const { spec } = worker;
+      const free = spec.concurrency - worker.active.size;
+      if (free <= 0) {
+        return;
+      }
+      const claims = await withTaskQueueStore(worker.dbPath, (store) => {
+        for (const expired of store.expireLeases()) {
+          this.deps.log.warn(
+            { workerId: spec.id, taskId: expired.id, status: expired.status },
+            "task-queue: lease expired",
+          );
+        }
+        const out = [];
+        for (let i = 0; i < free; i += 1) {
+          const claim = store.claim({
+            queue: spec.queue,
+            owner: `worker:${spec.id}`,
+            leaseMs: spec.leaseMs,
+          });
+          if (!claim) {
+            break;
+          }
+          out.push(claim);
+        }
+        return out;
+      });
+      for (const claim of claims) {
+        worker.active.add(claim.task.id);
+        const run = this.runClaim(worker, claim.task, claim.token).finally(() => {
+          worker.active.delete(claim.task.id);
+          this.inflight.delete(run);
+          // A slot opened up; look for more work right away.
+          this.schedule(worker, 0);
+        });
+        this.inflight.add(run);
+      }
+    } finally {
+      worker.ticking = false;
+    }
+  }
+
+  private async runClaim(worker: WorkerState, task: TaskRecord, token: string) {
+    const { spec, dbPath } = worker;
+    const startedAt = Date.now();
+    const emit = (evt: Omit<TaskQueueWorkerEvent, "workerId" | "queue" | "taskId">) =>
+      this.deps.onEvent?.({ workerId: spec.id, queue: spec.queue, taskId: task.id, ...evt });
+    emit({ action: "started" });
+
+    const renew = setInterval(
+      () => {
+        void withTaskQueueStore(dbPath, (store) =>
+          store.extendLease({ id: task.id, token, leaseMs: spec.leaseMs }),
+        )
+          .then((result) => {
+            if (result.status !== "ok") {
+              this.deps.log.warn(
+                { workerId: spec.id, taskId: task.id },
+                "task-queue: lease lost while the run was in flight",
+              );
+            }
+          })
+          .catch((err) => {
+            this.deps.log.warn(
+              { workerId: spec.id, taskId: task.id, err: formatErrorMessage(err) },
+              "task-queue: lease renewal failed",
+            );
+          });
+      },
+      Math.max(1_000, Math.floor(spec.leaseMs / 2)),
+    );
+    renew.unref?.();
+
+    let result: TaskQueueRunResult;
+    try {
+      result = await this.deps.runTask({
+        worker: spec,
+        task,
+        message: buildTaskQueuePrompt(spec, task),
+      });
+    } catch (err) {
+      result = { status: "error", error: formatErrorMessage(err) };
+    } finally {
+      clearInterval(renew);
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const settled = await withTaskQueueStore(dbPath, (store) =>
+      result.status === "error"
+        ? store.fail({
+            id: task.id,
+            token,
+            error: result.error ?? "agent run failed",
+            retryDelayMs: spec.retryDelayMs,
+          })
+        : store.complete({
+            id: task.id,
+            token,
+            result: {
+              status: result.status,
+              ...(result.summary ? { summary: result.summary } : {}),
+              ...(result.outputText ? { outputText: result.outputText } : {}),
+              ...(result.sessionKey ? { sessionKey: result.sessionKey } : {}),
+            },
+          }),
+    );
+
+    if (settled.status !== "ok") {
+      this.deps.log.warn(
+        { workerId: spec.id, taskId: task.id, durationMs },
+        "task-queue: lease lost before the run finished; result discarded",
+      );
+      emit({ action: "lease-lost", durationMs });
+      return;
+    }
+    if (settled.task.status === "done") {
+      emit({
+        action: "completed",
+        durationMs,
+        summary: result.summary,
+        sessionKey: result.sessionKey,
+      });
+      return;
+    }
+    const action = settled.task.status === "failed" ? "dead-lettered" : "retrying";
+    this.deps.log.warn(
+      { workerId: spec.id, taskId: task.id, retries: settled.task.retries, error: result.error },
+      `task-queue: task ${action}`,
+    );
+    emit({ action, durationMs, error: result.error, sessionKey: result.sessionKey });
+  }
+}
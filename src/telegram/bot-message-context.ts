@@ -32,7 +32,7 @@ import { logVerbose, shouldLogVerbose } from "../globals.js";
 import { recordChannelActivity } from "../infra/channel-activity.js";
 import { buildPairingReply } from "../pairing/pairing-messages.js";
 import { upsertChannelPairingRequest } from "../pairing/pairing-store.js";
-import { resolveAgentRoute } from "../routing/resolve-route.js";
+import { resolveAgentRouteWithIntent } from "../routing/intent-router.js";
 import { resolveThreadSessionKeys } from "../routing/session-key.js";
 import { withTelegramApiErrorLogging } from "./api-logging.js";
 import {
@@ -166,7 +166,7 @@ export const buildTelegramMessageContext = async ({
   const peerId = isGroup ? buildTelegramGroupPeerId(chatId, resolvedThreadId) : String(chatId);
   const parentPeer = buildTelegramParentPeer({ isGroup, resolvedThreadId, chatId });
   // Fresh config for bindings lookup; other routing inputs are payload-derived.
-  const route = resolveAgentRoute({
+  const route = await resolveAgentRouteWithIntent({
     cfg: loadConfig(),
     channel: "telegram",
     accountId: account.accountId,
@@ -175,6 +175,12 @@ export const buildTelegramMessageContext = async ({
       id: peerId,
     },
     parentPeer,
+    message: {
+      text: msg.text ?? msg.caption,
+      senderId: msg.from?.id != null ? String(msg.from.id) : undefined,
+      senderUsername: msg.from?.username,
+      senderName: buildSenderName(msg),
+    },
   });
   const baseSessionKey = route.sessionKey;
   // DMs: use raw messageThreadId for thread sessions (not forum topic ids)
@@ -0,0 +1,22 @@
+declare module "onnxruntime-node" {
+  export class Tensor {
+    constructor(type: "int64", data: BigInt64Array, dims: readonly number[]);
+    readonly data: Float32Array | BigInt64Array;
+    readonly dims: readonly number[];
+  }
+
+  export type InferenceSessionOptions = {
+    executionProviders?: string[];
+    graphOptimizationLevel?: "disabled" | "basic" | "extended" | "all";
+    intraOpNumThreads?: number;
+    interOpNumThreads?: number;
+  };
+
+  export class InferenceSession {
+    static create(path: string, options?: InferenceSessionOptions): Promise<InferenceSession>;
+    readonly inputNames: readonly string[];
+    readonly outputNames: readonly string[];
+    run(feeds: Record<string, Tensor>): Promise<Record<string, Tensor>>;
+    release(): Promise<void>;
+  }
+}
@@ -6,6 +6,7 @@ import type { EchoTracker } from "./echo.js";
 import type { GroupHistoryEntry } from "./group-gating.js";
 import { loadConfig } from "../../../config/config.js";
 import { logVerbose } from "../../../globals.js";
+import { resolveAgentRouteWithIntent } from "../../../routing/intent-router.js";
 import { resolveAgentRoute } from "../../../routing/resolve-route.js";
 import { buildGroupHistoryKey } from "../../../routing/session-key.js";
 import { normalizeE164 } from "../../../utils.js";
@@ -64,7 +65,7 @@ export function createWebOnMessageHandler(params: {
     const conversationId = msg.conversationId ?? msg.from;
     const peerId = resolvePeerId(msg);
     // Fresh config for bindings lookup; other routing inputs are payload-derived.
-    const route = resolveAgentRoute({
+    const route = await resolveAgentRouteWithIntent({
       cfg: loadConfig(),
       channel: "whatsapp",
       accountId: msg.accountId,
@@ -72,6 +73,12 @@ export function createWebOnMessageHandler(params: {
         kind: msg.chatType === "group" ? "group" : "direct",
         id: peerId,
       },
+      message: {
+        text: msg.body,
+        senderId: msg.senderJid,
+        senderName: msg.senderName ?? msg.pushName,
+        senderE164: msg.senderE164 ?? (msg.chatType === "direct" ? msg.from : undefined),
+      },
     });
     const groupHistoryKey =
       msg.chatType === "group"
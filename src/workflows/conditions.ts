@@ -0,0 +1,94 @@
+import type { WorkflowCondition, WorkflowStepOutcome, WorkflowStepStatus } from "./types.js";
+
+const DEFAULT_CONDITION_STATUSES: WorkflowStepStatus[] = ["succeeded"];
+
+function normalizeStatuses(status: WorkflowCondition["status"]): WorkflowStepStatus[] {
+  if (!status) {
+    return DEFAULT_CONDITION_STATUSES;
+  }
+  return Array.isArray(status) ? status : [status];
+}
+
+function evaluateLeaf(
+  condition: WorkflowCondition,
+  outcomes: Record<string, WorkflowStepOutcome | undefined>,
+): boolean {
+  const stepName = condition.step?.trim();
+  if (!stepName) {
+    return true;
+  }
+  const outcome = outcomes[stepName];
+  if (!outcome) {
+    return false;
+  }
+  if (!normalizeStatuses(condition.status).includes(outcome.status)) {
+    return false;
+  }
+  const output = outcome.output ?? "";
+  if (condition.outputContains !== undefined && !output.includes(condition.outputContains)) {
+    return false;
+  }
+  if (condition.outputMatches !== undefined) {
+    try {
+      if (!new RegExp(condition.outputMatches, "i").test(output)) {
+        return false;
+      }
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function evaluateWorkflowCondition(
+  condition: WorkflowCondition,
+  outcomes: Record<string, WorkflowStepOutcome | undefined>,
+): boolean {
+  let result = evaluateLeaf(condition, outcomes);
+  if (result && condition.all?.length) {
+    result = condition.all.every((entry) => evaluateWorkflowCondition(entry, outcomes));
+  }
+  if (result && condition.any?.length) {
+    result = condition.any.some((entry) => evaluateWorkflowCondition(entry, outcomes));
+  }
+  return condition.negate ? !result : result;
+}
+
+/** Step names referenced anywhere inside a condition tree. */
+export function collectConditionSteps(condition: WorkflowCondition | undefined): string[] {
+  if (!condition) {
+    return [];
+  }
+  const names = new Set<string>();
+  const visit = (entry: WorkflowCondition) => {
+    const stepName = entry.step?.trim();
+    if (stepName) {
+      names.add(stepName);
+    }
+    for (const nested of entry.all ?? []) {
+      visit(nested);
+    }
+    for (const nested of entry.any ?? []) {
+      visit(nested);
+    }
+  };
+  visit(condition);
+  return [...names];
+}
+
+export function validateWorkflowCondition(condition: WorkflowCondition): string | null {
+  if (condition.outputMatches !== undefined) {
+    try {
+      new RegExp(condition.outputMatches, "i");
+    } catch (err) {
+      return `invalid outputMatches regex "${condition.outputMatches}": ${String(err)}`;
+    }
+  }
+  for (const nested of [...(condition.all ?? []), ...(condition.any ?? [])]) {
+    const error = validateWorkflowCondition(nested);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
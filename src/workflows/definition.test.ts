@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { evaluateWorkflowCondition } from "./conditions.js";
+import { resolveWorkflowDependencies, validateWorkflowDefinition } from "./definition.js";
+
+describe("validateWorkflowDefinition", () => {
+  it("accepts a dag with guards and fan-out", () => {
+    expect(
+      validateWorkflowDefinition({
+        pattern: "dag",
+        steps: [
+          { name: "list", task: "list" },
+          { name: "each", task: "{{item}}", forEach: { fromStep: "list" } },
+          { name: "fix", task: "fix", when: { step: "each", status: ["failed"] } },
+        ],
+      }),
+    ).toEqual({ ok: true });
+  });
+
+  it("rejects cycles", () => {
+    const result = validateWorkflowDefinition({
+      pattern: "dag",
+      steps: [
+        { name: "a", task: "a", dependsOn: ["b"] },
+        { name: "b", task: "b", dependsOn: ["a"] },
+      ],
+    });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toMatch(/cycle/i);
+  });
+
+  it("rejects unknown references and malformed steps", () => {
+    const cases = [
+      { pattern: "dag" as const, steps: [{ name: "a", task: "a", dependsOn: ["missing"] }] },
+      { pattern: "dag" as const, steps: [{ name: "a", task: "a", when: { step: "missing" } }] },
+      { pattern: "sequential" as const, steps: [{ name: "a" }] },
+      {
+        pattern: "sequential" as const,
+        steps: [
+          { name: "a", task: "a" },
+          { name: "a", task: "b" },
+        ],
+      },
+      {
+        pattern: "sequential" as const,
+        steps: [{ name: "gate", kind: "approval" as const, forEach: { items: ["x"] } }],
+      },
+      {
+        pattern: "sequential" as const,
+        steps: [{ name: "a", task: "a", when: { step: "a", outputMatches: "(" } }],
+      },
+    ];
+    for (const definition of cases) {
+      expect(validateWorkflowDefinition(definition).ok).toBe(false);
+    }
+  });
+});
+
+describe("resolveWorkflowDependencies", () => {
+  it("adds guard and fan-out sources as implicit dependencies", () => {
+    const deps = resolveWorkflowDependencies({
+      pattern: "parallel",
+      steps: [
+        { name: "a", task: "a" },
+        { name: "b", task: "b", when: { step: "a" } },
+        { name: "c", task: "c", forEach: { fromStep: "a" } },
+      ],
+    });
+    expect(deps.get("a")).toEqual([]);
+    expect(deps.get("b")).toEqual(["a"]);
+    expect(deps.get("c")).toEqual(["a"]);
+  });
+});
+
+describe("evaluateWorkflowCondition", () => {
+  const outcomes = {
+    a: { status: "succeeded" as const, output: "Tests PASSED", attempts: 1 },
+    b: { status: "failed" as const, error: "x", attempts: 1 },
+  };
+
+  it("combines leaves with all/any and negate", () => {
+    expect(evaluateWorkflowCondition({ step: "a" }, outcomes)).toBe(true);
+    expect(evaluateWorkflowCondition({ step: "a", outputMatches: "passed" }, outcomes)).toBe(true);
+    expect(evaluateWorkflowCondition({ step: "a", outputContains: "FAILED" }, outcomes)).toBe(
+      false,
+    );
+    expect(
+      evaluateWorkflowCondition(
+        { all: [{ step: "a" }, { step: "b", status: ["failed"] }] },
+        outcomes,
+      ),
+    ).toBe(true);
+    expect(evaluateWorkflowCondition({ any: [{ step: "b" }], negate: true }, outcomes)).toBe(true);
+  });
+});
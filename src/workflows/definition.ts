@@ -0,0 +1,119 @@
+import type { WorkflowDefinition, WorkflowStepDefinition } from "./types.js";
+import { collectConditionSteps, validateWorkflowCondition } from "./conditions.js";
+
+export type WorkflowDefinitionValidation = { ok: true } | { ok: false; error: string };
+
+export function resolveWorkflowStepKind(step: WorkflowStepDefinition) {
+  return step.kind ?? "agent";
+}
+
+/**
+ * Effective dependencies for every step. `sequential` chains each step to the
+ * previous one, `parallel` starts everything at once and `dag` uses
+ * `dependsOn`. Steps referenced by `when` or `forEach.fromStep` always become
+ * implicit dependencies so guards never read an unfinished outcome.
+ */
+export function resolveWorkflowDependencies(definition: WorkflowDefinition): Map<string, string[]> {
+  const deps = new Map<string, string[]>();
+  definition.steps.forEach((step, index) => {
+    const explicit = new Set<string>();
+    if (definition.pattern === "sequential" && index > 0) {
+      explicit.add(definition.steps[index - 1].name);
+    } else if (definition.pattern === "dag") {
+      for (const dep of step.dependsOn ?? []) {
+        explicit.add(dep);
+      }
+    }
+    for (const ref of collectConditionSteps(step.when)) {
+      if (ref !== step.name) {
+        explicit.add(ref);
+      }
+    }
+    const fromStep = step.forEach?.fromStep?.trim();
+    if (fromStep && fromStep !== step.name) {
+      explicit.add(fromStep);
+    }
+    deps.set(step.name, [...explicit]);
+  });
+  return deps;
+}
+
+export function validateWorkflowDefinition(
+  definition: WorkflowDefinition,
+): WorkflowDefinitionValidation {
+  if (!definition.steps.length) {
+    return { ok: false, error: "No steps provided" };
+  }
+  const names = new Set<string>();
+  for (const step of definition.steps) {
+    const name = step.name?.trim();
+    if (!name) {
+      return { ok: false, error: "Every step needs a name" };
+    }
+    if (names.has(name)) {
+      return { ok: false, error: `Duplicate step name: "${name}"` };
+    }
+    names.add(name);
+    const kind = resolveWorkflowStepKind(step);
+    if (kind !== "agent" && kind !== "approval") {
+      return { ok: false, error: `Step "${name}" has unknown kind "${String(kind)}"` };
+    }
+    if (kind === "agent" && !step.task?.trim()) {
+      return { ok: false, error: `Step "${name}" is missing a task` };
+    }
+    if (kind === "approval" && step.forEach) {
+      return { ok: false, error: `Approval step "${name}" cannot use forEach` };
+    }
+    if (step.forEach && !step.forEach.items?.length && !step.forEach.fromStep?.trim()) {
+      return { ok: false, error: `Step "${name}" forEach needs items or fromStep` };
+    }
+    if (step.when) {
+      const conditionError = validateWorkflowCondition(step.when);
+      if (conditionError) {
+        return { ok: false, error: `Step "${name}": ${conditionError}` };
+      }
+      if (collectConditionSteps(step.when).includes(name)) {
+        return { ok: false, error: `Step "${name}" has a condition on itself` };
+      }
+    }
+  }
+
+  const deps = resolveWorkflowDependencies(definition);
+  for (const [name, stepDeps] of deps) {
+    for (const dep of stepDeps) {
+      if (!names.has(dep)) {
+        return { ok: false, error: `Step "${name}" depends on unknown step "${dep}"` };
+      }
+    }
+  }
+
+  // Kahn's algorithm: anything left over sits on a cycle.
+  const indegree = new Map<string, number>();
+  for (const [name, stepDeps] of deps) {
+    indegree.set(name, stepDeps.length);
+  }
+  const queue = [...indegree].filter(([, count]) => count === 0).map(([name]) => name);
+  let visited = 0;
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    visited += 1;
+    for (const [name, stepDeps] of deps) {
+      if (!stepDeps.includes(current)) {
+        continue;
+      }
+      const next = (indegree.get(name) ?? 0) - 1;
+      indegree.set(name, next);
+      if (next === 0) {
+        queue.push(name);
+      }
+    }
+  }
+  if (visited !== deps.size) {
+    const stuck = [...indegree]
+      .filter(([, count]) => count > 0)
+      .map(([name]) => name)
+      .join(", ");
+    return { ok: false, error: `Workflow has a dependency cycle involving: ${stuck}` };
+  }
+  return { ok: true };
+}
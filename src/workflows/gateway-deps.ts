@@ -0,0 +1,193 @@
+import crypto from "node:crypto";
+import type { OpenClawConfig } from "../config/config.js";
+import type {
+  WorkflowAgentStepRequest,
+  WorkflowAgentStepResult,
+  WorkflowApprovalRequest,
+  WorkflowApprovalResult,
+} from "./runtime.js";
+import type { WorkflowRequester } from "./types.js";
+import { AGENT_LANE_SUBAGENT } from "../agents/lanes.js";
+import { resolveDefaultModelForAgent } from "../agents/model-selection.js";
+import { buildSubagentSystemPrompt } from "../agents/subagent-announce.js";
+import { registerSubagentRun } from "../agents/subagent-registry.js";
+import { readLatestAssistantReply } from "../agents/tools/agent-step.js";
+import { callGateway } from "../gateway/call.js";
+import { buildSessionTemplatePatch, resolveSessionTemplate } from "../sessions/templates.js";
+
+const DEFAULT_STEP_TIMEOUT_SECONDS = 600;
+
+/**
+ * Spawn one sub-agent session for a workflow step and wait for its reply.
+ * Mirrors sessions_spawn, but waits on `agent.wait` so outcomes can be chained.
+ */
+export async function runWorkflowAgentStepViaGateway(params: {
+  request: WorkflowAgentStepRequest;
+  requester: WorkflowRequester;
+  cfg: OpenClawConfig;
+}): Promise<WorkflowAgentStepResult> {
+  const { request, requester, cfg } = params;
+  const { step, task, label, signal } = request;
+  const childSessionKey = `agent:${requester.agentId}:workflow:${crypto.randomUUID()}`;
+  const childDepth = requester.callerDepth + 1;
+  const timeoutSeconds = step.timeoutSeconds ?? DEFAULT_STEP_TIMEOUT_SECONDS;
+  const template = step.template ? resolveSessionTemplate(cfg, step.template) : undefined;
+
+  const resolvedModel =
+    step.model ??
+    template?.model ??
+    (() => {
+      const model = resolveDefaultModelForAgent({ cfg, agentId: requester.agentId });
+      return `${model.provider}/${model.model}`;
+    })();
+
+  await callGateway({
+    method: "sessions.patch",
+    params: {
+      key: childSessionKey,
+      spawnDepth: childDepth,
+      ...(template ? buildSessionTemplatePatch(template) : {}),
+    },
+    timeoutMs: 10_000,
+  });
+  try {
+    await callGateway({
+      method: "sessions.patch",
+      params: { key: childSessionKey, model: resolvedModel },
+      timeoutMs: 10_000,
+    });
+  } catch {
+    // Non-fatal: the run falls back to the agent default model.
+  }
+
+  const origin = requester.origin;
+  const idempotencyKey = crypto.randomUUID();
+  const response = await callGateway<{ runId?: string }>({
+    method: "agent",
+    params: {
+      message: task,
+      sessionKey: childSessionKey,
+      channel: origin?.channel,
+      to: origin?.to ?? undefined,
+      accountId: origin?.accountId ?? undefined,
+      idempotencyKey,
+      deliver: false,
+      lane: AGENT_LANE_SUBAGENT,
+      extraSystemPrompt: buildSubagentSystemPrompt({
+        requesterSessionKey: requester.sessionKey,
+        requesterOrigin: origin,
+        childSessionKey,
+        label,
+        task,
+        childDepth,
+        maxSpawnDepth: requester.maxSpawnDepth,
+      }),
+      thinking: step.thinking ?? template?.thinking,
+      timeout: timeoutSeconds,
+      label,
+      spawnedBy: requester.sessionKey,
+    },
+    timeoutMs: 10_000,
+  });
+  const runId =
+    typeof response?.runId === "string" && response.runId ? response.runId : idempotencyKey;
+
+  registerSubagentRun({
+    runId,
+    childSessionKey,
+    requesterSessionKey: requester.sessionKey,
+    requesterOrigin: origin,
+    requesterDisplayKey: requester.sessionKey,
+    task,
+    cleanup: "keep",
+    label,
+    model: resolvedModel,
+    runTimeoutSeconds: timeoutSeconds,
+  });
+
+  const abortRun = () => {
+    void callGateway({
+      method: "chat.abort",
+      params: { sessionKey: childSessionKey, runId },
+      timeoutMs: 10_000,
+    }).catch(() => {});
+  };
+  signal.addEventListener("abort", abortRun, { once: true });
+  try {
+    const waitMs = timeoutSeconds * 1000;
+    const wait = await callGateway<{ status?: string; error?: string }>({
+      method: "agent.wait",
+      params: { runId, timeoutMs: waitMs },
+      timeoutMs: waitMs + 10_000,
+    });
+    if (wait?.status === "timeout") {
+      return {
+        status: "timed_out",
+        error: `no result after ${timeoutSeconds}s`,
+        sessionKey: childSessionKey,
+      };
+    }
+    if (wait?.status !== "ok") {
+      return {
+        status: "failed",
+        error: wait?.error ?? `agent run ended with status ${wait?.status ?? "unknown"}`,
+        sessionKey: childSessionKey,
+      };
+    }
+    const output = await readLatestAssistantReply({ sessionKey: childSessionKey });
+    if (!output?.trim()) {
+      return {
+        status: "failed",
+        error: "step finished without an assistant reply",
+        sessionKey: childSessionKey,
+      };
+    }
+    return { status: "succeeded", output, sessionKey: childSessionKey };
+  } finally {
+    signal.removeEventListener("abort", abortRun);
+  }
+}
+
+/**
+ * Human approval gate backed by the exec approval plumbing, so the request is
+ * forwarded to the configured approval targets (Slack, Discord, Control UI).
+ */
+export async function requestWorkflowApprovalViaGateway(params: {
+  request: WorkflowApprovalRequest;
+  requester: WorkflowRequester;
+  workflowLabel: string;
+}): Promise<WorkflowApprovalResult> {
+  const { request, requester, workflowLabel } = params;
+  const accepted = await callGateway<{ status?: string; id?: string }>({
+    method: "exec.approval.request",
+    params: {
+      id: crypto.randomUUID(),
+      command: `workflow ${workflowLabel} · ${request.step.name}: ${request.prompt}`,
+      host: "workflow",
+      agentId: requester.agentId,
+      sessionKey: requester.sessionKey,
+      timeoutMs: request.timeoutMs,
+      twoPhase: true,
+    },
+    timeoutMs: 10_000,
+  });
+  const approvalId = typeof accepted?.id === "string" ? accepted.id : "";
+  if (!approvalId) {
+    throw new Error("approval request was not accepted");
+  }
+  request.onPending(approvalId);
+
+  const result = await callGateway<{ decision?: string | null }>({
+    method: "exec.approval.waitDecision",
+    params: { id: approvalId },
+    timeoutMs: request.timeoutMs + 10_000,
+  });
+  const decision = result?.decision;
+  if (decision === "allow-once" || decision === "allow-always") {
+    return { decision: "approved", approvalId };
+  }
+  if (decision === "deny") {
+    return { decision: "denied", approvalId };
+  }
+  return { decision: "timeout", approvalId };
+}
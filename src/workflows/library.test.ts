@@ -0,0 +1,153 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  applyWorkflowParams,
+  loadWorkflowLibrary,
+  parseWorkflowDocument,
+  resolveNamedWorkflow,
+} from "./library.js";
+
+let tmpDir = "";
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-workflows-"));
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+function makeConfig(workflows?: OpenClawConfig["workflows"]): OpenClawConfig {
+  return {
+    agents: { defaults: { workspace: path.join(tmpDir, "workspace") } },
+    ...(workflows ? { workflows } : {}),
+  } as OpenClawConfig;
+}
+
+async function writeFile(relative: string, content: string) {
+  const filePath = path.join(tmpDir, relative);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, "utf-8");
+  return filePath;
+}
+
+describe("parseWorkflowDocument", () => {
+  it("parses params and defaults the label to the name", () => {
+    const result = parseWorkflowDocument(
+      {
+        description: "Weekly report",
+        params: { repo: null, tone: "neutral", days: { default: 7, description: "window" } },
+        pattern: "sequential",
+        steps: [{ name: "collect", task: "PRs in {{params.repo}} ({{ params.days }}d)" }],
+      },
+      { name: "weekly", source: "config" },
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.workflow.name).toBe("weekly");
+    expect(result.workflow.definition.label).toBe("weekly");
+    expect(result.workflow.params).toEqual({
+      repo: { required: true },
+      tone: { default: "neutral" },
+      days: { default: "7", description: "window" },
+    });
+  });
+
+  it("rejects schema violations, run-only keys and undeclared params", () => {
+    const cases: unknown[] = [
+      { pattern: "sometimes", steps: [{ name: "a", task: "a" }] },
+      { pattern: "sequential", steps: [{ name: "a", task: "a" }], background: true },
+      { pattern: "sequential" },
+      { pattern: "sequential", steps: [{ name: "a", task: "{{params.missing}}" }] },
+      { pattern: "dag", steps: [{ name: "a", task: "a", dependsOn: ["b"] }] },
+    ];
+    for (const raw of cases) {
+      expect(parseWorkflowDocument(raw, { name: "bad", source: "config" }).ok).toBe(false);
+    }
+  });
+});
+
+describe("loadWorkflowLibrary", () => {
+  it("loads YAML/JSON files and lets the workspace override config and paths", async () => {
+    await writeFile(
+      "workspace/workflows/review.yaml",
+      [
+        "description: workspace review",
+        "pattern: parallel",
+        "steps:",
+        "  - name: lint",
+        "    task: lint it",
+      ].join("\n"),
+    );
+    await writeFile(
+      "shared/report.json",
+      JSON.stringify({ pattern: "sequential", steps: [{ name: "a", task: "from path" }] }),
+    );
+    await writeFile("shared/broken.yaml", "pattern: sequential\nsteps: []\n");
+    const cfg = makeConfig({
+      paths: [path.join(tmpDir, "shared")],
+      definitions: {
+        report: { pattern: "sequential", steps: [{ name: "a", task: "from config" }] },
+        review: { pattern: "sequential", steps: [{ name: "a", task: "from config" }] },
+      },
+    });
+
+    const library = await loadWorkflowLibrary({ cfg });
+
+    expect(library.workflows.map((workflow) => [workflow.name, workflow.source])).toEqual([
+      ["report", "config"],
+      ["review", "workspace"],
+    ]);
+    expect(library.workflows[1]?.description).toBe("workspace review");
+    expect(library.errors).toHaveLength(1);
+    expect(library.errors[0]?.path).toContain("broken.yaml");
+
+    const resolved = await resolveNamedWorkflow({ cfg, name: "review" });
+    expect(resolved?.definition.pattern).toBe("parallel");
+    expect(await resolveNamedWorkflow({ cfg, name: "nope" })).toBeNull();
+  });
+});
+
+describe("applyWorkflowParams", () => {
+  const parsed = parseWorkflowDocument(
+    {
+      label: "Report for {{params.repo}}",
+      params: { repo: { required: true }, tone: "neutral", note: {} },
+      pattern: "sequential",
+      steps: [
+        {
+          name: "write",
+          task: "Write a {{params.tone}} summary of {{params.repo}}.{{params.note}}",
+        },
+        { name: "each", task: "check {{item}}", forEach: { items: ["{{params.repo}}/a"] } },
+      ],
+    },
+    { name: "report", source: "config" },
+  );
+  if (!parsed.ok) {
+    throw new Error(parsed.error);
+  }
+  const workflow = parsed.workflow;
+
+  it("substitutes values and defaults", () => {
+    const { definition, params } = applyWorkflowParams(workflow, { repo: "acme/app" });
+    expect(params).toEqual({ repo: "acme/app", tone: "neutral", note: "" });
+    expect(definition.label).toBe("Report for acme/app");
+    expect(definition.steps[0]?.task).toBe("Write a neutral summary of acme/app.");
+    expect(definition.steps[1]?.forEach?.items).toEqual(["acme/app/a"]);
+    // The stored definition is left untouched.
+    expect(workflow.definition.label).toBe("Report for {{params.repo}}");
+  });
+
+  it("throws on missing required and unknown params", () => {
+    expect(() => applyWorkflowParams(workflow, {})).toThrow(/requires param "repo"/);
+    expect(() => applyWorkflowParams(workflow, { repo: "x", extra: "y" })).toThrow(
+      /has no param "extra"/,
+    );
+  });
+});
@@ -0,0 +1,319 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import type { OpenClawConfig } from "../config/config.js";
+import type {
+  NamedWorkflowDefinition,
+  WorkflowDefinition,
+  WorkflowParamSpec,
+  WorkflowStepDefinition,
+} from "./types.js";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { validateJsonSchemaValue } from "../plugins/schema-validator.js";
+import { resolveUserPath } from "../utils.js";
+import { validateWorkflowDefinition } from "./definition.js";
+import { WorkflowToolSchema } from "./schema.js";
+
+const WORKFLOW_FILE_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+const WORKFLOW_NAME_RE = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+const PARAM_PLACEHOLDER_RE = /\{\{\s*params\.([a-zA-Z0-9_-]+)\s*\}\}/g;
+// Keys only meaningful on a workflow_run call, not in a stored definition.
+const RUN_ONLY_KEYS = ["workflow", "resume", "background"] as const;
+
+export type WorkflowLibraryError = {
+  source: NamedWorkflowDefinition["source"];
+  path?: string;
+  name?: string;
+  error: string;
+};
+
+export type WorkflowLibrary = {
+  workflows: NamedWorkflowDefinition[];
+  errors: WorkflowLibraryError[];
+};
+
+type ParseResult = { ok: true; workflow: NamedWorkflowDefinition } | { ok: false; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseParamSpecs(
+  raw: unknown,
+): { ok: true; params: Record<string, WorkflowParamSpec> } | { ok: false; error: string } {
+  if (raw === undefined) {
+    return { ok: true, params: {} };
+  }
+  if (!isRecord(raw)) {
+    return { ok: false, error: "params must be an object" };
+  }
+  const params: Record<string, WorkflowParamSpec> = {};
+  for (const [name, spec] of Object.entries(raw)) {
+    if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+      return { ok: false, error: `invalid param name "${name}"` };
+    }
+    // Shorthand: `topic: "default value"`.
+    if (typeof spec === "string" || typeof spec === "number" || typeof spec === "boolean") {
+      params[name] = { default: String(spec) };
+      continue;
+    }
+    if (spec === null) {
+      params[name] = { required: true };
+      continue;
+    }
+    if (!isRecord(spec)) {
+      return { ok: false, error: `param "${name}" must be a string or an object` };
+    }
+    const next: WorkflowParamSpec = {};
+    if (typeof spec.description === "string") {
+      next.description = spec.description;
+    }
+    if (
+      typeof spec.default === "string" ||
+      typeof spec.default === "number" ||
+      typeof spec.default === "boolean"
+    ) {
+      next.default = String(spec.default);
+    }
+    if (spec.required === true) {
+      next.required = true;
+    }
+    params[name] = next;
+  }
+  return { ok: true, params };
+}
+
+function collectParamReferences(definition: WorkflowDefinition): Set<string> {
+  const refs = new Set<string>();
+  const scan = (text: string | undefined) => {
+    for (const match of text?.matchAll(PARAM_PLACEHOLDER_RE) ?? []) {
+      refs.add(match[1]);
+    }
+  };
+  scan(definition.label);
+  for (const step of definition.steps) {
+    scan(step.task);
+    for (const item of step.forEach?.items ?? []) {
+      scan(item);
+    }
+  }
+  return refs;
+}
+
+/**
+ * Validate a parsed workflow document (file contents or an inline config
+ * entry). The run-shaped fields are checked against `WorkflowToolSchema` so
+ * stored definitions accept exactly what `workflow_run` accepts inline.
+ */
+export function parseWorkflowDocument(
+  raw: unknown,
+  meta: { name: string; source: NamedWorkflowDefinition["source"]; path?: string },
+): ParseResult {
+  if (!isRecord(raw)) {
+    return { ok: false, error: "workflow definition must be an object" };
+  }
+  const { name: rawName, description, params: rawParams, ...rest } = raw;
+  const name = typeof rawName === "string" && rawName.trim() ? rawName.trim() : meta.name;
+  if (!WORKFLOW_NAME_RE.test(name)) {
+    return { ok: false, error: `invalid workflow name "${name}"` };
+  }
+  for (const key of RUN_ONLY_KEYS) {
+    if (key in rest) {
+      return { ok: false, error: `"${key}" is not allowed in a workflow definition` };
+    }
+  }
+  const schemaCheck = validateJsonSchemaValue({
+    schema: WorkflowToolSchema as unknown as Record<string, unknown>,
+    cacheKey: "workflow-definition",
+    value: rest,
+  });
+  if (!schemaCheck.ok) {
+    return { ok: false, error: schemaCheck.errors.join("; ") };
+  }
+  if (typeof rest.pattern !== "string") {
+    return { ok: false, error: "pattern is required" };
+  }
+  if (!Array.isArray(rest.steps)) {
+    return { ok: false, error: "steps is required" };
+  }
+  const params = parseParamSpecs(rawParams);
+  if (!params.ok) {
+    return params;
+  }
+  const definition: WorkflowDefinition = {
+    pattern: rest.pattern as WorkflowDefinition["pattern"],
+    steps: rest.steps as WorkflowStepDefinition[],
+    ...(typeof rest.passContext === "boolean" ? { passContext: rest.passContext } : {}),
+    ...(rest.merge === "merge" || rest.merge === "concatenate" ? { merge: rest.merge } : {}),
+    label: typeof rest.label === "string" && rest.label.trim() ? rest.label.trim() : name,
+  };
+  const validation = validateWorkflowDefinition(definition);
+  if (!validation.ok) {
+    return validation;
+  }
+  for (const ref of collectParamReferences(definition)) {
+    if (!Object.hasOwn(params.params, ref)) {
+      return { ok: false, error: `{{params.${ref}}} is not declared in params` };
+    }
+  }
+  return {
+    ok: true,
+    workflow: {
+      name,
+      ...(typeof description === "string" && description.trim()
+        ? { description: description.trim() }
+        : {}),
+      params: params.params,
+      definition,
+      source: meta.source,
+      ...(meta.path ? { path: meta.path } : {}),
+    },
+  };
+}
+
+export async function loadWorkflowFile(
+  filePath: string,
+  source: NamedWorkflowDefinition["source"] = "path",
+): Promise<ParseResult> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (err) {
+    return { ok: false, error: `read failed: ${String(err)}` };
+  }
+  let parsed: unknown;
+  try {
+    parsed = path.extname(filePath).toLowerCase() === ".json" ? JSON.parse(raw) : YAML.parse(raw);
+  } catch (err) {
+    return {
+      ok: false,
+      error: `parse failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  const name = path.basename(filePath, path.extname(filePath));
+  return parseWorkflowDocument(parsed, { name, source, path: filePath });
+}
+
+async function listWorkflowFiles(target: string): Promise<string[]> {
+  const stat = await fs.stat(target).catch(() => null);
+  if (!stat) {
+    return [];
+  }
+  if (stat.isFile()) {
+    return WORKFLOW_FILE_EXTENSIONS.has(path.extname(target).toLowerCase()) ? [target] : [];
+  }
+  if (!stat.isDirectory()) {
+    return [];
+  }
+  const entries = await fs.readdir(target, { withFileTypes: true }).catch(() => []);
+  return entries
+    .filter(
+      (entry) =>
+        entry.isFile() && WORKFLOW_FILE_EXTENSIONS.has(path.extname(entry.name).toLowerCase()),
+    )
+    .map((entry) => path.join(target, entry.name))
+    .toSorted();
+}
+
+export function resolveWorkflowDirs(cfg: OpenClawConfig, agentId?: string) {
+  const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId ?? resolveDefaultAgentId(cfg));
+  const extra = (cfg.workflows?.paths ?? [])
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) =>
+      entry.startsWith("~") || path.isAbsolute(entry)
+        ? resolveUserPath(entry)
+        : path.resolve(workspaceDir, entry),
+    );
+  return { workspace: path.join(workspaceDir, "workflows"), extra };
+}
+
+/**
+ * Discover named workflows. Later sources win on name clashes:
+ * `workflows.paths` < `workflows.definitions` < `<workspace>/workflows`.
+ */
+export async function loadWorkflowLibrary(params: {
+  cfg: OpenClawConfig;
+  agentId?: string;
+}): Promise<WorkflowLibrary> {
+  const { cfg } = params;
+  const byName = new Map<string, NamedWorkflowDefinition>();
+  const errors: WorkflowLibraryError[] = [];
+  const dirs = resolveWorkflowDirs(cfg, params.agentId);
+
+  const loadFrom = async (target: string, source: NamedWorkflowDefinition["source"]) => {
+    for (const filePath of await listWorkflowFiles(target)) {
+      const result = await loadWorkflowFile(filePath, source);
+      if (result.ok) {
+        byName.set(result.workflow.name, result.workflow);
+      } else {
+        errors.push({ source, path: filePath, error: result.error });
+      }
+    }
+  };
+
+  for (const target of dirs.extra) {
+    await loadFrom(target, "path");
+  }
+  for (const [name, raw] of Object.entries(cfg.workflows?.definitions ?? {})) {
+    const result = parseWorkflowDocument({ ...raw, name }, { name, source: "config" });
+    if (result.ok) {
+      byName.set(result.workflow.name, result.workflow);
+    } else {
+      errors.push({ source: "config", name, error: result.error });
+    }
+  }
+  await loadFrom(dirs.workspace, "workspace");
+
+  return {
+    workflows: [...byName.values()].toSorted((a, b) => a.name.localeCompare(b.name)),
+    errors,
+  };
+}
+
+export async function resolveNamedWorkflow(params: {
+  cfg: OpenClawConfig;
+  name: string;
+  agentId?: string;
+}): Promise<NamedWorkflowDefinition | null> {
+  const library = await loadWorkflowLibrary(params);
+  return library.workflows.find((workflow) => workflow.name === params.name.trim()) ?? null;
+}
+
+/**
+ * Substitute `{{params.<name>}}` placeholders. Missing values fall back to the
+ * declared default (or empty); unknown or missing required params throw.
+ */
+export function applyWorkflowParams(
+  workflow: NamedWorkflowDefinition,
+  values: Record<string, string> = {},
+): { definition: WorkflowDefinition; params: Record<string, string> } {
+  for (const key of Object.keys(values)) {
+    if (!Object.hasOwn(workflow.params, key)) {
+      throw new Error(`workflow "${workflow.name}" has no param "${key}"`);
+    }
+  }
+  const resolved: Record<string, string> = {};
+  for (const [key, spec] of Object.entries(workflow.params)) {
+    const value = values[key] ?? spec.default;
+    if (value === undefined && spec.required) {
+      throw new Error(`workflow "${workflow.name}" requires param "${key}"`);
+    }
+    resolved[key] = value ?? "";
+  }
+  const render = (text: string) =>
+    text.replace(PARAM_PLACEHOLDER_RE, (match, key: string) => resolved[key] ?? match);
+  const source = workflow.definition;
+  const definition: WorkflowDefinition = {
+    ...source,
+    ...(source.label ? { label: render(source.label) } : {}),
+    steps: source.steps.map((step) => ({
+      ...step,
+      ...(step.task !== undefined ? { task: render(step.task) } : {}),
+      ...(step.forEach?.items
+        ? { forEach: { ...step.forEach, items: step.forEach.items.map(render) } }
+        : {}),
+    })),
+  };
+  return { definition, params: resolved };
+}
@@ -0,0 +1,284 @@
+import { describe, expect, it, vi } from "vitest";
+import type { WorkflowDefinition, WorkflowRunRecord } from "./types.js";
+import {
+  executeWorkflowRun,
+  parseWorkflowItems,
+  renderWorkflowTemplate,
+  type WorkflowAgentStepRequest,
+  type WorkflowAgentStepResult,
+  type WorkflowApprovalResult,
+  type WorkflowRuntimeDeps,
+} from "./runtime.js";
+
+function makeRecord(definition: WorkflowDefinition): WorkflowRunRecord {
+  return {
+    version: 1,
+    runId: "run-1",
+    label: definition.label ?? "test",
+    definition,
+    requester: {
+      sessionKey: "agent:main:main",
+      agentId: "main",
+      callerDepth: 0,
+      maxSpawnDepth: 1,
+    },
+    status: "running",
+    steps: {},
+    createdAtMs: 1,
+    updatedAtMs: 1,
+  };
+}
+
+function makeDeps(
+  runAgentStep: (request: WorkflowAgentStepRequest) => Promise<WorkflowAgentStepResult>,
+  overrides: Partial<WorkflowRuntimeDeps> = {},
+): WorkflowRuntimeDeps {
+  return {
+    runAgentStep,
+    requestApproval: async () => ({ decision: "approved" }),
+    persist: async () => {},
+    sleep: async () => {},
+    ...overrides,
+  };
+}
+
+describe("executeWorkflowRun", () => {
+  it("runs a fallback step only when its guard matches a failure", async () => {
+    const record = makeRecord({
+      pattern: "dag",
+      steps: [
+        { name: "fetch", task: "fetch data" },
+        {
+          name: "fallback",
+          task: "use cache",
+          when: { step: "fetch", status: ["failed"] },
+        },
+        { name: "report", task: "report", when: { step: "fetch" } },
+      ],
+    });
+    const calls: string[] = [];
+    const result = await executeWorkflowRun(
+      record,
+      makeDeps(async ({ step }) => {
+        calls.push(step.name);
+        return step.name === "fetch"
+          ? { status: "failed", error: "boom" }
+          : { status: "succeeded", output: `${step.name} done` };
+      }),
+    );
+
+    expect(calls).toEqual(["fetch", "fallback"]);
+    expect(result.steps.fallback?.status).toBe("succeeded");
+    expect(result.steps.report).toMatchObject({ status: "skipped", skipReason: "condition" });
+    // The failure is handled by the fallback, so the run succeeds.
+    expect(result.status).toBe("succeeded");
+  });
+
+  it("skips dependents of a failed step and fails the run", async () => {
+    const record = makeRecord({
+      pattern: "sequential",
+      steps: [
+        { name: "a", task: "a" },
+        { name: "b", task: "b" },
+      ],
+    });
+    const result = await executeWorkflowRun(
+      record,
+      makeDeps(async () => ({ status: "failed", error: "nope" })),
+    );
+
+    expect(result.steps.b).toMatchObject({ status: "skipped", skipReason: "dependency" });
+    expect(result.status).toBe("failed");
+    expect(result.error).toContain("a");
+  });
+
+  it("retries failed attempts with backoff", async () => {
+    const record = makeRecord({
+      pattern: "sequential",
+      steps: [{ name: "flaky", task: "try", retry: { maxAttempts: 3, backoffMs: 100 } }],
+    });
+    const sleep = vi.fn(async () => {});
+    let attempts = 0;
+    const result = await executeWorkflowRun(
+      record,
+      makeDeps(
+        async () => {
+          attempts += 1;
+          return attempts < 3
+            ? { status: "failed", error: "transient" }
+            : { status: "succeeded", output: "ok" };
+        },
+        { sleep },
+      ),
+    );
+
+    expect(result.steps.flaky).toMatchObject({ status: "succeeded", attempts: 3 });
+    expect(sleep).toHaveBeenCalledTimes(2);
+    expect(sleep.mock.calls.map((call) => call[0])).toEqual([100, 200]);
+  });
+
+  it("fans out over the output of an earlier step", async () => {
+    const record = makeRecord({
+      pattern: "sequential",
+      steps: [
+        { name: "list", task: "list files" },
+        {
+          name: "review",
+          task: "review {{file}} (#{{index}})",
+          forEach: { fromStep: "list", as: "file" },
+        },
+      ],
+    });
+    const tasks: string[] = [];
+    const result = await executeWorkflowRun(
+      record,
+      makeDeps(async ({ step, task }) => {
+        if (step.name === "list") {
+          return { status: "succeeded", output: '```json\n["a.ts", "b.ts"]\n```' };
+        }
+        tasks.push(task);
+        return { status: "succeeded", output: task.split("\n").at(-1) };
+      }),
+    );
+
+    expect(tasks.map((task) => task.split("\n").at(-1))).toEqual([
+      "review a.ts (#0)",
+      "review b.ts (#1)",
+    ]);
+    expect(JSON.parse(result.steps.review?.output ?? "")).toEqual([
+      "review a.ts (#0)",
+      "review b.ts (#1)",
+    ]);
+    expect(result.steps.review?.items).toHaveLength(2);
+  });
+
+  it("gates on approvals", async () => {
+    const build = () =>
+      makeRecord({
+        pattern: "sequential",
+        steps: [
+          { name: "plan", task: "plan" },
+          { name: "approve", kind: "approval", task: "Ship it?" },
+          { name: "ship", task: "ship" },
+        ],
+      });
+    const runStep = async (): Promise<WorkflowAgentStepResult> => ({
+      status: "succeeded",
+      output: "done",
+    });
+    const requestApproval = (decision: WorkflowApprovalResult["decision"]) =>
+      vi.fn<WorkflowRuntimeDeps["requestApproval"]>(async ({ onPending }) => {
+        onPending("approval-1");
+        return { decision, approvalId: "approval-1" };
+      });
+
+    const approve = requestApproval("approved");
+    const approved = await executeWorkflowRun(
+      build(),
+      makeDeps(runStep, { requestApproval: approve }),
+    );
+    expect(approve.mock.calls[0]?.[0].prompt).toBe("Ship it?");
+    expect(approved.steps.approve).toMatchObject({ status: "succeeded", approvalId: "approval-1" });
+    expect(approved.steps.ship?.status).toBe("succeeded");
+
+    const denied = await executeWorkflowRun(
+      build(),
+      makeDeps(runStep, { requestApproval: requestApproval("denied") }),
+    );
+    expect(denied.steps.approve?.status).toBe("rejected");
+    expect(denied.steps.ship?.status).toBe("skipped");
+    expect(denied.status).toBe("failed");
+  });
+
+  it("persists a waiting_approval snapshot while pending", async () => {
+    const snapshots: WorkflowRunRecord[] = [];
+    const record = makeRecord({
+      pattern: "sequential",
+      steps: [{ name: "gate", kind: "approval", task: "ok?" }],
+    });
+    await executeWorkflowRun(
+      record,
+      makeDeps(async () => ({ status: "succeeded" }), {
+        persist: async (snapshot) => {
+          snapshots.push(snapshot);
+        },
+        requestApproval: async ({ onPending }) => {
+          onPending("approval-2");
+          return { decision: "approved", approvalId: "approval-2" };
+        },
+      }),
+    );
+
+    expect(snapshots.some((snap) => snap.steps.gate?.status === "waiting_approval")).toBe(true);
+    expect(snapshots.at(-1)?.status).toBe("succeeded");
+  });
+
+  it("marks unfinished steps cancelled on abort", async () => {
+    const record = makeRecord({
+      pattern: "sequential",
+      steps: [
+        { name: "slow", task: "slow" },
+        { name: "next", task: "next" },
+      ],
+    });
+    const controller = new AbortController();
+    const pending = executeWorkflowRun(
+      record,
+      makeDeps(
+        ({ signal }) =>
+          new Promise<WorkflowAgentStepResult>((resolve) => {
+            signal.addEventListener("abort", () => resolve({ status: "failed" }));
+          }),
+      ),
+      controller.signal,
+    );
+    await vi.waitFor(() => expect(record.steps.slow?.status).toBe("running"));
+    controller.abort();
+    const result = await pending;
+
+    expect(result.status).toBe("cancelled");
+    expect(result.steps.slow?.status).toBe("cancelled");
+    expect(result.steps.next?.status).toBe("cancelled");
+  });
+
+  it("keeps succeeded outcomes when continuing a run", async () => {
+    const record = makeRecord({
+      pattern: "sequential",
+      steps: [
+        { name: "a", task: "a" },
+        { name: "b", task: "use {{steps.a.output}}" },
+      ],
+    });
+    record.steps.a = { status: "succeeded", output: "cached", attempts: 1 };
+    const calls: WorkflowAgentStepRequest[] = [];
+    const result = await executeWorkflowRun(
+      record,
+      makeDeps(async (request) => {
+        calls.push(request);
+        return { status: "succeeded", output: "fresh" };
+      }),
+    );
+
+    expect(calls.map((call) => call.step.name)).toEqual(["b"]);
+    expect(calls[0]?.task).toContain("use cached");
+    expect(result.status).toBe("succeeded");
+  });
+});
+
+describe("workflow templates", () => {
+  it("renders known placeholders and keeps unknown ones", () => {
+    expect(
+      renderWorkflowTemplate(
+        "{{item}} {{steps.a.output}} {{steps.a.status}} {{other}}",
+        { item: "x" },
+        { a: { status: "succeeded", output: "out", attempts: 1 } },
+      ),
+    ).toBe("x out succeeded {{other}}");
+  });
+
+  it("parses JSON arrays and bullet lists", () => {
+    expect(parseWorkflowItems('["a", {"b": 1}]')).toEqual(["a", '{"b":1}']);
+    expect(parseWorkflowItems("- one\n* two\n3. three\n\n")).toEqual(["one", "two", "three"]);
+    expect(parseWorkflowItems("   ")).toEqual([]);
+  });
+});
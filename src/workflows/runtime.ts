@@ -0,0 +1,576 @@
+import type {
+  WorkflowDefinition,
+  WorkflowItemOutcome,
+  WorkflowRunRecord,
+  WorkflowStepDefinition,
+  WorkflowStepOutcome,
+  WorkflowStepStatus,
+} from "./types.js";
+import { computeBackoff, sleepWithAbort } from "../infra/backoff.js";
+import { collectConditionSteps, evaluateWorkflowCondition } from "./conditions.js";
+import { resolveWorkflowDependencies, resolveWorkflowStepKind } from "./definition.js";
+
+export const DEFAULT_WORKFLOW_APPROVAL_TIMEOUT_SECONDS = 60 * 60;
+export const DEFAULT_WORKFLOW_FOREACH_CONCURRENCY = 3;
+export const DEFAULT_WORKFLOW_FOREACH_MAX_ITEMS = 50;
+
+const DEFAULT_RETRY_BACKOFF_MS = 5_000;
+const DEFAULT_RETRY_MAX_BACKOFF_MS = 5 * 60_000;
+
+const TERMINAL_STEP_STATUSES = new Set<WorkflowStepStatus>([
+  "succeeded",
+  "failed",
+  "timed_out",
+  "rejected",
+  "skipped",
+  "cancelled",
+]);
+
+const FAILED_STEP_STATUSES = new Set<WorkflowStepStatus>([
+  "failed",
+  "timed_out",
+  "rejected",
+  "cancelled",
+]);
+
+export type WorkflowAgentStepRequest = {
+  step: WorkflowStepDefinition;
+  /** Fully rendered prompt, including prior-step context. */
+  task: string;
+  /** Display label (`step` or `step[index]` for fan-out items). */
+  label: string;
+  attempt: number;
+  signal: AbortSignal;
+};
+
+export type WorkflowAgentStepResult = {
+  status: "succeeded" | "failed" | "timed_out";
+  output?: string;
+  error?: string;
+  sessionKey?: string;
+};
+
+export type WorkflowApprovalRequest = {
+  step: WorkflowStepDefinition;
+  prompt: string;
+  timeoutMs: number;
+  signal: AbortSignal;
+  /** Called once the approval is registered and waiting for a decision. */
+  onPending: (approvalId: string) => void;
+};
+
+export type WorkflowApprovalResult = {
+  decision: "approved" | "denied" | "timeout";
+  approvalId?: string;
+  resolvedBy?: string;
+};
+
+export type WorkflowRuntimeDeps = {
+  runAgentStep: (request: WorkflowAgentStepRequest) => Promise<WorkflowAgentStepResult>;
+  requestApproval: (request: WorkflowApprovalRequest) => Promise<WorkflowApprovalResult>;
+  persist: (record: WorkflowRunRecord) => Promise<void>;
+  sleep?: (ms: number, signal: AbortSignal) => Promise<void>;
+  nowMs?: () => number;
+  /** Upper bound on concurrently running steps (and fan-out items). */
+  maxConcurrency?: number;
+};
+
+type StepRunResult = Omit<WorkflowStepOutcome, "startedAtMs" | "endedAtMs" | "durationMs">;
+
+export function isTerminalWorkflowStepStatus(status: WorkflowStepStatus | undefined): boolean {
+  return status !== undefined && TERMINAL_STEP_STATUSES.has(status);
+}
+
+/** Drop every non-successful outcome so a resumed run retries it. */
+export function resetWorkflowRunForResume(record: WorkflowRunRecord, nowMs = Date.now()) {
+  for (const [name, outcome] of Object.entries(record.steps)) {
+    if (outcome.status !== "succeeded") {
+      delete record.steps[name];
+    }
+  }
+  record.status = "running";
+  record.error = undefined;
+  record.endedAtMs = undefined;
+  record.cancelRequestedAtMs = undefined;
+  record.updatedAtMs = nowMs;
+}
+
+/**
+ * Render `{{item}}`, `{{index}}` and `{{steps.<name>.output}}` placeholders.
+ * Unknown placeholders are left untouched so literal braces survive.
+ */
+export function renderWorkflowTemplate(
+  template: string,
+  vars: Record<string, string>,
+  outcomes: Record<string, WorkflowStepOutcome | undefined>,
+): string {
+  return template.replace(/\{\{\s*([a-zA-Z0-9_.-]+)\s*\}\}/g, (match, key: string) => {
+    if (Object.hasOwn(vars, key)) {
+      return vars[key];
+    }
+    const stepRef = /^steps\.(.+)\.(output|status)$/.exec(key);
+    if (stepRef) {
+      const outcome = outcomes[stepRef[1]];
+      if (!outcome) {
+        return match;
+      }
+      return stepRef[2] === "status" ? outcome.status : (outcome.output ?? "");
+    }
+    return match;
+  });
+}
+
+function stripListMarker(line: string) {
+  return line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").trim();
+}
+
+/** Items for a fan-out: a JSON array (optionally fenced) or one item per line. */
+export function parseWorkflowItems(output: string): string[] {
+  const trimmed = output.trim();
+  if (!trimmed) {
+    return [];
+  }
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(trimmed);
+  const candidate = (fenced?.[1] ?? trimmed).trim();
+  if (candidate.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(candidate) as unknown;
+      if (Array.isArray(parsed)) {
+        return parsed
+          .map((entry) => (typeof entry === "string" ? entry : JSON.stringify(entry)))
+          .filter((entry) => entry.trim().length > 0);
+      }
+    } catch {
+      // fall through to line splitting
+    }
+  }
+  return trimmed
+    .split(/\r?\n/)
+    .map(stripListMarker)
+    .filter((line) => line.length > 0);
+}
+
+function resolveRetryPolicy(step: WorkflowStepDefinition) {
+  const retry = step.retry;
+  const maxAttempts = Math.max(1, Math.floor(retry?.maxAttempts ?? 1));
+  const initialMs = Math.max(0, retry?.backoffMs ?? DEFAULT_RETRY_BACKOFF_MS);
+  return {
+    maxAttempts,
+    retryOn: new Set<string>(retry?.retryOn?.length ? retry.retryOn : ["failed", "timed_out"]),
+    backoff: {
+      initialMs,
+      maxMs: Math.max(initialMs, retry?.maxBackoffMs ?? DEFAULT_RETRY_MAX_BACKOFF_MS),
+      factor: Math.max(1, retry?.backoffFactor ?? 2),
+      jitter: 0,
+    },
+  };
+}
+
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal, onAbort: () => T): Promise<T> {
+  if (signal.aborted) {
+    return Promise.resolve(onAbort());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => resolve(onAbort());
+    signal.addEventListener("abort", abort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", abort);
+        resolve(value);
+      },
+      (err: unknown) => {
+        signal.removeEventListener("abort", abort);
+        reject(err instanceof Error ? err : new Error(String(err)));
+      },
+    );
+  });
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = Array.from<R>({ length: items.length });
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < items.length) {
+      const index = cursor;
+      cursor += 1;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => worker()));
+  return results;
+}
+
+function formatError(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function buildContextText(
+  definition: WorkflowDefinition,
+  step: WorkflowStepDefinition,
+  stepDeps: string[],
+  outcomes: Record<string, WorkflowStepOutcome | undefined>,
+): string {
+  if (!definition.passContext) {
+    return "";
+  }
+  const index = definition.steps.findIndex((entry) => entry.name === step.name);
+  const sources =
+    definition.pattern === "sequential"
+      ? definition.steps.slice(0, index).map((entry) => entry.name)
+      : stepDeps;
+  return sources
+    .map((name) => ({ name, outcome: outcomes[name] }))
+    .filter(({ outcome }) => outcome?.status === "succeeded" && outcome.output)
+    .map(({ name, outcome }) => `### ${name}\n${outcome?.output ?? ""}`)
+    .join("\n\n");
+}
+
+function withContext(task: string, contextText: string) {
+  if (!contextText) {
+    return task;
+  }
+  return `## Context from prior workflow steps\n\n${contextText}\n\n---\n\n## Your task\n\n${task}`;
+}
+
+function isDependencySatisfied(
+  outcome: WorkflowStepOutcome | undefined,
+  definition: WorkflowStepDefinition | undefined,
+) {
+  if (!outcome) {
+    return false;
+  }
+  if (outcome.status === "succeeded") {
+    return true;
+  }
+  if (outcome.status === "skipped") {
+    return outcome.skipReason === "condition";
+  }
+  return definition?.continueOnError === true && FAILED_STEP_STATUSES.has(outcome.status);
+}
+
+/** Names of failed steps that a conditional step explicitly handled. */
+function collectHandledFailures(record: WorkflowRunRecord): Set<string> {
+  const handled = new Set<string>();
+  for (const step of record.definition.steps) {
+    const outcome = record.steps[step.name];
+    if (!step.when || !outcome || outcome.status === "skipped") {
+      continue;
+    }
+    for (const ref of collectConditionSteps(step.when)) {
+      handled.add(ref);
+    }
+  }
+  return handled;
+}
+
+export function resolveWorkflowRunFailure(record: WorkflowRunRecord): string | null {
+  const handled = collectHandledFailures(record);
+  for (const step of record.definition.steps) {
+    const outcome = record.steps[step.name];
+    if (!outcome || !FAILED_STEP_STATUSES.has(outcome.status)) {
+      continue;
+    }
+    if (step.continueOnError || handled.has(step.name)) {
+      continue;
+    }
+    const detail = outcome.error ? `: ${outcome.error}` : "";
+    return `Step "${step.name}" ${outcome.status.replace("_", " ")}${detail}`;
+  }
+  return null;
+}
+
+/**
+ * Execute (or continue) a workflow run in place. Outcomes already present on
+ * the record are kept, so callers resume by resetting the record first.
+ */
+export async function executeWorkflowRun(
+  record: WorkflowRunRecord,
+  deps: WorkflowRuntimeDeps,
+  signal: AbortSignal = new AbortController().signal,
+): Promise<WorkflowRunRecord> {
+  const now = deps.nowMs ?? Date.now;
+  const sleep = deps.sleep ?? sleepWithAbort;
+  const maxConcurrency = Math.max(1, deps.maxConcurrency ?? Number.POSITIVE_INFINITY);
+  const { definition } = record;
+  const dependencies = resolveWorkflowDependencies(definition);
+  const stepsByName = new Map(definition.steps.map((step) => [step.name, step]));
+  const inFlight = new Map<string, Promise<void>>();
+
+  let persistChain = Promise.resolve();
+  const persist = () => {
+    record.updatedAtMs = now();
+    const snapshot = structuredClone(record);
+    persistChain = persistChain
+      .then(() => deps.persist(snapshot))
+      .catch(() => {
+        // ignore persistence failures; the in-memory record stays authoritative
+      });
+    return persistChain;
+  };
+
+  const cancelled = (attempts: number): StepRunResult => ({
+    status: "cancelled",
+    error: "workflow cancelled",
+    attempts,
+  });
+
+  const runAgentWithRetry = async (
+    step: WorkflowStepDefinition,
+    task: string,
+    label: string,
+  ): Promise<StepRunResult> => {
+    const policy = resolveRetryPolicy(step);
+    let attempt = 0;
+    for (;;) {
+      attempt += 1;
+      if (signal.aborted) {
+        return cancelled(attempt - 1);
+      }
+      let result: WorkflowAgentStepResult;
+      try {
+        result = await raceAbort(
+          deps.runAgentStep({ step, task, label, attempt, signal }),
+          signal,
+          () => ({ status: "failed", error: "workflow cancelled" }),
+        );
+      } catch (err) {
+        result = { status: "failed", error: formatError(err) };
+      }
+      if (signal.aborted) {
+        return { ...cancelled(attempt), sessionKey: result.sessionKey };
+      }
+      if (
+        result.status === "succeeded" ||
+        attempt >= policy.maxAttempts ||
+        !policy.retryOn.has(result.status)
+      ) {
+        return { ...result, attempts: attempt };
+      }
+      try {
+        await sleep(computeBackoff(policy.backoff, attempt), signal);
+      } catch {
+        return cancelled(attempt);
+      }
+    }
+  };
+
+  const resolveForEachItems = (step: WorkflowStepDefinition): string[] => {
+    const forEach = step.forEach;
+    if (!forEach) {
+      return [];
+    }
+    const fromStep = forEach.fromStep?.trim();
+    const items = fromStep
+      ? parseWorkflowItems(record.steps[fromStep]?.output ?? "")
+      : (forEach.items ?? []).filter((item) => item.trim().length > 0);
+    const maxItems = Math.max(1, forEach.maxItems ?? DEFAULT_WORKFLOW_FOREACH_MAX_ITEMS);
+    return items.slice(0, maxItems);
+  };
+
+  const runForEach = async (
+    step: WorkflowStepDefinition,
+    contextText: string,
+  ): Promise<StepRunResult> => {
+    const items = resolveForEachItems(step);
+    if (items.length === 0) {
+      return { status: "succeeded", output: "[]", attempts: 0, items: [] };
+    }
+    const varName = step.forEach?.as?.trim() || "item";
+    const limit = Math.min(
+      maxConcurrency,
+      Math.max(1, step.forEach?.concurrency ?? DEFAULT_WORKFLOW_FOREACH_CONCURRENCY),
+    );
+    const itemOutcomes = await mapWithConcurrency(
+      items,
+      limit,
+      async (item, index): Promise<WorkflowItemOutcome> => {
+        const task = renderWorkflowTemplate(
+          step.task ?? "",
+          { [varName]: item, item, index: String(index) },
+          record.steps,
+        );
+        const result = await runAgentWithRetry(
+          step,
+          withContext(task, contextText),
+          `${step.name}[${index}]`,
+        );
+        return {
+          item,
+          status: result.status,
+          output: result.output,
+          error: result.error,
+          attempts: result.attempts,
+          sessionKey: result.sessionKey,
+        };
+      },
+    );
+    const failedItem = itemOutcomes.find((entry) => entry.status !== "succeeded");
+    return {
+      status: signal.aborted ? "cancelled" : failedItem ? failedItem.status : "succeeded",
+      output: JSON.stringify(itemOutcomes.map((entry) => entry.output ?? null)),
+      error: failedItem
+        ? `item ${itemOutcomes.indexOf(failedItem)} (${failedItem.item}) ${failedItem.status}${
+            failedItem.error ? `: ${failedItem.error}` : ""
+          }`
+        : undefined,
+      attempts: itemOutcomes.reduce((max, entry) => Math.max(max, entry.attempts), 0),
+      items: itemOutcomes,
+    };
+  };
+
+  const runApproval = async (step: WorkflowStepDefinition): Promise<StepRunResult> => {
+    const timeoutSeconds = step.timeoutSeconds ?? DEFAULT_WORKFLOW_APPROVAL_TIMEOUT_SECONDS;
+    const prompt = renderWorkflowTemplate(
+      step.task?.trim() || `Approve workflow step "${step.name}"?`,
+      {},
+      record.steps,
+    );
+    const result = await raceAbort(
+      deps.requestApproval({
+        step,
+        prompt,
+        timeoutMs: Math.max(1, timeoutSeconds) * 1000,
+        signal,
+        onPending: (approvalId) => {
+          const outcome = record.steps[step.name];
+          if (outcome && !isTerminalWorkflowStepStatus(outcome.status)) {
+            outcome.status = "waiting_approval";
+            outcome.approvalId = approvalId;
+            void persist();
+          }
+        },
+      }),
+      signal,
+      (): WorkflowApprovalResult => ({ decision: "timeout" }),
+    );
+    if (signal.aborted) {
+      return { ...cancelled(1), approvalId: result.approvalId };
+    }
+    const base = { attempts: 1, approvalId: result.approvalId, resolvedBy: result.resolvedBy };
+    if (result.decision === "approved") {
+      return { ...base, status: "succeeded", output: "approved" };
+    }
+    if (result.decision === "denied") {
+      return { ...base, status: "rejected", output: "denied", error: "approval denied" };
+    }
+    return { ...base, status: "timed_out", error: `no decision after ${timeoutSeconds}s` };
+  };
+
+  const runStep = async (step: WorkflowStepDefinition, stepDeps: string[]) => {
+    const startedAtMs = now();
+    let result: StepRunResult;
+    try {
+      if (resolveWorkflowStepKind(step) === "approval") {
+        result = await runApproval(step);
+      } else {
+        const contextText = buildContextText(definition, step, stepDeps, record.steps);
+        if (step.forEach) {
+          result = await runForEach(step, contextText);
+        } else {
+          const task = renderWorkflowTemplate(step.task ?? "", {}, record.steps);
+          result = await runAgentWithRetry(step, withContext(task, contextText), step.name);
+        }
+      }
+    } catch (err) {
+      result = { status: "failed", error: formatError(err), attempts: 1 };
+    }
+    const endedAtMs = now();
+    record.steps[step.name] = {
+      ...record.steps[step.name],
+      ...result,
+      startedAtMs,
+      endedAtMs,
+      durationMs: endedAtMs - startedAtMs,
+    };
+    await persist();
+  };
+
+  const abortPromise = new Promise<void>((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    signal.addEventListener("abort", () => resolve(), { once: true });
+  });
+
+  record.status = "running";
+  await persist();
+
+  while (!signal.aborted) {
+    let progressed = false;
+    for (const step of definition.steps) {
+      if (record.steps[step.name] || inFlight.has(step.name)) {
+        continue;
+      }
+      const stepDeps = dependencies.get(step.name) ?? [];
+      if (!stepDeps.every((dep) => isTerminalWorkflowStepStatus(record.steps[dep]?.status))) {
+        continue;
+      }
+      const guarded = new Set(collectConditionSteps(step.when));
+      const blocked = stepDeps.some(
+        (dep) =>
+          !guarded.has(dep) && !isDependencySatisfied(record.steps[dep], stepsByName.get(dep)),
+      );
+      if (blocked) {
+        record.steps[step.name] = { status: "skipped", skipReason: "dependency", attempts: 0 };
+        progressed = true;
+        continue;
+      }
+      if (step.when && !evaluateWorkflowCondition(step.when, record.steps)) {
+        record.steps[step.name] = { status: "skipped", skipReason: "condition", attempts: 0 };
+        progressed = true;
+        continue;
+      }
+      if (inFlight.size >= maxConcurrency) {
+        continue;
+      }
+      record.steps[step.name] = { status: "running", attempts: 0, startedAtMs: now() };
+      inFlight.set(
+        step.name,
+        runStep(step, stepDeps).finally(() => {
+          inFlight.delete(step.name);
+        }),
+      );
+      progressed = true;
+    }
+    if (progressed) {
+      await persist();
+    }
+    if (inFlight.size === 0) {
+      if (!progressed) {
+        break;
+      }
+      continue;
+    }
+    await Promise.race([...inFlight.values(), abortPromise]);
+  }
+
+  if (inFlight.size > 0) {
+    await Promise.allSettled(inFlight.values());
+  }
+
+  const endedAtMs = now();
+  if (signal.aborted) {
+    for (const step of definition.steps) {
+      const outcome = record.steps[step.name];
+      if (!outcome) {
+        record.steps[step.name] = { ...cancelled(0) };
+      } else if (!isTerminalWorkflowStepStatus(outcome.status)) {
+        record.steps[step.name] = { ...outcome, ...cancelled(outcome.attempts) };
+      }
+    }
+    record.status = "cancelled";
+    record.error = "workflow cancelled";
+  } else {
+    const failure = resolveWorkflowRunFailure(record);
+    record.status = failure ? "failed" : "succeeded";
+    record.error = failure ?? undefined;
+  }
+  record.endedAtMs = endedAtMs;
+  await persist();
+  return record;
+}
@@ -0,0 +1,84 @@
+import { Type } from "@sinclair/typebox";
+import { optionalStringEnum, stringEnum } from "../agents/schema/typebox.js";
+
+export const WORKFLOW_PATTERNS = ["sequential", "parallel", "dag"] as const;
+const WORKFLOW_STEP_KINDS = ["agent", "approval"] as const;
+const WORKFLOW_STEP_STATUSES = [
+  "succeeded",
+  "failed",
+  "timed_out",
+  "rejected",
+  "skipped",
+  "cancelled",
+] as const;
+
+// Flattened condition: nested unions/recursion are rejected by some providers.
+const WorkflowConditionLeafSchema = Type.Object({
+  step: Type.Optional(Type.String()),
+  status: Type.Optional(Type.Array(stringEnum(WORKFLOW_STEP_STATUSES))),
+  outputContains: Type.Optional(Type.String()),
+  outputMatches: Type.Optional(Type.String()),
+  negate: Type.Optional(Type.Boolean()),
+});
+
+const WorkflowConditionSchema = Type.Object({
+  step: Type.Optional(Type.String()),
+  status: Type.Optional(Type.Array(stringEnum(WORKFLOW_STEP_STATUSES))),
+  outputContains: Type.Optional(Type.String()),
+  outputMatches: Type.Optional(Type.String()),
+  negate: Type.Optional(Type.Boolean()),
+  all: Type.Optional(Type.Array(WorkflowConditionLeafSchema)),
+  any: Type.Optional(Type.Array(WorkflowConditionLeafSchema)),
+});
+
+export const WorkflowStepSchema = Type.Object({
+  name: Type.String(),
+  kind: optionalStringEnum(WORKFLOW_STEP_KINDS),
+  task: Type.Optional(Type.String()),
+  model: Type.Optional(Type.String()),
+  thinking: Type.Optional(Type.String()),
+  /** Session template applied to the step's sub-agent session */
+  template: Type.Optional(Type.String()),
+  dependsOn: Type.Optional(Type.Array(Type.String())),
+  timeoutSeconds: Type.Optional(Type.Number({ minimum: 0 })),
+  /** Run only when the condition over earlier step outcomes holds */
+  when: Type.Optional(WorkflowConditionSchema),
+  /** Fan out over literal items or the output of an earlier step */
+  forEach: Type.Optional(
+    Type.Object({
+      items: Type.Optional(Type.Array(Type.String())),
+      fromStep: Type.Optional(Type.String()),
+      as: Type.Optional(Type.String()),
+      concurrency: Type.Optional(Type.Number({ minimum: 1 })),
+      maxItems: Type.Optional(Type.Number({ minimum: 1 })),
+    }),
+  ),
+  retry: Type.Optional(
+    Type.Object({
+      maxAttempts: Type.Optional(Type.Number({ minimum: 1 })),
+      backoffMs: Type.Optional(Type.Number({ minimum: 0 })),
+      backoffFactor: Type.Optional(Type.Number({ minimum: 1 })),
+      maxBackoffMs: Type.Optional(Type.Number({ minimum: 0 })),
+    }),
+  ),
+  continueOnError: Type.Optional(Type.Boolean()),
+});
+
+export const WorkflowToolSchema = Type.Object({
+  /** Run a named workflow definition instead of inline pattern/steps */
+  workflow: Type.Optional(Type.String()),
+  /** Values substituted into `{{params.<name>}}` placeholders */
+  params: Type.Optional(Type.Record(Type.String(), Type.String())),
+  pattern: optionalStringEnum(WORKFLOW_PATTERNS),
+  steps: Type.Optional(Type.Array(WorkflowStepSchema)),
+  /** How to combine parallel results: concatenate (default) or merge */
+  merge: optionalStringEnum(["concatenate", "merge"] as const),
+  /** Pass accumulated context from prior steps into each task prompt */
+  passContext: Type.Optional(Type.Boolean()),
+  /** Optional label for the whole workflow */
+  label: Type.Optional(Type.String()),
+  /** Resume the latest unfinished run with the same label and steps */
+  resume: Type.Optional(Type.Boolean()),
+  /** Return immediately with the run id instead of waiting for completion */
+  background: Type.Optional(Type.Boolean()),
+});
@@ -0,0 +1,69 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { WorkflowRunRecord } from "./types.js";
+import { findResumableWorkflowRun } from "./service.js";
+import { saveWorkflowRun } from "./store.js";
+
+let runsDir = "";
+
+beforeEach(async () => {
+  runsDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-workflow-runs-"));
+});
+
+afterEach(async () => {
+  await fs.rm(runsDir, { recursive: true, force: true });
+});
+
+function makeRun(runId: string, requester: { sessionKey: string; agentId: string }) {
+  return {
+    version: 1,
+    runId,
+    label: "nightly",
+    definition: {
+      pattern: "sequential",
+      steps: [
+        { name: "fetch", task: "fetch" },
+        { name: "report", task: "report" },
+      ],
+    },
+    requester: { ...requester, callerDepth: 0, maxSpawnDepth: 1 },
+    status: "failed",
+    steps: {},
+    createdAtMs: 1,
+    updatedAtMs: 1,
+  } satisfies WorkflowRunRecord;
+}
+
+describe("findResumableWorkflowRun", () => {
+  it("only returns runs started by the same requester session and agent", async () => {
+    await saveWorkflowRun(
+      makeRun("run-main", { sessionKey: "agent:main:main", agentId: "main" }),
+      runsDir,
+    );
+    await saveWorkflowRun(
+      makeRun("run-other", { sessionKey: "agent:ops:main", agentId: "ops" }),
+      runsDir,
+    );
+    const query = { label: "nightly", stepNames: ["fetch", "report"] };
+
+    const own = await findResumableWorkflowRun(
+      { ...query, requesterSessionKey: "agent:ops:main", agentId: "ops" },
+      { runsDir },
+    );
+    expect(own?.runId).toBe("run-other");
+
+    const foreign = await findResumableWorkflowRun(
+      { ...query, requesterSessionKey: "agent:guest:main", agentId: "guest" },
+      { runsDir },
+    );
+    expect(foreign).toBeNull();
+
+    const otherSession = await findResumableWorkflowRun(
+      { ...query, requesterSessionKey: "agent:main:subagent:x", agentId: "main" },
+      { runsDir },
+    );
+    expect(otherSession).toBeNull();
+  });
+});
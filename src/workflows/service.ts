@@ -0,0 +1,298 @@
+import crypto from "node:crypto";
+import type { OpenClawConfig } from "../config/config.js";
+import type { DeliveryContext } from "../utils/delivery-context.js";
+import type {
+  WorkflowDefinition,
+  WorkflowRequester,
+  WorkflowRunRecord,
+  WorkflowRunSummary,
+  WorkflowStepStatus,
+} from "./types.js";
+import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import { resolveAgentMainSessionKey } from "../config/sessions.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import { validateWorkflowDefinition } from "./definition.js";
+import {
+  requestWorkflowApprovalViaGateway,
+  runWorkflowAgentStepViaGateway,
+} from "./gateway-deps.js";
+import { applyWorkflowParams, resolveNamedWorkflow } from "./library.js";
+import {
+  executeWorkflowRun,
+  resetWorkflowRunForResume,
+  type WorkflowRuntimeDeps,
+} from "./runtime.js";
+import { listWorkflowRuns, loadWorkflowRun, saveWorkflowRun } from "./store.js";
+
+export type WorkflowServiceOptions = {
+  cfg?: OpenClawConfig;
+  runsDir?: string;
+  /** Test seam: replace the gateway-backed step runners. */
+  runtime?: Partial<Omit<WorkflowRuntimeDeps, "persist">>;
+};
+
+export type ActiveWorkflowRun = {
+  record: WorkflowRunRecord;
+  controller: AbortController;
+  done: Promise<WorkflowRunRecord>;
+};
+
+const activeRuns = new Map<string, ActiveWorkflowRun>();
+
+function buildRuntimeDeps(
+  record: WorkflowRunRecord,
+  cfg: OpenClawConfig,
+  opts: WorkflowServiceOptions,
+): WorkflowRuntimeDeps {
+  return {
+    runAgentStep: (request) =>
+      runWorkflowAgentStepViaGateway({ request, requester: record.requester, cfg }),
+    requestApproval: (request) =>
+      requestWorkflowApprovalViaGateway({
+        request,
+        requester: record.requester,
+        workflowLabel: record.label,
+      }),
+    maxConcurrency: cfg.agents?.defaults?.subagents?.maxChildrenPerAgent ?? 5,
+    ...opts.runtime,
+    persist: (snapshot) => saveWorkflowRun(snapshot, opts.runsDir),
+  };
+}
+
+function launchWorkflowRun(
+  record: WorkflowRunRecord,
+  opts: WorkflowServiceOptions,
+): ActiveWorkflowRun {
+  const cfg = opts.cfg ?? loadConfig();
+  const controller = new AbortController();
+  const done = executeWorkflowRun(record, buildRuntimeDeps(record, cfg, opts), controller.signal)
+    .catch(async (err) => {
+      record.status = "failed";
+      record.error = err instanceof Error ? err.message : String(err);
+      record.endedAtMs = Date.now();
+      record.updatedAtMs = record.endedAtMs;
+      await saveWorkflowRun(record, opts.runsDir).catch(() => {});
+      return record;
+    })
+    .finally(() => {
+      if (activeRuns.get(record.runId)?.record === record) {
+        activeRuns.delete(record.runId);
+      }
+    });
+  const active = { record, controller, done };
+  activeRuns.set(record.runId, active);
+  return active;
+}
+
+export function startWorkflowRun(
+  params: {
+    definition: WorkflowDefinition;
+    requester: WorkflowRequester;
+    workflowName?: string;
+    params?: Record<string, string>;
+  },
+  opts: WorkflowServiceOptions = {},
+): ActiveWorkflowRun {
+  const validation = validateWorkflowDefinition(params.definition);
+  if (!validation.ok) {
+    throw new Error(validation.error);
+  }
+  const now = Date.now();
+  const record: WorkflowRunRecord = {
+    version: 1,
+    runId: crypto.randomUUID(),
+    label: params.definition.label?.trim() || `workflow-${now}`,
+    definition: params.definition,
+    ...(params.workflowName ? { workflowName: params.workflowName } : {}),
+    ...(params.params && Object.keys(params.params).length > 0 ? { params: params.params } : {}),
+    requester: params.requester,
+    status: "running",
+    steps: {},
+    createdAtMs: now,
+    updatedAtMs: now,
+  };
+  return launchWorkflowRun(record, opts);
+}
+
+/**
+ * Start a stored workflow by name (gateway `workflow.run`, cron payloads).
+ * Runs are requested on behalf of the agent's main session at depth 0.
+ */
+export async function startNamedWorkflowRun(
+  params: {
+    name: string;
+    params?: Record<string, string>;
+    agentId?: string;
+    sessionKey?: string;
+    origin?: DeliveryContext;
+  },
+  opts: WorkflowServiceOptions = {},
+): Promise<ActiveWorkflowRun> {
+  const cfg = opts.cfg ?? loadConfig();
+  const agentId = normalizeAgentId(params.agentId ?? resolveDefaultAgentId(cfg));
+  const workflow = await resolveNamedWorkflow({ cfg, name: params.name, agentId });
+  if (!workflow) {
+    throw new Error(`workflow "${params.name}" not found`);
+  }
+  const applied = applyWorkflowParams(workflow, params.params);
+  return startWorkflowRun(
+    {
+      definition: applied.definition,
+      workflowName: workflow.name,
+      params: applied.params,
+      requester: {
+        sessionKey: params.sessionKey ?? resolveAgentMainSessionKey({ cfg, agentId }),
+        agentId,
+        origin: params.origin,
+        callerDepth: 0,
+        maxSpawnDepth: cfg.agents?.defaults?.subagents?.maxSpawnDepth ?? 1,
+      },
+    },
+    { ...opts, cfg },
+  );
+}
+
+export async function resumeWorkflowRun(
+  runId: string,
+  opts: WorkflowServiceOptions = {},
+): Promise<ActiveWorkflowRun> {
+  if (activeRuns.has(runId)) {
+    throw new Error(`workflow ${runId} is already running`);
+  }
+  const record = await loadWorkflowRun(runId, opts.runsDir);
+  if (!record) {
+    throw new Error(`workflow ${runId} not found`);
+  }
+  if (record.status === "succeeded") {
+    throw new Error(`workflow ${runId} already succeeded`);
+  }
+  resetWorkflowRunForResume(record);
+  return launchWorkflowRun(record, opts);
+}
+
+export async function cancelWorkflowRun(
+  runId: string,
+  opts: Pick<WorkflowServiceOptions, "runsDir"> = {},
+): Promise<{ found: boolean; cancelled: boolean; status?: WorkflowRunRecord["status"] }> {
+  const active = activeRuns.get(runId);
+  if (active) {
+    active.record.cancelRequestedAtMs = Date.now();
+    active.controller.abort();
+    const record = await active.done;
+    return { found: true, cancelled: record.status === "cancelled", status: record.status };
+  }
+  const record = await loadWorkflowRun(runId, opts.runsDir);
+  if (!record) {
+    return { found: false, cancelled: false };
+  }
+  if (record.status !== "running") {
+    return { found: true, cancelled: false, status: record.status };
+  }
+  // Not executing in this process (e.g. interrupted by a restart): settle the record.
+  const now = Date.now();
+  record.status = "cancelled";
+  record.error = "workflow cancelled";
+  record.cancelRequestedAtMs = now;
+  record.endedAtMs = now;
+  record.updatedAtMs = now;
+  await saveWorkflowRun(record, opts.runsDir);
+  return { found: true, cancelled: true, status: record.status };
+}
+
+export function isWorkflowRunActive(runId: string): boolean {
+  return activeRuns.has(runId);
+}
+
+export async function getWorkflowRun(
+  runId: string,
+  opts: Pick<WorkflowServiceOptions, "runsDir"> = {},
+): Promise<WorkflowRunRecord | null> {
+  return activeRuns.get(runId)?.record ?? (await loadWorkflowRun(runId, opts.runsDir));
+}
+
+/**
+ * Latest unfinished run with the same label and step names, for `resume: true`.
+ * Only runs started by the same requester session and agent qualify: a resumed
+ * run executes its stored definition under the original requester.
+ */
+export async function findResumableWorkflowRun(
+  params: { label: string; stepNames: string[]; requesterSessionKey: string; agentId: string },
+  opts: Pick<WorkflowServiceOptions, "runsDir"> = {},
+): Promise<WorkflowRunRecord | null> {
+  const runs = await listWorkflowRuns({ runsDir: opts.runsDir });
+  const signature = params.stepNames.join(",");
+  return (
+    runs.find(
+      (run) =>
+        run.label === params.label &&
+        run.requester.sessionKey === params.requesterSessionKey &&
+        run.requester.agentId === params.agentId &&
+        run.status !== "succeeded" &&
+        !activeRuns.has(run.runId) &&
+        run.definition.steps.map((step) => step.name).join(",") === signature,
+    ) ?? null
+  );
+}
+
+export function summarizeWorkflowRun(record: WorkflowRunRecord): WorkflowRunSummary {
+  const counts: Partial<Record<WorkflowStepStatus, number>> = {};
+  let waitingApproval: WorkflowRunSummary["waitingApproval"];
+  for (const step of record.definition.steps) {
+    const outcome = record.steps[step.name];
+    const status = outcome?.status ?? "pending";
+    counts[status] = (counts[status] ?? 0) + 1;
+    if (status === "waiting_approval" && !waitingApproval) {
+      waitingApproval = { step: step.name, approvalId: outcome?.approvalId };
+    }
+  }
+  return {
+    runId: record.runId,
+    label: record.label,
+    ...(record.workflowName ? { workflowName: record.workflowName } : {}),
+    pattern: record.definition.pattern,
+    status: record.status,
+    active: activeRuns.has(record.runId),
+    ...(waitingApproval ? { waitingApproval } : {}),
+    requesterSessionKey: record.requester.sessionKey,
+    agentId: record.requester.agentId,
+    totalSteps: record.definition.steps.length,
+    counts,
+    createdAtMs: record.createdAtMs,
+    updatedAtMs: record.updatedAtMs,
+    ...(record.endedAtMs !== undefined ? { endedAtMs: record.endedAtMs } : {}),
+    ...(record.error ? { error: record.error } : {}),
+  };
+}
+
+export async function listWorkflowRunSummaries(
+  params: {
+    limit?: number;
+    status?: WorkflowRunRecord["status"];
+    agentId?: string;
+    workflow?: string;
+  } = {},
+  opts: Pick<WorkflowServiceOptions, "runsDir"> = {},
+): Promise<WorkflowRunSummary[]> {
+  const stored = await listWorkflowRuns({ runsDir: opts.runsDir });
+  const byId = new Map(stored.map((run) => [run.runId, run]));
+  for (const active of activeRuns.values()) {
+    byId.set(active.record.runId, active.record);
+  }
+  const runs = [...byId.values()]
+    .filter((run) => !params.status || run.status === params.status)
+    .filter((run) => !params.agentId || run.requester.agentId === params.agentId)
+    .filter((run) => !params.workflow || run.workflowName === params.workflow)
+    .toSorted((a, b) => b.updatedAtMs - a.updatedAtMs);
+  const limit = params.limit && params.limit > 0 ? Math.floor(params.limit) : runs.length;
+  return runs.slice(0, limit).map(summarizeWorkflowRun);
+}
+
+export const __testing = {
+  resetActiveWorkflowRuns() {
+    for (const active of activeRuns.values()) {
+      active.controller.abort();
+    }
+    activeRuns.clear();
+  },
+};
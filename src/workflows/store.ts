@@ -0,0 +1,80 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { WorkflowRunRecord } from "./types.js";
+import { resolveStateDir } from "../config/paths.js";
+import { readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+
+const RUN_ID_RE = /^[a-zA-Z0-9_-]+$/;
+
+export function resolveWorkflowRunsDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), "workflows", "runs");
+}
+
+function resolveRunPath(runsDir: string, runId: string): string {
+  if (!RUN_ID_RE.test(runId)) {
+    throw new Error(`invalid workflow run id: ${runId}`);
+  }
+  return path.join(runsDir, `${runId}.json`);
+}
+
+function isWorkflowRunRecord(value: unknown): value is WorkflowRunRecord {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const record = value as Partial<WorkflowRunRecord>;
+  return (
+    record.version === 1 &&
+    typeof record.runId === "string" &&
+    typeof record.status === "string" &&
+    Boolean(record.definition) &&
+    Array.isArray(record.definition?.steps) &&
+    Boolean(record.steps) &&
+    typeof record.steps === "object"
+  );
+}
+
+export async function saveWorkflowRun(
+  record: WorkflowRunRecord,
+  runsDir = resolveWorkflowRunsDir(),
+): Promise<void> {
+  await writeJsonAtomic(resolveRunPath(runsDir, record.runId), record);
+}
+
+export async function loadWorkflowRun(
+  runId: string,
+  runsDir = resolveWorkflowRunsDir(),
+): Promise<WorkflowRunRecord | null> {
+  if (!RUN_ID_RE.test(runId)) {
+    return null;
+  }
+  const raw = await readJsonFile<unknown>(resolveRunPath(runsDir, runId));
+  return isWorkflowRunRecord(raw) ? raw : null;
+}
+
+export async function listWorkflowRuns(
+  opts: { limit?: number; runsDir?: string } = {},
+): Promise<WorkflowRunRecord[]> {
+  const runsDir = opts.runsDir ?? resolveWorkflowRunsDir();
+  let names: string[];
+  try {
+    names = await fs.readdir(runsDir);
+  } catch (err) {
+    if ((err as { code?: unknown })?.code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+  const records: WorkflowRunRecord[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) {
+      continue;
+    }
+    const raw = await readJsonFile<unknown>(path.join(runsDir, name));
+    if (isWorkflowRunRecord(raw)) {
+      records.push(raw);
+    }
+  }
+  records.sort((a, b) => b.updatedAtMs - a.updatedAtMs);
+  const limit = opts.limit && opts.limit > 0 ? Math.floor(opts.limit) : undefined;
+  return limit ? records.slice(0, limit) : records;
+}
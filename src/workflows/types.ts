@@ -0,0 +1,169 @@
+import type { DeliveryContext } from "../utils/delivery-context.js";
+
+export type WorkflowPattern = "sequential" | "parallel" | "dag";
+
+export type WorkflowStepKind = "agent" | "approval";
+
+export type WorkflowStepStatus =
+  | "pending"
+  | "running"
+  | "waiting_approval"
+  | "succeeded"
+  | "failed"
+  | "timed_out"
+  | "rejected"
+  | "skipped"
+  | "cancelled";
+
+export type WorkflowRunStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * Guard evaluated against earlier step outcomes. A leaf checks one step
+ * (`step` + `status`/`outputContains`/`outputMatches`); `all`/`any` combine
+ * nested conditions and `negate` flips the final result.
+ */
+export type WorkflowCondition = {
+  step?: string;
+  /** Accepted statuses for `step` (default: succeeded). */
+  status?: WorkflowStepStatus | WorkflowStepStatus[];
+  outputContains?: string;
+  /** Regular expression tested against the step output. */
+  outputMatches?: string;
+  all?: WorkflowCondition[];
+  any?: WorkflowCondition[];
+  negate?: boolean;
+};
+
+export type WorkflowRetryPolicy = {
+  /** Total attempts including the first one (default: 1). */
+  maxAttempts?: number;
+  backoffMs?: number;
+  backoffFactor?: number;
+  maxBackoffMs?: number;
+  /** Outcomes that trigger another attempt (default: failed + timed_out). */
+  retryOn?: Array<"failed" | "timed_out">;
+};
+
+export type WorkflowForEach = {
+  /** Literal items to fan out over. */
+  items?: string[];
+  /** Use the output of an earlier step (JSON array or one item per line). */
+  fromStep?: string;
+  /** Template variable name for the current item (default: "item"). */
+  as?: string;
+  concurrency?: number;
+  maxItems?: number;
+};
+
+export type WorkflowStepDefinition = {
+  name: string;
+  kind?: WorkflowStepKind;
+  /** Agent task, or the prompt shown to the approver for approval steps. */
+  task?: string;
+  model?: string;
+  thinking?: string;
+  /** Session template (session.templates) for the step's sub-agent session. */
+  template?: string;
+  dependsOn?: string[];
+  timeoutSeconds?: number;
+  when?: WorkflowCondition;
+  forEach?: WorkflowForEach;
+  retry?: WorkflowRetryPolicy;
+  /** Do not fail the workflow (or skip dependents) when this step fails. */
+  continueOnError?: boolean;
+};
+
+export type WorkflowDefinition = {
+  pattern: WorkflowPattern;
+  steps: WorkflowStepDefinition[];
+  passContext?: boolean;
+  merge?: "concatenate" | "merge";
+  label?: string;
+};
+
+export type WorkflowParamSpec = {
+  description?: string;
+  default?: string;
+  required?: boolean;
+};
+
+/** A reusable workflow loaded from a YAML/JSON file or `workflows.definitions`. */
+export type NamedWorkflowDefinition = {
+  name: string;
+  description?: string;
+  params: Record<string, WorkflowParamSpec>;
+  definition: WorkflowDefinition;
+  source: "workspace" | "config" | "path";
+  /** File the definition was loaded from (absent for inline config). */
+  path?: string;
+};
+
+export type WorkflowItemOutcome = {
+  item: string;
+  status: WorkflowStepStatus;
+  output?: string;
+  error?: string;
+  attempts: number;
+  sessionKey?: string;
+};
+
+export type WorkflowStepOutcome = {
+  status: WorkflowStepStatus;
+  output?: string;
+  error?: string;
+  attempts: number;
+  startedAtMs?: number;
+  endedAtMs?: number;
+  durationMs?: number;
+  skipReason?: "condition" | "dependency";
+  sessionKey?: string;
+  approvalId?: string;
+  resolvedBy?: string;
+  items?: WorkflowItemOutcome[];
+};
+
+export type WorkflowRequester = {
+  sessionKey: string;
+  agentId: string;
+  origin?: DeliveryContext;
+  callerDepth: number;
+  maxSpawnDepth: number;
+};
+
+export type WorkflowRunRecord = {
+  version: 1;
+  runId: string;
+  label: string;
+  definition: WorkflowDefinition;
+  /** Name of the stored definition this run was started from, if any. */
+  workflowName?: string;
+  params?: Record<string, string>;
+  requester: WorkflowRequester;
+  status: WorkflowRunStatus;
+  steps: Record<string, WorkflowStepOutcome>;
+  createdAtMs: number;
+  updatedAtMs: number;
+  endedAtMs?: number;
+  error?: string;
+  cancelRequestedAtMs?: number;
+};
+
+export type WorkflowRunSummary = {
+  runId: string;
+  label: string;
+  workflowName?: string;
+  pattern: WorkflowPattern;
+  status: WorkflowRunStatus;
+  /** True when the run is executing in this process. */
+  active: boolean;
+  /** Step currently blocked on a human decision, if any. */
+  waitingApproval?: { step: string; approvalId?: string };
+  requesterSessionKey: string;
+  agentId: string;
+  totalSteps: number;
+  counts: Partial<Record<WorkflowStepStatus, number>>;
+  createdAtMs: number;
+  updatedAtMs: number;
+  endedAtMs?: number;
+  error?: string;
+};
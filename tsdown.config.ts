@@ -44,6 +44,14 @@ export default defineConfig([
     fixedExtension: false,
     platform: "node",
   },
+  {
+    // Loaded by path as the entry of out-of-process plugin sandbox hosts.
+    entry: "src/plugins/sandbox-host.ts",
+    outDir: "dist/plugins",
+    env,
+    fixedExtension: false,
+    platform: "node",
+  },
   {
     entry: "src/extensionAPI.ts",
     env,
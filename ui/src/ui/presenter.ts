@@ -59,6 +59,14 @@ export function formatCronSchedule(job: CronJob) {
   if (s.kind === "every") {
     return `Every ${formatDurationHuman(s.everyMs)}`;
   }
+  if (s.kind === "trigger") {
+    const upstream = [
+      ...(job.triggers?.onSuccess ?? []),
+      ...(job.triggers?.onFailure ?? []),
+      ...(job.triggers?.after ?? []),
+    ];
+    return upstream.length > 0 ? `After ${upstream.join(", ")}` : "On trigger";
+  }
   return `Cron ${s.expr}${s.tz ? ` (${s.tz})` : ""}`;
 }
 
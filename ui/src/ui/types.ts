@@ -437,7 +437,15 @@ export type {
 export type CronSchedule =
   | { kind: "at"; at: string }
   | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string };
+  | { kind: "cron"; expr: string; tz?: string }
+  | { kind: "trigger" };
+
+export type CronTriggers = {
+  onSuccess?: string[];
+  onFailure?: string[];
+  after?: string[];
+  passOutput?: boolean;
+};
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -482,6 +490,7 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  triggers?: CronTriggers;
   state?: CronJobState;
 };
 